@@ -0,0 +1,63 @@
+#!/usr/bin/env tsx
+
+/**
+ * Offline ranking evaluation
+ * Replays a recorded interaction log against a catalog snapshot and prints
+ * precision@k, NDCG, coverage, diversity and novelty per strategy, so
+ * ranking PRs can show before/after numbers.
+ *
+ * Usage:
+ *   npm run eval:ranking
+ *   npx tsx scripts/evaluate-ranking.ts --log interactions.jsonl --catalog catalog.json --k 10
+ *   npx tsx scripts/evaluate-ranking.ts --weights candidate-weights.json --json
+ *
+ * --weights adds an affinity-rows variant scored with the given WEIGHTS
+ * override next to the current ones.
+ */
+
+import { readFileSync } from 'fs'
+import { resolve } from 'path'
+import { evaluateStrategies, formatReport, parseInteractionLog } from '../src/lib/personalization/evaluation/replay'
+import { affinityRowsStrategy, defaultStrategies } from '../src/lib/personalization/evaluation/strategies'
+import { WEIGHTS } from '../src/lib/tracking/affinity'
+
+const FIXTURES_DIR = resolve(__dirname, '../src/__tests__/fixtures/ranking')
+
+function getArg(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`)
+  return index === -1 ? undefined : process.argv[index + 1]
+}
+
+function main() {
+  const logPath = getArg('log') || resolve(FIXTURES_DIR, 'interactions.jsonl')
+  const catalogPath = getArg('catalog') || resolve(FIXTURES_DIR, 'catalog.json')
+  const weightsPath = getArg('weights')
+  const k = parseInt(getArg('k') || '10')
+
+  const log = parseInteractionLog(readFileSync(logPath, 'utf8'))
+  const catalog = JSON.parse(readFileSync(catalogPath, 'utf8'))
+
+  const strategies = defaultStrategies()
+  if (weightsPath) {
+    const overrides = JSON.parse(readFileSync(weightsPath, 'utf8'))
+    strategies.push(affinityRowsStrategy({
+      name: 'affinity-rows (candidate weights)',
+      weights: { ...WEIGHTS, ...overrides }
+    }))
+  }
+
+  const report = evaluateStrategies(strategies, log, catalog, { k })
+
+  if (process.argv.includes('--json')) {
+    console.log(JSON.stringify(report, null, 2))
+  } else {
+    console.log(`\n📊 ${formatReport(report)}\n`)
+  }
+}
+
+try {
+  main()
+} catch (error) {
+  console.error('❌ Ranking evaluation failed:', error instanceof Error ? error.message : error)
+  process.exit(1)
+}
@@ -0,0 +1,94 @@
+/**
+ * Unit tests for "why am I seeing this" explanations on affinity scores
+ */
+
+import { computeAffinity, explainCategory, explainEvent, reorderRows } from '@/lib/tracking/affinity'
+import type { InteractionEvent } from '@/lib/tracking/client'
+
+const DAY = 24 * 60 * 60 * 1000
+
+function interaction(overrides: Partial<InteractionEvent> = {}): InteractionEvent {
+  return {
+    type: 'click',
+    category: 'music',
+    timestamp: Date.now() - DAY,
+    sessionId: 'session_a',
+    ...overrides,
+  }
+}
+
+describe('explainCategory', () => {
+  it('should list contributing signals strongest first with decay ages', () => {
+    const affinity = computeAffinity([
+      interaction({ type: 'click', timestamp: Date.now() - 2 * DAY }),
+      interaction({ type: 'save', timestamp: Date.now() - 10 * DAY }),
+      interaction({ type: 'click', category: 'comedy' }),
+    ])
+
+    const explanation = explainCategory(affinity, 'music')
+
+    expect(explanation.reason).toBe('affinity')
+    expect(explanation.signals.map(s => [s.type, s.count])).toEqual([['save', 1], ['click', 1]])
+    expect(explanation.categories).toEqual([{ id: 'music', score: 1 }])
+    expect(explanation.decay).toEqual({ halfLifeDays: 30, newestAgeDays: 2, oldestAgeDays: 10 })
+    expect(explanation.summary).toBe('You saved 1 event and opened 1 event in music, most recently 2 days ago')
+  })
+
+  it('should count show_less as a negative signal', () => {
+    const affinity = computeAffinity([
+      interaction({ type: 'click' }),
+      interaction({ type: 'show_less' }),
+    ])
+
+    const showLess = explainCategory(affinity, 'music').signals.find(s => s.type === 'show_less')
+
+    expect(showLess?.weight).toBeLessThan(0)
+    expect(affinity.categories.music).toBeLessThan(0)
+  })
+})
+
+describe('explainEvent', () => {
+  it('should combine category and venue evidence', () => {
+    const affinity = computeAffinity([
+      interaction({ type: 'save', venue: 'Massey Hall' }),
+      interaction({ type: 'click', category: 'comedy', venue: 'Massey Hall', timestamp: Date.now() - 5 * DAY }),
+    ])
+
+    const explanation = explainEvent(affinity, { category: 'music', venue_name: 'Massey Hall' })
+
+    expect(explanation.venues).toEqual([{ name: 'Massey Hall', score: 1 }])
+    // The venue's comedy click counts once, not again through the category
+    expect(explanation.signals.find(s => s.type === 'save')?.count).toBe(2)
+    expect(explanation.signals.find(s => s.type === 'click')?.count).toBe(1)
+    expect(explanation.decay.oldestAgeDays).toBe(5)
+  })
+
+  it('should fall back to discovery when nothing matches', () => {
+    const affinity = computeAffinity([interaction()])
+
+    const explanation = explainEvent(affinity, { category: 'sports' })
+
+    expect(explanation.reason).toBe('discovery')
+    expect(explanation.signals).toEqual([])
+    expect(explanation.decay.newestAgeDays).toBeNull()
+  })
+})
+
+describe('reorderRows', () => {
+  it('should attach explanations and mark discovery rows', () => {
+    const rows = ['music', 'comedy', 'sports', 'food'].map(id => ({ id, title: id, emoji: '', query: id }))
+    const categoryEvents = Object.fromEntries(rows.map(row => [row.id, [{ id: `${row.id}_1` }]]))
+    const affinity = computeAffinity([
+      interaction({ type: 'save' }),
+      interaction({ type: 'click', category: 'comedy' }),
+    ])
+
+    const reordered = reorderRows(rows, affinity, categoryEvents, { discoveryFloor: 0.25 })
+    const music = reordered.find(row => row.id === 'music')
+    const discovery = reordered.filter(row => row.explanation?.reason === 'discovery')
+
+    expect(music?.explanation?.reason).toBe('affinity')
+    expect(music?.explanation?.signals[0].type).toBe('save')
+    expect(discovery).toHaveLength(1)
+  })
+})
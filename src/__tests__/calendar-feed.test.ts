@@ -0,0 +1,140 @@
+/**
+ * Unit tests for the subscribable calendar feed
+ */
+
+import {
+  buildCalendarFeed,
+  buildFeedUid,
+  foldLine,
+  reconcileFeedEntries,
+  CANCELLED_RETENTION_MS,
+  type FeedEntry,
+} from '@/lib/calendar/feed'
+
+const NOW = new Date('2025-11-01T12:00:00Z')
+
+function savedEvent(id: string, startIso: string, extra: Record<string, any> = {}) {
+  return { eventId: id, event: { id, title: `Event ${id}`, date: startIso, ...extra } }
+}
+
+describe('reconcileFeedEntries', () => {
+  it('should publish new events with a stable UID and sequence 0', () => {
+    const { entries, changed } = reconcileFeedEntries([], [savedEvent('tm_123', '2025-11-05T23:00:00Z')], NOW)
+
+    expect(entries).toHaveLength(1)
+    expect(changed).toHaveLength(1)
+    expect(entries[0].uid).toBe(buildFeedUid('tm_123'))
+    expect(entries[0].sequence).toBe(0)
+    expect(entries[0].status).toBe('CONFIRMED')
+  })
+
+  it('should keep the sequence when nothing changed', () => {
+    const first = reconcileFeedEntries([], [savedEvent('a', '2025-11-05T23:00:00Z')], NOW)
+    const second = reconcileFeedEntries(first.entries, [savedEvent('a', '2025-11-05T23:00:00Z')], NOW)
+
+    expect(second.changed).toHaveLength(0)
+    expect(second.entries[0].sequence).toBe(0)
+  })
+
+  it('should treat stored TIMESTAMPTZ text as the same time', () => {
+    const first = reconcileFeedEntries([], [savedEvent('a', '2025-11-05T23:00:00Z')], NOW)
+    const stored: FeedEntry[] = first.entries.map(entry => ({
+      ...entry,
+      dtstart: entry.dtstart.replace('.000Z', '+00:00'),
+      dtend: entry.dtend.replace('.000Z', '+00:00'),
+    }))
+    expect(stored[0].dtstart).toBe('2025-11-05T23:00:00+00:00')
+
+    const second = reconcileFeedEntries(stored, [savedEvent('a', '2025-11-05T23:00:00Z')], NOW)
+
+    expect(second.changed).toHaveLength(0)
+    expect(second.entries[0].sequence).toBe(0)
+  })
+
+  it('should bump the sequence when the time changes', () => {
+    const first = reconcileFeedEntries([], [savedEvent('a', '2025-11-05T23:00:00Z')], NOW)
+    const second = reconcileFeedEntries(first.entries, [savedEvent('a', '2025-11-06T00:00:00Z')], NOW)
+
+    expect(second.changed).toHaveLength(1)
+    expect(second.entries[0].sequence).toBe(1)
+    expect(second.entries[0].uid).toBe(first.entries[0].uid)
+  })
+
+  it('should cancel events the source cancelled', () => {
+    const first = reconcileFeedEntries([], [savedEvent('a', '2025-11-05T23:00:00Z')], NOW)
+    const second = reconcileFeedEntries(
+      first.entries,
+      [savedEvent('a', '2025-11-05T23:00:00Z', { status: 'cancelled' })],
+      NOW
+    )
+
+    expect(second.entries[0].status).toBe('CANCELLED')
+    expect(second.entries[0].sequence).toBe(1)
+  })
+
+  it('should cancel events that are no longer saved, then expire them', () => {
+    const first = reconcileFeedEntries([], [savedEvent('a', '2025-11-05T23:00:00Z')], NOW)
+    const second = reconcileFeedEntries(first.entries, [], NOW)
+
+    expect(second.entries[0].status).toBe('CANCELLED')
+    expect(second.changed).toHaveLength(1)
+
+    const later = new Date(NOW.getTime() + CANCELLED_RETENTION_MS + 1000)
+    const third = reconcileFeedEntries(second.entries, [], later)
+
+    expect(third.entries).toHaveLength(0)
+    expect(third.expired).toEqual(['a'])
+  })
+})
+
+describe('buildCalendarFeed', () => {
+  const entry: FeedEntry = {
+    event_id: 'a',
+    uid: 'a@scenescout.app',
+    sequence: 2,
+    status: 'CONFIRMED',
+    dtstart: '2025-11-05T23:00:00.000Z',
+    dtend: '2025-11-06T01:00:00.000Z',
+    summary: 'Jazz; Blues, and more',
+    location: 'Massey Hall, 178 Victoria St',
+    description: null,
+    url: null,
+    cancelled_at: null,
+    updated_at: '2025-11-01T12:00:00.000Z',
+  }
+
+  it('should render one VCALENDAR with escaped text and reminders', () => {
+    const ics = buildCalendarFeed([entry], {
+      reminders: new Map([['a', ['2025-11-05T20:00:00.000Z']]]),
+      now: NOW,
+    })
+
+    expect(ics.startsWith('BEGIN:VCALENDAR\r\n')).toBe(true)
+    expect(ics).toContain('SEQUENCE:2')
+    expect(ics).toContain('DTSTART:20251105T230000Z')
+    expect(ics).toContain('SUMMARY:Jazz\\; Blues\\, and more')
+    expect(ics).toContain('TRIGGER;VALUE=DATE-TIME:20251105T200000Z')
+    expect(ics.match(/BEGIN:VEVENT/g)).toHaveLength(1)
+  })
+
+  it('should omit alarms from cancelled entries', () => {
+    const ics = buildCalendarFeed([{ ...entry, status: 'CANCELLED' }], {
+      reminders: new Map([['a', ['2025-11-05T20:00:00.000Z']]]),
+      now: NOW,
+    })
+
+    expect(ics).toContain('STATUS:CANCELLED')
+    expect(ics).not.toContain('BEGIN:VALARM')
+  })
+})
+
+describe('foldLine', () => {
+  it('should fold lines longer than 75 octets', () => {
+    const folded = foldLine('DESCRIPTION:' + 'x'.repeat(200))
+
+    for (const line of folded.split('\r\n')) {
+      expect(Buffer.byteLength(line, 'utf8')).toBeLessThanOrEqual(75)
+    }
+    expect(folded.replace(/\r\n /g, '')).toBe('DESCRIPTION:' + 'x'.repeat(200))
+  })
+})
@@ -0,0 +1,156 @@
+/**
+ * Unit tests for timezone-correct ICS export
+ * Covers wall-time conversion across DST boundaries and VTIMEZONE output
+ */
+
+import { buildICSCalendar, resolveEventTimes } from '@/lib/calendar/export'
+import { buildVTimezone, wallTimeToUtc } from '@/lib/calendar/timezone'
+
+const TORONTO = 'America/Toronto'
+
+describe('wallTimeToUtc', () => {
+  it('should apply EST in winter and EDT in summer', () => {
+    expect(wallTimeToUtc({ year: 2025, month: 1, day: 15, hour: 19 }, TORONTO).toISOString())
+      .toBe('2025-01-16T00:00:00.000Z')
+    expect(wallTimeToUtc({ year: 2025, month: 7, day: 15, hour: 19 }, TORONTO).toISOString())
+      .toBe('2025-07-15T23:00:00.000Z')
+  })
+
+  it('should read a time inside the spring-forward gap with the pre-transition offset', () => {
+    // 02:30 does not exist on 2025-03-09 in Toronto; RFC 5545 reads it as 02:30 EST
+    expect(wallTimeToUtc({ year: 2025, month: 3, day: 9, hour: 2, minute: 30 }, TORONTO).toISOString())
+      .toBe('2025-03-09T07:30:00.000Z')
+  })
+
+  it('should resolve an ambiguous fall-back time to its first occurrence', () => {
+    // 01:30 happens twice on 2025-11-02; the first is 01:30 EDT
+    expect(wallTimeToUtc({ year: 2025, month: 11, day: 2, hour: 1, minute: 30 }, TORONTO).toISOString())
+      .toBe('2025-11-02T05:30:00.000Z')
+  })
+
+  it('should handle southern hemisphere DST', () => {
+    // Sydney is on AEDT (+11) in January
+    expect(wallTimeToUtc({ year: 2025, month: 1, day: 10, hour: 20 }, 'Australia/Sydney').toISOString())
+      .toBe('2025-01-10T09:00:00.000Z')
+  })
+})
+
+describe('resolveEventTimes', () => {
+  it('should read date and time in the event timezone', () => {
+    const times = resolveEventTimes({ id: '1', title: 'Show', date: '2025-10-06', time: '19:00', timezone: TORONTO })
+
+    expect(times?.start.toISOString()).toBe('2025-10-06T23:00:00.000Z')
+    expect(times?.allDay).toBe(false)
+    expect(times?.timezone).toBe(TORONTO)
+  })
+
+  it('should treat an ISO value without offset as wall time in the event zone', () => {
+    const times = resolveEventTimes({ id: '1', title: 'Gig', date: '2025-06-01T20:00:00', timezone: 'Europe/London' })
+
+    expect(times?.start.toISOString()).toBe('2025-06-01T19:00:00.000Z')
+  })
+
+  it('should keep ISO values with an explicit offset as absolute instants', () => {
+    const times = resolveEventTimes({ id: '1', title: 'Gig', date: '2025-06-01T20:00:00Z', timezone: TORONTO })
+
+    expect(times?.start.toISOString()).toBe('2025-06-01T20:00:00.000Z')
+  })
+
+  it('should fall back to the default zone for unknown timezones', () => {
+    const times = resolveEventTimes({ id: '1', title: 'Show', date: '2025-10-06', time: '19:00', timezone: 'Mars/Olympus' })
+
+    expect(times?.timezone).toBe(TORONTO)
+    expect(times?.start.toISOString()).toBe('2025-10-06T23:00:00.000Z')
+  })
+
+  it('should take DTEND from end_time, wrapping past midnight across fall-back', () => {
+    // 23:00 EDT to 02:00 EST is four real hours
+    const times = resolveEventTimes({
+      id: '1', title: 'Late set', date: '2025-11-01', time: '23:00', end_time: '02:00', timezone: TORONTO,
+    })
+
+    expect(times?.start.toISOString()).toBe('2025-11-02T03:00:00.000Z')
+    expect(times?.end.toISOString()).toBe('2025-11-02T07:00:00.000Z')
+  })
+
+  it('should default to a 2 hour block without an end time', () => {
+    const times = resolveEventTimes({ id: '1', title: 'Show', date: '2025-10-06', time: '7:30 PM', timezone: TORONTO })
+
+    expect(times?.start.toISOString()).toBe('2025-10-06T23:30:00.000Z')
+    expect(times!.end.getTime() - times!.start.getTime()).toBe(2 * 60 * 60 * 1000)
+  })
+
+  it('should treat a date without a time as all-day', () => {
+    const times = resolveEventTimes({ id: '1', title: 'Fair', date: '2025-03-09', timezone: TORONTO })
+
+    expect(times?.allDay).toBe(true)
+    // The DST day is only 23 hours long
+    expect(times!.end.getTime() - times!.start.getTime()).toBe(23 * 60 * 60 * 1000)
+  })
+})
+
+describe('buildVTimezone', () => {
+  it('should list both 2025 Toronto transitions with offsets', () => {
+    const lines = buildVTimezone(TORONTO, new Date('2025-06-01T00:00:00Z'), new Date('2025-06-02T00:00:00Z'))
+    const text = lines.join('\n')
+
+    expect(lines[0]).toBe('BEGIN:VTIMEZONE')
+    expect(text).toContain('TZID:America/Toronto')
+    expect(text).toContain('BEGIN:DAYLIGHT\nDTSTART:20250309T020000\nTZOFFSETFROM:-0500\nTZOFFSETTO:-0400\nTZNAME:EDT')
+    expect(text).toContain('BEGIN:STANDARD\nDTSTART:20251102T020000\nTZOFFSETFROM:-0400\nTZOFFSETTO:-0500\nTZNAME:EST')
+  })
+
+  it('should emit a single observance for zones without DST', () => {
+    const lines = buildVTimezone('Asia/Tokyo', new Date('2025-06-01T00:00:00Z'), new Date('2025-06-02T00:00:00Z'))
+
+    expect(lines.filter(line => line.startsWith('BEGIN:'))).toEqual(['BEGIN:VTIMEZONE', 'BEGIN:STANDARD'])
+    expect(lines).toContain('TZOFFSETTO:+0900')
+  })
+})
+
+describe('buildICSCalendar', () => {
+  const now = new Date('2025-10-01T12:00:00Z')
+
+  it('should emit TZID-qualified local times and a matching VTIMEZONE', () => {
+    const { content, count } = buildICSCalendar(
+      [{ id: 'tm_1', title: 'Show', date: '2025-10-06', time: '19:00', end_time: '22:30', timezone: TORONTO }],
+      { now }
+    )
+
+    expect(count).toBe(1)
+    expect(content).toContain('DTSTART;TZID=America/Toronto:20251006T190000')
+    expect(content).toContain('DTEND;TZID=America/Toronto:20251006T223000')
+    expect(content.match(/BEGIN:VTIMEZONE/g)).toHaveLength(1)
+    expect(content).toContain('TRIGGER:-PT15M')
+  })
+
+  it('should emit one VTIMEZONE per zone', () => {
+    const { content } = buildICSCalendar([
+      { id: 'a', title: 'Toronto', date: '2025-10-06', time: '19:00', timezone: TORONTO },
+      { id: 'b', title: 'Vancouver', date: '2025-10-07', time: '19:00', timezone: 'America/Vancouver' },
+      { id: 'c', title: 'Toronto again', date: '2025-10-08', time: '19:00', timezone: TORONTO },
+    ], { now })
+
+    expect(content.match(/BEGIN:VTIMEZONE/g)).toHaveLength(2)
+    expect(content).toContain('DTSTART;TZID=America/Vancouver:20251007T190000')
+  })
+
+  it('should export multi-day all-day events as DATE values with an exclusive end', () => {
+    const { content } = buildICSCalendar(
+      [{ id: 'fest', title: 'Festival', date: '2025-07-04', end_date: '2025-07-06', timezone: TORONTO }],
+      { now }
+    )
+
+    expect(content).toContain('DTSTART;VALUE=DATE:20250704')
+    expect(content).toContain('DTEND;VALUE=DATE:20250707')
+    expect(content).not.toContain('BEGIN:VTIMEZONE')
+    expect(content).not.toContain('BEGIN:VALARM')
+  })
+
+  it('should report events without a date', () => {
+    const { count, errors } = buildICSCalendar([{ id: 'x', title: 'Mystery' }], { now })
+
+    expect(count).toBe(0)
+    expect(errors).toEqual(['Mystery: Missing date'])
+  })
+})
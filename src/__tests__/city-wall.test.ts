@@ -0,0 +1,149 @@
+/**
+ * Unit tests for city wall moderation rules and stream mapping
+ */
+
+import {
+  checkWallContent,
+  detectImageType,
+  isWallImageUrl,
+  normalizeWallContent,
+  shouldAutoHide,
+} from '@/lib/wall/moderation'
+import { toWallStreamUpdate } from '@/lib/wall/stream'
+import { wallErrorResponse } from '@/lib/wall/http'
+import { WallError } from '@/lib/wall/service'
+
+const postRow = {
+  id: 'post-1',
+  city_slug: 'toronto',
+  user_id: 'user-1',
+  author_name: 'Sam',
+  author_avatar_url: null,
+  content: 'Great set at the Horseshoe tonight',
+  image_url: null,
+  event_id: null,
+  event_title: null,
+  venue_name: 'Horseshoe Tavern',
+  like_count: 2,
+  comment_count: 1,
+  report_count: 1,
+  hidden: false,
+  hidden_reason: null,
+  created_at: '2025-11-07T02:00:00Z',
+}
+
+describe('checkWallContent', () => {
+  it('accepts ordinary posts', () => {
+    expect(checkWallContent('Anyone going to the jazz night at The Rex? https://example.com/rex')).toBeNull()
+  })
+
+  it('rejects empty, link-stuffed, repeated and shouting posts', () => {
+    expect(checkWallContent('   ')).toMatch(/empty/)
+    expect(checkWallContent('http://a.com http://b.com www.c.com')).toMatch(/links/)
+    expect(checkWallContent('so good!!!!!!!!!!!!!!!!!!!!')).toMatch(/spam/)
+    expect(checkWallContent('BEST PARTY IN THE CITY TONIGHT COME NOW')).toMatch(/caps/)
+  })
+
+  it('allows short all-caps words', () => {
+    expect(checkWallContent('OMG YES')).toBeNull()
+  })
+})
+
+describe('normalizeWallContent', () => {
+  it('ignores case, spacing and punctuation', () => {
+    expect(normalizeWallContent('Great  show!!')).toBe(normalizeWallContent('great show'))
+  })
+})
+
+describe('isWallImageUrl', () => {
+  const supabaseUrl = 'https://abc.supabase.co'
+
+  it('only accepts the wall bucket', () => {
+    expect(isWallImageUrl(`${supabaseUrl}/storage/v1/object/public/wall-images/user-1/a.jpg`, supabaseUrl)).toBe(true)
+    expect(isWallImageUrl(`${supabaseUrl}/storage/v1/object/public/avatars/a.jpg`, supabaseUrl)).toBe(false)
+    expect(isWallImageUrl('https://tracker.example.com/pixel.gif', supabaseUrl)).toBe(false)
+    expect(isWallImageUrl(`${supabaseUrl}/storage/v1/object/public/wall-images/../avatars/a.jpg`, supabaseUrl)).toBe(false)
+    expect(isWallImageUrl(`${supabaseUrl}/storage/v1/object/public/wall-images/a.jpg`, undefined)).toBe(false)
+  })
+})
+
+describe('detectImageType', () => {
+  it('identifies images by signature, not by name', () => {
+    expect(detectImageType(new Uint8Array([0xff, 0xd8, 0xff, 0xe0]))?.type).toBe('image/jpeg')
+    expect(detectImageType(new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a]))?.extension).toBe('png')
+    expect(detectImageType(new TextEncoder().encode('RIFF\u0000\u0000\u0000\u0000WEBPVP8 '))?.type).toBe('image/webp')
+    expect(detectImageType(new TextEncoder().encode('<svg xmlns="http://www.w3.org/2000/svg">'))).toBeNull()
+  })
+})
+
+describe('shouldAutoHide', () => {
+  it('hides at three distinct reporters', () => {
+    expect(shouldAutoHide(2)).toBe(false)
+    expect(shouldAutoHide(3)).toBe(true)
+  })
+})
+
+describe('toWallStreamUpdate', () => {
+  it('sends new posts without moderation fields', () => {
+    const change = toWallStreamUpdate('wall_posts', { eventType: 'INSERT', new: postRow })
+
+    expect(change?.citySlug).toBe('toronto')
+    expect(change?.update.kind).toBe('post')
+    expect(change?.update).not.toHaveProperty('post.report_count')
+    expect(change?.update).not.toHaveProperty('post.hidden_reason')
+  })
+
+  it('sends count changes for updated posts', () => {
+    const change = toWallStreamUpdate('wall_posts', { eventType: 'UPDATE', new: { ...postRow, like_count: 3 } })
+    expect(change?.update).toEqual({ kind: 'post_counts', post_id: 'post-1', like_count: 3, comment_count: 1 })
+  })
+
+  it('drops hidden rows', () => {
+    expect(toWallStreamUpdate('wall_posts', { eventType: 'INSERT', new: { ...postRow, hidden: true } })).toBeNull()
+    expect(toWallStreamUpdate('wall_comments', {
+      eventType: 'INSERT',
+      new: { id: 'c1', post_id: 'post-1', city_slug: 'toronto', hidden: true },
+    })).toBeNull()
+  })
+
+  it('turns moderation actions into removals and restores', () => {
+    const hide = toWallStreamUpdate('wall_moderation_actions', {
+      eventType: 'INSERT',
+      new: { city_slug: 'toronto', post_id: 'post-1', comment_id: null, action: 'hide' },
+    })
+    const restore = toWallStreamUpdate('wall_moderation_actions', {
+      eventType: 'INSERT',
+      new: { city_slug: 'toronto', post_id: 'post-1', comment_id: 'c1', action: 'restore' },
+    })
+
+    expect(hide?.update).toEqual({ kind: 'removed', post_id: 'post-1', comment_id: null })
+    expect(restore?.update).toEqual({ kind: 'restored', post_id: 'post-1', comment_id: 'c1' })
+  })
+})
+
+describe('wallErrorResponse', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  it('should pass client errors through with their status', async () => {
+    const response = wallErrorResponse(new WallError('You already posted that', 409), 'Failed to share post')
+
+    expect(response.status).toBe(409)
+    expect((await response.json()).error).toBe('You already posted that')
+  })
+
+  it('should not expose database messages', async () => {
+    const dbError = new Error('Failed to create post: duplicate key value violates unique constraint "wall_posts_pkey"')
+    const response = wallErrorResponse(dbError, 'Failed to share post')
+    const body = await response.json()
+
+    expect(response.status).toBe(500)
+    expect(body.error).toBe('Failed to share post')
+    expect(JSON.stringify(body)).not.toContain('wall_posts_pkey')
+  })
+})
@@ -0,0 +1,312 @@
+/**
+ * Unit tests for recurring series detection and feed collapsing
+ */
+
+import { detectSeries, describeRecurrence } from '@/lib/series/detect'
+import { collapseSeries, localStartOf } from '@/lib/series/collapse'
+import { dedupeEvents } from '@/lib/deduplication/event-deduper'
+import { formatRecurrenceRule, parseRecurrenceRule } from '@/lib/scraping/parsers/recurrence'
+import { syncEventSeries } from '@/lib/series/service'
+import type { SeriesCandidate } from '@/lib/series/types'
+
+type Row = Record<string, any>
+
+const store: { events: Row[]; event_series: Row[]; event_series_occurrences: Row[] } = {
+  events: [],
+  event_series: [],
+  event_series_occurrences: []
+}
+
+// The occurrence table's primary key and unique index, as Postgres enforces them
+function occurrenceConstraintError(rows: Row[]): string | null {
+  const keys = new Set<string>()
+  const eventIds = new Set<string>()
+  for (const row of rows) {
+    const key = `${row.series_id}|${row.original_start}`
+    if (keys.has(key)) return 'duplicate key value violates unique constraint "event_series_occurrences_pkey"'
+    if (eventIds.has(row.event_id)) return 'duplicate key value violates unique constraint "idx_event_series_occurrences_event"'
+    keys.add(key)
+    eventIds.add(row.event_id)
+  }
+  return null
+}
+
+// Just enough of the Supabase query builder for syncEventSeries
+function query(table: keyof typeof store) {
+  const filters: Array<(row: Row) => boolean> = []
+  let run = (): { data: any; error: { message: string } | null } => ({ data: store[table], error: null })
+
+  const write = (next: Row[]) => {
+    const message = table === 'event_series_occurrences' ? occurrenceConstraintError(next) : null
+    if (message) return { data: null, error: { message } }
+    store[table] = next
+    return { data: null, error: null }
+  }
+
+  const builder: any = {
+    select: () => builder,
+    gte: () => builder,
+    order: () => builder,
+    limit: () => builder,
+    eq: (column: string, value: unknown) => {
+      filters.push(row => row[column] === value)
+      return builder
+    },
+    in: (column: string, values: unknown[]) => {
+      filters.push(row => values.includes(row[column]))
+      return builder
+    },
+    insert: (rows: Row[]) => {
+      run = () => write([...store[table], ...rows])
+      return builder
+    },
+    upsert: (row: Row) => {
+      run = () => write([...store[table].filter(existing => existing.id !== row.id), row])
+      return builder
+    },
+    delete: () => {
+      run = () => write(store[table].filter(row => !filters.every(filter => filter(row))))
+      return builder
+    },
+    update: (values: Row) => {
+      run = () => write(store[table].map(row => (filters.every(filter => filter(row)) ? { ...row, ...values } : row)))
+      return builder
+    },
+    then: (resolve: (value: ReturnType<typeof run>) => unknown) => resolve(run())
+  }
+  return builder
+}
+
+jest.mock('@/lib/supabase-server', () => ({
+  getServiceSupabaseClient: () => ({ from: query })
+}))
+
+const trivia = (localStart: string, extra: Partial<SeriesCandidate> = {}): SeriesCandidate => ({
+  id: `trivia-${localStart.slice(0, 10)}`,
+  title: 'Trivia Night',
+  venueName: 'The Rec Room',
+  localStart,
+  timezone: 'America/Toronto',
+  ...extra
+})
+
+describe('detectSeries', () => {
+  it('should detect a weekly series with moved and cancelled occurrences', () => {
+    const [series] = detectSeries([
+      trivia('2026-03-03T20:00'),
+      trivia('2026-03-10T20:00'),
+      trivia('2026-03-17T21:30'),
+      trivia('2026-03-24T20:00', { cancelled: true }),
+      trivia('2026-03-31T20:00')
+    ])
+
+    expect(series).toMatchObject({
+      title: 'Trivia Night',
+      venueName: 'The Rec Room',
+      rrule: 'FREQ=WEEKLY;BYDAY=TU',
+      dtstart: '2026-03-03T20:00',
+      timezone: 'America/Toronto',
+      label: 'Every Tuesday',
+      exdates: []
+    })
+    expect(series.id).toMatch(/^series_[0-9a-f]{16}$/)
+    expect(series.occurrences.map(o => [o.eventId, o.originalStart, o.status])).toEqual([
+      ['trivia-2026-03-03', '2026-03-03T20:00', 'scheduled'],
+      ['trivia-2026-03-10', '2026-03-10T20:00', 'scheduled'],
+      ['trivia-2026-03-17', '2026-03-17T20:00', 'moved'],
+      ['trivia-2026-03-24', '2026-03-24T20:00', 'cancelled'],
+      ['trivia-2026-03-31', '2026-03-31T20:00', 'scheduled']
+    ])
+  })
+
+  it('should record unlisted weeks as exdates', () => {
+    const [series] = detectSeries([
+      trivia('2026-03-03T20:00'),
+      trivia('2026-03-10T20:00'),
+      trivia('2026-03-24T20:00'),
+      trivia('2026-03-31T20:00')
+    ])
+
+    expect(series.rrule).toBe('FREQ=WEEKLY;BYDAY=TU')
+    expect(series.exdates).toEqual(['2026-03-17'])
+  })
+
+  it('should detect fortnightly and monthly patterns', () => {
+    const fortnightly = detectSeries(['2026-03-06', '2026-03-20', '2026-04-03'].map(d => trivia(`${d}T19:00`)))
+    expect(fortnightly[0]).toMatchObject({ rrule: 'FREQ=WEEKLY;INTERVAL=2;BYDAY=FR', label: 'Every other Friday' })
+
+    const secondTuesday = detectSeries(['2026-01-13', '2026-02-10', '2026-03-10', '2026-04-14'].map(d => trivia(`${d}T18:30`)))
+    expect(secondTuesday[0]).toMatchObject({ rrule: 'FREQ=MONTHLY;BYDAY=2TU', label: 'Second Tuesday of the month' })
+
+    const lastFriday = detectSeries(['2026-01-30', '2026-02-27', '2026-03-27'].map(d => trivia(`${d}T22:00`)))
+    expect(lastFriday[0]).toMatchObject({ rrule: 'FREQ=MONTHLY;BYDAY=-1FR', label: 'Last Friday of the month' })
+
+    const fifteenth = detectSeries(['2026-01-15', '2026-02-15', '2026-03-15'].map(d => trivia(`${d}T12:00`)))
+    expect(fifteenth[0]).toMatchObject({ rrule: 'FREQ=MONTHLY;BYMONTHDAY=15', label: 'Monthly on the 15th' })
+  })
+
+  it('should detect nightly residencies', () => {
+    const [series] = detectSeries(['2026-05-05', '2026-05-06', '2026-05-07', '2026-05-08'].map(d => trivia(`${d}T20:00`)))
+
+    expect(series).toMatchObject({ rrule: 'FREQ=DAILY', label: 'Every day' })
+  })
+
+  it('should not group irregular dates, pairs, or events without a venue', () => {
+    expect(detectSeries(['2026-03-03', '2026-03-05', '2026-03-19'].map(d => trivia(`${d}T20:00`)))).toEqual([])
+    expect(detectSeries(['2026-03-03', '2026-03-10'].map(d => trivia(`${d}T20:00`)))).toEqual([])
+    expect(detectSeries(['2026-03-03', '2026-03-10', '2026-03-17'].map(d => trivia(`${d}T20:00`, { venueName: null })))).toEqual([])
+  })
+
+  it('should not treat early and late shows as a series', () => {
+    expect(detectSeries([
+      trivia('2026-03-03T19:00', { id: 'early' }),
+      trivia('2026-03-03T22:00', { id: 'late' }),
+      trivia('2026-03-10T19:00')
+    ])).toEqual([])
+  })
+
+  it('should keep series at different venues apart', () => {
+    const dates = ['2026-03-03', '2026-03-10', '2026-03-17']
+    const series = detectSeries([
+      ...dates.map(d => trivia(`${d}T20:00`)),
+      ...dates.map(d => trivia(`${d}T20:00`, { id: `other-${d}`, venueName: 'Bar Raval' }))
+    ])
+
+    expect(series.map(s => s.venueName).sort()).toEqual(['Bar Raval', 'The Rec Room'])
+    expect(series[0].id).not.toBe(series[1].id)
+  })
+})
+
+describe('describeRecurrence', () => {
+  it('should describe rules in words', () => {
+    expect(describeRecurrence(parseRecurrenceRule('FREQ=WEEKLY;BYDAY=TU,TH')!)).toBe('Every Tuesday and Thursday')
+    expect(describeRecurrence(parseRecurrenceRule('FREQ=WEEKLY;INTERVAL=3;BYDAY=SA')!)).toBe('Every 3 weeks on Saturday')
+    expect(describeRecurrence(parseRecurrenceRule('FREQ=MONTHLY;BYMONTHDAY=1')!)).toBe('Monthly on the 1st')
+    expect(describeRecurrence(parseRecurrenceRule('FREQ=MONTHLY;BYMONTHDAY=22')!)).toBe('Monthly on the 22nd')
+    expect(describeRecurrence(parseRecurrenceRule('FREQ=DAILY;INTERVAL=2')!)).toBe('Every 2 days')
+  })
+
+  it('should round-trip rules through formatRecurrenceRule', () => {
+    const rrule = 'FREQ=MONTHLY;INTERVAL=2;COUNT=6;BYDAY=-1FR;WKST=SU'
+    expect(formatRecurrenceRule(parseRecurrenceRule(rrule)!)).toBe(rrule)
+  })
+})
+
+describe('localStartOf', () => {
+  it('should read date + time, ISO instants and date-only rows', () => {
+    expect(localStartOf({ id: 'a', title: 'A', date: '2026-03-03', time: '20:00:00' })).toBe('2026-03-03T20:00')
+    expect(localStartOf({ id: 'b', title: 'B', start_time: '2026-03-04T01:00:00.000Z', timezone: 'America/Toronto' })).toBe('2026-03-03T20:00')
+    expect(localStartOf({ id: 'c', title: 'C', start_time: '2026-03-03T00:00:00.000Z', time: '20:00' })).toBe('2026-03-03T20:00')
+    expect(localStartOf({ id: 'd', title: 'D', date: '2026-03-03' })).toBe('2026-03-03T00:00')
+    expect(localStartOf({ id: 'e', title: 'E' })).toBeNull()
+  })
+})
+
+describe('collapseSeries', () => {
+  const occurrence = (date: string, extra: Record<string, unknown> = {}) => ({
+    id: `trivia-${date}`,
+    title: 'Trivia Night',
+    venue_name: 'The Rec Room',
+    date,
+    time: '20:00:00',
+    category: 'social',
+    ...extra
+  })
+
+  const feed = [
+    occurrence('2026-03-03'),
+    { id: 'concert', title: 'Arkells', venue_name: 'Massey Hall', date: '2026-03-05', time: '19:30:00', category: 'music' },
+    occurrence('2026-03-10', { status: 'cancelled' }),
+    occurrence('2026-03-17'),
+    occurrence('2026-03-24')
+  ]
+
+  it('should show a series once, as its next occurrence', () => {
+    const events = collapseSeries(feed, { now: new Date('2026-03-08T12:00:00Z') })
+
+    expect(events.map(e => e.id)).toEqual(['concert', 'trivia-2026-03-17'])
+    expect(events[1].series).toMatchObject({
+      rrule: 'FREQ=WEEKLY;BYDAY=TU',
+      label: 'Every Tuesday',
+      nextDate: '2026-03-17',
+      occurrenceCount: 4,
+      upcoming: [
+        { eventId: 'trivia-2026-03-17', date: '2026-03-17', status: 'scheduled' },
+        { eventId: 'trivia-2026-03-24', date: '2026-03-24', status: 'scheduled' }
+      ]
+    })
+    expect(events[0]).not.toHaveProperty('series')
+  })
+
+  it('should list the cancelled date after the occurrence shown', () => {
+    const events = collapseSeries(feed, { now: new Date('2026-03-01T12:00:00Z') })
+    const shown = events.find(e => e.series)!
+
+    expect(shown.id).toBe('trivia-2026-03-03')
+    expect(shown.series!.upcoming.map(o => o.status)).toEqual(['scheduled', 'cancelled', 'scheduled', 'scheduled'])
+  })
+
+  it('should leave feeds without series untouched', () => {
+    const events = feed.filter(e => e.id === 'concert' || e.id === 'trivia-2026-03-03')
+    expect(collapseSeries(events)).toEqual(events)
+  })
+})
+
+describe('dedupeEvents with recurring events', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  it('should keep each weekly occurrence and still drop same-day duplicates', () => {
+    const events = [
+      { id: 'tm_1', title: 'Trivia Night', venue_name: 'The Rec Room', date: '2026-03-03', source: 'ticketmaster' },
+      { id: 'tm_2', title: 'Trivia Night', venue_name: 'The Rec Room', date: '2026-03-10', source: 'ticketmaster' },
+      { id: 'eb_1', title: 'Trivia Night', venue_name: 'The Rec Room', date: '2026-03-10', source: 'eventbrite' },
+      { id: 'tm_3', title: 'Trivia Night', venue_name: 'The Rec Room', date: '2026-03-17', source: 'ticketmaster' }
+    ]
+
+    expect(dedupeEvents(events).map(e => e.id)).toEqual(['tm_1', 'tm_2', 'tm_3'])
+  })
+})
+
+describe('syncEventSeries', () => {
+  const residency = (time: string) => ['2026-11-03', '2026-11-10', '2026-11-17', '2026-11-24'].map(date => ({
+    id: `residency-${date}`,
+    title: 'Jazz Residency',
+    venue_name: 'The Rex',
+    date,
+    time,
+    start_time: null,
+    timezone: 'America/Toronto',
+    status: 'active'
+  }))
+
+  beforeEach(() => {
+    store.event_series = []
+    store.event_series_occurrences = []
+  })
+
+  it('should move occurrences when a residency changes its start time between runs', async () => {
+    store.events = residency('20:00')
+    await syncEventSeries()
+    expect(store.event_series_occurrences.map(o => o.original_start)).toEqual([
+      '2026-11-03T20:00', '2026-11-10T20:00', '2026-11-17T20:00', '2026-11-24T20:00'
+    ])
+
+    store.events = residency('21:30')
+    const result = await syncEventSeries()
+
+    expect(result).toEqual({ scanned: 4, series: 1, occurrences: 4 })
+    expect(store.event_series_occurrences.map(o => [o.event_id, o.original_start])).toEqual([
+      ['residency-2026-11-03', '2026-11-03T21:30'],
+      ['residency-2026-11-10', '2026-11-10T21:30'],
+      ['residency-2026-11-17', '2026-11-17T21:30'],
+      ['residency-2026-11-24', '2026-11-24T21:30']
+    ])
+    expect(store.event_series[0].dtstart).toBe('2026-11-03T21:30')
+  })
+})
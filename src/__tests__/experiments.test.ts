@@ -0,0 +1,120 @@
+import {
+  assignVariant,
+  hashToUnitInterval,
+  type ExperimentDefinition
+} from '@/lib/experiments/bucketing'
+import { buildVariantReports, differenceInterval, wilsonInterval } from '@/lib/experiments/stats'
+
+const experiment = (overrides: Partial<ExperimentDefinition> = {}): ExperimentDefinition => ({
+  key: 'for_you_ranking',
+  description: '',
+  status: 'running',
+  trafficAllocation: 1,
+  variants: [
+    { name: 'control', weight: 1, config: {} },
+    { name: 'venue_boost', weight: 1, config: { venueBoost: 0.5 } }
+  ],
+  killed: false,
+  ...overrides
+})
+
+const units = Array.from({ length: 2000 }, (_, i) => `unit-${i}`)
+
+describe('assignVariant', () => {
+  it('is deterministic per unit', () => {
+    for (const unit of units.slice(0, 50)) {
+      expect(assignVariant(experiment(), unit)).toEqual(assignVariant(experiment(), unit))
+    }
+  })
+
+  it('splits units roughly by weight', () => {
+    const weighted = experiment({
+      variants: [
+        { name: 'control', weight: 3, config: {} },
+        { name: 'venue_boost', weight: 1, config: {} }
+      ]
+    })
+    const treated = units.filter(unit => assignVariant(weighted, unit).variant === 'venue_boost').length
+
+    expect(treated / units.length).toBeGreaterThan(0.2)
+    expect(treated / units.length).toBeLessThan(0.3)
+  })
+
+  it('enrolls about the allocated share of traffic', () => {
+    const enrolled = units.filter(unit => assignVariant(experiment({ trafficAllocation: 0.1 }), unit).enrolled).length
+
+    expect(enrolled / units.length).toBeGreaterThan(0.07)
+    expect(enrolled / units.length).toBeLessThan(0.13)
+  })
+
+  it('keeps enrolled units in place when allocation widens', () => {
+    for (const unit of units.slice(0, 500)) {
+      const narrow = assignVariant(experiment({ trafficAllocation: 0.2 }), unit)
+      if (narrow.enrolled) {
+        expect(assignVariant(experiment({ trafficAllocation: 0.8 }), unit)).toEqual(narrow)
+      }
+    }
+  })
+
+  it('honours a pinned variant that still exists', () => {
+    const unit = units.find(u => assignVariant(experiment(), u).variant === 'control')!
+
+    expect(assignVariant(experiment(), unit, 'venue_boost').variant).toBe('venue_boost')
+    expect(assignVariant(experiment(), unit, 'removed_variant').variant).toBe('control')
+  })
+
+  it.each([
+    ['killed', { killed: true }],
+    ['stopped', { status: 'stopped' as const }],
+    ['draft', { status: 'draft' as const }]
+  ])('sends everyone to control when %s', (_, overrides) => {
+    for (const unit of units.slice(0, 100)) {
+      const assignment = assignVariant(experiment(overrides), unit, 'venue_boost')
+      expect(assignment).toMatchObject({ variant: 'control', enrolled: false, config: {} })
+    }
+  })
+})
+
+describe('hashToUnitInterval', () => {
+  it('maps into [0, 1)', () => {
+    for (const unit of units) {
+      const value = hashToUnitInterval(unit)
+      expect(value).toBeGreaterThanOrEqual(0)
+      expect(value).toBeLessThan(1)
+    }
+  })
+})
+
+describe('experiment statistics', () => {
+  it('computes Wilson intervals', () => {
+    const estimate = wilsonInterval(10, 100)
+
+    expect(estimate.rate).toBeCloseTo(0.1)
+    expect(estimate.low).toBeCloseTo(0.0552, 3)
+    expect(estimate.high).toBeCloseTo(0.1744, 3)
+    expect(wilsonInterval(0, 0)).toEqual({ rate: 0, low: 0, high: 0 })
+    expect(wilsonInterval(0, 20).low).toBe(0)
+  })
+
+  it('computes the difference against control', () => {
+    const lift = differenceInterval({ successes: 150, trials: 1000 }, { successes: 100, trials: 1000 })!
+
+    expect(lift.rate).toBeCloseTo(0.05)
+    expect(lift.low).toBeGreaterThan(0)
+    expect(differenceInterval({ successes: 1, trials: 10 }, { successes: 0, trials: 0 })).toBeNull()
+  })
+
+  it('reports lifts for every variant but control', () => {
+    const reports = buildVariantReports([
+      { variant: 'control', units: 50, impressions: 1000, clicks: 100, saves: 20 },
+      { variant: 'venue_boost', units: 50, impressions: 1000, clicks: 105, saves: 40 }
+    ])
+
+    expect(reports[0].clickThroughLift).toBeNull()
+    expect(reports[0].saveRateLift).toBeNull()
+    expect(reports[1].clickThrough.rate).toBeCloseTo(0.105)
+    // +0.5 pts CTR is noise at this size; doubling saves is not
+    expect(reports[1].clickThroughLift!.low).toBeLessThan(0)
+    expect(reports[1].saveRateLift!.low).toBeGreaterThan(0)
+  })
+})
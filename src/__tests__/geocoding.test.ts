@@ -0,0 +1,128 @@
+/**
+ * Unit tests for geocode acceptance rules and provider fallthrough
+ */
+
+import { findCity, GazetteerProvider } from '@/lib/geocoding/gazetteer'
+import { nominatimConfidence, nominatimPrecision } from '@/lib/geocoding/nominatim'
+import { checkAgainstCity, haversineKm, queryKey, toCachedGeocode } from '@/lib/geocoding/rules'
+import type { CachedGeocode, GeocodeQuery, GeocodeStore, GeocodingProvider, ProviderResult } from '@/lib/geocoding/types'
+import { GeocodingService } from '@/lib/scraping/pipeline/GeocodingService'
+
+const TORONTO_CENTRE = { latitude: 43.6532, longitude: -79.3832 }
+const HORSESHOE = { latitude: 43.6490, longitude: -79.3957 }
+
+function fixedProvider(name: string, result: Omit<ProviderResult, 'provider'> | null): GeocodingProvider & { calls: number } {
+  return {
+    name,
+    calls: 0,
+    async geocode() {
+      this.calls++
+      return result && { ...result, provider: name }
+    }
+  }
+}
+
+function memoryStore(): GeocodeStore & { entries: Map<string, CachedGeocode> } {
+  const entries = new Map<string, CachedGeocode>()
+  return {
+    entries,
+    async load(key) { return entries.get(key) || null },
+    async save(entry) { entries.set(entry.queryKey, entry) }
+  }
+}
+
+const query: GeocodeQuery = { venueName: 'Horseshoe Tavern', address: '370 Queen St W', city: 'Toronto' }
+
+describe('geocode rules', () => {
+  it('finds gazetteer cities with or without the province', () => {
+    expect(findCity('370 Queen St W, Toronto, ON')).toMatchObject({ entry: { city: 'Toronto' }, withState: true })
+    expect(findCity('Queen St W toronto')).toMatchObject({ entry: { city: 'Toronto' }, withState: false })
+    expect(findCity('Somewhere else')).toBeNull()
+  })
+
+  it('never keeps city-level coordinates', async () => {
+    const city = await new GazetteerProvider().geocode(query)
+    const entry = toCachedGeocode(query, city)
+
+    expect(entry.precision).toBe('city')
+    expect(entry.city).toBe('Toronto')
+    expect(entry.coordinates).toBeUndefined()
+    expect(entry.candidate).toBeUndefined()
+    expect(entry.needsReview).toBe(true)
+  })
+
+  it('keeps low-confidence points as review candidates only', () => {
+    const entry = toCachedGeocode(query, { provider: 'nominatim', precision: 'street', confidence: 0.55, coordinates: HORSESHOE })
+
+    expect(entry.coordinates).toBeUndefined()
+    expect(entry.candidate).toEqual(HORSESHOE)
+    expect(entry.needsReview).toBe(true)
+
+    const accepted = toCachedGeocode(query, { provider: 'nominatim', precision: 'address', confidence: 0.9, coordinates: HORSESHOE })
+    expect(accepted.coordinates).toEqual(HORSESHOE)
+    expect(accepted.needsReview).toBe(false)
+  })
+
+  it('penalises points far from the named city', () => {
+    const london = { latitude: 42.9849, longitude: -81.2453 }
+    expect(haversineKm(TORONTO_CENTRE, london)).toBeGreaterThan(100)
+
+    const far = checkAgainstCity(query, { provider: 'nominatim', precision: 'address', confidence: 0.9, coordinates: london })
+    const near = checkAgainstCity(query, { provider: 'nominatim', precision: 'address', confidence: 0.9, coordinates: HORSESHOE })
+    expect(far.confidence).toBeCloseTo(0.5)
+    expect(near.confidence).toBe(0.9)
+  })
+
+  it('scores Nominatim results by what they point at', () => {
+    const building = { lat: '43.649', lon: '-79.3957', addresstype: 'building', importance: 0.3 }
+    const town = { lat: '43.65', lon: '-79.38', addresstype: 'city', importance: 0.9 }
+
+    expect(nominatimPrecision(building)).toBe('address')
+    expect(nominatimPrecision({ ...town, class: 'amenity' })).toBe('venue')
+    expect(nominatimPrecision(town)).toBe('city')
+    expect(nominatimConfidence(building, 'address')).toBeGreaterThan(nominatimConfidence(town, 'city'))
+  })
+
+  it('normalizes cache keys', () => {
+    expect(queryKey({ address: ' 370  Queen St. W ', city: 'TORONTO' })).toBe(queryKey({ address: '370 Queen St W', city: 'toronto' }))
+  })
+})
+
+describe('GeocodingService', () => {
+  it('stops at the first provider that places the location', async () => {
+    const venues = fixedProvider('venues', { precision: 'venue', confidence: 0.95, coordinates: HORSESHOE })
+    const nominatim = fixedProvider('nominatim', null)
+    const service = new GeocodingService({}, [venues, nominatim], null)
+
+    const result = await service.geocode(query)
+
+    expect(result).toMatchObject({ coordinates: HORSESHOE, precision: 'venue', provider: 'venues', needsReview: false })
+    expect(nominatim.calls).toBe(0)
+  })
+
+  it('flags unplaced locations instead of using the city centre', async () => {
+    const store = memoryStore()
+    const service = new GeocodingService({}, [
+      fixedProvider('venues', null),
+      fixedProvider('nominatim', { precision: 'street', confidence: 0.55, coordinates: HORSESHOE }),
+      new GazetteerProvider()
+    ], store)
+
+    const result = await service.geocode(query)
+
+    expect(result.coordinates).toBeUndefined()
+    expect(result).toMatchObject({ precision: 'street', needsReview: true, source: 'api' })
+    expect(store.entries.get(queryKey(query))).toMatchObject({ candidate: HORSESHOE, needsReview: true })
+  })
+
+  it('serves repeat lookups from the persistent store', async () => {
+    const store = memoryStore()
+    const nominatim = fixedProvider('nominatim', { precision: 'address', confidence: 0.9, coordinates: HORSESHOE })
+
+    await new GeocodingService({}, [nominatim], store).geocode(query)
+    const result = await new GeocodingService({}, [nominatim], store).geocode(query)
+
+    expect(result).toMatchObject({ coordinates: HORSESHOE, source: 'cache' })
+    expect(nominatim.calls).toBe(1)
+  })
+})
@@ -0,0 +1,325 @@
+/**
+ * Unit tests for iCalendar parsing, RRULE expansion and the iCal feed source
+ */
+
+import { readFileSync } from 'fs'
+import { join } from 'path'
+import { IcsParser } from '@/lib/scraping/parsers/ics-parser'
+import { expandRecurrence, parseRecurrenceRule } from '@/lib/scraping/parsers/recurrence'
+import { IcsFeedSource } from '@/lib/scraping/sources/ical'
+import { parseIcsFeeds } from '@/lib/scraping/config/ics-feeds'
+import type { IcsFeedConfig } from '@/lib/scraping/types'
+
+const FIXTURES = join(__dirname, 'fixtures/ical')
+const fixture = (name: string) => readFileSync(join(FIXTURES, name), 'utf8')
+
+const NOW = new Date('2026-02-20T00:00:00Z')
+const HORIZON_END = new Date('2026-04-21T00:00:00Z')
+
+const leesPalace: IcsFeedConfig = {
+  id: 'lees-palace',
+  url: 'https://leespalace.example/events.ics',
+  city: 'toronto',
+  venue: { name: "Lee's Palace", address: '529 Bloor St W, Toronto, ON M5S 1Y5' },
+  enabled: true
+}
+
+const library: IcsFeedConfig = {
+  id: 'library',
+  url: 'https://library.example/programs.ics',
+  city: 'toronto',
+  enabled: true
+}
+
+const wallClock = (iso: string) => new Date(`${iso}Z`)
+
+describe('parseRecurrenceRule / expandRecurrence', () => {
+  const utc = (local: Date) => local
+
+  it('should expand weekly rules on several weekdays with COUNT', () => {
+    const rule = parseRecurrenceRule('FREQ=WEEKLY;BYDAY=TU,TH;COUNT=5')!
+    const dates = expandRecurrence({ start: wallClock('2026-03-03T19:00:00'), rule, toInstant: utc, to: HORIZON_END })
+
+    expect(dates.map(d => d.local.toISOString().slice(0, 10))).toEqual([
+      '2026-03-03', '2026-03-05', '2026-03-10', '2026-03-12', '2026-03-17'
+    ])
+  })
+
+  it('should expand ordinal weekdays and negative month days', () => {
+    const lastFriday = parseRecurrenceRule('FREQ=MONTHLY;BYDAY=-1FR;COUNT=3')!
+    expect(expandRecurrence({ start: wallClock('2026-01-30T20:00:00'), rule: lastFriday, toInstant: utc, to: HORIZON_END })
+      .map(d => d.local.toISOString().slice(0, 10))).toEqual(['2026-01-30', '2026-02-27', '2026-03-27'])
+
+    const lastDay = parseRecurrenceRule('FREQ=MONTHLY;BYMONTHDAY=-1;COUNT=3')!
+    expect(expandRecurrence({ start: wallClock('2026-01-31T12:00:00'), rule: lastDay, toInstant: utc, to: HORIZON_END })
+      .map(d => d.local.toISOString().slice(0, 10))).toEqual(['2026-01-31', '2026-02-28', '2026-03-31'])
+  })
+
+  it('should skip months without the start day and honour INTERVAL and UNTIL', () => {
+    const monthly = parseRecurrenceRule('FREQ=MONTHLY;COUNT=3')!
+    expect(expandRecurrence({ start: wallClock('2026-01-31T12:00:00'), rule: monthly, toInstant: utc, to: new Date('2026-12-31') })
+      .map(d => d.local.toISOString().slice(0, 10))).toEqual(['2026-01-31', '2026-03-31', '2026-05-31'])
+
+    const everyOtherDay = parseRecurrenceRule('FREQ=DAILY;INTERVAL=2;UNTIL=20260307T235959Z')!
+    expect(expandRecurrence({ start: wallClock('2026-03-01T09:00:00'), rule: everyOtherDay, toInstant: utc, to: HORIZON_END })
+      .map(d => d.local.toISOString().slice(0, 10))).toEqual(['2026-03-01', '2026-03-03', '2026-03-05', '2026-03-07'])
+  })
+
+  it('should apply BYSETPOS and yearly rules', () => {
+    const lastWeekday = parseRecurrenceRule('FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1;COUNT=2')!
+    expect(expandRecurrence({ start: wallClock('2026-02-27T17:00:00'), rule: lastWeekday, toInstant: utc, to: HORIZON_END })
+      .map(d => d.local.toISOString().slice(0, 10))).toEqual(['2026-02-27', '2026-03-31'])
+
+    const canadaDay = parseRecurrenceRule('FREQ=YEARLY;BYMONTH=7;BYMONTHDAY=1;COUNT=2')!
+    expect(expandRecurrence({ start: wallClock('2026-07-01T21:00:00'), rule: canadaDay, toInstant: utc, to: new Date('2030-01-01') })
+      .map(d => d.local.toISOString().slice(0, 10))).toEqual(['2026-07-01', '2027-07-01'])
+  })
+
+  it('should reject frequencies finer than daily', () => {
+    expect(parseRecurrenceRule('FREQ=HOURLY;COUNT=3')).toBeNull()
+    expect(parseRecurrenceRule('BYDAY=MO')).toBeNull()
+  })
+})
+
+describe('IcsParser', () => {
+  const parser = new IcsParser('America/Toronto')
+
+  it('should unfold lines, unescape text and read nested components separately', () => {
+    const calendar = parser.parse(fixture('lees-palace.ics'))
+    const arkells = calendar.events.find(e => e.uid === 'arkells-2026@leespalace.example')!
+    const openMic = calendar.events.find(e => e.uid === 'open-mic@leespalace.example' && !e.recurrenceId)!
+
+    expect(calendar.name).toBe("Lee's Palace")
+    expect(arkells.description).toBe("Hamilton's finest return for an intimate club show, all ages.\nDoors at 7pm.")
+    expect(arkells.location).toBe("Lee's Palace, 529 Bloor St W, Toronto, ON M5S 1Y5")
+    expect(arkells.geo).toEqual({ lat: 43.664964, lng: -79.410553 })
+    expect(openMic.description).toBeUndefined()
+    expect(openMic.categories).toEqual(['Comedy', 'Open Mic'])
+  })
+
+  it('should resolve TZID, UTC, floating and all-day values', () => {
+    const venue = parser.parse(fixture('lees-palace.ics'))
+    const libraryCalendar = parser.parse(fixture('library.ics'))
+
+    const openMic = venue.events.find(e => e.summary === 'Open Mic Tuesdays' && !e.recurrenceId)!
+    expect(openMic.start.date.toISOString()).toBe('2026-02-25T01:00:00.000Z')
+    expect(openMic.start.timezone).toBe('America/Toronto')
+
+    const bookClub = libraryCalendar.events.find(e => e.uid === 'book-club-lhs')!
+    expect(libraryCalendar.timezone).toBe('America/Toronto')
+    expect(bookClub.start.date.toISOString()).toBe('2026-02-10T23:30:00.000Z')
+
+    const crafts = libraryCalendar.events.find(e => e.uid === 'march-break-crafts')!
+    expect(crafts.start.allDay).toBe(true)
+    expect(crafts.start.date.toISOString()).toBe('2026-03-16T04:00:00.000Z')
+
+    // Outlook zone names map to IANA zones
+    const listing = libraryCalendar.events.find(e => e.uid === 'arkells-listing')!
+    expect(listing.start.date.toISOString()).toBe('2026-03-06T01:00:00.000Z')
+  })
+
+  it('should skip events without DTSTART with a warning', () => {
+    const calendar = parser.parse(fixture('library.ics'))
+
+    expect(calendar.events.map(e => e.uid)).not.toContain('no-start')
+    expect(calendar.warnings).toEqual(['Skipped VEVENT without DTSTART'])
+  })
+
+  it('should expand RRULEs across DST and apply EXDATE and RECURRENCE-ID overrides', () => {
+    const calendar = parser.parse(fixture('lees-palace.ics'))
+    const occurrences = parser.expand(calendar.events, NOW, HORIZON_END)
+      .filter(o => o.event.uid === 'open-mic@leespalace.example')
+
+    expect(occurrences.map(o => [o.start.toISOString(), o.event.summary, o.event.status ?? null])).toEqual([
+      ['2026-02-25T01:00:00.000Z', 'Open Mic Tuesdays', null],
+      ['2026-03-04T01:00:00.000Z', 'Open Mic Tuesdays', null],
+      // 8pm stays 8pm after the switch to daylight time
+      ['2026-03-11T00:00:00.000Z', 'Open Mic Tuesdays', null],
+      // 2026-03-17 is excluded; the 24th was moved an hour later
+      ['2026-03-25T01:00:00.000Z', 'Open Mic Tuesdays (Late Edition)', null],
+      ['2026-04-01T00:00:00.000Z', 'Open Mic Tuesdays', 'CANCELLED']
+    ])
+    expect(occurrences[3].occurrenceKey).toBe('2026-03-25T00:00:00.000Z')
+    expect(occurrences.every(o => o.recurring)).toBe(true)
+  })
+
+  it('should only return occurrences inside the window', () => {
+    const calendar = parser.parse(fixture('lees-palace.ics'))
+    const titles = parser.expand(calendar.events, NOW, HORIZON_END).map(o => o.event.summary)
+
+    expect(titles).not.toContain('Already Happened')
+  })
+})
+
+describe('IcsFeedSource', () => {
+  const feeds: Record<string, string> = {
+    [leesPalace.url]: fixture('lees-palace.ics'),
+    [library.url]: fixture('library.ics'),
+    'https://broken.example/feed.ics': '<html>Not found</html>'
+  }
+
+  const createSource = () => new IcsFeedSource({
+    now: () => NOW,
+    horizonDays: 60,
+    fetchFeed: async (url: string) => {
+      if (!(url in feeds)) throw new Error('HTTP 404: Not Found')
+      return feeds[url]
+    }
+  })
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {})
+    jest.spyOn(console, 'info').mockImplementation(() => {})
+    jest.spyOn(console, 'warn').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  it('should map occurrences to events with venue, url and external ids', async () => {
+    const result = await createSource().ingestFeeds([leesPalace])
+    const arkells = result.events.find(e => e.title === 'Arkells Live')!
+
+    expect(arkells).toMatchObject({
+      source: 'ical',
+      provider: 'lees-palace',
+      external_id: 'arkells-2026@leespalace.example',
+      external_url: 'https://leespalace.example/events/arkells',
+      venue_name: "Lee's Palace",
+      address: '529 Bloor St W, Toronto, ON M5S 1Y5',
+      latitude: 43.664964,
+      longitude: -79.410553,
+      date: '2026-03-05',
+      start_time: '2026-03-06T01:00:00.000Z',
+      end_time: '2026-03-06T04:00:00.000Z',
+      timezone: 'America/Toronto',
+      city_name: 'toronto',
+      category: 'music',
+      status: 'active'
+    })
+    expect(arkells.id).toMatch(/^ical_[0-9a-f]{24}$/)
+  })
+
+  it('should give each occurrence of a series its own stable external id', async () => {
+    const result = await createSource().ingestFeeds([leesPalace])
+    const openMic = result.events.filter(e => e.external_id?.startsWith('open-mic@'))
+
+    expect(openMic.map(e => e.external_id)).toEqual([
+      'open-mic@leespalace.example/2026-02-25T01:00:00.000Z',
+      'open-mic@leespalace.example/2026-03-04T01:00:00.000Z',
+      'open-mic@leespalace.example/2026-03-11T00:00:00.000Z',
+      'open-mic@leespalace.example/2026-03-25T00:00:00.000Z',
+      'open-mic@leespalace.example/2026-04-01T00:00:00.000Z'
+    ])
+    expect(openMic[4].status).toBe('cancelled')
+    expect(new Set(openMic.map(e => e.id)).size).toBe(5)
+  })
+
+  it('should fall back to the configured venue for room-only or missing locations', async () => {
+    const result = await createSource().ingestFeeds([leesPalace])
+    const karaoke = result.events.find(e => e.title === 'Karaoke in the Dance Cave')!
+
+    expect(karaoke.venue_name).toBe("Lee's Palace")
+    expect(karaoke.address).toBe('529 Bloor St W, Toronto, ON M5S 1Y5')
+    expect(karaoke.end_time).toBe('2026-02-28T06:00:00.000Z')
+    // No GEO in the feed and none configured: no invented coordinates
+    expect(karaoke.latitude).toBeNull()
+  })
+
+  it('should map all-day, floating and online events', async () => {
+    const result = await createSource().ingestFeeds([library])
+
+    const crafts = result.events.find(e => e.title === 'March Break Crafts')!
+    expect(crafts.date).toBe('2026-03-16')
+    expect(crafts.end_time).toBe('2026-03-21T04:00:00.000Z')
+    expect(crafts.category).toBe('family')
+
+    expect(result.events.filter(e => e.title === 'Book Club').map(e => e.date)).toEqual(['2026-03-10', '2026-04-14'])
+
+    const techHelp = result.events.filter(e => e.title === 'Tech Help Drop-in')
+    expect(techHelp.map(e => e.date)).toEqual(['2026-03-02', '2026-03-04', '2026-03-06'])
+    expect(techHelp[0].venue_name).toBeUndefined()
+    expect(techHelp[0].external_url).toBe('https://library.example/virtual/tech-help')
+    expect(techHelp[0].tags).toContain('online')
+
+    expect(result.venues).toEqual([
+      { name: "Lee's Palace", address: '529 Bloor St W, Toronto, ON M5S 1Y5', city: 'toronto', coordinates: undefined },
+      { name: 'Lillian H. Smith Branch', address: '239 College St, Toronto, ON', city: 'toronto', coordinates: undefined }
+    ])
+  })
+
+  it('should drop the same show listed by two feeds', async () => {
+    const result = await createSource().ingestFeeds([leesPalace, library])
+
+    expect(result.events.filter(e => e.title === 'Arkells Live')).toHaveLength(1)
+    expect(result.events.find(e => e.title === 'Arkells Live')!.provider).toBe('lees-palace')
+    expect(result.stats.duplicatesRemoved).toBe(1)
+    // Weekly occurrences of one series are not duplicates of each other
+    expect(result.events.filter(e => e.external_id?.startsWith('open-mic@'))).toHaveLength(5)
+  })
+
+  it('should report failing feeds and keep going', async () => {
+    const broken: IcsFeedConfig = { ...library, id: 'broken', url: 'https://broken.example/feed.ics' }
+    const missing: IcsFeedConfig = { ...library, id: 'missing', url: 'https://missing.example/feed.ics' }
+
+    const result = await createSource().ingestFeeds([broken, missing, leesPalace])
+
+    expect(result.stats.feedsFailed).toBe(2)
+    expect(result.errors).toEqual([
+      'broken: Response is not an iCalendar feed',
+      'missing: HTTP 404: Not Found'
+    ])
+    expect(result.events.length).toBeGreaterThan(0)
+  })
+})
+
+describe('parseIcsFeeds', () => {
+  beforeEach(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    jest.restoreAllMocks()
+  })
+
+  it('should read feed URLs and feed objects per city', () => {
+    const feeds = parseIcsFeeds(JSON.stringify({
+      Toronto: [
+        'https://library.example/programs.ics',
+        { url: 'https://leespalace.example/events.ics', venue: { name: "Lee's Palace" }, enabled: false }
+      ]
+    }))
+
+    expect(feeds).toEqual([
+      { id: 'https://library.example/programs.ics', url: 'https://library.example/programs.ics', city: 'toronto', enabled: true },
+      {
+        id: 'https://leespalace.example/events.ics',
+        url: 'https://leespalace.example/events.ics',
+        venue: { name: "Lee's Palace" },
+        city: 'toronto',
+        enabled: false
+      }
+    ])
+  })
+
+  it('should ignore missing or invalid configuration', () => {
+    expect(parseIcsFeeds(undefined)).toEqual([])
+    expect(parseIcsFeeds('not json')).toEqual([])
+    expect(parseIcsFeeds(JSON.stringify({ toronto: ['not a url'] }))).toEqual([])
+    expect(parseIcsFeeds(JSON.stringify({ toronto: 'https://library.example/programs.ics' }))).toEqual([])
+  })
+
+  it('should drop an invalid entry and keep the other feeds', () => {
+    const feeds = parseIcsFeeds(JSON.stringify({
+      toronto: ['not a url', 'https://library.example/programs.ics'],
+      montreal: [{ url: 'https://mtl.example/cal.ics', venue: {} }, 'https://mtl.example/events.ics']
+    }))
+
+    expect(feeds.map(feed => feed.url)).toEqual([
+      'https://library.example/programs.ics',
+      'https://mtl.example/events.ics'
+    ])
+    expect(console.warn).toHaveBeenCalledTimes(2)
+  })
+})
@@ -0,0 +1,191 @@
+/**
+ * Unit tests for /api/img image optimization: the source policy, guarded
+ * fetching, the sharp transform and variant caching
+ */
+
+import { promises as fs } from 'fs'
+import os from 'os'
+import path from 'path'
+import sharp from 'sharp'
+import { DiskVariantStore, getImageVariant, ImageError } from '@/lib/images'
+import {
+  isAllowedSource,
+  imageAllowlist,
+  MAX_SOURCE_BYTES,
+  negotiateFormat,
+  snapQuality,
+  snapWidth,
+  variantKey
+} from '@/lib/images/policy'
+import { fetchSourceImage } from '@/lib/images/source'
+import { transformImage } from '@/lib/images/transform'
+
+const ALLOWLIST = ['images.unsplash.com', 'evbuc.com']
+
+async function photo(width = 1600, height = 900): Promise<Buffer> {
+  return sharp({ create: { width, height, channels: 3, background: '#884422' } })
+    .jpeg()
+    .withMetadata({ exif: { IFD0: { Make: 'TestCam', Model: 'X100' } } })
+    .toBuffer()
+}
+
+function imageResponse(body: Buffer, contentType = 'image/jpeg'): Response {
+  return new Response(new Uint8Array(body), {
+    status: 200,
+    headers: { 'content-type': contentType, 'content-length': String(body.length) }
+  })
+}
+
+function fakeFetch(responses: Record<string, () => Response>): jest.Mock {
+  return jest.fn(async (url: string) => {
+    const respond = responses[url]
+    if (!respond) throw new Error(`Unexpected fetch: ${url}`)
+    return respond()
+  })
+}
+
+describe('source policy', () => {
+  it('allows https sources on listed hosts and their subdomains only', () => {
+    expect(isAllowedSource('https://images.unsplash.com/photo.jpg', ALLOWLIST)).toBe(true)
+    expect(isAllowedSource('https://img.evbuc.com/a.jpg', ALLOWLIST)).toBe(true)
+    expect(isAllowedSource('https://evilevbuc.com/a.jpg', ALLOWLIST)).toBe(false)
+    expect(isAllowedSource('http://images.unsplash.com/photo.jpg', ALLOWLIST)).toBe(false)
+    expect(isAllowedSource('https://images.unsplash.com:8443/photo.jpg', ALLOWLIST)).toBe(false)
+    expect(isAllowedSource('https://user:pw@images.unsplash.com/photo.jpg', ALLOWLIST)).toBe(false)
+    expect(isAllowedSource('https://169.254.169.254/latest/meta-data', ALLOWLIST)).toBe(false)
+  })
+
+  it('adds the Supabase host and configured hosts to the defaults', () => {
+    const hosts = imageAllowlist({
+      NEXT_PUBLIC_SUPABASE_URL: 'https://abc.supabase.co',
+      IMAGE_ALLOWED_HOSTS: ' CDN.Example.com , '
+    } as unknown as NodeJS.ProcessEnv)
+
+    expect(hosts).toEqual(expect.arrayContaining(['images.unsplash.com', 'abc.supabase.co', 'cdn.example.com']))
+  })
+
+  it('snaps widths up to the variant ladder and clamps quality', () => {
+    expect(snapWidth(300)).toBe(384)
+    expect(snapWidth(640)).toBe(640)
+    expect(snapWidth(5000)).toBe(2048)
+    expect(snapWidth(undefined)).toBeUndefined()
+    expect(snapQuality(77)).toBe(75)
+    expect(snapQuality(100)).toBe(90)
+    expect(snapQuality(1)).toBe(30)
+    expect(snapQuality(undefined)).toBe(75)
+  })
+
+  it('negotiates the best format the client accepts', () => {
+    expect(negotiateFormat('image/avif,image/webp,image/apng,*/*;q=0.8')).toBe('avif')
+    expect(negotiateFormat('image/webp,*/*')).toBe('webp')
+    expect(negotiateFormat('image/avif;q=0, image/webp')).toBe('webp')
+    expect(negotiateFormat(null)).toBe('jpeg')
+  })
+
+  it('keys variants by source, width, quality and format', () => {
+    const base = { url: 'https://images.unsplash.com/a.jpg', width: 640, quality: 75, format: 'webp' as const }
+
+    expect(variantKey(base)).toMatch(/^[0-9a-f]{64}\/640-q75\.webp$/)
+    expect(variantKey({ ...base, width: 750 })).not.toBe(variantKey(base))
+    expect(variantKey({ ...base, format: 'avif' })).not.toBe(variantKey(base))
+  })
+})
+
+describe('fetchSourceImage', () => {
+  it('refuses redirects that leave the allowlist', async () => {
+    const fetchImpl = fakeFetch({
+      'https://images.unsplash.com/a.jpg': () => new Response(null, {
+        status: 302,
+        headers: { location: 'http://10.0.0.5/admin' }
+      })
+    })
+
+    await expect(fetchSourceImage('https://images.unsplash.com/a.jpg', ALLOWLIST, fetchImpl))
+      .rejects.toMatchObject({ status: 403 })
+  })
+
+  it('follows redirects within the allowlist', async () => {
+    const body = await photo(32, 32)
+    const fetchImpl = fakeFetch({
+      'https://images.unsplash.com/a.jpg': () => new Response(null, {
+        status: 301,
+        headers: { location: 'https://cdn.evbuc.com/a.jpg' }
+      }),
+      'https://cdn.evbuc.com/a.jpg': () => imageResponse(body)
+    })
+
+    const source = await fetchSourceImage('https://images.unsplash.com/a.jpg', ALLOWLIST, fetchImpl)
+    expect(source.body.equals(body)).toBe(true)
+  })
+
+  it('refuses oversized and non-raster sources', async () => {
+    const oversized = fakeFetch({
+      'https://images.unsplash.com/a.jpg': () => new Response('x', {
+        headers: { 'content-type': 'image/jpeg', 'content-length': String(MAX_SOURCE_BYTES + 1) }
+      })
+    })
+    const svg = fakeFetch({
+      'https://images.unsplash.com/a.jpg': () => new Response('<svg/>', {
+        headers: { 'content-type': 'image/svg+xml' }
+      })
+    })
+
+    await expect(fetchSourceImage('https://images.unsplash.com/a.jpg', ALLOWLIST, oversized))
+      .rejects.toMatchObject({ status: 413 })
+    await expect(fetchSourceImage('https://images.unsplash.com/a.jpg', ALLOWLIST, svg))
+      .rejects.toMatchObject({ status: 415 })
+  })
+})
+
+describe('transformImage', () => {
+  it('resizes, transcodes and strips EXIF', async () => {
+    const source = await photo()
+    expect((await sharp(source).metadata()).exif).toBeDefined()
+
+    const variant = await transformImage(source, { width: 640, quality: 75, format: 'webp' })
+    const metadata = await sharp(variant.body).metadata()
+
+    expect(variant).toMatchObject({ format: 'webp', width: 640, height: 360 })
+    expect(metadata.format).toBe('webp')
+    expect(metadata.exif).toBeUndefined()
+  })
+
+  it('never enlarges small sources', async () => {
+    const variant = await transformImage(await photo(200, 100), { width: 1080, quality: 75, format: 'jpeg' })
+
+    expect(variant.width).toBe(200)
+  })
+
+  it('rejects bytes that are not an image', async () => {
+    await expect(transformImage(Buffer.from('not an image'), { quality: 75, format: 'webp' }))
+      .rejects.toBeInstanceOf(ImageError)
+  })
+})
+
+describe('getImageVariant', () => {
+  let dir: string
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'img-variants-'))
+  })
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true })
+  })
+
+  it('derives a variant once and serves it from the store after', async () => {
+    const body = await photo()
+    const fetchImpl = fakeFetch({ 'https://images.unsplash.com/a.jpg': () => imageResponse(body) })
+    const deps = { store: new DiskVariantStore(dir), allowlist: ALLOWLIST, fetchImpl }
+    const request = { url: 'https://images.unsplash.com/a.jpg', width: 384, quality: 75, format: 'webp' as const }
+
+    const first = await getImageVariant(request, deps)
+    const second = await getImageVariant(request, deps)
+
+    expect(first.cached).toBe(false)
+    expect(second.cached).toBe(true)
+    expect(second.format).toBe('webp')
+    expect(second.body.equals(first.body)).toBe(true)
+    expect(fetchImpl).toHaveBeenCalledTimes(1)
+  })
+})
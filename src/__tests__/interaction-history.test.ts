@@ -0,0 +1,120 @@
+/**
+ * Unit tests for interaction history folding and merge rules
+ */
+
+import {
+  foldHistory,
+  interactionKey,
+  mergeInteractions,
+  mergeSeen,
+  mergeVotes,
+  voteRecordKey,
+  type InteractionRecord,
+} from '@/lib/tracking/history'
+import type { InteractionEvent } from '@/lib/tracking/client'
+
+const now = new Date('2025-11-01T12:00:00Z').getTime()
+const DAY = 24 * 60 * 60 * 1000
+
+function interaction(overrides: Partial<InteractionEvent> = {}): InteractionEvent {
+  return {
+    id: 'k1',
+    type: 'click',
+    eventId: 'tm_1',
+    category: 'music',
+    timestamp: now - DAY,
+    sessionId: 'session_a',
+    ...overrides,
+  }
+}
+
+describe('foldHistory', () => {
+  it('should count a replayed record once', () => {
+    const record: InteractionRecord = { key: 'k1', kind: 'interaction', occurredAt: now - DAY, event: interaction() }
+    const history = foldHistory([record, record], now)
+
+    expect(history.interactions).toHaveLength(1)
+  })
+
+  it('should drop interactions and seen marks outside their windows', () => {
+    const history = foldHistory([
+      { key: 'old', kind: 'interaction', occurredAt: now - 90 * DAY, event: interaction({ id: 'old', timestamp: now - 90 * DAY }) },
+      { key: 'seen-old', kind: 'seen', occurredAt: now - 20 * DAY, eventId: 'tm_2', source: 'view' },
+      { key: 'seen-new', kind: 'seen', occurredAt: now - DAY, eventId: 'tm_3', source: 'detail' },
+    ], now)
+
+    expect(history.interactions).toEqual([])
+    expect(history.seen.map(s => s.eventId)).toEqual(['tm_3'])
+  })
+
+  it('should keep the latest vote per event, including removals', () => {
+    const history = foldHistory([
+      { key: voteRecordKey('tm_1', now - 3 * DAY), kind: 'vote', occurredAt: now - 3 * DAY, eventId: 'tm_1', vote: 'up' },
+      { key: voteRecordKey('tm_1', now - DAY), kind: 'vote', occurredAt: now - DAY, eventId: 'tm_1', vote: null },
+      // Votes never expire
+      { key: voteRecordKey('tm_2', now - 400 * DAY), kind: 'vote', occurredAt: now - 400 * DAY, eventId: 'tm_2', vote: 'down' },
+    ], now)
+
+    expect(history.votes).toEqual([
+      { eventId: 'tm_1', vote: null, votedAt: now - DAY },
+      { eventId: 'tm_2', vote: 'down', votedAt: now - 400 * DAY },
+    ])
+  })
+})
+
+describe('mergeInteractions', () => {
+  it('should union devices without duplicating shared interactions', () => {
+    const shared = interaction({ id: 'shared' })
+    const merged = mergeInteractions(
+      [shared, interaction({ id: 'laptop', timestamp: now - 2 * DAY })],
+      [shared, interaction({ id: 'phone', timestamp: now - 3 * DAY })]
+    )
+
+    expect(merged.map(e => e.id)).toEqual(['phone', 'laptop', 'shared'])
+  })
+
+  it('should key legacy interactions by session, time and target', () => {
+    const legacy = interaction({ id: undefined })
+
+    expect(interactionKey(legacy)).toBe(`session_a:${now - DAY}:click:tm_1`)
+    expect(mergeInteractions([legacy], [{ ...legacy, id: interactionKey(legacy) }])).toHaveLength(1)
+  })
+})
+
+describe('mergeVotes', () => {
+  it('should apply newer server votes and removals but keep newer local votes', () => {
+    const merged = mergeVotes(
+      [
+        { eventId: 'tm_1', vote: 'up', votedAt: now - 3 * DAY },
+        { eventId: 'tm_2', vote: 'up', votedAt: now - DAY },
+      ],
+      [
+        { eventId: 'tm_1', vote: null, votedAt: now - 2 * DAY },
+        { eventId: 'tm_2', vote: 'down', votedAt: now - 2 * DAY },
+        { eventId: 'tm_3', vote: 'down', votedAt: now - 5 * DAY },
+      ]
+    )
+
+    expect(merged).toEqual([
+      { eventId: 'tm_2', vote: 'up', votedAt: now - DAY },
+      { eventId: 'tm_3', vote: 'down', votedAt: now - 5 * DAY },
+    ])
+  })
+})
+
+describe('mergeSeen', () => {
+  it('should keep the most recent seen mark per event', () => {
+    const merged = mergeSeen(
+      [{ eventId: 'tm_1', seenAt: now - 2 * DAY, source: 'view' }],
+      [
+        { eventId: 'tm_1', seenAt: now - DAY, source: 'detail' },
+        { eventId: 'tm_2', seenAt: now - 3 * DAY, source: 'click' },
+      ]
+    )
+
+    expect(merged).toEqual([
+      { eventId: 'tm_1', seenAt: now - DAY, source: 'detail' },
+      { eventId: 'tm_2', seenAt: now - 3 * DAY, source: 'click' },
+    ])
+  })
+})
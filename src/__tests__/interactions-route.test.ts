@@ -0,0 +1,76 @@
+/**
+ * Route tests for POST /api/interactions: records the client actually
+ * sends are stored, and invalid records are dropped without failing the batch
+ */
+
+import { NextRequest } from 'next/server'
+import { POST } from '@/app/api/interactions/route'
+import { recordInteractions } from '@/lib/tracking/service'
+
+jest.mock('@/lib/supabase-server', () => ({
+  getRequestUser: jest.fn(async () => ({ id: 'user_a' })),
+}))
+
+jest.mock('@/lib/tracking/service', () => ({
+  recordInteractions: jest.fn(async (_userId: string, records: Array<{ key: string }>) =>
+    records.map(record => record.key)
+  ),
+  loadInteractionHistory: jest.fn(),
+  deleteInteractionHistory: jest.fn(),
+}))
+
+const recordMock = recordInteractions as jest.MockedFunction<typeof recordInteractions>
+
+function interaction(key: string, event: Record<string, unknown>) {
+  return {
+    key,
+    kind: 'interaction',
+    occurredAt: 1_760_000_000_000,
+    event: { id: key, timestamp: 1_760_000_000_000, sessionId: 'session_a', ...event },
+  }
+}
+
+function post(records: unknown[]): NextRequest {
+  return new NextRequest('http://localhost:3000/api/interactions', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Authorization: 'Bearer token' },
+    body: JSON.stringify({ records }),
+  })
+}
+
+describe('POST /api/interactions', () => {
+  beforeEach(() => {
+    recordMock.mockClear()
+  })
+
+  it('stores votes and events with null fields', async () => {
+    const result = await POST(post([
+      interaction('k_vote', { type: 'vote_up', eventId: 'tm_1', category: 'music', price: 25, venue: 'Massey Hall' }),
+      interaction('k_null', { type: 'unsave', eventId: 'tm_2', price: null, venue: null }),
+    ]))
+    const body = await result.json()
+
+    expect(result.status).toBe(200)
+    expect(body.acknowledged).toEqual(['k_vote', 'k_null'])
+    expect(body.rejected).toEqual([])
+
+    const stored = recordMock.mock.calls[0][1]
+    expect(stored).toHaveLength(2)
+    expect(stored[1]).toMatchObject({ event: { type: 'unsave', eventId: 'tm_2' } })
+    expect((stored[1] as { event: Record<string, unknown> }).event.price).toBeUndefined()
+  })
+
+  it('acknowledges and drops invalid records without failing the batch', async () => {
+    const result = await POST(post([
+      interaction('k_good', { type: 'click', eventId: 'tm_1' }),
+      interaction('k_bad', { type: 'teleport', eventId: 'tm_1' }),
+      { kind: 'seen' },
+    ]))
+    const body = await result.json()
+
+    expect(result.status).toBe(200)
+    expect(body.acknowledged).toEqual(['k_good', 'k_bad'])
+    expect(body.rejected).toEqual(['k_bad'])
+    expect(recordMock.mock.calls[0][1].map(record => record.key)).toEqual(['k_good'])
+  })
+})
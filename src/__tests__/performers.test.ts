@@ -0,0 +1,254 @@
+/**
+ * Unit tests for performer extraction, cross-source identity, follower
+ * announcements and follow affinity
+ */
+
+import {
+  performerSlug,
+  performersFromBandsintown,
+  performersFromSongkick,
+  performersFromTicketmaster
+} from '@/lib/performers/extract'
+import { matchPerformer, resolvePerformers } from '@/lib/performers/identity'
+import { describeShow, sameCity, showsForFollower, type AnnouncedShow } from '@/lib/performers/followers'
+import type { Performer } from '@/lib/performers/types'
+import { computeAffinity, explainEvent } from '@/lib/tracking/affinity'
+import type { InteractionEvent } from '@/lib/tracking/client'
+
+const DAY = 24 * 60 * 60 * 1000
+
+const ticketmasterEvent = {
+  id: 'G5vYZ9xk1',
+  name: 'The Beaches with Valley',
+  _embedded: {
+    attractions: [
+      {
+        id: 'K8vZ917GSx7',
+        name: 'The Beaches',
+        images: [
+          { url: 'https://s1.ticketm.net/beaches_small.jpg', width: 205 },
+          { url: 'https://s1.ticketm.net/beaches_large.jpg', width: 1024 }
+        ],
+        externalLinks: { musicbrainz: [{ id: 'mb-beaches' }] },
+        classifications: [{ genre: { name: 'Rock' } }]
+      },
+      {
+        id: 'K8vZ9171oZ7',
+        name: 'Valley',
+        classifications: [{ genre: { name: 'Undefined' } }]
+      }
+    ]
+  }
+}
+
+const songkickEvent = {
+  id: 41099812,
+  displayName: 'Valley with The Beaches at History',
+  performance: [
+    {
+      displayName: 'The Beaches',
+      billing: 'support',
+      billingIndex: 2,
+      artist: { id: 6457489, displayName: 'The Beaches', identifier: [{ mbid: 'mb-beaches' }] }
+    },
+    {
+      displayName: 'Valley',
+      billing: 'headline',
+      billingIndex: 1,
+      artist: { id: 8123001, displayName: 'Valley', identifier: [] }
+    }
+  ]
+}
+
+const bandsintownEvent = {
+  id: '104383822',
+  artist_id: '510',
+  lineup: ['Beaches', 'Valley', 'BEACHES'],
+  artist: { id: '510', name: 'Beaches', image_url: 'https://photos.bandsintown.com/beaches.jpg', mbid: '' }
+}
+
+function stored(overrides: Partial<Performer> = {}): Performer {
+  return {
+    id: 'pf_beaches',
+    name: 'The Beaches',
+    slug: 'beaches',
+    imageUrl: null,
+    genres: ['Rock'],
+    musicbrainzId: null,
+    externalIds: { ticketmaster: 'K8vZ917GSx7' },
+    followerCount: 12,
+    ...overrides
+  }
+}
+
+describe('performerSlug', () => {
+  it('should normalize spelling differences of the same act', () => {
+    expect(performerSlug('The Beaches')).toBe('beaches')
+    expect(performerSlug('BEACHES')).toBe('beaches')
+    expect(performerSlug('Daniel Caesar (DJ Set)')).toBe('daniel-caesar')
+    expect(performerSlug('Salt & Pepper')).toBe(performerSlug('Salt + Pepper'))
+    expect(performerSlug('Beyoncé')).toBe('beyonce')
+  })
+})
+
+describe('performer extraction', () => {
+  it('should take Ticketmaster attractions in billing order with ids and images', () => {
+    const [headliner, support] = performersFromTicketmaster(ticketmasterEvent)
+
+    expect(headliner).toEqual({
+      name: 'The Beaches',
+      slug: 'beaches',
+      role: 'headliner',
+      billingOrder: 0,
+      source: 'ticketmaster',
+      externalId: 'K8vZ917GSx7',
+      musicbrainzId: 'mb-beaches',
+      imageUrl: 'https://s1.ticketm.net/beaches_large.jpg',
+      genres: ['Rock']
+    })
+    expect(support).toMatchObject({ name: 'Valley', role: 'support', billingOrder: 1, genres: [] })
+  })
+
+  it('should order Songkick performances by billing index', () => {
+    const performers = performersFromSongkick(songkickEvent)
+
+    expect(performers.map(p => [p.name, p.role, p.externalId])).toEqual([
+      ['Valley', 'headliner', '8123001'],
+      ['The Beaches', 'support', '6457489']
+    ])
+    expect(performers[1].musicbrainzId).toBe('mb-beaches')
+  })
+
+  it('should attach the requested Bandsintown artist to its lineup entry and drop repeats', () => {
+    const performers = performersFromBandsintown(bandsintownEvent)
+
+    expect(performers).toHaveLength(2)
+    expect(performers[0]).toMatchObject({
+      name: 'Beaches',
+      externalId: '510',
+      imageUrl: 'https://photos.bandsintown.com/beaches.jpg',
+      role: 'headliner'
+    })
+    expect(performers[1]).toMatchObject({ name: 'Valley', role: 'support', billingOrder: 1 })
+    expect(performers[1].externalId).toBeUndefined()
+  })
+
+  it('should return no performers for events without a lineup', () => {
+    expect(performersFromTicketmaster({ id: 'x', name: 'Raptors vs Celtics' })).toEqual([])
+    expect(performersFromSongkick({})).toEqual([])
+    expect(performersFromBandsintown({ lineup: [] })).toEqual([])
+  })
+})
+
+describe('performer identity', () => {
+  it('should match by source id, then MusicBrainz id, then normalized name', () => {
+    const known = [stored(), stored({ id: 'pf_valley', name: 'Valley', slug: 'valley', externalIds: {}, musicbrainzId: 'mb-valley' })]
+
+    expect(matchPerformer(performersFromTicketmaster(ticketmasterEvent)[0], known)?.id).toBe('pf_beaches')
+    expect(matchPerformer({ ...performersFromSongkick(songkickEvent)[0], musicbrainzId: 'mb-valley' }, known)?.id).toBe('pf_valley')
+    expect(matchPerformer(performersFromBandsintown(bandsintownEvent)[0], known)?.id).toBe('pf_beaches')
+  })
+
+  it('should not merge two acts that share a name but have different ids at a source', () => {
+    const namesake = { ...performersFromTicketmaster(ticketmasterEvent)[0], externalId: 'K8vOTHER', musicbrainzId: null }
+
+    expect(matchPerformer(namesake, [stored()])).toBeNull()
+
+    const { listed, changed } = resolvePerformers([namesake], [stored()])
+    expect(listed[0].id).toBe('pf_beaches_ticketmaster_K8vOTHER')
+    expect(changed[0].externalIds).toEqual({ ticketmaster: 'K8vOTHER' })
+  })
+
+  it('should merge listings from other sources into the stored performer', () => {
+    const { listed, changed } = resolvePerformers(performersFromSongkick(songkickEvent), [stored()])
+
+    expect(listed.map(p => p.id)).toEqual(['pf_valley', 'pf_beaches'])
+    const beaches = changed.find(p => p.id === 'pf_beaches')!
+    expect(beaches.name).toBe('The Beaches')
+    expect(beaches.externalIds).toEqual({ ticketmaster: 'K8vZ917GSx7', songkick: '6457489' })
+    expect(beaches.musicbrainzId).toBe('mb-beaches')
+    expect(beaches.followerCount).toBe(12)
+  })
+
+  it('should leave unchanged performers out of the write set', () => {
+    const { changed } = resolvePerformers([performersFromTicketmaster(ticketmasterEvent)[0]], [
+      stored({ imageUrl: 'https://s1.ticketm.net/beaches_large.jpg', musicbrainzId: 'mb-beaches' })
+    ])
+
+    expect(changed).toEqual([])
+  })
+})
+
+describe('follower announcements', () => {
+  const show = (overrides: Partial<AnnouncedShow> = {}): AnnouncedShow => ({
+    eventId: 'tm_G5vYZ9xk1',
+    title: 'The Beaches',
+    date: '2026-03-06',
+    venueName: 'Massey Hall',
+    cityName: 'Toronto',
+    linkedAt: '2026-01-10T12:00:00.000Z',
+    ...overrides
+  })
+
+  it('should compare cities loosely', () => {
+    expect(sameCity('Toronto', 'toronto')).toBe(true)
+    expect(sameCity('Toronto, ON', 'Toronto')).toBe(true)
+    expect(sameCity('Montréal', 'Montreal')).toBe(true)
+    expect(sameCity('Toronto', 'Hamilton')).toBe(false)
+    expect(sameCity(null, 'Toronto')).toBe(false)
+  })
+
+  it('should announce only dates in the followed city linked after the follow', () => {
+    const shows = [
+      show(),
+      show({ eventId: 'tm_montreal', cityName: 'Montreal' }),
+      show({ eventId: 'tm_old', linkedAt: '2025-12-01T00:00:00.000Z' })
+    ]
+
+    const matching = showsForFollower(shows, { city: 'toronto', createdAt: '2026-01-01T00:00:00.000Z' })
+
+    expect(matching.map(s => s.eventId)).toEqual(['tm_G5vYZ9xk1'])
+  })
+
+  it('should describe a show by date and venue', () => {
+    expect(describeShow(show())).toBe('Fri, Mar 6 · Massey Hall')
+    expect(describeShow(show({ date: null, venueName: null }))).toBe('Date TBA')
+  })
+})
+
+describe('follow affinity', () => {
+  const interaction = (overrides: Partial<InteractionEvent> = {}): InteractionEvent => ({
+    type: 'follow',
+    performer: 'beaches',
+    timestamp: Date.now() - DAY,
+    sessionId: 'session_a',
+    ...overrides
+  })
+
+  it('should score followed performers and back off on unfollow', () => {
+    const affinity = computeAffinity([
+      interaction(),
+      interaction({ type: 'click', performer: 'valley', category: 'music' })
+    ])
+
+    expect(affinity.performers.beaches).toBe(1)
+    expect(affinity.performers.valley).toBeCloseTo(0.1, 1)
+
+    const unfollowed = computeAffinity([interaction(), interaction({ type: 'unfollow', timestamp: Date.now() })])
+    expect(unfollowed.evidence!.performers.beaches.signals.unfollow.weight).toBeLessThan(0)
+    expect(computeAffinity([interaction({ type: 'unfollow' })]).performers.beaches).toBeLessThan(0)
+  })
+
+  it('should explain events by the followed performers on the bill', () => {
+    const affinity = computeAffinity([interaction()])
+
+    const explanation = explainEvent(affinity, {
+      category: 'music',
+      performers: [{ name: 'The Beaches', slug: 'beaches' }, { name: 'Valley', slug: 'valley' }]
+    })
+
+    expect(explanation.reason).toBe('affinity')
+    expect(explanation.performers).toEqual([{ name: 'The Beaches', score: 1 }])
+    expect(explanation.summary).toBe('You follow The Beaches')
+  })
+})
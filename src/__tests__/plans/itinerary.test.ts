@@ -0,0 +1,121 @@
+/**
+ * Unit tests for plan itinerary checks
+ */
+
+import { checkItinerary, getEventWindow } from '@/lib/plans/itinerary'
+
+// Massey Hall and the Horseshoe Tavern, ~2 km apart
+const MASSEY_HALL = { latitude: 43.6540, longitude: -79.3790, venue_name: 'Massey Hall' }
+const HORSESHOE = { latitude: 43.6490, longitude: -79.3960, venue_name: 'Horseshoe Tavern' }
+
+describe('getEventWindow', () => {
+  it('should use the provider end time when present', () => {
+    const window = getEventWindow({
+      startUtc: '2025-11-01T23:00:00Z',
+      endUtc: '2025-11-02T01:30:00Z',
+    })
+
+    expect(window?.endEstimated).toBe(false)
+    expect(window?.end.toISOString()).toBe('2025-11-02T01:30:00.000Z')
+  })
+
+  it('should assume the default duration when no end time is given', () => {
+    const window = getEventWindow({ startUtc: '2025-11-01T23:00:00Z' })
+
+    expect(window?.endEstimated).toBe(true)
+    expect(window!.end.getTime() - window!.start.getTime()).toBe(4 * 60 * 60 * 1000)
+  })
+
+  it('should read provider dates and times in the event timezone', () => {
+    const window = getEventWindow({
+      event_date: '2025-11-01',
+      start_time: '19:30',
+      end_time: '22:30',
+      timezone: 'America/Toronto',
+    })
+
+    expect(window?.endEstimated).toBe(false)
+    expect(window?.start.toISOString()).toBe('2025-11-01T23:30:00.000Z')
+    expect(window?.end.toISOString()).toBe('2025-11-02T02:30:00.000Z')
+  })
+
+  it('should return null without a date', () => {
+    expect(getEventWindow({ title: 'No date' })).toBeNull()
+  })
+})
+
+describe('checkItinerary', () => {
+  it('should flag overlapping events', () => {
+    const warnings = checkItinerary([
+      { id: 'a', title: 'Show A', startUtc: '2025-11-01T23:00:00Z', endUtc: '2025-11-02T01:00:00Z' },
+      { id: 'b', title: 'Show B', startUtc: '2025-11-02T00:30:00Z', endUtc: '2025-11-02T02:00:00Z' },
+    ])
+
+    expect(warnings).toHaveLength(1)
+    expect(warnings[0].type).toBe('overlap')
+    expect(warnings[0].severity).toBe('error')
+    expect(warnings[0].gapMinutes).toBe(-30)
+  })
+
+  it('should flag insufficient travel time between venues', () => {
+    const warnings = checkItinerary([
+      {
+        id: 'a', title: 'Concert', timezone: 'America/Toronto', ...MASSEY_HALL,
+        startUtc: '2025-11-02T00:00:00Z', endUtc: '2025-11-02T02:30:00Z',
+      },
+      {
+        id: 'b', title: 'Late set', timezone: 'America/Toronto', ...HORSESHOE,
+        startUtc: '2025-11-02T02:35:00Z', endUtc: '2025-11-02T04:00:00Z',
+      },
+    ])
+
+    expect(warnings).toHaveLength(1)
+    expect(warnings[0].type).toBe('travel_time')
+    expect(warnings[0].gapMinutes).toBe(5)
+    expect(warnings[0].distanceKm).toBeCloseTo(1.5, 0)
+    expect(warnings[0].message).toBe(
+      'Leaves Massey Hall at 10:30 PM, next event starts 10:35 PM 1.5 km away (~23 min needed)'
+    )
+  })
+
+  it('should render provider wall times in the event timezone', () => {
+    const warnings = checkItinerary([
+      {
+        id: 'a', title: 'Concert', timezone: 'America/Toronto', ...MASSEY_HALL,
+        event_date: '2025-11-01', start_time: '20:00', end_time: '22:30',
+      },
+      {
+        id: 'b', title: 'Late set', timezone: 'America/Toronto', ...HORSESHOE,
+        event_date: '2025-11-01', start_time: '22:35', end_time: '23:59',
+      },
+    ])
+
+    expect(warnings).toHaveLength(1)
+    expect(warnings[0].gapMinutes).toBe(5)
+    expect(warnings[0].fromEnd).toBe('2025-11-02T02:30:00.000Z')
+    expect(warnings[0].message).toBe(
+      'Leaves Massey Hall at 10:30 PM, next event starts 10:35 PM 1.5 km away (~23 min needed)'
+    )
+  })
+
+  it('should accept enough time between venues', () => {
+    const warnings = checkItinerary([
+      { id: 'a', title: 'Dinner', ...MASSEY_HALL, startUtc: '2025-11-01T22:00:00Z', endUtc: '2025-11-01T23:30:00Z' },
+      { id: 'b', title: 'Show', ...HORSESHOE, startUtc: '2025-11-02T00:30:00Z' },
+    ])
+
+    expect(warnings).toEqual([])
+  })
+
+  it('should check events in chronological order regardless of input order', () => {
+    const warnings = checkItinerary([
+      { id: 'late', title: 'Late', startUtc: '2025-11-02T02:00:00Z' },
+      { id: 'early', title: 'Early', startUtc: '2025-11-01T23:00:00Z' },
+    ])
+
+    expect(warnings).toHaveLength(1)
+    expect(warnings[0].fromEventId).toBe('early')
+    expect(warnings[0].severity).toBe('warning')
+    expect(warnings[0].endEstimated).toBe(true)
+  })
+})
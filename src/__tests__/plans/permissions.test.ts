@@ -0,0 +1,32 @@
+/**
+ * Unit tests for plan role checks
+ */
+
+import { canPerform } from '@/lib/plans/permissions'
+
+describe('canPerform', () => {
+  it('should let owners do everything', () => {
+    expect(canPerform('owner', 'view')).toBe(true)
+    expect(canPerform('owner', 'edit_items')).toBe(true)
+    expect(canPerform('owner', 'invite')).toBe(true)
+    expect(canPerform('owner', 'delete')).toBe(true)
+  })
+
+  it('should let editors change items but not manage the plan', () => {
+    expect(canPerform('editor', 'view')).toBe(true)
+    expect(canPerform('editor', 'edit_items')).toBe(true)
+    expect(canPerform('editor', 'edit_plan')).toBe(true)
+    expect(canPerform('editor', 'invite')).toBe(false)
+    expect(canPerform('editor', 'delete')).toBe(false)
+  })
+
+  it('should keep viewers read-only', () => {
+    expect(canPerform('viewer', 'view')).toBe(true)
+    expect(canPerform('viewer', 'edit_items')).toBe(false)
+    expect(canPerform('viewer', 'edit_plan')).toBe(false)
+  })
+
+  it('should deny non-members', () => {
+    expect(canPerform(null, 'view')).toBe(false)
+  })
+})
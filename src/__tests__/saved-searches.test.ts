@@ -0,0 +1,136 @@
+/**
+ * Unit tests for saved search matching, alert frequency and descriptions
+ */
+
+import {
+  describeCriteria,
+  describeMatch,
+  emptyCriteria,
+  isAlertDue,
+  matchesSavedSearch
+} from '@/lib/saved-searches/match'
+import type { SavedSearchCriteria, SearchableEvent } from '@/lib/saved-searches/types'
+
+const NOW = new Date('2026-03-02T12:00:00')
+const HOUR = 60 * 60 * 1000
+
+function event(overrides: Partial<SearchableEvent> = {}): SearchableEvent {
+  return {
+    id: 'tm_1',
+    title: 'Late Night Jazz Quartet',
+    description: 'Standards and originals',
+    category: 'music',
+    venue_name: 'The Rex',
+    date: '2026-03-06',
+    time: '21:30:00',
+    price_min: 15,
+    latitude: 43.6505,
+    longitude: -79.3886,
+    created_at: '2026-03-02T10:00:00.000Z',
+    ...overrides
+  }
+}
+
+function criteria(overrides: Partial<SavedSearchCriteria> = {}): SavedSearchCriteria {
+  return { ...emptyCriteria('jazz'), ...overrides }
+}
+
+describe('saved search matching', () => {
+  it('should require every word of the query somewhere in the event', () => {
+    expect(matchesSavedSearch(event(), criteria(), NOW)).toBe(true)
+    expect(matchesSavedSearch(event(), criteria({ query: 'JAZZ rex' }), NOW)).toBe(true)
+    expect(matchesSavedSearch(event(), criteria({ query: 'jazz brunch' }), NOW)).toBe(false)
+  })
+
+  it('should filter by category and price range', () => {
+    expect(matchesSavedSearch(event(), criteria({ category: 'Music' }), NOW)).toBe(true)
+    expect(matchesSavedSearch(event(), criteria({ category: 'comedy' }), NOW)).toBe(false)
+    expect(matchesSavedSearch(event(), criteria({ priceMax: 20 }), NOW)).toBe(true)
+    expect(matchesSavedSearch(event(), criteria({ priceMin: 20 }), NOW)).toBe(false)
+    expect(matchesSavedSearch(event({ price_min: null }), criteria({ priceMax: 20 }), NOW)).toBe(false)
+  })
+
+  it('should filter by distance from the saved location', () => {
+    const downtown = { lat: 43.6532, lng: -79.3832, radiusKm: 2, label: 'downtown' }
+
+    expect(matchesSavedSearch(event(), criteria({ location: downtown }), NOW)).toBe(true)
+    expect(matchesSavedSearch(event({ latitude: 43.7615, longitude: -79.4111 }), criteria({ location: downtown }), NOW)).toBe(false)
+    expect(matchesSavedSearch(event({ latitude: null, longitude: null }), criteria({ location: downtown }), NOW)).toBe(false)
+  })
+
+  it('should not place events without coordinates at 0,0', () => {
+    const nullIsland = { lat: 0, lng: 0, radiusKm: 50, label: 'Null Island' }
+
+    expect(matchesSavedSearch(event({ latitude: null, longitude: null }), criteria({ location: nullIsland }), NOW)).toBe(false)
+    expect(matchesSavedSearch(event({ latitude: 0.1, longitude: null }), criteria({ location: nullIsland }), NOW)).toBe(false)
+  })
+
+  it('should filter by rolling and fixed date windows', () => {
+    expect(matchesSavedSearch(event(), criteria({ withinDays: 7 }), NOW)).toBe(true)
+    expect(matchesSavedSearch(event(), criteria({ withinDays: 3 }), NOW)).toBe(false)
+    expect(matchesSavedSearch(event(), criteria({ dateFrom: '2026-03-06', dateTo: '2026-03-06' }), NOW)).toBe(true)
+    expect(matchesSavedSearch(event(), criteria({ dateFrom: '2026-03-07' }), NOW)).toBe(false)
+    expect(matchesSavedSearch(event({ date: null }), criteria({ withinDays: 30 }), NOW)).toBe(false)
+  })
+
+  it('should apply the QuickChips flags', () => {
+    const nearby = { lat: 43.6510, lng: -79.3880, radiusKm: 5, label: null }
+
+    expect(matchesSavedSearch(event({ price_min: 0 }), criteria({ chips: { free: true } }), NOW)).toBe(true)
+    expect(matchesSavedSearch(event(), criteria({ chips: { free: true } }), NOW)).toBe(false)
+    expect(matchesSavedSearch(event(), criteria({ location: nearby, chips: { near: true } }), NOW)).toBe(true)
+    expect(matchesSavedSearch(
+      event({ latitude: 43.6700, longitude: -79.3900 }),
+      criteria({ location: { ...nearby, radiusKm: 10 }, chips: { near: true } }),
+      NOW
+    )).toBe(false)
+  })
+
+  it('should read tonight and happening now at the given time in the event timezone', () => {
+    // 5 PM in Toronto, 2 PM in Vancouver
+    const evening = new Date('2026-03-06T22:00:00Z')
+
+    expect(matchesSavedSearch(event(), criteria({ chips: { tonight: true } }), evening)).toBe(true)
+    expect(matchesSavedSearch(event({ date: '2026-03-07' }), criteria({ chips: { tonight: true } }), evening)).toBe(false)
+    expect(matchesSavedSearch(event({ timezone: 'America/Vancouver' }), criteria({ chips: { tonight: true } }), evening)).toBe(true)
+    expect(matchesSavedSearch(event(), criteria({ chips: { tonight: true } }), NOW)).toBe(false)
+    // 1:30 AM the next morning is still last night
+    expect(matchesSavedSearch(event(), criteria({ chips: { tonight: true } }), new Date('2026-03-07T06:30:00Z'))).toBe(true)
+
+    expect(matchesSavedSearch(event(), criteria({ chips: { now: true } }), new Date('2026-03-07T00:30:00Z'))).toBe(true)
+    expect(matchesSavedSearch(event(), criteria({ chips: { now: true } }), evening)).toBe(false)
+  })
+})
+
+describe('alert frequency', () => {
+  it('should alert instantly, or once the daily or weekly interval has passed', () => {
+    const at = (hoursAgo: number) => new Date(NOW.getTime() - hoursAgo * HOUR).toISOString()
+
+    expect(isAlertDue('instant', at(0), NOW)).toBe(true)
+    expect(isAlertDue('daily', null, NOW)).toBe(true)
+    expect(isAlertDue('daily', at(12), NOW)).toBe(false)
+    expect(isAlertDue('daily', at(23.5), NOW)).toBe(true)
+    expect(isAlertDue('weekly', at(24 * 3), NOW)).toBe(false)
+    expect(isAlertDue('weekly', at(24 * 7), NOW)).toBe(true)
+  })
+})
+
+describe('saved search descriptions', () => {
+  it('should describe every filter that is set', () => {
+    expect(describeCriteria(criteria())).toBe('“jazz”')
+    expect(describeCriteria(criteria({
+      category: 'music',
+      priceMax: 30,
+      location: { lat: 43.65, lng: -79.38, radiusKm: 5, label: 'Queen West' },
+      withinDays: 7,
+      chips: { tonight: true, free: true }
+    }))).toBe('“jazz” · music · Under $30 · Within 5 km of Queen West · Next 7 days · Tonight · Free')
+    expect(describeCriteria(criteria({ priceMin: 20, dateFrom: '2026-03-01', dateTo: '2026-03-15' })))
+      .toBe('“jazz” · $20+ · Mar 1 – Mar 15')
+  })
+
+  it('should describe a match by date, title and venue', () => {
+    expect(describeMatch(event())).toBe('Fri, Mar 6 · Late Night Jazz Quartet at The Rex')
+    expect(describeMatch(event({ date: null, venue_name: null }))).toBe('Date TBA · Late Night Jazz Quartet')
+  })
+})
@@ -0,0 +1,101 @@
+/**
+ * Unit tests for saved event change detection
+ */
+
+import {
+  applySnapshot,
+  describeChange,
+  diffSnapshots,
+  snapshotFromEventData,
+  type EventSnapshot,
+} from '@/lib/saved/staleness'
+
+const saved = {
+  id: 'tm_1',
+  title: 'Show',
+  date: '2025-11-20',
+  time: '19:30:00',
+  venue_name: 'Massey Hall',
+  address: '178 Victoria St',
+  price_min: 50,
+  price_max: 120,
+  source: 'ticketmaster',
+}
+
+function current(overrides: Partial<EventSnapshot> = {}): EventSnapshot {
+  return {
+    date: '2025-11-20',
+    time: '19:30',
+    venue_name: 'Massey Hall',
+    address: '178 Victoria St',
+    price_min: 50,
+    price_max: 120,
+    status: 'active',
+    ...overrides,
+  }
+}
+
+describe('diffSnapshots', () => {
+  it('should report nothing when the provider data matches the snapshot', () => {
+    expect(diffSnapshots(snapshotFromEventData(saved), current())).toEqual([])
+  })
+
+  it('should flag a new start time as material', () => {
+    const changes = diffSnapshots(snapshotFromEventData(saved), current({ time: '20:00' }))
+
+    expect(changes).toEqual([
+      { field: 'start', before: '2025-11-20 19:30', after: '2025-11-20 20:00', material: true },
+    ])
+  })
+
+  it('should ignore venue name differences in case and spacing', () => {
+    const changes = diffSnapshots(snapshotFromEventData(saved), current({ venue_name: 'MASSEY  hall' }))
+
+    expect(changes).toEqual([])
+  })
+
+  it('should flag a venue move', () => {
+    const changes = diffSnapshots(snapshotFromEventData(saved), current({ venue_name: 'History', address: '1663 Queen St E' }))
+
+    expect(changes).toHaveLength(1)
+    expect(changes[0]).toMatchObject({ field: 'venue', after: 'History, 1663 Queen St E', material: true })
+  })
+
+  it('should only treat price moves of 10% or more as material', () => {
+    const small = diffSnapshots(snapshotFromEventData(saved), current({ price_min: 52 }))
+    const large = diffSnapshots(snapshotFromEventData(saved), current({ price_min: 65 }))
+
+    expect(small).toEqual([expect.objectContaining({ field: 'price', material: false })])
+    expect(large).toEqual([expect.objectContaining({ field: 'price', before: 50, after: 65, material: true })])
+  })
+
+  it('should not report fields the provider did not return', () => {
+    const changes = diffSnapshots(snapshotFromEventData(saved), current({
+      time: null,
+      venue_name: null,
+      address: null,
+      price_min: null,
+      price_max: null,
+      status: null,
+    }))
+
+    expect(changes).toEqual([])
+  })
+
+  it('should flag a cancellation as material', () => {
+    const changes = diffSnapshots(snapshotFromEventData(saved), current({ status: 'cancelled' }))
+
+    expect(changes).toEqual([{ field: 'status', before: 'active', after: 'cancelled', material: true }])
+    expect(describeChange(changes[0])).toBe('Event was cancelled')
+  })
+})
+
+describe('applySnapshot', () => {
+  it('should write the current values back so the next check starts from them', () => {
+    const next = current({ time: '20:00', price_min: 65, status: 'cancelled' })
+    const updated = applySnapshot(saved, next)
+
+    expect(updated).toMatchObject({ title: 'Show', time: '20:00', price_min: 65, status: 'cancelled' })
+    expect(diffSnapshots(snapshotFromEventData(updated), next)).toEqual([])
+  })
+})
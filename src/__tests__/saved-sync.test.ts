@@ -0,0 +1,115 @@
+/**
+ * Unit tests for saved events sync merge rules
+ */
+
+import {
+  MAX_CLOCK_SKEW_MS,
+  applyPendingOperations,
+  compactQueue,
+  mergeSavedOperations,
+  type SavedOperation,
+  type SavedRecord,
+} from '@/lib/saved/sync'
+
+const now = new Date('2025-11-01T12:00:00Z')
+
+function op(overrides: Partial<SavedOperation>): SavedOperation {
+  return {
+    id: Math.random().toString(36).slice(2),
+    op: 'save',
+    eventId: 'tm_1',
+    eventData: { id: 'tm_1', title: 'Show' },
+    changedAt: '2025-11-01T10:00:00Z',
+    ...overrides,
+  }
+}
+
+function record(overrides: Partial<SavedRecord>): SavedRecord {
+  return {
+    eventId: 'tm_1',
+    eventData: { id: 'tm_1', title: 'Show' },
+    changedAt: '2025-11-01T09:00:00Z',
+    deleted: false,
+    ...overrides,
+  }
+}
+
+describe('mergeSavedOperations', () => {
+  it('should apply operations for events the account has never seen', () => {
+    const changed = mergeSavedOperations(new Map(), [op({})], now)
+
+    expect(changed).toHaveLength(1)
+    expect(changed[0]).toMatchObject({ eventId: 'tm_1', deleted: false })
+  })
+
+  it('should let a newer unsave win over an older save', () => {
+    const existing = new Map([['tm_1', record({ changedAt: '2025-11-01T09:00:00Z' })]])
+    const changed = mergeSavedOperations(existing, [op({ op: 'unsave', changedAt: '2025-11-01T10:00:00Z' })], now)
+
+    expect(changed[0].deleted).toBe(true)
+    // Tombstones keep the last known data
+    expect(changed[0].eventData.title).toBe('Show')
+  })
+
+  it('should ignore an operation older than the stored record', () => {
+    // Phone unsaved at 10:00; laptop comes back online with a save from 09:30
+    const existing = new Map([['tm_1', record({ deleted: true, changedAt: '2025-11-01T10:00:00Z' })]])
+    const changed = mergeSavedOperations(existing, [op({ changedAt: '2025-11-01T09:30:00Z' })], now)
+
+    expect(changed).toEqual([])
+  })
+
+  it('should treat a replayed operation as a no-op', () => {
+    const operation = op({})
+    const first = mergeSavedOperations(new Map(), [operation], now)
+    const existing = new Map(first.map(r => [r.eventId, r]))
+
+    expect(mergeSavedOperations(existing, [operation], now)).toEqual([])
+  })
+
+  it('should apply operations in time order regardless of batch order', () => {
+    const changed = mergeSavedOperations(new Map(), [
+      op({ op: 'unsave', changedAt: '2025-11-01T11:00:00Z' }),
+      op({ op: 'save', changedAt: '2025-11-01T10:00:00Z' }),
+    ], now)
+
+    expect(changed).toHaveLength(1)
+    expect(changed[0].deleted).toBe(true)
+  })
+
+  it('should clamp timestamps from clocks running ahead', () => {
+    const changed = mergeSavedOperations(new Map(), [op({ changedAt: '2030-01-01T00:00:00Z' })], now)
+
+    expect(new Date(changed[0].changedAt).getTime()).toBe(now.getTime() + MAX_CLOCK_SKEW_MS)
+  })
+})
+
+describe('compactQueue', () => {
+  it('should keep only the latest operation per event', () => {
+    const queue = compactQueue([
+      op({ id: 'a', changedAt: '2025-11-01T10:00:00Z' }),
+      op({ id: 'b', op: 'unsave', changedAt: '2025-11-01T10:05:00Z' }),
+      op({ id: 'c', eventId: 'eb_2', changedAt: '2025-11-01T10:01:00Z' }),
+    ])
+
+    expect(queue.map(o => o.id).sort()).toEqual(['b', 'c'])
+  })
+})
+
+describe('applyPendingOperations', () => {
+  it('should layer unacknowledged operations over the server list', () => {
+    const events = applyPendingOperations(
+      [
+        { eventId: 'tm_1', eventData: { title: 'Show' } },
+        { eventId: 'tm_2', eventData: { title: 'Other show' } },
+      ],
+      [
+        op({ op: 'unsave', eventId: 'tm_2' }),
+        op({ eventId: 'eb_3', eventData: { id: 'eb_3', title: 'New' } }),
+      ]
+    )
+
+    expect(events.map(e => e.id)).toEqual(['tm_1', 'eb_3'])
+    expect(events[0]).toEqual({ id: 'tm_1', title: 'Show' })
+  })
+})
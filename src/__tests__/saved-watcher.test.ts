@@ -0,0 +1,140 @@
+/**
+ * Unit tests for the saved event watcher: provider id resolution and how a
+ * provider dropping an event is recorded
+ */
+
+import { checkSavedEvents, resolveSourceRef } from '@/lib/saved/watcher'
+import { createTicketmasterClient } from '@/lib/api/ticketmaster-client'
+import { sendSavedEventUpdate } from '@/lib/email'
+
+interface Write {
+  table: string
+  op: 'insert' | 'update'
+  values: Record<string, any>
+}
+
+const writes: Write[] = []
+let savedRows: Array<Record<string, any>> = []
+
+// Just enough of the Supabase query builder for the watcher's queries
+function query(table: string) {
+  let result: { data: any; error: null } = { data: table === 'saved_events' ? savedRows : [], error: null }
+  const builder: any = {
+    select: () => builder,
+    is: () => builder,
+    order: () => builder,
+    limit: () => builder,
+    eq: () => builder,
+    in: () => builder,
+    single: () => builder,
+    insert: (values: Record<string, any>) => {
+      writes.push({ table, op: 'insert', values })
+      result = { data: { id: 'change_1' }, error: null }
+      return builder
+    },
+    update: (values: Record<string, any>) => {
+      writes.push({ table, op: 'update', values })
+      return builder
+    },
+    then: (resolve: (value: typeof result) => unknown) => resolve(result),
+  }
+  return builder
+}
+
+jest.mock('@/lib/supabase-server', () => ({
+  getServiceSupabaseClient: () => ({
+    from: query,
+    auth: {
+      admin: {
+        getUserById: async () => ({ data: { user: { email: 'fan@example.com', user_metadata: {} } }, error: null }),
+      },
+    },
+  }),
+}))
+
+jest.mock('@/lib/api/ticketmaster-client', () => ({
+  createTicketmasterClient: jest.fn(),
+}))
+
+jest.mock('@/lib/email', () => ({
+  isEmailConfigured: () => true,
+  sendSavedEventUpdate: jest.fn(async () => ({ success: true })),
+}))
+
+jest.mock('@/lib/query-cache', () => ({
+  invalidateCache: jest.fn(async () => undefined),
+  CACHE_KEYS: { SAVED_EVENTS: (userId: string) => `saved-events:${userId}` },
+}))
+
+const createClientMock = createTicketmasterClient as jest.Mock
+const sendUpdateMock = sendSavedEventUpdate as jest.Mock
+
+describe('resolveSourceRef', () => {
+  it('should strip our prefix from a stored external_id', () => {
+    expect(resolveSourceRef('tm_G5v0Z9', { source: 'ticketmaster', external_id: 'tm_G5v0Z9' }))
+      .toEqual({ source: 'ticketmaster', externalId: 'G5v0Z9' })
+    expect(resolveSourceRef('evt_1', { source: 'eventbrite', external_id: 'eventbrite_123' }))
+      .toEqual({ source: 'eventbrite', externalId: '123' })
+  })
+
+  it('should fall back to the prefixed saved id', () => {
+    expect(resolveSourceRef('eb_123', {})).toEqual({ source: 'eventbrite', externalId: '123' })
+    expect(resolveSourceRef('evt_1', { source: 'scraped' })).toBeNull()
+  })
+})
+
+describe('checkSavedEvents', () => {
+  beforeEach(() => {
+    writes.length = 0
+    sendUpdateMock.mockClear()
+    savedRows = [{
+      id: 'save_1',
+      user_id: 'user_a',
+      event_id: 'tm_G5v0Z9',
+      event_data: { id: 'tm_G5v0Z9', title: 'Show', date: '2025-11-20', time: '19:30', source: 'ticketmaster' },
+    }]
+  })
+
+  it('should record and notify when the provider no longer lists the event', async () => {
+    const getEvent = jest.fn(async () => ({ success: false, data: null, error: 'Not found', status: 404 }))
+    createClientMock.mockReturnValue({ getEvent })
+
+    const result = await checkSavedEvents({ now: new Date('2025-11-01T12:00:00Z') })
+
+    expect(getEvent).toHaveBeenCalledWith('G5v0Z9')
+    expect(result).toEqual({ checked: 1, changed: 1, notified: 1, failed: 0 })
+
+    const logged = writes.find(w => w.table === 'saved_event_changes' && w.op === 'insert')
+    expect(logged?.values).toMatchObject({
+      event_id: 'tm_G5v0Z9',
+      material: true,
+      changes: [{ field: 'status', before: 'active', after: 'unlisted', material: true }],
+      summary: 'Event is no longer listed',
+    })
+    expect(writes.some(w => w.table === 'saved_events' && w.values.event_data?.status === 'unlisted')).toBe(true)
+    expect(sendUpdateMock.mock.calls[0][2].changes).toEqual(['Event is no longer listed'])
+  })
+
+  it('should not notify again once the event is recorded as unlisted', async () => {
+    savedRows[0].event_data.status = 'unlisted'
+    createClientMock.mockReturnValue({
+      getEvent: async () => ({ success: false, data: null, error: 'Not found', status: 404 }),
+    })
+
+    const result = await checkSavedEvents()
+
+    expect(result).toEqual({ checked: 1, changed: 0, notified: 0, failed: 0 })
+    expect(sendUpdateMock).not.toHaveBeenCalled()
+  })
+
+  it('should count other provider failures as failed checks', async () => {
+    createClientMock.mockReturnValue({
+      getEvent: async () => ({ success: false, data: null, error: 'Server error', status: 500 }),
+    })
+
+    const result = await checkSavedEvents()
+
+    expect(result).toEqual({ checked: 0, changed: 0, notified: 0, failed: 1 })
+    expect(writes.filter(w => w.table === 'saved_event_changes')).toEqual([])
+  })
+})
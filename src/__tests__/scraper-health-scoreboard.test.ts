@@ -0,0 +1,151 @@
+/**
+ * Unit tests for the rolling scraper health scores and quarantine rules
+ */
+
+import {
+  SCORE_WINDOW,
+  evaluateQuarantine,
+  healthKey,
+  nextQuarantineState,
+  scoreRuns
+} from '@/lib/scraping/health/scoreboard'
+import type { ScraperRun } from '@/lib/scraping/health/types'
+
+const run = (hour: number, eventsFound: number, extra: Partial<ScraperRun> = {}): ScraperRun => ({
+  source: 'venue',
+  venueId: 'lees-palace',
+  startedAt: new Date(Date.UTC(2026, 2, 1, hour)).toISOString(),
+  durationMs: 1000 + hour * 100,
+  success: true,
+  eventsFound,
+  selectorMisses: 0,
+  ...extra
+})
+
+const steady = [run(0, 30), run(1, 28), run(2, 31), run(3, 30)]
+
+describe('scoreRuns', () => {
+  it('should compute success rate, streaks, misses and latency', () => {
+    const score = scoreRuns('venue', 'lees-palace', [
+      ...steady,
+      run(4, 0, { success: false, selectorMisses: 2, error: 'Event container not found' }),
+      run(5, 0, { selectorMisses: 1 })
+    ])
+
+    expect(score).toMatchObject({
+      key: 'venue:lees-palace',
+      runs: 6,
+      zeroResultStreak: 2,
+      selectorMisses: 3,
+      baselineYield: 30,
+      lastYield: 0,
+      lastRunAt: '2026-03-01T05:00:00.000Z'
+    })
+    expect(score.successRate).toBeCloseTo(5 / 6)
+    expect(score.latency.history).toEqual([1000, 1100, 1200, 1300, 1400, 1500])
+    expect(score.latency.avgMs).toBe(1250)
+    expect(score.latency.p95Ms).toBe(1500)
+  })
+
+  it('should only score the most recent window, oldest first', () => {
+    const runs = Array.from({ length: SCORE_WINDOW + 5 }, (_, i) => run(i, 20))
+    const score = scoreRuns('venue', 'lees-palace', [...runs].reverse())
+
+    expect(score.runs).toBe(SCORE_WINDOW)
+    expect(score.latency.history[0]).toBe(1500)
+  })
+
+  it('should key sources without a venue by source alone', () => {
+    expect(healthKey('eventbrite')).toBe('eventbrite')
+    expect(healthKey('venue', 'rom')).toBe('venue:rom')
+    expect(healthKey('eventbrite', null, 'eventbrite_music')).toBe('eventbrite:eventbrite_music')
+    expect(scoreRuns('eventbrite', null, []).baselineYield).toBeNull()
+  })
+})
+
+describe('evaluateQuarantine', () => {
+  it('should flag a venue whose yield collapses', () => {
+    const score = scoreRuns('venue', 'lees-palace', [...steady, run(4, 0)])
+
+    expect(evaluateQuarantine(score)).toEqual({
+      reason: 'yield_collapse',
+      detail: '0 events, usually 30'
+    })
+  })
+
+  it('should tolerate ordinary week-to-week variation', () => {
+    expect(evaluateQuarantine(scoreRuns('venue', 'lees-palace', [...steady, run(4, 12)]))).toBeNull()
+  })
+
+  it('should not treat a small venue going quiet as a collapse', () => {
+    const small = [run(0, 3), run(1, 2), run(2, 0)]
+    expect(evaluateQuarantine(scoreRuns('venue', 'lees-palace', small))).toBeNull()
+  })
+
+  it('should flag zero-result streaks and failing sources', () => {
+    const empty = [run(0, 0), run(1, 0), run(2, 0)]
+    expect(evaluateQuarantine(scoreRuns('venue', 'lees-palace', empty))?.reason).toBe('zero_result_streak')
+
+    const failing = [
+      run(0, 5), run(1, 5, { success: false }), run(2, 5, { success: false }),
+      run(3, 5, { success: false }), run(4, 5)
+    ]
+    expect(evaluateQuarantine(scoreRuns('venue', 'lees-palace', failing))).toEqual({
+      reason: 'failure_rate',
+      detail: '40% of the last 5 runs succeeded'
+    })
+  })
+})
+
+describe('nextQuarantineState', () => {
+  it('should quarantine on collapse, hold through a partial recovery and release after two healthy runs', () => {
+    const collapsed = [...steady, run(4, 0)]
+    const first = nextQuarantineState('venue', 'lees-palace', collapsed, null)
+
+    expect(first.change).toBe('quarantined')
+    expect(first.quarantine).toMatchObject({
+      key: 'venue:lees-palace',
+      reason: 'yield_collapse',
+      quarantinedAt: '2026-03-01T04:00:00.000Z',
+      healthyRuns: 0
+    })
+
+    const partial = nextQuarantineState('venue', 'lees-palace', [...collapsed, run(5, 29), run(6, 4)], first.quarantine)
+    expect(partial.change).toBeNull()
+    expect(partial.quarantine?.healthyRuns).toBe(0)
+
+    const recovering = nextQuarantineState('venue', 'lees-palace', [...collapsed, run(5, 29)], first.quarantine)
+    expect(recovering.change).toBeNull()
+    expect(recovering.quarantine?.healthyRuns).toBe(1)
+
+    const recovered = nextQuarantineState('venue', 'lees-palace', [...collapsed, run(5, 29), run(6, 27)], first.quarantine)
+    expect(recovered).toMatchObject({ change: 'released', quarantine: null })
+  })
+
+  it('should quarantine a collapsed target without its source', () => {
+    const target = (hour: number, eventsFound: number) =>
+      run(hour, eventsFound, { source: 'eventbrite', venueId: null, targetId: 'eventbrite_music' })
+    const thin = nextQuarantineState(
+      'eventbrite',
+      null,
+      [target(0, 30), target(1, 28), target(2, 31), target(3, 0)],
+      null,
+      'eventbrite_music'
+    )
+
+    expect(thin.change).toBe('quarantined')
+    expect(thin.quarantine).toMatchObject({
+      key: 'eventbrite:eventbrite_music',
+      source: 'eventbrite',
+      targetId: 'eventbrite_music',
+      venueId: null
+    })
+  })
+
+  it('should leave healthy sources alone', () => {
+    expect(nextQuarantineState('venue', 'lees-palace', steady, null)).toMatchObject({
+      change: null,
+      quarantine: null
+    })
+  })
+})
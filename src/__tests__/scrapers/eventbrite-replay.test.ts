@@ -0,0 +1,89 @@
+/**
+ * Regression tests for EventbriteScraper against recorded pages
+ */
+
+import { join } from 'path'
+import { EventbriteScraper } from '@/lib/scraping/scrapers/eventbrite-scraper'
+import { DEFAULT_SCRAPER_CONFIG } from '@/lib/scraping/config/playwright-config'
+import { EVENTBRITE_TARGETS } from '@/lib/scraping/config/targets'
+import { FixtureCassette } from '@/lib/scraping/replay/cassette'
+import type { ScrapeTarget } from '@/lib/scraping/types'
+
+const FIXTURES = join(__dirname, '../fixtures/scrapers')
+
+const target: ScrapeTarget = {
+  ...EVENTBRITE_TARGETS.search_results,
+  baseUrl: 'https://www.eventbrite.com/d/ca--san-francisco/events/'
+}
+
+function replayingScraper(): EventbriteScraper {
+  return new EventbriteScraper(DEFAULT_SCRAPER_CONFIG)
+    .useFixtures(new FixtureCassette('eventbrite', 'replay', FIXTURES))
+}
+
+describe('EventbriteScraper (replayed)', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {})
+    jest.spyOn(console, 'warn').mockImplementation(() => {})
+  })
+
+  afterAll(() => {
+    jest.restoreAllMocks()
+  })
+
+  it('should scrape every listing page and follow pagination', async () => {
+    const scraper = replayingScraper()
+    await scraper.initialize()
+    const result = await scraper.scrape(target)
+    await scraper.destroy()
+
+    expect(result.errors).toEqual([])
+    expect(result.metadata.pagesScrapped).toBe(2)
+    expect(result.events.map(event => event.title)).toEqual([
+      'Sunset Jazz on the Pier',
+      'Mission Street Food Market',
+      'Tech Founders Networking Night'
+    ])
+  })
+
+  it('should extract card fields and resolve URLs against the recorded page', async () => {
+    const scraper = replayingScraper()
+    await scraper.initialize()
+    const { events } = await scraper.scrape(target)
+    await scraper.destroy()
+
+    expect(events[0]).toMatchObject({
+      externalId: '1001',
+      pricing: { isFree: false, minPrice: 25, maxPrice: 40, currency: 'USD' },
+      media: { images: ['https://www.eventbrite.com/img/sunset-jazz.jpg'] },
+      urls: { event: 'https://www.eventbrite.com/events/1001/' }
+    })
+    expect(events[1].pricing).toMatchObject({ isFree: true })
+    expect(events[2].media?.images).toEqual(['https://cdn.evbuc.com/images/1003.jpg'])
+    expect(events[2].tags).toEqual(['tech', 'networking'])
+    expect(events[2].customFields).toEqual({
+      source: 'eventbrite',
+      scrapedFrom: 'https://www.eventbrite.com/d/ca--san-francisco/events/?page=2'
+    })
+  })
+
+  it('should merge details from each recorded event page', async () => {
+    const scraper = replayingScraper()
+    await scraper.initialize()
+    const { events, venues } = await scraper.scrape(target)
+    await scraper.destroy()
+
+    expect(events[0]).toMatchObject({
+      description: 'Live jazz quartet as the sun goes down over the bay.',
+      venue: { name: 'Pier 39 Stage', address: 'Pier 39, Beach St', city: 'San Francisco' },
+      organizer: { name: 'Bay Jazz Society', url: 'https://www.eventbrite.com/o/bay-jazz-society-42' },
+      categories: ['Music', 'Jazz']
+    })
+    expect(events[1].categories).toEqual(['Food & Drink'])
+    expect(venues.map(venue => venue.name)).toEqual(['Pier 39 Stage', 'Mission Plaza', 'SoMa Hub'])
+  })
+
+  it('should validate targets against the recorded response', async () => {
+    await expect(replayingScraper().validateTarget(target)).resolves.toBe(true)
+  })
+})
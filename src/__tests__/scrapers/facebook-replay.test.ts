@@ -0,0 +1,61 @@
+/**
+ * Regression tests for FacebookEventsScraper against recorded responses
+ */
+
+import { join } from 'path'
+import { FacebookEventsScraper } from '@/lib/scraping/sources/facebook'
+import { FixtureCassette } from '@/lib/scraping/replay/cassette'
+
+const FIXTURES = join(__dirname, '../fixtures/scrapers')
+
+function replayingScraper(name = 'facebook'): FacebookEventsScraper {
+  return new FacebookEventsScraper({}, new FixtureCassette(name, 'replay', FIXTURES))
+}
+
+describe('FacebookEventsScraper (replayed)', () => {
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {})
+    jest.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  afterAll(() => {
+    jest.restoreAllMocks()
+  })
+
+  it('should parse event cards from the explore page', async () => {
+    const events = await replayingScraper().scrapeEventsFromCity('toronto', 'music')
+
+    expect(events).toHaveLength(2)
+    expect(events[0]).toMatchObject({
+      id: 'fb_734001',
+      external_id: '734001',
+      source: 'facebook',
+      title: 'Arkells at Massey Hall',
+      start_time: '2026-03-14T00:00:00Z',
+      venue: { name: 'Massey Hall', address: 'Massey Hall' },
+      images: ['https://scontent.xx.fbcdn.net/arkells.jpg'],
+      url: 'https://www.facebook.com/events/734001/',
+      capacity: 165
+    })
+    expect(events[1]).toMatchObject({
+      title: 'Vinyl Night',
+      start_time: '2026-03-15T01:30:00Z',
+      images: ['https://scontent.xx.fbcdn.net/vinyl.jpg']
+    })
+  })
+
+  it('should keep going when a category page is unavailable', async () => {
+    const events = await replayingScraper().scrapeEventsMultiple({
+      cities: ['toronto'],
+      categories: ['music', 'nightlife']
+    })
+
+    // nightlife answered 404 on every attempt
+    expect(events.map(event => event.external_id)).toEqual(['734001', '734002'])
+  })
+
+  it('should fail rather than go online for requests the recording never made', async () => {
+    await expect(replayingScraper().scrapeEventsFromCity('montreal', 'music'))
+      .rejects.toThrow('No recorded response for GET https://www.facebook.com/events/explore/montreal/?category=music_events')
+  })
+})
@@ -0,0 +1,116 @@
+/**
+ * Unit tests for recording and replaying scraper fixtures
+ */
+
+import { mkdtempSync, readFileSync, rmSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import axios, { AxiosHeaders, type InternalAxiosRequestConfig } from 'axios'
+import { FixtureCassette, FixtureMissingError } from '@/lib/scraping/replay/cassette'
+import { fixtureFetch, withAxiosFixtures, type FetchResponseLike } from '@/lib/scraping/replay/http'
+
+function liveResponse(url: string, status: number, body: string): FetchResponseLike {
+  const headers = new Map([['content-type', 'text/html']])
+  return {
+    ok: status < 400,
+    status,
+    statusText: status < 400 ? 'OK' : 'Not Found',
+    url,
+    headers: {
+      get: name => headers.get(name) ?? null,
+      forEach: callback => headers.forEach((value, name) => callback(value, name))
+    },
+    text: async () => body,
+    json: async () => JSON.parse(body)
+  }
+}
+
+describe('FixtureCassette', () => {
+  let dir: string
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'scraper-fixtures-'))
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  it('should replay fetch responses in the order they were recorded', async () => {
+    let calls = 0
+    const live = async (url: string) => liveResponse(url, 200, `<p>visit ${++calls}</p>`)
+
+    const recording = fixtureFetch(new FixtureCassette('venues', 'record', dir), live)
+    await recording('https://venue.example/events')
+    await recording('https://venue.example/events')
+
+    const cassette = JSON.parse(readFileSync(join(dir, 'venues.json'), 'utf8'))
+    expect(cassette.exchanges).toHaveLength(2)
+    expect(cassette.exchanges[0].request).toEqual({ method: 'GET', url: 'https://venue.example/events' })
+
+    const replaying = fixtureFetch(new FixtureCassette('venues', 'replay', dir), async () => {
+      throw new Error('network used during replay')
+    })
+    const first = await replaying('https://venue.example/events')
+    const second = await replaying('https://venue.example/events')
+    const third = await replaying('https://venue.example/events')
+
+    expect(first.ok).toBe(true)
+    expect(first.headers.get('Content-Type')).toBe('text/html')
+    expect(await first.text()).toBe('<p>visit 1</p>')
+    expect(await second.text()).toBe('<p>visit 2</p>')
+    // Past the end of the recording the last response repeats
+    expect(await third.text()).toBe('<p>visit 2</p>')
+  })
+
+  it('should record and replay axios responses, including errors', async () => {
+    const recordingClient = axios.create()
+    recordingClient.defaults.adapter = async (config: InternalAxiosRequestConfig) => {
+      const status = config.url!.endsWith('/missing') ? 404 : 200
+      const response = {
+        data: status === 200 ? '{"events":[{"id":1}]}' : 'gone',
+        status,
+        statusText: status === 200 ? 'OK' : 'Not Found',
+        headers: AxiosHeaders.from({ 'set-cookie': ['a=1', 'b=2'] }),
+        config,
+        request: {}
+      }
+      if (status === 404) throw new axios.AxiosError('Request failed with status code 404', 'ERR_BAD_REQUEST', config, null, response)
+      return response
+    }
+    withAxiosFixtures(recordingClient, new FixtureCassette('feeds', 'record', dir))
+
+    await recordingClient.get('https://feeds.example/api', { params: { city: 'toronto' } })
+    await expect(recordingClient.get('https://feeds.example/missing')).rejects.toThrow('404')
+
+    const client = withAxiosFixtures(axios.create(), new FixtureCassette('feeds', 'replay', dir))
+    const response = await client.get('https://feeds.example/api', { params: { city: 'toronto' } })
+
+    expect(response.data).toEqual({ events: [{ id: 1 }] })
+    expect(response.headers['set-cookie']).toEqual(['a=1', 'b=2'])
+    await expect(client.get('https://feeds.example/missing')).rejects.toMatchObject({
+      response: { status: 404, data: 'gone' }
+    })
+  })
+
+  it('should replay rendered pages by URL', async () => {
+    const recording = new FixtureCassette('venues', 'record', dir)
+    await recording.rendered('https://venue.example/a', async () => '<main>A</main>')
+    await recording.rendered('https://venue.example/b', async () => '<main>B</main>')
+
+    const replaying = new FixtureCassette('venues', 'replay', dir)
+    const render = async (): Promise<string> => {
+      throw new Error('browser used during replay')
+    }
+
+    expect(await replaying.rendered('https://venue.example/b', render)).toBe('<main>B</main>')
+    expect(await replaying.rendered('https://venue.example/a', render)).toBe('<main>A</main>')
+  })
+
+  it('should report what is missing from the recording', async () => {
+    const replaying = fixtureFetch(new FixtureCassette('venues', 'replay', dir), async url => liveResponse(url, 200, ''))
+
+    await expect(replaying('https://venue.example/events')).rejects.toThrow(FixtureMissingError)
+    await expect(replaying('https://venue.example/events')).rejects.toThrow(/record one with SCRAPER_FIXTURES=record/)
+  })
+})
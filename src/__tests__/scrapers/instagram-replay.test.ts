@@ -0,0 +1,56 @@
+/**
+ * Regression tests for InstagramScraper against recorded responses
+ */
+
+import { join } from 'path'
+import { InstagramScraper } from '@/lib/scrapers/instagram-scraper'
+import { FixtureCassette } from '@/lib/scraping/replay/cassette'
+
+const FIXTURES = join(__dirname, '../fixtures/scrapers')
+
+describe('InstagramScraper (replayed)', () => {
+  const scrape = () => new InstagramScraper(new FixtureCassette('instagram', 'replay', FIXTURES)).scrapeEvents('jazz')
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {})
+  })
+
+  afterAll(() => {
+    jest.restoreAllMocks()
+  })
+
+  it('should turn event posts from the hashtag page into events', async () => {
+    const [rex, bistro] = await scrape()
+
+    expect(rex).toMatchObject({
+      title: 'Live music tonight at @therex 9pm with the Alex Pangman trio',
+      time: '21:00:00',
+      venue_name: 'therex',
+      category: 'music',
+      image_url: 'https://scontent.cdninstagram.com/rex.jpg',
+      external_url: 'https://www.instagram.com/p/CxJazz1/',
+      source: 'instagram'
+    })
+    expect(bistro).toMatchObject({
+      title: 'Join us for Sunday brunch jazz this weekend @jazzbistro 11:30am',
+      time: '11:30:00',
+      venue_name: 'jazzbistro',
+      external_url: 'https://www.instagram.com/p/CxJazz3/'
+    })
+  })
+
+  it('should skip posts that are not events', async () => {
+    const events = await scrape()
+    expect(events.map(event => event.external_url)).not.toContain('https://www.instagram.com/p/CxLake2/')
+  })
+
+  it('should fall back to a placeholder when a page carries no post data', async () => {
+    const events = await scrape()
+
+    expect(events).toHaveLength(3)
+    expect(events[2]).toMatchObject({
+      title: 'jazz Event in Toronto',
+      external_url: 'https://www.instagram.com/explore/tags/torontojazz/'
+    })
+  })
+})
@@ -0,0 +1,46 @@
+/**
+ * Regression tests for LinktreeScraper against recorded responses
+ */
+
+import { join } from 'path'
+import { LinktreeScraper } from '@/lib/scrapers/linktree-scraper'
+import { FixtureCassette } from '@/lib/scraping/replay/cassette'
+
+const FIXTURES = join(__dirname, '../fixtures/scrapers')
+
+describe('LinktreeScraper (replayed)', () => {
+  const scrape = () => new LinktreeScraper(new FixtureCassette('linktree', 'replay', FIXTURES)).scrapeEvents('music')
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {})
+  })
+
+  afterAll(() => {
+    jest.restoreAllMocks()
+  })
+
+  it('should keep event links and drop the rest', async () => {
+    const events = await scrape()
+
+    expect(events.map(event => event.title)).toEqual([
+      'Summer Music Series at Harbourfront',
+      'Comedy night tickets'
+    ])
+    expect(events[0]).toMatchObject({
+      venue_name: 'Harbourfront',
+      category: 'music',
+      external_url: 'https://www.eventbrite.ca/e/summer-music-series-tickets-88001',
+      source: 'linktree'
+    })
+    expect(events[1]).toMatchObject({
+      category: 'nightlife',
+      external_url: 'https://tickets.blogto.com/comedy-night'
+    })
+  })
+
+  it('should log and skip pages that answered with an error', async () => {
+    await scrape()
+
+    expect(console.log).toHaveBeenCalledWith('Linktree page torontolife failed: Request failed with status code 404')
+  })
+})
@@ -0,0 +1,71 @@
+/**
+ * Regression tests for VenueScraper against recorded venue pages
+ */
+
+// jsdom and node-fetch ship ESM that jest won't transform; load them natively
+jest.mock('jsdom', () => (process as any).getBuiltinModule('module').createRequire(__filename)('jsdom'))
+jest.mock('node-fetch', () => (process as any).getBuiltinModule('module').createRequire(__filename)('node-fetch'))
+// Replay serves JS-rendered pages from the cassette, so no browser is launched
+jest.mock('puppeteer', () => ({ __esModule: true, default: { launch: jest.fn() } }), { virtual: true })
+
+import { join } from 'path'
+import puppeteer from 'puppeteer'
+import { VenueScraper } from '@/lib/scraping/sources/venues'
+import { FixtureCassette } from '@/lib/scraping/replay/cassette'
+
+const FIXTURES = join(__dirname, '../fixtures/scrapers')
+
+describe('VenueScraper (replayed)', () => {
+  const scrape = (venueId: string) =>
+    new VenueScraper({ fixtures: new FixtureCassette('venues', 'replay', FIXTURES) }).scrapeVenue(venueId)
+
+  beforeAll(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => {})
+    jest.spyOn(console, 'warn').mockImplementation(() => {})
+  })
+
+  afterAll(() => {
+    jest.restoreAllMocks()
+  })
+
+  it('should parse a rendered page with the configured selectors', async () => {
+    const result = await scrape('kennedy-center')
+
+    expect(result.success).toBe(true)
+    expect(result.events.map(event => event.title)).toEqual([
+      'National Symphony Orchestra: Beethoven 9',
+      'Washington National Opera: Tosca'
+    ])
+    expect(result.events[0]).toMatchObject({
+      metadata: { originalDate: 'November 14, 2026', originalTime: '7:00 PM' },
+      priceRange: { min: 45, currency: 'USD' },
+      ticketInfo: { url: 'https://www.kennedy-center.org/tickets/nso-beethoven-9' }
+    })
+    expect(result.metadata.extractionMethods).toEqual(['selectors'])
+    expect(puppeteer.launch).not.toHaveBeenCalled()
+  })
+
+  it('should prefer structured data and fall back to alternative selectors per location', async () => {
+    const result = await scrape('fillmore')
+
+    expect(result.events.map(event => [event.venue.city, event.title])).toEqual([
+      ['San Francisco', 'Japanese Breakfast'],
+      ['Detroit', 'Khruangbin'],
+      ['Miami Beach', 'Gipsy Kings']
+    ])
+    expect(result.events[0]).toMatchObject({
+      url: 'https://www.fillmore.com/sf/events/japanese-breakfast',
+      priceRange: { min: 49.5, max: 49.5 },
+      metadata: { source: 'json-ld', schemaType: 'MusicEvent' }
+    })
+    expect(result.events[2].ticketInfo).toMatchObject({
+      url: 'https://www.ticketmaster.com/gipsy-kings-miami',
+      platform: 'Ticketmaster'
+    })
+    expect(result.metadata).toMatchObject({
+      extractionMethods: ['structured_data', 'selectors'],
+      fallbacksUsed: ['alternative-selectors'],
+      selectorMisses: 1
+    })
+  })
+})
@@ -0,0 +1,179 @@
+/**
+ * Unit tests for venue page fingerprints, selector drift detection and
+ * repair suggestions
+ */
+
+import { readFileSync } from 'fs'
+import path from 'path'
+import * as cheerio from 'cheerio'
+import { getVenueConfig } from '@/lib/scraping/config/venue-configs'
+import { detectDrift, fingerprintPage, structureSimilarity } from '@/lib/scraping/drift/fingerprint'
+import { suggestSelectors, textSimilarity } from '@/lib/scraping/drift/suggest'
+import { VENUE_CONFIG_PATH, buildConfigDiff } from '@/lib/scraping/drift/config-diff'
+
+const scrapeConfig = getVenueConfig('fillmore')!.scrapeConfig
+const page = { venueId: 'fillmore', locationId: 'fillmore-sf', url: 'https://www.fillmore.com/sf' }
+
+const shows = [
+  ['Arkells', 'Fri, Mar 13'],
+  ['Japanese Breakfast', 'Sat, Mar 14'],
+  ['The Beaches', 'Thu, Mar 19'],
+  ['Men I Trust', 'Fri, Mar 20']
+]
+
+const documentOf = (html: string) => cheerio.load(`<html><body>${html}</body></html>`)
+
+const oldPage = documentOf(`
+  <nav class="menu"><a class="menu-link">Shows</a><a class="menu-link">Tickets</a><a class="menu-link">Info</a></nav>
+  <div class="events-list">
+    ${shows.map(([title, date]) => `
+      <div class="event-item">
+        <h2 class="event-title">${title}</h2>
+        <span class="event-date">${date}</span>
+        <a class="ticket-link" href="/tickets">Buy tickets</a>
+      </div>`).join('')}
+  </div>
+`)
+
+// Redesign: new class names everywhere and one show dropped
+const newPage = documentOf(`
+  <nav class="site-nav"><a class="site-nav__link">Shows</a><a class="site-nav__link">Tickets</a><a class="site-nav__link">Info</a></nav>
+  <section id="upcoming" class="shows-grid">
+    ${shows.slice(0, 3).map(([title, date]) => `
+      <article class="show-card">
+        <a class="show-card__link" href="/shows/1">
+          <h3 class="show-card__name">${title}</h3>
+        </a>
+        <p class="show-card__meta"><time class="show-card__when">${date.split(', ')[1]}</time> · Doors 7pm</p>
+        <p class="show-card__blurb">An evening with ${title}</p>
+      </article>`).join('')}
+    <article class="show-card"><h3 class="show-card__name">Comedy Showcase</h3><p class="show-card__meta"><time class="show-card__when">Mar 21</time></p></article>
+  </section>
+`)
+
+describe('fingerprintPage', () => {
+  it('should record selector counts, layout and sample titles/dates', () => {
+    const fingerprint = fingerprintPage(oldPage, scrapeConfig, page, new Date('2026-03-01T12:00:00Z'))
+
+    expect(fingerprint).toMatchObject({
+      ...page,
+      capturedAt: '2026-03-01T12:00:00.000Z',
+      eventCount: 4,
+      selectorCounts: { container: 1, eventItem: 4, title: 4, date: 4, time: 0, price: 0, image: 0 },
+      samples: {
+        titles: ['Arkells', 'Japanese Breakfast', 'The Beaches', 'Men I Trust'],
+        dates: ['Fri, Mar 13', 'Sat, Mar 14', 'Thu, Mar 19', 'Fri, Mar 20']
+      }
+    })
+    expect(fingerprint.structure).toEqual(expect.arrayContaining(['div.event-item', 'h2.event-title', 'a.menu-link']))
+  })
+})
+
+describe('detectDrift', () => {
+  const previous = fingerprintPage(oldPage, scrapeConfig, page)
+
+  it('should report selectors that stopped matching', () => {
+    const current = fingerprintPage(newPage, scrapeConfig, page)
+    const drifted = detectDrift(previous, current, scrapeConfig)
+
+    expect(drifted.map(d => d.field)).toEqual(['container', 'eventItem', 'title', 'date'])
+    expect(drifted[0]).toEqual({
+      field: 'container',
+      selector: '.events-list, .show-list',
+      previousCount: 1,
+      currentCount: 0
+    })
+    expect(structureSimilarity(previous.structure, current.structure)).toBe(0)
+  })
+
+  it('should report nothing for an unchanged page', () => {
+    expect(detectDrift(previous, fingerprintPage(oldPage, scrapeConfig, page), scrapeConfig)).toEqual([])
+  })
+})
+
+describe('suggestSelectors', () => {
+  const previous = fingerprintPage(oldPage, scrapeConfig, page)
+  const drifted = detectDrift(previous, fingerprintPage(newPage, scrapeConfig, page), scrapeConfig)
+  const suggestions = suggestSelectors(newPage, previous, drifted, scrapeConfig)
+  const byField = Object.fromEntries(suggestions.map(s => [s.field, s]))
+
+  it('should find the new title, item and container from previous titles', () => {
+    expect(byField.title).toMatchObject({
+      proposed: 'h3.show-card__name',
+      current: ['.event-title', '.show-title', 'h2', 'h3'],
+      matches: 3,
+      examples: ['Arkells', 'Japanese Breakfast', 'The Beaches']
+    })
+    expect(byField.eventItem).toMatchObject({ proposed: 'article.show-card', matches: 3 })
+    expect(byField.container).toMatchObject({ proposed: '#upcoming', confidence: 0.75 })
+  })
+
+  it('should find the new date element inside the items', () => {
+    expect(byField.date).toMatchObject({
+      proposed: 'time.show-card__when',
+      confidence: 1,
+      examples: ['Mar 13', 'Mar 14', 'Mar 19']
+    })
+  })
+
+  it('should score precision against everything the selector matches', () => {
+    // 3 of 4 old titles found; the proposed title selector also matches the comedy show
+    expect(byField.title.confidence).toBe(0.75)
+    expect(byField.eventItem.confidence).toBe(0.56)
+  })
+
+  it('should not suggest anything without a previous sample to match', () => {
+    expect(suggestSelectors(newPage, { ...previous, samples: { titles: [], dates: [] } }, drifted, scrapeConfig)).toEqual([])
+  })
+
+  it('should compare text by bigrams', () => {
+    expect(textSimilarity('The Beaches', 'THE BEACHES')).toBe(1)
+    expect(textSimilarity('Japanese Breakfast', 'Japanese Breakfast!')).toBeGreaterThanOrEqual(0.8)
+    expect(textSimilarity('Arkells', 'Comedy Showcase')).toBeLessThan(0.2)
+  })
+})
+
+describe('buildConfigDiff', () => {
+  const source = readFileSync(path.join(process.cwd(), VENUE_CONFIG_PATH), 'utf8')
+  const previous = fingerprintPage(oldPage, scrapeConfig, page)
+  const drifted = detectDrift(previous, fingerprintPage(newPage, scrapeConfig, page), scrapeConfig)
+  const suggestions = suggestSelectors(newPage, previous, drifted, scrapeConfig)
+
+  it('should prepend suggestions to the venue entry, keeping old selectors as fallbacks', () => {
+    const diff = buildConfigDiff(source, 'fillmore', suggestions)!
+    const lines = diff.split('\n')
+
+    expect(lines.slice(0, 2)).toEqual([
+      `--- a/${VENUE_CONFIG_PATH}`,
+      `+++ b/${VENUE_CONFIG_PATH}`
+    ])
+    expect(lines.filter(line => line.startsWith('@@'))).toHaveLength(1)
+    expect(lines.filter(line => line.startsWith('+') && !line.startsWith('+++'))).toEqual([
+      "+        container: '#upcoming, .events-list, .show-list',",
+      "+        eventItem: 'article.show-card, .event-item, .show-item, .performance'",
+      "+        title: ['h3.show-card__name', '.event-title', '.show-title', 'h2', 'h3'],",
+      "+        date: ['time.show-card__when', '.event-date', '.show-date', '[data-date]'],"
+    ])
+    expect(lines.filter(line => line.startsWith('-') && !line.startsWith('---'))).toEqual([
+      "-        container: '.events-list, .show-list',",
+      "-        eventItem: '.event-item, .show-item, .performance'",
+      "-        title: ['.event-title', '.show-title', 'h2', 'h3'],",
+      "-        date: ['.event-date', '.show-date', '[data-date]'],"
+    ])
+  })
+
+  it('should produce a diff that applies cleanly', () => {
+    const diff = buildConfigDiff(source, 'fillmore', suggestions)!
+    const [header] = diff.split('\n').filter(line => line.startsWith('@@'))
+    const [, start, length] = header.match(/^@@ -(\d+),(\d+)/)!.map(Number)
+    const hunk = diff.split('\n').slice(3, -1)
+
+    expect(hunk.filter(line => !line.startsWith('+')).map(line => line.slice(1)))
+      .toEqual(source.split('\n').slice(start - 1, start - 1 + length))
+  })
+
+  it('should return null for unknown venues or no suggestions', () => {
+    expect(buildConfigDiff(source, 'nowhere', suggestions)).toBeNull()
+    expect(buildConfigDiff(source, 'fillmore', [])).toBeNull()
+  })
+})
@@ -0,0 +1,190 @@
+/**
+ * Unit tests for schema.org JSON-LD/microdata event extraction
+ */
+
+import { readFileSync } from 'fs'
+import { join } from 'path'
+import { StructuredDataParser } from '@/lib/scraping/parsers/structured-data-parser'
+import type { VenueEvent, VenueInfo } from '@/lib/scraping/types/venue'
+
+const FIXTURES = join(__dirname, 'fixtures/structured-data')
+
+const fixture = (name: string) => readFileSync(join(FIXTURES, name), 'utf8')
+
+const venue: VenueInfo = {
+  id: 'fillmore-sf',
+  name: 'Venue From Config',
+  type: 'concert_hall',
+  address: '',
+  city: 'San Francisco',
+  state: 'CA',
+  country: 'US',
+  website: 'https://www.thefillmore.example'
+}
+
+describe('StructuredDataParser', () => {
+  const parser = new StructuredDataParser()
+
+  beforeAll(() => {
+    jest.spyOn(console, 'warn').mockImplementation(() => {})
+  })
+
+  afterAll(() => {
+    jest.restoreAllMocks()
+  })
+
+  describe('JSON-LD @graph', () => {
+    const events = parser.parseEvents(fixture('jsonld-graph.html'), venue, 'https://www.thefillmore.example/shows')
+    const byTitle = (title: string) => events.find(e => e.title === title)!
+
+    it('should extract only Event nodes from the graph', () => {
+      expect(events.map(e => e.title)).toEqual([
+        'Khruangbin & Friends',
+        'Cancelled Matinee',
+        'Rescheduled Residency Night'
+      ])
+      expect(events.every(e => e.metadata?.source === 'json-ld')).toBe(true)
+    })
+
+    it('should map dates, description, image and url', () => {
+      const event = byTitle('Khruangbin & Friends')
+
+      expect(event.date.toISOString()).toBe('2030-11-21T04:00:00.000Z')
+      expect(event.endDate?.toISOString()).toBe('2030-11-21T07:30:00.000Z')
+      expect(event.description).toBe('An evening of psychedelic funk.')
+      expect(event.image).toBe('https://www.thefillmore.example/images/khruangbin.jpg')
+      expect(event.url).toBe('https://www.thefillmore.example/events/khruangbin-2030')
+      expect(event.categories).toEqual(['music'])
+      expect(event.status).toBe('scheduled')
+      expect(event.id).toMatch(/^the-fillmore-khruangbin-friends-2030-11-2\d$/)
+    })
+
+    it('should map the Place over the configured venue details', () => {
+      const event = byTitle('Khruangbin & Friends')
+
+      expect(event.venue).toMatchObject({
+        id: 'fillmore-sf',
+        name: 'The Fillmore',
+        address: '1805 Geary Blvd',
+        city: 'San Francisco',
+        state: 'CA',
+        country: 'US'
+      })
+      expect(event.metadata?.coordinates).toEqual({ lat: 37.784, lng: -122.433 })
+    })
+
+    it('should map AggregateOffer to a price range and ticket info', () => {
+      const event = byTitle('Khruangbin & Friends')
+
+      expect(event.priceRange).toEqual({ min: 45, max: 125.5, currency: 'USD' })
+      expect(event.ticketInfo).toMatchObject({
+        url: 'https://www.ticketmaster.com/event/0A005F',
+        platform: 'Ticketmaster',
+        soldOut: false
+      })
+      expect(event.ticketInfo?.saleStartDate?.toISOString()).toBe('2030-09-01T17:00:00.000Z')
+    })
+
+    it('should map performers by schema type', () => {
+      expect(byTitle('Khruangbin & Friends').performers).toEqual([
+        { name: 'Khruangbin', type: 'band', genre: 'Psychedelic Funk' },
+        { name: 'Leon Bridges', type: 'artist' }
+      ])
+      expect(byTitle('Rescheduled Residency Night').performers).toEqual([{ name: 'DJ Shadow', type: 'artist' }])
+    })
+
+    it('should map eventStatus and mark sold-out offer lists', () => {
+      const cancelled = byTitle('Cancelled Matinee')
+      expect(cancelled.status).toBe('cancelled')
+      expect(cancelled.priceRange).toEqual({ min: 0, max: 30, currency: 'USD' })
+      expect(cancelled.ticketInfo?.soldOut).toBe(true)
+
+      const rescheduled = byTitle('Rescheduled Residency Night')
+      expect(rescheduled.status).toBe('rescheduled')
+      expect(rescheduled.venue.name).toBe('Fillmore Upstairs Lounge')
+    })
+
+    it('should treat date-only start dates as local all-day events', () => {
+      const event = byTitle('Rescheduled Residency Night')
+
+      expect(event.date.getFullYear()).toBe(2030)
+      expect(event.date.getMonth()).toBe(11)
+      expect(event.date.getDate()).toBe(5)
+      expect(event.date.getHours()).toBe(0)
+      expect(event.metadata?.allDay).toBe(true)
+      expect(event.metadata?.previousStartDate).toBeDefined()
+    })
+  })
+
+  describe('JSON-LD ItemList', () => {
+    let events: VenueEvent[]
+
+    beforeAll(() => {
+      events = parser.parseEvents(fixture('jsonld-itemlist.html'), venue, 'https://comedycellar.example/lineup')
+    })
+
+    it('should read list items, skip malformed blocks and events without a date', () => {
+      expect(events.map(e => e.title)).toEqual(['Late Show Lineup', 'Streamed Open Mic'])
+    })
+
+    it('should keep the configured venue when no location is given', () => {
+      const event = events[0]
+
+      expect(event.venue).toEqual(venue)
+      expect(event.date.getHours()).toBe(22)
+      expect(event.date.getMinutes()).toBe(30)
+      expect(event.performers).toEqual([{ name: 'Dave Attell', type: 'comedian' }])
+      expect(event.ticketInfo?.platform).toBe('Eventbrite')
+    })
+
+    it('should record virtual locations for events moved online', () => {
+      const event = events[1]
+
+      expect(event.status).toBe('moved_online')
+      expect(event.venue).toEqual(venue)
+      expect(event.metadata?.onlineUrl).toBe('https://stream.example/open-mic')
+    })
+  })
+
+  describe('microdata', () => {
+    const events = parser.parseEvents(fixture('microdata.html'), venue, 'https://orpheum.example/shows/hamilton')
+
+    it('should extract nested itemscope properties', () => {
+      expect(events).toHaveLength(1)
+      const [event] = events
+
+      expect(event.metadata?.source).toBe('microdata')
+      expect(event.title).toBe('Hamilton')
+      expect(event.date.toISOString()).toBe('2030-10-11T02:30:00.000Z')
+      expect(event.endDate?.toISOString()).toBe('2030-10-11T05:15:00.000Z')
+      expect(event.status).toBe('postponed')
+      expect(event.categories).toEqual(['theater'])
+      expect(event.image).toBe('https://orpheum.example/img/hamilton.jpg')
+      expect(event.venue).toMatchObject({ name: 'Orpheum Theatre', address: '1192 Market St', city: 'San Francisco' })
+      expect(event.performers).toEqual([{ name: 'Hamilton Touring Company', type: 'artist' }])
+      expect(event.priceRange).toEqual({ min: 89, max: 89, currency: 'USD' })
+      expect(event.ticketInfo?.url).toBe('https://orpheum.example/tickets/hamilton')
+    })
+  })
+
+  it('should return no events when the page has no schema.org events', () => {
+    expect(parser.parseEvents(fixture('no-structured-data.html'), venue, 'https://theindependent.example')).toEqual([])
+  })
+
+  it('should prefer JSON-LD when the same event is also marked up as microdata', () => {
+    const html = `
+      <script type="application/ld+json">
+        {"@type": "Event", "name": "Duplicate Show", "startDate": "2030-10-10T19:30:00Z", "description": "from json-ld"}
+      </script>
+      <div itemscope itemtype="http://schema.org/Event">
+        <span itemprop="name">Duplicate Show</span>
+        <meta itemprop="startDate" content="2030-10-10T19:30:00Z">
+        <span itemprop="description">from microdata</span>
+      </div>`
+
+    const events = parser.parseEvents(html, venue, 'https://example.com')
+
+    expect(events).toHaveLength(1)
+    expect(events[0].description).toBe('from json-ld')
+  })
+})
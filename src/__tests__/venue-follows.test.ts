@@ -0,0 +1,138 @@
+/**
+ * Unit tests for venue follows: matching new events to followed venues,
+ * the followed-venues rail and digest grouping
+ */
+
+import {
+  alertsForNewEvents,
+  buildVenueDigest,
+  digestTitle,
+  eventsAtFollowedVenues,
+  isAtFollowedVenue,
+  venueKey
+} from '@/lib/venues/follows'
+import type { ListedVenueEvent, VenueAlert, VenueFollow } from '@/lib/venues/types'
+import { computeAffinity, explainEvent } from '@/lib/tracking/affinity'
+
+function follow(overrides: Partial<VenueFollow & { userId: string }> = {}): VenueFollow & { userId: string } {
+  return {
+    userId: 'user_a',
+    venueKey: 'massey-hall',
+    venueName: 'Massey Hall',
+    city: 'Toronto',
+    createdAt: '2026-01-01T00:00:00.000Z',
+    ...overrides
+  }
+}
+
+function listed(overrides: Partial<ListedVenueEvent> = {}): ListedVenueEvent {
+  return {
+    id: 'tm_1',
+    title: 'Valley',
+    date: '2026-03-06',
+    venue_name: 'Massey Hall',
+    city_name: 'Toronto',
+    ...overrides
+  }
+}
+
+function alert(overrides: Partial<VenueAlert> = {}): VenueAlert {
+  return {
+    eventId: 'tm_1',
+    title: 'Valley',
+    date: '2026-03-06',
+    time: '20:00',
+    venueKey: 'massey-hall',
+    venueName: 'Massey Hall',
+    imageUrl: null,
+    ...overrides
+  }
+}
+
+describe('venueKey', () => {
+  it('should normalize spelling differences of the same venue', () => {
+    expect(venueKey('The Danforth Music Hall')).toBe('danforth-music-hall')
+    expect(venueKey('Danforth Music Hall, Toronto, ON')).toBe('danforth-music-hall')
+    expect(venueKey('Lee’s Palace (Upstairs)')).toBe('lee-s-palace')
+    expect(venueKey('Théâtre Corona')).toBe('theatre-corona')
+    expect(venueKey('Rivoli & Co')).toBe(venueKey('Rivoli + Co'))
+  })
+})
+
+describe('followed venue matching', () => {
+  it('should match by venue name within the followed city', () => {
+    expect(isAtFollowedVenue(listed(), follow())).toBe(true)
+    expect(isAtFollowedVenue(listed({ venue_name: 'The Massey Hall' }), follow())).toBe(true)
+    expect(isAtFollowedVenue(listed({ city_name: 'Vancouver' }), follow())).toBe(false)
+    expect(isAtFollowedVenue(listed({ venue_name: 'History' }), follow())).toBe(false)
+    expect(isAtFollowedVenue(listed({ venue_name: null }), follow())).toBe(false)
+  })
+
+  it('should match on the name alone when either side has no city', () => {
+    expect(isAtFollowedVenue(listed({ city_name: null }), follow())).toBe(true)
+    expect(isAtFollowedVenue(listed({ city_name: 'Vancouver' }), follow({ city: null }))).toBe(true)
+  })
+
+  it('should queue one alert per follower and new event', () => {
+    const alerts = alertsForNewEvents(
+      [listed(), listed({ id: 'tm_2', venue_name: 'History' }), listed({ id: 'tm_3', title: 'Late show' })],
+      [follow(), follow({ userId: 'user_b' }), follow({ userId: 'user_b', city: 'Toronto, ON' })]
+    )
+
+    expect(alerts).toEqual([
+      { userId: 'user_a', eventId: 'tm_1', venueKey: 'massey-hall' },
+      { userId: 'user_b', eventId: 'tm_1', venueKey: 'massey-hall' },
+      { userId: 'user_a', eventId: 'tm_3', venueKey: 'massey-hall' },
+      { userId: 'user_b', eventId: 'tm_3', venueKey: 'massey-hall' }
+    ])
+  })
+
+  it('should fill the followed-venues rail soonest first', () => {
+    const events = eventsAtFollowedVenues(
+      [
+        listed({ id: 'late', date: '2026-04-01' }),
+        listed({ id: 'other', venue_name: 'History' }),
+        listed({ id: 'tba', date: null }),
+        listed({ id: 'soon', date: '2026-02-01' })
+      ],
+      [follow()]
+    )
+
+    expect(events.map(e => e.id)).toEqual(['soon', 'late', 'tba'])
+    expect(eventsAtFollowedVenues([listed()], [])).toEqual([])
+  })
+})
+
+describe('venue digests', () => {
+  it('should group alerts by venue with the busiest venue first', () => {
+    const digest = buildVenueDigest([
+      alert({ eventId: 'a', venueKey: 'history', venueName: 'History', title: 'Valley' }),
+      alert({ eventId: 'b', date: '2026-03-20', title: 'The Beaches' }),
+      alert({ eventId: 'c', date: '2026-03-02', title: 'Daniel Caesar' })
+    ])
+
+    expect(digest).toEqual([
+      { venueName: 'Massey Hall', events: ['Mon, Mar 2 · Daniel Caesar', 'Fri, Mar 20 · The Beaches'] },
+      { venueName: 'History', events: ['Fri, Mar 6 · Valley'] }
+    ])
+  })
+
+  it('should title the digest by venue when there is only one', () => {
+    expect(digestTitle(buildVenueDigest([alert()]))).toBe('A new event at Massey Hall')
+    expect(digestTitle(buildVenueDigest([alert(), alert({ eventId: 'b', venueKey: 'history', venueName: 'History' })])))
+      .toBe('2 new events at venues you follow')
+  })
+})
+
+describe('venue follow affinity', () => {
+  it('should explain events at a followed venue by the follow', () => {
+    const affinity = computeAffinity([
+      { type: 'follow', venue: 'Massey Hall', timestamp: Date.now(), sessionId: 'session_a' }
+    ])
+
+    const explanation = explainEvent(affinity, { category: 'music', venue_name: 'Massey Hall' })
+
+    expect(explanation.reason).toBe('affinity')
+    expect(explanation.summary).toBe('You follow Massey Hall')
+  })
+})
@@ -0,0 +1,173 @@
+/**
+ * Unit tests for venue entity resolution: listings of one venue under
+ * different names resolving to one canonical venue, split planning, and
+ * follows and affinity keyed on the canonical id
+ */
+
+import {
+  addressKey,
+  listingKey,
+  matchVenue,
+  nameSimilarity,
+  planSplit,
+  resolveVenues
+} from '@/lib/venues/registry'
+import { isAtFollowedVenue } from '@/lib/venues/follows'
+import { computeAffinity } from '@/lib/tracking/affinity'
+import type { RegistryVenue } from '@/lib/venues/types'
+
+function registered(overrides: Partial<RegistryVenue> = {}): RegistryVenue {
+  return {
+    id: 'venue_danforth',
+    name: 'Danforth Music Hall',
+    address: '147 Danforth Ave, Toronto, ON M4K 1N2',
+    city: 'Toronto',
+    latitude: 43.6763,
+    longitude: -79.3571,
+    aliases: [{ aliasKey: 'danforth-music-hall', name: 'Danforth Music Hall', cityKey: 'toronto' }],
+    ...overrides
+  }
+}
+
+function sequentialIds(): () => string {
+  let next = 0
+  return () => `new_${++next}`
+}
+
+describe('venue keys', () => {
+  it('drops a leading article and a trailing city from listed names', () => {
+    expect(listingKey({ name: 'The Danforth Music Hall', city: 'Toronto' })).toBe('danforth-music-hall')
+    expect(listingKey({ name: 'Danforth Music Hall - Toronto', city: 'Toronto' })).toBe('danforth-music-hall')
+  })
+
+  it('compares only the street part of an address', () => {
+    expect(addressKey('147 Danforth Avenue, Toronto')).toBe(addressKey('147 Danforth Ave'))
+    expect(addressKey(null)).toBe('')
+  })
+
+  it('scores near-identical names above unrelated ones', () => {
+    expect(nameSimilarity('danforth-music-hall', 'danforth-music-hall')).toBe(1)
+    expect(nameSimilarity('danforth-music-hall', 'danforth-music-hall-theatre')).toBeGreaterThan(0.8)
+    expect(nameSimilarity('danforth-music-hall', 'massey-hall')).toBeLessThan(0.5)
+  })
+})
+
+describe('resolveVenues', () => {
+  it('resolves every listing of the Danforth to one new venue', () => {
+    const { venueIds, created, aliases } = resolveVenues(
+      [
+        { name: 'The Danforth Music Hall', city: 'Toronto' },
+        { name: 'Danforth Music Hall', city: 'Toronto' },
+        { name: 'Danforth Music Hall - Toronto', city: 'Toronto' }
+      ],
+      [],
+      sequentialIds()
+    )
+
+    expect(venueIds).toEqual(['new_1', 'new_1', 'new_1'])
+    expect(created).toHaveLength(1)
+    expect(created[0].name).toBe('The Danforth Music Hall')
+    expect(aliases).toHaveLength(1)
+  })
+
+  it('resolves to a known venue by alias and records no duplicate alias', () => {
+    const { venueIds, created, aliases } = resolveVenues(
+      [{ name: 'The Danforth Music Hall', city: 'Toronto' }],
+      [registered()],
+      sequentialIds()
+    )
+
+    expect(venueIds).toEqual(['venue_danforth'])
+    expect(created).toEqual([])
+    expect(aliases).toEqual([])
+  })
+
+  it('resolves a renamed listing at the same address and keeps its name as an alias', () => {
+    const { venueIds, aliases } = resolveVenues(
+      [{ name: 'Danforth Hall', address: '147 Danforth Avenue', city: 'Toronto' }],
+      [registered()],
+      sequentialIds()
+    )
+
+    expect(venueIds).toEqual(['venue_danforth'])
+    expect(aliases).toEqual([
+      { aliasKey: 'danforth-hall', name: 'Danforth Hall', cityKey: 'toronto', venueId: 'venue_danforth' }
+    ])
+  })
+
+  it('resolves a listing a few metres away with a similar name by proximity', () => {
+    const match = matchVenue(
+      { name: 'Danforth Music Hall Theatre', city: 'Toronto', latitude: 43.6765, longitude: -79.3569 },
+      [registered()]
+    )
+
+    expect(match?.venue.id).toBe('venue_danforth')
+    expect(match?.method).toBe('proximity')
+  })
+
+  it('does not merge a same-named venue in another city', () => {
+    const { venueIds, created } = resolveVenues(
+      [{ name: 'Danforth Music Hall', city: 'Chicago' }],
+      [registered()],
+      sequentialIds()
+    )
+
+    expect(venueIds).toEqual(['new_1'])
+    expect(created[0].city).toBe('Chicago')
+  })
+
+  it('leaves listings without a usable name unresolved', () => {
+    const { venueIds, created } = resolveVenues([{ name: '  ', city: 'Toronto' }], [], sequentialIds())
+
+    expect(venueIds).toEqual([null])
+    expect(created).toEqual([])
+  })
+})
+
+describe('planSplit', () => {
+  const merged = registered({
+    aliases: [
+      { aliasKey: 'danforth-music-hall', name: 'Danforth Music Hall', cityKey: 'toronto' },
+      { aliasKey: 'danforth-hall-annex', name: 'Danforth Hall Annex', cityKey: 'toronto' }
+    ]
+  })
+
+  it('moves the chosen aliases and keeps the rest', () => {
+    const plan = planSplit(merged, ['danforth-hall-annex'])
+
+    expect(plan?.moved.map(alias => alias.aliasKey)).toEqual(['danforth-hall-annex'])
+    expect(plan?.kept.map(alias => alias.aliasKey)).toEqual(['danforth-music-hall'])
+  })
+
+  it('rejects splits that would move none or all of the aliases', () => {
+    expect(planSplit(merged, ['massey-hall'])).toBeNull()
+    expect(planSplit(merged, ['danforth-music-hall', 'danforth-hall-annex'])).toBeNull()
+  })
+})
+
+describe('canonical venue ids downstream', () => {
+  it('matches follows by venue id regardless of the listed name', () => {
+    const follow = { venueKey: 'danforth-music-hall', venueId: 'venue_danforth', city: 'Toronto' }
+
+    expect(isAtFollowedVenue(
+      { venue_name: 'Danforth Hall', venue_id: 'venue_danforth', city_name: 'Toronto' },
+      follow
+    )).toBe(true)
+    expect(isAtFollowedVenue(
+      { venue_name: 'Danforth Music Hall', venue_id: 'venue_other', city_name: 'Toronto' },
+      follow
+    )).toBe(false)
+  })
+
+  it('adds up venue affinity across listed names of one venue', () => {
+    const now = Date.now()
+    const affinity = computeAffinity([
+      { type: 'click', venue: 'The Danforth Music Hall', venueId: 'venue_danforth', timestamp: now, sessionId: 's' },
+      { type: 'save', venue: 'Danforth Music Hall - Toronto', venueId: 'venue_danforth', timestamp: now, sessionId: 's' },
+      { type: 'click', venue: 'Massey Hall', timestamp: now, sessionId: 's' }
+    ], 30, { now })
+
+    expect(Object.keys(affinity.venues).sort()).toEqual(['Massey Hall', 'venue_danforth'])
+    expect(affinity.venues.venue_danforth).toBeGreaterThan(affinity.venues['Massey Hall'])
+  })
+})
@@ -0,0 +1,225 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { createClient } from '@/lib/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Loader2, FlaskConical, Power, Play, Square, RefreshCw } from 'lucide-react';
+import toast from 'react-hot-toast';
+import type { ExperimentReport } from '@/lib/experiments/service';
+import type { RateEstimate } from '@/lib/experiments/stats';
+
+function formatRate(estimate: RateEstimate) {
+  return `${(estimate.rate * 100).toFixed(2)}%`;
+}
+
+function formatInterval(estimate: RateEstimate) {
+  return `${(estimate.low * 100).toFixed(2)} – ${(estimate.high * 100).toFixed(2)}%`;
+}
+
+function formatLift(estimate: RateEstimate | null) {
+  if (!estimate) return '—';
+  const sign = estimate.rate > 0 ? '+' : '';
+  return `${sign}${(estimate.rate * 100).toFixed(2)} pts (${(estimate.low * 100).toFixed(2)} to ${(estimate.high * 100).toFixed(2)})`;
+}
+
+// The interval excludes zero: unlikely to be noise at 95%
+function liftClass(estimate: RateEstimate | null) {
+  if (!estimate) return 'text-gray-500';
+  if (estimate.low > 0) return 'text-green-700 font-semibold';
+  if (estimate.high < 0) return 'text-red-700 font-semibold';
+  return 'text-gray-700';
+}
+
+async function getAccessToken() {
+  const { data: { session } } = await createClient().auth.getSession();
+  if (!session?.access_token) {
+    toast.error('You must be logged in');
+    return null;
+  }
+  return session.access_token;
+}
+
+export default function ExperimentsAdminPage() {
+  const [loading, setLoading] = useState(false);
+  const [reports, setReports] = useState<ExperimentReport[]>([]);
+
+  const fetchReports = useCallback(async () => {
+    setLoading(true);
+
+    try {
+      const token = await getAccessToken();
+      if (!token) return;
+
+      const response = await fetch('/api/admin/experiments', {
+        headers: { 'Authorization': `Bearer ${token}` },
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        setReports(data.reports);
+      } else {
+        toast.error(data.error || 'Failed to load experiments');
+      }
+    } catch (error) {
+      console.error('Error fetching experiments:', error);
+      toast.error('Failed to load experiments');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchReports();
+  }, [fetchReports]);
+
+  const updateExperiment = async (key: string, changes: Record<string, unknown>, message: string) => {
+    setLoading(true);
+
+    try {
+      const token = await getAccessToken();
+      if (!token) return;
+
+      const response = await fetch('/api/admin/experiments', {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`,
+        },
+        body: JSON.stringify({ key, ...changes }),
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        toast.success(message);
+        fetchReports();
+      } else {
+        toast.error(data.error || 'Failed to update experiment');
+      }
+    } catch (error) {
+      console.error('Error updating experiment:', error);
+      toast.error('Failed to update experiment');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="max-w-7xl mx-auto">
+        <div className="flex items-center justify-between mb-8">
+          <h1 className="text-4xl font-bold">Ranking Experiments</h1>
+          <Button variant="outline" onClick={fetchReports} disabled={loading}>
+            {loading ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <RefreshCw className="w-4 h-4 mr-2" />}
+            Refresh
+          </Button>
+        </div>
+
+        {reports.length === 0 && !loading && (
+          <div className="bg-white rounded-lg shadow p-6 text-gray-600">
+            No experiments defined yet. Create one with POST /api/admin/experiments.
+          </div>
+        )}
+
+        <div className="space-y-6">
+          {reports.map(({ experiment, variants, generatedAt }) => (
+            <div key={experiment.key} className="bg-white rounded-lg shadow p-6">
+              <div className="flex items-start justify-between mb-4">
+                <div>
+                  <div className="flex items-center gap-2">
+                    <FlaskConical className="w-5 h-5 text-purple-600" />
+                    <h2 className="text-2xl font-semibold">{experiment.key}</h2>
+                    <span className={`text-xs px-2 py-1 rounded-full ${
+                      experiment.killed
+                        ? 'bg-red-100 text-red-700'
+                        : experiment.status === 'running'
+                          ? 'bg-green-100 text-green-700'
+                          : 'bg-gray-100 text-gray-700'
+                    }`}>
+                      {experiment.killed ? 'killed' : experiment.status}
+                    </span>
+                  </div>
+                  {experiment.description && (
+                    <p className="text-sm text-gray-600 mt-1">{experiment.description}</p>
+                  )}
+                  <p className="text-xs text-gray-500 mt-1">
+                    {(experiment.trafficAllocation * 100).toFixed(0)}% of traffic enrolled · report generated {new Date(generatedAt).toLocaleString()}
+                  </p>
+                </div>
+
+                <div className="flex gap-2">
+                  {experiment.status === 'running' ? (
+                    <Button
+                      variant="outline"
+                      disabled={loading}
+                      onClick={() => updateExperiment(experiment.key, { status: 'stopped' }, 'Experiment stopped')}
+                    >
+                      <Square className="w-4 h-4 mr-2" />
+                      Stop
+                    </Button>
+                  ) : (
+                    <Button
+                      variant="outline"
+                      disabled={loading}
+                      onClick={() => updateExperiment(experiment.key, { status: 'running' }, 'Experiment started')}
+                    >
+                      <Play className="w-4 h-4 mr-2" />
+                      Start
+                    </Button>
+                  )}
+                  <Button
+                    variant={experiment.killed ? 'outline' : 'destructive'}
+                    disabled={loading}
+                    onClick={() => updateExperiment(
+                      experiment.key,
+                      { killed: !experiment.killed },
+                      experiment.killed ? 'Kill switch released' : 'Kill switch enabled: everyone sees control'
+                    )}
+                  >
+                    <Power className="w-4 h-4 mr-2" />
+                    {experiment.killed ? 'Release kill switch' : 'Kill switch'}
+                  </Button>
+                </div>
+              </div>
+
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b text-left text-gray-600">
+                      <th className="py-2 pr-4">Variant</th>
+                      <th className="py-2 pr-4 text-right">Units</th>
+                      <th className="py-2 pr-4 text-right">Impressions</th>
+                      <th className="py-2 pr-4 text-right">Click-through</th>
+                      <th className="py-2 pr-4">95% CI</th>
+                      <th className="py-2 pr-4">Lift vs control</th>
+                      <th className="py-2 pr-4 text-right">Save rate</th>
+                      <th className="py-2 pr-4">95% CI</th>
+                      <th className="py-2">Lift vs control</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {variants.map((variant, index) => (
+                      <tr key={variant.variant} className="border-b last:border-0">
+                        <td className="py-2 pr-4 font-medium">
+                          {variant.variant}
+                          {index === 0 && <span className="ml-2 text-xs text-gray-500">control</span>}
+                        </td>
+                        <td className="py-2 pr-4 text-right">{variant.units.toLocaleString()}</td>
+                        <td className="py-2 pr-4 text-right">{variant.impressions.toLocaleString()}</td>
+                        <td className="py-2 pr-4 text-right">{formatRate(variant.clickThrough)}</td>
+                        <td className="py-2 pr-4 text-gray-600">{formatInterval(variant.clickThrough)}</td>
+                        <td className={`py-2 pr-4 ${liftClass(variant.clickThroughLift)}`}>{formatLift(variant.clickThroughLift)}</td>
+                        <td className="py-2 pr-4 text-right">{formatRate(variant.saveRate)}</td>
+                        <td className="py-2 pr-4 text-gray-600">{formatInterval(variant.saveRate)}</td>
+                        <td className={`py-2 ${liftClass(variant.saveRateLift)}`}>{formatLift(variant.saveRateLift)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
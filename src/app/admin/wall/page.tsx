@@ -0,0 +1,157 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { createClient } from '@/lib/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Loader2, Flag, EyeOff, Check, RefreshCw } from 'lucide-react';
+import toast from 'react-hot-toast';
+import type { WallComment, WallPost, WallReport } from '@/lib/wall/types';
+
+type ReportWithContent = WallReport & {
+  post: (WallPost & { hidden: boolean; hidden_reason: string | null }) | null;
+  comment: (WallComment & { hidden: boolean }) | null;
+};
+
+async function getAccessToken() {
+  const { data: { session } } = await createClient().auth.getSession();
+  if (!session?.access_token) {
+    toast.error('You must be logged in');
+    return null;
+  }
+  return session.access_token;
+}
+
+export default function WallModerationPage() {
+  const [loading, setLoading] = useState(false);
+  const [reports, setReports] = useState<ReportWithContent[]>([]);
+
+  const fetchReports = useCallback(async () => {
+    setLoading(true);
+
+    try {
+      const token = await getAccessToken();
+      if (!token) return;
+
+      const response = await fetch('/api/admin/wall', {
+        headers: { 'Authorization': `Bearer ${token}` },
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        setReports(data.reports);
+      } else {
+        toast.error(data.error || 'Failed to load reports');
+      }
+    } catch (error) {
+      console.error('Error fetching wall reports:', error);
+      toast.error('Failed to load reports');
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchReports();
+  }, [fetchReports]);
+
+  const moderate = async (report: ReportWithContent, hidden: boolean) => {
+    setLoading(true);
+
+    try {
+      const token = await getAccessToken();
+      if (!token) return;
+
+      const response = await fetch('/api/admin/wall', {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${token}`,
+        },
+        body: JSON.stringify({
+          postId: report.post_id,
+          commentId: report.comment_id || undefined,
+          hidden,
+          reason: hidden ? `Hidden by moderator (${report.reason})` : undefined,
+        }),
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        toast.success(hidden ? 'Hidden from the wall' : 'Kept on the wall');
+        fetchReports();
+      } else {
+        toast.error(data.error || 'Failed to moderate');
+      }
+    } catch (error) {
+      console.error('Error moderating wall content:', error);
+      toast.error('Failed to moderate');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="container mx-auto px-4 py-8">
+      <div className="max-w-4xl mx-auto">
+        <div className="flex items-center justify-between mb-8">
+          <h1 className="text-4xl font-bold">City Wall Reports</h1>
+          <Button variant="outline" onClick={fetchReports} disabled={loading}>
+            {loading ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <RefreshCw className="w-4 h-4 mr-2" />}
+            Refresh
+          </Button>
+        </div>
+
+        {reports.length === 0 && !loading && (
+          <div className="bg-white rounded-lg shadow p-6 text-gray-600">
+            No open reports.
+          </div>
+        )}
+
+        <div className="space-y-4">
+          {reports.map((report) => {
+            const target = report.comment || report.post;
+            return (
+              <div key={report.id} className="bg-white rounded-lg shadow p-6">
+                <div className="flex items-start justify-between mb-3">
+                  <div className="flex items-center gap-2">
+                    <Flag className="w-4 h-4 text-red-600" />
+                    <span className="font-semibold capitalize">{report.reason}</span>
+                    <span className="text-xs text-gray-500">
+                      {report.comment_id ? 'comment' : 'post'} · {report.post?.city_slug} · {new Date(report.created_at).toLocaleString()}
+                    </span>
+                    {target?.hidden && (
+                      <span className="text-xs px-2 py-1 rounded-full bg-red-100 text-red-700">hidden</span>
+                    )}
+                  </div>
+                  <div className="flex gap-2">
+                    <Button variant="outline" disabled={loading} onClick={() => moderate(report, false)}>
+                      <Check className="w-4 h-4 mr-2" />
+                      Keep
+                    </Button>
+                    <Button variant="destructive" disabled={loading} onClick={() => moderate(report, true)}>
+                      <EyeOff className="w-4 h-4 mr-2" />
+                      Hide
+                    </Button>
+                  </div>
+                </div>
+
+                {target ? (
+                  <div className="rounded-lg bg-gray-50 p-4">
+                    <p className="text-xs text-gray-500 mb-1">{target.author_name}</p>
+                    <p className="text-sm whitespace-pre-wrap">{target.content}</p>
+                  </div>
+                ) : (
+                  <p className="text-sm text-gray-500">Content no longer exists.</p>
+                )}
+
+                {report.details && (
+                  <p className="text-sm text-gray-600 mt-3">Reporter notes: {report.details}</p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,179 @@
+export const dynamic = 'force-dynamic'
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { getRequestUser, isAdminUser } from '@/lib/supabase-server'
+import { validateRequestBody, safeErrorResponse } from '@/lib/validation/api-validator'
+import {
+  buildExperimentReport,
+  listExperiments,
+  saveExperiment,
+  updateExperiment
+} from '@/lib/experiments/service'
+
+const keySchema = z.string().regex(/^[a-z0-9_]+$/, 'Use lowercase letters, digits and underscores').max(100)
+const statusSchema = z.enum(['draft', 'running', 'stopped'])
+const allocationSchema = z.number().min(0).max(1)
+
+// Validation schema for creating or redefining an experiment
+const experimentSchema = z.object({
+  key: keySchema,
+  description: z.string().max(1000).optional(),
+  status: statusSchema.optional(),
+  trafficAllocation: allocationSchema.optional(),
+  variants: z.array(z.object({
+    name: z.string().min(1).max(50),
+    weight: z.number().min(0),
+    config: z.record(z.any()).optional(),
+  })).min(2, 'An experiment needs a control and at least one variant').max(10),
+  killed: z.boolean().optional(),
+})
+
+// Validation schema for kill switch / status / allocation changes
+const updateSchema = z.object({
+  key: keySchema,
+  status: statusSchema.optional(),
+  killed: z.boolean().optional(),
+  trafficAllocation: allocationSchema.optional(),
+})
+
+/**
+ * Resolve the admin behind the request, or the error response to return
+ */
+async function authorizeAdmin(request: NextRequest): Promise<NextResponse | null> {
+  const user = await getRequestUser(request)
+  if (!user) {
+    return NextResponse.json(
+      { success: false, error: 'Authentication required' },
+      { status: 401 }
+    )
+  }
+
+  if (!(await isAdminUser(user.id))) {
+    return NextResponse.json(
+      { success: false, error: 'Forbidden: Admin access required' },
+      { status: 403 }
+    )
+  }
+
+  return null
+}
+
+/**
+ * GET /api/admin/experiments
+ * Every experiment with its per-variant report
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const denied = await authorizeAdmin(request)
+    if (denied) return denied
+
+    const experiments = await listExperiments()
+    const reports = await Promise.all(experiments.map(buildExperimentReport))
+
+    return NextResponse.json({
+      success: true,
+      reports
+    })
+
+  } catch (error) {
+    console.error('❌ Experiment report error:', error)
+    return safeErrorResponse(error, 'Failed to load experiment reports')
+  }
+}
+
+/**
+ * POST /api/admin/experiments
+ * Create or redefine an experiment
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const denied = await authorizeAdmin(request)
+    if (denied) return denied
+
+    const validation = await validateRequestBody(request, experimentSchema)
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: validation.error,
+          timestamp: new Date().toISOString(),
+        },
+        { status: validation.status || 400 }
+      )
+    }
+
+    const { key, description, status, trafficAllocation, variants, killed } = validation.data!
+    const names = variants.map(v => v.name)
+    if (new Set(names).size !== names.length) {
+      return NextResponse.json(
+        { success: false, error: 'Variant names must be unique' },
+        { status: 400 }
+      )
+    }
+
+    const experiment = await saveExperiment({
+      key,
+      description: description || '',
+      status: status || 'draft',
+      trafficAllocation: trafficAllocation ?? 1,
+      variants: variants.map(v => ({ name: v.name, weight: v.weight, config: v.config || {} })),
+      killed,
+    })
+    console.log(`✅ Saved experiment ${experiment.key} (${experiment.status})`)
+
+    return NextResponse.json({
+      success: true,
+      experiment
+    })
+
+  } catch (error) {
+    console.error('❌ Experiment save error:', error)
+    return safeErrorResponse(error, 'Failed to save experiment')
+  }
+}
+
+/**
+ * PATCH /api/admin/experiments
+ * Kill switch, status and traffic allocation changes
+ */
+export async function PATCH(request: NextRequest) {
+  try {
+    const denied = await authorizeAdmin(request)
+    if (denied) return denied
+
+    const validation = await validateRequestBody(request, updateSchema)
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: validation.error,
+          timestamp: new Date().toISOString(),
+        },
+        { status: validation.status || 400 }
+      )
+    }
+
+    const { key, ...changes } = validation.data!
+    const experiment = await updateExperiment(key, changes)
+
+    if (!experiment) {
+      return NextResponse.json(
+        { success: false, error: 'Experiment not found' },
+        { status: 404 }
+      )
+    }
+
+    if (changes.killed) {
+      console.log(`⚠️ Kill switch enabled for experiment ${key}`)
+    }
+
+    return NextResponse.json({
+      success: true,
+      experiment
+    })
+
+  } catch (error) {
+    console.error('❌ Experiment update error:', error)
+    return safeErrorResponse(error, 'Failed to update experiment')
+  }
+}
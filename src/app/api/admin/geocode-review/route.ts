@@ -0,0 +1,85 @@
+export const dynamic = 'force-dynamic'
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { getRequestUser, isAdminUser } from '@/lib/supabase-server'
+import { validateRequestBody, validateSearchParams, safeErrorResponse } from '@/lib/validation/api-validator'
+import { authRequiredResponse, validationFailedResponse } from '@/lib/plans/http'
+import { listGeocodeReviews, resolveGeocodeReview } from '@/lib/geocoding/cache'
+
+const listSchema = z.object({
+  limit: z.coerce.number().int().min(1).max(200).optional(),
+})
+
+// Null coordinates settle a location that cannot be placed
+const resolveSchema = z.object({
+  queryKey: z.string().min(1).max(500),
+  coordinates: z.object({
+    latitude: z.number().min(-90).max(90),
+    longitude: z.number().min(-180).max(180),
+  }).nullable(),
+})
+
+function forbiddenResponse(): NextResponse {
+  return NextResponse.json(
+    { success: false, error: 'Forbidden: Admin access required' },
+    { status: 403 }
+  )
+}
+
+/**
+ * GET /api/admin/geocode-review
+ * Locations the geocoder could not place confidently, with any rejected
+ * candidate coordinates
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request)
+    if (!user) return authRequiredResponse()
+    if (!(await isAdminUser(user.id))) return forbiddenResponse()
+
+    const validation = validateSearchParams(request, listSchema)
+    if (!validation.success) {
+      return validationFailedResponse(validation.error, validation.status)
+    }
+
+    const reviews = await listGeocodeReviews(validation.data!)
+
+    return NextResponse.json({ success: true, reviews, count: reviews.length })
+  } catch (error) {
+    console.error('❌ Failed to load geocode reviews:', error)
+    return safeErrorResponse(error, 'Failed to load geocode reviews')
+  }
+}
+
+/**
+ * PATCH /api/admin/geocode-review
+ * Confirm coordinates for a flagged location, or mark it unplaceable
+ */
+export async function PATCH(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request)
+    if (!user) return authRequiredResponse()
+    if (!(await isAdminUser(user.id))) return forbiddenResponse()
+
+    const validation = await validateRequestBody(request, resolveSchema)
+    if (!validation.success) {
+      return validationFailedResponse(validation.error, validation.status)
+    }
+
+    const { queryKey, coordinates } = validation.data!
+    const geocode = await resolveGeocodeReview(queryKey, coordinates, user.id)
+    if (!geocode) {
+      return NextResponse.json(
+        { success: false, error: 'Geocode awaiting review not found' },
+        { status: 404 }
+      )
+    }
+
+    console.log(`✅ Geocode for "${geocode.query}" ${coordinates ? 'placed' : 'marked unplaceable'} by admin ${user.id}`)
+
+    return NextResponse.json({ success: true, geocode })
+  } catch (error) {
+    console.error('❌ Failed to resolve geocode review:', error)
+    return safeErrorResponse(error, 'Failed to resolve geocode review')
+  }
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient, SupabaseClient } from '@supabase/supabase-js'
+import { linkEventPerformers } from '@/lib/performers/service'
 import * as fs from 'fs'
 import * as path from 'path'
 
@@ -139,6 +140,10 @@ export async function POST(request: NextRequest) {
 
           if (error) {
             console.error(`Error upserting event ${event.id}:`, error.message)
+          } else if (event.performers?.length) {
+            await linkEventPerformers(event.id, event.performers).catch(linkError =>
+              console.warn(`⚠️ Failed to link performers of ${event.id}:`, linkError.message)
+            )
           }
         }
 
@@ -0,0 +1,71 @@
+export const dynamic = 'force-dynamic'
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { getRequestUser, isAdminUser } from '@/lib/supabase-server'
+import { validateRequestBody, safeErrorResponse } from '@/lib/validation/api-validator'
+import { authRequiredResponse, validationFailedResponse } from '@/lib/plans/http'
+import { getScraperScoreboard, releaseScraperQuarantine } from '@/lib/scraping/health/service'
+
+// Validation schema for releasing a quarantined source (e.g. "venue:lees-palace")
+const releaseSchema = z.object({
+  key: z.string().min(1, 'Key is required').max(200),
+})
+
+function forbiddenResponse(): NextResponse {
+  return NextResponse.json(
+    { success: false, error: 'Forbidden: Admin access required' },
+    { status: 403 }
+  )
+}
+
+/**
+ * GET /api/admin/scraper-health
+ * Rolling per-source and per-venue scores with active quarantines
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request)
+    if (!user) return authRequiredResponse()
+    if (!(await isAdminUser(user.id))) return forbiddenResponse()
+
+    const scoreboard = await getScraperScoreboard()
+
+    return NextResponse.json({ success: true, ...scoreboard })
+  } catch (error) {
+    console.error('❌ Failed to load scraper scoreboard:', error)
+    return safeErrorResponse(error, 'Failed to load scraper scoreboard')
+  }
+}
+
+/**
+ * POST /api/admin/scraper-health
+ * Release a quarantined source or venue so its results are written again
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request)
+    if (!user) return authRequiredResponse()
+    if (!(await isAdminUser(user.id))) return forbiddenResponse()
+
+    const validation = await validateRequestBody(request, releaseSchema)
+    if (!validation.success) {
+      return validationFailedResponse(validation.error, validation.status)
+    }
+
+    const { key } = validation.data!
+    const released = await releaseScraperQuarantine(key, user.id)
+    if (!released) {
+      return NextResponse.json(
+        { success: false, error: `${key} is not quarantined` },
+        { status: 404 }
+      )
+    }
+
+    console.log(`✅ Scraper ${key} released from quarantine by admin ${user.id}`)
+
+    return NextResponse.json({ success: true, key })
+  } catch (error) {
+    console.error('❌ Failed to release scraper quarantine:', error)
+    return safeErrorResponse(error, 'Failed to release scraper quarantine')
+  }
+}
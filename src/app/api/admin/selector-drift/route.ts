@@ -0,0 +1,82 @@
+export const dynamic = 'force-dynamic'
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { getRequestUser, isAdminUser } from '@/lib/supabase-server'
+import { validateRequestBody, validateSearchParams, safeErrorResponse } from '@/lib/validation/api-validator'
+import { authRequiredResponse, validationFailedResponse } from '@/lib/plans/http'
+import { listDriftReports, reviewDriftReport } from '@/lib/scraping/drift/service'
+
+const listSchema = z.object({
+  status: z.enum(['open', 'accepted', 'dismissed']).optional(),
+  venueId: z.string().max(100).optional(),
+})
+
+// Accepted means the diff was applied to venue-configs.ts
+const reviewSchema = z.object({
+  id: z.string().uuid('Invalid report ID'),
+  status: z.enum(['accepted', 'dismissed']),
+})
+
+function forbiddenResponse(): NextResponse {
+  return NextResponse.json(
+    { success: false, error: 'Forbidden: Admin access required' },
+    { status: 403 }
+  )
+}
+
+/**
+ * GET /api/admin/selector-drift
+ * Drift reports with suggested selectors and their venue-configs.ts diffs
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request)
+    if (!user) return authRequiredResponse()
+    if (!(await isAdminUser(user.id))) return forbiddenResponse()
+
+    const validation = validateSearchParams(request, listSchema)
+    if (!validation.success) {
+      return validationFailedResponse(validation.error, validation.status)
+    }
+
+    const reports = await listDriftReports(validation.data!)
+
+    return NextResponse.json({ success: true, reports, count: reports.length })
+  } catch (error) {
+    console.error('❌ Failed to load selector drift reports:', error)
+    return safeErrorResponse(error, 'Failed to load selector drift reports')
+  }
+}
+
+/**
+ * PATCH /api/admin/selector-drift
+ * Accept or dismiss an open report
+ */
+export async function PATCH(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request)
+    if (!user) return authRequiredResponse()
+    if (!(await isAdminUser(user.id))) return forbiddenResponse()
+
+    const validation = await validateRequestBody(request, reviewSchema)
+    if (!validation.success) {
+      return validationFailedResponse(validation.error, validation.status)
+    }
+
+    const { id, status } = validation.data!
+    const report = await reviewDriftReport(id, status, user.id)
+    if (!report) {
+      return NextResponse.json(
+        { success: false, error: 'Open drift report not found' },
+        { status: 404 }
+      )
+    }
+
+    console.log(`✅ Selector drift report ${id} ${status} by admin ${user.id}`)
+
+    return NextResponse.json({ success: true, report })
+  } catch (error) {
+    console.error('❌ Failed to review selector drift report:', error)
+    return safeErrorResponse(error, 'Failed to review selector drift report')
+  }
+}
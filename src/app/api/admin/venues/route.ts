@@ -0,0 +1,109 @@
+export const dynamic = 'force-dynamic'
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { getRequestUser, isAdminUser } from '@/lib/supabase-server'
+import { validateRequestBody, validateSearchParams, safeErrorResponse } from '@/lib/validation/api-validator'
+import { authRequiredResponse, validationFailedResponse } from '@/lib/plans/http'
+import { planSplit } from '@/lib/venues/registry'
+import { getVenue, mergeVenues, searchVenues, splitVenue } from '@/lib/venues/registry-service'
+import { venueIdSchema, venueKeySchema, venueNotFoundResponse } from '@/lib/venues/http'
+
+const listSchema = z.object({
+  q: z.string().trim().max(200).optional(),
+  city: z.string().trim().max(100).optional(),
+  limit: z.coerce.number().int().min(1).max(200).optional(),
+})
+
+// Merge moves the sources' aliases, events and follows to the target;
+// split moves the given aliases (and the events listed under them) to a new venue
+const changeSchema = z.discriminatedUnion('action', [
+  z.object({
+    action: z.literal('merge'),
+    targetId: venueIdSchema,
+    sourceIds: z.array(venueIdSchema).min(1).max(20),
+  }),
+  z.object({
+    action: z.literal('split'),
+    venueId: venueIdSchema,
+    aliasKeys: z.array(venueKeySchema).min(1).max(50),
+  }),
+])
+
+function forbiddenResponse(): NextResponse {
+  return NextResponse.json(
+    { success: false, error: 'Forbidden: Admin access required' },
+    { status: 403 }
+  )
+}
+
+/**
+ * GET /api/admin/venues
+ * Canonical venues by name, with the names each is listed under
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request)
+    if (!user) return authRequiredResponse()
+    if (!(await isAdminUser(user.id))) return forbiddenResponse()
+
+    const validation = validateSearchParams(request, listSchema)
+    if (!validation.success) {
+      return validationFailedResponse(validation.error, validation.status)
+    }
+
+    const { q, city, limit } = validation.data!
+    const venues = await searchVenues({ query: q, city, limit })
+
+    return NextResponse.json({ success: true, venues, count: venues.length })
+  } catch (error) {
+    console.error('❌ Failed to load venues:', error)
+    return safeErrorResponse(error, 'Failed to load venues')
+  }
+}
+
+/**
+ * POST /api/admin/venues
+ * Merge duplicate venues, or split names off a wrongly merged one
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request)
+    if (!user) return authRequiredResponse()
+    if (!(await isAdminUser(user.id))) return forbiddenResponse()
+
+    const validation = await validateRequestBody(request, changeSchema)
+    if (!validation.success) {
+      return validationFailedResponse(validation.error, validation.status)
+    }
+
+    const change = validation.data!
+
+    if (change.action === 'merge') {
+      if (change.sourceIds.includes(change.targetId)) {
+        return validationFailedResponse('A venue cannot be merged into itself')
+      }
+
+      const venue = await mergeVenues(change.targetId, change.sourceIds)
+      if (!venue) return venueNotFoundResponse()
+
+      console.log(`✅ Merged venues ${change.sourceIds.join(', ')} into ${change.targetId} by admin ${user.id}`)
+      return NextResponse.json({ success: true, venue })
+    }
+
+    const venue = await getVenue(change.venueId)
+    if (!venue || venue.id !== change.venueId) return venueNotFoundResponse()
+
+    const plan = planSplit(venue, change.aliasKeys)
+    if (!plan) {
+      return validationFailedResponse('A split must move some, but not all, of the venue\'s names')
+    }
+
+    const split = await splitVenue(venue, plan.moved)
+
+    console.log(`✅ Split ${plan.moved.map(alias => alias.name).join(', ')} off venue ${venue.id} into ${split.id} by admin ${user.id}`)
+    return NextResponse.json({ success: true, venue: await getVenue(venue.id), split })
+  } catch (error) {
+    console.error('❌ Failed to change venues:', error)
+    return safeErrorResponse(error, 'Failed to change venues')
+  }
+}
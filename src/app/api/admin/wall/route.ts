@@ -0,0 +1,64 @@
+export const dynamic = 'force-dynamic'
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { getRequestUser, isAdminUser } from '@/lib/supabase-server'
+import { validateRequestBody } from '@/lib/validation/api-validator'
+import { listOpenReports, setVisibility } from '@/lib/wall/service'
+import { wallErrorResponse } from '@/lib/wall/http'
+import { authRequiredResponse, validationFailedResponse } from '@/lib/plans/http'
+
+const moderationSchema = z.object({
+  postId: z.string().uuid('Invalid post ID'),
+  commentId: z.string().uuid('Invalid comment ID').optional(),
+  hidden: z.boolean(),
+  reason: z.string().max(500, 'Reason too long').optional(),
+})
+
+function forbiddenResponse(): NextResponse {
+  return NextResponse.json(
+    { success: false, error: 'Forbidden: Admin access required' },
+    { status: 403 }
+  )
+}
+
+/**
+ * GET /api/admin/wall
+ * Open reports with the reported posts/comments
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request)
+    if (!user) return authRequiredResponse()
+    if (!(await isAdminUser(user.id))) return forbiddenResponse()
+
+    const reports = await listOpenReports()
+
+    return NextResponse.json({ success: true, reports, count: reports.length })
+  } catch (error) {
+    return wallErrorResponse(error, 'Failed to load wall reports')
+  }
+}
+
+/**
+ * PATCH /api/admin/wall
+ * Hide or restore a post or comment; either way its open reports are resolved
+ */
+export async function PATCH(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request)
+    if (!user) return authRequiredResponse()
+    if (!(await isAdminUser(user.id))) return forbiddenResponse()
+
+    const validation = await validateRequestBody(request, moderationSchema)
+    if (!validation.success) {
+      return validationFailedResponse(validation.error, validation.status)
+    }
+
+    await setVisibility({ ...validation.data!, actorId: user.id, resolveReports: true })
+    console.log(`✅ Wall ${validation.data!.commentId ? 'comment' : 'post'} ${validation.data!.hidden ? 'hidden' : 'restored'} by admin ${user.id}`)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    return wallErrorResponse(error, 'Failed to moderate wall content')
+  }
+}
@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { validateRequestBody, safeErrorResponse } from '@/lib/validation/api-validator'
+import { validationFailedResponse } from '@/lib/plans/http'
+import { affectedTags } from '@/lib/cache/tags'
+import { queryCache } from '@/lib/query-cache'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+
+const taggedEventSchema = z.object({
+  id: z.string().min(1).max(200),
+  city_name: z.string().max(100).nullable().optional(),
+  category: z.string().max(100).nullable().optional(),
+  date: z.string().max(40).nullable().optional(),
+})
+
+const invalidateSchema = z.object({
+  // Stored and new versions of every event that was written
+  events: z.array(taggedEventSchema).max(1000).optional(),
+  tags: z.array(z.string().min(1).max(200)).max(1000).optional(),
+}).refine(body => !!(body.events?.length || body.tags?.length), 'Nothing to invalidate')
+
+/**
+ * POST /api/cache/invalidate
+ * Publish cache invalidations for events written outside this app, such as
+ * by the webhook-handler edge function. Authenticated with CRON_SECRET.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const authHeader = request.headers.get('authorization')
+    const cronSecret = process.env.CRON_SECRET
+
+    if (process.env.NODE_ENV === 'production') {
+      if (!cronSecret || authHeader !== `Bearer ${cronSecret}`) {
+        console.error('❌ Unauthorized cache invalidation attempt')
+        return NextResponse.json(
+          { success: false, error: 'Unauthorized' },
+          { status: 401 }
+        )
+      }
+    }
+
+    const validation = await validateRequestBody(request, invalidateSchema)
+    if (!validation.success) {
+      return validationFailedResponse(validation.error)
+    }
+
+    const { events = [], tags = [] } = validation.data!
+    const invalidated = Array.from(new Set([...affectedTags(events), ...tags]))
+    await queryCache.invalidateTags(invalidated)
+
+    return NextResponse.json({ success: true, tags: invalidated })
+  } catch (error) {
+    console.error('❌ Cache invalidation error:', error)
+    return safeErrorResponse(error, 'Failed to invalidate cache')
+  }
+}
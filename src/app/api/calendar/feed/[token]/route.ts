@@ -0,0 +1,37 @@
+export const dynamic = 'force-dynamic'
+import { NextRequest, NextResponse } from 'next/server'
+import { renderFeedForToken } from '@/lib/calendar/feed-store'
+
+/**
+ * GET /api/calendar/feed/[token]
+ * Serve the user's saved events as a continuously updating VCALENDAR.
+ * Calendar apps subscribe to this via webcal:// and poll it.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { token: string } }
+) {
+  try {
+    // Some clients insist on an .ics suffix
+    const token = params.token.replace(/\.ics$/i, '')
+    if (!/^[A-Za-z0-9_-]{20,100}$/.test(token)) {
+      return new NextResponse('Not found', { status: 404 })
+    }
+
+    const calendar = await renderFeedForToken(token)
+    if (!calendar) {
+      return new NextResponse('Not found', { status: 404 })
+    }
+
+    return new NextResponse(calendar, {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="scenescout.ics"',
+        'Cache-Control': 'private, max-age=300',
+      },
+    })
+  } catch (error) {
+    console.error('❌ Calendar feed error:', error)
+    return new NextResponse('Failed to build calendar feed', { status: 500 })
+  }
+}
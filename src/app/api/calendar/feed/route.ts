@@ -0,0 +1,71 @@
+export const dynamic = 'force-dynamic'
+import { NextRequest, NextResponse } from 'next/server'
+import { getRequestUser } from '@/lib/supabase-server'
+import { checkRateLimit, safeErrorResponse } from '@/lib/validation/api-validator'
+import { getOrCreateFeedToken, revokeFeedTokens } from '@/lib/calendar/feed-store'
+
+// Rate limit: 10 feed token requests per minute
+const FEED_RATE_LIMIT = {
+  maxRequests: 10,
+  windowMs: 60 * 1000,
+}
+
+function buildFeedUrls(request: NextRequest, token: string) {
+  const httpsUrl = `${request.nextUrl.origin}/api/calendar/feed/${token}`
+  return {
+    httpsUrl,
+    webcalUrl: httpsUrl.replace(/^https?:/, 'webcal:'),
+  }
+}
+
+/**
+ * POST /api/calendar/feed
+ * Get (or with { rotate: true }, replace) the caller's calendar subscription URL
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const rateLimitResult = await checkRateLimit(request, 'calendar-feed', FEED_RATE_LIMIT)
+    if (!rateLimitResult.allowed) {
+      return rateLimitResult.response!
+    }
+
+    const user = await getRequestUser(request)
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const body = await request.json().catch(() => ({}))
+    const token = await getOrCreateFeedToken(user.id, body?.rotate === true)
+
+    return NextResponse.json({ success: true, ...buildFeedUrls(request, token) })
+  } catch (error) {
+    console.error('❌ Calendar feed token error:', error)
+    return safeErrorResponse(error, 'Failed to create calendar feed')
+  }
+}
+
+/**
+ * DELETE /api/calendar/feed
+ * Revoke the caller's calendar subscription URL
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request)
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    await revokeFeedTokens(user.id)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('❌ Calendar feed revoke error:', error)
+    return safeErrorResponse(error, 'Failed to revoke calendar feed')
+  }
+}
@@ -57,10 +57,11 @@ export async function GET(request: NextRequest) {
 
     console.log('🔔 Starting reminder check...')
 
-    // Get all saved events from database
+    // Get all saved events from database (unsaves are kept as tombstones for sync)
     const { data: savedEvents, error: fetchError } = await supabase
       .from('saved_events')
       .select('*')
+      .is('deleted_at', null)
 
     if (fetchError) {
       console.error('❌ Failed to fetch saved events:', fetchError)
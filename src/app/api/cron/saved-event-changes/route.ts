@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { checkSavedEvents } from '@/lib/saved/watcher'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+export const maxDuration = 60 // 60 seconds max for Vercel
+
+/**
+ * GET /api/cron/saved-event-changes
+ * Cron job to re-resolve saved events against Ticketmaster/Eventbrite and
+ * notify users when the time, venue, price or status changes
+ *
+ * Runs every 6 hours via Vercel Cron
+ */
+export async function GET(request: NextRequest) {
+  const startTime = Date.now()
+
+  try {
+    // Verify this is called by Vercel Cron or in development
+    const authHeader = request.headers.get('authorization')
+    const cronSecret = process.env.CRON_SECRET
+
+    if (process.env.NODE_ENV === 'production') {
+      if (!cronSecret || authHeader !== `Bearer ${cronSecret}`) {
+        console.error('❌ Unauthorized cron attempt')
+        return NextResponse.json(
+          { success: false, error: 'Unauthorized' },
+          { status: 401 }
+        )
+      }
+    }
+
+    const limitParam = parseInt(request.nextUrl.searchParams.get('limit') || '', 10)
+    const result = await checkSavedEvents({
+      limit: isNaN(limitParam) ? undefined : Math.min(Math.max(limitParam, 1), 500)
+    })
+
+    const duration = Date.now() - startTime
+    console.log(`✅ Saved event check complete: ${result.checked} checked, ${result.changed} changed, ${result.notified} notified, ${result.failed} failed in ${duration}ms`)
+
+    return NextResponse.json({
+      success: true,
+      ...result,
+      duration: `${duration}ms`
+    })
+
+  } catch (error: any) {
+    const duration = Date.now() - startTime
+    console.error('❌ Saved event check error:', error)
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error.message,
+        duration: `${duration}ms`
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { runSavedSearches } from '@/lib/saved-searches/alerts'
+
+export const runtime = 'nodejs'
+export const dynamic = 'force-dynamic'
+export const maxDuration = 60 // 60 seconds max for Vercel
+
+/**
+ * GET /api/cron/saved-searches
+ * Cron job to match saved searches against newly ingested events and
+ * send the alerts that are due (instant, daily or weekly)
+ *
+ * Runs every 30 minutes via Vercel Cron
+ */
+export async function GET(request: NextRequest) {
+  const startTime = Date.now()
+
+  try {
+    // Verify this is called by Vercel Cron or in development
+    const authHeader = request.headers.get('authorization')
+    const cronSecret = process.env.CRON_SECRET
+
+    if (process.env.NODE_ENV === 'production') {
+      if (!cronSecret || authHeader !== `Bearer ${cronSecret}`) {
+        console.error('❌ Unauthorized cron attempt')
+        return NextResponse.json(
+          { success: false, error: 'Unauthorized' },
+          { status: 401 }
+        )
+      }
+    }
+
+    const limitParam = parseInt(request.nextUrl.searchParams.get('limit') || '', 10)
+    const result = await runSavedSearches({
+      limit: isNaN(limitParam) ? undefined : Math.min(Math.max(limitParam, 1), 1000)
+    })
+
+    const duration = Date.now() - startTime
+    console.log(`✅ Saved searches complete: ${result.searches} searches, ${result.matched} new matches, ${result.notified} notified, ${result.failed} failed in ${duration}ms`)
+
+    return NextResponse.json({
+      success: true,
+      ...result,
+      duration: `${duration}ms`
+    })
+
+  } catch (error: any) {
+    const duration = Date.now() - startTime
+    console.error('❌ Saved searches error:', error)
+
+    return NextResponse.json(
+      {
+        success: false,
+        error: error.message,
+        duration: `${duration}ms`
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient, SupabaseClient } from '@supabase/supabase-js'
 import { queryCache, CACHE_KEYS, CACHE_TTL } from '@/lib/query-cache'
+import { listingTags } from '@/lib/cache/tags'
 
 // ✅ Use anon key to respect RLS policies (public API endpoint)
 const supabase = createClient(
@@ -21,7 +22,7 @@ export async function GET(request: NextRequest) {
 
     // Check cache first (cache per category + offset combination)
     const cacheKey = CACHE_KEYS.CATEGORY_EVENTS(category || 'all', offset)
-    const cached = queryCache.get<any>(cacheKey)
+    const cached = await queryCache.get<any>(cacheKey)
 
     if (cached) {
       return NextResponse.json({
@@ -76,8 +77,11 @@ export async function GET(request: NextRequest) {
       queryTime
     }
 
-    // Cache the result for 60 seconds
-    queryCache.set(cacheKey, response, CACHE_TTL.CATEGORY_EVENTS)
+    // Cache the result for 60 seconds, or until an event in the category changes
+    await queryCache.set(cacheKey, response, CACHE_TTL.CATEGORY_EVENTS, {
+      tags: listingTags({ category }),
+      fetchedAt: startTime
+    })
 
     console.log(`✅ Fetched ${events?.length || 0} events from database (total: ${count}) in ${queryTime}ms`)
 
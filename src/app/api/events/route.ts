@@ -4,6 +4,7 @@ import { transformEventRow } from '@/lib/event-normalizer'
 import { z } from 'zod'
 import { validateSearchParams, safeErrorResponse, checkRateLimit } from '@/lib/validation/api-validator'
 import { sanitizeEvents } from '@/lib/validation/sanitize'
+import { collapseSeries } from '@/lib/series/collapse'
 
 // Force dynamic rendering
 export const dynamic = 'force-dynamic'
@@ -165,9 +166,14 @@ export async function GET(request: NextRequest) {
       })
     }
 
+    // Show a recurring event once, as its next occurrence
+    events = collapseSeries(events)
+
     // Filter for one-off events (no recurring pattern)
     if (isOneOff) {
       events = events.filter(event => {
+        if (event.series) return false
+
         // Events that don't have recurring indicators in title/description
         const text = `${event.title} ${event.description || ''}`.toLowerCase()
         const recurringTerms = ['weekly', 'monthly', 'daily', 'recurring', 'every week', 'every month']
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient, SupabaseClient } from '@supabase/supabase-js'
+import { linkEventPerformers } from '@/lib/performers/service'
 
 const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -86,6 +87,11 @@ export async function POST(request: NextRequest) {
               skipped++
             } else {
               synced++
+              if (event.performers?.length) {
+                await linkEventPerformers(eventData.id, event.performers).catch(linkError =>
+                  console.warn(`⚠️ Failed to link performers of ${eventData.id}:`, linkError.message)
+                )
+              }
             }
           } catch (err) {
             console.error(`❌ Exception upserting event:`, err)
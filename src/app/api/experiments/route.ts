@@ -0,0 +1,109 @@
+export const dynamic = 'force-dynamic'
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { getRequestUser } from '@/lib/supabase-server'
+import { validateRequestBody, safeErrorResponse, checkRateLimit } from '@/lib/validation/api-validator'
+import { getAssignments, recordExperimentEvents } from '@/lib/experiments/service'
+
+// Anonymous device id generated by lib/experiments/client
+const unitIdSchema = z.string().min(8).max(100)
+
+// Validation schema for a batch of experiment events
+const eventsSchema = z.object({
+  unitId: unitIdSchema.optional(),
+  events: z.array(z.object({
+    experimentKey: z.string().min(1).max(100),
+    type: z.enum(['exposure', 'impression', 'click', 'save']),
+    eventId: z.string().max(500).optional(),
+    occurredAt: z.number().int().positive().optional(),
+  })).min(1).max(100, 'Too many events in one batch'),
+})
+
+// Rate limit: assignments are cached on the device, events are batched
+const EXPERIMENTS_RATE_LIMIT = {
+  maxRequests: 60,
+  windowMs: 60 * 1000,
+}
+
+/**
+ * GET /api/experiments?unitId=...
+ * Variant assignments for every running experiment. Signed-in users are
+ * bucketed by account so they see the same variant on every device.
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const rateLimitResult = await checkRateLimit(request, 'experiments', EXPERIMENTS_RATE_LIMIT)
+    if (!rateLimitResult.allowed) {
+      return rateLimitResult.response!
+    }
+
+    const user = await getRequestUser(request)
+    const anonymousId = unitIdSchema.safeParse(request.nextUrl.searchParams.get('unitId'))
+    const unitId = user?.id || (anonymousId.success ? anonymousId.data : null)
+
+    if (!unitId) {
+      return NextResponse.json(
+        { success: false, error: 'unitId or authentication required' },
+        { status: 400 }
+      )
+    }
+
+    const assignments = await getAssignments(unitId)
+
+    return NextResponse.json({
+      success: true,
+      unitId,
+      assignments
+    })
+
+  } catch (error) {
+    console.error('❌ Experiment assignment error:', error)
+    return safeErrorResponse(error, 'Failed to load experiments')
+  }
+}
+
+/**
+ * POST /api/experiments
+ * Log exposures and impression/click/save outcomes for the report
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const rateLimitResult = await checkRateLimit(request, 'experiments', EXPERIMENTS_RATE_LIMIT)
+    if (!rateLimitResult.allowed) {
+      return rateLimitResult.response!
+    }
+
+    const validation = await validateRequestBody(request, eventsSchema)
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: validation.error,
+          timestamp: new Date().toISOString(),
+        },
+        { status: validation.status || 400 }
+      )
+    }
+
+    const user = await getRequestUser(request)
+    const unitId = user?.id || validation.data!.unitId
+
+    if (!unitId) {
+      return NextResponse.json(
+        { success: false, error: 'unitId or authentication required' },
+        { status: 400 }
+      )
+    }
+
+    const recorded = await recordExperimentEvents(unitId, user?.id || null, validation.data!.events)
+
+    return NextResponse.json({
+      success: true,
+      recorded
+    })
+
+  } catch (error) {
+    console.error('❌ Experiment event error:', error)
+    return safeErrorResponse(error, 'Failed to record experiment events')
+  }
+}
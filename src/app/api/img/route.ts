@@ -1,146 +1,119 @@
-import { NextRequest, NextResponse } from 'next/server'
-
 export const dynamic = 'force-dynamic'
+export const runtime = 'nodejs'
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { getRequestUser } from '@/lib/supabase-server'
+import { validateSearchParams, safeErrorResponse } from '@/lib/validation/api-validator'
+import { authRequiredResponse, validationFailedResponse } from '@/lib/plans/http'
+import {
+  CONTENT_TYPES,
+  ImageError,
+  MAX_SOURCE_BYTES,
+  SOURCE_CONTENT_TYPES,
+  VARIANT_WIDTHS,
+  getImageVariant,
+  negotiateFormat,
+  saveUpload,
+  snapQuality,
+  snapWidth,
+  transformImage
+} from '@/lib/images'
+
+const variantSchema = z.object({
+  url: z.string().url().max(2048),
+  w: z.coerce.number().int().min(1).max(4096).optional(),
+  q: z.coerce.number().int().min(1).max(100).optional(),
+})
+
+const UPLOAD_QUALITY = 80
+
+function imageErrorResponse(error: ImageError): NextResponse {
+  return NextResponse.json(
+    { success: false, error: error.message },
+    { status: error.status }
+  )
+}
 
+/**
+ * GET /api/img?url=...&w=640&q=75
+ * An allowlisted remote image resized to the nearest variant width and
+ * re-encoded as AVIF, WebP or JPEG depending on the Accept header, with
+ * EXIF stripped. Variants are derived once and served from the store after.
+ */
 export async function GET(request: NextRequest) {
-  const { searchParams } = new URL(request.url)
-  const imageUrl = searchParams.get('url')
-  const width = searchParams.get('w')
-  const quality = searchParams.get('q') || '75'
-
-  if (!imageUrl) {
-    return NextResponse.json({ error: 'Missing image URL' }, { status: 400 })
-  }
-
   try {
-    // Validate that the URL is from an allowed domain
-    const allowedDomains = [
-      'images.unsplash.com',
-      'cdn.scenescout.com',
-      'res.cloudinary.com',
-      // Add your CDN domains here
-    ]
-
-    const urlObj = new URL(imageUrl)
-    const isAllowedDomain = allowedDomains.some(domain => 
-      urlObj.hostname === domain || urlObj.hostname.endsWith(`.${domain}`)
-    )
-
-    if (!isAllowedDomain) {
-      return NextResponse.json({ error: 'Domain not allowed' }, { status: 403 })
+    const validation = validateSearchParams(request, variantSchema)
+    if (!validation.success) {
+      return validationFailedResponse(validation.error, validation.status)
     }
 
-    // Fetch the image
-    const response = await fetch(imageUrl, {
-      headers: {
-        'User-Agent': 'SceneScout/1.0',
-      },
-      // Add cache control
-      next: { revalidate: 86400 }, // Cache for 24 hours
+    const { url, w, q } = validation.data!
+    const variant = await getImageVariant({
+      url,
+      width: snapWidth(w),
+      quality: snapQuality(q),
+      format: negotiateFormat(request.headers.get('accept')),
     })
 
-    if (!response.ok) {
-      return NextResponse.json(
-        { error: 'Failed to fetch image' },
-        { status: response.status }
-      )
-    }
-
-    const contentType = response.headers.get('content-type')
-    
-    // Validate content type
-    if (!contentType?.startsWith('image/')) {
-      return NextResponse.json(
-        { error: 'Invalid content type' },
-        { status: 400 }
-      )
-    }
-
-    const imageBuffer = await response.arrayBuffer()
-
-    // TODO: Implement image optimization using Sharp or similar
-    // For now, we'll just proxy the image
-    
-    // If width is specified, you could resize the image here
-    // const sharp = require('sharp')
-    // let processedImage = sharp(imageBuffer)
-    // 
-    // if (width) {
-    //   processedImage = processedImage.resize(parseInt(width), null, {
-    //     withoutEnlargement: true,
-    //   })
-    // }
-    // 
-    // processedImage = processedImage.jpeg({
-    //   quality: parseInt(quality),
-    //   progressive: true,
-    // })
-    // 
-    // const optimizedBuffer = await processedImage.toBuffer()
-
-    return new NextResponse(imageBuffer, {
+    return new NextResponse(new Uint8Array(variant.body), {
       status: 200,
       headers: {
-        'Content-Type': contentType,
+        'Content-Type': CONTENT_TYPES[variant.format],
+        'Content-Length': String(variant.body.length),
         'Cache-Control': 'public, max-age=86400, s-maxage=86400',
         'CDN-Cache-Control': 'public, max-age=86400',
         'Vary': 'Accept',
+        'X-Image-Cache': variant.cached ? 'HIT' : 'MISS',
       },
     })
   } catch (error) {
-    console.error('Image proxy error:', error)
-    return NextResponse.json(
-      { error: 'Internal server error' },
-      { status: 500 }
-    )
+    if (error instanceof ImageError) return imageErrorResponse(error)
+    console.error('❌ Image proxy error:', error)
+    return safeErrorResponse(error, 'Failed to load image')
   }
 }
 
+/**
+ * POST /api/img
+ * Upload an image (multipart `file`). It is stored as WebP, at most the
+ * largest variant width wide and without EXIF, under the uploader's folder.
+ */
 export async function POST(request: NextRequest) {
-  // TODO: Implement image upload functionality
-  // This could handle direct uploads to your CDN or cloud storage
-  
   try {
+    const user = await getRequestUser(request)
+    if (!user) return authRequiredResponse()
+
     const formData = await request.formData()
-    const file = formData.get('file') as File
-    
-    if (!file) {
-      return NextResponse.json({ error: 'No file provided' }, { status: 400 })
-    }
+    const file = formData.get('file')
 
-    // Validate file type
-    if (!file.type.startsWith('image/')) {
-      return NextResponse.json({ error: 'Invalid file type' }, { status: 400 })
+    if (!(file instanceof File)) {
+      return validationFailedResponse('No file provided')
     }
-
-    // Validate file size (e.g., 10MB limit)
-    const maxSize = 10 * 1024 * 1024 // 10MB
-    if (file.size > maxSize) {
-      return NextResponse.json({ error: 'File too large' }, { status: 400 })
+    if (!SOURCE_CONTENT_TYPES.includes(file.type)) {
+      return validationFailedResponse('Invalid file type', 415)
+    }
+    if (file.size > MAX_SOURCE_BYTES) {
+      return validationFailedResponse('File too large', 413)
     }
 
-    // TODO: Upload to your preferred storage solution
-    // Examples:
-    // - Cloudinary
-    // - AWS S3
-    // - Supabase Storage
-    // - Vercel Blob
-    
-    // For now, return a mock response
-    const mockUrl = `https://cdn.scenescout.com/uploads/${Date.now()}-${file.name}`
-    
+    const variant = await transformImage(Buffer.from(await file.arrayBuffer()), {
+      width: VARIANT_WIDTHS[VARIANT_WIDTHS.length - 1],
+      quality: UPLOAD_QUALITY,
+      format: 'webp',
+    })
+    const url = await saveUpload(variant, user.id)
+
     return NextResponse.json({
-      url: mockUrl,
-      width: 1200, // These would come from actual image processing
-      height: 800,
-      size: file.size,
-      format: file.type,
+      success: true,
+      url,
+      width: variant.width,
+      height: variant.height,
+      size: variant.body.length,
+      format: CONTENT_TYPES[variant.format],
     })
   } catch (error) {
-    console.error('Image upload error:', error)
-    return NextResponse.json(
-      { error: 'Upload failed' },
-      { status: 500 }
-    )
+    if (error instanceof ImageError) return imageErrorResponse(error)
+    console.error('❌ Image upload error:', error)
+    return safeErrorResponse(error, 'Upload failed')
   }
-}
\ No newline at end of file
+}
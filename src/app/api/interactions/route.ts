@@ -0,0 +1,186 @@
+export const dynamic = 'force-dynamic'
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { getRequestUser } from '@/lib/supabase-server'
+import { validateRequestBody, safeErrorResponse, checkRateLimit } from '@/lib/validation/api-validator'
+import { recordInteractions, loadInteractionHistory, deleteInteractionHistory } from '@/lib/tracking/service'
+import { INTERACTION_TYPES, type InteractionRecord } from '@/lib/tracking/history'
+
+const keySchema = z.string().min(1).max(200)
+const eventIdSchema = z.string().min(1).max(500)
+const occurredAtSchema = z.number().int().positive()
+
+// Event fields arrive as null when the event had none (no venue, no price)
+function optionalField<T extends z.ZodTypeAny>(schema: T) {
+  return schema.nullish().transform(value => value ?? undefined)
+}
+
+// Validation schema for one interaction record
+const recordSchema = z.discriminatedUnion('kind', [
+  z.object({
+    key: keySchema,
+    kind: z.literal('interaction'),
+    occurredAt: occurredAtSchema,
+    event: z.object({
+      id: optionalField(z.string().max(200)),
+      type: z.enum(INTERACTION_TYPES),
+      eventId: optionalField(z.string().max(500)),
+      category: optionalField(z.string().max(100)),
+      query: optionalField(z.string().max(500)),
+      price: optionalField(z.number()),
+      venue: optionalField(z.string().max(500)),
+      venueId: optionalField(z.string().max(100)),
+      performer: optionalField(z.string().max(200)),
+      distance: optionalField(z.number()),
+      count: optionalField(z.number()),
+      timestamp: occurredAtSchema,
+      sessionId: z.string().max(200),
+    }).passthrough(),
+  }),
+  z.object({
+    key: keySchema,
+    kind: z.literal('vote'),
+    occurredAt: occurredAtSchema,
+    eventId: eventIdSchema,
+    vote: z.enum(['up', 'down']).nullable(),
+  }),
+  z.object({
+    key: keySchema,
+    kind: z.literal('seen'),
+    occurredAt: occurredAtSchema,
+    eventId: eventIdSchema,
+    source: z.enum(['view', 'click', 'detail']),
+  }),
+])
+
+// Records are validated one by one, so a single bad record cannot hold
+// back the rest of a device's outbox
+const ingestSchema = z.object({
+  records: z.array(z.unknown()).max(200, 'Too many records in one batch'),
+})
+
+// Rate limit: devices flush on a timer and when the tab is hidden
+const INTERACTIONS_RATE_LIMIT = {
+  maxRequests: 60,
+  windowMs: 60 * 1000,
+}
+
+/**
+ * POST /api/interactions
+ * Ingest a batch of interaction records; replayed keys are acknowledged
+ * without being stored twice. Invalid records are acknowledged too, and
+ * dropped, so the device stops resending them.
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const rateLimitResult = await checkRateLimit(request, 'interactions', INTERACTIONS_RATE_LIMIT)
+    if (!rateLimitResult.allowed) {
+      return rateLimitResult.response!
+    }
+
+    const user = await getRequestUser(request)
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const validation = await validateRequestBody(request, ingestSchema)
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: validation.error,
+          timestamp: new Date().toISOString(),
+        },
+        { status: validation.status || 400 }
+      )
+    }
+
+    const valid: InteractionRecord[] = []
+    const rejected: string[] = []
+    for (const record of validation.data!.records) {
+      const parsed = recordSchema.safeParse(record)
+      if (parsed.success) {
+        valid.push(parsed.data)
+        continue
+      }
+      const key = keySchema.safeParse((record as { key?: unknown } | null)?.key)
+      if (key.success) rejected.push(key.data)
+    }
+
+    if (rejected.length > 0) {
+      console.warn(`⚠️ Dropped ${rejected.length} invalid interaction records for user ${user.id}`)
+    }
+
+    const acknowledged = await recordInteractions(user.id, valid)
+
+    return NextResponse.json({
+      success: true,
+      acknowledged: [...acknowledged, ...rejected],
+      rejected
+    })
+
+  } catch (error) {
+    console.error('❌ Interaction ingest error:', error)
+    return safeErrorResponse(error, 'Failed to record interactions')
+  }
+}
+
+/**
+ * GET /api/interactions
+ * The user's interactions, votes and seen events merged across devices
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const rateLimitResult = await checkRateLimit(request, 'interactions', INTERACTIONS_RATE_LIMIT)
+    if (!rateLimitResult.allowed) {
+      return rateLimitResult.response!
+    }
+
+    const user = await getRequestUser(request)
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const history = await loadInteractionHistory(user.id)
+
+    return NextResponse.json({
+      success: true,
+      ...history
+    })
+
+  } catch (error) {
+    console.error('❌ Interaction history error:', error)
+    return safeErrorResponse(error, 'Failed to load interaction history')
+  }
+}
+
+/**
+ * DELETE /api/interactions
+ * Erase the user's synced history (analytics opt-out)
+ */
+export async function DELETE(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request)
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    await deleteInteractionHistory(user.id)
+    console.log(`✅ Deleted interaction history for user ${user.id}`)
+
+    return NextResponse.json({ success: true })
+
+  } catch (error) {
+    console.error('❌ Interaction history delete error:', error)
+    return safeErrorResponse(error, 'Failed to delete interaction history')
+  }
+}
@@ -0,0 +1,68 @@
+export const dynamic = 'force-dynamic'
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { getRequestUser } from '@/lib/supabase-server'
+import { validateRequestBody, safeErrorResponse } from '@/lib/validation/api-validator'
+import { followPerformer, getPerformer, unfollowPerformer } from '@/lib/performers/service'
+import { performerIdSchema, performerNotFoundResponse } from '@/lib/performers/http'
+import { authRequiredResponse, validationFailedResponse } from '@/lib/plans/http'
+
+// Validation schema for following (city: where to announce new dates)
+const followSchema = z.object({
+  city: z.string().trim().min(1).max(100, 'City too long').nullable().optional(),
+})
+
+/**
+ * POST /api/performers/[id]/follow
+ * Follow a performer, or change the city new dates are announced for
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await getRequestUser(request)
+    if (!user) return authRequiredResponse()
+
+    const validation = await validateRequestBody(request, followSchema)
+    if (!validation.success) {
+      return validationFailedResponse(validation.error, validation.status)
+    }
+
+    const performer = performerIdSchema.safeParse(params.id).success ? await getPerformer(params.id) : null
+    if (!performer) return performerNotFoundResponse()
+
+    const { follow, followerCount } = await followPerformer(user.id, performer.id, validation.data!.city ?? null)
+
+    return NextResponse.json({ success: true, follow, followerCount })
+
+  } catch (error) {
+    console.error('❌ Follow performer error:', error)
+    return safeErrorResponse(error, 'Failed to follow performer')
+  }
+}
+
+/**
+ * DELETE /api/performers/[id]/follow
+ * Stop following a performer
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await getRequestUser(request)
+    if (!user) return authRequiredResponse()
+
+    const performer = performerIdSchema.safeParse(params.id).success ? await getPerformer(params.id) : null
+    if (!performer) return performerNotFoundResponse()
+
+    const followerCount = await unfollowPerformer(user.id, performer.id)
+
+    return NextResponse.json({ success: true, followerCount })
+
+  } catch (error) {
+    console.error('❌ Unfollow performer error:', error)
+    return safeErrorResponse(error, 'Failed to unfollow performer')
+  }
+}
@@ -0,0 +1,38 @@
+export const dynamic = 'force-dynamic'
+import { NextRequest, NextResponse } from 'next/server'
+import { getRequestUser } from '@/lib/supabase-server'
+import { safeErrorResponse } from '@/lib/validation/api-validator'
+import { getFollow, getPerformer, listUpcomingShows } from '@/lib/performers/service'
+import { performerIdSchema, performerNotFoundResponse } from '@/lib/performers/http'
+
+/**
+ * GET /api/performers/[id]
+ * Performer (by id or normalized name) with upcoming shows, and whether the
+ * caller follows them
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const performer = performerIdSchema.safeParse(params.id).success ? await getPerformer(params.id) : null
+    if (!performer) return performerNotFoundResponse()
+
+    const user = await getRequestUser(request)
+    const [shows, follow] = await Promise.all([
+      listUpcomingShows(performer.id),
+      user ? getFollow(user.id, performer.id) : Promise.resolve(null)
+    ])
+
+    return NextResponse.json({
+      success: true,
+      performer,
+      shows,
+      follow
+    })
+
+  } catch (error) {
+    console.error('❌ Performer error:', error)
+    return safeErrorResponse(error, 'Failed to load performer')
+  }
+}
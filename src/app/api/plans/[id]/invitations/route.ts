@@ -0,0 +1,60 @@
+export const dynamic = 'force-dynamic'
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { getRequestUser } from '@/lib/supabase-server'
+import { validateRequestBody, checkRateLimit } from '@/lib/validation/api-validator'
+import { createInvitation } from '@/lib/plans/service'
+import { authRequiredResponse, planErrorResponse, validationFailedResponse } from '@/lib/plans/http'
+
+const inviteSchema = z.object({
+  email: z.string().email('Invalid email'),
+  role: z.enum(['editor', 'viewer']).optional(),
+  message: z.string().max(500, 'Message too long').optional(),
+})
+
+// Rate limit: 10 invitations per minute
+const INVITE_RATE_LIMIT = {
+  maxRequests: 10,
+  windowMs: 60 * 1000,
+}
+
+/**
+ * POST /api/plans/[id]/invitations
+ * Create an invitation link for the plan (owner only)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const rateLimitResult = await checkRateLimit(request, 'plan-invitations', INVITE_RATE_LIMIT)
+    if (!rateLimitResult.allowed) {
+      return rateLimitResult.response!
+    }
+
+    const user = await getRequestUser(request)
+    if (!user) return authRequiredResponse()
+
+    const validation = await validateRequestBody(request, inviteSchema)
+    if (!validation.success) {
+      return validationFailedResponse(validation.error, validation.status)
+    }
+
+    const { email, role, message } = validation.data!
+    const invitation = await createInvitation(params.id, user.id, { email, role: role || 'viewer', message })
+    const inviteUrl = `${request.nextUrl.origin}/plan/invite/${invitation.invitation_token}`
+
+    return NextResponse.json({
+      success: true,
+      invitation: {
+        id: invitation.id,
+        email: invitation.email,
+        role: invitation.role,
+        expires_at: invitation.expires_at,
+      },
+      inviteUrl,
+    }, { status: 201 })
+  } catch (error) {
+    return planErrorResponse(error, 'Failed to create invitation')
+  }
+}
@@ -0,0 +1,56 @@
+export const dynamic = 'force-dynamic'
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { getRequestUser } from '@/lib/supabase-server'
+import { validateRequestBody } from '@/lib/validation/api-validator'
+import { removePlanItem, updatePlanItem } from '@/lib/plans/service'
+import { authRequiredResponse, planErrorResponse, validationFailedResponse } from '@/lib/plans/http'
+
+const updateItemSchema = z.object({
+  notes: z.string().max(2000, 'Notes too long').nullable(),
+})
+
+/**
+ * PATCH /api/plans/[id]/items/[itemId]
+ * Edit an item's notes (owner or editor)
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string; itemId: string } }
+) {
+  try {
+    const user = await getRequestUser(request)
+    if (!user) return authRequiredResponse()
+
+    const validation = await validateRequestBody(request, updateItemSchema)
+    if (!validation.success) {
+      return validationFailedResponse(validation.error, validation.status)
+    }
+
+    const item = await updatePlanItem(params.id, params.itemId, user.id, validation.data!)
+
+    return NextResponse.json({ success: true, item })
+  } catch (error) {
+    return planErrorResponse(error, 'Failed to update plan item')
+  }
+}
+
+/**
+ * DELETE /api/plans/[id]/items/[itemId]
+ * Remove an item from the plan (owner or editor)
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string; itemId: string } }
+) {
+  try {
+    const user = await getRequestUser(request)
+    if (!user) return authRequiredResponse()
+
+    await removePlanItem(params.id, params.itemId, user.id)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    return planErrorResponse(error, 'Failed to remove plan item')
+  }
+}
@@ -0,0 +1,70 @@
+export const dynamic = 'force-dynamic'
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { getRequestUser } from '@/lib/supabase-server'
+import { validateRequestBody } from '@/lib/validation/api-validator'
+import { addPlanItemFromSavedEvent, reorderPlanItems } from '@/lib/plans/service'
+import { authRequiredResponse, planErrorResponse, validationFailedResponse } from '@/lib/plans/http'
+
+const addItemSchema = z.object({
+  eventId: z.string()
+    .min(1, 'Event ID required')
+    .max(500, 'Event ID too long'),
+  notes: z.string().max(2000, 'Notes too long').optional(),
+  eventData: z.object({}).passthrough().optional(), // Snapshot for saves not yet synced
+})
+
+const reorderSchema = z.object({
+  itemIds: z.array(z.string().uuid('Invalid item ID')).max(200, 'Too many items'),
+})
+
+/**
+ * POST /api/plans/[id]/items
+ * Add one of the caller's saved events to the plan (owner or editor)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await getRequestUser(request)
+    if (!user) return authRequiredResponse()
+
+    const validation = await validateRequestBody(request, addItemSchema)
+    if (!validation.success) {
+      return validationFailedResponse(validation.error, validation.status)
+    }
+
+    const { eventId, notes, eventData } = validation.data!
+    const item = await addPlanItemFromSavedEvent(params.id, user.id, eventId, { notes, eventData })
+
+    return NextResponse.json({ success: true, item }, { status: 201 })
+  } catch (error) {
+    return planErrorResponse(error, 'Failed to add event to plan')
+  }
+}
+
+/**
+ * PATCH /api/plans/[id]/items
+ * Reorder items; body lists every item id in the new order (owner or editor)
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await getRequestUser(request)
+    if (!user) return authRequiredResponse()
+
+    const validation = await validateRequestBody(request, reorderSchema)
+    if (!validation.success) {
+      return validationFailedResponse(validation.error, validation.status)
+    }
+
+    await reorderPlanItems(params.id, user.id, validation.data!.itemIds)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    return planErrorResponse(error, 'Failed to reorder plan')
+  }
+}
@@ -0,0 +1,81 @@
+export const dynamic = 'force-dynamic'
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { getRequestUser } from '@/lib/supabase-server'
+import { validateRequestBody } from '@/lib/validation/api-validator'
+import { deletePlan, getPlanDetails, updatePlan } from '@/lib/plans/service'
+import { authRequiredResponse, planErrorResponse, validationFailedResponse } from '@/lib/plans/http'
+
+const updatePlanSchema = z.object({
+  name: z.string().trim().min(1, 'Plan name required').max(255, 'Plan name too long').optional(),
+  description: z.string().max(2000, 'Description too long').nullable().optional(),
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD').nullable().optional(),
+  city: z.string().max(100, 'City too long').nullable().optional(),
+  is_public: z.boolean().optional(),
+  notes: z.string().max(5000, 'Notes too long').nullable().optional(),
+})
+
+/**
+ * GET /api/plans/[id]
+ * Plan with ordered items, collaborators and the caller's role
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await getRequestUser(request)
+    if (!user) return authRequiredResponse()
+
+    const plan = await getPlanDetails(params.id, user.id)
+
+    return NextResponse.json({ success: true, plan })
+  } catch (error) {
+    return planErrorResponse(error, 'Failed to fetch plan')
+  }
+}
+
+/**
+ * PATCH /api/plans/[id]
+ * Edit plan details (owner or editor)
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await getRequestUser(request)
+    if (!user) return authRequiredResponse()
+
+    const validation = await validateRequestBody(request, updatePlanSchema)
+    if (!validation.success) {
+      return validationFailedResponse(validation.error, validation.status)
+    }
+
+    const plan = await updatePlan(params.id, user.id, validation.data!)
+
+    return NextResponse.json({ success: true, plan })
+  } catch (error) {
+    return planErrorResponse(error, 'Failed to update plan')
+  }
+}
+
+/**
+ * DELETE /api/plans/[id]
+ * Soft-delete a plan (owner only)
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await getRequestUser(request)
+    if (!user) return authRequiredResponse()
+
+    await deletePlan(params.id, user.id)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    return planErrorResponse(error, 'Failed to delete plan')
+  }
+}
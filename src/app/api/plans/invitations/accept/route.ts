@@ -0,0 +1,44 @@
+export const dynamic = 'force-dynamic'
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { getRequestUser } from '@/lib/supabase-server'
+import { validateRequestBody, checkRateLimit } from '@/lib/validation/api-validator'
+import { acceptInvitation } from '@/lib/plans/service'
+import { authRequiredResponse, planErrorResponse, validationFailedResponse } from '@/lib/plans/http'
+
+const acceptSchema = z.object({
+  token: z.string().min(16, 'Invalid token').max(100, 'Invalid token'),
+})
+
+// Rate limit: 10 attempts per minute to slow token guessing
+const ACCEPT_RATE_LIMIT = {
+  maxRequests: 10,
+  windowMs: 60 * 1000,
+}
+
+/**
+ * POST /api/plans/invitations/accept
+ * Redeem an invitation token and join the plan as a collaborator
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const rateLimitResult = await checkRateLimit(request, 'plan-invitations-accept', ACCEPT_RATE_LIMIT)
+    if (!rateLimitResult.allowed) {
+      return rateLimitResult.response!
+    }
+
+    const user = await getRequestUser(request)
+    if (!user) return authRequiredResponse()
+
+    const validation = await validateRequestBody(request, acceptSchema)
+    if (!validation.success) {
+      return validationFailedResponse(validation.error, validation.status)
+    }
+
+    const { planId, role } = await acceptInvitation(validation.data!.token, user.id)
+
+    return NextResponse.json({ success: true, planId, role })
+  } catch (error) {
+    return planErrorResponse(error, 'Failed to accept invitation')
+  }
+}
@@ -0,0 +1,66 @@
+export const dynamic = 'force-dynamic'
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { getRequestUser } from '@/lib/supabase-server'
+import { validateRequestBody, checkRateLimit } from '@/lib/validation/api-validator'
+import { createPlan, listPlans } from '@/lib/plans/service'
+import { authRequiredResponse, planErrorResponse, validationFailedResponse } from '@/lib/plans/http'
+
+const createPlanSchema = z.object({
+  name: z.string().trim().min(1, 'Plan name required').max(255, 'Plan name too long'),
+  description: z.string().max(2000, 'Description too long').optional(),
+  date: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD').optional(),
+  city: z.string().max(100, 'City too long').optional(),
+  is_public: z.boolean().optional(),
+  notes: z.string().max(5000, 'Notes too long').optional(),
+})
+
+// Rate limit: 20 plan writes per minute
+const PLANS_RATE_LIMIT = {
+  maxRequests: 20,
+  windowMs: 60 * 1000,
+}
+
+/**
+ * GET /api/plans
+ * List plans the caller owns or collaborates on
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request)
+    if (!user) return authRequiredResponse()
+
+    const plans = await listPlans(user.id)
+
+    return NextResponse.json({ success: true, plans, count: plans.length })
+  } catch (error) {
+    return planErrorResponse(error, 'Failed to fetch plans')
+  }
+}
+
+/**
+ * POST /api/plans
+ * Create a new plan owned by the caller
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const rateLimitResult = await checkRateLimit(request, 'plans', PLANS_RATE_LIMIT)
+    if (!rateLimitResult.allowed) {
+      return rateLimitResult.response!
+    }
+
+    const user = await getRequestUser(request)
+    if (!user) return authRequiredResponse()
+
+    const validation = await validateRequestBody(request, createPlanSchema)
+    if (!validation.success) {
+      return validationFailedResponse(validation.error, validation.status)
+    }
+
+    const plan = await createPlan(user.id, validation.data!)
+
+    return NextResponse.json({ success: true, plan }, { status: 201 })
+  } catch (error) {
+    return planErrorResponse(error, 'Failed to create plan')
+  }
+}
@@ -79,7 +79,7 @@ export async function POST(request: NextRequest) {
       }
 
       // Invalidate user's reminders cache
-      invalidateCache(CACHE_KEYS.USER_REMINDERS(userId))
+      await invalidateCache(CACHE_KEYS.USER_REMINDERS(userId))
 
       console.log(`✅ Reminder updated: ${data.id} (${queryTime}ms)`)
       return NextResponse.json({
@@ -117,7 +117,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Invalidate user's reminders cache
-    invalidateCache(CACHE_KEYS.USER_REMINDERS(userId))
+    await invalidateCache(CACHE_KEYS.USER_REMINDERS(userId))
 
     console.log(`✅ Reminder created: ${data.id} (${queryTime}ms)`)
 
@@ -177,7 +177,7 @@ export async function DELETE(request: NextRequest) {
 
     // Invalidate user's reminders cache if we found the user_id
     if (reminder?.user_id) {
-      invalidateCache(CACHE_KEYS.USER_REMINDERS(reminder.user_id))
+      await invalidateCache(CACHE_KEYS.USER_REMINDERS(reminder.user_id))
     }
 
     console.log('✅ Reminder deleted:', reminderId)
@@ -212,7 +212,7 @@ export async function GET(request: NextRequest) {
 
     // Check cache first
     const cacheKey = CACHE_KEYS.USER_REMINDERS(userId)
-    const cached = queryCache.get<any>(cacheKey)
+    const cached = await queryCache.get<any>(cacheKey)
 
     if (cached) {
       return NextResponse.json({
@@ -249,7 +249,7 @@ export async function GET(request: NextRequest) {
     const response = { reminders: data }
 
     // Cache the result for 60 seconds
-    queryCache.set(cacheKey, response, CACHE_TTL.USER_REMINDERS)
+    await queryCache.set(cacheKey, response, CACHE_TTL.USER_REMINDERS)
 
     return NextResponse.json({
       success: true,
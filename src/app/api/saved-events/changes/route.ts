@@ -0,0 +1,91 @@
+export const dynamic = 'force-dynamic'
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { getRequestUser } from '@/lib/supabase-server'
+import { validateRequestBody, safeErrorResponse, checkRateLimit } from '@/lib/validation/api-validator'
+import { listUnseenSavedEventChanges, markSavedEventChangesSeen } from '@/lib/saved/service'
+
+// Validation schema for acknowledging changes (omit eventIds to clear all)
+const markSeenSchema = z.object({
+  eventIds: z.array(z.string().min(1).max(500)).max(200).optional(),
+})
+
+// Rate limit: the badge polls alongside saved events sync
+const SAVED_EVENT_CHANGES_RATE_LIMIT = {
+  maxRequests: 30,
+  windowMs: 60 * 1000,
+}
+
+/**
+ * GET /api/saved-events/changes
+ * Unseen changes to the user's saved events
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const rateLimitResult = await checkRateLimit(request, 'saved-event-changes', SAVED_EVENT_CHANGES_RATE_LIMIT)
+    if (!rateLimitResult.allowed) {
+      return rateLimitResult.response!
+    }
+
+    const user = await getRequestUser(request)
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const changes = await listUnseenSavedEventChanges(user.id)
+
+    return NextResponse.json({
+      success: true,
+      changes,
+      count: changes.length
+    })
+
+  } catch (error) {
+    console.error('❌ Saved event changes error:', error)
+    return safeErrorResponse(error, 'Failed to load saved event changes')
+  }
+}
+
+/**
+ * POST /api/saved-events/changes
+ * Mark changes as seen
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const rateLimitResult = await checkRateLimit(request, 'saved-event-changes', SAVED_EVENT_CHANGES_RATE_LIMIT)
+    if (!rateLimitResult.allowed) {
+      return rateLimitResult.response!
+    }
+
+    const user = await getRequestUser(request)
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const validation = await validateRequestBody(request, markSeenSchema)
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: validation.error,
+          timestamp: new Date().toISOString(),
+        },
+        { status: validation.status || 400 }
+      )
+    }
+
+    await markSavedEventChangesSeen(user.id, validation.data!.eventIds)
+
+    return NextResponse.json({ success: true })
+
+  } catch (error) {
+    console.error('❌ Saved event changes error:', error)
+    return safeErrorResponse(error, 'Failed to update saved event changes')
+  }
+}
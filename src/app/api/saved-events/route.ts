@@ -83,6 +83,8 @@ export async function POST(request: NextRequest) {
         user_id: userId,
         event_id: eventId,
         event_data: sanitizedEventData,
+        changed_at: new Date().toISOString(),
+        deleted_at: null,
         updated_at: new Date().toISOString()
       }, {
         onConflict: 'user_id,event_id'
@@ -104,7 +106,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Invalidate user's saved events cache
-    invalidateCache(CACHE_KEYS.SAVED_EVENTS(userId))
+    await invalidateCache(CACHE_KEYS.SAVED_EVENTS(userId))
 
     console.log(`✅ Event saved to database: ${eventId} for user ${userId} (${queryTime}ms)`)
 
@@ -156,7 +158,7 @@ export async function DELETE(request: NextRequest) {
     }
 
     // Invalidate user's saved events cache
-    invalidateCache(CACHE_KEYS.SAVED_EVENTS(userId))
+    await invalidateCache(CACHE_KEYS.SAVED_EVENTS(userId))
 
     console.log(`✅ Event unsaved from database: ${eventId}`)
 
@@ -191,7 +193,7 @@ export async function GET(request: NextRequest) {
 
     // Check cache first
     const cacheKey = CACHE_KEYS.SAVED_EVENTS(userId)
-    const cached = queryCache.get<any>(cacheKey)
+    const cached = await queryCache.get<any>(cacheKey)
 
     if (cached) {
       return NextResponse.json({
@@ -209,6 +211,7 @@ export async function GET(request: NextRequest) {
       .from('saved_events')
       .select('id, user_id, event_id, event_data, created_at, updated_at')
       .eq('user_id', userId)
+      .is('deleted_at', null)
       .order('created_at', { ascending: false })
       .limit(100)
 
@@ -236,7 +239,7 @@ export async function GET(request: NextRequest) {
     }
 
     // Cache the result for 30 seconds
-    queryCache.set(cacheKey, response, CACHE_TTL.SAVED_EVENTS)
+    await queryCache.set(cacheKey, response, CACHE_TTL.SAVED_EVENTS)
 
     return NextResponse.json({
       success: true,
@@ -0,0 +1,79 @@
+export const dynamic = 'force-dynamic'
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { getRequestUser } from '@/lib/supabase-server'
+import { validateRequestBody, safeErrorResponse, checkRateLimit } from '@/lib/validation/api-validator'
+import { applySavedEventOperations, listSyncedSavedEvents } from '@/lib/saved/service'
+
+// Validation schema for a batch of queued save/unsave operations
+const syncSchema = z.object({
+  operations: z.array(z.object({
+    id: z.string().min(1).max(100),
+    op: z.enum(['save', 'unsave']),
+    eventId: z.string()
+      .min(1, 'Event ID required')
+      .max(500, 'Event ID too long'),
+    eventData: z.object({}).passthrough().optional(),
+    changedAt: z.string().datetime({ offset: true }),
+  })).max(200, 'Too many operations in one sync'),
+})
+
+// Rate limit: devices sync on focus and every minute, plus bursts after reconnecting
+const SAVED_EVENTS_SYNC_RATE_LIMIT = {
+  maxRequests: 30,
+  windowMs: 60 * 1000,
+}
+
+/**
+ * POST /api/saved-events/sync
+ * Apply a device's queued operations (last writer wins) and return the
+ * account's current saved events
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const rateLimitResult = await checkRateLimit(request, 'saved-events-sync', SAVED_EVENTS_SYNC_RATE_LIMIT)
+    if (!rateLimitResult.allowed) {
+      return rateLimitResult.response!
+    }
+
+    const user = await getRequestUser(request)
+    if (!user) {
+      return NextResponse.json(
+        { success: false, error: 'Authentication required' },
+        { status: 401 }
+      )
+    }
+
+    const validation = await validateRequestBody(request, syncSchema)
+    if (!validation.success) {
+      return NextResponse.json(
+        {
+          success: false,
+          error: validation.error,
+          timestamp: new Date().toISOString(),
+        },
+        { status: validation.status || 400 }
+      )
+    }
+
+    const { operations } = validation.data!
+    const applied = await applySavedEventOperations(user.id, operations)
+    const events = await listSyncedSavedEvents(user.id)
+
+    if (applied > 0) {
+      console.log(`✅ Synced ${applied} saved event change(s) for user ${user.id}`)
+    }
+
+    return NextResponse.json({
+      success: true,
+      applied,
+      acknowledged: operations.map(op => op.id),
+      events,
+      serverTime: new Date().toISOString()
+    })
+
+  } catch (error) {
+    console.error('❌ Saved events sync error:', error)
+    return safeErrorResponse(error, 'Failed to sync saved events')
+  }
+}
@@ -0,0 +1,67 @@
+export const dynamic = 'force-dynamic'
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { getRequestUser } from '@/lib/supabase-server'
+import { validateRequestBody, safeErrorResponse } from '@/lib/validation/api-validator'
+import { deleteSavedSearch, updateSavedSearch } from '@/lib/saved-searches/service'
+import { criteriaSchema, frequencySchema, savedSearchIdSchema, savedSearchNotFoundResponse } from '@/lib/saved-searches/http'
+import { authRequiredResponse, validationFailedResponse } from '@/lib/plans/http'
+
+const updateSavedSearchSchema = z.object({
+  name: z.string().trim().min(1, 'Name required').max(100, 'Name too long').optional(),
+  criteria: criteriaSchema.optional(),
+  frequency: frequencySchema.optional(),
+})
+
+/**
+ * PATCH /api/saved-searches/[id]
+ * Rename a saved search, change its criteria or how often it alerts
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await getRequestUser(request)
+    if (!user) return authRequiredResponse()
+
+    const validation = await validateRequestBody(request, updateSavedSearchSchema)
+    if (!validation.success) {
+      return validationFailedResponse(validation.error, validation.status)
+    }
+
+    const search = savedSearchIdSchema.safeParse(params.id).success
+      ? await updateSavedSearch(user.id, params.id, validation.data!)
+      : null
+    if (!search) return savedSearchNotFoundResponse()
+
+    return NextResponse.json({ success: true, search })
+
+  } catch (error) {
+    console.error('❌ Update saved search error:', error)
+    return safeErrorResponse(error, 'Failed to update saved search')
+  }
+}
+
+/**
+ * DELETE /api/saved-searches/[id]
+ * Delete a saved search
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const user = await getRequestUser(request)
+    if (!user) return authRequiredResponse()
+
+    const deleted = savedSearchIdSchema.safeParse(params.id).success && await deleteSavedSearch(user.id, params.id)
+    if (!deleted) return savedSearchNotFoundResponse()
+
+    return NextResponse.json({ success: true })
+
+  } catch (error) {
+    console.error('❌ Delete saved search error:', error)
+    return safeErrorResponse(error, 'Failed to delete saved search')
+  }
+}
@@ -0,0 +1,67 @@
+export const dynamic = 'force-dynamic'
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { getRequestUser } from '@/lib/supabase-server'
+import { validateRequestBody, safeErrorResponse } from '@/lib/validation/api-validator'
+import { createSavedSearch, listSavedSearches } from '@/lib/saved-searches/service'
+import { MAX_SAVED_SEARCHES, criteriaSchema, frequencySchema } from '@/lib/saved-searches/http'
+import { authRequiredResponse, validationFailedResponse } from '@/lib/plans/http'
+
+// Validation schema for saving a search
+const createSavedSearchSchema = z.object({
+  name: z.string().trim().min(1, 'Name required').max(100, 'Name too long'),
+  criteria: criteriaSchema,
+  frequency: frequencySchema.optional(),
+})
+
+/**
+ * GET /api/saved-searches
+ * The caller's saved searches
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request)
+    if (!user) return authRequiredResponse()
+
+    const searches = await listSavedSearches(user.id)
+
+    return NextResponse.json({ success: true, searches })
+
+  } catch (error) {
+    console.error('❌ Saved searches error:', error)
+    return safeErrorResponse(error, 'Failed to load saved searches')
+  }
+}
+
+/**
+ * POST /api/saved-searches
+ * Save a search to be alerted about new matches
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request)
+    if (!user) return authRequiredResponse()
+
+    const validation = await validateRequestBody(request, createSavedSearchSchema)
+    if (!validation.success) {
+      return validationFailedResponse(validation.error, validation.status)
+    }
+
+    const existing = await listSavedSearches(user.id)
+    if (existing.length >= MAX_SAVED_SEARCHES) {
+      return NextResponse.json(
+        { success: false, error: `You can save up to ${MAX_SAVED_SEARCHES} searches. Delete one in Settings first.` },
+        { status: 409 }
+      )
+    }
+
+    const { name, criteria, frequency } = validation.data!
+    const search = await createSavedSearch(user.id, { name, criteria, frequency: frequency ?? 'daily' })
+
+    return NextResponse.json({ success: true, search }, { status: 201 })
+
+  } catch (error) {
+    console.error('❌ Save search error:', error)
+    return safeErrorResponse(error, 'Failed to save search')
+  }
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { scraperHealthChecker } from '@/lib/scraping/health-check'
+import { getScraperScoreboard } from '@/lib/scraping/health/service'
 
 export const dynamic = 'force-dynamic'
 
@@ -7,13 +8,32 @@ export async function GET(request: NextRequest) {
   try {
     console.log('🏥 Running scraper health check...')
     
-    const report = await scraperHealthChecker.checkAllSources()
+    const [report, scoreboard] = await Promise.all([
+      scraperHealthChecker.checkAllSources(),
+      // Rolling scores need the database; the live probe works without it
+      getScraperScoreboard().catch(error => {
+        console.warn('Scraper scoreboard unavailable:', error)
+        return null
+      })
+    ])
     
     console.log(scraperHealthChecker.formatReport(report))
     
     return NextResponse.json({
       success: true,
-      ...report
+      ...report,
+      scoreboard: scoreboard && {
+        generatedAt: scoreboard.generatedAt,
+        quarantined: scoreboard.quarantined,
+        sources: scoreboard.sources.map(entry => ({
+          source: entry.source,
+          runs: entry.runs,
+          successRate: entry.successRate,
+          zeroResultStreak: entry.zeroResultStreak,
+          p95LatencyMs: entry.latency.p95Ms,
+          quarantined: Boolean(entry.quarantine)
+        }))
+      }
     })
   } catch (error) {
     console.error('Health check error:', error)
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { dedupeEvents } from '@/lib/deduplication/event-deduper'
+import { collapseSeries } from '@/lib/series/collapse'
 import { normalizePrice } from '@/lib/pricing/price-normalizer'
 import { searchQuerySchema } from '@/lib/validation/schemas'
 import { validateAndRateLimit, safeErrorResponse, logValidationFailure } from '@/lib/validation/api-validator'
@@ -69,7 +70,8 @@ export async function GET(request: NextRequest) {
           // Convert scraped events to standard format
           const convertedEvents = ebData.events.map((event: any) => ({
             ...event,
-            id: `live_${event.title.replace(/[^\w]/g, '_').toLowerCase()}`,
+            // The date keeps each occurrence of a recurring event distinct
+            id: `live_${event.title.replace(/[^\w]/g, '_').toLowerCase()}${event.date ? `_${event.date}` : ''}`,
             event_date: event.date,
             start_time: event.time,
             source: 'eventbrite',
@@ -117,7 +119,10 @@ export async function GET(request: NextRequest) {
       })
     
     // Apply deduplication by default (preserving Ticketmaster as preferred source)
-    const finalEvents = dedupeEvents(sortedEvents, { preserveProvider: 'ticketmaster' })
+    const dedupedEvents = dedupeEvents(sortedEvents, { preserveProvider: 'ticketmaster' })
+
+    // Show a recurring event once, as its next occurrence
+    const finalEvents = collapseSeries(dedupedEvents)
     
     // Apply limit after deduplication
     const limitedEvents = finalEvents.slice(0, limit)
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { getSceneScoutCategory } from '@/lib/api/category-mappings'
+import { performersFromTicketmaster } from '@/lib/performers/extract'
 
 // Force dynamic rendering - don't pre-render at build time
 export const dynamic = 'force-dynamic'
@@ -46,6 +47,15 @@ interface TicketmasterEvent {
         line1?: string
       }
     }>
+    attractions?: Array<{
+      id: string
+      name: string
+      images?: Array<{ url: string; width: number }>
+      externalLinks?: {
+        musicbrainz?: Array<{ id: string }>
+      }
+      classifications?: Array<{ genre?: { name: string } }>
+    }>
   }
   priceRanges?: Array<{
     min: number
@@ -146,6 +156,7 @@ function convertTicketmasterEvent(tmEvent: TicketmasterEvent): any {
     image_url: finalImageUrl,
     external_url: tmEvent.url,
     external_id: tmEvent.id,
+    performers: performersFromTicketmaster(tmEvent),
     source: 'ticketmaster',
     provider: 'Ticketmaster',
     official: true,
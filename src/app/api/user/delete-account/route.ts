@@ -95,6 +95,13 @@ export async function POST(req: NextRequest) {
       .eq('user_id', user.id)
     deletionResults.push_subscriptions = pushSubsError ? 'failed' : 'success'
 
+    // Delete synced interaction history (votes, seen events, tracking)
+    const { error: interactionsError } = await supabaseAdmin
+      .from('interaction_records')
+      .delete()
+      .eq('user_id', user.id)
+    deletionResults.interaction_records = interactionsError ? 'failed' : 'success'
+
     // Anonymize beta feedback (don't delete, keep for analytics)
     const { error: feedbackError } = await supabaseAdmin
       .from('beta_feedback')
@@ -1,9 +1,9 @@
 export const dynamic = 'force-dynamic'
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient, SupabaseClient } from '@supabase/supabase-js'
+import { getCacheStore } from '@/lib/cache'
 
-// Rate limiting storage
-const rateLimitStore = new Map<string, number>()
+// Rate limiting: one export per client per window, tracked in the shared cache store
 const RATE_LIMIT_WINDOW_MS = 60 * 60 * 1000 // 1 hour
 
 function getRateLimitKey(req: NextRequest): string {
@@ -13,33 +13,21 @@ function getRateLimitKey(req: NextRequest): string {
   return `export:${ip}`
 }
 
-function checkRateLimit(key: string): boolean {
-  const now = Date.now()
-  const lastRequest = rateLimitStore.get(key)
-
-  if (lastRequest && now - lastRequest < RATE_LIMIT_WINDOW_MS) {
-    return false
+async function checkRateLimit(key: string): Promise<boolean> {
+  try {
+    // Only the first request in a window creates the key
+    return await getCacheStore().add(`ratelimit:${key}`, Date.now().toString(), RATE_LIMIT_WINDOW_MS)
+  } catch (error) {
+    console.warn('⚠️ Export rate limit check failed (allowing request):', error)
+    return true
   }
-
-  rateLimitStore.set(key, now)
-  return true
 }
 
-// Cleanup old rate limit records
-setInterval(() => {
-  const now = Date.now()
-  for (const [key, timestamp] of rateLimitStore.entries()) {
-    if (now - timestamp > RATE_LIMIT_WINDOW_MS) {
-      rateLimitStore.delete(key)
-    }
-  }
-}, 15 * 60 * 1000) // Every 15 minutes
-
 export async function POST(req: NextRequest) {
   try {
     // Check rate limit
     const rateLimitKey = getRateLimitKey(req)
-    if (!checkRateLimit(rateLimitKey)) {
+    if (!(await checkRateLimit(rateLimitKey))) {
       return NextResponse.json(
         { error: 'You can only export your data once per hour. Please try again later.' },
         { status: 429 }
@@ -122,6 +110,14 @@ export async function POST(req: NextRequest) {
       .eq('user_id', user.id)
     exportData.data.push_subscriptions = pushSubs || []
 
+    // Fetch synced interaction history (votes, seen events, tracking)
+    const { data: interactions } = await supabase
+      .from('interaction_records')
+      .select('kind, event_id, payload, occurred_at')
+      .eq('user_id', user.id)
+      .order('occurred_at', { ascending: false })
+    exportData.data.interaction_records = interactions || []
+
     // Fetch beta feedback (if exists)
     const { data: feedback } = await supabase
       .from('beta_feedback')
@@ -0,0 +1,32 @@
+export const dynamic = 'force-dynamic'
+import { NextRequest, NextResponse } from 'next/server'
+import { safeErrorResponse } from '@/lib/validation/api-validator'
+import { getVenue, listVenueShows } from '@/lib/venues/registry-service'
+import { venueIdSchema, venueNotFoundResponse } from '@/lib/venues/http'
+
+/**
+ * GET /api/venues/[id]
+ * Canonical venue with the names it is listed under and its upcoming
+ * events. Ids of merged venues return the venue they were merged into.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { id: string } }
+) {
+  try {
+    const venue = venueIdSchema.safeParse(params.id).success ? await getVenue(params.id) : null
+    if (!venue) return venueNotFoundResponse()
+
+    const shows = await listVenueShows(venue.id)
+
+    return NextResponse.json({
+      success: true,
+      venue,
+      shows
+    })
+
+  } catch (error) {
+    console.error('❌ Venue error:', error)
+    return safeErrorResponse(error, 'Failed to load venue')
+  }
+}
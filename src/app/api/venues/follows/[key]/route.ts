@@ -0,0 +1,33 @@
+export const dynamic = 'force-dynamic'
+import { NextRequest, NextResponse } from 'next/server'
+import { getRequestUser } from '@/lib/supabase-server'
+import { safeErrorResponse } from '@/lib/validation/api-validator'
+import { unfollowVenue } from '@/lib/venues/service'
+import { venueKeySchema } from '@/lib/venues/http'
+import { authRequiredResponse, validationFailedResponse } from '@/lib/plans/http'
+
+/**
+ * DELETE /api/venues/follows/[key]
+ * Stop following a venue
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { key: string } }
+) {
+  try {
+    const user = await getRequestUser(request)
+    if (!user) return authRequiredResponse()
+
+    if (!venueKeySchema.safeParse(params.key).success) {
+      return validationFailedResponse('Invalid venue')
+    }
+
+    await unfollowVenue(user.id, params.key)
+
+    return NextResponse.json({ success: true })
+
+  } catch (error) {
+    console.error('❌ Unfollow venue error:', error)
+    return safeErrorResponse(error, 'Failed to unfollow venue')
+  }
+}
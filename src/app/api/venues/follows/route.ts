@@ -0,0 +1,59 @@
+export const dynamic = 'force-dynamic'
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { getRequestUser } from '@/lib/supabase-server'
+import { validateRequestBody, safeErrorResponse } from '@/lib/validation/api-validator'
+import { followVenue, listFollowedVenues } from '@/lib/venues/service'
+import { venueKey } from '@/lib/venues/follows'
+import { authRequiredResponse, validationFailedResponse } from '@/lib/plans/http'
+
+// Validation schema for following (the venue as listed on an event)
+const followSchema = z.object({
+  venueName: z.string().trim().min(1).max(200, 'Venue name too long')
+    .refine(name => venueKey(name).length > 0, 'Venue name must contain letters or digits'),
+  city: z.string().trim().min(1).max(100, 'City too long').nullable().optional(),
+})
+
+/**
+ * GET /api/venues/follows
+ * Venues the caller follows
+ */
+export async function GET(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request)
+    if (!user) return authRequiredResponse()
+
+    const follows = await listFollowedVenues(user.id)
+
+    return NextResponse.json({ success: true, follows })
+
+  } catch (error) {
+    console.error('❌ Followed venues error:', error)
+    return safeErrorResponse(error, 'Failed to load followed venues')
+  }
+}
+
+/**
+ * POST /api/venues/follows
+ * Follow a venue to hear about events newly listed there
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const user = await getRequestUser(request)
+    if (!user) return authRequiredResponse()
+
+    const validation = await validateRequestBody(request, followSchema)
+    if (!validation.success) {
+      return validationFailedResponse(validation.error, validation.status)
+    }
+
+    const { venueName, city } = validation.data!
+    const follow = await followVenue(user.id, venueName, city ?? null)
+
+    return NextResponse.json({ success: true, follow })
+
+  } catch (error) {
+    console.error('❌ Follow venue error:', error)
+    return safeErrorResponse(error, 'Failed to follow venue')
+  }
+}
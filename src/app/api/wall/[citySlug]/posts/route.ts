@@ -0,0 +1,74 @@
+export const dynamic = 'force-dynamic'
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { getRequestUser } from '@/lib/supabase-server'
+import { validateRequestBody, checkRateLimit } from '@/lib/validation/api-validator'
+import { createPost, listPosts } from '@/lib/wall/service'
+import { wallErrorResponse } from '@/lib/wall/http'
+import { authRequiredResponse, validationFailedResponse } from '@/lib/plans/http'
+
+const createPostSchema = z.object({
+  content: z.string().trim().min(1, 'Post cannot be empty').max(2000, 'Post too long'),
+  image_url: z.string().url('Invalid image URL').optional(),
+  event_id: z.string().max(255).optional(),
+  event_title: z.string().max(255).optional(),
+  venue_name: z.string().max(255).optional(),
+})
+
+// Rate limit: 10 post attempts per minute (per-user caps are enforced in the service)
+const POSTS_RATE_LIMIT = {
+  maxRequests: 10,
+  windowMs: 60 * 1000,
+}
+
+/**
+ * GET /api/wall/[citySlug]/posts?sort=latest|popular&before=<iso>
+ * Visible posts for a city; signed-in callers also get liked_by_me
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { citySlug: string } }
+) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const sort = searchParams.get('sort') === 'popular' ? 'popular' : 'latest'
+    const before = searchParams.get('before') || undefined
+    const user = await getRequestUser(request)
+
+    const posts = await listPosts(params.citySlug, { sort, before, viewerId: user?.id })
+
+    return NextResponse.json({ success: true, posts, count: posts.length })
+  } catch (error) {
+    return wallErrorResponse(error, 'Failed to fetch wall posts')
+  }
+}
+
+/**
+ * POST /api/wall/[citySlug]/posts
+ * Post to a city's wall
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { citySlug: string } }
+) {
+  try {
+    const rateLimitResult = await checkRateLimit(request, 'wall-posts', POSTS_RATE_LIMIT)
+    if (!rateLimitResult.allowed) {
+      return rateLimitResult.response!
+    }
+
+    const user = await getRequestUser(request)
+    if (!user) return authRequiredResponse()
+
+    const validation = await validateRequestBody(request, createPostSchema)
+    if (!validation.success) {
+      return validationFailedResponse(validation.error, validation.status)
+    }
+
+    const post = await createPost(user, params.citySlug, validation.data!)
+
+    return NextResponse.json({ success: true, post }, { status: 201 })
+  } catch (error) {
+    return wallErrorResponse(error, 'Failed to create wall post')
+  }
+}
@@ -0,0 +1,60 @@
+/**
+ * City wall live updates over Server-Sent Events
+ * Relays wall_activity messages from the realtime event stream for one city.
+ */
+
+import { NextRequest } from 'next/server'
+import { realtimeEventStream } from '@/lib/pipeline/realtime-stream'
+
+export const dynamic = 'force-dynamic'
+
+const HEARTBEAT_MS = 30000
+
+/**
+ * GET /api/wall/[citySlug]/stream
+ * Each SSE message's data is a WallStreamUpdate
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { citySlug: string } }
+) {
+  if (!realtimeEventStream.isStreamConnected()) {
+    try {
+      await realtimeEventStream.connect()
+    } catch (error) {
+      return Response.json(
+        { success: false, error: 'Live updates are unavailable' },
+        { status: 503 }
+      )
+    }
+  }
+
+  const encoder = new TextEncoder()
+
+  const stream = new ReadableStream({
+    start(controller) {
+      const subscriptionId = realtimeEventStream.createCityWallStream(params.citySlug, (message) => {
+        controller.enqueue(encoder.encode(`data: ${JSON.stringify(message.data.update)}\n\n`))
+      })
+
+      // Comment lines keep proxies from closing an idle connection
+      const heartbeatInterval = setInterval(() => {
+        controller.enqueue(encoder.encode(': heartbeat\n\n'))
+      }, HEARTBEAT_MS)
+
+      request.signal.addEventListener('abort', () => {
+        clearInterval(heartbeatInterval)
+        realtimeEventStream.unsubscribe(subscriptionId)
+        controller.close()
+      })
+    }
+  })
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache',
+      'Connection': 'keep-alive'
+    }
+  })
+}
@@ -0,0 +1,65 @@
+export const dynamic = 'force-dynamic'
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { getRequestUser } from '@/lib/supabase-server'
+import { validateRequestBody, checkRateLimit } from '@/lib/validation/api-validator'
+import { createComment, listComments } from '@/lib/wall/service'
+import { wallErrorResponse } from '@/lib/wall/http'
+import { authRequiredResponse, validationFailedResponse } from '@/lib/plans/http'
+
+const createCommentSchema = z.object({
+  content: z.string().trim().min(1, 'Comment cannot be empty').max(500, 'Comment too long'),
+})
+
+// Rate limit: 20 comment attempts per minute
+const COMMENTS_RATE_LIMIT = {
+  maxRequests: 20,
+  windowMs: 60 * 1000,
+}
+
+/**
+ * GET /api/wall/posts/[postId]/comments
+ * Visible comments on a post, oldest first
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { postId: string } }
+) {
+  try {
+    const comments = await listComments(params.postId)
+
+    return NextResponse.json({ success: true, comments, count: comments.length })
+  } catch (error) {
+    return wallErrorResponse(error, 'Failed to fetch comments')
+  }
+}
+
+/**
+ * POST /api/wall/posts/[postId]/comments
+ * Comment on a post
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { postId: string } }
+) {
+  try {
+    const rateLimitResult = await checkRateLimit(request, 'wall-comments', COMMENTS_RATE_LIMIT)
+    if (!rateLimitResult.allowed) {
+      return rateLimitResult.response!
+    }
+
+    const user = await getRequestUser(request)
+    if (!user) return authRequiredResponse()
+
+    const validation = await validateRequestBody(request, createCommentSchema)
+    if (!validation.success) {
+      return validationFailedResponse(validation.error, validation.status)
+    }
+
+    const comment = await createComment(user, params.postId, validation.data!.content)
+
+    return NextResponse.json({ success: true, comment }, { status: 201 })
+  } catch (error) {
+    return wallErrorResponse(error, 'Failed to add comment')
+  }
+}
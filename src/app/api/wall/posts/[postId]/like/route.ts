@@ -0,0 +1,48 @@
+export const dynamic = 'force-dynamic'
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { getRequestUser } from '@/lib/supabase-server'
+import { validateRequestBody, checkRateLimit } from '@/lib/validation/api-validator'
+import { setLike } from '@/lib/wall/service'
+import { wallErrorResponse } from '@/lib/wall/http'
+import { authRequiredResponse, validationFailedResponse } from '@/lib/plans/http'
+
+const likeSchema = z.object({
+  liked: z.boolean(),
+})
+
+// Rate limit: 60 like toggles per minute
+const LIKES_RATE_LIMIT = {
+  maxRequests: 60,
+  windowMs: 60 * 1000,
+}
+
+/**
+ * POST /api/wall/posts/[postId]/like
+ * Like ({ liked: true }) or unlike a post
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { postId: string } }
+) {
+  try {
+    const rateLimitResult = await checkRateLimit(request, 'wall-likes', LIKES_RATE_LIMIT)
+    if (!rateLimitResult.allowed) {
+      return rateLimitResult.response!
+    }
+
+    const user = await getRequestUser(request)
+    if (!user) return authRequiredResponse()
+
+    const validation = await validateRequestBody(request, likeSchema)
+    if (!validation.success) {
+      return validationFailedResponse(validation.error, validation.status)
+    }
+
+    const result = await setLike(user.id, params.postId, validation.data!.liked)
+
+    return NextResponse.json({ success: true, ...result })
+  } catch (error) {
+    return wallErrorResponse(error, 'Failed to update like')
+  }
+}
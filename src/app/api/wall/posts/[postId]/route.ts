@@ -0,0 +1,26 @@
+export const dynamic = 'force-dynamic'
+import { NextRequest, NextResponse } from 'next/server'
+import { getRequestUser } from '@/lib/supabase-server'
+import { removeOwnPost } from '@/lib/wall/service'
+import { wallErrorResponse } from '@/lib/wall/http'
+import { authRequiredResponse } from '@/lib/plans/http'
+
+/**
+ * DELETE /api/wall/posts/[postId]
+ * Remove the caller's own post
+ */
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: { postId: string } }
+) {
+  try {
+    const user = await getRequestUser(request)
+    if (!user) return authRequiredResponse()
+
+    await removeOwnPost(user.id, params.postId)
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    return wallErrorResponse(error, 'Failed to remove wall post')
+  }
+}
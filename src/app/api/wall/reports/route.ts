@@ -0,0 +1,48 @@
+export const dynamic = 'force-dynamic'
+import { NextRequest, NextResponse } from 'next/server'
+import { z } from 'zod'
+import { getRequestUser } from '@/lib/supabase-server'
+import { validateRequestBody, checkRateLimit } from '@/lib/validation/api-validator'
+import { reportContent } from '@/lib/wall/service'
+import { wallErrorResponse } from '@/lib/wall/http'
+import { authRequiredResponse, validationFailedResponse } from '@/lib/plans/http'
+
+const reportSchema = z.object({
+  postId: z.string().uuid('Invalid post ID'),
+  commentId: z.string().uuid('Invalid comment ID').optional(),
+  reason: z.enum(['spam', 'harassment', 'inappropriate', 'misinformation', 'other']),
+  details: z.string().max(1000, 'Details too long').optional(),
+})
+
+// Rate limit: 10 reports per minute
+const REPORTS_RATE_LIMIT = {
+  maxRequests: 10,
+  windowMs: 60 * 1000,
+}
+
+/**
+ * POST /api/wall/reports
+ * Report a post or comment for moderation
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const rateLimitResult = await checkRateLimit(request, 'wall-reports', REPORTS_RATE_LIMIT)
+    if (!rateLimitResult.allowed) {
+      return rateLimitResult.response!
+    }
+
+    const user = await getRequestUser(request)
+    if (!user) return authRequiredResponse()
+
+    const validation = await validateRequestBody(request, reportSchema)
+    if (!validation.success) {
+      return validationFailedResponse(validation.error, validation.status)
+    }
+
+    const result = await reportContent(user.id, validation.data!)
+
+    return NextResponse.json({ success: true, ...result }, { status: 201 })
+  } catch (error) {
+    return wallErrorResponse(error, 'Failed to submit report')
+  }
+}
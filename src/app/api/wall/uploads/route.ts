@@ -0,0 +1,74 @@
+export const dynamic = 'force-dynamic'
+import { randomUUID } from 'crypto'
+import { NextRequest, NextResponse } from 'next/server'
+import { getRequestUser, getServiceSupabaseClient } from '@/lib/supabase-server'
+import { checkRateLimit } from '@/lib/validation/api-validator'
+import { MAX_WALL_IMAGE_BYTES, detectImageType } from '@/lib/wall/moderation'
+import { wallErrorResponse } from '@/lib/wall/http'
+import { authRequiredResponse } from '@/lib/plans/http'
+
+const WALL_IMAGES_BUCKET = 'wall-images'
+
+// Rate limit: 10 uploads per 10 minutes
+const UPLOADS_RATE_LIMIT = {
+  maxRequests: 10,
+  windowMs: 10 * 60 * 1000,
+}
+
+/**
+ * POST /api/wall/uploads
+ * Upload a post image (multipart field "file"); returns the public URL to
+ * attach to the post
+ */
+export async function POST(request: NextRequest) {
+  try {
+    const rateLimitResult = await checkRateLimit(request, 'wall-uploads', UPLOADS_RATE_LIMIT)
+    if (!rateLimitResult.allowed) {
+      return rateLimitResult.response!
+    }
+
+    const user = await getRequestUser(request)
+    if (!user) return authRequiredResponse()
+
+    const formData = await request.formData()
+    const file = formData.get('file')
+
+    if (!(file instanceof Blob)) {
+      return NextResponse.json(
+        { success: false, error: 'An image file is required' },
+        { status: 400 }
+      )
+    }
+
+    if (file.size > MAX_WALL_IMAGE_BYTES) {
+      return NextResponse.json(
+        { success: false, error: 'Images must be 5MB or smaller' },
+        { status: 413 }
+      )
+    }
+
+    const bytes = new Uint8Array(await file.arrayBuffer())
+    const image = detectImageType(bytes)
+    if (!image) {
+      return NextResponse.json(
+        { success: false, error: 'Only JPEG, PNG, GIF and WebP images are supported' },
+        { status: 415 }
+      )
+    }
+
+    const supabase = getServiceSupabaseClient()
+    const path = `${user.id}/${randomUUID()}.${image.extension}`
+
+    const { error } = await supabase.storage
+      .from(WALL_IMAGES_BUCKET)
+      .upload(path, bytes, { contentType: image.type, upsert: false })
+
+    if (error) throw error
+
+    const { data } = supabase.storage.from(WALL_IMAGES_BUCKET).getPublicUrl(path)
+
+    return NextResponse.json({ success: true, url: data.publicUrl }, { status: 201 })
+  } catch (error) {
+    return wallErrorResponse(error, 'Failed to upload image')
+  }
+}
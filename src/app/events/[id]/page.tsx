@@ -3,6 +3,7 @@
 import { useState, useEffect } from 'react'
 import { useParams, useRouter } from 'next/navigation'
 import Image from 'next/image'
+import Link from 'next/link'
 import { AppLayout } from '@/components/layout/AppLayout'
 import { Button } from '@/components/ui/button'
 import { Calendar, Clock, MapPin, Users, DollarSign, ExternalLink, ArrowLeft, Share, Heart } from 'lucide-react'
@@ -11,6 +12,7 @@ import { cn } from '@/lib/utils'
 import { isSaved, toggleSaved, getSavedIds } from '@/lib/saved/store'
 import { trackEvent, isTrackingEnabled } from '@/lib/tracking/client'
 import { generateICS } from '@/lib/calendar/export'
+import { FollowVenueButton } from '@/components/venues/FollowVenueButton'
 import toast from 'react-hot-toast'
 
 export default function EventDetailPage() {
@@ -38,7 +40,9 @@ export default function EventDetailPage() {
         eventId: event.id,
         category: event.category || 'unknown',
         source: event.source || 'unknown',
-        venue: event.venue_name
+        venue: event.venue_name,
+        venueId: event.venue_id || undefined,
+        performer: event.performers?.[0]?.slug
       })
     }
   }, [event])
@@ -148,7 +152,9 @@ export default function EventDetailPage() {
           eventId: event.id,
           category: event.category || 'unknown',
           price: event.price_min,
-          venue: event.venue_name
+          venue: event.venue_name,
+          venueId: event.venue_id || undefined,
+          performer: event.performers?.[0]?.slug
         })
       }
     }
@@ -268,7 +274,8 @@ export default function EventDetailPage() {
         trackEvent('calendar_export', {
           eventId: event.id,
           category: event.category || 'unknown',
-          venue: event.venue_name
+          venue: event.venue_name,
+          venueId: event.venue_id || undefined
         })
       }
 
@@ -489,6 +496,24 @@ export default function EventDetailPage() {
           <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
             {/* Main Content */}
             <div className="lg:col-span-2 space-y-8">
+              {/* Lineup */}
+              {event.performers && event.performers.length > 0 && (
+                <div>
+                  <h2 className="text-2xl font-bold mb-4">Lineup</h2>
+                  <div className="flex flex-wrap gap-2">
+                    {event.performers.map(performer => (
+                      <Link
+                        key={performer.slug}
+                        href={`/performers/${performer.id || performer.slug}`}
+                        className="bg-white/10 hover:bg-white/20 px-3 py-1.5 rounded-full text-sm transition-colors"
+                      >
+                        {performer.role === 'headliner' ? '🎤 ' : ''}{performer.name}
+                      </Link>
+                    ))}
+                  </div>
+                </div>
+              )}
+
               {/* Description */}
               <div>
                 <h2 className="text-2xl font-bold mb-4">About This Event</h2>
@@ -664,7 +689,13 @@ export default function EventDetailPage() {
                 </h3>
                 
                 <div className="space-y-2">
-                  <div className="font-medium">{event.venue_name || 'Venue TBA'}</div>
+                  {event.venue_id && event.venue_name ? (
+                    <Link href={`/venues/${event.venue_id}`} className="font-medium hover:underline">
+                      {event.venue_name}
+                    </Link>
+                  ) : (
+                    <div className="font-medium">{event.venue_name || 'Venue TBA'}</div>
+                  )}
                   {event.venue?.address && (
                     <div className="text-white/60">{event.venue.address}</div>
                   )}
@@ -673,6 +704,15 @@ export default function EventDetailPage() {
                   )}
                 </div>
 
+                {event.venue_name && (
+                  <FollowVenueButton
+                    venueName={event.venue_name}
+                    venueId={event.venue_id}
+                    city={event.city_name || null}
+                    className="mt-4 w-full"
+                  />
+                )}
+
                 {event.venue?.latitude && event.venue?.longitude && (
                   <Button
                     asChild
@@ -6,6 +6,7 @@ import { AppLayout } from '@/components/layout/AppLayout'
 import { trackEvent, readInteractions, isTrackingEnabled } from '@/lib/tracking/client'
 import { computeAffinity, reorderRows } from '@/lib/tracking/affinity'
 import { PriceBadge } from '@/components/events/PriceBadge'
+import { SeriesBadge } from '@/components/events/SeriesBadge'
 import { manageDynamicRails, isDynamicCategoriesEnabled } from '@/lib/personalization/dynamic-categories'
 import { Sidebar } from '@/components/nav/Sidebar'
 import { SearchBar } from '@/components/search/SearchBar'
@@ -947,6 +948,8 @@ export default function HomePage() {
                               📍 {event.venue_name}
                             </p>
 
+                            <SeriesBadge series={event.series} className="mb-1" />
+
                             {event.description && (
                               <p className="text-[10px] sm:text-xs text-gray-300 mb-1 sm:mb-2 line-clamp-2">
                                 {event.description}
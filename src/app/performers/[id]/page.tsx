@@ -0,0 +1,114 @@
+import { notFound } from 'next/navigation'
+import Link from 'next/link'
+import { Calendar, MapPin, Ticket } from 'lucide-react'
+import { Card, CardContent } from '@/components/ui/card'
+import { Badge } from '@/components/ui/badge'
+import BlurImage from '@/components/BlurImage'
+import { FollowPerformerButton } from '@/components/performers/FollowPerformerButton'
+import { performerIdSchema } from '@/lib/performers/http'
+import { getPerformer, listUpcomingShows } from '@/lib/performers/service'
+import type { PerformerShow } from '@/lib/performers/types'
+
+export const dynamic = 'force-dynamic'
+
+interface PerformerPageProps {
+  params: {
+    id: string
+  }
+}
+
+function formatShowDate(show: PerformerShow): string {
+  if (!show.date) return 'Date TBA'
+  // Parse as a local date to avoid timezone shifts
+  const [year, month, day] = show.date.split('-').map(Number)
+  const date = new Date(year, month - 1, day).toLocaleDateString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric'
+  })
+  return show.time ? `${date} · ${show.time.slice(0, 5)}` : date
+}
+
+export default async function PerformerPage({ params }: PerformerPageProps) {
+  const performer = performerIdSchema.safeParse(params.id).success ? await getPerformer(params.id) : null
+
+  if (!performer) {
+    notFound()
+  }
+
+  const shows = await listUpcomingShows(performer.id)
+  const cities = Array.from(new Set(shows.map(show => show.cityName).filter((name): name is string => !!name)))
+
+  return (
+    <div className="min-h-screen bg-muted/30">
+      <div className="max-w-3xl mx-auto px-4 py-8">
+        {/* Header */}
+        <div className="flex flex-col sm:flex-row gap-6 mb-8">
+          {performer.imageUrl && (
+            <div className="relative w-40 h-40 rounded-xl overflow-hidden flex-shrink-0">
+              <BlurImage src={performer.imageUrl} alt={performer.name} fill className="object-cover" />
+            </div>
+          )}
+          <div className="flex-1 space-y-3">
+            <h1 className="text-3xl font-bold">{performer.name}</h1>
+            {performer.genres.length > 0 && (
+              <div className="flex flex-wrap gap-1">
+                {performer.genres.map(genre => (
+                  <Badge key={genre} variant="secondary">{genre}</Badge>
+                ))}
+              </div>
+            )}
+            <FollowPerformerButton performer={performer} cities={cities} />
+          </div>
+        </div>
+
+        {/* Upcoming shows */}
+        <h2 className="text-xl font-semibold mb-4">Upcoming Shows</h2>
+        {shows.length === 0 ? (
+          <Card>
+            <CardContent className="p-6 text-center text-muted-foreground">
+              No upcoming dates listed. Follow {performer.name} to hear when they announce one.
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-3">
+            {shows.map(show => (
+              <Card key={show.eventId}>
+                <CardContent className="p-4 flex items-center justify-between gap-4">
+                  <div className="min-w-0">
+                    <Link href={`/events/${show.eventId}`} className="font-medium hover:underline">
+                      {show.title}
+                    </Link>
+                    <p className="text-sm text-muted-foreground flex items-center gap-1 mt-1">
+                      <Calendar className="w-3.5 h-3.5" />
+                      {formatShowDate(show)}
+                      {show.role === 'support' && ' · Supporting'}
+                    </p>
+                    {(show.venueName || show.cityName) && (
+                      <p className="text-sm text-muted-foreground flex items-center gap-1">
+                        <MapPin className="w-3.5 h-3.5" />
+                        {[show.venueName, show.cityName].filter(Boolean).join(', ')}
+                      </p>
+                    )}
+                  </div>
+                  {show.externalUrl && (
+                    <a
+                      href={show.externalUrl}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="flex items-center gap-1 text-sm text-purple-600 hover:underline flex-shrink-0"
+                    >
+                      <Ticket className="w-4 h-4" />
+                      Tickets
+                    </a>
+                  )}
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
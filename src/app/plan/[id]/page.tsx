@@ -1,145 +1,144 @@
-import { notFound } from 'next/navigation'
+'use client'
+
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { useParams } from 'next/navigation'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Button } from '@/components/ui/button'
 import { Badge } from '@/components/ui/badge'
-import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar'
+import { Input } from '@/components/ui/input'
 import { Separator } from '@/components/ui/separator'
-import { Calendar, MapPin, Clock, Users, Share, Edit, Plus, ExternalLink } from 'lucide-react'
+import { Calendar, MapPin, Users, Plus, ExternalLink, ArrowUp, ArrowDown, Trash2, Share, AlertTriangle } from 'lucide-react'
 import Link from 'next/link'
+import toast from 'react-hot-toast'
 import BlurImage from '@/components/BlurImage'
+import { getSavedEvents } from '@/lib/saved/store'
+import { generateBulkICS } from '@/lib/calendar/export'
+import { canPerform } from '@/lib/plans/permissions'
+import { warningsByEvent, type ItineraryWarning } from '@/lib/plans/itinerary'
+import {
+  addSavedEventToPlan,
+  fetchPlan,
+  invitePlanCollaborator,
+  removePlanItem,
+  reorderPlanItems,
+  updatePlanItemNotes,
+} from '@/lib/plans/client'
+import type { PlanItem, PlanWithDetails } from '@/lib/plans/types'
 
-interface PlanPageProps {
-  params: {
-    id: string
-  }
+function formatEventTime(event: Record<string, any>): string {
+  const date = event.date || event.event_date || event.start_date
+  const time = event.time || event.start_time
+  if (!date) return 'Date TBA'
+  return time ? `${date} ${String(time).slice(0, 5)}` : date
 }
 
-// TODO: Fetch from Supabase
-async function getPlan(id: string) {
-  // Mock data - replace with Supabase query
-  const plans = {
-    'plan-1': {
-      id: 'plan-1',
-      title: 'NYC Weekend Adventure',
-      description: 'A perfect weekend exploring the best of Manhattan nightlife and culture. This plan includes jazz clubs, rooftop dining, art galleries, and hidden speakeasy bars.',
-      coverImage: '/plans/nyc-weekend.jpg',
-      city: 'New York',
-      citySlug: 'new-york',
-      duration: '2 days',
-      status: 'active',
-      isPublic: true,
-      isOwner: true,
-      createdAt: '2024-01-10',
-      updatedAt: '2024-01-12',
-      author: {
-        id: 'user1',
-        name: 'John Doe',
-        username: '@johndoe',
-        avatar: '/avatars/john.jpg'
-      },
-      events: [
-        {
-          id: '1',
-          title: 'Jazz at Blue Note',
-          venue: 'Blue Note Jazz Club',
-          address: '131 W 3rd St, New York, NY',
-          time: 'Friday 8:00 PM',
-          date: '2024-01-19',
-          price: 45,
-          image: '/events/jazz.jpg',
-          description: 'Intimate jazz performance featuring local and touring artists',
-          website: 'https://bluenotejazz.com'
-        },
-        {
-          id: '2',
-          title: 'Rooftop Brunch & Views',
-          venue: 'Sky Terrace',
-          address: '123 High Line, New York, NY', 
-          time: 'Saturday 11:00 AM',
-          date: '2024-01-20',
-          price: 65,
-          image: '/events/brunch.jpg',
-          description: 'Elevated brunch experience with panoramic city views',
-          website: 'https://skyterrace.nyc'
-        },
-        {
-          id: '3',
-          title: 'Brooklyn Art Walk',
-          venue: 'DUMBO Art District',
-          address: 'Brooklyn Bridge Park, NY',
-          time: 'Saturday 3:00 PM', 
-          date: '2024-01-20',
-          price: 0,
-          image: '/events/art.jpg',
-          description: 'Self-guided tour of local galleries and street art',
-          website: null
-        }
-      ],
-      collaborators: [
-        { id: '2', name: 'Sarah Chen', username: '@sarahc', avatar: '/avatars/sarah.jpg', role: 'editor' },
-        { id: '3', name: 'Mike Rodriguez', username: '@mikerod', avatar: '/avatars/mike.jpg', role: 'viewer' }
-      ],
-      notes: 'Remember to book reservations in advance. Check weather for outdoor events.'
-    }
-  }
-  
-  return plans[id as keyof typeof plans] || null
-}
+function PlanItemCard({
+  item,
+  warnings,
+  canEdit,
+  isFirst,
+  isLast,
+  onMove,
+  onRemove,
+  onSaveNotes,
+}: {
+  item: PlanItem
+  warnings: ItineraryWarning[]
+  canEdit: boolean
+  isFirst: boolean
+  isLast: boolean
+  onMove: (direction: -1 | 1) => void
+  onRemove: () => void
+  onSaveNotes: (notes: string) => void
+}) {
+  const event = item.event_data
+  const [notes, setNotes] = useState(item.notes || '')
+  const price = event.price_min ?? event.price
 
-function EventCard({ event }: { event: any }) {
   return (
     <Card className="hover:shadow-md transition-shadow">
       <div className="flex">
-        <div className="relative w-32 h-32 flex-shrink-0">
-          <BlurImage
-            src={event.image}
-            alt={event.title}
-            fill
-            className="object-cover rounded-l-lg"
-          />
-        </div>
+        {event.image_url && (
+          <div className="relative w-32 h-32 flex-shrink-0">
+            <BlurImage
+              src={event.image_url}
+              alt={event.title}
+              fill
+              className="object-cover rounded-l-lg"
+            />
+          </div>
+        )}
         <div className="flex-1 p-4">
           <div className="flex items-start justify-between mb-2">
             <div>
               <h4 className="font-semibold">{event.title}</h4>
-              <p className="text-sm text-muted-foreground">{event.venue}</p>
+              <p className="text-sm text-muted-foreground">{event.venue_name || event.venue?.name}</p>
             </div>
-            {event.price > 0 && (
-              <Badge variant="outline">${event.price}</Badge>
-            )}
-            {event.price === 0 && (
-              <Badge variant="secondary">Free</Badge>
+            {typeof price === 'number' && (
+              price > 0
+                ? <Badge variant="outline">${price}</Badge>
+                : <Badge variant="secondary">Free</Badge>
             )}
           </div>
-          
+
           <div className="space-y-1 text-sm text-muted-foreground mb-3">
             <div className="flex items-center">
               <Calendar className="w-3 h-3 mr-2" />
-              {event.time}
-            </div>
-            <div className="flex items-center">
-              <MapPin className="w-3 h-3 mr-2" />
-              {event.address}
+              {formatEventTime(event)}
             </div>
+            {(event.address || event.venue?.address) && (
+              <div className="flex items-center">
+                <MapPin className="w-3 h-3 mr-2" />
+                {event.address || event.venue?.address}
+              </div>
+            )}
           </div>
-          
-          <p className="text-xs text-muted-foreground mb-3 line-clamp-2">
-            {event.description}
-          </p>
-          
+
+          {warnings.map((warning, index) => (
+            <div
+              key={`${warning.type}-${index}`}
+              className={`flex items-start text-xs mb-2 ${warning.severity === 'error' ? 'text-red-600' : 'text-amber-600'}`}
+            >
+              <AlertTriangle className="w-3 h-3 mr-1 mt-0.5 flex-shrink-0" />
+              <span>{warning.message}</span>
+            </div>
+          ))}
+
+          {canEdit ? (
+            <Input
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              onBlur={() => notes !== (item.notes || '') && onSaveNotes(notes)}
+              placeholder="Add a note for the group"
+              maxLength={2000}
+              className="mb-3 h-8 text-xs"
+            />
+          ) : item.notes ? (
+            <p className="text-xs text-muted-foreground mb-3">{item.notes}</p>
+          ) : null}
+
           <div className="flex items-center gap-2">
-            {event.website && (
+            {(event.external_url || event.ticket_url) && (
               <Button variant="outline" size="sm" asChild>
-                <a href={event.website} target="_blank" rel="noopener noreferrer">
+                <a href={event.external_url || event.ticket_url} target="_blank" rel="noopener noreferrer">
                   <ExternalLink className="w-3 h-3 mr-1" />
                   Visit
                 </a>
               </Button>
             )}
-            <Button variant="ghost" size="sm">
-              <Edit className="w-3 h-3 mr-1" />
-              Edit
-            </Button>
+            {canEdit && (
+              <>
+                <Button variant="ghost" size="sm" disabled={isFirst} onClick={() => onMove(-1)} aria-label="Move up">
+                  <ArrowUp className="w-3 h-3" />
+                </Button>
+                <Button variant="ghost" size="sm" disabled={isLast} onClick={() => onMove(1)} aria-label="Move down">
+                  <ArrowDown className="w-3 h-3" />
+                </Button>
+                <Button variant="ghost" size="sm" onClick={onRemove} aria-label="Remove from plan">
+                  <Trash2 className="w-3 h-3" />
+                </Button>
+              </>
+            )}
           </div>
         </div>
       </div>
@@ -147,77 +146,158 @@ function EventCard({ event }: { event: any }) {
   )
 }
 
-export default async function PlanDetailPage({ params }: PlanPageProps) {
-  const plan = await getPlan(params.id)
-  
-  if (!plan) {
-    notFound()
+export default function PlanDetailPage() {
+  const params = useParams<{ id: string }>()
+  const planId = params?.id ?? ''
+  const [plan, setPlan] = useState<PlanWithDetails | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [showPicker, setShowPicker] = useState(false)
+  const [inviteEmail, setInviteEmail] = useState('')
+  const [inviteRole, setInviteRole] = useState<'editor' | 'viewer'>('viewer')
+  const [inviteUrl, setInviteUrl] = useState<string | null>(null)
+
+  const loadPlan = useCallback(async () => {
+    if (!planId) return
+    try {
+      setPlan(await fetchPlan(planId))
+      setError(null)
+    } catch (err: any) {
+      setError(err.message || 'Failed to load plan')
+    }
+  }, [planId])
+
+  useEffect(() => {
+    loadPlan()
+  }, [loadPlan])
+
+  const canEdit = canPerform(plan?.role ?? null, 'edit_items')
+  const canInvite = canPerform(plan?.role ?? null, 'invite')
+
+  const savedNotInPlan = useMemo(() => {
+    if (!plan) return []
+    const inPlan = new Set(plan.items.map(item => item.event_id))
+    return getSavedEvents().filter(event => event?.id && !inPlan.has(event.id))
+  }, [plan])
+
+  const itemWarnings = useMemo(() => warningsByEvent(plan?.warnings || []), [plan])
+
+  const totalCost = useMemo(() => (plan?.items || []).reduce((sum, item) => {
+    const price = item.event_data.price_min ?? item.event_data.price
+    return sum + (typeof price === 'number' ? price : 0)
+  }, 0), [plan])
+
+  const handleAdd = async (event: any) => {
+    try {
+      await addSavedEventToPlan(planId, event)
+      toast.success('Added to plan')
+      await loadPlan()
+    } catch (err: any) {
+      toast.error(err.message || 'Failed to add event')
+    }
+  }
+
+  const handleMove = async (index: number, direction: -1 | 1) => {
+    if (!plan) return
+    const items = [...plan.items]
+    const [moved] = items.splice(index, 1)
+    items.splice(index + direction, 0, moved)
+
+    // Optimistic reorder; reload on failure to get the server's order back
+    setPlan({ ...plan, items })
+    try {
+      await reorderPlanItems(planId, items.map(item => item.id))
+    } catch (err: any) {
+      toast.error(err.message || 'Failed to reorder')
+      await loadPlan()
+    }
+  }
+
+  const handleRemove = async (itemId: string) => {
+    try {
+      await removePlanItem(planId, itemId)
+      await loadPlan()
+    } catch (err: any) {
+      toast.error(err.message || 'Failed to remove event')
+    }
+  }
+
+  const handleSaveNotes = async (itemId: string, notes: string) => {
+    try {
+      await updatePlanItemNotes(planId, itemId, notes || null)
+    } catch (err: any) {
+      toast.error(err.message || 'Failed to save note')
+    }
+  }
+
+  const handleExport = () => {
+    if (!plan) return
+    const result = generateBulkICS(
+      plan.items.map(item => ({ ...item.event_data, id: item.event_id }) as any),
+      { warnings: plan.warnings }
+    )
+    if (!result.success) {
+      toast.error(result.error || 'Failed to export plan')
+    }
+  }
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault()
+    try {
+      const { inviteUrl } = await invitePlanCollaborator(planId, inviteEmail, inviteRole)
+      setInviteUrl(inviteUrl)
+      setInviteEmail('')
+      await navigator.clipboard?.writeText(inviteUrl).catch(() => {})
+      toast.success('Invite link created')
+    } catch (err: any) {
+      toast.error(err.message || 'Failed to create invite')
+    }
+  }
+
+  if (error) {
+    return (
+      <div className="min-h-screen flex items-center justify-center px-4">
+        <Card className="max-w-md w-full">
+          <CardContent className="py-12 text-center space-y-4">
+            <p className="text-muted-foreground">{error}</p>
+            <Button asChild variant="outline">
+              <Link href="/plan">Back to plans</Link>
+            </Button>
+          </CardContent>
+        </Card>
+      </div>
+    )
   }
 
-  const totalCost = plan.events.reduce((sum, event) => sum + event.price, 0)
+  if (!plan) {
+    return <div className="min-h-screen py-8 px-4 text-muted-foreground">Loading plan...</div>
+  }
 
   return (
     <div className="min-h-screen">
-      {/* Hero Section */}
-      <section className="relative h-80">
-        <BlurImage
-          src={plan.coverImage}
-          alt={plan.title}
-          fill
-          className="object-cover"
-        />
-        <div className="absolute inset-0 bg-black/50" />
-        <div className="relative z-10 h-full flex items-center">
-          <div className="max-w-7xl mx-auto px-4 w-full">
-            <div className="flex items-center justify-between">
-              <div className="text-white space-y-2">
-                <div className="flex items-center space-x-2">
-                  <Badge variant={plan.status === 'active' ? 'default' : 'secondary'}>
-                    {plan.status}
-                  </Badge>
-                  {plan.isPublic && (
-                    <Badge variant="outline" className="bg-white/20 text-white border-white/30">
-                      Public Plan
-                    </Badge>
-                  )}
-                </div>
-                <h1 className="text-4xl md:text-5xl font-bold">{plan.title}</h1>
-                <p className="text-xl max-w-2xl">{plan.description}</p>
-                
-                <div className="flex items-center space-x-6 text-sm pt-4">
-                  <div className="flex items-center">
-                    <MapPin className="w-4 h-4 mr-2" />
-                    <Link href={`/city/${plan.citySlug}`} className="hover:underline">
-                      {plan.city}
-                    </Link>
-                  </div>
-                  <div className="flex items-center">
-                    <Clock className="w-4 h-4 mr-2" />
-                    {plan.duration}
-                  </div>
-                  <div className="flex items-center">
-                    <Calendar className="w-4 h-4 mr-2" />
-                    {plan.events.length} events
-                  </div>
-                  <div className="flex items-center">
-                    <Users className="w-4 h-4 mr-2" />
-                    {plan.collaborators.length + 1} people
-                  </div>
-                </div>
-              </div>
-              
-              <div className="flex flex-col gap-2">
-                {plan.isOwner && (
-                  <Button variant="secondary">
-                    <Edit className="w-4 h-4 mr-2" />
-                    Edit Plan
-                  </Button>
-                )}
-                <Button variant="outline" className="bg-white/10 border-white/20 text-white hover:bg-white hover:text-black">
-                  <Share className="w-4 h-4 mr-2" />
-                  Share
-                </Button>
+      {/* Header */}
+      <section className="border-b">
+        <div className="max-w-7xl mx-auto px-4 py-10 space-y-2">
+          <div className="flex items-center space-x-2">
+            <Badge>{plan.role}</Badge>
+            {plan.is_public && <Badge variant="outline">Public Plan</Badge>}
+          </div>
+          <h1 className="text-4xl md:text-5xl font-bold">{plan.name}</h1>
+          {plan.description && <p className="text-xl max-w-2xl text-muted-foreground">{plan.description}</p>}
+
+          <div className="flex items-center space-x-6 text-sm pt-4 text-muted-foreground">
+            {plan.city && (
+              <div className="flex items-center">
+                <MapPin className="w-4 h-4 mr-2" />
+                {plan.city}
               </div>
+            )}
+            <div className="flex items-center">
+              <Calendar className="w-4 h-4 mr-2" />
+              {plan.items.length} events
+            </div>
+            <div className="flex items-center">
+              <Users className="w-4 h-4 mr-2" />
+              {plan.collaborators.filter(c => c.accepted_at).length + 1} people
             </div>
           </div>
         </div>
@@ -227,27 +307,55 @@ export default async function PlanDetailPage({ params }: PlanPageProps) {
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
           {/* Main Content */}
           <div className="lg:col-span-2 space-y-6">
-            {/* Events */}
             <Card>
               <CardHeader>
                 <div className="flex items-center justify-between">
-                  <CardTitle>Events ({plan.events.length})</CardTitle>
-                  {plan.isOwner && (
-                    <Button variant="outline" size="sm">
+                  <CardTitle>Events ({plan.items.length})</CardTitle>
+                  {canEdit && (
+                    <Button variant="outline" size="sm" onClick={() => setShowPicker(v => !v)}>
                       <Plus className="w-4 h-4 mr-2" />
-                      Add Event
+                      Add Saved Event
                     </Button>
                   )}
                 </div>
               </CardHeader>
               <CardContent className="space-y-4">
-                {plan.events.map((event) => (
-                  <EventCard key={event.id} event={event} />
+                {showPicker && (
+                  <div className="rounded-lg border p-3 space-y-2">
+                    {savedNotInPlan.length === 0 ? (
+                      <p className="text-sm text-muted-foreground">
+                        No saved events to add. Save events from the feed first.
+                      </p>
+                    ) : savedNotInPlan.map(event => (
+                      <div key={event.id} className="flex items-center justify-between text-sm">
+                        <span className="truncate">{event.title}</span>
+                        <Button variant="ghost" size="sm" onClick={() => handleAdd(event)}>
+                          <Plus className="w-3 h-3" />
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {plan.items.length === 0 && (
+                  <p className="text-sm text-muted-foreground">No events in this plan yet.</p>
+                )}
+                {plan.items.map((item, index) => (
+                  <PlanItemCard
+                    key={item.id}
+                    item={item}
+                    warnings={itemWarnings.get(item.event_id) || []}
+                    canEdit={canEdit}
+                    isFirst={index === 0}
+                    isLast={index === plan.items.length - 1}
+                    onMove={(direction) => handleMove(index, direction)}
+                    onRemove={() => handleRemove(item.id)}
+                    onSaveNotes={(notes) => handleSaveNotes(item.id, notes)}
+                  />
                 ))}
               </CardContent>
             </Card>
 
-            {/* Notes */}
             {plan.notes && (
               <Card>
                 <CardHeader>
@@ -262,102 +370,92 @@ export default async function PlanDetailPage({ params }: PlanPageProps) {
 
           {/* Sidebar */}
           <div className="space-y-6">
-            {/* Plan Info */}
             <Card>
               <CardHeader>
                 <CardTitle>Plan Details</CardTitle>
               </CardHeader>
-              <CardContent className="space-y-4">
-                <div>
-                  <h4 className="font-medium text-sm mb-2">Created by</h4>
-                  <div className="flex items-center space-x-2">
-                    <Avatar className="w-8 h-8">
-                      <AvatarImage src={plan.author.avatar} alt={plan.author.name} />
-                      <AvatarFallback>
-                        {plan.author.name.split(' ').map(n => n[0]).join('')}
-                      </AvatarFallback>
-                    </Avatar>
-                    <div>
-                      <p className="font-medium text-sm">{plan.author.name}</p>
-                      <p className="text-xs text-muted-foreground">{plan.author.username}</p>
-                    </div>
-                  </div>
+              <CardContent className="space-y-2 text-sm">
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Created</span>
+                  <span>{new Date(plan.created_at).toLocaleDateString()}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Last Updated</span>
+                  <span>{new Date(plan.updated_at).toLocaleDateString()}</span>
                 </div>
-
                 <Separator />
-
-                <div className="space-y-2 text-sm">
-                  <div className="flex justify-between">
-                    <span className="text-muted-foreground">Created</span>
-                    <span>{new Date(plan.createdAt).toLocaleDateString()}</span>
-                  </div>
-                  <div className="flex justify-between">
-                    <span className="text-muted-foreground">Last Updated</span>
-                    <span>{new Date(plan.updatedAt).toLocaleDateString()}</span>
-                  </div>
-                  <div className="flex justify-between font-medium">
-                    <span className="text-muted-foreground">Estimated Cost</span>
-                    <span>${totalCost}</span>
-                  </div>
+                <div className="flex justify-between font-medium">
+                  <span className="text-muted-foreground">Estimated Cost</span>
+                  <span>${totalCost}</span>
                 </div>
+                {plan.warnings.length > 0 && (
+                  <div className="flex items-center text-amber-600">
+                    <AlertTriangle className="w-4 h-4 mr-2" />
+                    {plan.warnings.length} schedule {plan.warnings.length === 1 ? 'conflict' : 'conflicts'}
+                  </div>
+                )}
+                {plan.items.length > 0 && (
+                  <Button variant="outline" className="w-full justify-start mt-2" onClick={handleExport}>
+                    <Calendar className="w-4 h-4 mr-2" />
+                    Export to Calendar
+                  </Button>
+                )}
               </CardContent>
             </Card>
 
-            {/* Collaborators */}
             <Card>
               <CardHeader>
-                <div className="flex items-center justify-between">
-                  <CardTitle>Collaborators</CardTitle>
-                  {plan.isOwner && (
-                    <Button variant="outline" size="sm">
-                      <Plus className="w-4 h-4" />
-                    </Button>
-                  )}
-                </div>
+                <CardTitle>Collaborators</CardTitle>
               </CardHeader>
-              <CardContent>
-                <div className="space-y-3">
-                  {plan.collaborators.map((collaborator) => (
-                    <div key={collaborator.id} className="flex items-center justify-between">
-                      <div className="flex items-center space-x-2">
-                        <Avatar className="w-8 h-8">
-                          <AvatarImage src={collaborator.avatar} alt={collaborator.name} />
-                          <AvatarFallback>
-                            {collaborator.name.split(' ').map(n => n[0]).join('')}
-                          </AvatarFallback>
-                        </Avatar>
-                        <div>
-                          <p className="font-medium text-sm">{collaborator.name}</p>
-                          <p className="text-xs text-muted-foreground">{collaborator.username}</p>
-                        </div>
-                      </div>
-                      <Badge variant="outline" className="text-xs">
-                        {collaborator.role}
-                      </Badge>
-                    </div>
-                  ))}
-                </div>
-              </CardContent>
-            </Card>
+              <CardContent className="space-y-3">
+                {plan.collaborators.length === 0 && (
+                  <p className="text-sm text-muted-foreground">Just you so far.</p>
+                )}
+                {plan.collaborators.map((collaborator) => (
+                  <div key={collaborator.id} className="flex items-center justify-between text-sm">
+                    <span className="truncate">{collaborator.user_id.slice(0, 8)}</span>
+                    <Badge variant="outline" className="text-xs">
+                      {collaborator.accepted_at ? collaborator.role : 'pending'}
+                    </Badge>
+                  </div>
+                ))}
 
-            {/* Quick Actions */}
-            <Card>
-              <CardHeader>
-                <CardTitle>Quick Actions</CardTitle>
-              </CardHeader>
-              <CardContent className="space-y-2">
-                <Button variant="outline" className="w-full justify-start">
-                  <Calendar className="w-4 h-4 mr-2" />
-                  Export to Calendar
-                </Button>
-                <Button variant="outline" className="w-full justify-start">
-                  <MapPin className="w-4 h-4 mr-2" />
-                  View on Map
-                </Button>
-                <Button variant="outline" className="w-full justify-start">
-                  <Share className="w-4 h-4 mr-2" />
-                  Generate Share Link
-                </Button>
+                {canInvite && (
+                  <form onSubmit={handleInvite} className="space-y-2 pt-2">
+                    <Input
+                      type="email"
+                      value={inviteEmail}
+                      onChange={(e) => setInviteEmail(e.target.value)}
+                      placeholder="friend@example.com"
+                      required
+                    />
+                    <div className="flex gap-2">
+                      <Button
+                        type="button"
+                        variant={inviteRole === 'viewer' ? 'outline' : 'ghost'}
+                        size="sm"
+                        onClick={() => setInviteRole('viewer')}
+                      >
+                        Viewer
+                      </Button>
+                      <Button
+                        type="button"
+                        variant={inviteRole === 'editor' ? 'outline' : 'ghost'}
+                        size="sm"
+                        onClick={() => setInviteRole('editor')}
+                      >
+                        Editor
+                      </Button>
+                      <Button type="submit" size="sm" className="ml-auto">
+                        <Share className="w-3 h-3 mr-1" />
+                        Invite
+                      </Button>
+                    </div>
+                    {inviteUrl && (
+                      <p className="text-xs text-muted-foreground break-all">{inviteUrl}</p>
+                    )}
+                  </form>
+                )}
               </CardContent>
             </Card>
           </div>
@@ -365,4 +463,4 @@ export default async function PlanDetailPage({ params }: PlanPageProps) {
       </div>
     </div>
   )
-}
\ No newline at end of file
+}
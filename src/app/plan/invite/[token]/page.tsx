@@ -0,0 +1,42 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { useParams, useRouter } from 'next/navigation'
+import Link from 'next/link'
+import { Card, CardContent } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { acceptPlanInvitation } from '@/lib/plans/client'
+
+export default function AcceptPlanInvitePage() {
+  const params = useParams<{ token: string }>()
+  const router = useRouter()
+  const [error, setError] = useState<string | null>(null)
+
+  const token = params?.token
+
+  useEffect(() => {
+    if (!token) return
+    acceptPlanInvitation(token)
+      .then(({ planId }) => router.replace(`/plan/${planId}`))
+      .catch((err: any) => setError(err.message || 'Failed to accept invitation'))
+  }, [token, router])
+
+  return (
+    <div className="min-h-screen flex items-center justify-center px-4">
+      <Card className="max-w-md w-full">
+        <CardContent className="py-12 text-center space-y-4">
+          {error ? (
+            <>
+              <p className="text-muted-foreground">{error}</p>
+              <Button asChild variant="outline">
+                <Link href="/plan">Go to my plans</Link>
+              </Button>
+            </>
+          ) : (
+            <p className="text-muted-foreground">Joining plan...</p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
@@ -1,14 +1,22 @@
 'use client';
 
 import { useEffect, useState } from 'react';
-import { getSavedEvents, unsaveEvent } from '@/lib/saved/store';
+import {
+  getSavedEvents,
+  getSavedEventChanges,
+  markSavedEventChangesSeen,
+  syncSavedEvents,
+  unsaveEvent,
+  type SavedEventChange,
+} from '@/lib/saved/store';
 import { PriceBadge } from '@/components/events/PriceBadge';
 import { trackEvent } from '@/lib/tracking/client';
 import { useRouter } from 'next/navigation';
 import { AppLayout } from '@/components/layout/AppLayout';
 import { EmptyState, EMPTY_STATE_VARIANTS } from '@/components/empty-states';
 import { generateBulkICS } from '@/lib/calendar/export';
-import { Calendar, Download } from 'lucide-react';
+import { createClient } from '@/lib/supabase/client';
+import { AlertTriangle, Calendar, Download, Rss } from 'lucide-react';
 import toast from 'react-hot-toast';
 
 export default function SavedPage() {
@@ -16,39 +24,41 @@ export default function SavedPage() {
   const [savedEvents, setSavedEvents] = useState<any[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  // Unseen changes by event id; kept on screen after they're marked seen
+  const [changes, setChanges] = useState<Record<string, SavedEventChange[]>>({});
 
   const loadSavedEvents = async () => {
     setLoading(true);
     setError(null);
     try {
-      const userId = localStorage.getItem('user_id') || 'anonymous';
-
-      // Fetch from database
-      const response = await fetch(`/api/saved-events?userId=${userId}`);
-      const data = await response.json();
-
-      if (data.success && data.events?.length > 0) {
-        // Extract event_data from database records
-        const dbEvents = data.events.map((record: any) => record.event_data);
-        setSavedEvents(dbEvents);
-      } else {
-        // Fallback to localStorage if database is empty
-        const localEvents = getSavedEvents();
-        setSavedEvents(localEvents);
-      }
+      // Pull the account's list first when signed in; the local list is always current
+      await syncSavedEvents();
     } catch (err) {
-      console.error('Failed to load saved events:', err);
-      setError('Failed to load saved events');
-      // Fallback to localStorage on error
-      const localEvents = getSavedEvents();
-      setSavedEvents(localEvents);
+      console.error('Failed to sync saved events:', err);
+      setError('Failed to sync saved events');
     } finally {
+      setSavedEvents(getSavedEvents());
       setLoading(false);
     }
+
+    const unseen = await getSavedEventChanges();
+    if (unseen.length > 0) {
+      const byEvent: Record<string, SavedEventChange[]> = {};
+      for (const change of unseen) {
+        (byEvent[change.eventId] ||= []).push(change);
+      }
+      setChanges(byEvent);
+      markSavedEventChangesSeen();
+    }
   };
 
   useEffect(() => {
     loadSavedEvents();
+
+    // Saves and unsaves from other tabs and devices
+    const handleSavedEventsChanged = () => setSavedEvents(getSavedEvents());
+    window.addEventListener('savedEventsChanged', handleSavedEventsChanged);
+    return () => window.removeEventListener('savedEventsChanged', handleSavedEventsChanged);
   }, []);
 
   const handleUnsave = (eventId: string) => {
@@ -87,7 +97,6 @@ export default function SavedPage() {
       // Track bulk export
       trackEvent('calendar_export_bulk', {
         count: result.count,
-        hasErrors: !!result.errors,
       });
     } else {
       toast.error(`Failed to export events: ${result.error}`, {
@@ -96,6 +105,39 @@ export default function SavedPage() {
     }
   };
 
+  const handleSubscribe = async () => {
+    try {
+      const supabase = createClient();
+      const { data: { session } } = await supabase.auth.getSession();
+
+      if (!session) {
+        toast.error('Please log in to subscribe to your saved events');
+        return;
+      }
+
+      const response = await fetch('/api/calendar/feed', {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${session.access_token}`,
+          'Content-Type': 'application/json',
+        },
+      });
+      const data = await response.json();
+
+      if (!response.ok || !data.webcalUrl) {
+        throw new Error(data.error || 'Failed to create calendar feed');
+      }
+
+      await navigator.clipboard?.writeText(data.httpsUrl).catch(() => {});
+
+      // Hands off to the default calendar app; the https URL is on the clipboard as a fallback
+      window.location.href = data.webcalUrl;
+      toast.success('Calendar feed link copied', { icon: '📅' });
+    } catch (err: any) {
+      toast.error(err.message || 'Failed to create calendar feed');
+    }
+  };
+
   if (loading) {
     return (
       <AppLayout>
@@ -157,6 +199,16 @@ export default function SavedPage() {
               <Calendar className="w-4 h-4" />
             </button>
           )}
+
+          {savedEvents.length > 0 && (
+            <button
+              onClick={handleSubscribe}
+              className="inline-flex items-center gap-2 px-4 py-2 border border-white/20 hover:bg-white/10 rounded-lg font-medium transition-colors"
+            >
+              <Rss className="w-4 h-4" />
+              Subscribe in Calendar
+            </button>
+          )}
         </div>
 
         <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 xl:grid-cols-4 gap-4">
@@ -187,6 +239,17 @@ export default function SavedPage() {
               {event.date && (
                 <p className="text-xs text-gray-500">📅 {new Date(event.date).toLocaleDateString()}</p>
               )}
+              {changes[event.id]?.map(change => (
+                <p
+                  key={change.id}
+                  className={`flex items-start gap-1.5 text-xs rounded px-2 py-1 ${
+                    change.material ? 'bg-amber-500/15 text-amber-300' : 'bg-white/5 text-gray-400'
+                  }`}
+                >
+                  <AlertTriangle className="w-3 h-3 mt-0.5 shrink-0" />
+                  {change.summary}
+                </p>
+              ))}
               <button
                 onClick={() => handleUnsave(event.id)}
                 className="w-full px-3 py-1.5 text-xs rounded bg-red-600/80 hover:bg-red-600 transition-colors"
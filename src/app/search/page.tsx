@@ -6,8 +6,12 @@ import { AppLayout } from '@/components/layout/AppLayout'
 import { EventCard } from '@/components/events/EventCard'
 import { EmptyState, EMPTY_STATE_VARIANTS } from '@/components/empty-states'
 import { SearchResultsSkeleton } from '@/components/skeletons'
-import { ArrowLeft } from 'lucide-react'
+import { ArrowLeft, BellPlus } from 'lucide-react'
 import { Button } from '@/components/ui/button'
+import { SavedSearchForm } from '@/components/saved-searches/SavedSearchForm'
+import { createSavedSearch } from '@/lib/saved-searches/client'
+import { emptyCriteria } from '@/lib/saved-searches/match'
+import toast from 'react-hot-toast'
 
 export default function SearchPage() {
   const router = useRouter()
@@ -19,6 +23,7 @@ export default function SearchPage() {
   const [loading, setLoading] = useState(false)
   const [hasSearched, setHasSearched] = useState(false)
   const [error, setError] = useState<string | null>(null)
+  const [showSaveSearch, setShowSaveSearch] = useState(false)
 
   const handleSearch = async () => {
     if (!searchQuery.trim()) return
@@ -95,7 +100,38 @@ export default function SearchPage() {
             >
               {loading ? 'Searching...' : 'Search'}
             </Button>
+            {hasSearched && searchQuery.trim() && (
+              <Button
+                onClick={() => setShowSaveSearch(!showSaveSearch)}
+                variant="outline"
+                className="px-4"
+              >
+                <BellPlus className="w-4 h-4 mr-2" />
+                Save search
+              </Button>
+            )}
           </div>
+
+          {/* Save Search */}
+          {showSaveSearch && (
+            <div className="mt-4 bg-gray-900 border border-gray-700 rounded-lg p-4">
+              <h2 className="font-semibold mb-1">Get alerts for new matches</h2>
+              <p className="text-sm text-gray-400 mb-4">
+                We&apos;ll check newly listed events against this search. Manage saved searches in Settings.
+              </p>
+              <SavedSearchForm
+                key={searchQuery}
+                initial={{ name: searchQuery.trim(), criteria: emptyCriteria(searchQuery.trim()), frequency: 'daily' }}
+                submitLabel="Save search"
+                onSubmit={async (values) => {
+                  await createSavedSearch(values)
+                  setShowSaveSearch(false)
+                  toast.success(`Saved "${values.name}". We'll tell you about new matches.`)
+                }}
+                onCancel={() => setShowSaveSearch(false)}
+              />
+            </div>
+          )}
         </div>
 
         {/* Loading State */}
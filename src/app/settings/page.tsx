@@ -2,6 +2,7 @@
 
 import { useState, useEffect } from 'react'
 import { AppLayout } from '@/components/layout/AppLayout'
+import { SavedSearchesManager } from '@/components/saved-searches/SavedSearchesManager'
 import {
   getUserPreferences,
   saveUserPreferences,
@@ -304,6 +305,9 @@ export default function SettingsPage() {
             </div>
           </div>
 
+          {/* Saved Searches */}
+          <SavedSearchesManager />
+
           {/* Help */}
           <div className="bg-blue-900/20 border border-blue-500/30 rounded-lg p-4">
             <h3 className="font-semibold mb-2">💡 Tips</h3>
@@ -0,0 +1,106 @@
+import { notFound, redirect } from 'next/navigation'
+import Link from 'next/link'
+import { Calendar, MapPin, Ticket } from 'lucide-react'
+import { Card, CardContent } from '@/components/ui/card'
+import { FollowVenueButton } from '@/components/venues/FollowVenueButton'
+import { venueIdSchema } from '@/lib/venues/http'
+import { getVenue, listVenueShows } from '@/lib/venues/registry-service'
+import type { VenueShow } from '@/lib/venues/types'
+
+export const dynamic = 'force-dynamic'
+
+interface VenuePageProps {
+  params: {
+    id: string
+  }
+}
+
+function formatShowDate(show: VenueShow): string {
+  if (!show.date) return 'Date TBA'
+  // Parse as a local date to avoid timezone shifts
+  const [year, month, day] = show.date.split('-').map(Number)
+  const date = new Date(year, month - 1, day).toLocaleDateString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    year: 'numeric'
+  })
+  return show.time ? `${date} · ${show.time.slice(0, 5)}` : date
+}
+
+export default async function VenuePage({ params }: VenuePageProps) {
+  const venue = venueIdSchema.safeParse(params.id).success ? await getVenue(params.id) : null
+
+  if (!venue) {
+    notFound()
+  }
+
+  // Merged venues live on under the venue they were merged into
+  if (venue.id !== params.id) {
+    redirect(`/venues/${venue.id}`)
+  }
+
+  const shows = await listVenueShows(venue.id)
+  const otherNames = Array.from(new Set(venue.aliases.map(alias => alias.name)))
+    .filter(name => name !== venue.name)
+
+  return (
+    <div className="min-h-screen bg-muted/30">
+      <div className="max-w-3xl mx-auto px-4 py-8">
+        {/* Header */}
+        <div className="space-y-3 mb-8">
+          <h1 className="text-3xl font-bold">{venue.name}</h1>
+          {(venue.address || venue.city) && (
+            <p className="text-muted-foreground flex items-center gap-1">
+              <MapPin className="w-4 h-4" />
+              {[venue.address, venue.city].filter(Boolean).join(', ')}
+            </p>
+          )}
+          {otherNames.length > 0 && (
+            <p className="text-sm text-muted-foreground">Also listed as {otherNames.join(', ')}</p>
+          )}
+          <FollowVenueButton venueName={venue.name} venueId={venue.id} city={venue.city} />
+        </div>
+
+        {/* Upcoming events */}
+        <h2 className="text-xl font-semibold mb-4">Upcoming Events</h2>
+        {shows.length === 0 ? (
+          <Card>
+            <CardContent className="p-6 text-center text-muted-foreground">
+              Nothing listed yet. Follow {venue.name} to hear when new events are announced.
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="space-y-3">
+            {shows.map(show => (
+              <Card key={show.eventId}>
+                <CardContent className="p-4 flex items-center justify-between gap-4">
+                  <div className="min-w-0">
+                    <Link href={`/events/${show.eventId}`} className="font-medium hover:underline">
+                      {show.title}
+                    </Link>
+                    <p className="text-sm text-muted-foreground flex items-center gap-1 mt-1">
+                      <Calendar className="w-3.5 h-3.5" />
+                      {formatShowDate(show)}
+                    </p>
+                  </div>
+                  {show.externalUrl && (
+                    <a
+                      href={show.externalUrl}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="flex items-center gap-1 text-sm text-purple-600 hover:underline flex-shrink-0"
+                    >
+                      <Ticket className="w-4 h-4" />
+                      Tickets
+                    </a>
+                  )}
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  )
+}
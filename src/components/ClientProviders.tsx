@@ -1,6 +1,9 @@
 'use client'
 
+import { useEffect } from 'react'
 import { ToasterProvider } from '@/providers/ToasterProvider'
+import { startSavedEventsSync } from '@/lib/saved/store'
+import { startInteractionSync } from '@/lib/tracking/sync'
 // import { OnboardingFlow } from '@/components/onboarding/OnboardingFlow'
 // import { FeedbackWidget } from '@/components/feedback/FeedbackWidget'
 // import { InstallPrompt } from '@/components/pwa/InstallPrompt'
@@ -8,6 +11,9 @@ import { ToasterProvider } from '@/providers/ToasterProvider'
 // import { CookieConsent } from '@/components/legal/CookieConsent'
 
 export function ClientProviders() {
+  useEffect(() => startSavedEventsSync(), [])
+  useEffect(() => startInteractionSync(), [])
+
   return (
     <>
       <ToasterProvider />
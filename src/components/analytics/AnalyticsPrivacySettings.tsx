@@ -8,12 +8,13 @@ import {
   enableSessionRecording,
   disableSessionRecording,
 } from '@/providers/PostHogProvider'
+import { discardSyncedInteractions, hydrateInteractionHistory } from '@/lib/tracking/sync'
 
 /**
  * Privacy Settings Component for Analytics
  *
  * Allows users to control their analytics preferences:
- * - Opt-out of all tracking
+ * - Opt-out of all tracking (including syncing personalization history to the account)
  * - Enable/disable session recording
  *
  * Add this to your settings/privacy page
@@ -38,6 +39,7 @@ export function AnalyticsPrivacySettings() {
   const handleAnalyticsToggle = () => {
     if (analyticsEnabled) {
       optOutOfAnalytics()
+      void discardSyncedInteractions()
       setAnalyticsEnabled(false)
       // Disable session recording too if analytics is disabled
       if (sessionRecordingEnabled) {
@@ -46,6 +48,7 @@ export function AnalyticsPrivacySettings() {
       }
     } else {
       optInToAnalytics()
+      void hydrateInteractionHistory()
       setAnalyticsEnabled(true)
     }
   }
@@ -119,6 +122,11 @@ export function AnalyticsPrivacySettings() {
             <p className="text-xs text-gray-400">
               Analytics disabled - We'll stop collecting usage data
             </p>
+            <p className="text-xs text-gray-500 mt-1">
+              Your personalization history is no longer synced to your account and the
+              synced copy has been deleted. Recommendations on this device still use
+              what is stored locally.
+            </p>
           </div>
         )}
       </div>
@@ -5,6 +5,7 @@ import { useRouter } from 'next/navigation'
 import { useCachedEvents } from '@/lib/events/useCachedEvents'
 import { markEventsAsSeen } from '@/lib/tracking/seen-store'
 import { PriceBadge } from './PriceBadge'
+import { SeriesBadge } from './SeriesBadge'
 import { Thumbs } from './Thumbs'
 import { isSaved, toggleSaved } from '@/lib/saved/store'
 import { trackEvent, isTrackingEnabled } from '@/lib/tracking/client'
@@ -148,7 +149,8 @@ export function CategoryRail({
         eventId: event?.id,
         category: event?.category || category.id, // Use category.id as fallback
         price: event?.price_min,
-        venue: event?.venue_name
+        venue: event?.venue_name,
+        venueId: event?.venue_id || undefined
       })
     }
   }
@@ -301,6 +303,8 @@ export function CategoryRail({
 
                 <p className="text-xs text-gray-400 mb-1">📍 {event.venue_name}</p>
 
+                <SeriesBadge series={event.series} className="mb-1" />
+
                 {event.description && (
                   <p className="text-xs text-gray-300 mb-2 line-clamp-2">{event.description}</p>
                 )}
@@ -65,7 +65,8 @@ export function EventCard({
         eventId: event.id,
         category: event.category,
         price: event.price_min,
-        venue: event.venue_name
+        venue: event.venue_name,
+        venueId: event.venue_id || undefined
       })
     }
 
@@ -0,0 +1,38 @@
+'use client'
+
+import type { EventSeriesSummary } from '@/lib/series/types'
+
+interface SeriesBadgeProps {
+  series?: EventSeriesSummary
+  className?: string
+}
+
+function formatNextDate(date: string): string {
+  // Parse as a local date to avoid timezone shifts
+  const [year, month, day] = date.split('-').map(Number)
+  return new Date(year, month - 1, day).toLocaleDateString('en-US', {
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric'
+  })
+}
+
+/**
+ * "↻ Every Tuesday · Next Tue, Mar 3" for the occurrence that stands in
+ * for a recurring series in a feed
+ */
+export function SeriesBadge({ series, className = '' }: SeriesBadgeProps) {
+  if (!series) return null
+
+  const moreDates = series.upcoming.filter(o => o.status !== 'cancelled').length - 1
+
+  return (
+    <p
+      className={`text-[10px] sm:text-xs text-purple-300 ${className}`}
+      aria-label={`${series.label}, next on ${formatNextDate(series.nextDate)}`}
+      title={moreDates > 0 ? `${moreDates} more date${moreDates === 1 ? '' : 's'} listed` : undefined}
+    >
+      ↻ {series.label} · Next {formatNextDate(series.nextDate)}
+    </p>
+  )
+}
@@ -45,7 +45,7 @@ export function Thumbs({ event }: { event: any }) {
     setCurrentVote('up');
 
     // Track for personalization
-    trackEvent('vote_up', { eventId: event.id, category: event.category, price: event.price_min, venue: event.venue_name });
+    trackEvent('vote_up', { eventId: event.id, category: event.category, price: event.price_min, venue: event.venue_name, venueId: event.venue_id || undefined });
 
     const categoryName = CATEGORIES.find(c => c.id === event.category)?.title || 'these';
     toast.success(`👍 More ${categoryName} events coming your way!`, {
@@ -61,7 +61,7 @@ export function Thumbs({ event }: { event: any }) {
     setCurrentVote('down');
 
     // Track for personalization
-    trackEvent('vote_down', { eventId: event.id, category: event.category, price: event.price_min, venue: event.venue_name });
+    trackEvent('vote_down', { eventId: event.id, category: event.category, price: event.price_min, venue: event.venue_name, venueId: event.venue_id || undefined });
 
     // Emit custom event so parent components can react
     if (typeof window !== 'undefined') {
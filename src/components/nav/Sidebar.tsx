@@ -3,11 +3,12 @@
 import { useState, useEffect } from 'react';
 import Link from 'next/link';
 import { usePathname } from 'next/navigation';
-import { getSavedIds } from '@/lib/saved/store';
+import { getSavedIds, getSavedEventChanges } from '@/lib/saved/store';
 
 export function Sidebar() {
   const pathname = usePathname();
   const [savedCount, setSavedCount] = useState(0);
+  const [updateCount, setUpdateCount] = useState(0);
 
   // Update saved count on mount and when storage changes
   useEffect(() => {
@@ -23,7 +24,25 @@ export function Sidebar() {
     return () => window.removeEventListener('savedEventsChanged', updateCount);
   }, []);
 
-  const Item = ({ href, label, badge }: { href: string; label: string; badge?: number }) => {
+  // Changes to saved events (time, venue, price, cancellation) not yet seen
+  useEffect(() => {
+    const refreshUpdates = () => {
+      getSavedEventChanges().then(changes => {
+        setUpdateCount(new Set(changes.map(c => c.eventId)).size);
+      });
+    };
+
+    refreshUpdates();
+
+    window.addEventListener('savedEventsChanged', refreshUpdates);
+    window.addEventListener('savedEventChangesSeen', refreshUpdates);
+    return () => {
+      window.removeEventListener('savedEventsChanged', refreshUpdates);
+      window.removeEventListener('savedEventChangesSeen', refreshUpdates);
+    };
+  }, []);
+
+  const Item = ({ href, label, badge, alert }: { href: string; label: string; badge?: number; alert?: number }) => {
     const active = pathname === href || (href !== '/' && pathname?.startsWith(href));
     return (
       <Link href={href} className={`block px-3 py-2 rounded-lg ${active ? 'bg-white/15' : 'hover:bg-white/10'} relative`}>
@@ -33,6 +52,14 @@ export function Sidebar() {
             {badge}
           </span>
         )}
+        {alert !== undefined && alert > 0 && (
+          <span
+            className="absolute top-2 right-8 bg-amber-500 text-black text-xs font-semibold rounded-full px-1.5 h-5 flex items-center justify-center"
+            title={`${alert} saved ${alert === 1 ? 'event has' : 'events have'} changed`}
+          >
+            {alert} new
+          </span>
+        )}
       </Link>
     );
   };
@@ -45,7 +72,7 @@ export function Sidebar() {
         <Item href="/surprise" label="⚡ Surprise Me" />
         <Item href="/now" label="🔥 Happening Now" />
         <Item href="/near-me" label="📍 Near Me" />
-        <Item href="/saved" label="❤️ My Events" badge={savedCount} />
+        <Item href="/saved" label="❤️ My Events" badge={savedCount} alert={updateCount} />
         <Item href="/taste" label="✨ My Taste" />
       </div>
 
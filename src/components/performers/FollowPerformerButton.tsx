@@ -0,0 +1,102 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import toast from 'react-hot-toast'
+import { Loader2, UserCheck, UserPlus } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { Input } from '@/components/ui/input'
+import { fetchPerformer, followPerformer, unfollowPerformer } from '@/lib/performers/client'
+import type { Performer, PerformerFollow } from '@/lib/performers/types'
+
+interface FollowPerformerButtonProps {
+  performer: Pick<Performer, 'id' | 'slug' | 'name' | 'followerCount'>
+  /** Cities of upcoming shows, offered as suggestions */
+  cities?: string[]
+}
+
+function errorMessage(error: unknown, fallback: string): string {
+  return error instanceof Error ? error.message : fallback
+}
+
+/**
+ * Follow/unfollow with the city to announce new dates in. The follow state
+ * is loaded client-side once the viewer's session is known.
+ */
+export function FollowPerformerButton({ performer, cities = [] }: FollowPerformerButtonProps) {
+  const [follow, setFollow] = useState<PerformerFollow | null>(null)
+  const [followerCount, setFollowerCount] = useState(performer.followerCount)
+  const [city, setCity] = useState('')
+  const [busy, setBusy] = useState(false)
+
+  useEffect(() => {
+    fetchPerformer(performer.id)
+      .then(result => {
+        setFollow(result.follow)
+        setCity(result.follow?.city || '')
+      })
+      .catch(() => {})
+  }, [performer.id])
+
+  const handleFollow = async () => {
+    setBusy(true)
+    try {
+      const result = await followPerformer(performer, city.trim() || null)
+      setFollow(result.follow)
+      setFollowerCount(result.followerCount)
+      toast.success(result.follow.city
+        ? `We'll tell you when ${performer.name} announces a ${result.follow.city} date`
+        : `Following ${performer.name}`)
+    } catch (error) {
+      toast.error(errorMessage(error, 'Failed to follow'))
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleUnfollow = async () => {
+    setBusy(true)
+    try {
+      setFollowerCount(await unfollowPerformer(performer))
+      setFollow(null)
+    } catch (error) {
+      toast.error(errorMessage(error, 'Failed to unfollow'))
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const cityChanged = follow !== null && (follow.city || '') !== city.trim()
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-2">
+        <Input
+          value={city}
+          onChange={(e) => setCity(e.target.value)}
+          placeholder="Your city, for new date alerts"
+          list="performer-cities"
+          maxLength={100}
+          className="w-56"
+        />
+        <datalist id="performer-cities">
+          {cities.map(name => <option key={name} value={name} />)}
+        </datalist>
+
+        {follow && !cityChanged ? (
+          <Button variant="outline" onClick={handleUnfollow} disabled={busy}>
+            {busy ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <UserCheck className="w-4 h-4 mr-2" />}
+            Following
+          </Button>
+        ) : (
+          <Button onClick={handleFollow} disabled={busy}>
+            {busy ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <UserPlus className="w-4 h-4 mr-2" />}
+            {follow ? 'Update city' : 'Follow'}
+          </Button>
+        )}
+      </div>
+      <p className="text-xs text-muted-foreground">
+        {followerCount} {followerCount === 1 ? 'follower' : 'followers'}
+      </p>
+    </div>
+  )
+}
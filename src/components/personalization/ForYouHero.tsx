@@ -1,13 +1,19 @@
 'use client'
 
 import { motion } from 'framer-motion'
-import { useState, useEffect, useMemo } from 'react'
+import { useState, useEffect, useMemo, useRef } from 'react'
 import { useRouter } from 'next/navigation'
 import { readInteractions, isTrackingEnabled } from '@/lib/tracking/client'
-import { computeAffinity } from '@/lib/tracking/affinity'
+import { computeAffinity, explainEvent, venueAffinityKey, AffinityExplanation } from '@/lib/tracking/affinity'
+import { WhyThisPopover } from './WhyThisPopover'
 import { Sparkles, TrendingUp, ChevronRight } from 'lucide-react'
 import { PriceBadge } from '@/components/events/PriceBadge'
 import { toggleSaved, isSaved } from '@/lib/saved/store'
+import { useExperiment } from '@/hooks/useExperiment'
+
+// Ranking experiment for this carousel; variant config may set venueBoost
+// (weight of venue affinity next to category affinity, control: 0)
+const RANKING_EXPERIMENT = 'for_you_ranking'
 
 interface ForYouHeroProps {
   allEvents: any[]
@@ -19,6 +25,9 @@ export function ForYouHero({ allEvents, onEventClick, categories }: ForYouHeroPr
   const router = useRouter()
   const [savedEvents, setSavedEvents] = useState<Set<string>>(new Set())
   const [isMounted, setIsMounted] = useState(false)
+  const [dismissedIds, setDismissedIds] = useState<Set<string>>(new Set())
+  const experiment = useExperiment(RANKING_EXPERIMENT)
+  const venueBoost = typeof experiment.config.venueBoost === 'number' ? experiment.config.venueBoost : 0
 
   // Set mounted state
   useEffect(() => {
@@ -32,9 +41,9 @@ export function ForYouHero({ allEvents, onEventClick, categories }: ForYouHeroPr
   }, [isMounted])
 
   // Compute affinity and get top categories
-  const { topCategories, recommendedEvents } = useMemo(() => {
+  const { topCategories, recommendedEvents, explanations } = useMemo(() => {
     if (interactions.length === 0) {
-      return { topCategories: [], recommendedEvents: [] }
+      return { topCategories: [], recommendedEvents: [], explanations: {} as Record<string, AffinityExplanation> }
     }
 
     const affinity = computeAffinity(interactions)
@@ -58,22 +67,44 @@ export function ForYouHero({ allEvents, onEventClick, categories }: ForYouHeroPr
     const topCategoryIds = top.map(c => c.id)
     const recommended = allEvents
       .filter(event => {
+        if (dismissedIds.has(event.id)) return false
         const eventCategory = event.category || event.category_id
         return topCategoryIds.includes(eventCategory)
       })
       .sort((a, b) => {
-        // Sort by affinity score of category, then by date
+        // Sort by affinity score of category (plus venue in the experiment), then by date
         const aCategory = a.category || a.category_id
         const bCategory = b.category || b.category_id
-        const aScore = affinity.categories[aCategory] || 0
-        const bScore = affinity.categories[bCategory] || 0
+        const aScore = (affinity.categories[aCategory] || 0) + venueBoost * (affinity.venues[venueAffinityKey(a) || ''] || 0)
+        const bScore = (affinity.categories[bCategory] || 0) + venueBoost * (affinity.venues[venueAffinityKey(b) || ''] || 0)
         if (aScore !== bScore) return bScore - aScore
         return new Date(a.date || a.start_date).getTime() - new Date(b.date || b.start_date).getTime()
       })
       .slice(0, 10)
 
-    return { topCategories: top, recommendedEvents: recommended }
-  }, [interactions, allEvents, categories])
+    const explained: Record<string, AffinityExplanation> = {}
+    recommended.forEach(event => {
+      explained[event.id] = explainEvent(affinity, event)
+    })
+
+    return { topCategories: top, recommendedEvents: recommended, explanations: explained }
+  }, [interactions, allEvents, categories, dismissedIds, venueBoost])
+
+  // Log the exposure once the experiment's ranking is what's on screen
+  const { ready: experimentReady, logExposure, trackOutcome } = experiment
+  useEffect(() => {
+    if (!experimentReady || recommendedEvents.length === 0) return
+    logExposure()
+  }, [experimentReady, recommendedEvents, logExposure])
+
+  const impressionsLogged = useRef(new Set<string>())
+  useEffect(() => {
+    if (!experimentReady) return
+    const fresh = recommendedEvents.map(e => e.id).filter(id => !impressionsLogged.current.has(id))
+    if (fresh.length === 0) return
+    fresh.forEach(id => impressionsLogged.current.add(id))
+    trackOutcome('impression', fresh)
+  }, [experimentReady, recommendedEvents, trackOutcome])
 
   // Load saved events
   useEffect(() => {
@@ -87,10 +118,15 @@ export function ForYouHero({ allEvents, onEventClick, categories }: ForYouHeroPr
 
   const handleSaveEvent = (event: any, e: React.MouseEvent) => {
     e.stopPropagation()
+    if (!isSaved(event.id)) trackOutcome('save', event.id)
     toggleSaved(event.id, event)
     setSavedEvents(new Set([...savedEvents]))
   }
 
+  const handleShowLess = (event: any) => {
+    setDismissedIds(prev => new Set(prev).add(event.id))
+  }
+
   // Show after just 1 interaction to demonstrate personalization immediately
   // Don't render if we don't have enough data
   if (interactions.length < 1 || topCategories.length === 0 || recommendedEvents.length === 0) {
@@ -167,7 +203,10 @@ export function ForYouHero({ allEvents, onEventClick, categories }: ForYouHeroPr
                 animate={{ opacity: 1, x: 0 }}
                 transition={{ delay: index * 0.05, duration: 0.4 }}
                 className="flex-shrink-0 w-72 cursor-pointer group snap-start"
-                onClick={() => onEventClick(event)}
+                onClick={() => {
+                  trackOutcome('click', event.id)
+                  onEventClick(event)
+                }}
               >
                 <div className="bg-white rounded-xl overflow-hidden hover:shadow-2xl transition-all duration-300 group-hover:scale-105 relative h-full">
                   {/* Save Button */}
@@ -178,10 +217,19 @@ export function ForYouHero({ allEvents, onEventClick, categories }: ForYouHeroPr
                     {isSaved(event.id) ? '❤️' : '🤍'}
                   </button>
 
-                  {/* Recommended Badge */}
-                  <div className="absolute top-2 right-2 z-10 bg-purple-600 text-white text-xs font-medium px-2 py-1 rounded-full flex items-center gap-1">
-                    <Sparkles className="w-3 h-3" />
-                    Recommended
+                  {/* Recommended Badge + why this */}
+                  <div className="absolute top-2 right-2 z-10 flex items-center gap-1">
+                    <div className="bg-purple-600 text-white text-xs font-medium px-2 py-1 rounded-full flex items-center gap-1">
+                      <Sparkles className="w-3 h-3" />
+                      Recommended
+                    </div>
+                    {explanations[event.id] && (
+                      <WhyThisPopover
+                        event={event}
+                        explanation={explanations[event.id]}
+                        onShowLess={handleShowLess}
+                      />
+                    )}
                   </div>
 
                   {/* Event Image */}
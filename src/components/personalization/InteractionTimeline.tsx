@@ -1,6 +1,6 @@
 'use client'
 
-import { MousePointer, Heart, Search, Eye } from 'lucide-react'
+import { MousePointer, Heart, Search, Eye, EyeOff, UserPlus, UserMinus } from 'lucide-react'
 
 interface InteractionTimelineProps {
   interactions: any[]
@@ -19,6 +19,9 @@ export function InteractionTimeline({ interactions, categories }: InteractionTim
       case 'save': return Heart
       case 'search': return Search
       case 'view': return Eye
+      case 'show_less': return EyeOff
+      case 'follow': return UserPlus
+      case 'unfollow': return UserMinus
       default: return MousePointer
     }
   }
@@ -29,6 +32,9 @@ export function InteractionTimeline({ interactions, categories }: InteractionTim
       case 'save': return 'bg-pink-500'
       case 'search': return 'bg-purple-500'
       case 'view': return 'bg-green-500'
+      case 'show_less': return 'bg-red-500'
+      case 'follow': return 'bg-amber-500'
+      case 'unfollow': return 'bg-gray-500'
       default: return 'bg-gray-500'
     }
   }
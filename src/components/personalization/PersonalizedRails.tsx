@@ -7,15 +7,20 @@
  * - Inventory threshold (min events per rail)
  * - Discovery floor (maintain variety)
  * - Veto logic (hide heavily downvoted events)
+ * - "From venues you follow" rail for signed-in users
  * - Fully feature-flagged
  */
 
-import { useMemo } from 'react'
-import { computeAffinity, AffinityProfile } from '@/lib/tracking/affinity'
+import { useEffect, useMemo, useState } from 'react'
+import { computeAffinity, explainEvent, AffinityExplanation } from '@/lib/tracking/affinity'
 import { readInteractions, InteractionEvent, isTrackingEnabled } from '@/lib/tracking/client'
 import { filterUnseen, markEventAsSeen, isSeenStoreEnabled } from '@/lib/tracking/seen-store'
 import { PriceBadge } from '@/components/events/PriceBadge'
 import { applyDailyShuffle } from '@/lib/personalization/daily-shuffle'
+import { fetchFollowedVenues } from '@/lib/venues/client'
+import { eventsAtFollowedVenues } from '@/lib/venues/follows'
+import type { VenueFollow } from '@/lib/venues/types'
+import { WhyThisPopover } from './WhyThisPopover'
 
 export interface PersonalizedRail {
   id: string
@@ -23,6 +28,7 @@ export interface PersonalizedRail {
   emoji: string
   events: any[]
   affinityScore: number
+  explanations: Record<string, AffinityExplanation>  // Keyed by event id
 }
 
 export interface PersonalizedRailsProps {
@@ -85,13 +91,21 @@ function generatePersonalizedRails(
     if (categoryEvents.length >= CONFIG.minEvents) {
       // Apply daily shuffle to maintain stable order per day
       const shuffled = applyDailyShuffle(categoryEvents, 'Toronto') // TODO: Make city dynamic
+      const events = shuffled.slice(0, 20) // Limit to 20 per rail
+
+      const explanations: Record<string, AffinityExplanation> = {}
+      events.forEach(event => {
+        // Rail membership can come from a fuzzy match, so explain against the rail's category
+        explanations[event.id] = explainEvent(affinity, { ...event, category: categoryId })
+      })
 
       rails.push({
         id: `personal_${categoryId}`,
         title: getCategoryDisplayName(categoryId),
         emoji: getCategoryEmoji(categoryId),
-        events: shuffled.slice(0, 20), // Limit to 20 per rail
-        affinityScore: score
+        events,
+        affinityScore: score,
+        explanations
       })
     }
   }
@@ -99,6 +113,38 @@ function generatePersonalizedRails(
   return rails.slice(0, CONFIG.maxRails)
 }
 
+/**
+ * Upcoming events at the venues the user follows. Follows are explicit, so
+ * the rail shows with any inventory and regardless of interaction count.
+ */
+function generateFollowedVenuesRail(
+  allEvents: any[],
+  follows: VenueFollow[],
+  interactions: InteractionEvent[],
+  vetoedEventIds: Set<string>
+): PersonalizedRail | null {
+  const events = eventsAtFollowedVenues(
+    allEvents.filter(event => !vetoedEventIds.has(event.id)),
+    follows
+  ).slice(0, 20)
+  if (events.length === 0) return null
+
+  const affinity = computeAffinity(interactions)
+  const explanations: Record<string, AffinityExplanation> = {}
+  events.forEach(event => {
+    explanations[event.id] = explainEvent(affinity, event)
+  })
+
+  return {
+    id: 'personal_followed_venues',
+    title: 'From Venues You Follow',
+    emoji: '🏟️',
+    events,
+    affinityScore: 1,
+    explanations
+  }
+}
+
 /**
  * Extract vetoed event IDs from interactions
  * Uses vote_down events or explicit veto signals
@@ -187,6 +233,17 @@ function getCategoryEmoji(categoryId: string): string {
  * PersonalizedRails Component
  */
 export function PersonalizedRails({ allEvents, onEventClick, className = '' }: PersonalizedRailsProps) {
+  const [dismissedIds, setDismissedIds] = useState<Set<string>>(new Set())
+  const [followedVenues, setFollowedVenues] = useState<VenueFollow[]>([])
+
+  // Signed-out users have no follows; the fetch rejects and the rail stays hidden
+  useEffect(() => {
+    if (!CONFIG.enabled) return
+    fetchFollowedVenues()
+      .then(setFollowedVenues)
+      .catch(() => {})
+  }, [])
+
   const rails = useMemo(() => {
     // Feature flag check
     if (!CONFIG.enabled || !isTrackingEnabled()) return []
@@ -199,8 +256,12 @@ export function PersonalizedRails({ allEvents, onEventClick, className = '' }: P
     const seenEventIds = isSeenStoreEnabled() ? filterUnseen(allEvents.map(e => ({ id: e.id }))).map(e => e.id) : []
     const seenSet = new Set(seenEventIds)
 
-    return generatePersonalizedRails(allEvents, interactions, vetoedEventIds, seenSet)
-  }, [allEvents])
+    dismissedIds.forEach(id => vetoedEventIds.add(id))
+
+    const venueRail = generateFollowedVenuesRail(allEvents, followedVenues, interactions, vetoedEventIds)
+    const categoryRails = generatePersonalizedRails(allEvents, interactions, vetoedEventIds, seenSet)
+    return venueRail ? [venueRail, ...categoryRails] : categoryRails
+  }, [allEvents, dismissedIds, followedVenues])
 
   // Don't render if no rails
   if (rails.length === 0) return null
@@ -251,9 +312,16 @@ export function PersonalizedRails({ allEvents, onEventClick, className = '' }: P
                       </div>
                     )}
 
-                    {/* Price Badge */}
-                    <div className="absolute top-2 right-2">
+                    {/* Price Badge + why this */}
+                    <div className="absolute top-2 right-2 flex items-center gap-1">
                       <PriceBadge event={event} size="sm" showTooltip={false} />
+                      {rail.explanations[event.id] && (
+                        <WhyThisPopover
+                          event={event}
+                          explanation={rail.explanations[event.id]}
+                          onShowLess={(dismissed) => setDismissedIds(prev => new Set(prev).add(dismissed.id))}
+                        />
+                      )}
                     </div>
                   </div>
 
@@ -0,0 +1,125 @@
+'use client'
+
+/**
+ * WhyThisPopover - "Why am I seeing this" for a personalized recommendation
+ *
+ * Shows the signals, categories and venues behind the match and how old
+ * they are, plus a "show less like this" action that records a negative
+ * interaction so the affinity profile backs off.
+ */
+
+import { useState } from 'react'
+import { Info, EyeOff } from 'lucide-react'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import { trackEvent } from '@/lib/tracking/client'
+import type { AffinityExplanation } from '@/lib/tracking/affinity'
+
+const SIGNAL_NAMES: Record<string, string> = {
+  click: 'Opened',
+  save: 'Saved',
+  search: 'Searched',
+  view: 'Viewed',
+  show_less: 'Asked for less',
+  follow: 'Followed',
+  unfollow: 'Unfollowed'
+}
+
+interface WhyThisPopoverProps {
+  event: any
+  explanation: AffinityExplanation
+  onShowLess?: (event: any) => void
+  className?: string
+}
+
+export function WhyThisPopover({ event, explanation, onShowLess, className = '' }: WhyThisPopoverProps) {
+  const [open, setOpen] = useState(false)
+
+  const handleShowLess = (e: React.MouseEvent) => {
+    e.stopPropagation()
+    trackEvent('show_less', {
+      eventId: event.id,
+      category: event.category || event.category_id,
+      venue: event.venue_name || undefined,
+      venueId: event.venue_id || undefined,
+      price: event.price_min ?? undefined
+    })
+    setOpen(false)
+    onShowLess?.(event)
+  }
+
+  const { decay } = explanation
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <button
+          type="button"
+          onClick={(e) => e.stopPropagation()}
+          className={`bg-black/70 hover:bg-black text-white p-1.5 rounded-full transition-colors ${className}`}
+          aria-label="Why am I seeing this?"
+        >
+          <Info className="w-3.5 h-3.5" />
+        </button>
+      </PopoverTrigger>
+      <PopoverContent
+        className="w-72 bg-gray-900 border-gray-700 text-white text-xs space-y-3"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div>
+          <p className="font-semibold text-sm mb-1">Why am I seeing this?</p>
+          <p className="text-gray-300">{explanation.summary}</p>
+        </div>
+
+        {explanation.signals.length > 0 && (
+          <ul className="space-y-1">
+            {explanation.signals.map(signal => (
+              <li key={signal.type} className="flex justify-between text-gray-300">
+                <span>{SIGNAL_NAMES[signal.type] || signal.type} × {signal.count}</span>
+                <span className={signal.weight < 0 ? 'text-red-400' : 'text-purple-300'}>
+                  {signal.weight > 0 ? '+' : ''}{signal.weight.toFixed(1)}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {(explanation.categories.length > 0 || explanation.venues.length > 0 || explanation.performers.length > 0) && (
+          <div className="flex flex-wrap gap-1">
+            {explanation.categories.map(category => (
+              <span key={category.id} className="bg-purple-600/30 text-purple-200 px-2 py-0.5 rounded-full">
+                {category.id} · {(category.score * 100).toFixed(0)}%
+              </span>
+            ))}
+            {explanation.venues.map(venue => (
+              <span key={venue.name} className="bg-pink-600/30 text-pink-200 px-2 py-0.5 rounded-full">
+                📍 {venue.name} · {(venue.score * 100).toFixed(0)}%
+              </span>
+            ))}
+            {explanation.performers.map(performer => (
+              <span key={performer.name} className="bg-amber-600/30 text-amber-200 px-2 py-0.5 rounded-full">
+                🎤 {performer.name} · {(performer.score * 100).toFixed(0)}%
+              </span>
+            ))}
+          </div>
+        )}
+
+        {decay.newestAgeDays !== null && (
+          <p className="text-gray-500">
+            Latest signal {decay.newestAgeDays === 0 ? 'today' : `${decay.newestAgeDays}d ago`}
+            {decay.oldestAgeDays !== null && decay.oldestAgeDays !== decay.newestAgeDays && `, oldest ${decay.oldestAgeDays}d ago`}
+            {' '}· signals lose half their weight every {decay.halfLifeDays} days
+          </p>
+        )}
+
+        <button
+          type="button"
+          onClick={handleShowLess}
+          className="w-full flex items-center justify-center gap-2 bg-gray-800 hover:bg-gray-700 text-gray-200 py-2 rounded-md transition-colors"
+        >
+          <EyeOff className="w-3.5 h-3.5" />
+          Show less like this
+        </button>
+      </PopoverContent>
+    </Popover>
+  )
+}
@@ -0,0 +1,302 @@
+'use client'
+
+import { useState } from 'react'
+import toast from 'react-hot-toast'
+import { Loader2, MapPin } from 'lucide-react'
+import { getStoredLocation, requestUserLocation } from '@/lib/location/geolocation'
+import type { AlertFrequency, SavedSearchCriteria } from '@/lib/saved-searches/types'
+
+export interface SavedSearchFormValues {
+  name: string
+  criteria: SavedSearchCriteria
+  frequency: AlertFrequency
+}
+
+interface SavedSearchFormProps {
+  initial: SavedSearchFormValues
+  submitLabel: string
+  onSubmit: (values: SavedSearchFormValues) => Promise<void>
+  onCancel: () => void
+}
+
+// Categories events are commonly tagged with
+const CATEGORY_SUGGESTIONS = ['music', 'comedy', 'theatre', 'sports', 'food', 'art', 'tech', 'nightlife', 'family']
+
+const CHIPS: Array<{ id: keyof SavedSearchCriteria['chips']; label: string }> = [
+  { id: 'tonight', label: '🌙 Tonight' },
+  { id: 'now', label: '⚡ Happening Now' },
+  { id: 'near', label: '📍 Near Me' },
+  { id: 'free', label: '🆓 Free' },
+]
+
+const FREQUENCIES: Array<{ id: AlertFrequency; label: string }> = [
+  { id: 'instant', label: 'As soon as they are listed' },
+  { id: 'daily', label: 'Daily digest' },
+  { id: 'weekly', label: 'Weekly digest' },
+]
+
+const inputClass = 'w-full bg-gray-800 text-white px-3 py-2 rounded border border-gray-600 focus:border-purple-500 focus:outline-none'
+
+function errorMessage(error: unknown, fallback: string): string {
+  return error instanceof Error ? error.message : fallback
+}
+
+// Empty inputs clear a filter
+function numberOrNull(value: string): number | null {
+  const parsed = parseFloat(value)
+  return Number.isNaN(parsed) ? null : parsed
+}
+
+/**
+ * Everything a saved search filters on, and how often to hear about new
+ * matches. Used to save a search and to edit one from settings.
+ */
+export function SavedSearchForm({ initial, submitLabel, onSubmit, onCancel }: SavedSearchFormProps) {
+  const [values, setValues] = useState<SavedSearchFormValues>(initial)
+  const [locating, setLocating] = useState(false)
+  const [saving, setSaving] = useState(false)
+
+  const criteria = values.criteria
+  const setCriteria = (updates: Partial<SavedSearchCriteria>) =>
+    setValues(prev => ({ ...prev, criteria: { ...prev.criteria, ...updates } }))
+
+  const handleUseLocation = async () => {
+    setLocating(true)
+    try {
+      const stored = getStoredLocation()
+      const result = stored ? { success: true as const, location: stored } : await requestUserLocation()
+      if (!result.success) {
+        toast.error(result.error)
+        return
+      }
+      setCriteria({
+        location: {
+          lat: result.location.latitude,
+          lng: result.location.longitude,
+          radiusKm: criteria.location?.radiusKm || 5,
+          label: criteria.location?.label || 'my location'
+        }
+      })
+    } finally {
+      setLocating(false)
+    }
+  }
+
+  const handleSubmit = async () => {
+    if (!values.name.trim() || !criteria.query.trim()) {
+      toast.error('Please give the search a name and search text')
+      return
+    }
+    if (criteria.chips.near && !criteria.location) {
+      toast.error('"Near Me" needs a location')
+      return
+    }
+
+    setSaving(true)
+    try {
+      await onSubmit({ ...values, name: values.name.trim(), criteria: { ...criteria, query: criteria.query.trim() } })
+    } catch (error) {
+      toast.error(errorMessage(error, 'Failed to save search'))
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+        <div>
+          <label className="block text-sm text-gray-400 mb-1">Name</label>
+          <input
+            type="text"
+            value={values.name}
+            onChange={(e) => setValues(prev => ({ ...prev, name: e.target.value }))}
+            maxLength={100}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-sm text-gray-400 mb-1">Search text</label>
+          <input
+            type="text"
+            value={criteria.query}
+            onChange={(e) => setCriteria({ query: e.target.value })}
+            maxLength={100}
+            className={inputClass}
+          />
+        </div>
+        <div>
+          <label className="block text-sm text-gray-400 mb-1">Category</label>
+          <input
+            type="text"
+            value={criteria.category || ''}
+            onChange={(e) => setCriteria({ category: e.target.value.trim() ? e.target.value : null })}
+            placeholder="Any"
+            list="saved-search-categories"
+            maxLength={50}
+            className={inputClass}
+          />
+          <datalist id="saved-search-categories">
+            {CATEGORY_SUGGESTIONS.map(category => <option key={category} value={category} />)}
+          </datalist>
+        </div>
+        <div>
+          <label className="block text-sm text-gray-400 mb-1">Price ($)</label>
+          <div className="flex items-center gap-2">
+            <input
+              type="number"
+              min="0"
+              value={criteria.priceMin ?? ''}
+              onChange={(e) => setCriteria({ priceMin: numberOrNull(e.target.value) })}
+              placeholder="Min"
+              className={inputClass}
+            />
+            <span className="text-gray-500">–</span>
+            <input
+              type="number"
+              min="0"
+              value={criteria.priceMax ?? ''}
+              onChange={(e) => setCriteria({ priceMax: numberOrNull(e.target.value) })}
+              placeholder="Max"
+              className={inputClass}
+            />
+          </div>
+        </div>
+        <div>
+          <label className="block text-sm text-gray-400 mb-1">Distance</label>
+          {criteria.location ? (
+            <div className="flex items-center gap-2">
+              <span className="text-sm text-gray-300 whitespace-nowrap">Within</span>
+              <input
+                type="number"
+                min="0.5"
+                max="200"
+                step="0.5"
+                value={criteria.location.radiusKm}
+                onChange={(e) => setCriteria({
+                  location: { ...criteria.location!, radiusKm: numberOrNull(e.target.value) ?? 5 }
+                })}
+                className={`${inputClass} w-24`}
+              />
+              <span className="text-sm text-gray-300 whitespace-nowrap">km of {criteria.location.label || 'the saved spot'}</span>
+              <button
+                onClick={() => setCriteria({ location: null, chips: { ...criteria.chips, near: false } })}
+                className="px-2 py-1 bg-gray-700 hover:bg-gray-600 rounded text-xs"
+              >
+                Clear
+              </button>
+            </div>
+          ) : (
+            <button
+              onClick={handleUseLocation}
+              disabled={locating}
+              className="px-3 py-2 bg-gray-700 hover:bg-gray-600 rounded text-sm flex items-center"
+            >
+              {locating ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <MapPin className="w-4 h-4 mr-2" />}
+              Use my location
+            </button>
+          )}
+        </div>
+        <div>
+          <label className="block text-sm text-gray-400 mb-1">Dates</label>
+          <div className="flex items-center gap-2">
+            <select
+              value={criteria.withinDays !== null ? 'rolling' : criteria.dateFrom || criteria.dateTo ? 'fixed' : 'any'}
+              onChange={(e) => setCriteria(
+                e.target.value === 'rolling'
+                  ? { withinDays: 7, dateFrom: null, dateTo: null }
+                  : e.target.value === 'fixed'
+                    ? { withinDays: null, dateFrom: new Date().toISOString().split('T')[0], dateTo: null }
+                    : { withinDays: null, dateFrom: null, dateTo: null }
+              )}
+              className={`${inputClass} w-32`}
+            >
+              <option value="any">Any time</option>
+              <option value="rolling">Next…</option>
+              <option value="fixed">Between…</option>
+            </select>
+            {criteria.withinDays !== null && (
+              <>
+                <input
+                  type="number"
+                  min="0"
+                  max="365"
+                  value={criteria.withinDays}
+                  onChange={(e) => setCriteria({ withinDays: Math.round(numberOrNull(e.target.value) ?? 7) })}
+                  className={`${inputClass} w-20`}
+                />
+                <span className="text-sm text-gray-300">days</span>
+              </>
+            )}
+            {criteria.withinDays === null && (criteria.dateFrom || criteria.dateTo) && (
+              <>
+                <input
+                  type="date"
+                  value={criteria.dateFrom || ''}
+                  onChange={(e) => setCriteria({ dateFrom: e.target.value || null })}
+                  className={inputClass}
+                />
+                <input
+                  type="date"
+                  value={criteria.dateTo || ''}
+                  onChange={(e) => setCriteria({ dateTo: e.target.value || null })}
+                  className={inputClass}
+                />
+              </>
+            )}
+          </div>
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-sm text-gray-400 mb-1">Quick filters</label>
+        <div className="flex gap-2 flex-wrap">
+          {CHIPS.map(chip => (
+            <button
+              key={chip.id}
+              onClick={() => setCriteria({ chips: { ...criteria.chips, [chip.id]: !criteria.chips[chip.id] } })}
+              className={`px-3 py-1.5 text-sm rounded-full border transition ${
+                criteria.chips[chip.id]
+                  ? 'bg-white text-black border-white'
+                  : 'bg-white/8 hover:bg-white/14 border-white/12 text-white'
+              }`}
+              aria-pressed={criteria.chips[chip.id] ? 'true' : 'false'}
+            >
+              {chip.label}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div>
+        <label className="block text-sm text-gray-400 mb-1">Tell me about new matches</label>
+        <select
+          value={values.frequency}
+          onChange={(e) => setValues(prev => ({ ...prev, frequency: e.target.value as AlertFrequency }))}
+          className={`${inputClass} md:w-64`}
+        >
+          {FREQUENCIES.map(frequency => (
+            <option key={frequency.id} value={frequency.id}>{frequency.label}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="flex gap-2">
+        <button
+          onClick={handleSubmit}
+          disabled={saving}
+          className="px-4 py-2 bg-purple-600 hover:bg-purple-700 rounded text-sm font-medium transition flex items-center"
+        >
+          {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+          {submitLabel}
+        </button>
+        <button
+          onClick={onCancel}
+          className="px-4 py-2 bg-gray-600 hover:bg-gray-500 rounded text-sm font-medium transition"
+        >
+          Cancel
+        </button>
+      </div>
+    </div>
+  )
+}
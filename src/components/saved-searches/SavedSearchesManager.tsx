@@ -0,0 +1,136 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import Link from 'next/link'
+import toast from 'react-hot-toast'
+import { deleteSavedSearch, fetchSavedSearches, updateSavedSearch } from '@/lib/saved-searches/client'
+import { describeCriteria } from '@/lib/saved-searches/match'
+import type { AlertFrequency, SavedSearch } from '@/lib/saved-searches/types'
+import { SavedSearchForm } from './SavedSearchForm'
+
+const FREQUENCY_LABELS: Record<AlertFrequency, string> = {
+  instant: 'Instant',
+  daily: 'Daily',
+  weekly: 'Weekly',
+}
+
+function errorMessage(error: unknown, fallback: string): string {
+  return error instanceof Error ? error.message : fallback
+}
+
+/**
+ * Saved searches section of /settings: alert frequency, editing and deleting
+ */
+export function SavedSearchesManager() {
+  const [searches, setSearches] = useState<SavedSearch[] | null>(null)
+  const [loadError, setLoadError] = useState<string | null>(null)
+  const [editingId, setEditingId] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetchSavedSearches()
+      .then(setSearches)
+      .catch(error => setLoadError(errorMessage(error, 'Failed to load saved searches')))
+  }, [])
+
+  const replace = (search: SavedSearch) =>
+    setSearches(prev => (prev || []).map(s => (s.id === search.id ? search : s)))
+
+  const handleFrequencyChange = async (search: SavedSearch, frequency: AlertFrequency) => {
+    try {
+      replace(await updateSavedSearch(search.id, { frequency }))
+      toast.success(`${search.name}: ${FREQUENCY_LABELS[frequency].toLowerCase()} alerts`)
+    } catch (error) {
+      toast.error(errorMessage(error, 'Failed to update saved search'))
+    }
+  }
+
+  const handleDelete = async (search: SavedSearch) => {
+    if (!confirm(`Delete the saved search "${search.name}"?`)) return
+    try {
+      await deleteSavedSearch(search.id)
+      setSearches(prev => (prev || []).filter(s => s.id !== search.id))
+      toast.success('Saved search deleted')
+    } catch (error) {
+      toast.error(errorMessage(error, 'Failed to delete saved search'))
+    }
+  }
+
+  return (
+    <div className="bg-gray-800 rounded-lg p-6 mb-6">
+      <h2 className="text-xl font-semibold mb-1">🔎 Saved Searches</h2>
+      <p className="text-sm text-gray-400 mb-4">
+        We re-run these as new events come in and tell you about matches you haven&apos;t seen.
+        Save a search from the search page.
+      </p>
+
+      {loadError && <p className="text-sm text-gray-400">{loadError}</p>}
+
+      {!loadError && searches === null && (
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-purple-500" />
+      )}
+
+      {searches?.length === 0 && (
+        <p className="text-sm text-gray-400">
+          No saved searches yet. <Link href="/search" className="text-purple-400 hover:underline">Search for events</Link> and
+          choose &quot;Save search&quot;.
+        </p>
+      )}
+
+      <div className="space-y-2">
+        {searches?.map(search => (
+          <div key={search.id} className="p-4 rounded-lg bg-gray-700">
+            {editingId === search.id ? (
+              <SavedSearchForm
+                initial={{ name: search.name, criteria: search.criteria, frequency: search.frequency }}
+                submitLabel="Save changes"
+                onSubmit={async (values) => {
+                  replace(await updateSavedSearch(search.id, values))
+                  setEditingId(null)
+                  toast.success('Saved search updated')
+                }}
+                onCancel={() => setEditingId(null)}
+              />
+            ) : (
+              <div className="flex items-center gap-4">
+                <div className="flex-1 min-w-0">
+                  <div className="font-semibold">{search.name}</div>
+                  <div className="text-sm text-gray-400 truncate">{describeCriteria(search.criteria)}</div>
+                </div>
+
+                <select
+                  value={search.frequency}
+                  onChange={(e) => handleFrequencyChange(search, e.target.value as AlertFrequency)}
+                  className="bg-gray-800 text-white px-2 py-1 rounded text-sm"
+                  aria-label="Alert frequency"
+                >
+                  {Object.entries(FREQUENCY_LABELS).map(([id, label]) => (
+                    <option key={id} value={id}>{label}</option>
+                  ))}
+                </select>
+
+                <Link
+                  href={`/search?q=${encodeURIComponent(search.criteria.query)}`}
+                  className="px-3 py-1 bg-gray-600 hover:bg-gray-500 rounded text-sm"
+                >
+                  Run
+                </Link>
+                <button
+                  onClick={() => setEditingId(search.id)}
+                  className="px-3 py-1 bg-gray-600 hover:bg-gray-500 rounded text-sm"
+                >
+                  ✏️
+                </button>
+                <button
+                  onClick={() => handleDelete(search)}
+                  className="px-3 py-1 bg-red-600 hover:bg-red-700 rounded text-sm"
+                >
+                  🗑️
+                </button>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,76 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import toast from 'react-hot-toast'
+import { Bell, BellRing, Loader2 } from 'lucide-react'
+import { Button } from '@/components/ui/button'
+import { fetchFollowedVenues, followVenue, unfollowVenue } from '@/lib/venues/client'
+import { venueKey } from '@/lib/venues/follows'
+import type { VenueFollow } from '@/lib/venues/types'
+
+interface FollowVenueButtonProps {
+  venueName: string
+  /** Canonical venue, when the event was resolved to one */
+  venueId?: string | null
+  city?: string | null
+  className?: string
+}
+
+function errorMessage(error: unknown, fallback: string): string {
+  return error instanceof Error ? error.message : fallback
+}
+
+/**
+ * Follow/unfollow a venue as listed on an event. The follow state is
+ * loaded client-side once the viewer's session is known.
+ */
+export function FollowVenueButton({ venueName, venueId = null, city = null, className = '' }: FollowVenueButtonProps) {
+  const [follow, setFollow] = useState<VenueFollow | null>(null)
+  const [busy, setBusy] = useState(false)
+
+  useEffect(() => {
+    const key = venueKey(venueName)
+    fetchFollowedVenues()
+      .then(follows => setFollow(
+        follows.find(f => (venueId && f.venueId ? f.venueId === venueId : f.venueKey === key)) || null
+      ))
+      .catch(() => {})
+  }, [venueName, venueId])
+
+  const handleFollow = async () => {
+    setBusy(true)
+    try {
+      setFollow(await followVenue(venueName, city))
+      toast.success(`We'll tell you when ${venueName} lists new events`)
+    } catch (error) {
+      toast.error(errorMessage(error, 'Failed to follow venue'))
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleUnfollow = async () => {
+    if (!follow) return
+    setBusy(true)
+    try {
+      await unfollowVenue(follow)
+      setFollow(null)
+    } catch (error) {
+      toast.error(errorMessage(error, 'Failed to unfollow venue'))
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  return follow ? (
+    <Button variant="outline" size="sm" onClick={handleUnfollow} disabled={busy} className={className}>
+      {busy ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <BellRing className="w-4 h-4 mr-2" />}
+      Following venue
+    </Button>
+  ) : (
+    <Button variant="outline" size="sm" onClick={handleFollow} disabled={busy} className={className}>
+      {busy ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Bell className="w-4 h-4 mr-2" />}
+      Follow venue
+    </Button>
+  )
+}
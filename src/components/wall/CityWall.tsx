@@ -0,0 +1,537 @@
+'use client'
+
+import { useCallback, useEffect, useMemo, useRef, useState } from 'react'
+import { formatDistanceToNow } from 'date-fns'
+import toast from 'react-hot-toast'
+import { Heart, MessageCircle, Camera, Flag, Trash2, X, Loader2, MoreHorizontal, Ticket } from 'lucide-react'
+import { Card, CardContent, CardHeader } from '@/components/ui/card'
+import { Button } from '@/components/ui/button'
+import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar'
+import { Textarea } from '@/components/ui/textarea'
+import { Input } from '@/components/ui/input'
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu'
+import BlurImage from '@/components/BlurImage'
+import { createClient } from '@/lib/supabase/client'
+import { getSavedEvents } from '@/lib/saved/store'
+import {
+  addWallComment,
+  createWallPost,
+  fetchWallComments,
+  fetchWallPosts,
+  removeWallPost,
+  reportWallContent,
+  setWallLike,
+  subscribeToWall,
+  uploadWallImage,
+} from '@/lib/wall/client'
+import type { WallCity, WallComment, WallPost, WallReportReason, WallSort, WallStreamUpdate } from '@/lib/wall/types'
+
+const REPORT_REASONS: Array<{ value: WallReportReason; label: string }> = [
+  { value: 'spam', label: 'Spam' },
+  { value: 'harassment', label: 'Harassment' },
+  { value: 'inappropriate', label: 'Inappropriate' },
+  { value: 'misinformation', label: 'Wrong event info' },
+  { value: 'other', label: 'Something else' },
+]
+
+function initials(name: string): string {
+  return name.split(' ').map(n => n[0]).join('').slice(0, 2).toUpperCase()
+}
+
+function timeAgo(iso: string): string {
+  return formatDistanceToNow(new Date(iso), { addSuffix: true })
+}
+
+function errorMessage(error: unknown, fallback: string): string {
+  return error instanceof Error ? error.message : fallback
+}
+
+function ReportMenu({ onReport }: { onReport: (reason: WallReportReason) => void }) {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="sm" className="text-muted-foreground" aria-label="More actions">
+          <MoreHorizontal className="w-4 h-4" />
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="z-50 min-w-[10rem] rounded-md border bg-white p-1 shadow-md">
+        <DropdownMenuLabel className="px-2 py-1.5 text-xs font-semibold text-muted-foreground">
+          <Flag className="w-3 h-3 inline mr-1" />
+          Report
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator className="my-1 h-px bg-gray-100" />
+        {REPORT_REASONS.map(reason => (
+          <DropdownMenuItem
+            key={reason.value}
+            className="cursor-pointer rounded-sm px-2 py-1.5 text-sm outline-none hover:bg-gray-100"
+            onSelect={() => onReport(reason.value)}
+          >
+            {reason.label}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  )
+}
+
+function Comments({
+  post,
+  liveComments,
+  currentUserId,
+}: {
+  post: WallPost
+  liveComments: WallComment[]
+  currentUserId: string | null
+}) {
+  const [comments, setComments] = useState<WallComment[] | null>(null)
+  const [draft, setDraft] = useState('')
+  const [sending, setSending] = useState(false)
+
+  useEffect(() => {
+    fetchWallComments(post.id)
+      .then(setComments)
+      .catch(error => toast.error(errorMessage(error, 'Failed to load comments')))
+  }, [post.id])
+
+  // Merge comments that arrived over the stream after the initial load
+  const shown = comments
+    ? [...comments, ...liveComments.filter(live => !comments.some(c => c.id === live.id))]
+    : null
+
+  const handleSubmit = async () => {
+    if (!draft.trim()) return
+    setSending(true)
+    try {
+      const comment = await addWallComment(post.id, draft)
+      setComments(prev => (prev ? [...prev.filter(c => c.id !== comment.id), comment] : [comment]))
+      setDraft('')
+    } catch (error) {
+      toast.error(errorMessage(error, 'Failed to add comment'))
+    } finally {
+      setSending(false)
+    }
+  }
+
+  const handleReport = async (commentId: string, reason: WallReportReason) => {
+    try {
+      const { hidden } = await reportWallContent({ postId: post.id, commentId, reason })
+      if (hidden) setComments(prev => prev?.filter(c => c.id !== commentId) || null)
+      toast.success('Thanks, our moderators will take a look')
+    } catch (error) {
+      toast.error(errorMessage(error, 'Failed to report comment'))
+    }
+  }
+
+  return (
+    <div className="mt-3 pt-3 border-t space-y-3">
+      {!shown && <Loader2 className="w-4 h-4 animate-spin text-muted-foreground" />}
+      {shown?.map(comment => (
+        <div key={comment.id} className="flex items-start space-x-2">
+          <Avatar className="w-7 h-7">
+            {comment.author_avatar_url && <AvatarImage src={comment.author_avatar_url} alt={comment.author_name} />}
+            <AvatarFallback className="text-xs">{initials(comment.author_name)}</AvatarFallback>
+          </Avatar>
+          <div className="flex-1 rounded-lg bg-muted/50 px-3 py-2">
+            <div className="flex items-center justify-between">
+              <span className="text-xs font-semibold">{comment.author_name}</span>
+              <span className="text-xs text-muted-foreground">{timeAgo(comment.created_at)}</span>
+            </div>
+            <p className="text-sm whitespace-pre-wrap">{comment.content}</p>
+          </div>
+          {currentUserId && comment.user_id !== currentUserId && (
+            <ReportMenu onReport={reason => handleReport(comment.id, reason)} />
+          )}
+        </div>
+      ))}
+
+      {currentUserId && (
+        <div className="flex space-x-2">
+          <Input
+            value={draft}
+            onChange={e => setDraft(e.target.value)}
+            onKeyDown={e => { if (e.key === 'Enter') handleSubmit() }}
+            placeholder="Add a comment..."
+            maxLength={500}
+          />
+          <Button size="sm" onClick={handleSubmit} disabled={sending || !draft.trim()}>
+            {sending ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Reply'}
+          </Button>
+        </div>
+      )}
+    </div>
+  )
+}
+
+function PostCard({
+  post,
+  liveComments,
+  currentUserId,
+  onLike,
+  onRemove,
+  onReport,
+}: {
+  post: WallPost
+  liveComments: WallComment[]
+  currentUserId: string | null
+  onLike: () => void
+  onRemove: () => void
+  onReport: (reason: WallReportReason) => void
+}) {
+  const [showComments, setShowComments] = useState(false)
+  const isOwn = currentUserId === post.user_id
+
+  return (
+    <Card className="mb-6">
+      <CardHeader className="pb-3">
+        <div className="flex items-center space-x-3">
+          <Avatar>
+            {post.author_avatar_url && <AvatarImage src={post.author_avatar_url} alt={post.author_name} />}
+            <AvatarFallback>{initials(post.author_name)}</AvatarFallback>
+          </Avatar>
+          <div className="flex-1">
+            <h4 className="font-semibold text-sm">{post.author_name}</h4>
+            <p className="text-xs text-muted-foreground">{timeAgo(post.created_at)}</p>
+            {(post.event_title || post.venue_name) && (
+              <p className="text-xs text-primary">
+                {post.event_title ? `at ${post.event_title}` : ''}
+                {post.event_title && post.venue_name ? ' · ' : ''}
+                {post.venue_name ? (post.event_title ? post.venue_name : `at ${post.venue_name}`) : ''}
+              </p>
+            )}
+          </div>
+          {isOwn ? (
+            <Button variant="ghost" size="sm" className="text-muted-foreground" onClick={onRemove} aria-label="Remove post">
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          ) : currentUserId && (
+            <ReportMenu onReport={onReport} />
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="pt-0">
+        <p className="text-sm mb-3 leading-relaxed whitespace-pre-wrap">{post.content}</p>
+
+        {post.image_url && (
+          <div className="relative h-64 rounded-lg overflow-hidden mb-4">
+            <BlurImage
+              src={post.image_url}
+              alt="Post image"
+              fill
+              className="object-cover"
+            />
+          </div>
+        )}
+
+        <div className="flex items-center space-x-2 pt-3 border-t">
+          <Button
+            variant="ghost"
+            size="sm"
+            className={post.liked_by_me ? 'text-red-500' : 'text-muted-foreground hover:text-red-500'}
+            onClick={onLike}
+            disabled={!currentUserId}
+          >
+            <Heart className={`w-4 h-4 mr-1 ${post.liked_by_me ? 'fill-current' : ''}`} />
+            {post.like_count}
+          </Button>
+          <Button variant="ghost" size="sm" className="text-muted-foreground" onClick={() => setShowComments(v => !v)}>
+            <MessageCircle className="w-4 h-4 mr-1" />
+            {post.comment_count}
+          </Button>
+        </div>
+
+        {showComments && (
+          <Comments post={post} liveComments={liveComments} currentUserId={currentUserId} />
+        )}
+      </CardContent>
+    </Card>
+  )
+}
+
+function Composer({ citySlug, onPosted }: { citySlug: string; onPosted: (post: WallPost) => void }) {
+  const [content, setContent] = useState('')
+  const [image, setImage] = useState<File | null>(null)
+  const [taggedEventId, setTaggedEventId] = useState('')
+  const [posting, setPosting] = useState(false)
+  const [savedEvents, setSavedEvents] = useState<any[]>([])
+  const fileInput = useRef<HTMLInputElement>(null)
+  const previewUrl = useMemo(() => (image ? URL.createObjectURL(image) : null), [image])
+
+  useEffect(() => {
+    setSavedEvents(getSavedEvents().filter(event => event?.id && event?.title))
+  }, [])
+
+  useEffect(() => () => { if (previewUrl) URL.revokeObjectURL(previewUrl) }, [previewUrl])
+
+  const handleSubmit = async () => {
+    if (!content.trim()) return
+    setPosting(true)
+    try {
+      const image_url = image ? await uploadWallImage(image) : undefined
+      const tagged = savedEvents.find(event => event.id === taggedEventId)
+
+      const post = await createWallPost(citySlug, {
+        content,
+        image_url,
+        event_id: tagged?.id,
+        event_title: tagged?.title,
+        venue_name: tagged?.venue_name || tagged?.venue?.name,
+      })
+
+      onPosted(post)
+      setContent('')
+      setImage(null)
+      setTaggedEventId('')
+    } catch (error) {
+      toast.error(errorMessage(error, 'Failed to share post'))
+    } finally {
+      setPosting(false)
+    }
+  }
+
+  return (
+    <Card className="mb-8">
+      <CardContent className="p-6">
+        <div className="flex space-x-3">
+          <Avatar>
+            <AvatarFallback>You</AvatarFallback>
+          </Avatar>
+          <div className="flex-1 space-y-4">
+            <Textarea
+              value={content}
+              onChange={e => setContent(e.target.value)}
+              placeholder="Share your experience or discover something new..."
+              className="min-h-[80px] resize-none"
+              maxLength={2000}
+            />
+
+            {previewUrl && (
+              <div className="relative h-40 w-40 rounded-lg overflow-hidden">
+                <BlurImage src={previewUrl} alt="Attachment preview" fill unoptimized className="object-cover" />
+                <button
+                  type="button"
+                  onClick={() => setImage(null)}
+                  className="absolute top-1 right-1 rounded-full bg-black/60 p-1 text-white"
+                  aria-label="Remove image"
+                >
+                  <X className="w-3 h-3" />
+                </button>
+              </div>
+            )}
+
+            {savedEvents.length > 0 && (
+              <div className="flex items-center space-x-2">
+                <Ticket className="w-4 h-4 text-muted-foreground" />
+                <select
+                  value={taggedEventId}
+                  onChange={e => setTaggedEventId(e.target.value)}
+                  className="flex-1 text-sm border rounded-md px-2 py-1 bg-white"
+                >
+                  <option value="">Tag one of your saved events (optional)</option>
+                  {savedEvents.map(event => (
+                    <option key={event.id} value={event.id}>{event.title}</option>
+                  ))}
+                </select>
+              </div>
+            )}
+
+            <div className="flex items-center justify-between">
+              <input
+                ref={fileInput}
+                type="file"
+                accept="image/jpeg,image/png,image/gif,image/webp"
+                className="hidden"
+                onChange={e => setImage(e.target.files?.[0] || null)}
+              />
+              <Button variant="ghost" size="sm" className="text-muted-foreground" onClick={() => fileInput.current?.click()}>
+                <Camera className="w-4 h-4 mr-2" />
+                Add Photo
+              </Button>
+              <Button size="sm" onClick={handleSubmit} disabled={posting || !content.trim()}>
+                {posting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Share Post
+              </Button>
+            </div>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
+
+export function CityWall({ city, initialPosts }: { city: WallCity; initialPosts: WallPost[] }) {
+  const [posts, setPosts] = useState<WallPost[]>(initialPosts)
+  const [sort, setSort] = useState<WallSort>('latest')
+  const sortRef = useRef(sort)
+  sortRef.current = sort
+  const [loading, setLoading] = useState(false)
+  const [hasMore, setHasMore] = useState(initialPosts.length >= 20)
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null)
+  const [liveComments, setLiveComments] = useState<Record<string, WallComment[]>>({})
+
+  useEffect(() => {
+    createClient().auth.getSession().then(({ data: { session } }) => {
+      setCurrentUserId(session?.user.id || null)
+    })
+  }, [])
+
+  const loadPosts = useCallback(async (nextSort: WallSort, before?: string) => {
+    setLoading(true)
+    try {
+      const page = await fetchWallPosts(city.slug, { sort: nextSort, before })
+      setPosts(prev => (before ? [...prev, ...page.filter(p => !prev.some(existing => existing.id === p.id))] : page))
+      setHasMore(nextSort === 'latest' && page.length >= 20)
+    } catch (error) {
+      toast.error(errorMessage(error, 'Failed to load posts'))
+    } finally {
+      setLoading(false)
+    }
+  }, [city.slug])
+
+  // Refetch once signed in so liked_by_me reflects the viewer
+  useEffect(() => {
+    if (currentUserId) loadPosts(sortRef.current)
+  }, [currentUserId, loadPosts])
+
+  const applyUpdate = useCallback((update: WallStreamUpdate) => {
+    switch (update.kind) {
+      case 'post':
+        if (sort !== 'latest') return
+        setPosts(prev => (prev.some(p => p.id === update.post.id) ? prev : [update.post, ...prev]))
+        break
+      case 'post_counts':
+        setPosts(prev => prev.map(p => (
+          p.id === update.post_id ? { ...p, like_count: update.like_count, comment_count: update.comment_count } : p
+        )))
+        break
+      case 'comment':
+        setLiveComments(prev => ({
+          ...prev,
+          [update.comment.post_id]: [...(prev[update.comment.post_id] || []), update.comment],
+        }))
+        break
+      case 'removed':
+        if (update.comment_id) {
+          setLiveComments(prev => ({
+            ...prev,
+            [update.post_id]: (prev[update.post_id] || []).filter(c => c.id !== update.comment_id),
+          }))
+        } else {
+          setPosts(prev => prev.filter(p => p.id !== update.post_id))
+        }
+        break
+      case 'restored':
+        // Restored content isn't in the payload; pick it up on the next load
+        break
+    }
+  }, [sort])
+
+  useEffect(() => subscribeToWall(city.slug, applyUpdate), [city.slug, applyUpdate])
+
+  const handleSort = (nextSort: WallSort) => {
+    setSort(nextSort)
+    loadPosts(nextSort)
+  }
+
+  const handleLike = async (post: WallPost) => {
+    const liked = !post.liked_by_me
+    // Optimistic; the stream (or the response) settles the count
+    setPosts(prev => prev.map(p => (
+      p.id === post.id ? { ...p, liked_by_me: liked, like_count: p.like_count + (liked ? 1 : -1) } : p
+    )))
+    try {
+      const result = await setWallLike(post.id, liked)
+      setPosts(prev => prev.map(p => (p.id === post.id ? { ...p, liked_by_me: result.liked, like_count: result.like_count } : p)))
+    } catch (error) {
+      setPosts(prev => prev.map(p => (p.id === post.id ? { ...p, liked_by_me: post.liked_by_me, like_count: post.like_count } : p)))
+      toast.error(errorMessage(error, 'Failed to update like'))
+    }
+  }
+
+  const handleRemove = async (post: WallPost) => {
+    if (!confirm('Remove this post from the wall?')) return
+    try {
+      await removeWallPost(post.id)
+      setPosts(prev => prev.filter(p => p.id !== post.id))
+    } catch (error) {
+      toast.error(errorMessage(error, 'Failed to remove post'))
+    }
+  }
+
+  const handleReport = async (post: WallPost, reason: WallReportReason) => {
+    try {
+      const { hidden } = await reportWallContent({ postId: post.id, reason })
+      if (hidden) setPosts(prev => prev.filter(p => p.id !== post.id))
+      toast.success('Thanks, our moderators will take a look')
+    } catch (error) {
+      toast.error(errorMessage(error, 'Failed to report post'))
+    }
+  }
+
+  return (
+    <>
+      {currentUserId ? (
+        <Composer
+          citySlug={city.slug}
+          onPosted={post => setPosts(prev => [post, ...prev.filter(p => p.id !== post.id)])}
+        />
+      ) : (
+        <Card className="mb-8">
+          <CardContent className="p-6 text-center text-sm text-muted-foreground">
+            Log in to share what you&apos;re seeing in {city.name}.
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Sort Options */}
+      <div className="flex items-center space-x-2 mb-6">
+        <Button variant={sort === 'latest' ? 'outline' : 'ghost'} size="sm" onClick={() => handleSort('latest')}>
+          Latest
+        </Button>
+        <Button variant={sort === 'popular' ? 'outline' : 'ghost'} size="sm" onClick={() => handleSort('popular')}>
+          Popular this week
+        </Button>
+      </div>
+
+      {/* Posts Feed */}
+      <div>
+        {posts.map(post => (
+          <PostCard
+            key={post.id}
+            post={post}
+            liveComments={liveComments[post.id] || []}
+            currentUserId={currentUserId}
+            onLike={() => handleLike(post)}
+            onRemove={() => handleRemove(post)}
+            onReport={reason => handleReport(post, reason)}
+          />
+        ))}
+        {posts.length === 0 && !loading && (
+          <p className="text-center text-sm text-muted-foreground py-12">
+            No posts yet. Be the first to share something happening in {city.name}.
+          </p>
+        )}
+      </div>
+
+      {/* Load More */}
+      {hasMore && (
+        <div className="text-center mt-8">
+          <Button
+            variant="outline"
+            disabled={loading}
+            onClick={() => loadPosts(sort, posts[posts.length - 1]?.created_at)}
+          >
+            {loading && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Load More Posts
+          </Button>
+        </div>
+      )}
+    </>
+  )
+}
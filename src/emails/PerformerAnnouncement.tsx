@@ -0,0 +1,146 @@
+import {
+  Html,
+  Head,
+  Preview,
+  Body,
+  Container,
+  Section,
+  Heading,
+  Text,
+  Button,
+} from '@react-email/components';
+
+interface PerformerAnnouncementEmailProps {
+  userName: string;
+  performerName: string;
+  city: string;
+  dates: string[];
+  performerUrl: string;
+}
+
+export default function PerformerAnnouncementEmail({
+  userName,
+  performerName,
+  city,
+  dates,
+  performerUrl,
+}: PerformerAnnouncementEmailProps) {
+  return (
+    <Html>
+      <Head />
+      <Preview>{`${performerName} announced ${dates.length === 1 ? 'a date' : 'dates'} in ${city}`}</Preview>
+      <Body style={main}>
+        <Container style={container}>
+          <Section style={header}>
+            <Heading style={h1}>New Date Announced</Heading>
+          </Section>
+
+          <Section style={content}>
+            <Text style={text}>
+              Hi {userName},
+            </Text>
+
+            <Text style={text}>
+              <strong>{performerName}</strong>, an artist you follow, is playing {city}:
+            </Text>
+
+            <Section style={changeList}>
+              {dates.map((date) => (
+                <Text key={date} style={changeItem}>
+                  • {date}
+                </Text>
+              ))}
+            </Section>
+
+            <Button style={button} href={performerUrl}>
+              See All Dates
+            </Button>
+
+            <Text style={footer}>
+              You get these because you follow {performerName} for {city}. Unfollow on their page to stop them.
+              <br />
+              <br />
+              The SceneScout Team
+            </Text>
+          </Section>
+        </Container>
+      </Body>
+    </Html>
+  );
+}
+
+// Styles
+const main = {
+  backgroundColor: '#f6f9fc',
+  fontFamily: '-apple-system,BlinkMacSystemFont,"Segoe UI",Roboto,"Helvetica Neue",Ubuntu,sans-serif',
+};
+
+const container = {
+  backgroundColor: '#ffffff',
+  margin: '0 auto',
+  padding: '20px 0 48px',
+  marginBottom: '64px',
+  maxWidth: '600px',
+};
+
+const header = {
+  padding: '32px 20px',
+  textAlign: 'center' as const,
+  background: 'linear-gradient(135deg, #667eea 0%, #764ba2 100%)',
+};
+
+const h1 = {
+  color: '#ffffff',
+  fontSize: '28px',
+  fontWeight: 'bold',
+  margin: '0',
+  padding: '0',
+};
+
+const content = {
+  padding: '0 48px',
+};
+
+const text = {
+  color: '#4a5568',
+  fontSize: '16px',
+  lineHeight: '26px',
+  margin: '16px 0',
+};
+
+const changeList = {
+  backgroundColor: '#f7fafc',
+  borderRadius: '12px',
+  padding: '16px 24px',
+  margin: '24px 0',
+  border: '1px solid #e2e8f0',
+};
+
+const changeItem = {
+  color: '#1a202c',
+  fontSize: '15px',
+  lineHeight: '24px',
+  margin: '4px 0',
+};
+
+const button = {
+  backgroundColor: '#667eea',
+  borderRadius: '8px',
+  color: '#ffffff',
+  fontSize: '16px',
+  fontWeight: 'bold',
+  textDecoration: 'none',
+  textAlign: 'center' as const,
+  display: 'block',
+  padding: '14px 20px',
+  margin: '32px 0',
+};
+
+const footer = {
+  color: '#718096',
+  fontSize: '14px',
+  lineHeight: '24px',
+  margin: '32px 0 0 0',
+  borderTop: '1px solid #e2e8f0',
+  paddingTop: '24px',
+};
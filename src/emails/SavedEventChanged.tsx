@@ -0,0 +1,146 @@
+import {
+  Html,
+  Head,
+  Preview,
+  Body,
+  Container,
+  Section,
+  Heading,
+  Text,
+  Button,
+} from '@react-email/components';
+
+interface SavedEventChangedEmailProps {
+  userName: string;
+  eventName: string;
+  changes: string[];
+  eventUrl: string;
+  cancelled?: boolean;
+}
+
+export default function SavedEventChangedEmail({
+  userName,
+  eventName,
+  changes,
+  eventUrl,
+  cancelled = false,
+}: SavedEventChangedEmailProps) {
+  return (
+    <Html>
+      <Head />
+      <Preview>{cancelled ? `${eventName} was cancelled` : `${eventName} has changed`}</Preview>
+      <Body style={main}>
+        <Container style={container}>
+          <Section style={header}>
+            <Heading style={h1}>{cancelled ? 'Event Cancelled' : 'Event Updated'}</Heading>
+          </Section>
+
+          <Section style={content}>
+            <Text style={text}>
+              Hi {userName},
+            </Text>
+
+            <Text style={text}>
+              Something changed on <strong>{eventName}</strong>, an event you saved:
+            </Text>
+
+            <Section style={changeList}>
+              {changes.map((change) => (
+                <Text key={change} style={changeItem}>
+                  • {change}
+                </Text>
+              ))}
+            </Section>
+
+            <Button style={button} href={eventUrl}>
+              View Event Details
+            </Button>
+
+            <Text style={footer}>
+              We check your saved events against the ticketing site a few times a day.
+              <br />
+              <br />
+              The SceneScout Team
+            </Text>
+          </Section>
+        </Container>
+      </Body>
+    </Html>
+  );
+}
+
+// Styles
+const main = {
+  backgroundColor: '#f6f9fc',
+  fontFamily: '-apple-system,BlinkMacSystemFont,"Segoe UI",Roboto,"Helvetica Neue",Ubuntu,sans-serif',
+};
+
+const container = {
+  backgroundColor: '#ffffff',
+  margin: '0 auto',
+  padding: '20px 0 48px',
+  marginBottom: '64px',
+  maxWidth: '600px',
+};
+
+const header = {
+  padding: '32px 20px',
+  textAlign: 'center' as const,
+  background: 'linear-gradient(135deg, #667eea 0%, #764ba2 100%)',
+};
+
+const h1 = {
+  color: '#ffffff',
+  fontSize: '28px',
+  fontWeight: 'bold',
+  margin: '0',
+  padding: '0',
+};
+
+const content = {
+  padding: '0 48px',
+};
+
+const text = {
+  color: '#4a5568',
+  fontSize: '16px',
+  lineHeight: '26px',
+  margin: '16px 0',
+};
+
+const changeList = {
+  backgroundColor: '#f7fafc',
+  borderRadius: '12px',
+  padding: '16px 24px',
+  margin: '24px 0',
+  border: '1px solid #e2e8f0',
+};
+
+const changeItem = {
+  color: '#1a202c',
+  fontSize: '15px',
+  lineHeight: '24px',
+  margin: '4px 0',
+};
+
+const button = {
+  backgroundColor: '#667eea',
+  borderRadius: '8px',
+  color: '#ffffff',
+  fontSize: '16px',
+  fontWeight: 'bold',
+  textDecoration: 'none',
+  textAlign: 'center' as const,
+  display: 'block',
+  padding: '14px 20px',
+  margin: '32px 0',
+};
+
+const footer = {
+  color: '#718096',
+  fontSize: '14px',
+  lineHeight: '24px',
+  margin: '32px 0 0 0',
+  borderTop: '1px solid #e2e8f0',
+  paddingTop: '24px',
+};
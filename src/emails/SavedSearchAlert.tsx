@@ -0,0 +1,164 @@
+import {
+  Html,
+  Head,
+  Preview,
+  Body,
+  Container,
+  Section,
+  Heading,
+  Text,
+  Button,
+  Link,
+} from '@react-email/components';
+
+interface SavedSearchAlertEmailProps {
+  userName: string;
+  searchName: string;
+  summary: string;
+  matches: Array<{ label: string; url: string }>;
+  searchUrl: string;
+  settingsUrl: string;
+}
+
+export default function SavedSearchAlertEmail({
+  userName,
+  searchName,
+  summary,
+  matches,
+  searchUrl,
+  settingsUrl,
+}: SavedSearchAlertEmailProps) {
+  return (
+    <Html>
+      <Head />
+      <Preview>{`${matches.length} new ${matches.length === 1 ? 'match' : 'matches'} for ${searchName}`}</Preview>
+      <Body style={main}>
+        <Container style={container}>
+          <Section style={header}>
+            <Heading style={h1}>New Matches</Heading>
+          </Section>
+
+          <Section style={content}>
+            <Text style={text}>
+              Hi {userName},
+            </Text>
+
+            <Text style={text}>
+              New events match your saved search <strong>{searchName}</strong>:
+            </Text>
+
+            <Text style={summaryText}>{summary}</Text>
+
+            <Section style={changeList}>
+              {matches.map((match) => (
+                <Text key={match.url} style={changeItem}>
+                  • <Link href={match.url} style={matchLink}>{match.label}</Link>
+                </Text>
+              ))}
+            </Section>
+
+            <Button style={button} href={searchUrl}>
+              Run This Search
+            </Button>
+
+            <Text style={footer}>
+              You get these because you saved this search. Change how often you hear about it, or delete it, in{' '}
+              <Link href={settingsUrl} style={matchLink}>Settings</Link>.
+              <br />
+              <br />
+              The SceneScout Team
+            </Text>
+          </Section>
+        </Container>
+      </Body>
+    </Html>
+  );
+}
+
+// Styles
+const main = {
+  backgroundColor: '#f6f9fc',
+  fontFamily: '-apple-system,BlinkMacSystemFont,"Segoe UI",Roboto,"Helvetica Neue",Ubuntu,sans-serif',
+};
+
+const container = {
+  backgroundColor: '#ffffff',
+  margin: '0 auto',
+  padding: '20px 0 48px',
+  marginBottom: '64px',
+  maxWidth: '600px',
+};
+
+const header = {
+  padding: '32px 20px',
+  textAlign: 'center' as const,
+  background: 'linear-gradient(135deg, #667eea 0%, #764ba2 100%)',
+};
+
+const h1 = {
+  color: '#ffffff',
+  fontSize: '28px',
+  fontWeight: 'bold',
+  margin: '0',
+  padding: '0',
+};
+
+const content = {
+  padding: '0 48px',
+};
+
+const text = {
+  color: '#4a5568',
+  fontSize: '16px',
+  lineHeight: '26px',
+  margin: '16px 0',
+};
+
+const changeList = {
+  backgroundColor: '#f7fafc',
+  borderRadius: '12px',
+  padding: '16px 24px',
+  margin: '24px 0',
+  border: '1px solid #e2e8f0',
+};
+
+const summaryText = {
+  color: '#718096',
+  fontSize: '14px',
+  lineHeight: '22px',
+  margin: '0 0 16px 0',
+};
+
+const matchLink = {
+  color: '#667eea',
+  textDecoration: 'none',
+};
+
+const changeItem = {
+  color: '#1a202c',
+  fontSize: '15px',
+  lineHeight: '24px',
+  margin: '4px 0',
+};
+
+const button = {
+  backgroundColor: '#667eea',
+  borderRadius: '8px',
+  color: '#ffffff',
+  fontSize: '16px',
+  fontWeight: 'bold',
+  textDecoration: 'none',
+  textAlign: 'center' as const,
+  display: 'block',
+  padding: '14px 20px',
+  margin: '32px 0',
+};
+
+const footer = {
+  color: '#718096',
+  fontSize: '14px',
+  lineHeight: '24px',
+  margin: '32px 0 0 0',
+  borderTop: '1px solid #e2e8f0',
+  paddingTop: '24px',
+};
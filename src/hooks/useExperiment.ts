@@ -0,0 +1,69 @@
+import { useCallback, useEffect, useRef, useState } from 'react'
+import { useTracking } from '@/hooks/useTracking'
+import { loadAssignments, logExperimentEvents, registerExperimentVariant } from '@/lib/experiments/client'
+import type { ExperimentAssignment } from '@/lib/experiments/bucketing'
+
+export type ExperimentOutcome = 'impression' | 'click' | 'save'
+
+/**
+ * Read a ranking experiment's variant and log exposures/outcomes for it
+ *
+ * Until assignments load (and for experiments that aren't running) the
+ * hook returns an unenrolled control with empty config, so callers should
+ * treat missing config keys as the current behaviour.
+ *
+ * @example
+ * ```tsx
+ * const { config, logExposure, trackOutcome } = useExperiment('for_you_ranking')
+ *
+ * useEffect(() => { if (events.length) logExposure() }, [events, logExposure])
+ * onClick={() => trackOutcome('click', event.id)}
+ * ```
+ */
+export function useExperiment(experimentKey: string) {
+  const { trackEvent } = useTracking()
+  const [assignment, setAssignment] = useState<ExperimentAssignment | null>(null)
+  const [loaded, setLoaded] = useState(false)
+  const exposed = useRef(false)
+
+  useEffect(() => {
+    let cancelled = false
+    loadAssignments().then(assignments => {
+      if (cancelled) return
+      setAssignment(assignments[experimentKey] || null)
+      setLoaded(true)
+    })
+    return () => { cancelled = true }
+  }, [experimentKey])
+
+  /**
+   * Call when the variant's output is actually rendered (once per mount)
+   */
+  const logExposure = useCallback(() => {
+    if (!assignment?.enrolled || exposed.current) return
+    exposed.current = true
+
+    registerExperimentVariant(assignment)
+    trackEvent('experiment_exposure', {
+      experiment_key: experimentKey,
+      variant: assignment.variant,
+    })
+    logExperimentEvents([{ experimentKey, type: 'exposure' }])
+  }, [assignment, experimentKey, trackEvent])
+
+  const trackOutcome = useCallback((type: ExperimentOutcome, eventIds?: string | string[]) => {
+    if (!assignment?.enrolled) return
+
+    const ids = Array.isArray(eventIds) ? eventIds : [eventIds]
+    logExperimentEvents(ids.map(eventId => ({ experimentKey, type, eventId })))
+  }, [assignment, experimentKey])
+
+  return {
+    ready: loaded,
+    enrolled: assignment?.enrolled ?? false,
+    variant: assignment?.variant ?? null,
+    config: assignment?.config ?? {},
+    logExposure,
+    trackOutcome,
+  }
+}
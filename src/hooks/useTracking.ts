@@ -32,6 +32,7 @@ export type TrackingEvent =
   | 'surprise_me_opened'
   | 'near_me_opened'
   | 'saved_events_opened'
+  | 'experiment_exposure'
 
 /**
  * Base event properties
@@ -133,7 +133,9 @@ export class BaseApiClient {
   /**
    * Update rate limit state from response headers
    */
-  private updateRateLimitFromHeaders(headers: Headers): void {
+  private updateRateLimitFromHeaders(headers?: Headers): void {
+    if (!headers) return
+
     // Common rate limit headers across APIs
     const remaining = headers.get('x-ratelimit-remaining') || 
                      headers.get('x-rate-limit-remaining') ||
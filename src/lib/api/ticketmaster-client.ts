@@ -1,5 +1,5 @@
-import { ApiClient, ApiResponse, BaseEvent, BaseVenue } from './base-client';
-import { apiConfig } from './types';
+import { BaseApiClient, BaseEvent, BaseVenue } from './base-client';
+import type { ApiError } from './types';
 
 /**
  * Ticketmaster API Client
@@ -154,6 +154,17 @@ interface TicketmasterEvent {
   };
 }
 
+/**
+ * Result of a Discovery API call. Failures (including rate limiting once
+ * retries are exhausted) resolve with success: false rather than throwing.
+ */
+interface TicketmasterResponse<T> {
+  success: boolean;
+  data: T;
+  error?: string;
+  status?: number;
+}
+
 interface TicketmasterEventsResponse {
   _embedded?: {
     events: TicketmasterEvent[];
@@ -244,8 +255,9 @@ interface AttractionSearchParams {
   includeSpellcheck?: boolean;
 }
 
-class TicketmasterApiClient extends ApiClient {
-  private config: TicketmasterConfig;
+class TicketmasterApiClient extends BaseApiClient {
+  private apiKey: string;
+  private dailyLimit: number;
   private lastRequestTime: number = 0;
   private requestCount: number = 0;
   private dailyRequestCount: number = 0;
@@ -262,20 +274,28 @@ class TicketmasterApiClient extends ApiClient {
       }
     };
 
-    super(config.baseURL, {
+    // BaseApiClient spaces requests to the per-second limit and retries 429s and 5xx
+    super({
+      apiKey,
+      baseUrl: config.baseURL,
+      rateLimit: {
+        requests: config.rateLimit.requestsPerSecond,
+        windowMs: 1000
+      },
       timeout: config.timeout,
-      headers: {
-        'Accept': 'application/json',
-        'User-Agent': 'SceneScout/1.0'
+      retryOptions: {
+        retries: 3,
+        retryDelay: 500
       }
     });
 
-    this.config = config;
+    this.apiKey = apiKey;
+    this.dailyLimit = config.rateLimit.requestsPerDay;
   }
 
-  private async enforceRateLimit(): Promise<void> {
+  private enforceDailyLimit(): void {
     const now = Date.now();
-    
+
     // Reset daily counter if it's a new day
     if (now - this.lastResetTime > 24 * 60 * 60 * 1000) {
       this.dailyRequestCount = 0;
@@ -283,118 +303,103 @@ class TicketmasterApiClient extends ApiClient {
     }
 
     // Check daily limit
-    if (this.dailyRequestCount >= this.config.rateLimit.requestsPerDay) {
+    if (this.dailyRequestCount >= this.dailyLimit) {
       throw new Error('Daily API request limit exceeded');
     }
 
-    // Enforce rate limit (requests per second)
-    const timeSinceLastRequest = now - this.lastRequestTime;
-    const minInterval = 1000 / this.config.rateLimit.requestsPerSecond;
-    
-    if (timeSinceLastRequest < minInterval) {
-      const waitTime = minInterval - timeSinceLastRequest;
-      await new Promise(resolve => setTimeout(resolve, waitTime));
-    }
-
-    this.lastRequestTime = Date.now();
+    this.lastRequestTime = now;
     this.requestCount++;
     this.dailyRequestCount++;
   }
 
-  private buildParams(params: Record<string, any>): URLSearchParams {
-    const searchParams = new URLSearchParams();
-    searchParams.set('apikey', this.config.apiKey);
-
-    Object.entries(params).forEach(([key, value]) => {
-      if (value !== undefined && value !== null && value !== '') {
-        searchParams.set(key, String(value));
-      }
-    });
+  private buildQuery(params: Record<string, any>): string {
+    return Object.entries({ apikey: this.apiKey, ...params })
+      .filter(([, value]) => value !== undefined && value !== null && value !== '')
+      .map(([key, value]) => `${encodeURIComponent(key)}=${encodeURIComponent(String(value))}`)
+      .join('&');
+  }
 
-    return searchParams;
+  /**
+   * GET a Discovery API path, resolving failures into the response
+   */
+  private async get<T>(path: string, params: Record<string, any> = {}): Promise<TicketmasterResponse<T>> {
+    try {
+      this.enforceDailyLimit();
+
+      const url = `${this.config.baseUrl}${path}?${this.buildQuery(params)}`;
+      const response = await this.makeRetryableRequest(() => this.makeRequest<T>(url, {
+        headers: { 'Accept': 'application/json' }
+      }));
+
+      return { success: true, data: response.data };
+    } catch (error) {
+      const apiError = error as ApiError;
+      return {
+        success: false,
+        data: null as T,
+        error: apiError.message || 'Ticketmaster request failed',
+        status: apiError.status
+      };
+    }
   }
 
   /**
    * Search for events
    */
-  async searchEvents(params: EventSearchParams = {}): Promise<ApiResponse<TicketmasterEventsResponse>> {
-    await this.enforceRateLimit();
-
-    const searchParams = this.buildParams({
+  async searchEvents(params: EventSearchParams = {}): Promise<TicketmasterResponse<TicketmasterEventsResponse>> {
+    return this.get<TicketmasterEventsResponse>('/events.json', {
       ...params,
       size: params.size || 20,
       sort: params.sort || 'date,asc'
     });
-
-    return this.get<TicketmasterEventsResponse>(`/events.json?${searchParams.toString()}`);
   }
 
   /**
    * Get event by ID
    */
-  async getEvent(eventId: string, locale: string = 'en'): Promise<ApiResponse<TicketmasterEvent>> {
-    await this.enforceRateLimit();
-
-    const searchParams = this.buildParams({ locale });
-    return this.get<TicketmasterEvent>(`/events/${eventId}.json?${searchParams.toString()}`);
+  async getEvent(eventId: string, locale: string = 'en'): Promise<TicketmasterResponse<TicketmasterEvent>> {
+    return this.get<TicketmasterEvent>(`/events/${eventId}.json`, { locale });
   }
 
   /**
    * Search for venues
    */
-  async searchVenues(params: VenueSearchParams = {}): Promise<ApiResponse<any>> {
-    await this.enforceRateLimit();
-
-    const searchParams = this.buildParams({
+  async searchVenues(params: VenueSearchParams = {}): Promise<TicketmasterResponse<any>> {
+    return this.get<any>('/venues.json', {
       ...params,
       size: params.size || 20
     });
-
-    return this.get<any>(`/venues.json?${searchParams.toString()}`);
   }
 
   /**
    * Get venue by ID
    */
-  async getVenue(venueId: string, locale: string = 'en'): Promise<ApiResponse<TicketmasterVenue>> {
-    await this.enforceRateLimit();
-
-    const searchParams = this.buildParams({ locale });
-    return this.get<TicketmasterVenue>(`/venues/${venueId}.json?${searchParams.toString()}`);
+  async getVenue(venueId: string, locale: string = 'en'): Promise<TicketmasterResponse<TicketmasterVenue>> {
+    return this.get<TicketmasterVenue>(`/venues/${venueId}.json`, { locale });
   }
 
   /**
    * Search for attractions (artists, teams, etc.)
    */
-  async searchAttractions(params: AttractionSearchParams = {}): Promise<ApiResponse<any>> {
-    await this.enforceRateLimit();
-
-    const searchParams = this.buildParams({
+  async searchAttractions(params: AttractionSearchParams = {}): Promise<TicketmasterResponse<any>> {
+    return this.get<any>('/attractions.json', {
       ...params,
       size: params.size || 20
     });
-
-    return this.get<any>(`/attractions.json?${searchParams.toString()}`);
   }
 
   /**
    * Get attraction by ID
    */
-  async getAttraction(attractionId: string, locale: string = 'en'): Promise<ApiResponse<TicketmasterAttraction>> {
-    await this.enforceRateLimit();
-
-    const searchParams = this.buildParams({ locale });
-    return this.get<TicketmasterAttraction>(`/attractions/${attractionId}.json?${searchParams.toString()}`);
+  async getAttraction(attractionId: string, locale: string = 'en'): Promise<TicketmasterResponse<TicketmasterAttraction>> {
+    return this.get<TicketmasterAttraction>(`/attractions/${attractionId}.json`, { locale });
   }
 
   /**
    * Get classifications (segments, genres, etc.)
    */
-  async getClassifications(locale: string = 'en'): Promise<ApiResponse<any>> {
-    await this.enforceRateLimit();
-
-    const searchParams = this.buildParams({ locale });
-    return this.get<any>(`/classifications.json?${searchParams.toString()}`);
+  async getClassifications(locale: string = 'en'): Promise<TicketmasterResponse<any>> {
+    return this.get<any>(`/classifications.json`, { locale });
   }
 
   /**
@@ -507,7 +512,7 @@ class TicketmasterApiClient extends ApiClient {
       totalRequests: this.requestCount,
       dailyRequests: this.dailyRequestCount,
       lastRequestTime: this.lastRequestTime,
-      dailyLimitRemaining: this.config.rateLimit.requestsPerDay - this.dailyRequestCount
+      dailyLimitRemaining: this.dailyLimit - this.dailyRequestCount
     };
   }
 }
@@ -525,6 +530,7 @@ export function createTicketmasterClient(): TicketmasterApiClient {
 
 export { TicketmasterApiClient };
 export type {
+  TicketmasterResponse,
   TicketmasterEvent,
   TicketmasterVenue,
   TicketmasterAttraction,
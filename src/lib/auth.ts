@@ -1,4 +1,5 @@
 import { supabase } from './supabase'
+import { syncSavedEvents } from './saved/store'
 import { type User, type AuthChangeEvent, type Session } from '@supabase/supabase-js'
 
 export interface AuthUser extends User {
@@ -144,9 +145,9 @@ export const authHelpers = {
         } as AuthError
       }
 
-      // Migrate anonymous user data if exists
-      if (data.user) {
-        await migrateAnonymousData(data.user.id)
+      // Merge saves made while signed out into the account
+      if (data.session) {
+        await syncSavedEvents(data.session)
       }
 
       return data
@@ -181,9 +182,9 @@ export const authHelpers = {
         } as AuthError
       }
 
-      // Migrate anonymous user data if exists
-      if (data.user) {
-        await migrateAnonymousData(data.user.id)
+      // Merge saves made while signed out into the account
+      if (data.session) {
+        await syncSavedEvents(data.session)
       }
 
       return data
@@ -346,8 +347,7 @@ async function clearUserData(): Promise<void> {
     // Clear user ID
     localStorage.removeItem('user_id')
 
-    // Clear saved events (keep for anonymous user)
-    // We don't clear these as they should persist for anonymous users
+    // Saved events are reset by the saved events sync (see startSavedEventsSync)
 
     // Clear push subscription
     localStorage.removeItem('push_subscription_endpoint')
@@ -372,63 +372,6 @@ async function clearUserData(): Promise<void> {
   }
 }
 
-// Migrate anonymous user data to authenticated user
-async function migrateAnonymousData(userId: string): Promise<void> {
-  if (typeof window === 'undefined') return
-
-  try {
-    const anonymousUserId = 'anonymous'
-
-    // Get anonymous saved events from database
-    const response = await fetch(`/api/saved-events?userId=${anonymousUserId}`)
-    if (!response.ok) {
-      console.log('No anonymous data to migrate')
-      return
-    }
-
-    const { events } = await response.json()
-
-    if (!events || events.length === 0) {
-      console.log('No anonymous saved events to migrate')
-      return
-    }
-
-    console.log(`Migrating ${events.length} saved events from anonymous to user ${userId}`)
-
-    // Migrate each saved event
-    for (const savedEvent of events) {
-      await fetch('/api/saved-events', {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          userId,
-          eventId: savedEvent.event_id,
-          eventData: savedEvent.event_data
-        })
-      })
-    }
-
-    // Delete anonymous data
-    for (const savedEvent of events) {
-      await fetch('/api/saved-events', {
-        method: 'DELETE',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          userId: anonymousUserId,
-          eventId: savedEvent.event_id
-        })
-      })
-    }
-
-    // Update localStorage user_id
-    localStorage.setItem('user_id', userId)
-
-    console.log(`Successfully migrated ${events.length} events to user ${userId}`)
-  } catch (error) {
-    console.error('Error migrating anonymous data:', error)
-  }
-}
-
 // Profile management
 export const profileHelpers = {
   // Get user profile
@@ -0,0 +1,26 @@
+/**
+ * Shared cache store
+ * With REDIS_URL set, query caches and rate limits are shared by every
+ * instance through Redis; without it each instance keeps its own in memory.
+ */
+
+import { MemoryCacheStore } from './memory'
+import { RedisCacheStore } from './redis'
+import type { CacheStore } from './types'
+
+export { MemoryCacheStore } from './memory'
+export { RedisCacheStore } from './redis'
+export type { CacheBackend, CacheStore, TokenBucket, TokenBucketResult } from './types'
+
+let store: CacheStore | null = null
+
+/**
+ * The store for this process, created on first use
+ */
+export function getCacheStore(): CacheStore {
+  if (!store) {
+    const redisUrl = process.env.REDIS_URL
+    store = redisUrl ? new RedisCacheStore(redisUrl) : new MemoryCacheStore()
+  }
+  return store
+}
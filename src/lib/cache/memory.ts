@@ -0,0 +1,145 @@
+/**
+ * In-process cache store
+ * LRU map with per-entry TTL. Used when no Redis server is configured and
+ * in tests; state is local to the instance.
+ */
+
+import { takeFromBucket, type TokenBucketState } from './token-bucket'
+import type { CacheStore, TokenBucket, TokenBucketResult } from './types'
+
+interface MemoryEntry {
+  value: string
+  expiresAt: number
+}
+
+/**
+ * Glob pattern (`*` wildcard) as an anchored regular expression
+ */
+export function globToRegExp(pattern: string): RegExp {
+  const escaped = pattern
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*')
+  return new RegExp(`^${escaped}$`)
+}
+
+export class MemoryCacheStore implements CacheStore {
+  readonly backend = 'memory' as const
+  private entries = new Map<string, MemoryEntry>()
+  private cleanupTimer: NodeJS.Timeout | null = null
+
+  constructor(
+    private maxEntries = 1000,
+    cleanupIntervalMs = 60000,
+    private now: () => number = Date.now
+  ) {
+    if (cleanupIntervalMs > 0) {
+      this.cleanupTimer = setInterval(() => this.removeExpired(), cleanupIntervalMs)
+      // Prevent the timer from keeping the process alive
+      this.cleanupTimer.unref?.()
+    }
+  }
+
+  async get(key: string): Promise<string | null> {
+    const entry = this.read(key)
+    if (!entry) return null
+
+    // Re-insert so the map's order tracks recency
+    this.entries.delete(key)
+    this.entries.set(key, entry)
+    return entry.value
+  }
+
+  async getMany(keys: string[]): Promise<Array<string | null>> {
+    return Promise.all(keys.map(key => this.get(key)))
+  }
+
+  async set(key: string, value: string, ttlMs: number): Promise<void> {
+    this.write(key, value, ttlMs)
+  }
+
+  async add(key: string, value: string, ttlMs: number): Promise<boolean> {
+    if (this.read(key)) return false
+    this.write(key, value, ttlMs)
+    return true
+  }
+
+  async delete(key: string): Promise<boolean> {
+    return this.entries.delete(key)
+  }
+
+  async keys(pattern: string): Promise<string[]> {
+    const matcher = globToRegExp(pattern)
+    return Array.from(this.entries.keys()).filter(key => this.read(key) && matcher.test(key))
+  }
+
+  async takeTokens(key: string, bucket: TokenBucket, count = 1): Promise<TokenBucketResult> {
+    const stored = this.read(key)
+    const now = this.now()
+    const { state, result } = takeFromBucket(
+      stored ? (JSON.parse(stored.value) as TokenBucketState) : null,
+      bucket,
+      count,
+      now
+    )
+
+    this.write(key, JSON.stringify(state), bucket.windowMs)
+    return result
+  }
+
+  async clear(): Promise<void> {
+    this.entries.clear()
+  }
+
+  get size(): number {
+    return this.entries.size
+  }
+
+  /**
+   * Stop the cleanup timer (for testing or graceful shutdown)
+   */
+  stopCleanup(): void {
+    if (this.cleanupTimer) {
+      clearInterval(this.cleanupTimer)
+      this.cleanupTimer = null
+    }
+  }
+
+  private read(key: string): MemoryEntry | null {
+    const entry = this.entries.get(key)
+    if (!entry) return null
+
+    if (this.now() > entry.expiresAt) {
+      this.entries.delete(key)
+      return null
+    }
+    return entry
+  }
+
+  private write(key: string, value: string, ttlMs: number): void {
+    // Evict the least recently used entry if the store is full
+    if (!this.entries.has(key) && this.entries.size >= this.maxEntries) {
+      const oldest = this.entries.keys().next().value
+      if (oldest !== undefined) this.entries.delete(oldest)
+    }
+
+    this.entries.delete(key)
+    this.entries.set(key, { value, expiresAt: this.now() + ttlMs })
+  }
+
+  private removeExpired(): void {
+    const now = this.now()
+    let cleaned = 0
+
+    for (const [key, entry] of this.entries.entries()) {
+      if (now > entry.expiresAt) {
+        this.entries.delete(key)
+        cleaned++
+      }
+    }
+
+    if (cleaned > 0) {
+      console.log(`🧹 Cache cleanup: removed ${cleaned} expired entries`)
+    }
+  }
+}
@@ -0,0 +1,265 @@
+/**
+ * Redis-protocol cache store
+ * Talks RESP2 over a single TCP (or TLS, for rediss:// URLs) connection, so
+ * it works with Redis, Valkey, Upstash and anything else that speaks the
+ * protocol. Keys are namespaced so several apps can share one server.
+ */
+
+import net from 'net'
+import tls from 'tls'
+import { encodeCommand, RespError, RespParser, type RespValue } from './resp'
+import { bucketResult } from './token-bucket'
+import type { CacheStore, TokenBucket, TokenBucketResult } from './types'
+
+export interface RedisConnectionOptions {
+  host: string
+  port: number
+  username?: string
+  password?: string
+  db: number
+  tls: boolean
+}
+
+export interface RedisCacheStoreOptions {
+  /** Prepended to every key */
+  keyPrefix?: string
+  /** Give up on a connection or a reply after this long */
+  timeoutMs?: number
+}
+
+interface PendingReply {
+  resolve: (value: RespValue) => void
+  reject: (error: Error) => void
+}
+
+interface Connection {
+  socket: net.Socket
+  parser: RespParser
+  pending: PendingReply[]
+}
+
+// Refills and takes in one step, on the server's clock, so instances never race
+const TAKE_TOKENS_SCRIPT = `
+local capacity = tonumber(ARGV[1])
+local window = tonumber(ARGV[2])
+local count = tonumber(ARGV[3])
+local time = redis.call('TIME')
+local now = tonumber(time[1]) * 1000 + math.floor(tonumber(time[2]) / 1000)
+local tokens = capacity
+local stored = redis.call('GET', KEYS[1])
+if stored then
+  local state = cjson.decode(stored)
+  tokens = math.min(capacity, state.tokens + math.max(0, now - state.updatedAt) / window * capacity)
+end
+local allowed = 0
+if tokens >= math.max(count, 1) then
+  tokens = tokens - count
+  allowed = 1
+end
+redis.call('SET', KEYS[1], cjson.encode({ tokens = tokens, updatedAt = now }), 'PX', window)
+return { allowed, tostring(tokens), tostring(now) }
+`
+
+// Batch size for SCAN and DEL when working through many keys
+const BATCH_SIZE = 200
+
+/**
+ * redis://[[username]:password@]host[:port][/db], or rediss:// for TLS
+ */
+export function parseRedisUrl(url: string): RedisConnectionOptions {
+  const parsed = new URL(url)
+  if (parsed.protocol !== 'redis:' && parsed.protocol !== 'rediss:') {
+    throw new Error(`Unsupported Redis URL protocol: ${parsed.protocol}`)
+  }
+
+  const db = parsed.pathname.replace(/^\//, '')
+  return {
+    host: parsed.hostname || 'localhost',
+    port: parsed.port ? parseInt(parsed.port, 10) : 6379,
+    username: parsed.username ? decodeURIComponent(parsed.username) : undefined,
+    password: parsed.password ? decodeURIComponent(parsed.password) : undefined,
+    db: db ? parseInt(db, 10) : 0,
+    tls: parsed.protocol === 'rediss:',
+  }
+}
+
+// Glob metacharacters other than `*` are matched literally, as MemoryCacheStore does
+function escapeGlob(pattern: string): string {
+  return pattern.replace(/[?[\]\\]/g, '\\$&')
+}
+
+export class RedisCacheStore implements CacheStore {
+  readonly backend = 'redis' as const
+  private options: RedisConnectionOptions
+  private keyPrefix: string
+  private timeoutMs: number
+  private connection: Connection | null = null
+  private connecting: Promise<Connection> | null = null
+
+  constructor(url: string, options: RedisCacheStoreOptions = {}) {
+    this.options = parseRedisUrl(url)
+    this.keyPrefix = options.keyPrefix ?? 'scenescout:'
+    this.timeoutMs = options.timeoutMs ?? 2000
+  }
+
+  async get(key: string): Promise<string | null> {
+    return (await this.command(['GET', this.prefixed(key)])) as string | null
+  }
+
+  async getMany(keys: string[]): Promise<Array<string | null>> {
+    if (keys.length === 0) return []
+    return (await this.command(['MGET', ...keys.map(key => this.prefixed(key))])) as Array<string | null>
+  }
+
+  async set(key: string, value: string, ttlMs: number): Promise<void> {
+    await this.command(['SET', this.prefixed(key), value, 'PX', this.ttl(ttlMs)])
+  }
+
+  async add(key: string, value: string, ttlMs: number): Promise<boolean> {
+    const reply = await this.command(['SET', this.prefixed(key), value, 'PX', this.ttl(ttlMs), 'NX'])
+    return reply === 'OK'
+  }
+
+  async delete(key: string): Promise<boolean> {
+    return ((await this.command(['DEL', this.prefixed(key)])) as number) > 0
+  }
+
+  async keys(pattern: string): Promise<string[]> {
+    const match = escapeGlob(this.keyPrefix) + escapeGlob(pattern)
+    const found = new Set<string>()
+    let cursor = '0'
+
+    do {
+      const [next, batch] = (await this.command(['SCAN', cursor, 'MATCH', match, 'COUNT', BATCH_SIZE])) as [string, string[]]
+      batch.forEach(key => found.add(key.slice(this.keyPrefix.length)))
+      cursor = next
+    } while (cursor !== '0')
+
+    return Array.from(found)
+  }
+
+  async takeTokens(key: string, bucket: TokenBucket, count = 1): Promise<TokenBucketResult> {
+    const [allowed, tokens, now] = (await this.command([
+      'EVAL',
+      TAKE_TOKENS_SCRIPT,
+      1,
+      this.prefixed(key),
+      bucket.capacity,
+      this.ttl(bucket.windowMs),
+      count,
+    ])) as [number, string, string]
+
+    return bucketResult(parseFloat(tokens), allowed === 1, bucket, count, parseInt(now, 10))
+  }
+
+  async clear(): Promise<void> {
+    const keys = await this.keys('*')
+    for (let i = 0; i < keys.length; i += BATCH_SIZE) {
+      await this.command(['DEL', ...keys.slice(i, i + BATCH_SIZE).map(key => this.prefixed(key))])
+    }
+  }
+
+  /**
+   * Close the connection; the next command reconnects
+   */
+  disconnect(): void {
+    const connection = this.connection
+    if (!connection) return
+    connection.socket.end()
+    this.fail(connection, new Error('Redis connection closed'))
+  }
+
+  private prefixed(key: string): string {
+    return `${this.keyPrefix}${key}`
+  }
+
+  private ttl(ttlMs: number): number {
+    return Math.max(1, Math.ceil(ttlMs))
+  }
+
+  private async command(args: Array<string | number>): Promise<RespValue> {
+    const connection = this.connection || (await this.connect())
+    return this.send(connection, args)
+  }
+
+  private send(connection: Connection, args: Array<string | number>): Promise<RespValue> {
+    return new Promise((resolve, reject) => {
+      connection.pending.push({ resolve, reject })
+      connection.socket.write(encodeCommand(args))
+    })
+  }
+
+  private connect(): Promise<Connection> {
+    if (!this.connecting) {
+      this.connecting = this.open().finally(() => {
+        this.connecting = null
+      })
+    }
+    return this.connecting
+  }
+
+  private async open(): Promise<Connection> {
+    const { host, port, username, password, db } = this.options
+
+    const socket = await new Promise<net.Socket>((resolve, reject) => {
+      const onTimeout = () => socket.destroy(new Error(`Timed out connecting to Redis at ${host}:${port}`))
+      const onConnect = () => {
+        socket.off('error', reject)
+        socket.off('timeout', onTimeout)
+        resolve(socket)
+      }
+      const socket = this.options.tls
+        ? tls.connect({ host, port, servername: host }, onConnect)
+        : net.connect({ host, port }, onConnect)
+
+      socket.once('error', reject)
+      socket.once('timeout', onTimeout)
+      socket.setTimeout(this.timeoutMs)
+    })
+
+    const connection: Connection = { socket, parser: new RespParser(), pending: [] }
+    socket.on('data', chunk => this.receive(connection, chunk))
+    socket.on('error', error => this.fail(connection, error))
+    socket.on('close', () => this.fail(connection, new Error('Redis connection closed')))
+    // Idle connections are fine; a reply that never arrives is not
+    socket.on('timeout', () => {
+      if (connection.pending.length > 0) socket.destroy(new Error('Timed out waiting for Redis'))
+    })
+
+    try {
+      if (password) await this.send(connection, username ? ['AUTH', username, password] : ['AUTH', password])
+      if (db) await this.send(connection, ['SELECT', db])
+    } catch (error) {
+      socket.destroy()
+      throw error
+    }
+
+    this.connection = connection
+    return connection
+  }
+
+  private receive(connection: Connection, chunk: Buffer): void {
+    let replies: RespValue[]
+    try {
+      replies = connection.parser.push(chunk)
+    } catch (error) {
+      connection.socket.destroy(error as Error)
+      return
+    }
+
+    for (const reply of replies) {
+      const waiting = connection.pending.shift()
+      if (!waiting) continue
+      if (reply instanceof RespError) waiting.reject(reply)
+      else waiting.resolve(reply)
+    }
+  }
+
+  // Replies are matched to commands by order, so nothing in flight survives a broken connection
+  private fail(connection: Connection, error: Error): void {
+    if (this.connection === connection) this.connection = null
+    const pending = connection.pending
+    connection.pending = []
+    pending.forEach(waiting => waiting.reject(error))
+  }
+}
@@ -0,0 +1,95 @@
+/**
+ * RESP2 (Redis serialization protocol) encoding and reply parsing
+ * Just enough of the wire format for the commands RedisCacheStore sends.
+ */
+
+export type RespValue = string | number | null | RespValue[] | RespError
+
+/**
+ * An error reply (`-ERR ...`). Returned as a value so one failed command
+ * does not desynchronise the replies that follow it.
+ */
+export class RespError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'RespError'
+  }
+}
+
+const CRLF = '\r\n'
+
+/**
+ * Encode a command as an array of bulk strings
+ */
+export function encodeCommand(args: Array<string | number>): Buffer {
+  let out = `*${args.length}${CRLF}`
+  for (const arg of args) {
+    const value = String(arg)
+    out += `$${Buffer.byteLength(value)}${CRLF}${value}${CRLF}`
+  }
+  return Buffer.from(out)
+}
+
+/**
+ * Incremental reply parser; feed it socket chunks and it returns every reply
+ * that is complete so far.
+ */
+export class RespParser {
+  private buffer: Buffer = Buffer.alloc(0)
+
+  push(chunk: Buffer): RespValue[] {
+    this.buffer = this.buffer.length ? Buffer.concat([this.buffer, chunk]) : chunk
+
+    const replies: RespValue[] = []
+    let offset = 0
+    for (;;) {
+      const parsed = this.parse(offset)
+      if (!parsed) break
+      replies.push(parsed.value)
+      offset = parsed.next
+    }
+
+    this.buffer = this.buffer.subarray(offset)
+    return replies
+  }
+
+  private parse(offset: number): { value: RespValue; next: number } | null {
+    const lineEnd = this.buffer.indexOf(CRLF, offset)
+    if (lineEnd === -1) return null
+
+    const type = String.fromCharCode(this.buffer[offset])
+    const line = this.buffer.toString('utf8', offset + 1, lineEnd)
+    const next = lineEnd + 2
+
+    switch (type) {
+      case '+':
+        return { value: line, next }
+      case '-':
+        return { value: new RespError(line), next }
+      case ':':
+        return { value: parseInt(line, 10), next }
+      case '$': {
+        const length = parseInt(line, 10)
+        if (length === -1) return { value: null, next }
+        if (this.buffer.length < next + length + 2) return null
+        return { value: this.buffer.toString('utf8', next, next + length), next: next + length + 2 }
+      }
+      case '*': {
+        const count = parseInt(line, 10)
+        if (count === -1) return { value: null, next }
+
+        const items: RespValue[] = []
+        let cursor = next
+        for (let i = 0; i < count; i++) {
+          const item = this.parse(cursor)
+          if (!item) return null
+          items.push(item.value)
+          cursor = item.next
+        }
+        return { value: items, next: cursor }
+      }
+      default:
+        throw new Error(`Unexpected RESP reply type: ${JSON.stringify(type)}`)
+    }
+  }
+}
@@ -0,0 +1,72 @@
+/**
+ * Cache tags
+ * A cached listing is tagged with the dimensions it depends on; whatever
+ * writes events publishes the tags of every row it touched. An entry is
+ * stale once any one of its tags has been published since it was fetched.
+ */
+
+export interface TaggedEvent {
+  id: string
+  city_name?: string | null
+  category?: string | null
+  date?: string | null
+}
+
+export interface ListingFilters {
+  city?: string | null
+  category?: string | null
+  /** A single day, YYYY-MM-DD */
+  date?: string | null
+}
+
+function tagValue(value: string): string {
+  return value
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-|-$/g, '')
+}
+
+export const CACHE_TAGS = {
+  // Published for every event, for listings that filter on nothing
+  ALL_EVENTS: 'events',
+  CITY: (city: string) => `city:${tagValue(city)}`,
+  CATEGORY: (category: string) => `category:${tagValue(category)}`,
+  // Date buckets are days
+  DATE: (date: string) => `date:${date.slice(0, 10)}`,
+  EVENT: (eventId: string) => `event:${eventId}`,
+} as const
+
+const DAY = /^\d{4}-\d{2}-\d{2}/
+
+/**
+ * Every tag a change to this event affects
+ */
+export function eventTags(event: TaggedEvent): string[] {
+  const tags: string[] = [CACHE_TAGS.ALL_EVENTS, CACHE_TAGS.EVENT(event.id)]
+  if (event.city_name) tags.push(CACHE_TAGS.CITY(event.city_name))
+  if (event.category) tags.push(CACHE_TAGS.CATEGORY(event.category))
+  if (event.date && DAY.test(event.date)) tags.push(CACHE_TAGS.DATE(event.date))
+  return tags
+}
+
+/**
+ * Tags to publish after writing these events. Pass both the stored and the
+ * new version of an updated event: the listings it left are stale too.
+ */
+export function affectedTags(events: TaggedEvent[]): string[] {
+  return Array.from(new Set(events.flatMap(eventTags)))
+}
+
+/**
+ * Tags for a cached event listing. One filter is enough: every event that
+ * could appear in the listing publishes it, and the narrowest one means the
+ * fewest needless invalidations. Unfiltered listings depend on every event.
+ */
+export function listingTags(filters: ListingFilters): string[] {
+  if (filters.date && DAY.test(filters.date)) return [CACHE_TAGS.DATE(filters.date)]
+  if (filters.category && filters.category !== 'all') return [CACHE_TAGS.CATEGORY(filters.category)]
+  if (filters.city) return [CACHE_TAGS.CITY(filters.city)]
+  return [CACHE_TAGS.ALL_EVENTS]
+}
@@ -0,0 +1,54 @@
+/**
+ * Token bucket arithmetic shared by the cache stores. The Redis store runs
+ * the same steps as a Lua script so a take is atomic across instances.
+ */
+
+import type { TokenBucket, TokenBucketResult } from './types'
+
+export interface TokenBucketState {
+  tokens: number
+  updatedAt: number
+}
+
+/**
+ * What a take reports, given the tokens left afterwards
+ */
+export function bucketResult(
+  tokens: number,
+  allowed: boolean,
+  bucket: TokenBucket,
+  count: number,
+  now: number
+): TokenBucketResult {
+  const { capacity, windowMs } = bucket
+  return {
+    allowed,
+    remaining: Math.floor(tokens),
+    resetAt: now + Math.ceil(((capacity - tokens) / capacity) * windowMs),
+    retryAfter: allowed ? undefined : Math.ceil(((Math.max(count, 1) - tokens) / capacity) * windowMs),
+  }
+}
+
+/**
+ * Refill the bucket for the time since it was last touched and take `count`
+ * tokens if there are enough. A missing state is a full bucket.
+ */
+export function takeFromBucket(
+  state: TokenBucketState | null,
+  bucket: TokenBucket,
+  count: number,
+  now: number
+): { state: TokenBucketState; result: TokenBucketResult } {
+  const { capacity, windowMs } = bucket
+  let tokens = state
+    ? Math.min(capacity, state.tokens + (Math.max(0, now - state.updatedAt) / windowMs) * capacity)
+    : capacity
+
+  const allowed = tokens >= Math.max(count, 1)
+  if (allowed) tokens -= count
+
+  return {
+    state: { tokens, updatedAt: now },
+    result: bucketResult(tokens, allowed, bucket, count, now),
+  }
+}
@@ -0,0 +1,43 @@
+/**
+ * Shared cache store contract
+ * Query results and rate limit budgets live behind this interface so every
+ * serverless instance can see the same state when a Redis server is configured.
+ */
+
+export type CacheBackend = 'memory' | 'redis'
+
+export interface TokenBucket {
+  /** Tokens the bucket holds when full */
+  capacity: number
+  /** Time to refill an empty bucket, in milliseconds */
+  windowMs: number
+}
+
+export interface TokenBucketResult {
+  allowed: boolean
+  /** Whole tokens left after this take */
+  remaining: number
+  /** When the bucket is full again (epoch ms) */
+  resetAt: number
+  /** Milliseconds until enough tokens are available, when not allowed */
+  retryAfter?: number
+}
+
+/**
+ * Values are strings; callers serialize. TTLs are in milliseconds.
+ */
+export interface CacheStore {
+  readonly backend: CacheBackend
+  get(key: string): Promise<string | null>
+  /** Values for several keys at once, in order, null where missing */
+  getMany(keys: string[]): Promise<Array<string | null>>
+  set(key: string, value: string, ttlMs: number): Promise<void>
+  /** Set only when the key does not exist yet; false when it already did */
+  add(key: string, value: string, ttlMs: number): Promise<boolean>
+  delete(key: string): Promise<boolean>
+  /** Keys matching a glob pattern where `*` matches any run of characters */
+  keys(pattern: string): Promise<string[]>
+  /** Atomically refill a token bucket and take `count` tokens from it; a count of 0 only reads it */
+  takeTokens(key: string, bucket: TokenBucket, count?: number): Promise<TokenBucketResult>
+  clear(): Promise<void>
+}
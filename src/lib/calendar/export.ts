@@ -1,6 +1,15 @@
-import { createEvent, EventAttributes, DateArray } from 'ics'
-
-interface EventData {
+import type { ItineraryWarning } from '@/lib/plans/itinerary'
+import { buildEventUid, escapeText, formatUtc, serializeLines } from './ics-format'
+import {
+  buildVTimezone,
+  formatLocalDate,
+  formatLocalDateTime,
+  resolveTimeZone,
+  wallTimeToUtc,
+  type WallTime,
+} from './timezone'
+
+export interface EventData {
   id: string
   title: string
   description?: string
@@ -9,6 +18,9 @@ interface EventData {
   start_date?: string
   time?: string
   start_time?: string
+  end_date?: string | null
+  end_time?: string | null
+  all_day?: boolean
   venue_name?: string
   venue?: {
     name?: string
@@ -19,146 +31,337 @@ interface EventData {
   external_url?: string
   url?: string
   ticket_url?: string
-  timezone?: string
+  timezone?: string | null
   city?: string
 }
 
+export interface EventTimes {
+  start: Date
+  /** Exclusive end; for all-day events, midnight after the last day */
+  end: Date
+  allDay: boolean
+  /** IANA zone the event's wall-clock times are in */
+  timezone: string
+}
+
+// Calendar entries without a provider end time are blocked out for 2 hours
+const DEFAULT_CALENDAR_DURATION_MS = 2 * 60 * 60 * 1000
+
+const DATE_ONLY_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/
+const DATE_TIME_PATTERN = /^(\d{4}-\d{2}-\d{2})[T ](.+)$/
+const EXPLICIT_OFFSET_PATTERN = /(Z|[+-]\d{2}:?\d{2})$/i
+const CLOCK_PATTERN = /^(\d{1,2}):(\d{2})(?::(\d{2}))?(?:\.\d+)?\s*(am|pm)?$/i
+
+function parseDay(value: string): WallTime | null {
+  const match = value.match(DATE_ONLY_PATTERN)
+  if (!match) return null
+  return { year: Number(match[1]), month: Number(match[2]), day: Number(match[3]) }
+}
+
+function parseClock(value: string): Pick<WallTime, 'hour' | 'minute' | 'second'> | null {
+  const match = value.trim().match(CLOCK_PATTERN)
+  if (!match) return null
+
+  let hour = Number(match[1])
+  const meridiem = match[4]?.toLowerCase()
+  if (meridiem === 'pm' && hour < 12) hour += 12
+  if (meridiem === 'am' && hour === 12) hour = 0
+  if (hour > 23) return null
+
+  return { hour, minute: Number(match[2]), second: match[3] ? Number(match[3]) : 0 }
+}
+
+function addDays(day: WallTime, days: number): WallTime {
+  const shifted = new Date(Date.UTC(day.year, day.month - 1, day.day + days))
+  return { year: shifted.getUTCFullYear(), month: shifted.getUTCMonth() + 1, day: shifted.getUTCDate() }
+}
+
+function localDay(instant: Date, timezone: string): WallTime {
+  const yyyymmdd = formatLocalDate(instant, timezone)
+  return { year: Number(yyyymmdd.slice(0, 4)), month: Number(yyyymmdd.slice(4, 6)), day: Number(yyyymmdd.slice(6, 8)) }
+}
+
 /**
- * Generate ICS calendar file from event data
- * Downloads a .ics file that can be imported to any calendar app
- *
- * Includes:
- * - Proper timezone handling
- * - 15-minute reminder before event
- * - Event URL in description
- * - Venue address in location
+ * Parse an ISO date-time. Values with an offset are absolute instants;
+ * values without one are wall-clock times in the event's zone.
  */
-export function generateICS(event: EventData) {
-  try {
-    // Parse date and time
-    const eventDate = event.date || event.event_date || event.start_date
-    const eventTime = event.time || event.start_time
+function parseDateTime(value: string, timezone: string): Date | null {
+  const match = value.match(DATE_TIME_PATTERN)
+  if (!match) return null
 
-    if (!eventDate) {
-      throw new Error('Event date is required')
+  if (EXPLICIT_OFFSET_PATTERN.test(value)) {
+    const instant = new Date(value)
+    return isNaN(instant.getTime()) ? null : instant
+  }
+
+  const day = parseDay(match[1])
+  const clock = parseClock(match[2])
+  if (!day || !clock) return null
+  return wallTimeToUtc({ ...day, ...clock }, timezone)
+}
+
+/**
+ * Resolve an event's start and end instants in its own timezone
+ *
+ * Handles both ISO format (2025-10-06T19:00:00) and separate date/time
+ * fields. Times are read as wall-clock times in `event.timezone` (falling
+ * back to DEFAULT_EVENT_TIMEZONE), never the browser's zone. Events with a
+ * date but no start time are all-day; `end_date` makes them multi-day.
+ */
+export function resolveEventTimes(event: EventData): EventTimes | null {
+  const timezone = resolveTimeZone(event.timezone)
+  const startValue = event.date || event.event_date || event.start_date
+  const clockValue = event.time || event.start_time
+
+  if (!startValue) return null
+
+  let start: Date | null = null
+  let allDay = false
+
+  if (DATE_TIME_PATTERN.test(startValue)) {
+    start = parseDateTime(startValue, timezone)
+  } else {
+    const day = parseDay(startValue)
+    if (!day) return null
+
+    if (clockValue && !event.all_day) {
+      if (DATE_TIME_PATTERN.test(clockValue)) {
+        start = parseDateTime(clockValue, timezone)
+      } else {
+        const clock = parseClock(clockValue)
+        if (clock) start = wallTimeToUtc({ ...day, ...clock }, timezone)
+      }
     }
 
-    // Handle both ISO format (2025-10-06T19:00:00) and separate date/time
-    let startDate: Date
+    if (!start) {
+      allDay = true
+      start = wallTimeToUtc(day, timezone)
+    }
+  }
 
-    if (eventDate.includes('T')) {
-      // ISO format with time
-      startDate = new Date(eventDate)
-    } else {
-      // Separate date and time
-      const [year, month, day] = eventDate.split('-').map(Number)
+  if (!start || isNaN(start.getTime())) return null
 
-      // Parse time or default to 7:00 PM
-      let hour = 19
-      let minute = 0
+  if (event.all_day || allDay) {
+    const firstDay = localDay(start, timezone)
+    const lastDay = (event.end_date && parseDay(event.end_date.slice(0, 10))) || firstDay
+    const allDayStart = wallTimeToUtc(firstDay, timezone)
+    const allDayEnd = wallTimeToUtc(addDays(lastDay, 1), timezone)
 
-      if (eventTime) {
-        const timeParts = eventTime.split(':')
-        const parsedHour = parseInt(timeParts[0], 10)
-        const parsedMinute = timeParts[1] ? parseInt(timeParts[1], 10) : 0
+    return {
+      start: allDayStart,
+      end: allDayEnd > allDayStart ? allDayEnd : wallTimeToUtc(addDays(firstDay, 1), timezone),
+      allDay: true,
+      timezone,
+    }
+  }
 
-        if (!isNaN(parsedHour)) hour = parsedHour
-        if (!isNaN(parsedMinute)) minute = parsedMinute
+  let end: Date | null = null
+
+  if (event.end_time && DATE_TIME_PATTERN.test(event.end_time)) {
+    end = parseDateTime(event.end_time, timezone)
+  } else if (event.end_time) {
+    // "HH:MM" end times belong to end_date, else the start date (or the next day if they wrap past midnight)
+    const clock = parseClock(event.end_time)
+    const endDay = (event.end_date && parseDay(event.end_date)) || localDay(start, timezone)
+    if (clock) {
+      end = wallTimeToUtc({ ...endDay, ...clock }, timezone)
+      if (end <= start && !event.end_date) {
+        end = wallTimeToUtc({ ...addDays(endDay, 1), ...clock }, timezone)
       }
+    }
+  } else if (event.end_date && DATE_TIME_PATTERN.test(event.end_date)) {
+    end = parseDateTime(event.end_date, timezone)
+  }
 
-      startDate = new Date(year, month - 1, day, hour, minute)
+  return {
+    start,
+    end: end && end > start ? end : new Date(start.getTime() + DEFAULT_CALENDAR_DURATION_MS),
+    allDay: false,
+    timezone,
+  }
+}
+
+function buildLocation(event: EventData): string {
+  const venueName = event.venue_name || event.venue?.name || ''
+  const venueAddress = event.address || event.venue_address || event.venue?.address || ''
+  const city = event.city || ''
+  const locationParts = [venueName, venueAddress, city].filter(Boolean)
+  return locationParts.join(', ') || 'Location TBA'
+}
+
+/**
+ * Build the "heads up" lines appended to an event's description
+ * for itinerary warnings that involve it
+ */
+function formatWarningLines(eventId: string, warnings: ItineraryWarning[] = []): string[] {
+  const relevant = warnings.filter(w => w.fromEventId === eventId || w.toEventId === eventId)
+  if (relevant.length === 0) return []
+  return ['', '⚠️ Heads up:', ...relevant.map(w => `- ${w.message}`)]
+}
+
+function buildVEvent(
+  event: EventData,
+  times: EventTimes,
+  options: { warnings?: ItineraryWarning[]; dtstamp: string }
+): string[] {
+  const location = buildLocation(event)
+
+  // Build description with event URL
+  const description = event.description || `Join us for ${event.title}!`
+  const ticketUrl = event.external_url || event.url || event.ticket_url || ''
+  const eventUrl = ticketUrl || `https://scenescout.app/events/${event.id}`
+
+  const fullDescription = [
+    description,
+    ...formatWarningLines(event.id, options.warnings),
+    '',
+    '📍 Location:',
+    location,
+    '',
+    '🎫 Get tickets:',
+    ticketUrl || 'Check SceneScout for details',
+    '',
+    '🔗 Event page:',
+    eventUrl,
+    '',
+    '---',
+    'Added via SceneScout - Discover urban culture & events',
+    'https://scenescout.app'
+  ].join('\n')
+
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${buildEventUid(event.id)}`,
+    `DTSTAMP:${options.dtstamp}`,
+  ]
+
+  if (times.allDay) {
+    lines.push(
+      `DTSTART;VALUE=DATE:${formatLocalDate(times.start, times.timezone)}`,
+      `DTEND;VALUE=DATE:${formatLocalDate(times.end, times.timezone)}`
+    )
+  } else {
+    lines.push(
+      `DTSTART;TZID=${times.timezone}:${formatLocalDateTime(times.start, times.timezone)}`,
+      `DTEND;TZID=${times.timezone}:${formatLocalDateTime(times.end, times.timezone)}`
+    )
+  }
+
+  lines.push(
+    `SUMMARY:${escapeText(event.title)}`,
+    `DESCRIPTION:${escapeText(fullDescription)}`,
+    `LOCATION:${escapeText(location)}`,
+    `URL:${eventUrl}`,
+    'STATUS:CONFIRMED',
+    'TRANSP:OPAQUE',
+    'X-MICROSOFT-CDO-BUSYSTATUS:BUSY',
+    'ORGANIZER;CN=SceneScout:mailto:events@scenescout.app'
+  )
+
+  // 15-minute reminder; a reminder at midnight is noise for all-day events
+  if (!times.allDay) {
+    lines.push(
+      'BEGIN:VALARM',
+      'ACTION:DISPLAY',
+      `DESCRIPTION:${escapeText(`Reminder: ${event.title} starts in 15 minutes!`)}`,
+      'TRIGGER:-PT15M',
+      'END:VALARM'
+    )
+  }
+
+  lines.push('END:VEVENT')
+  return lines
+}
+
+export interface ICSBuildResult {
+  content: string
+  count: number
+  errors: string[]
+}
+
+/**
+ * Build a VCALENDAR for one or more events, with a VTIMEZONE for every
+ * zone referenced by a TZID
+ *
+ * @param events Array of event data to export
+ * @param options.warnings Itinerary warnings (see checkItinerary) to note in event descriptions
+ */
+export function buildICSCalendar(
+  events: EventData[],
+  options: { warnings?: ItineraryWarning[]; now?: Date } = {}
+): ICSBuildResult {
+  const dtstamp = formatUtc(options.now || new Date())
+  const errors: string[] = []
+  const eventLines: string[] = []
+  const zoneRanges = new Map<string, { start: Date; end: Date }>()
+  let count = 0
+
+  for (const event of events) {
+    const times = resolveEventTimes(event)
+
+    if (!times) {
+      errors.push(`${event.title}: Missing date`)
+      continue
     }
 
-    // Start time in UTC
-    const start: DateArray = [
-      startDate.getFullYear(),
-      startDate.getMonth() + 1,
-      startDate.getDate(),
-      startDate.getHours(),
-      startDate.getMinutes()
-    ]
-
-    // End time (2 hours later)
-    const endDate = new Date(startDate.getTime() + 2 * 60 * 60 * 1000)
-    const end: DateArray = [
-      endDate.getFullYear(),
-      endDate.getMonth() + 1,
-      endDate.getDate(),
-      endDate.getHours(),
-      endDate.getMinutes()
-    ]
-
-    // Build location string with full address
-    const venueName = event.venue_name || event.venue?.name || ''
-    const venueAddress = event.address || event.venue_address || event.venue?.address || ''
-    const city = event.city || ''
-    const locationParts = [venueName, venueAddress, city].filter(Boolean)
-    const location = locationParts.join(', ') || 'Location TBA'
-
-    // Build description with event URL
-    const description = event.description || `Join us for ${event.title}!`
-    const ticketUrl = event.external_url || event.url || event.ticket_url || ''
-    const eventUrl = ticketUrl || `https://scenescout.app/events/${event.id}`
-
-    const fullDescription = [
-      description,
-      '',
-      '📍 Location:',
-      location,
-      '',
-      '🎫 Get tickets:',
-      ticketUrl || 'Check SceneScout for details',
-      '',
-      '🔗 Event page:',
-      eventUrl,
-      '',
-      '---',
-      'Added via SceneScout - Discover urban culture & events',
-      'https://scenescout.app'
-    ].join('\n')
-
-    // Determine timezone
-    const timezone = event.timezone || 'America/Toronto'
-
-    // Create event config with reminder
-    const eventConfig: EventAttributes = {
-      start,
-      end,
-      title: event.title,
-      description: fullDescription,
-      location,
-      url: eventUrl,
-      status: 'CONFIRMED',
-      busyStatus: 'BUSY',
-      organizer: { name: 'SceneScout', email: 'events@scenescout.app' },
-      // Add 15-minute reminder
-      alarms: [
-        {
-          action: 'display',
-          description: `Reminder: ${event.title} starts in 15 minutes!`,
-          trigger: { minutes: 15, before: true }
-        }
-      ]
+    if (!times.allDay) {
+      const range = zoneRanges.get(times.timezone)
+      zoneRanges.set(times.timezone, {
+        start: range && range.start < times.start ? range.start : times.start,
+        end: range && range.end > times.end ? range.end : times.end,
+      })
     }
 
-    // Generate ICS file
-    const { error, value } = createEvent(eventConfig)
+    eventLines.push(...buildVEvent(event, times, { warnings: options.warnings, dtstamp }))
+    count++
+  }
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//SceneScout//Event Export//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+  ]
+  zoneRanges.forEach((range, timezone) => {
+    lines.push(...buildVTimezone(timezone, range.start, range.end))
+  })
+  lines.push(...eventLines, 'END:VCALENDAR')
+
+  return { content: serializeLines(lines), count, errors }
+}
+
+/**
+ * Generate ICS calendar file from event data
+ * Downloads a .ics file that can be imported to any calendar app
+ *
+ * Includes:
+ * - Times in the event's own timezone (TZID + VTIMEZONE)
+ * - All-day and multi-day events as DATE values
+ * - 15-minute reminder before timed events
+ * - Event URL in description
+ * - Venue address in location
+ */
+export function generateICS(event: EventData) {
+  try {
+    const eventDate = event.date || event.event_date || event.start_date
 
-    if (error) {
-      console.error('Error generating ICS:', error)
-      throw error
+    if (!eventDate || !resolveEventTimes(event)) {
+      throw new Error('Event date is required')
     }
 
+    const { content } = buildICSCalendar([event])
+
     // Create slug for filename
     const slug = event.title
       .toLowerCase()
       .replace(/[^a-z0-9]+/g, '-')
       .replace(/^-|-$/g, '')
 
-    const filename = `${slug}-${eventDate}.ics`
+    const filename = `${slug}-${eventDate.slice(0, 10)}.ics`
 
     // Trigger download
-    downloadICS(value!, filename)
+    downloadICS(content, filename)
 
     return { success: true, filename }
   } catch (error) {
@@ -175,149 +378,32 @@ export function generateICS(event: EventData) {
  * Downloads a single .ics file containing all events
  *
  * @param events Array of event data to export
+ * @param options.warnings Itinerary warnings (see checkItinerary) to note in event descriptions
  * @returns Result object with success status and filename or error message
  */
-export function generateBulkICS(events: EventData[]) {
+export function generateBulkICS(events: EventData[], options: { warnings?: ItineraryWarning[] } = {}) {
   try {
     if (!events || events.length === 0) {
       throw new Error('No events to export')
     }
 
-    // Generate individual event strings
-    const eventStrings: string[] = []
-    let successCount = 0
-    const errors: string[] = []
-
-    for (const event of events) {
-      try {
-        const eventDate = event.date || event.event_date || event.start_date
-        const eventTime = event.time || event.start_time
-
-        if (!eventDate) {
-          errors.push(`${event.title}: Missing date`)
-          continue
-        }
-
-        // Handle both ISO format and separate date/time
-        let startDate: Date
-
-        if (eventDate.includes('T')) {
-          startDate = new Date(eventDate)
-        } else {
-          const [year, month, day] = eventDate.split('-').map(Number)
-          let hour = 19
-          let minute = 0
-
-          if (eventTime) {
-            const timeParts = eventTime.split(':')
-            const parsedHour = parseInt(timeParts[0], 10)
-            const parsedMinute = timeParts[1] ? parseInt(timeParts[1], 10) : 0
-
-            if (!isNaN(parsedHour)) hour = parsedHour
-            if (!isNaN(parsedMinute)) minute = parsedMinute
-          }
-
-          startDate = new Date(year, month - 1, day, hour, minute)
-        }
-
-        const start: DateArray = [
-          startDate.getFullYear(),
-          startDate.getMonth() + 1,
-          startDate.getDate(),
-          startDate.getHours(),
-          startDate.getMinutes()
-        ]
-
-        const endDate = new Date(startDate.getTime() + 2 * 60 * 60 * 1000)
-        const end: DateArray = [
-          endDate.getFullYear(),
-          endDate.getMonth() + 1,
-          endDate.getDate(),
-          endDate.getHours(),
-          endDate.getMinutes()
-        ]
-
-        const venueName = event.venue_name || event.venue?.name || ''
-        const venueAddress = event.address || event.venue_address || event.venue?.address || ''
-        const city = event.city || ''
-        const locationParts = [venueName, venueAddress, city].filter(Boolean)
-        const location = locationParts.join(', ') || 'Location TBA'
-
-        const description = event.description || `Join us for ${event.title}!`
-        const ticketUrl = event.external_url || event.url || event.ticket_url || ''
-        const eventUrl = ticketUrl || `https://scenescout.app/events/${event.id}`
-
-        const fullDescription = [
-          description,
-          '',
-          '📍 Location:',
-          location,
-          '',
-          '🎫 Get tickets:',
-          ticketUrl || 'Check SceneScout for details',
-          '',
-          '🔗 Event page:',
-          eventUrl,
-          '',
-          '---',
-          'Added via SceneScout - Discover urban culture & events',
-          'https://scenescout.app'
-        ].join('\n')
-
-        const eventConfig: EventAttributes = {
-          start,
-          end,
-          title: event.title,
-          description: fullDescription,
-          location,
-          url: eventUrl,
-          status: 'CONFIRMED',
-          busyStatus: 'BUSY',
-          organizer: { name: 'SceneScout', email: 'events@scenescout.app' },
-          alarms: [
-            {
-              action: 'display',
-              description: `Reminder: ${event.title} starts in 15 minutes!`,
-              trigger: { minutes: 15, before: true }
-            }
-          ]
-        }
-
-        const { error, value } = createEvent(eventConfig)
-
-        if (error) {
-          errors.push(`${event.title}: ${error.message}`)
-          continue
-        }
-
-        if (value) {
-          eventStrings.push(value)
-          successCount++
-        }
-      } catch (err) {
-        const errorMsg = err instanceof Error ? err.message : 'Unknown error'
-        errors.push(`${event.title}: ${errorMsg}`)
-      }
-    }
+    const { content, count, errors } = buildICSCalendar(events, options)
 
-    if (successCount === 0) {
+    if (count === 0) {
       throw new Error(`Failed to export any events. Errors: ${errors.join(', ')}`)
     }
 
-    // Combine all events into a single ICS file
-    const icsContent = eventStrings.join('\n')
-
     // Generate filename with date and count
     const today = new Date().toISOString().split('T')[0]
-    const filename = `scenescout-events-${successCount}-${today}.ics`
+    const filename = `scenescout-events-${count}-${today}.ics`
 
     // Trigger download
-    downloadICS(icsContent, filename)
+    downloadICS(content, filename)
 
     return {
       success: true,
       filename,
-      count: successCount,
+      count,
       errors: errors.length > 0 ? errors : undefined
     }
   } catch (error) {
@@ -0,0 +1,132 @@
+/**
+ * Calendar Feed Store - persistence for subscribable calendar feeds
+ * Server-only: uses the service-role Supabase client.
+ */
+
+import { randomBytes } from 'crypto'
+import { getServiceSupabaseClient } from '@/lib/supabase-server'
+import { buildCalendarFeed, reconcileFeedEntries, type FeedEntry, type FeedEventInput } from './feed'
+
+const FEED_ENTRY_COLUMNS =
+  'event_id, uid, sequence, status, dtstart, dtend, summary, location, description, url, cancelled_at, updated_at'
+
+/**
+ * Return the user's active feed token, creating one if needed.
+ * With `rotate`, the current token is revoked and a new one issued.
+ */
+export async function getOrCreateFeedToken(userId: string, rotate: boolean = false): Promise<string> {
+  const supabase = getServiceSupabaseClient()
+
+  if (rotate) {
+    await revokeFeedTokens(userId)
+  } else {
+    const { data: existing } = await supabase
+      .from('calendar_feeds')
+      .select('token')
+      .eq('user_id', userId)
+      .is('revoked_at', null)
+      .maybeSingle()
+
+    if (existing) return existing.token
+  }
+
+  const token = randomBytes(32).toString('base64url')
+  const { error } = await supabase
+    .from('calendar_feeds')
+    .insert({ user_id: userId, token })
+
+  if (error) throw new Error(`Failed to create calendar feed: ${error.message}`)
+  return token
+}
+
+export async function revokeFeedTokens(userId: string): Promise<void> {
+  const { error } = await getServiceSupabaseClient()
+    .from('calendar_feeds')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('user_id', userId)
+    .is('revoked_at', null)
+
+  if (error) throw new Error(`Failed to revoke calendar feed: ${error.message}`)
+}
+
+/**
+ * Render the VCALENDAR for a feed token, or null if the token is unknown or revoked.
+ * Reconciles against the last published state and writes back any changes.
+ */
+export async function renderFeedForToken(token: string): Promise<string | null> {
+  const supabase = getServiceSupabaseClient()
+
+  const { data: feed } = await supabase
+    .from('calendar_feeds')
+    .select('id, user_id')
+    .eq('token', token)
+    .is('revoked_at', null)
+    .maybeSingle()
+
+  if (!feed) return null
+
+  const userId = feed.user_id
+  const [savedResult, remindersResult, entriesResult] = await Promise.all([
+    supabase
+      .from('saved_events')
+      .select('event_id, event_data')
+      .eq('user_id', userId)
+      .is('deleted_at', null),
+    supabase
+      .from('event_reminders')
+      .select('event_id, remind_at')
+      .eq('user_id', userId)
+      .is('deleted_at', null),
+    supabase
+      .from('calendar_feed_entries')
+      .select(FEED_ENTRY_COLUMNS)
+      .eq('user_id', userId),
+  ])
+
+  if (savedResult.error) throw new Error(`Failed to load saved events: ${savedResult.error.message}`)
+
+  const reminders = new Map<string, string[]>()
+  for (const reminder of remindersResult.data || []) {
+    const list = reminders.get(reminder.event_id) || []
+    list.push(reminder.remind_at)
+    reminders.set(reminder.event_id, list)
+  }
+
+  const current: FeedEventInput[] = (savedResult.data || []).map(row => ({
+    eventId: row.event_id,
+    event: { ...row.event_data, id: row.event_id },
+  }))
+
+  const now = new Date()
+  const { entries, changed, expired } = reconcileFeedEntries(
+    (entriesResult.data || []) as FeedEntry[],
+    current,
+    now
+  )
+
+  if (changed.length > 0) {
+    const { error } = await supabase
+      .from('calendar_feed_entries')
+      .upsert(changed.map(entry => ({ ...entry, user_id: userId })), { onConflict: 'user_id,event_id' })
+
+    if (error) {
+      // Still serve the feed; the next poll will retry the write
+      console.error('❌ Failed to persist calendar feed entries:', error)
+    }
+  }
+
+  if (expired.length > 0) {
+    await supabase
+      .from('calendar_feed_entries')
+      .delete()
+      .eq('user_id', userId)
+      .in('event_id', expired)
+  }
+
+  await supabase
+    .from('calendar_feeds')
+    .update({ last_accessed_at: now.toISOString() })
+    .eq('id', feed.id)
+
+  return buildCalendarFeed(entries, { reminders, now })
+}
@@ -0,0 +1,207 @@
+/**
+ * Calendar Feed - subscribable multi-event VCALENDAR per user
+ *
+ * Calendar apps poll the feed URL and diff by UID, so each saved event
+ * keeps a stable UID across refreshes. We persist the last published
+ * state of every entry to:
+ * - bump SEQUENCE when the event's time changes
+ * - publish STATUS:CANCELLED when the source cancels the event or the
+ *   user unsaves it, instead of silently dropping it (which most clients
+ *   would ignore, leaving a ghost entry)
+ */
+
+import { resolveEventTimes, type EventData } from './export'
+import { buildEventUid, escapeText, foldLine, formatUtc, serializeLines } from './ics-format'
+
+export { escapeText, foldLine }
+
+// Cancelled entries stay in the feed long enough for every client to poll once
+export const CANCELLED_RETENTION_MS = 30 * 24 * 60 * 60 * 1000
+
+export type FeedEntryStatus = 'CONFIRMED' | 'CANCELLED'
+
+/** Last published state of one event in a user's feed */
+export interface FeedEntry {
+  event_id: string
+  uid: string
+  sequence: number
+  status: FeedEntryStatus
+  dtstart: string
+  dtend: string
+  summary: string
+  location: string | null
+  description: string | null
+  url: string | null
+  cancelled_at: string | null
+  updated_at: string
+}
+
+export interface FeedEventInput {
+  eventId: string
+  event: EventData & { status?: string | null; cancelled?: boolean }
+}
+
+export interface ReconcileResult {
+  entries: FeedEntry[]
+  /** Entries whose persisted state changed and must be written back */
+  changed: FeedEntry[]
+  /** Event ids whose entries aged out and can be deleted */
+  expired: string[]
+}
+
+// Same UID as a one-off export, so subscribing after importing doesn't duplicate
+export const buildFeedUid = buildEventUid
+
+function buildLocation(event: EventData): string | null {
+  const venueName = event.venue_name || event.venue?.name || ''
+  const venueAddress = event.address || event.venue_address || event.venue?.address || ''
+  const parts = [venueName, venueAddress, event.city || ''].filter(Boolean)
+  return parts.length > 0 ? parts.join(', ') : null
+}
+
+// Stored TIMESTAMPTZ text (…+00:00) and toISOString() (….000Z) differ for the same time
+function sameInstant(a: string, b: string): boolean {
+  return new Date(a).getTime() === new Date(b).getTime()
+}
+
+function isSourceCancelled(event: FeedEventInput['event']): boolean {
+  return event.cancelled === true || event.status === 'cancelled'
+}
+
+/**
+ * Merge the current saved events into the previously published entries
+ */
+export function reconcileFeedEntries(
+  previous: FeedEntry[],
+  current: FeedEventInput[],
+  now: Date = new Date()
+): ReconcileResult {
+  const nowIso = now.toISOString()
+  const previousById = new Map(previous.map(entry => [entry.event_id, entry]))
+  const seen = new Set<string>()
+  const entries: FeedEntry[] = []
+  const changed: FeedEntry[] = []
+  const expired: string[] = []
+
+  for (const { eventId, event } of current) {
+    const times = resolveEventTimes(event)
+    if (!times) continue
+    seen.add(eventId)
+
+    const prior = previousById.get(eventId)
+    const status: FeedEntryStatus = isSourceCancelled(event) ? 'CANCELLED' : 'CONFIRMED'
+    const next: FeedEntry = {
+      event_id: eventId,
+      uid: prior?.uid || buildFeedUid(eventId),
+      sequence: prior?.sequence ?? 0,
+      status,
+      dtstart: times.start.toISOString(),
+      dtend: times.end.toISOString(),
+      summary: event.title,
+      location: buildLocation(event),
+      description: event.description || null,
+      url: event.external_url || event.url || event.ticket_url || null,
+      cancelled_at: status === 'CANCELLED' ? prior?.cancelled_at || nowIso : null,
+      updated_at: prior?.updated_at || nowIso,
+    }
+
+    if (prior) {
+      const timeChanged = !sameInstant(prior.dtstart, next.dtstart) || !sameInstant(prior.dtend, next.dtend)
+      const statusChanged = prior.status !== next.status
+      const detailsChanged = prior.summary !== next.summary || prior.location !== next.location
+
+      if (timeChanged || statusChanged) {
+        next.sequence = prior.sequence + 1
+      }
+      if (timeChanged || statusChanged || detailsChanged) {
+        next.updated_at = nowIso
+        changed.push(next)
+      }
+    } else {
+      changed.push(next)
+    }
+
+    entries.push(next)
+  }
+
+  // Events no longer saved: publish a cancellation, then age out
+  for (const prior of previous) {
+    if (seen.has(prior.event_id)) continue
+
+    if (prior.status === 'CANCELLED') {
+      const cancelledAt = new Date(prior.cancelled_at || prior.updated_at).getTime()
+      if (now.getTime() - cancelledAt > CANCELLED_RETENTION_MS) {
+        expired.push(prior.event_id)
+        continue
+      }
+      entries.push(prior)
+      continue
+    }
+
+    const cancelled: FeedEntry = {
+      ...prior,
+      status: 'CANCELLED',
+      sequence: prior.sequence + 1,
+      cancelled_at: nowIso,
+      updated_at: nowIso,
+    }
+    entries.push(cancelled)
+    changed.push(cancelled)
+  }
+
+  return { entries, changed, expired }
+}
+
+/**
+ * Serialize feed entries into a VCALENDAR document
+ */
+export function buildCalendarFeed(
+  entries: FeedEntry[],
+  options: { calendarName?: string; reminders?: Map<string, string[]>; now?: Date } = {}
+): string {
+  const dtstamp = formatUtc((options.now || new Date()).toISOString())
+  const lines: string[] = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//SceneScout//Saved Events Feed//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(options.calendarName || 'SceneScout Saved Events')}`,
+    'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+    'X-PUBLISHED-TTL:PT1H',
+  ]
+
+  for (const entry of entries) {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${entry.uid}`,
+      `DTSTAMP:${dtstamp}`,
+      `LAST-MODIFIED:${formatUtc(entry.updated_at)}`,
+      `SEQUENCE:${entry.sequence}`,
+      `STATUS:${entry.status}`,
+      `DTSTART:${formatUtc(entry.dtstart)}`,
+      `DTEND:${formatUtc(entry.dtend)}`,
+      `SUMMARY:${escapeText(entry.summary)}`
+    )
+    if (entry.location) lines.push(`LOCATION:${escapeText(entry.location)}`)
+    if (entry.description) lines.push(`DESCRIPTION:${escapeText(entry.description)}`)
+    if (entry.url) lines.push(`URL:${entry.url}`)
+
+    if (entry.status === 'CONFIRMED') {
+      for (const remindAt of options.reminders?.get(entry.event_id) || []) {
+        lines.push(
+          'BEGIN:VALARM',
+          'ACTION:DISPLAY',
+          `DESCRIPTION:${escapeText(`Reminder: ${entry.summary}`)}`,
+          `TRIGGER;VALUE=DATE-TIME:${formatUtc(remindAt)}`,
+          'END:VALARM'
+        )
+      }
+    }
+
+    lines.push('END:VEVENT')
+  }
+
+  lines.push('END:VCALENDAR')
+  return serializeLines(lines)
+}
@@ -0,0 +1,68 @@
+/**
+ * RFC 5545 content-line helpers shared by the one-off export and the
+ * subscribable feed
+ */
+
+export function buildEventUid(eventId: string): string {
+  return `${eventId.replace(/[^A-Za-z0-9._-]/g, '-')}@scenescout.app`
+}
+
+/**
+ * Format an instant as a UTC DATE-TIME (20251006T230000Z)
+ */
+export function formatUtc(value: string | Date): string {
+  return new Date(value).toISOString().replace(/[-:]/g, '').split('.')[0] + 'Z'
+}
+
+/**
+ * Escape TEXT values per RFC 5545 §3.3.11
+ */
+export function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n')
+}
+
+// TextEncoder rather than Buffer: the export runs in the browser
+const encoder = new TextEncoder()
+
+function utf8Length(value: string): number {
+  return encoder.encode(value).length
+}
+
+/**
+ * Fold content lines longer than 75 octets (RFC 5545 §3.1)
+ */
+export function foldLine(line: string): string {
+  if (utf8Length(line) <= 75) return line
+
+  const parts: string[] = []
+  let current = ''
+  let currentBytes = 0
+  // Continuation lines start with a space, which counts toward the 75
+  let limit = 75
+
+  for (const char of line) {
+    const charBytes = utf8Length(char)
+    if (currentBytes + charBytes > limit) {
+      parts.push(current)
+      current = ''
+      currentBytes = 0
+      limit = 74
+    }
+    current += char
+    currentBytes += charBytes
+  }
+  parts.push(current)
+
+  return parts.join('\r\n ')
+}
+
+/**
+ * Join content lines into an iCalendar document with CRLF line endings
+ */
+export function serializeLines(lines: string[]): string {
+  return lines.map(foldLine).join('\r\n') + '\r\n'
+}
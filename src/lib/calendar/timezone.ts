@@ -0,0 +1,220 @@
+/**
+ * Timezone handling for calendar exports
+ *
+ * Provider dates are wall-clock times in the venue's IANA zone, not in the
+ * zone of whoever clicks "Add to Calendar". These helpers convert between
+ * wall time and instants for a given zone and build the VTIMEZONE block
+ * that lets calendar apps render TZID-qualified times correctly.
+ */
+
+import { formatInTimeZone } from 'date-fns-tz'
+
+// Most of our scraped inventory is Toronto; used when a provider omits the zone
+export const DEFAULT_EVENT_TIMEZONE = 'America/Toronto'
+
+const MINUTE_MS = 60 * 1000
+const DAY_MS = 24 * 60 * MINUTE_MS
+
+export interface WallTime {
+  year: number
+  month: number
+  day: number
+  hour?: number
+  minute?: number
+  second?: number
+}
+
+export function isValidTimeZone(timezone?: string | null): timezone is string {
+  if (!timezone) return false
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * The event's zone if it is a known IANA zone, otherwise the default
+ */
+export function resolveTimeZone(timezone?: string | null): string {
+  return isValidTimeZone(timezone) ? timezone : DEFAULT_EVENT_TIMEZONE
+}
+
+const offsetFormatters = new Map<string, Intl.DateTimeFormat>()
+
+/**
+ * UTC offset of `timezone` at an instant, in ms.
+ * date-fns-tz's getTimezoneOffset reads its Date argument as a wall time,
+ * which is off by one offset near transitions, so we ask Intl directly.
+ */
+function offsetAt(timezone: string, instantMs: number): number {
+  let formatter = offsetFormatters.get(timezone)
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    })
+    offsetFormatters.set(timezone, formatter)
+  }
+
+  const parts: Record<string, number> = {}
+  for (const part of formatter.formatToParts(new Date(instantMs))) {
+    if (part.type !== 'literal') parts[part.type] = Number(part.value)
+  }
+
+  const wallMs = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second)
+  return wallMs - Math.floor(instantMs / 1000) * 1000
+}
+
+/**
+ * Convert a wall-clock time in `timezone` to an instant.
+ *
+ * Follows RFC 5545 §3.3.5: an ambiguous time (DST fall-back) resolves to
+ * the first occurrence, and a nonexistent time (DST spring-forward gap) is
+ * read with the offset in effect before the transition.
+ */
+export function wallTimeToUtc(wall: WallTime, timezone: string): Date {
+  const wallMs = Date.UTC(
+    wall.year,
+    wall.month - 1,
+    wall.day,
+    wall.hour ?? 0,
+    wall.minute ?? 0,
+    wall.second ?? 0
+  )
+  const offsetBefore = offsetAt(timezone, wallMs - DAY_MS)
+  const offsetAfter = offsetAt(timezone, wallMs + DAY_MS)
+
+  for (const offset of [offsetBefore, offsetAfter]) {
+    const candidate = wallMs - offset
+    if (offsetAt(timezone, candidate) === offset) {
+      return new Date(candidate)
+    }
+  }
+
+  return new Date(wallMs - offsetBefore)
+}
+
+/**
+ * Local DATE-TIME for a TZID-qualified property (20251006T190000)
+ */
+export function formatLocalDateTime(date: Date, timezone: string): string {
+  return formatInTimeZone(date, timezone, "yyyyMMdd'T'HHmmss")
+}
+
+/**
+ * Local DATE for all-day properties (20251006)
+ */
+export function formatLocalDate(date: Date, timezone: string): string {
+  return formatInTimeZone(date, timezone, 'yyyyMMdd')
+}
+
+function formatOffset(offsetMs: number): string {
+  const sign = offsetMs < 0 ? '-' : '+'
+  const totalMinutes = Math.abs(offsetMs) / MINUTE_MS
+  const hours = String(Math.floor(totalMinutes / 60)).padStart(2, '0')
+  const minutes = String(totalMinutes % 60).padStart(2, '0')
+  return `${sign}${hours}${minutes}`
+}
+
+interface Transition {
+  /** First instant at which `offsetTo` applies */
+  at: number
+  offsetFrom: number
+  offsetTo: number
+}
+
+/**
+ * Find every UTC-offset change in [fromMs, toMs), to the minute
+ */
+function findTransitions(timezone: string, fromMs: number, toMs: number): Transition[] {
+  const transitions: Transition[] = []
+  let previousMs = fromMs
+  let previousOffset = offsetAt(timezone, fromMs)
+
+  for (let cursor = fromMs + DAY_MS; cursor < toMs + DAY_MS; cursor += DAY_MS) {
+    const offset = offsetAt(timezone, cursor)
+    if (offset === previousOffset) {
+      previousMs = cursor
+      continue
+    }
+
+    let low = previousMs
+    let high = cursor
+    while (high - low > MINUTE_MS) {
+      const mid = low + Math.floor((high - low) / 2 / MINUTE_MS) * MINUTE_MS
+      if (offsetAt(timezone, mid) === previousOffset) low = mid
+      else high = mid
+    }
+
+    if (high < toMs) {
+      transitions.push({ at: high, offsetFrom: previousOffset, offsetTo: offset })
+    }
+    previousMs = cursor
+    previousOffset = offset
+  }
+
+  return transitions
+}
+
+function abbreviation(timezone: string, instantMs: number): string {
+  return formatInTimeZone(new Date(instantMs), timezone, 'zzz')
+}
+
+/**
+ * Build a VTIMEZONE component covering every instant in [rangeStart, rangeEnd].
+ *
+ * Observances are listed as explicit transitions (no RRULE) for the
+ * calendar years spanned, taken from the runtime's tz database, so zones
+ * whose rules changed recently are still described accurately.
+ */
+export function buildVTimezone(timezone: string, rangeStart: Date, rangeEnd: Date): string[] {
+  const fromMs = Date.UTC(rangeStart.getUTCFullYear(), 0, 1)
+  const toMs = Date.UTC(rangeEnd.getUTCFullYear() + 1, 0, 1)
+  const transitions = findTransitions(timezone, fromMs, toMs)
+  const initialOffset = offsetAt(timezone, fromMs)
+
+  const lines = ['BEGIN:VTIMEZONE', `TZID:${timezone}`]
+
+  // The offset in force before the first transition; with no transitions this
+  // is the zone's only observance
+  const firstChange = transitions[0]
+  const initialIsDaylight = firstChange ? firstChange.offsetTo < initialOffset : false
+  const initialKind = initialIsDaylight ? 'DAYLIGHT' : 'STANDARD'
+  lines.push(
+    `BEGIN:${initialKind}`,
+    'DTSTART:19700101T000000',
+    `TZOFFSETFROM:${formatOffset(initialOffset)}`,
+    `TZOFFSETTO:${formatOffset(initialOffset)}`,
+    `TZNAME:${abbreviation(timezone, fromMs)}`,
+    `END:${initialKind}`
+  )
+
+  for (const transition of transitions) {
+    const kind = transition.offsetTo > transition.offsetFrom ? 'DAYLIGHT' : 'STANDARD'
+    // DTSTART is the local time just before the change, in the old offset
+    const localStart = new Date(transition.at + transition.offsetFrom)
+      .toISOString()
+      .replace(/[-:]/g, '')
+      .split('.')[0]
+
+    lines.push(
+      `BEGIN:${kind}`,
+      `DTSTART:${localStart}`,
+      `TZOFFSETFROM:${formatOffset(transition.offsetFrom)}`,
+      `TZOFFSETTO:${formatOffset(transition.offsetTo)}`,
+      `TZNAME:${abbreviation(timezone, transition.at)}`,
+      `END:${kind}`
+    )
+  }
+
+  lines.push('END:VTIMEZONE')
+  return lines
+}
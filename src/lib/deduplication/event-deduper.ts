@@ -134,6 +134,13 @@ function isWithinTimeWindow(eventA: any, eventB: any, windowMinutes: number): bo
   }
 }
 
+/**
+ * Calendar date of an event for exact-match keys
+ */
+function eventDateKey(event: any): string {
+  return String(event.event_date || event.date || event.start_time || '').slice(0, 10)
+}
+
 /**
  * Choose which event to keep when deduplicating
  */
@@ -201,8 +208,9 @@ export function dedupeEvents(events: any[], options: DedupeOptions = {}): any[]
       continue
     }
     
-    // Check for exact matches first (fast path)
-    const slug = normalizeEventSlug(event.title, event.venue_name)
+    // Check for exact matches first (fast path). The date is part of the
+    // key so the weekly occurrences of a recurring event are all kept.
+    const slug = `${normalizeEventSlug(event.title, event.venue_name)}@${eventDateKey(event)}`
     if (processedSlugs.has(slug)) {
       continue
     }
@@ -5,6 +5,10 @@ import BetaInviteEmail from '@/emails/BetaInvite';
 import WelcomeToBetaEmail from '@/emails/WelcomeToBeta';
 import EventReminderEmail from '@/emails/EventReminder';
 import WeeklyDigestEmail from '@/emails/WeeklyDigest';
+import SavedEventChangedEmail from '@/emails/SavedEventChanged';
+import PerformerAnnouncementEmail from '@/emails/PerformerAnnouncement';
+import VenueDigestEmail from '@/emails/VenueDigest';
+import SavedSearchAlertEmail from '@/emails/SavedSearchAlert';
 
 // Lazy initialize Resend to avoid build errors when API key is not set
 let resend: Resend | null = null;
@@ -256,6 +260,299 @@ export async function sendEventReminder(
   }
 }
 
+interface SavedEventUpdateData {
+  eventName: string;
+  changes: string[];
+  eventUrl: string;
+  cancelled?: boolean;
+}
+
+/**
+ * Send saved event change email (time, venue, price or cancellation)
+ */
+export async function sendSavedEventUpdate(
+  email: string,
+  userName: string,
+  update: SavedEventUpdateData
+): Promise<{ success: boolean; error?: string }> {
+  const subject = update.cancelled
+    ? `Cancelled: ${update.eventName}`
+    : `Update: ${update.eventName}`;
+
+  try {
+    const emailHtml = await render(
+      SavedEventChangedEmail({
+        userName,
+        ...update,
+      })
+    );
+
+    const { data, error } = await getResendClient().emails.send({
+      from: `${FROM_NAME} <${FROM_EMAIL}>`,
+      to: email,
+      subject,
+      html: emailHtml,
+    });
+
+    if (error) {
+      await logEmail({
+        recipient_email: email,
+        email_type: 'saved_event_update',
+        subject,
+        status: 'failed',
+        error_message: error.message,
+        metadata: { eventName: update.eventName, changes: update.changes },
+      });
+
+      return { success: false, error: error.message };
+    }
+
+    await logEmail({
+      recipient_email: email,
+      email_type: 'saved_event_update',
+      subject,
+      status: 'sent',
+      resend_id: data?.id,
+      metadata: { eventName: update.eventName, changes: update.changes },
+    });
+
+    return { success: true };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Error sending saved event update:', error);
+
+    await logEmail({
+      recipient_email: email,
+      email_type: 'saved_event_update',
+      subject,
+      status: 'failed',
+      error_message: errorMessage,
+      metadata: { eventName: update.eventName, changes: update.changes },
+    });
+
+    return { success: false, error: errorMessage };
+  }
+}
+
+interface PerformerAnnouncementData {
+  performerName: string;
+  city: string;
+  dates: string[];
+  performerUrl: string;
+}
+
+/**
+ * Send new-date email for a followed performer
+ */
+export async function sendPerformerAnnouncement(
+  email: string,
+  userName: string,
+  announcement: PerformerAnnouncementData
+): Promise<{ success: boolean; error?: string }> {
+  const subject = `${announcement.performerName} announced a ${announcement.city} date`;
+  const metadata = { performerName: announcement.performerName, city: announcement.city, dates: announcement.dates };
+
+  try {
+    const emailHtml = await render(
+      PerformerAnnouncementEmail({
+        userName,
+        ...announcement,
+      })
+    );
+
+    const { data, error } = await getResendClient().emails.send({
+      from: `${FROM_NAME} <${FROM_EMAIL}>`,
+      to: email,
+      subject,
+      html: emailHtml,
+    });
+
+    if (error) {
+      await logEmail({
+        recipient_email: email,
+        email_type: 'performer_announcement',
+        subject,
+        status: 'failed',
+        error_message: error.message,
+        metadata,
+      });
+
+      return { success: false, error: error.message };
+    }
+
+    await logEmail({
+      recipient_email: email,
+      email_type: 'performer_announcement',
+      subject,
+      status: 'sent',
+      resend_id: data?.id,
+      metadata,
+    });
+
+    return { success: true };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Error sending performer announcement:', error);
+
+    await logEmail({
+      recipient_email: email,
+      email_type: 'performer_announcement',
+      subject,
+      status: 'failed',
+      error_message: errorMessage,
+      metadata,
+    });
+
+    return { success: false, error: errorMessage };
+  }
+}
+
+interface VenueDigestData {
+  title: string;
+  venues: Array<{ venueName: string; events: string[] }>;
+  appUrl: string;
+}
+
+/**
+ * Send digest of new events at followed venues
+ */
+export async function sendVenueDigest(
+  email: string,
+  userName: string,
+  digest: VenueDigestData
+): Promise<{ success: boolean; error?: string }> {
+  const subject = digest.title;
+  const metadata = { venues: digest.venues.map(venue => venue.venueName) };
+
+  try {
+    const emailHtml = await render(
+      VenueDigestEmail({
+        userName,
+        ...digest,
+      })
+    );
+
+    const { data, error } = await getResendClient().emails.send({
+      from: `${FROM_NAME} <${FROM_EMAIL}>`,
+      to: email,
+      subject,
+      html: emailHtml,
+    });
+
+    if (error) {
+      await logEmail({
+        recipient_email: email,
+        email_type: 'venue_digest',
+        subject,
+        status: 'failed',
+        error_message: error.message,
+        metadata,
+      });
+
+      return { success: false, error: error.message };
+    }
+
+    await logEmail({
+      recipient_email: email,
+      email_type: 'venue_digest',
+      subject,
+      status: 'sent',
+      resend_id: data?.id,
+      metadata,
+    });
+
+    return { success: true };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Error sending venue digest:', error);
+
+    await logEmail({
+      recipient_email: email,
+      email_type: 'venue_digest',
+      subject,
+      status: 'failed',
+      error_message: errorMessage,
+      metadata,
+    });
+
+    return { success: false, error: errorMessage };
+  }
+}
+
+interface SavedSearchAlertData {
+  searchName: string;
+  summary: string;
+  matches: Array<{ label: string; url: string }>;
+  searchUrl: string;
+  settingsUrl: string;
+}
+
+/**
+ * Send new matches for a saved search
+ */
+export async function sendSavedSearchAlert(
+  email: string,
+  userName: string,
+  alert: SavedSearchAlertData
+): Promise<{ success: boolean; error?: string }> {
+  const subject = `${alert.matches.length} new ${alert.matches.length === 1 ? 'match' : 'matches'} for ${alert.searchName}`;
+  const metadata = { searchName: alert.searchName, matches: alert.matches.length };
+
+  try {
+    const emailHtml = await render(
+      SavedSearchAlertEmail({
+        userName,
+        ...alert,
+      })
+    );
+
+    const { data, error } = await getResendClient().emails.send({
+      from: `${FROM_NAME} <${FROM_EMAIL}>`,
+      to: email,
+      subject,
+      html: emailHtml,
+    });
+
+    if (error) {
+      await logEmail({
+        recipient_email: email,
+        email_type: 'saved_search_alert',
+        subject,
+        status: 'failed',
+        error_message: error.message,
+        metadata,
+      });
+
+      return { success: false, error: error.message };
+    }
+
+    await logEmail({
+      recipient_email: email,
+      email_type: 'saved_search_alert',
+      subject,
+      status: 'sent',
+      resend_id: data?.id,
+      metadata,
+    });
+
+    return { success: true };
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('Error sending saved search alert:', error);
+
+    await logEmail({
+      recipient_email: email,
+      email_type: 'saved_search_alert',
+      subject,
+      status: 'failed',
+      error_message: errorMessage,
+      metadata,
+    });
+
+    return { success: false, error: errorMessage };
+  }
+}
+
 interface SavedEvent {
   id: string;
   name: string;
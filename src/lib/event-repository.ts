@@ -1,21 +1,45 @@
 import { createClient } from '@supabase/supabase-js'
+import { queueVenueAlerts } from '@/lib/venues/service'
+import { resolveEventVenues } from '@/lib/venues/registry-service'
+import type { ListedVenueEvent } from '@/lib/venues/types'
+import { invalidateEvents } from '@/lib/query-cache'
+import type { TaggedEvent } from '@/lib/cache/tags'
+import { GeocodingService } from '@/lib/scraping/pipeline/GeocodingService'
 
 const supabase = createClient(
   process.env.NEXT_PUBLIC_SUPABASE_URL!,
   process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!
 )
 
+const geocoder = new GeocodingService()
+
 export class EventRepository {
   async saveEvents(events: any[]) {
     if (events.length === 0) return { saved: 0, skipped: 0 }
 
     let saved = 0
     let skipped = 0
-
-    for (const event of events) {
+    const stored = await this.findStoredEvents(events)
+    const inserted: ListedVenueEvent[] = []
+    const written: TaggedEvent[] = []
+
+    // Events still save, without a venue_id, when the registry is unavailable
+    const venueIds = await resolveEventVenues(events.map(event => event.venue_name ? {
+      name: event.venue_name,
+      address: event.address,
+      city: event.city_name || event.city,
+      latitude: event.latitude ?? null,
+      longitude: event.longitude ?? null
+    } : null)).catch(error => {
+      console.warn('⚠️ Failed to resolve venues:', error.message)
+      return events.map(() => null)
+    })
+
+    for (const [index, event] of events.entries()) {
       try {
         // Create unique ID from title + date + venue
         const uniqueId = this.generateEventId(event.title, event.date, event.venue_name)
+        const coordinates = await this.resolveCoordinates(event)
         
         const eventData = {
           id: uniqueId,
@@ -24,15 +48,16 @@ export class EventRepository {
           date: event.date,
           time: event.time,
           venue_name: event.venue_name,
-          address: event.address || 'Toronto, ON',
+          venue_id: venueIds[index],
+          address: event.address || null,
           price_min: event.price_min || 0,
           price_max: event.price_max || event.price_min || 0,
           price_range: event.price_range || (event.price_min === 0 ? 'Free' : `$${event.price_min}`),
           external_url: event.external_url,
           category: event.category,
           image_url: event.image_url || '',
-          latitude: event.latitude || 43.6532,
-          longitude: event.longitude || -79.3832,
+          latitude: coordinates?.latitude ?? null,
+          longitude: coordinates?.longitude ?? null,
           source: event.source || 'scraper',
           created_at: new Date().toISOString(),
           updated_at: new Date().toISOString()
@@ -48,6 +73,13 @@ export class EventRepository {
           skipped++
         } else {
           saved++
+          written.push({ id: uniqueId, category: event.category, date: event.date })
+          const previous = stored.get(uniqueId)
+          if (previous) {
+            written.push(previous)
+          } else {
+            inserted.push({ id: uniqueId, title: event.title, date: event.date, venue_name: event.venue_name, venue_id: venueIds[index] })
+          }
         }
       } catch (error) {
         console.error(`Error processing event ${event.title}:`, error)
@@ -55,6 +87,16 @@ export class EventRepository {
       }
     }
 
+    // Tell followers of the venues about events that were not listed before
+    if (inserted.length > 0) {
+      await queueVenueAlerts(inserted).catch(error =>
+        console.warn('⚠️ Failed to queue venue alerts:', error.message)
+      )
+    }
+
+    // Cached listings that could include these events are stale now
+    await invalidateEvents(written)
+
     console.log(`💾 Saved ${saved} events, skipped ${skipped}`)
     return { saved, skipped }
   }
@@ -142,6 +184,54 @@ export class EventRepository {
     }
   }
 
+  /**
+   * The stored versions of these events, by id, so saveEvents can tell
+   * inserts from updates and invalidate the listings an update moves an event
+   * out of. If the lookup fails every event counts as stored, which skips
+   * venue alerts rather than repeating them.
+   */
+  private async findStoredEvents(events: any[]): Promise<Map<string, TaggedEvent>> {
+    // Events without a title or venue fail to save anyway
+    const ids = events
+      .filter(event => event.title && event.venue_name)
+      .map(event => this.generateEventId(event.title, event.date, event.venue_name))
+    if (ids.length === 0) return new Map()
+
+    const { data, error } = await supabase
+      .from('events')
+      .select('id, city_name, category, date')
+      .in('id', ids)
+
+    if (error) {
+      console.error('Failed to look up stored events:', error.message)
+      return new Map(ids.map(id => [id, { id }]))
+    }
+
+    return new Map((data || []).map(row => [row.id, row as TaggedEvent]))
+  }
+
+  /**
+   * The source's coordinates, or the geocoder's when it can place the venue
+   * or address. Events it cannot place are saved without coordinates rather
+   * than on a city centre, and the geocoder flags them for review.
+   */
+  private async resolveCoordinates(event: any): Promise<{ latitude: number; longitude: number } | null> {
+    const latitude = Number(event.latitude)
+    const longitude = Number(event.longitude)
+    if (event.latitude != null && event.longitude != null && Number.isFinite(latitude) && Number.isFinite(longitude)) {
+      return { latitude, longitude }
+    }
+
+    if (!event.venue_name && !event.address) return null
+
+    const result = await geocoder.geocode({
+      venueName: event.venue_name,
+      address: event.address,
+      city: event.city_name || event.city
+    })
+    return result.coordinates || null
+  }
+
   private generateEventId(title: string, date: string, venue: string): string {
     const cleanTitle = title.toLowerCase().replace(/[^a-z0-9]/g, '')
     const cleanVenue = venue.toLowerCase().replace(/[^a-z0-9]/g, '')
@@ -3,16 +3,27 @@
  * Selects events intelligently to help users discover their taste
  */
 
-import { AffinityProfile, computeAffinity } from '@/lib/tracking/affinity'
-import { readInteractions } from '@/lib/tracking/client'
+import { AffinityProfile, computeAffinity, venueAffinityKey } from '@/lib/tracking/affinity'
+import { readInteractions, InteractionEvent } from '@/lib/tracking/client'
 import { getSavedIds } from '@/lib/saved/store'
 
-interface SmartQueueOptions {
+export interface SmartQueueOptions {
   maxEvents?: number
   diversityWeight?: number // 0-1, higher = more diverse categories
   qualityWeight?: number // 0-1, higher = prioritize high-quality events
 }
 
+/**
+ * Everything the queue reads from the browser, so it can also run offline
+ * (see lib/personalization/evaluation)
+ */
+export interface SmartQueueInputs {
+  interactions: InteractionEvent[]
+  savedIds: Set<string>
+  now?: number
+  random?: () => number
+}
+
 /**
  * Create a smart queue of events for swiping
  * Algorithm prioritizes:
@@ -24,17 +35,30 @@ interface SmartQueueOptions {
 export function createSmartQueue(
   allEvents: any[],
   options: SmartQueueOptions = {}
+): any[] {
+  return rankSmartQueue(allEvents, {
+    interactions: readInteractions(),
+    savedIds: getSavedIds()
+  }, options)
+}
+
+/**
+ * Smart queue over explicit inputs instead of the browser stores
+ */
+export function rankSmartQueue(
+  allEvents: any[],
+  inputs: SmartQueueInputs,
+  options: SmartQueueOptions = {}
 ): any[] {
   const {
     maxEvents = 20,
     diversityWeight = 0.3,
     qualityWeight = 0.4
   } = options
+  const { interactions, savedIds, now = Date.now(), random = Math.random } = inputs
 
   // Get user preferences
-  const savedIds = getSavedIds()
-  const interactions = readInteractions()
-  const affinity = interactions.length > 0 ? computeAffinity(interactions) : null
+  const affinity = interactions.length > 0 ? computeAffinity(interactions, 30, { now }) : null
 
   // Filter out saved and past events
   let candidates = allEvents.filter(event => {
@@ -43,7 +67,7 @@ export function createSmartQueue(
 
     // Skip past events
     const eventDate = new Date(event.date || event.start_date)
-    if (eventDate < new Date()) return false
+    if (eventDate.getTime() < now) return false
 
     return true
   })
@@ -51,7 +75,7 @@ export function createSmartQueue(
   // Score each event
   const scoredEvents = candidates.map(event => ({
     event,
-    score: calculateEventScore(event, affinity, { diversityWeight, qualityWeight })
+    score: calculateEventScore(event, affinity, { diversityWeight, qualityWeight }, random)
   }))
 
   // Sort by score (highest first)
@@ -69,7 +93,8 @@ export function createSmartQueue(
 function calculateEventScore(
   event: any,
   affinity: AffinityProfile | null,
-  options: { diversityWeight: number; qualityWeight: number }
+  options: { diversityWeight: number; qualityWeight: number },
+  random: () => number
 ): number {
   let score = 0
 
@@ -90,7 +115,7 @@ function calculateEventScore(
     score += diversityBonus * options.diversityWeight
   } else {
     // If no user data, add random diversity
-    score += Math.random() * options.diversityWeight
+    score += random() * options.diversityWeight
   }
 
   return score
@@ -135,8 +160,16 @@ function getAffinityScore(event: any, affinity: AffinityProfile): number {
   }
 
   // Venue affinity
-  if (event.venue_name && affinity.venues[event.venue_name]) {
-    score += affinity.venues[event.venue_name] * 0.3
+  const venue = venueAffinityKey(event)
+  if (venue && affinity.venues[venue]) {
+    score += affinity.venues[venue] * 0.3
+  }
+
+  // Performer affinity: the best-liked act on the bill
+  const performerScores = (event.performers || [])
+    .map((performer: { slug: string }) => affinity.performers?.[performer.slug] || 0)
+  if (performerScores.length > 0) {
+    score += Math.max(0, ...performerScores) * 0.4
   }
 
   // Price range affinity
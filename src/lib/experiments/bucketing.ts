@@ -0,0 +1,98 @@
+/**
+ * Deterministic experiment bucketing
+ *
+ * A unit (user id, or anonymous device id) hashes to the same variant on
+ * every device and server without storing anything. Enrollment and variant
+ * use separate hashes, so widening traffic_allocation adds units without
+ * moving the ones already enrolled.
+ */
+
+export type ExperimentStatus = 'draft' | 'running' | 'stopped'
+
+export interface ExperimentVariant {
+  name: string
+  weight: number                    // Relative; weights need not sum to 1
+  config: Record<string, any>
+}
+
+export interface ExperimentDefinition {
+  key: string
+  description: string
+  status: ExperimentStatus
+  trafficAllocation: number         // 0-1 share of units enrolled
+  variants: ExperimentVariant[]     // First variant is the control
+  killed: boolean
+}
+
+export interface ExperimentAssignment {
+  experimentKey: string
+  variant: string
+  config: Record<string, any>
+  enrolled: boolean                 // false: control config, nothing logged
+}
+
+/**
+ * FNV-1a hash mapped to [0, 1). The murmur3 finalizer spreads ids that
+ * differ only in their last characters (user-1, user-2...), which plain
+ * FNV-1a leaves clustered.
+ */
+export function hashToUnitInterval(input: string): number {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  hash ^= hash >>> 16
+  hash = Math.imul(hash, 0x85ebca6b)
+  hash ^= hash >>> 13
+  hash = Math.imul(hash, 0xc2b2ae35)
+  hash ^= hash >>> 16
+  return (hash >>> 0) / 4294967296
+}
+
+/**
+ * Whether the experiment should enroll anyone right now
+ */
+export function isExperimentLive(experiment: ExperimentDefinition): boolean {
+  return experiment.status === 'running' && !experiment.killed && experiment.variants.length > 0
+}
+
+/**
+ * Assign a unit to a variant. pinnedVariant (from a stored exposure) wins
+ * while that variant still exists, so units never switch mid-experiment.
+ */
+export function assignVariant(
+  experiment: ExperimentDefinition,
+  unitId: string,
+  pinnedVariant?: string | null
+): ExperimentAssignment {
+  const control = experiment.variants[0]
+  const notEnrolled: ExperimentAssignment = {
+    experimentKey: experiment.key,
+    variant: control?.name || 'control',
+    config: control?.config || {},
+    enrolled: false
+  }
+
+  if (!isExperimentLive(experiment)) return notEnrolled
+
+  const pinned = pinnedVariant ? experiment.variants.find(v => v.name === pinnedVariant) : undefined
+  if (pinned) {
+    return { experimentKey: experiment.key, variant: pinned.name, config: pinned.config, enrolled: true }
+  }
+
+  if (hashToUnitInterval(`${experiment.key}:enroll:${unitId}`) >= experiment.trafficAllocation) {
+    return notEnrolled
+  }
+
+  const totalWeight = experiment.variants.reduce((sum, v) => sum + Math.max(v.weight, 0), 0)
+  if (totalWeight <= 0) return notEnrolled
+
+  let point = hashToUnitInterval(`${experiment.key}:variant:${unitId}`) * totalWeight
+  const variant = experiment.variants.find(v => {
+    point -= Math.max(v.weight, 0)
+    return point < 0
+  }) || experiment.variants[experiment.variants.length - 1]
+
+  return { experimentKey: experiment.key, variant: variant.name, config: variant.config, enrolled: true }
+}
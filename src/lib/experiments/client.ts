@@ -0,0 +1,141 @@
+/**
+ * Client-side experiments - fetches sticky assignments from /api/experiments
+ * and batches exposure/outcome logging back to it.
+ *
+ * Anonymous visitors are bucketed by a device id kept in localStorage;
+ * signed-in users by account, so the variant follows them across devices
+ * (a visitor may change variant once, when they first sign in). Users who
+ * opted out of analytics always get control and nothing is logged.
+ */
+
+import type { Session } from '@supabase/supabase-js'
+import { createClient } from '@/lib/supabase/client'
+import { hasOptedOut, posthog } from '@/providers/PostHogProvider'
+import type { ExperimentAssignment } from './bucketing'
+import type { ExperimentEventInput } from './service'
+
+const UNIT_KEY = 'sceneScout_experimentUnit'
+const ASSIGNMENTS_KEY = 'sceneScout_experimentAssignments'
+// Assignments are deterministic; refetch occasionally to pick up kill switches
+const ASSIGNMENTS_TTL_MS = 10 * 60 * 1000
+const FLUSH_DEBOUNCE_MS = 2000
+// The route accepts at most 100 events per request
+const MAX_BATCH = 100
+
+let assignmentsInFlight: Promise<Record<string, ExperimentAssignment>> | null = null
+let pendingEvents: ExperimentEventInput[] = []
+let flushTimer: number | null = null
+
+/**
+ * Anonymous bucketing id for this device
+ */
+export function getExperimentUnitId(): string {
+  let unitId = localStorage.getItem(UNIT_KEY)
+  if (!unitId) {
+    unitId = crypto.randomUUID()
+    localStorage.setItem(UNIT_KEY, unitId)
+  }
+  return unitId
+}
+
+async function getSession(): Promise<Session | null> {
+  return (await createClient().auth.getSession()).data.session
+}
+
+function authHeaders(session: Session | null): Record<string, string> {
+  return session ? { 'Authorization': `Bearer ${session.access_token}` } : {}
+}
+
+// Cached per account, so signing in or out refetches under the new unit
+function readCachedAssignments(accountId: string | null): Record<string, ExperimentAssignment> | null {
+  try {
+    const cached = JSON.parse(localStorage.getItem(ASSIGNMENTS_KEY) || 'null')
+    if (cached && cached.accountId === accountId && Date.now() - cached.fetchedAt < ASSIGNMENTS_TTL_MS) {
+      return cached.assignments
+    }
+  } catch {}
+  return null
+}
+
+/**
+ * Assignments for every running experiment (empty when opted out or offline,
+ * which callers treat as control)
+ */
+export async function loadAssignments(): Promise<Record<string, ExperimentAssignment>> {
+  if (typeof window === 'undefined' || hasOptedOut()) return {}
+  if (assignmentsInFlight) return assignmentsInFlight
+
+  assignmentsInFlight = (async () => {
+    try {
+      const session = await getSession()
+      const accountId = session?.user.id || null
+
+      const cached = readCachedAssignments(accountId)
+      if (cached) return cached
+
+      const response = await fetch(`/api/experiments?unitId=${encodeURIComponent(getExperimentUnitId())}`, {
+        headers: authHeaders(session)
+      })
+      if (!response.ok) return {}
+
+      const { assignments } = await response.json()
+      localStorage.setItem(ASSIGNMENTS_KEY, JSON.stringify({ assignments, accountId, fetchedAt: Date.now() }))
+      return assignments || {}
+    } catch (error) {
+      console.warn('⚠️ Failed to load experiments:', error instanceof Error ? error.message : String(error))
+      return {}
+    } finally {
+      assignmentsInFlight = null
+    }
+  })()
+
+  return assignmentsInFlight
+}
+
+/**
+ * Tag every later PostHog event with the variant, so funnels built from
+ * useTracking events can be split by experiment
+ */
+export function registerExperimentVariant(assignment: ExperimentAssignment): void {
+  if (!posthog || hasOptedOut()) return
+  try {
+    posthog.register({ [`experiment_${assignment.experimentKey}`]: assignment.variant })
+  } catch (error) {
+    console.error('Failed to register experiment variant:', error)
+  }
+}
+
+/**
+ * Queue exposures/outcomes for the report; sent in debounced batches
+ */
+export function logExperimentEvents(events: ExperimentEventInput[]): void {
+  if (typeof window === 'undefined' || hasOptedOut() || events.length === 0) return
+
+  const occurredAt = Date.now()
+  pendingEvents.push(...events.map(event => ({ occurredAt, ...event })))
+
+  if (flushTimer !== null) window.clearTimeout(flushTimer)
+  flushTimer = window.setTimeout(() => {
+    flushTimer = null
+    void flushExperimentEvents()
+  }, FLUSH_DEBOUNCE_MS)
+}
+
+async function flushExperimentEvents(): Promise<void> {
+  const batch = pendingEvents.splice(0, MAX_BATCH)
+  if (batch.length === 0) return
+
+  try {
+    await fetch('/api/experiments', {
+      method: 'POST',
+      headers: { ...authHeaders(await getSession()), 'Content-Type': 'application/json' },
+      body: JSON.stringify({ unitId: getExperimentUnitId(), events: batch }),
+      keepalive: true
+    })
+  } catch (error) {
+    // Report counts tolerate the odd lost batch; don't retry into a loop
+    console.warn('⚠️ Failed to log experiment events:', error instanceof Error ? error.message : String(error))
+  }
+
+  if (pendingEvents.length > 0) void flushExperimentEvents()
+}
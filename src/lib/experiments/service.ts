@@ -0,0 +1,258 @@
+/**
+ * Server-side experiments
+ * Loads definitions, resolves sticky assignments, records exposures and
+ * outcomes, and builds the admin report. Used by /api/experiments,
+ * /api/admin/experiments and PersonalizationEngine.
+ *
+ * Setting EXPERIMENTS_KILL_SWITCH=true sends every unit to control without
+ * touching the definitions.
+ */
+
+import { getServiceSupabaseClient } from '@/lib/supabase-server'
+import {
+  assignVariant,
+  type ExperimentAssignment,
+  type ExperimentDefinition,
+  type ExperimentStatus,
+  type ExperimentVariant
+} from './bucketing'
+import { buildVariantReports, type VariantCounts, type VariantReport } from './stats'
+
+export type ExperimentEventType = 'exposure' | 'impression' | 'click' | 'save'
+
+export interface ExperimentEventInput {
+  experimentKey: string
+  type: ExperimentEventType
+  eventId?: string
+  occurredAt?: number
+}
+
+export interface ExperimentReport {
+  experiment: ExperimentDefinition
+  variants: VariantReport[]
+  generatedAt: string
+}
+
+function isGloballyKilled(): boolean {
+  return process.env.EXPERIMENTS_KILL_SWITCH === 'true'
+}
+
+function toDefinition(row: any): ExperimentDefinition {
+  return {
+    key: row.key,
+    description: row.description || '',
+    status: row.status as ExperimentStatus,
+    trafficAllocation: Number(row.traffic_allocation),
+    variants: (row.variants || []) as ExperimentVariant[],
+    killed: row.killed || isGloballyKilled()
+  }
+}
+
+export async function listExperiments(): Promise<ExperimentDefinition[]> {
+  const supabase = getServiceSupabaseClient()
+
+  const { data, error } = await supabase
+    .from('experiments')
+    .select('*')
+    .order('created_at', { ascending: false })
+
+  if (error) throw new Error(`Failed to load experiments: ${error.message}`)
+  return (data || []).map(toDefinition)
+}
+
+export async function getExperiment(key: string): Promise<ExperimentDefinition | null> {
+  const supabase = getServiceSupabaseClient()
+
+  const { data, error } = await supabase
+    .from('experiments')
+    .select('*')
+    .eq('key', key)
+    .maybeSingle()
+
+  if (error) throw new Error(`Failed to load experiment: ${error.message}`)
+  return data ? toDefinition(data) : null
+}
+
+async function loadRunningExperiments(keys?: string[]): Promise<ExperimentDefinition[]> {
+  const supabase = getServiceSupabaseClient()
+
+  let query = supabase.from('experiments').select('*').eq('status', 'running')
+  if (keys) query = query.in('key', keys)
+
+  const { data, error } = await query
+  if (error) throw new Error(`Failed to load experiments: ${error.message}`)
+  return (data || []).map(toDefinition)
+}
+
+async function loadPinnedVariants(unitId: string, keys: string[]): Promise<Map<string, string>> {
+  if (keys.length === 0) return new Map()
+
+  const supabase = getServiceSupabaseClient()
+  const { data, error } = await supabase
+    .from('experiment_exposures')
+    .select('experiment_key, variant')
+    .eq('unit_id', unitId)
+    .in('experiment_key', keys)
+
+  if (error) throw new Error(`Failed to load experiment exposures: ${error.message}`)
+  return new Map((data || []).map(row => [row.experiment_key, row.variant]))
+}
+
+/**
+ * Assignments for every running experiment, keyed by experiment key
+ */
+export async function getAssignments(unitId: string, keys?: string[]): Promise<Record<string, ExperimentAssignment>> {
+  const experiments = await loadRunningExperiments(keys)
+  const pinned = await loadPinnedVariants(unitId, experiments.map(e => e.key))
+
+  const assignments: Record<string, ExperimentAssignment> = {}
+  experiments.forEach(experiment => {
+    assignments[experiment.key] = assignVariant(experiment, unitId, pinned.get(experiment.key))
+  })
+  return assignments
+}
+
+/**
+ * Assignment for one experiment, or null when it isn't running
+ */
+export async function getExperimentAssignment(key: string, unitId: string): Promise<ExperimentAssignment | null> {
+  const assignments = await getAssignments(unitId, [key])
+  return assignments[key] || null
+}
+
+/**
+ * Record exposures and outcomes. The variant is resolved here rather than
+ * trusted from the client; events for units not enrolled are dropped.
+ *
+ * @returns Number of events stored
+ */
+export async function recordExperimentEvents(
+  unitId: string,
+  userId: string | null,
+  events: ExperimentEventInput[]
+): Promise<number> {
+  if (events.length === 0) return 0
+
+  const assignments = await getAssignments(unitId, Array.from(new Set(events.map(e => e.experimentKey))))
+  const enrolled = events.filter(e => assignments[e.experimentKey]?.enrolled)
+  if (enrolled.length === 0) return 0
+
+  const supabase = getServiceSupabaseClient()
+  const occurredAt = (event: ExperimentEventInput) => new Date(event.occurredAt ?? Date.now()).toISOString()
+
+  // Exposures pin the variant; an outcome implies the unit saw the variant
+  const exposedKeys = Array.from(new Set(enrolled.map(e => e.experimentKey)))
+  const { error: exposureError } = await supabase
+    .from('experiment_exposures')
+    .upsert(exposedKeys.map(key => ({
+      experiment_key: key,
+      unit_id: unitId,
+      user_id: userId,
+      variant: assignments[key].variant,
+      exposed_at: occurredAt(enrolled.find(e => e.experimentKey === key)!),
+    })), { onConflict: 'experiment_key,unit_id', ignoreDuplicates: true })
+
+  if (exposureError) throw new Error(`Failed to record exposures: ${exposureError.message}`)
+
+  const outcomes = enrolled.filter(e => e.type !== 'exposure')
+  if (outcomes.length > 0) {
+    const { error } = await supabase
+      .from('experiment_events')
+      .insert(outcomes.map(event => ({
+        experiment_key: event.experimentKey,
+        unit_id: unitId,
+        variant: assignments[event.experimentKey].variant,
+        event_type: event.type,
+        event_id: event.eventId || null,
+        occurred_at: occurredAt(event),
+      })))
+
+    if (error) throw new Error(`Failed to record experiment events: ${error.message}`)
+  }
+
+  return enrolled.length
+}
+
+/**
+ * Create or update a definition (admin)
+ */
+export async function saveExperiment(definition: Omit<ExperimentDefinition, 'killed'> & { killed?: boolean }): Promise<ExperimentDefinition> {
+  const supabase = getServiceSupabaseClient()
+
+  const { data, error } = await supabase
+    .from('experiments')
+    .upsert({
+      key: definition.key,
+      description: definition.description,
+      status: definition.status,
+      traffic_allocation: definition.trafficAllocation,
+      variants: definition.variants,
+      killed: definition.killed ?? false,
+      updated_at: new Date().toISOString(),
+    }, { onConflict: 'key' })
+    .select()
+    .single()
+
+  if (error) throw new Error(`Failed to save experiment: ${error.message}`)
+  return toDefinition(data)
+}
+
+/**
+ * Flip the kill switch or change status/allocation without redefining variants
+ */
+export async function updateExperiment(
+  key: string,
+  changes: { status?: ExperimentStatus; killed?: boolean; trafficAllocation?: number }
+): Promise<ExperimentDefinition | null> {
+  const supabase = getServiceSupabaseClient()
+
+  const update: Record<string, any> = { updated_at: new Date().toISOString() }
+  if (changes.status !== undefined) update.status = changes.status
+  if (changes.killed !== undefined) update.killed = changes.killed
+  if (changes.trafficAllocation !== undefined) update.traffic_allocation = changes.trafficAllocation
+
+  const { data, error } = await supabase
+    .from('experiments')
+    .update(update)
+    .eq('key', key)
+    .select()
+    .maybeSingle()
+
+  if (error) throw new Error(`Failed to update experiment: ${error.message}`)
+  return data ? toDefinition(data) : null
+}
+
+async function countRows(table: string, filters: Record<string, string>): Promise<number> {
+  const supabase = getServiceSupabaseClient()
+
+  let query = supabase.from(table).select('id', { count: 'exact', head: true })
+  for (const [column, value] of Object.entries(filters)) {
+    query = query.eq(column, value)
+  }
+
+  const { count, error } = await query
+  if (error) throw new Error(`Failed to count ${table}: ${error.message}`)
+  return count || 0
+}
+
+/**
+ * Per-variant click-through and save rate with confidence intervals
+ */
+export async function buildExperimentReport(experiment: ExperimentDefinition): Promise<ExperimentReport> {
+  const counts: VariantCounts[] = await Promise.all(experiment.variants.map(async ({ name }) => {
+    const filters = { experiment_key: experiment.key, variant: name }
+    const [units, impressions, clicks, saves] = await Promise.all([
+      countRows('experiment_exposures', filters),
+      countRows('experiment_events', { ...filters, event_type: 'impression' }),
+      countRows('experiment_events', { ...filters, event_type: 'click' }),
+      countRows('experiment_events', { ...filters, event_type: 'save' }),
+    ])
+    return { variant: name, units, impressions, clicks, saves }
+  }))
+
+  return {
+    experiment,
+    variants: buildVariantReports(counts),
+    generatedAt: new Date().toISOString()
+  }
+}
@@ -0,0 +1,85 @@
+/**
+ * Experiment report statistics
+ * Rates use Wilson score intervals (stable at small counts); lifts against
+ * control use a normal approximation for the difference of two proportions.
+ */
+
+// Two-sided 95%
+const Z_95 = 1.959964
+
+export interface RateEstimate {
+  rate: number
+  low: number
+  high: number
+}
+
+export interface VariantCounts {
+  variant: string
+  units: number
+  impressions: number
+  clicks: number
+  saves: number
+}
+
+export interface VariantReport extends VariantCounts {
+  clickThrough: RateEstimate
+  saveRate: RateEstimate
+  // Absolute difference from control; null for the control itself
+  clickThroughLift: RateEstimate | null
+  saveRateLift: RateEstimate | null
+}
+
+/**
+ * Wilson score interval for successes out of trials
+ */
+export function wilsonInterval(successes: number, trials: number, z: number = Z_95): RateEstimate {
+  if (trials <= 0) return { rate: 0, low: 0, high: 0 }
+
+  const p = Math.min(successes / trials, 1)
+  const z2 = z * z
+  const denominator = 1 + z2 / trials
+  const center = (p + z2 / (2 * trials)) / denominator
+  const margin = (z * Math.sqrt(p * (1 - p) / trials + z2 / (4 * trials * trials))) / denominator
+
+  return { rate: p, low: Math.max(0, center - margin), high: Math.min(1, center + margin) }
+}
+
+/**
+ * Difference of two proportions (treatment - control) with a Wald interval
+ */
+export function differenceInterval(
+  treatment: { successes: number; trials: number },
+  control: { successes: number; trials: number },
+  z: number = Z_95
+): RateEstimate | null {
+  if (treatment.trials <= 0 || control.trials <= 0) return null
+
+  const p1 = Math.min(treatment.successes / treatment.trials, 1)
+  const p0 = Math.min(control.successes / control.trials, 1)
+  const se = Math.sqrt(p1 * (1 - p1) / treatment.trials + p0 * (1 - p0) / control.trials)
+  const diff = p1 - p0
+
+  return { rate: diff, low: diff - z * se, high: diff + z * se }
+}
+
+/**
+ * Per-variant click-through and save rate (per impression), with lifts
+ * against the first variant (control)
+ */
+export function buildVariantReports(counts: VariantCounts[]): VariantReport[] {
+  const control = counts[0]
+
+  return counts.map((variant, index) => ({
+    ...variant,
+    clickThrough: wilsonInterval(variant.clicks, variant.impressions),
+    saveRate: wilsonInterval(variant.saves, variant.impressions),
+    clickThroughLift: index === 0 || !control ? null : differenceInterval(
+      { successes: variant.clicks, trials: variant.impressions },
+      { successes: control.clicks, trials: control.impressions }
+    ),
+    saveRateLift: index === 0 || !control ? null : differenceInterval(
+      { successes: variant.saves, trials: variant.impressions },
+      { successes: control.saves, trials: control.impressions }
+    )
+  }))
+}
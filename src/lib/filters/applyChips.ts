@@ -1,6 +1,14 @@
+import { formatInTimeZone } from 'date-fns-tz'
 import { isWithinHours } from '@/lib/datetime'
+import { wallTimeToUtc } from '@/lib/calendar/timezone'
 
-export function applyChipFilters(events: any[], chip: { tonight?: boolean; now?: boolean; near?: boolean; free?: boolean }, opts: { tz: string; todayStartIsoUtc: string; todayEndIsoUtc: string; userLat?: number; userLng?: number; maxWalkMin?: number }) {
+// Assumed event length when a provider gives no end time
+export const DEFAULT_EVENT_DURATION_MS = 4 * 60 * 60 * 1000
+
+// ~5 km/h walking pace
+export const WALK_MINUTES_PER_KM = 12
+
+export function applyChipFilters(events: any[], chip: { tonight?: boolean; now?: boolean; near?: boolean; free?: boolean }, opts: { tz: string; todayStartIsoUtc: string; todayEndIsoUtc: string; userLat?: number; userLng?: number; maxWalkMin?: number; now?: Date }) {
   let list = [...events]
 
   if (chip.free) {
@@ -9,7 +17,7 @@ export function applyChipFilters(events: any[], chip: { tonight?: boolean; now?:
 
   if (chip.now) {
     // Show events starting within next 3 hours
-    const nowTime = Date.now()
+    const nowTime = (opts.now ?? new Date()).getTime()
     const threeHoursLater = nowTime + (3 * 60 * 60 * 1000)
 
     list = list.filter(e => {
@@ -21,22 +29,8 @@ export function applyChipFilters(events: any[], chip: { tonight?: boolean; now?:
       return eventTime >= nowTime && eventTime <= threeHoursLater
     })
   } else if (chip.tonight) {
-    // Show events happening tonight (6 PM today - 4 AM tomorrow)
-    const now = new Date()
-    const tonightStart = new Date(now)
-    tonightStart.setHours(18, 0, 0, 0) // 6 PM today
-
-    const tonightEnd = new Date(now)
-    tonightEnd.setDate(tonightEnd.getDate() + 1)
-    tonightEnd.setHours(4, 0, 0, 0) // 4 AM tomorrow
-
-    // If it's before 6 PM, show tonight's events
-    // If it's after midnight, show events from previous evening that are still ongoing
-    if (now.getHours() < 6) {
-      // It's early morning (12 AM - 6 AM), show events from yesterday evening
-      tonightStart.setDate(tonightStart.getDate() - 1)
-      tonightEnd.setHours(6, 0, 0, 0) // Until 6 AM today
-    }
+    // Show events happening tonight (6 PM today - 4 AM tomorrow, in opts.tz)
+    const { tonightStart, tonightEnd } = tonightWindow(opts.now ?? new Date(), opts.tz)
 
     list = list.filter(e => {
       // Support multiple date field formats from different APIs
@@ -48,7 +42,7 @@ export function applyChipFilters(events: any[], chip: { tonight?: boolean; now?:
 
       // Default 4 hour duration if no end time specified
       const endStr = e.end_date || e.endUtc
-      const eventEnd = endStr ? new Date(endStr).getTime() : eventStart + (4 * 60 * 60 * 1000)
+      const eventEnd = endStr ? new Date(endStr).getTime() : eventStart + DEFAULT_EVENT_DURATION_MS
 
       // Event is happening tonight if it starts before tonight ends AND ends after tonight starts
       return eventStart <= tonightEnd.getTime() && eventEnd >= tonightStart.getTime()
@@ -60,7 +54,7 @@ export function applyChipFilters(events: any[], chip: { tonight?: boolean; now?:
     list = list
       .map(e => {
         const dKm = haversineKm(opts.userLat!, opts.userLng!, e.lat ?? e.latitude, e.lng ?? e.longitude)
-        const walkMin = dKm * 12 // ~5 km/h => 12 min per km
+        const walkMin = dKm * WALK_MINUTES_PER_KM
         return { ...e, _walkMin: walkMin }
       })
       .filter(e => typeof e._walkMin === 'number' && e._walkMin <= (opts.maxWalkMin ?? 20))
@@ -70,7 +64,27 @@ export function applyChipFilters(events: any[], chip: { tonight?: boolean; now?:
   return list
 }
 
-function haversineKm(lat1:number, lon1:number, lat2:number, lon2:number) {
+/**
+ * Tonight's window in `tz`. Between midnight and 6 AM it is still last night,
+ * so the window runs from 6 PM yesterday until 6 AM today.
+ */
+function tonightWindow(now: Date, tz: string): { tonightStart: Date; tonightEnd: Date } {
+  const [year, month, day, hour] = formatInTimeZone(now, tz, 'yyyy-M-d-H').split('-').map(Number)
+
+  if (hour < 6) {
+    return {
+      tonightStart: wallTimeToUtc({ year, month, day: day - 1, hour: 18 }, tz),
+      tonightEnd: wallTimeToUtc({ year, month, day, hour: 6 }, tz)
+    }
+  }
+
+  return {
+    tonightStart: wallTimeToUtc({ year, month, day, hour: 18 }, tz),
+    tonightEnd: wallTimeToUtc({ year, month, day: day + 1, hour: 4 }, tz)
+  }
+}
+
+export function haversineKm(lat1:number, lon1:number, lat2:number, lon2:number) {
   if ([lat1,lon1,lat2,lon2].some(v => typeof v !== 'number' || Number.isNaN(v))) return Number.POSITIVE_INFINITY
   const toRad = (x:number)=>x*Math.PI/180
   const R=6371, dLat=toRad(lat2-lat1), dLon=toRad(lon2-lon1)
@@ -0,0 +1,163 @@
+/**
+ * Persistent geocode cache
+ * Results by normalized query in geocode_cache, so each location is looked
+ * up once across scraper runs. Results that could not be placed are flagged
+ * for review through /api/admin/geocode-review; a reviewed entry never
+ * expires.
+ */
+
+import { getServiceSupabaseClient } from '@/lib/supabase-server'
+import type { CachedGeocode, Coordinates, GeocodePrecision, GeocodeStore } from './types'
+
+interface GeocodeRow {
+  query_key: string
+  query: string
+  provider: string | null
+  precision: GeocodePrecision
+  confidence: number
+  latitude: number | string | null
+  longitude: number | string | null
+  candidate_latitude: number | string | null
+  candidate_longitude: number | string | null
+  formatted_address: string | null
+  city: string | null
+  state: string | null
+  country: string | null
+  postal_code: string | null
+  needs_review: boolean
+  reviewed_at: string | null
+}
+
+const GEOCODE_COLUMNS = 'query_key, query, provider, precision, confidence, latitude, longitude, candidate_latitude, candidate_longitude, formatted_address, city, state, country, postal_code, needs_review, reviewed_at'
+
+function coordinatesOf(latitude: number | string | null, longitude: number | string | null): Coordinates | undefined {
+  if (latitude === null || longitude === null) return undefined
+  return { latitude: Number(latitude), longitude: Number(longitude) }
+}
+
+function fromGeocodeRow(row: GeocodeRow): CachedGeocode {
+  return {
+    queryKey: row.query_key,
+    query: row.query,
+    provider: row.provider,
+    precision: row.precision,
+    confidence: row.confidence,
+    coordinates: coordinatesOf(row.latitude, row.longitude),
+    candidate: coordinatesOf(row.candidate_latitude, row.candidate_longitude),
+    formattedAddress: row.formatted_address || undefined,
+    city: row.city || undefined,
+    state: row.state || undefined,
+    country: row.country || undefined,
+    postalCode: row.postal_code || undefined,
+    needsReview: row.needs_review,
+    reviewedAt: row.reviewed_at || undefined
+  }
+}
+
+export async function loadCachedGeocode(queryKey: string): Promise<CachedGeocode | null> {
+  const supabase = getServiceSupabaseClient()
+
+  const { data, error } = await supabase
+    .from('geocode_cache')
+    .select(GEOCODE_COLUMNS)
+    .eq('query_key', queryKey)
+    .or(`expires_at.is.null,expires_at.gt.${new Date().toISOString()}`)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to load geocode for ${queryKey}: ${error.message}`)
+  }
+
+  return data ? fromGeocodeRow(data as GeocodeRow) : null
+}
+
+export async function saveCachedGeocode(entry: CachedGeocode, ttlMs: number): Promise<void> {
+  const supabase = getServiceSupabaseClient()
+
+  const { error } = await supabase
+    .from('geocode_cache')
+    .upsert({
+      query_key: entry.queryKey,
+      query: entry.query,
+      provider: entry.provider,
+      precision: entry.precision,
+      confidence: entry.confidence,
+      latitude: entry.coordinates?.latitude ?? null,
+      longitude: entry.coordinates?.longitude ?? null,
+      candidate_latitude: entry.candidate?.latitude ?? null,
+      candidate_longitude: entry.candidate?.longitude ?? null,
+      formatted_address: entry.formattedAddress ?? null,
+      city: entry.city ?? null,
+      state: entry.state ?? null,
+      country: entry.country ?? null,
+      postal_code: entry.postalCode ?? null,
+      needs_review: entry.needsReview,
+      expires_at: new Date(Date.now() + ttlMs).toISOString()
+    }, { onConflict: 'query_key' })
+
+  if (error) {
+    throw new Error(`Failed to save geocode for ${entry.queryKey}: ${error.message}`)
+  }
+}
+
+export const supabaseGeocodeStore: GeocodeStore = {
+  load: loadCachedGeocode,
+  save: saveCachedGeocode
+}
+
+export async function listGeocodeReviews(options: { limit?: number } = {}): Promise<CachedGeocode[]> {
+  const supabase = getServiceSupabaseClient()
+
+  const { data, error } = await supabase
+    .from('geocode_cache')
+    .select(GEOCODE_COLUMNS)
+    .eq('needs_review', true)
+    .order('updated_at', { ascending: false })
+    .limit(options.limit || 50)
+
+  if (error) {
+    throw new Error(`Failed to load geocode reviews: ${error.message}`)
+  }
+
+  return ((data || []) as GeocodeRow[]).map(fromGeocodeRow)
+}
+
+/**
+ * Settle a flagged query with coordinates a reviewer confirmed, or with none
+ * when the location cannot be placed. Events pick the result up the next
+ * time they are scraped. Returns null when nothing is awaiting review under
+ * that key.
+ */
+export async function resolveGeocodeReview(
+  queryKey: string,
+  coordinates: Coordinates | null,
+  reviewedBy: string
+): Promise<CachedGeocode | null> {
+  const supabase = getServiceSupabaseClient()
+
+  const { data, error } = await supabase
+    .from('geocode_cache')
+    .update({
+      provider: 'review',
+      precision: coordinates ? 'address' : 'none',
+      confidence: coordinates ? 1 : 0,
+      latitude: coordinates?.latitude ?? null,
+      longitude: coordinates?.longitude ?? null,
+      candidate_latitude: null,
+      candidate_longitude: null,
+      needs_review: false,
+      reviewed_by: reviewedBy,
+      reviewed_at: new Date().toISOString(),
+      expires_at: null
+    })
+    .eq('query_key', queryKey)
+    .eq('needs_review', true)
+    .select(GEOCODE_COLUMNS)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to resolve geocode review ${queryKey}: ${error.message}`)
+  }
+
+  return data ? fromGeocodeRow(data as GeocodeRow) : null
+}
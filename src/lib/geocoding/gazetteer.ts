@@ -0,0 +1,143 @@
+/**
+ * Offline gazetteer
+ * City centres for the cities events are scraped in. A centre identifies the
+ * city and sanity-checks other providers' results; it is never an event's
+ * location.
+ */
+
+import type { Coordinates, GeocodeQuery, GeocodingProvider, ProviderResult } from './types'
+
+export interface GazetteerCity {
+  city: string
+  /** State or province code */
+  state: string
+  country: string
+  centre: Coordinates
+}
+
+function place(city: string, state: string, country: string, latitude: number, longitude: number): GazetteerCity {
+  return { city, state, country, centre: { latitude, longitude } }
+}
+
+const US = 'United States'
+const CANADA = 'Canada'
+
+const CITIES: GazetteerCity[] = [
+  place('New York', 'NY', US, 40.7128, -74.0060),
+  place('Los Angeles', 'CA', US, 34.0522, -118.2437),
+  place('Chicago', 'IL', US, 41.8781, -87.6298),
+  place('Houston', 'TX', US, 29.7604, -95.3698),
+  place('Phoenix', 'AZ', US, 33.4484, -112.0740),
+  place('Philadelphia', 'PA', US, 39.9526, -75.1652),
+  place('San Antonio', 'TX', US, 29.4241, -98.4936),
+  place('San Diego', 'CA', US, 32.7157, -117.1611),
+  place('Dallas', 'TX', US, 32.7767, -96.7970),
+  place('San Jose', 'CA', US, 37.3382, -121.8863),
+  place('Austin', 'TX', US, 30.2672, -97.7431),
+  place('Jacksonville', 'FL', US, 30.3322, -81.6557),
+  place('Fort Worth', 'TX', US, 32.7555, -97.3308),
+  place('Columbus', 'OH', US, 39.9612, -82.9988),
+  place('Charlotte', 'NC', US, 35.2271, -80.8431),
+  place('San Francisco', 'CA', US, 37.7749, -122.4194),
+  place('Indianapolis', 'IN', US, 39.7684, -86.1581),
+  place('Seattle', 'WA', US, 47.6062, -122.3321),
+  place('Denver', 'CO', US, 39.7392, -104.9903),
+  place('Washington', 'DC', US, 38.9072, -77.0369),
+  place('Boston', 'MA', US, 42.3601, -71.0589),
+  place('Nashville', 'TN', US, 36.1627, -86.7816),
+  place('Baltimore', 'MD', US, 39.2904, -76.6122),
+  place('Louisville', 'KY', US, 38.2527, -85.7585),
+  place('Portland', 'OR', US, 45.5152, -122.6784),
+  place('Las Vegas', 'NV', US, 36.1699, -115.1398),
+  place('Milwaukee', 'WI', US, 43.0389, -87.9065),
+  place('Albuquerque', 'NM', US, 35.0853, -106.6056),
+  place('Tucson', 'AZ', US, 32.2226, -110.9747),
+  place('Fresno', 'CA', US, 36.7378, -119.7871),
+  place('Mesa', 'AZ', US, 33.4152, -111.8315),
+  place('Sacramento', 'CA', US, 38.5816, -121.4944),
+  place('Atlanta', 'GA', US, 33.7490, -84.3880),
+  place('Kansas City', 'MO', US, 39.0997, -94.5786),
+  place('Colorado Springs', 'CO', US, 38.8339, -104.8214),
+  place('Omaha', 'NE', US, 41.2565, -95.9345),
+  place('Raleigh', 'NC', US, 35.7796, -78.6382),
+  place('Miami', 'FL', US, 25.7617, -80.1918),
+  place('Cleveland', 'OH', US, 41.4993, -81.6944),
+  place('Tulsa', 'OK', US, 36.1540, -95.9928),
+  place('Minneapolis', 'MN', US, 44.9778, -93.2650),
+  place('Wichita', 'KS', US, 37.6872, -97.3301),
+  place('Arlington', 'TX', US, 32.7357, -97.1081),
+  place('Toronto', 'ON', CANADA, 43.6532, -79.3832),
+  place('Montreal', 'QC', CANADA, 45.5019, -73.5674),
+  place('Vancouver', 'BC', CANADA, 49.2827, -123.1207),
+  place('Calgary', 'AB', CANADA, 51.0447, -114.0719),
+  place('Edmonton', 'AB', CANADA, 53.5461, -113.4938),
+  place('Ottawa', 'ON', CANADA, 45.4215, -75.6972),
+  place('Winnipeg', 'MB', CANADA, 49.8951, -97.1384),
+  place('Hamilton', 'ON', CANADA, 43.2557, -79.8711)
+]
+
+function normalize(text: string): string {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9,]+/g, ' ')
+    .replace(/\s*,\s*/g, ', ')
+    .trim()
+}
+
+function containsWords(text: string, words: string): boolean {
+  return new RegExp(`(^|[\\s,])${words}($|[\\s,])`).test(text)
+}
+
+export interface GazetteerMatch {
+  entry: GazetteerCity
+  /** Whether the state or province was named too, which rules out namesakes */
+  withState: boolean
+}
+
+/**
+ * The gazetteer city named in some location text, preferring "City, ST"
+ * over a bare city name
+ */
+export function findCity(text: string | null | undefined): GazetteerMatch | null {
+  if (!text) return null
+  const normalized = normalize(text)
+
+  for (const entry of CITIES) {
+    if (containsWords(normalized, `${normalize(entry.city)}, ${entry.state.toLowerCase()}`)) {
+      return { entry, withState: true }
+    }
+  }
+
+  for (const entry of CITIES) {
+    if (containsWords(normalized, normalize(entry.city))) {
+      return { entry, withState: false }
+    }
+  }
+
+  return null
+}
+
+/**
+ * Resolves the city only. The centre is returned so the acceptance rules can
+ * see what it is, and they never accept it as an event location.
+ */
+export class GazetteerProvider implements GeocodingProvider {
+  readonly name = 'gazetteer'
+
+  async geocode(query: GeocodeQuery): Promise<ProviderResult | null> {
+    const match = findCity(query.city) || findCity(query.address)
+    if (!match) return null
+
+    return {
+      provider: this.name,
+      precision: 'city',
+      confidence: match.withState ? 0.9 : 0.6,
+      coordinates: match.entry.centre,
+      city: match.entry.city,
+      state: match.entry.state,
+      country: match.entry.country
+    }
+  }
+}
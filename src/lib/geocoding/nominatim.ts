@@ -0,0 +1,121 @@
+/**
+ * OpenStreetMap Nominatim provider
+ * Requests are serialized at one per second per instance, as the public
+ * server's usage policy asks.
+ */
+
+import type { GeocodePrecision, GeocodeQuery, GeocodingProvider, ProviderResult } from './types'
+
+const NOMINATIM_URL = 'https://nominatim.openstreetmap.org/search'
+const MIN_INTERVAL_MS = 1000
+
+interface NominatimPlace {
+  lat: string
+  lon: string
+  display_name?: string
+  class?: string
+  type?: string
+  addresstype?: string
+  importance?: number
+  address?: Record<string, string>
+}
+
+const VENUE_CLASSES = ['amenity', 'leisure', 'tourism', 'shop']
+const ADDRESS_TYPES = ['house', 'building', 'house_number']
+const STREET_TYPES = ['road', 'street', 'highway']
+const NEIGHBOURHOOD_TYPES = ['suburb', 'neighbourhood', 'quarter', 'city_district', 'borough', 'hamlet']
+const CITY_TYPES = ['city', 'town', 'village', 'municipality']
+
+/**
+ * What a Nominatim result's coordinates point at
+ */
+export function nominatimPrecision(place: NominatimPlace): GeocodePrecision {
+  const type = place.addresstype || place.type || ''
+
+  if (place.class && VENUE_CLASSES.includes(place.class)) return 'venue'
+  if (ADDRESS_TYPES.includes(type) || place.address?.house_number) return 'address'
+  if (STREET_TYPES.includes(type) || place.class === 'highway') return 'street'
+  if (NEIGHBOURHOOD_TYPES.includes(type)) return 'neighbourhood'
+  if (CITY_TYPES.includes(type)) return 'city'
+  return 'region'
+}
+
+const BASE_CONFIDENCE: Record<GeocodePrecision, number> = {
+  venue: 0.85,
+  address: 0.85,
+  street: 0.55,
+  neighbourhood: 0.4,
+  city: 0.3,
+  region: 0.1,
+  none: 0
+}
+
+/**
+ * Confidence follows precision; OSM importance only breaks ties between
+ * results of the same precision
+ */
+export function nominatimConfidence(place: NominatimPlace, precision: GeocodePrecision): number {
+  const importance = Math.min(1, Math.max(0, place.importance || 0))
+  return Math.min(1, BASE_CONFIDENCE[precision] + importance * 0.1)
+}
+
+export class NominatimProvider implements GeocodingProvider {
+  readonly name = 'nominatim'
+  private queue: Promise<unknown> = Promise.resolve()
+  private lastRequestAt = 0
+
+  constructor(private timeoutMs = 5000) {}
+
+  async geocode(query: GeocodeQuery): Promise<ProviderResult | null> {
+    // A street address finds the building; without one, try the venue as a place
+    const text = query.address
+      ? [query.address, query.city].filter(part => part && !query.address!.includes(part)).join(', ')
+      : [query.venueName, query.city].filter(Boolean).join(', ')
+    if (!text) return null
+
+    const place = await this.throttled(() => this.search(text))
+    if (!place) return null
+
+    const precision = nominatimPrecision(place)
+    return {
+      provider: this.name,
+      precision,
+      confidence: nominatimConfidence(place, precision),
+      coordinates: { latitude: parseFloat(place.lat), longitude: parseFloat(place.lon) },
+      formattedAddress: place.display_name,
+      city: place.address?.city || place.address?.town || place.address?.village,
+      state: place.address?.state,
+      country: place.address?.country,
+      postalCode: place.address?.postcode
+    }
+  }
+
+  private throttled<T>(request: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(async () => {
+      const wait = this.lastRequestAt + MIN_INTERVAL_MS - Date.now()
+      if (wait > 0) await new Promise(resolve => setTimeout(resolve, wait))
+      try {
+        return await request()
+      } finally {
+        this.lastRequestAt = Date.now()
+      }
+    })
+    this.queue = run.catch(() => undefined)
+    return run
+  }
+
+  private async search(text: string): Promise<NominatimPlace | null> {
+    const url = `${NOMINATIM_URL}?format=json&limit=1&addressdetails=1&q=${encodeURIComponent(text)}`
+    const response = await fetch(url, {
+      signal: AbortSignal.timeout(this.timeoutMs),
+      headers: { 'User-Agent': 'SceneScout/1.0' }
+    })
+
+    if (!response.ok) {
+      throw new Error(`Nominatim API error: ${response.status}`)
+    }
+
+    const data = await response.json() as NominatimPlace[]
+    return data?.[0] || null
+  }
+}
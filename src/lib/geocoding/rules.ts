@@ -0,0 +1,119 @@
+/**
+ * Geocode acceptance rules
+ * Whether a provider result may place an event on the map. Coordinates are
+ * only accepted when they point at the venue, its address or at least its
+ * street, with enough confidence; anything else is stored without
+ * coordinates and flagged for review rather than pinned to a city centre.
+ */
+
+import { findCity } from './gazetteer'
+import { POINT_PRECISIONS, type CachedGeocode, type Coordinates, type GeocodePrecision, type GeocodeQuery, type ProviderResult } from './types'
+
+/** Below this a point result is flagged for review instead of used */
+export const ACCEPT_CONFIDENCE = 0.6
+
+/** A result further than this from the city the query names is suspect */
+export const MAX_CITY_DISTANCE_KM = 50
+
+const CITY_MISMATCH_PENALTY = 0.4
+
+export function isPointPrecision(precision: GeocodePrecision): boolean {
+  return POINT_PRECISIONS.includes(precision)
+}
+
+/**
+ * Great-circle distance in kilometres
+ */
+export function haversineKm(a: Coordinates, b: Coordinates): number {
+  const toRadians = (degrees: number) => degrees * Math.PI / 180
+  const dLat = toRadians(b.latitude - a.latitude)
+  const dLon = toRadians(b.longitude - a.longitude)
+  const h = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.sin(dLon / 2) ** 2
+  return 6371 * 2 * Math.asin(Math.min(1, Math.sqrt(h)))
+}
+
+/**
+ * Text a query is looked up and reviewed by
+ */
+export function queryText(query: GeocodeQuery): string {
+  return [query.venueName, query.address, query.city]
+    .map(part => part?.trim())
+    .filter(Boolean)
+    .join(', ')
+}
+
+/**
+ * Cache key for a query; spacing, case and punctuation do not matter
+ */
+export function queryKey(query: GeocodeQuery): string {
+  return queryText(query)
+    .toLowerCase()
+    .replace(/[^\w\s,]/g, '')
+    .replace(/\s+/g, ' ')
+    .replace(/\s*,\s*/g, ',')
+}
+
+/**
+ * Lower the confidence of a point result that lands far from the city the
+ * query names, e.g. a same-named street in another city
+ */
+export function checkAgainstCity(query: GeocodeQuery, result: ProviderResult): ProviderResult {
+  if (!result.coordinates || !isPointPrecision(result.precision)) return result
+
+  const named = findCity(query.city) || findCity(query.address)
+  if (!named) return result
+
+  const distance = haversineKm(named.entry.centre, result.coordinates)
+  if (distance <= MAX_CITY_DISTANCE_KM) return result
+
+  return { ...result, confidence: Math.max(0, result.confidence - CITY_MISMATCH_PENALTY) }
+}
+
+export function isAcceptable(result: ProviderResult): boolean {
+  return !!result.coordinates && isPointPrecision(result.precision) && result.confidence >= ACCEPT_CONFIDENCE
+}
+
+const PRECISION_RANK: GeocodePrecision[] = ['venue', 'address', 'street', 'neighbourhood', 'city', 'region', 'none']
+
+/**
+ * The more useful of two results that were not accepted: point candidates
+ * go to review, so they beat coarser results, then confidence decides
+ */
+export function preferResult(a: ProviderResult | null, b: ProviderResult): ProviderResult {
+  if (!a) return b
+  const aPoint = isPointPrecision(a.precision)
+  const bPoint = isPointPrecision(b.precision)
+  if (aPoint !== bPoint) return aPoint ? a : b
+  if (a.precision !== b.precision) {
+    return PRECISION_RANK.indexOf(a.precision) <= PRECISION_RANK.indexOf(b.precision) ? a : b
+  }
+  return a.confidence >= b.confidence ? a : b
+}
+
+/**
+ * The stored outcome for a query. Only acceptable coordinates are kept as
+ * coordinates; a rejected point result becomes the review candidate.
+ * Anything that could not be placed is flagged when there was a location to
+ * place, so a reviewer can supply it.
+ */
+export function toCachedGeocode(query: GeocodeQuery, result: ProviderResult | null): CachedGeocode {
+  const accepted = !!result && isAcceptable(result)
+  const candidate = result && !accepted && isPointPrecision(result.precision) ? result.coordinates : undefined
+
+  return {
+    queryKey: queryKey(query),
+    query: queryText(query),
+    provider: result?.provider ?? null,
+    precision: result?.precision ?? 'none',
+    confidence: result ? Math.round(result.confidence * 100) / 100 : 0,
+    coordinates: accepted ? result!.coordinates : undefined,
+    candidate,
+    formattedAddress: result?.formattedAddress,
+    city: result?.city,
+    state: result?.state,
+    country: result?.country,
+    postalCode: result?.postalCode,
+    needsReview: !accepted && !!(query.address?.trim() || query.venueName?.trim())
+  }
+}
@@ -0,0 +1,76 @@
+/**
+ * Types for geocoding providers, results and the persistent geocode cache
+ */
+
+export interface Coordinates {
+  latitude: number
+  longitude: number
+}
+
+/**
+ * What a result's coordinates point at, most precise first. Only point
+ * precisions place an event on the map; the centre of a neighbourhood or
+ * city is not where the event is.
+ */
+export type GeocodePrecision = 'venue' | 'address' | 'street' | 'neighbourhood' | 'city' | 'region' | 'none'
+
+export const POINT_PRECISIONS: GeocodePrecision[] = ['venue', 'address', 'street']
+
+export interface GeocodeQuery {
+  /** Street address, or whatever location text the source had */
+  address?: string | null
+  venueName?: string | null
+  city?: string | null
+}
+
+/**
+ * A provider's answer before the acceptance rules run
+ */
+export interface ProviderResult {
+  provider: string
+  precision: GeocodePrecision
+  /** 0-1 */
+  confidence: number
+  coordinates?: Coordinates
+  formattedAddress?: string
+  city?: string
+  state?: string
+  country?: string
+  postalCode?: string
+}
+
+export interface GeocodingProvider {
+  readonly name: string
+  /** null when the provider has nothing for this query */
+  geocode(query: GeocodeQuery): Promise<ProviderResult | null>
+}
+
+/**
+ * A result as stored in geocode_cache. Coordinates are only present when
+ * they were accepted; a point result below the confidence threshold keeps
+ * them in `candidate` for whoever reviews it.
+ */
+export interface CachedGeocode {
+  queryKey: string
+  query: string
+  provider: string | null
+  precision: GeocodePrecision
+  confidence: number
+  coordinates?: Coordinates
+  candidate?: Coordinates
+  formattedAddress?: string
+  city?: string
+  state?: string
+  country?: string
+  postalCode?: string
+  needsReview: boolean
+  reviewedAt?: string
+}
+
+/**
+ * Where GeocodingService keeps results between runs
+ */
+export interface GeocodeStore {
+  load(queryKey: string): Promise<CachedGeocode | null>
+  save(entry: CachedGeocode, ttlMs: number): Promise<void>
+}
@@ -0,0 +1,71 @@
+/**
+ * Venue table provider
+ * Venues we already have coordinates for, matched by name. Tried first: a
+ * known venue is more precise than anything an address lookup returns.
+ */
+
+import { getServiceSupabaseClient } from '@/lib/supabase-server'
+import { haversineKm } from './rules'
+import type { GeocodeQuery, GeocodingProvider, ProviderResult } from './types'
+
+interface VenueRow {
+  name: string
+  address: string | null
+  city: string | null
+  state_code: string | null
+  latitude: number | string
+  longitude: number | string
+}
+
+/** Same-named venues closer than this are the same place */
+const SAME_PLACE_KM = 1
+
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, match => `\\${match}`)
+}
+
+export class VenueTableProvider implements GeocodingProvider {
+  readonly name = 'venues'
+
+  async geocode(query: GeocodeQuery): Promise<ProviderResult | null> {
+    const venueName = query.venueName?.trim()
+    if (!venueName) return null
+
+    const supabase = getServiceSupabaseClient()
+    const { data, error } = await supabase
+      .from('venues')
+      .select('name, address, city, state_code, latitude, longitude')
+      .ilike('name', escapeLike(venueName))
+      .not('latitude', 'is', null)
+      .not('longitude', 'is', null)
+      .limit(10)
+
+    if (error) {
+      throw new Error(`Failed to look up venue ${venueName}: ${error.message}`)
+    }
+
+    const rows = (data || []) as VenueRow[]
+    const city = query.city?.trim().toLowerCase()
+    const inCity = city ? rows.filter(row => row.city?.toLowerCase() === city) : []
+    const candidates = inCity.length > 0 ? inCity : rows
+    if (candidates.length === 0) return null
+
+    const [venue] = candidates
+    const coordinates = { latitude: Number(venue.latitude), longitude: Number(venue.longitude) }
+
+    // Namesakes in different places: the name alone does not say which one
+    const ambiguous = candidates.some(row =>
+      haversineKm(coordinates, { latitude: Number(row.latitude), longitude: Number(row.longitude) }) > SAME_PLACE_KM
+    )
+
+    return {
+      provider: this.name,
+      precision: 'venue',
+      confidence: ambiguous ? 0.4 : inCity.length > 0 ? 0.95 : 0.8,
+      coordinates,
+      formattedAddress: venue.address ? `${venue.name}, ${venue.address}` : venue.name,
+      city: venue.city || undefined,
+      state: venue.state_code || undefined
+    }
+  }
+}
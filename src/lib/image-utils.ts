@@ -1,3 +1,6 @@
+// Widths /api/img derives variants at (next.config.js image sizes); requested widths snap up to one of these
+export const IMAGE_VARIANT_WIDTHS = [64, 128, 256, 384, 640, 750, 828, 1080, 1200, 1920, 2048]
+
 // Helper function to generate optimized image URLs
 export function getOptimizedImageUrl(
   originalUrl: string,
@@ -7,15 +10,15 @@ export function getOptimizedImageUrl(
   } = {}
 ): string {
   const { width, quality = 75 } = options
-  
+
   const params = new URLSearchParams({
     url: originalUrl,
     q: quality.toString(),
   })
-  
+
   if (width) {
     params.set('w', width.toString())
   }
-  
+
   return `/api/img?${params.toString()}`
-}
\ No newline at end of file
+}
@@ -0,0 +1,88 @@
+/**
+ * Image optimization
+ * Serves variants of allowlisted remote images for /api/img: fetched once,
+ * resized and re-encoded with sharp, then kept in the variant store.
+ * Uploads go through the same transform before being stored.
+ */
+
+import { randomUUID } from 'crypto'
+import { getServiceSupabaseClient } from '@/lib/supabase-server'
+import { CONTENT_TYPES, imageAllowlist, variantKey } from './policy'
+import { fetchSourceImage } from './source'
+import { getVariantStore } from './store'
+import { transformImage } from './transform'
+import type { ImageVariant, StoredVariant, VariantRequest, VariantStore } from './types'
+
+export { ImageError } from './types'
+export type { ImageFormat, ImageVariant, StoredVariant, VariantRequest, VariantStore } from './types'
+export {
+  CONTENT_TYPES,
+  DEFAULT_QUALITY,
+  MAX_SOURCE_BYTES,
+  negotiateFormat,
+  snapQuality,
+  snapWidth,
+  SOURCE_CONTENT_TYPES,
+  VARIANT_WIDTHS
+} from './policy'
+export { transformImage } from './transform'
+export { DiskVariantStore, StorageVariantStore, getVariantStore } from './store'
+
+/** Storage bucket uploads are kept in, shared with the scraping ImageProcessor */
+const UPLOAD_BUCKET = 'event-images'
+
+export interface VariantDeps {
+  store?: VariantStore
+  allowlist?: string[]
+  fetchImpl?: typeof fetch
+}
+
+/**
+ * The requested variant, from the store when it was derived before.
+ * Throws ImageError when the source cannot be used.
+ */
+export async function getImageVariant(
+  request: VariantRequest,
+  deps: VariantDeps = {}
+): Promise<StoredVariant & { cached: boolean }> {
+  const store = deps.store || getVariantStore()
+  const key = variantKey(request)
+
+  try {
+    const stored = await store.get(key)
+    if (stored) return { ...stored, cached: true }
+  } catch (error) {
+    console.warn('⚠️ Image variant read failed:', error)
+  }
+
+  const source = await fetchSourceImage(request.url, deps.allowlist || imageAllowlist(), deps.fetchImpl)
+  const variant = await transformImage(source.body, request)
+
+  // A variant that cannot be stored is still served; it is derived again next time
+  try {
+    await store.put(key, variant)
+  } catch (error) {
+    console.warn('⚠️ Image variant write failed:', error)
+  }
+
+  return { body: variant.body, format: variant.format, cached: false }
+}
+
+/**
+ * Store an optimized upload under the uploader's folder and return its
+ * public URL
+ */
+export async function saveUpload(variant: ImageVariant, ownerId: string): Promise<string> {
+  const storage = getServiceSupabaseClient().storage.from(UPLOAD_BUCKET)
+  const { data, error } = await storage.upload(
+    `uploads/${ownerId}/${randomUUID()}.${variant.format}`,
+    variant.body,
+    { contentType: CONTENT_TYPES[variant.format], upsert: false }
+  )
+
+  if (error || !data) {
+    throw new Error(`Failed to store upload: ${error?.message || 'no path returned'}`)
+  }
+
+  return storage.getPublicUrl(data.path).data.publicUrl
+}
@@ -0,0 +1,136 @@
+/**
+ * What /api/img will fetch and which variants it derives
+ * Sources must be https URLs on the host allowlist so the route cannot be
+ * pointed at internal services, and requested widths and qualities snap to
+ * a small set so a caller cannot fill the variant store with one-off sizes.
+ */
+
+import { createHash } from 'crypto'
+import { IMAGE_VARIANT_WIDTHS } from '@/lib/image-utils'
+import type { ImageFormat, VariantRequest } from './types'
+
+/** Sources larger than this are refused before being decoded */
+export const MAX_SOURCE_BYTES = 10 * 1024 * 1024
+
+/** Decoded sources larger than this many pixels are refused */
+export const MAX_SOURCE_PIXELS = 40_000_000
+
+/** Widths variants are derived at */
+export const VARIANT_WIDTHS = IMAGE_VARIANT_WIDTHS
+
+export const DEFAULT_QUALITY = 75
+const MIN_QUALITY = 30
+const MAX_QUALITY = 90
+
+/** Content types accepted as sources; SVG and anything else are refused */
+export const SOURCE_CONTENT_TYPES = [
+  'image/jpeg',
+  'image/png',
+  'image/webp',
+  'image/avif',
+  'image/gif'
+]
+
+export const CONTENT_TYPES: Record<ImageFormat, string> = {
+  avif: 'image/avif',
+  webp: 'image/webp',
+  jpeg: 'image/jpeg',
+  png: 'image/png'
+}
+
+const DEFAULT_ALLOWED_HOSTS = [
+  'images.unsplash.com',
+  'cdn.scenescout.com',
+  'res.cloudinary.com',
+  'ticketm.net',
+  'evbuc.com'
+]
+
+/**
+ * Hosts sources may come from: the defaults, the project's Supabase
+ * storage host and any listed in IMAGE_ALLOWED_HOSTS. Subdomains of a
+ * listed host are allowed too.
+ */
+export function imageAllowlist(env: NodeJS.ProcessEnv = process.env): string[] {
+  const hosts = [...DEFAULT_ALLOWED_HOSTS]
+
+  const supabaseUrl = env.SUPABASE_URL || env.NEXT_PUBLIC_SUPABASE_URL
+  if (supabaseUrl) {
+    try {
+      hosts.push(new URL(supabaseUrl).hostname)
+    } catch {
+      // An invalid Supabase URL fails loudly elsewhere
+    }
+  }
+
+  for (const host of (env.IMAGE_ALLOWED_HOSTS || '').split(',')) {
+    const trimmed = host.trim().toLowerCase()
+    if (trimmed) hosts.push(trimmed)
+  }
+
+  return hosts
+}
+
+/**
+ * Whether a source URL may be fetched: https on the default port, no
+ * credentials, and a host on the allowlist
+ */
+export function isAllowedSource(url: string, allowlist: string[]): boolean {
+  let parsed: URL
+  try {
+    parsed = new URL(url)
+  } catch {
+    return false
+  }
+
+  if (parsed.protocol !== 'https:' || parsed.port || parsed.username || parsed.password) {
+    return false
+  }
+
+  const hostname = parsed.hostname.toLowerCase()
+  return allowlist.some(host => hostname === host || hostname.endsWith(`.${host}`))
+}
+
+/**
+ * The smallest variant width that covers the requested one
+ */
+export function snapWidth(width: number | undefined): number | undefined {
+  if (!width || width <= 0) return undefined
+  return VARIANT_WIDTHS.find(candidate => candidate >= width) ?? VARIANT_WIDTHS[VARIANT_WIDTHS.length - 1]
+}
+
+/**
+ * Quality clamped to a sensible range and rounded to a multiple of 5
+ */
+export function snapQuality(quality: number | undefined): number {
+  if (!quality || Number.isNaN(quality)) return DEFAULT_QUALITY
+  const clamped = Math.min(MAX_QUALITY, Math.max(MIN_QUALITY, quality))
+  return Math.round(clamped / 5) * 5
+}
+
+/**
+ * The best output format the client accepts: AVIF, then WebP, then JPEG
+ */
+export function negotiateFormat(accept: string | null): ImageFormat {
+  const accepted = new Set<string>()
+
+  for (const part of (accept || '').split(',')) {
+    const [type, ...params] = part.trim().toLowerCase().split(';')
+    const q = params.map(param => param.trim()).find(param => param.startsWith('q='))
+    if (q && Number(q.slice(2)) === 0) continue
+    accepted.add(type.trim())
+  }
+
+  if (accepted.has('image/avif')) return 'avif'
+  if (accepted.has('image/webp')) return 'webp'
+  return 'jpeg'
+}
+
+/**
+ * Store key for a variant; the source URL is hashed so keys are safe as
+ * file and object names
+ */
+export function variantKey(request: VariantRequest): string {
+  const source = createHash('sha256').update(request.url).digest('hex')
+  return `${source}/${request.width ?? 'orig'}-q${request.quality}.${request.format}`
+}
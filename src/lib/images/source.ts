@@ -0,0 +1,89 @@
+/**
+ * Fetching source images
+ * Redirects are followed by hand so every hop is checked against the
+ * allowlist, and bodies are read with a byte limit rather than trusting
+ * Content-Length.
+ */
+
+import { isAllowedSource, MAX_SOURCE_BYTES, SOURCE_CONTENT_TYPES } from './policy'
+import { ImageError } from './types'
+
+const MAX_REDIRECTS = 3
+const FETCH_TIMEOUT_MS = 10_000
+
+export interface SourceImage {
+  body: Buffer
+  contentType: string
+}
+
+async function readLimited(response: Response, maxBytes: number): Promise<Buffer> {
+  if (!response.body) return Buffer.alloc(0)
+
+  const reader = response.body.getReader()
+  const chunks: Uint8Array[] = []
+  let total = 0
+
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) break
+
+    total += value.byteLength
+    if (total > maxBytes) {
+      await reader.cancel()
+      throw new ImageError('Source image too large', 413)
+    }
+    chunks.push(value)
+  }
+
+  return Buffer.concat(chunks)
+}
+
+/**
+ * Download a source image. Throws ImageError when the URL or any redirect
+ * leaves the allowlist, the source is not a supported image or it is too
+ * large.
+ */
+export async function fetchSourceImage(
+  url: string,
+  allowlist: string[],
+  fetchImpl: typeof fetch = fetch
+): Promise<SourceImage> {
+  let current = url
+
+  for (let hop = 0; hop <= MAX_REDIRECTS; hop++) {
+    if (!isAllowedSource(current, allowlist)) {
+      throw new ImageError('Image host not allowed', 403)
+    }
+
+    const response = await fetchImpl(current, {
+      headers: { 'User-Agent': 'SceneScout/1.0', Accept: SOURCE_CONTENT_TYPES.join(', ') },
+      redirect: 'manual',
+      signal: AbortSignal.timeout(FETCH_TIMEOUT_MS)
+    })
+
+    if (response.status >= 300 && response.status < 400) {
+      const location = response.headers.get('location')
+      if (!location) throw new ImageError('Failed to fetch image', 502)
+      current = new URL(location, current).toString()
+      continue
+    }
+
+    if (!response.ok) {
+      throw new ImageError('Failed to fetch image', response.status === 404 ? 404 : 502)
+    }
+
+    const contentType = (response.headers.get('content-type') || '').split(';')[0].trim().toLowerCase()
+    if (!SOURCE_CONTENT_TYPES.includes(contentType)) {
+      throw new ImageError('Unsupported image type', 415)
+    }
+
+    const declared = Number(response.headers.get('content-length'))
+    if (declared > MAX_SOURCE_BYTES) {
+      throw new ImageError('Source image too large', 413)
+    }
+
+    return { body: await readLimited(response, MAX_SOURCE_BYTES), contentType }
+  }
+
+  throw new ImageError('Too many redirects', 502)
+}
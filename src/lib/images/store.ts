@@ -0,0 +1,87 @@
+/**
+ * Variant stores
+ * With IMAGE_VARIANT_BUCKET set, derived variants are kept in that Supabase
+ * Storage bucket and shared by every instance; without it each instance
+ * keeps them on local disk under IMAGE_CACHE_DIR (default: the OS temp
+ * directory).
+ */
+
+import { promises as fs } from 'fs'
+import os from 'os'
+import path from 'path'
+import { getServiceSupabaseClient } from '@/lib/supabase-server'
+import { CONTENT_TYPES } from './policy'
+import type { ImageFormat, StoredVariant, VariantStore } from './types'
+
+function formatOf(key: string): ImageFormat {
+  return path.extname(key).slice(1) as ImageFormat
+}
+
+export class DiskVariantStore implements VariantStore {
+  readonly backend = 'disk' as const
+
+  constructor(private readonly dir: string) {}
+
+  private pathFor(key: string): string {
+    return path.join(this.dir, ...key.split('/'))
+  }
+
+  async get(key: string): Promise<StoredVariant | null> {
+    try {
+      const body = await fs.readFile(this.pathFor(key))
+      return { body, format: formatOf(key) }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null
+      throw error
+    }
+  }
+
+  async put(key: string, variant: StoredVariant): Promise<void> {
+    const file = this.pathFor(key)
+    await fs.mkdir(path.dirname(file), { recursive: true })
+
+    // Write then rename, so concurrent readers never see a partial file
+    const temp = `${file}.${process.pid}.${Date.now()}.tmp`
+    await fs.writeFile(temp, variant.body)
+    await fs.rename(temp, file)
+  }
+}
+
+export class StorageVariantStore implements VariantStore {
+  readonly backend = 'storage' as const
+
+  constructor(private readonly bucket: string) {}
+
+  async get(key: string): Promise<StoredVariant | null> {
+    const { data, error } = await getServiceSupabaseClient().storage.from(this.bucket).download(key)
+
+    if (error || !data) return null
+    return { body: Buffer.from(await data.arrayBuffer()), format: formatOf(key) }
+  }
+
+  async put(key: string, variant: StoredVariant): Promise<void> {
+    const { error } = await getServiceSupabaseClient()
+      .storage
+      .from(this.bucket)
+      .upload(key, variant.body, { contentType: CONTENT_TYPES[variant.format], upsert: true })
+
+    if (error) {
+      throw new Error(`Failed to store image variant: ${error.message}`)
+    }
+  }
+}
+
+let store: VariantStore | null = null
+
+/**
+ * The store for this process, created on first use
+ */
+export function getVariantStore(): VariantStore {
+  if (!store) {
+    const bucket = process.env.IMAGE_VARIANT_BUCKET
+    store = bucket
+      ? new StorageVariantStore(bucket)
+      : new DiskVariantStore(process.env.IMAGE_CACHE_DIR || path.join(os.tmpdir(), 'scenescout-img'))
+  }
+  return store
+}
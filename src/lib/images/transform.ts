@@ -0,0 +1,51 @@
+/**
+ * Deriving variants with sharp
+ * Images are rotated to their EXIF orientation and then written without
+ * any metadata, so camera, location and other EXIF data never leave the
+ * server.
+ */
+
+import sharp from 'sharp'
+import { MAX_SOURCE_PIXELS } from './policy'
+import { ImageError, type ImageFormat, type ImageVariant } from './types'
+
+function encode(image: sharp.Sharp, format: ImageFormat, quality: number): sharp.Sharp {
+  switch (format) {
+    case 'avif':
+      return image.avif({ quality, effort: 4 })
+    case 'webp':
+      return image.webp({ quality })
+    case 'png':
+      return image.png({ compressionLevel: 9, palette: quality < 90 })
+    case 'jpeg':
+      return image.jpeg({ quality, progressive: true, mozjpeg: true })
+  }
+}
+
+/**
+ * Resize an image to at most `width` (never enlarging it) and re-encode it.
+ * Transparent sources requested as JPEG are flattened onto white.
+ */
+export async function transformImage(
+  source: Buffer,
+  options: { width?: number; quality: number; format: ImageFormat }
+): Promise<ImageVariant> {
+  const { format, quality, width } = options
+
+  let image = sharp(source, { limitInputPixels: MAX_SOURCE_PIXELS, failOn: 'error' }).rotate()
+  if (width) {
+    image = image.resize({ width, withoutEnlargement: true })
+  }
+  if (format === 'jpeg') {
+    image = image.flatten({ background: '#ffffff' })
+  }
+
+  try {
+    const { data, info } = await encode(image, format, quality).toBuffer({ resolveWithObject: true })
+    return { body: data, format, width: info.width, height: info.height }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error)
+    if (/pixel limit/i.test(message)) throw new ImageError('Source image too large', 413)
+    throw new ImageError('Source is not a readable image', 415)
+  }
+}
@@ -0,0 +1,50 @@
+/**
+ * Image optimization contract
+ * /api/img serves resized, re-encoded variants of remote images. Each
+ * variant is derived once and kept in a VariantStore keyed by source URL,
+ * width, quality and format.
+ */
+
+export type ImageFormat = 'avif' | 'webp' | 'jpeg' | 'png'
+
+export interface VariantRequest {
+  /** Source image URL; must be on the host allowlist */
+  url: string
+  /** Target width in pixels, snapped to VARIANT_WIDTHS; undefined keeps the source width */
+  width?: number
+  quality: number
+  format: ImageFormat
+}
+
+export interface ImageVariant {
+  body: Buffer
+  format: ImageFormat
+  width: number
+  height: number
+}
+
+/** What a store keeps: the encoded bytes and their format */
+export type StoredVariant = Pick<ImageVariant, 'body' | 'format'>
+
+export type VariantStoreBackend = 'disk' | 'storage'
+
+/**
+ * Stored variants never change for a key, so stores need no TTLs;
+ * disk stores are bounded by the temp directory being cleared
+ */
+export interface VariantStore {
+  readonly backend: VariantStoreBackend
+  get(key: string): Promise<StoredVariant | null>
+  put(key: string, variant: StoredVariant): Promise<void>
+}
+
+/**
+ * A source or upload that cannot become a variant. `status` is the HTTP
+ * status /api/img answers with.
+ */
+export class ImageError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message)
+    this.name = 'ImageError'
+  }
+}
@@ -0,0 +1,119 @@
+/**
+ * Server-side notification delivery
+ * Web push to every subscription a user registered, and the account email
+ * to fall back on. Used by the cron jobs that notify users.
+ */
+
+import webpush from 'web-push'
+import { getServiceSupabaseClient } from '@/lib/supabase-server'
+import { isEmailConfigured } from '@/lib/email'
+
+export interface PushPayload {
+  title: string
+  body: string
+  icon?: string
+  badge?: string
+  data: {
+    url: string
+    type: string
+    [key: string]: unknown
+  }
+}
+
+// Lazy initialize web-push to avoid build errors when env vars are not set
+let webpushConfigured = false
+
+function configureWebPush(): boolean {
+  if (webpushConfigured) return true
+
+  const VAPID_PUBLIC_KEY = process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY
+  const VAPID_PRIVATE_KEY = process.env.VAPID_PRIVATE_KEY
+  const VAPID_SUBJECT = process.env.VAPID_SUBJECT || 'mailto:support@scenescout.app'
+
+  if (VAPID_PUBLIC_KEY && VAPID_PRIVATE_KEY) {
+    webpush.setVapidDetails(VAPID_SUBJECT, VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY)
+    webpushConfigured = true
+  }
+  return webpushConfigured
+}
+
+/**
+ * Push to all of a user's subscriptions; returns how many accepted it.
+ * Subscriptions the push service reports as gone are removed.
+ */
+export async function sendPushToUser(userId: string, payload: PushPayload): Promise<number> {
+  if (!configureWebPush()) return 0
+
+  const supabase = getServiceSupabaseClient()
+  const { data: subscriptions } = await supabase
+    .from('push_subscriptions')
+    .select('*')
+    .eq('user_id', userId)
+
+  if (!subscriptions || subscriptions.length === 0) return 0
+
+  const body = JSON.stringify({
+    icon: '/icon-192x192.png',
+    badge: '/badge-72x72.png',
+    ...payload
+  })
+
+  let delivered = 0
+  for (const subscription of subscriptions) {
+    try {
+      await webpush.sendNotification(
+        { endpoint: subscription.endpoint, keys: subscription.keys },
+        body
+      )
+      delivered++
+    } catch (pushError: any) {
+      console.error(`❌ Push failed for subscription ${subscription.id}:`, pushError.message)
+      if (pushError.statusCode === 410 || pushError.statusCode === 404) {
+        await supabase.from('push_subscriptions').delete().eq('id', subscription.id)
+      }
+    }
+  }
+  return delivered
+}
+
+export interface UserContact {
+  email: string
+  name: string
+}
+
+/**
+ * Email address and display name of a signed-up user, or null for
+ * anonymous ids (device ids are not auth users)
+ */
+export async function getUserContact(userId: string): Promise<UserContact | null> {
+  const supabase = getServiceSupabaseClient()
+  const { data, error } = await supabase.auth.admin.getUserById(userId)
+  const user = data?.user
+  if (error || !user?.email) return null
+
+  return {
+    email: user.email,
+    name: user.user_metadata?.full_name || user.email.split('@')[0]
+  }
+}
+
+/**
+ * Push first; fall back to email for users without a push subscription.
+ * `sendEmail` only runs when email is configured and the user has an
+ * address. Returns whether either channel delivered.
+ */
+export async function notifyUser(
+  userId: string,
+  push: PushPayload,
+  sendEmail: (contact: UserContact) => Promise<{ success: boolean }>
+): Promise<boolean> {
+  const pushed = await sendPushToUser(userId, push)
+  if (pushed > 0) return true
+
+  if (!isEmailConfigured()) return false
+  const contact = await getUserContact(userId)
+  if (!contact) return false
+
+  const result = await sendEmail(contact)
+  return result.success
+}
@@ -0,0 +1,138 @@
+/**
+ * New-date announcements for followed performers
+ * Finds lineup entries not yet announced and tells each follower of the
+ * performer about the dates in the city they follow it for. Run by
+ * /api/cron/performer-announcements.
+ */
+
+import { getServiceSupabaseClient } from '@/lib/supabase-server'
+import { sendPerformerAnnouncement } from '@/lib/email'
+import { notifyUser } from '@/lib/notifications/deliver'
+import { describeShow, showsForFollower, type AnnouncedShow } from './followers'
+
+export interface AnnounceResult {
+  scanned: number
+  notified: number
+  failed: number
+}
+
+interface PendingRow {
+  event_id: string
+  performer_id: string
+  created_at: string
+  performers: { id: string; name: string; image_url: string | null }
+  events: { id: string; title: string; date: string | null; venue_name: string | null; city_name: string | null }
+}
+
+interface FollowerRow {
+  user_id: string
+  city: string
+  created_at: string
+}
+
+// Lineups linked since the last run; a backlog drains over a few runs
+const DEFAULT_BATCH_SIZE = 500
+
+async function notifyFollower(
+  userId: string,
+  performer: PendingRow['performers'],
+  city: string,
+  shows: AnnouncedShow[]
+): Promise<boolean> {
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL || 'https://scenescout.app'
+  const path = `/performers/${performer.id}`
+  const dates = shows.map(describeShow)
+
+  return notifyUser(userId, {
+    title: `🎤 ${performer.name} announced ${shows.length === 1 ? 'a date' : `${shows.length} dates`} in ${city}`,
+    body: dates.join('\n'),
+    icon: performer.image_url || '/icon-192x192.png',
+    data: {
+      performerId: performer.id,
+      url: path,
+      type: 'performer-announcement'
+    }
+  }, contact => sendPerformerAnnouncement(contact.email, contact.name, {
+    performerName: performer.name,
+    city,
+    dates,
+    performerUrl: `${appUrl}${path}`
+  }))
+}
+
+/**
+ * Announce newly linked dates to the performers' followers
+ */
+export async function announceNewDates(options: { limit?: number; now?: Date } = {}): Promise<AnnounceResult> {
+  const supabase = getServiceSupabaseClient()
+  const now = options.now || new Date()
+  const result: AnnounceResult = { scanned: 0, notified: 0, failed: 0 }
+
+  const { data, error } = await supabase
+    .from('event_performers')
+    .select('event_id, performer_id, created_at, performers!inner(id, name, image_url), events!inner(id, title, date, venue_name, city_name)')
+    .is('announced_at', null)
+    .gte('events.date', now.toISOString().split('T')[0])
+    .order('created_at', { ascending: true })
+    .limit(options.limit || DEFAULT_BATCH_SIZE)
+
+  if (error) throw new Error(`Failed to load new lineups: ${error.message}`)
+
+  const rows = (data || []) as unknown as PendingRow[]
+  result.scanned = rows.length
+
+  const byPerformer = new Map<string, PendingRow[]>()
+  for (const row of rows) {
+    byPerformer.set(row.performer_id, [...(byPerformer.get(row.performer_id) || []), row])
+  }
+
+  for (const [performerId, performerRows] of Array.from(byPerformer.entries())) {
+    const performer = performerRows[0].performers
+    const shows: AnnouncedShow[] = performerRows.map(row => ({
+      eventId: row.event_id,
+      title: row.events.title,
+      date: row.events.date,
+      venueName: row.events.venue_name,
+      cityName: row.events.city_name,
+      linkedAt: row.created_at
+    }))
+
+    const { data: followers, error: followError } = await supabase
+      .from('performer_follows')
+      .select('user_id, city, created_at')
+      .eq('performer_id', performerId)
+      .not('city', 'is', null)
+
+    if (followError) {
+      console.error(`❌ Failed to load followers of ${performerId}:`, followError.message)
+      result.failed += performerRows.length
+      continue
+    }
+
+    for (const follower of (followers || []) as FollowerRow[]) {
+      const matching = showsForFollower(shows, { city: follower.city, createdAt: follower.created_at })
+      if (matching.length === 0) continue
+
+      try {
+        if (await notifyFollower(follower.user_id, performer, follower.city, matching)) {
+          result.notified++
+        }
+      } catch (notifyError: any) {
+        console.error(`⚠️ Failed to notify user ${follower.user_id} about ${performer.name}:`, notifyError.message)
+      }
+    }
+
+    const { error: markError } = await supabase
+      .from('event_performers')
+      .update({ announced_at: now.toISOString() })
+      .eq('performer_id', performerId)
+      .in('event_id', performerRows.map(row => row.event_id))
+
+    if (markError) {
+      console.error(`❌ Failed to mark ${performerId} dates announced:`, markError.message)
+      result.failed += performerRows.length
+    }
+  }
+
+  return result
+}
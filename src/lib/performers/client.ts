@@ -0,0 +1,66 @@
+/**
+ * Browser helpers for the /api/performers routes
+ * Attaches the current Supabase session token when there is one; viewing a
+ * performer works signed out, following requires a session.
+ */
+
+import { createClient } from '@/lib/supabase/client'
+import { trackEvent } from '@/lib/tracking/client'
+import type { Performer, PerformerFollow, PerformerShow } from './types'
+
+async function getAccessToken(): Promise<string | null> {
+  const { data: { session } } = await createClient().auth.getSession()
+  return session?.access_token || null
+}
+
+async function performersFetch<T>(path: string, init: RequestInit = {}, requireAuth: boolean = true): Promise<T> {
+  const token = await getAccessToken()
+  if (!token && requireAuth) {
+    throw new Error('Please log in to follow artists')
+  }
+
+  const response = await fetch(path, {
+    ...init,
+    headers: {
+      ...(token ? { 'Authorization': `Bearer ${token}` } : {}),
+      'Content-Type': 'application/json',
+      ...init.headers,
+    },
+  })
+
+  const body = await response.json().catch(() => ({}))
+  if (!response.ok) {
+    throw new Error(body.error || `Request failed (${response.status})`)
+  }
+
+  return body as T
+}
+
+export async function fetchPerformer(idOrSlug: string): Promise<{
+  performer: Performer
+  shows: PerformerShow[]
+  follow: PerformerFollow | null
+}> {
+  return performersFetch(`/api/performers/${encodeURIComponent(idOrSlug)}`, {}, false)
+}
+
+/**
+ * Follow (or change the city of a follow) and record it as a personalization signal
+ */
+export async function followPerformer(performer: Pick<Performer, 'id' | 'slug'>, city: string | null): Promise<{ follow: PerformerFollow; followerCount: number }> {
+  const result = await performersFetch<{ follow: PerformerFollow; followerCount: number }>(
+    `/api/performers/${performer.id}/follow`,
+    { method: 'POST', body: JSON.stringify({ city }) }
+  )
+  trackEvent('follow', { performer: performer.slug })
+  return result
+}
+
+export async function unfollowPerformer(performer: Pick<Performer, 'id' | 'slug'>): Promise<number> {
+  const { followerCount } = await performersFetch<{ followerCount: number }>(
+    `/api/performers/${performer.id}/follow`,
+    { method: 'DELETE' }
+  )
+  trackEvent('unfollow', { performer: performer.slug })
+  return followerCount
+}
@@ -0,0 +1,117 @@
+/**
+ * Performer extraction
+ * Pulls the performer list out of each source's event payload and
+ * normalizes names so the same act is recognized across sources.
+ */
+
+import type { EventPerformer, PerformerSource } from './types'
+
+/**
+ * Normalized performer name: "The Beaches", "Beaches" and "BEACHES" are
+ * the same act; "Daniel Caesar (DJ Set)" is Daniel Caesar
+ */
+export function performerSlug(name: string): string {
+  return name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/\s*[([][^)\]]*[)\]]\s*/g, ' ')
+    .replace(/\s*[&+]\s*/g, ' and ')
+    .replace(/^the\s+/, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+}
+
+// Keep the first listing of an act; sources sometimes repeat the headliner
+function uniqueBySlug(performers: EventPerformer[]): EventPerformer[] {
+  const seen = new Set<string>()
+  return performers
+    .filter(performer => {
+      if (!performer.slug || seen.has(performer.slug)) return false
+      seen.add(performer.slug)
+      return true
+    })
+    .map((performer, index) => ({ ...performer, billingOrder: index }))
+}
+
+function listed(
+  source: PerformerSource,
+  name: string,
+  billingOrder: number,
+  details: Partial<EventPerformer> = {}
+): EventPerformer {
+  return {
+    name: name.trim(),
+    slug: performerSlug(name),
+    role: billingOrder === 0 ? 'headliner' : 'support',
+    billingOrder,
+    source,
+    ...details
+  }
+}
+
+/**
+ * Performers of a Ticketmaster Discovery event, from its attractions.
+ * Ticketmaster lists the headliner first.
+ */
+export function performersFromTicketmaster(raw: any): EventPerformer[] {
+  const attractions: any[] = raw?._embedded?.attractions || []
+
+  return uniqueBySlug(attractions
+    .filter(attraction => typeof attraction?.name === 'string' && attraction.name.trim())
+    .map((attraction, index) => {
+      const images: any[] = attraction.images || []
+      const image = images.find(img => img.width >= 640) || images[0]
+      const genre = attraction.classifications?.[0]?.genre?.name
+
+      return listed('ticketmaster', attraction.name, index, {
+        externalId: attraction.id ? String(attraction.id) : undefined,
+        musicbrainzId: attraction.externalLinks?.musicbrainz?.[0]?.id || null,
+        imageUrl: image?.url || null,
+        genres: genre && genre !== 'Undefined' ? [genre] : []
+      })
+    }))
+}
+
+/**
+ * Performers of a Songkick event, from its performances in billing order
+ */
+export function performersFromSongkick(raw: any): EventPerformer[] {
+  const performances: any[] = [...(raw?.performance || [])]
+    .sort((a, b) => (a.billingIndex ?? 0) - (b.billingIndex ?? 0))
+
+  return uniqueBySlug(performances
+    .filter(performance => performance?.artist?.displayName || performance?.displayName)
+    .map((performance, index): EventPerformer => {
+      const artist = performance.artist || {}
+      return {
+        ...listed('songkick', artist.displayName || performance.displayName, index, {
+          externalId: artist.id !== undefined ? String(artist.id) : undefined,
+          musicbrainzId: artist.identifier?.find((id: any) => id?.mbid)?.mbid || null
+        }),
+        // Co-headliners are all billed as "headline"
+        role: index === 0 || performance.billing === 'headline' ? 'headliner' : 'support'
+      }
+    }))
+}
+
+/**
+ * Performers of a Bandsintown event. The lineup is a list of names; the
+ * artist whose events were requested comes with its id and image.
+ */
+export function performersFromBandsintown(raw: any): EventPerformer[] {
+  const lineup: string[] = (raw?.lineup || []).filter((name: any) => typeof name === 'string' && name.trim())
+  const artist = raw?.artist
+  if (lineup.length === 0 && artist?.name) lineup.push(artist.name)
+
+  return uniqueBySlug(lineup.map((name, index) => {
+    const isArtist = artist?.name && performerSlug(artist.name) === performerSlug(name)
+    const externalId = isArtist ? artist.id ?? raw.artist_id : undefined
+
+    return listed('bandsintown', name, index, isArtist ? {
+      externalId: externalId !== undefined ? String(externalId) : undefined,
+      musicbrainzId: artist.mbid || null,
+      imageUrl: artist.image_url || artist.thumb_url || null
+    } : {})
+  }))
+}
@@ -0,0 +1,51 @@
+/**
+ * Which newly announced dates each follower hears about
+ */
+
+import { format, parseISO } from 'date-fns'
+
+export interface AnnouncedShow {
+  eventId: string
+  title: string
+  date: string | null
+  venueName: string | null
+  cityName: string | null
+  /** When the performer was linked to the event */
+  linkedAt: string
+}
+
+function cityKey(city: string): string {
+  return city
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .split(',')[0]
+    .trim()
+    .toLowerCase()
+}
+
+/**
+ * "Toronto", "toronto" and "Toronto, ON" are the same city
+ */
+export function sameCity(a: string | null | undefined, b: string | null | undefined): boolean {
+  if (!a || !b) return false
+  return cityKey(a) === cityKey(b)
+}
+
+/**
+ * "Fri, Mar 6 · Massey Hall"
+ */
+export function describeShow(show: AnnouncedShow): string {
+  const date = show.date ? format(parseISO(show.date), 'EEE, MMM d') : 'Date TBA'
+  return show.venueName ? `${date} · ${show.venueName}` : date
+}
+
+/**
+ * Shows a follower should hear about: in their city, and linked after they
+ * followed (earlier dates were already on the performer's page)
+ */
+export function showsForFollower(shows: AnnouncedShow[], follow: { city: string; createdAt: string }): AnnouncedShow[] {
+  return shows.filter(show =>
+    sameCity(show.cityName, follow.city) &&
+    new Date(show.linkedAt).getTime() > new Date(follow.createdAt).getTime()
+  )
+}
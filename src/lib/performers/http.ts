@@ -0,0 +1,15 @@
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+
+/**
+ * Performer ids and slugs as they appear in URLs. Both go into PostgREST
+ * filters, so anything else is rejected before a query is built.
+ */
+export const performerIdSchema = z.string().regex(/^[A-Za-z0-9_-]{1,200}$/)
+
+export function performerNotFoundResponse(): NextResponse {
+  return NextResponse.json(
+    { success: false, error: 'Performer not found' },
+    { status: 404 }
+  )
+}
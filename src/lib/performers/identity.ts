@@ -0,0 +1,110 @@
+/**
+ * Cross-source performer identity
+ *
+ * A listing matches a stored performer by, in order: the same id at the
+ * same source, the same MusicBrainz id, or the same normalized name. A
+ * name match is skipped when both sides carry different ids at the same
+ * source, since that is two acts sharing a name. Matched performers pick
+ * up the listing's other ids, so a Songkick listing that matched by name
+ * is found by its Songkick id next time.
+ */
+
+import type { EventPerformer, Performer } from './types'
+
+export interface ResolvedPerformers {
+  /** Performers created or changed by the listings, to be stored */
+  changed: Performer[]
+  /** The listings, with the id of the performer each resolved to */
+  listed: EventPerformer[]
+}
+
+function conflicts(performer: Performer, listed: EventPerformer): boolean {
+  if (!listed.source || !listed.externalId) return false
+  const known = performer.externalIds[listed.source]
+  return known !== undefined && known !== listed.externalId
+}
+
+/**
+ * The stored performer a listing refers to, if any
+ */
+export function matchPerformer(listed: EventPerformer, known: Performer[]): Performer | null {
+  if (listed.source && listed.externalId) {
+    const byExternalId = known.find(p => p.externalIds[listed.source!] === listed.externalId)
+    if (byExternalId) return byExternalId
+  }
+
+  if (listed.musicbrainzId) {
+    const byMusicbrainz = known.find(p => p.musicbrainzId === listed.musicbrainzId)
+    if (byMusicbrainz) return byMusicbrainz
+  }
+
+  return known.find(p => p.slug === listed.slug && !conflicts(p, listed)) || null
+}
+
+function newPerformerId(listed: EventPerformer, known: Performer[]): string {
+  const id = `pf_${listed.slug}`
+  if (!known.some(p => p.id === id)) return id
+  // Another act already has the name
+  return `${id}_${listed.source || 'listed'}_${listed.externalId || known.length}`.replace(/[^A-Za-z0-9_-]/g, '-')
+}
+
+function sameList(a: string[], b: string[]): boolean {
+  return a.length === b.length && a.every((value, index) => value === b[index])
+}
+
+/**
+ * Fold a listing into the performer it matched, or create one
+ */
+export function mergePerformer(existing: Performer | null, listed: EventPerformer, id: string): Performer {
+  const externalIds = { ...existing?.externalIds }
+  if (listed.source && listed.externalId && !externalIds[listed.source]) {
+    externalIds[listed.source] = listed.externalId
+  }
+
+  const genres = [...(existing?.genres || [])]
+  for (const genre of listed.genres || []) {
+    if (!genres.some(g => g.toLowerCase() === genre.toLowerCase())) genres.push(genre)
+  }
+
+  return {
+    id,
+    name: existing?.name || listed.name,
+    slug: existing?.slug || listed.slug,
+    imageUrl: existing?.imageUrl || listed.imageUrl || null,
+    genres,
+    musicbrainzId: existing?.musicbrainzId || listed.musicbrainzId || null,
+    externalIds,
+    followerCount: existing?.followerCount || 0
+  }
+}
+
+/**
+ * Resolve an event's listings against the known performers. Listings of
+ * the same act within the batch resolve to the same new performer.
+ */
+export function resolvePerformers(listings: EventPerformer[], known: Performer[]): ResolvedPerformers {
+  const pool = [...known]
+  const changed = new Map<string, Performer>()
+
+  const listed = listings.map(listing => {
+    const existing = matchPerformer(listing, pool)
+    const merged = mergePerformer(existing, listing, existing?.id || newPerformerId(listing, pool))
+
+    const isChange = !existing ||
+      merged.imageUrl !== existing.imageUrl ||
+      merged.musicbrainzId !== existing.musicbrainzId ||
+      !sameList(merged.genres, existing.genres) ||
+      Object.keys(merged.externalIds).length !== Object.keys(existing.externalIds).length
+
+    if (isChange) {
+      changed.set(merged.id, merged)
+      const index = pool.findIndex(p => p.id === merged.id)
+      if (index >= 0) pool[index] = merged
+      else pool.push(merged)
+    }
+
+    return { ...listing, id: merged.id }
+  })
+
+  return { changed: Array.from(changed.values()), listed }
+}
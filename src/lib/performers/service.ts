@@ -0,0 +1,339 @@
+/**
+ * Performer store
+ * Links event listings to stored performers (merging identities across
+ * sources), serves performer pages and keeps users' follows.
+ */
+
+import { getServiceSupabaseClient } from '@/lib/supabase-server'
+import { resolvePerformers } from './identity'
+import type {
+  EventPerformer,
+  Performer,
+  PerformerFollow,
+  PerformerRole,
+  PerformerShow,
+  PerformerSource
+} from './types'
+
+interface PerformerRow {
+  id: string
+  name: string
+  slug: string
+  image_url: string | null
+  genres: string[] | null
+  musicbrainz_id: string | null
+  follower_count: number | null
+  performer_external_ids?: Array<{ source: PerformerSource; external_id: string }>
+}
+
+interface ShowRow {
+  role: PerformerRole
+  events: {
+    id: string
+    title: string
+    date: string | null
+    time: string | null
+    venue_name: string | null
+    city_name: string | null
+    image_url: string | null
+    external_url: string | null
+  }
+}
+
+interface FollowRow {
+  performer_id: string
+  city: string | null
+  created_at: string
+}
+
+const PERFORMER_COLUMNS = 'id, name, slug, image_url, genres, musicbrainz_id, follower_count, performer_external_ids(source, external_id)'
+
+export function fromPerformerRow(row: PerformerRow): Performer {
+  const externalIds: Performer['externalIds'] = {}
+  for (const ref of row.performer_external_ids || []) {
+    externalIds[ref.source] = ref.external_id
+  }
+
+  return {
+    id: row.id,
+    name: row.name,
+    slug: row.slug,
+    imageUrl: row.image_url,
+    genres: row.genres || [],
+    musicbrainzId: row.musicbrainz_id,
+    externalIds,
+    followerCount: row.follower_count || 0
+  }
+}
+
+function fromFollowRow(row: FollowRow): PerformerFollow {
+  return {
+    performerId: row.performer_id,
+    city: row.city,
+    createdAt: row.created_at
+  }
+}
+
+/**
+ * Stored performers any of the listings could be, by external id,
+ * MusicBrainz id or normalized name
+ */
+async function loadCandidates(listings: EventPerformer[]): Promise<Performer[]> {
+  const supabase = getServiceSupabaseClient()
+  const ids = new Set<string>()
+
+  const externalIds = listings.filter(l => l.source && l.externalId).map(l => l.externalId!)
+  if (externalIds.length > 0) {
+    const { data, error } = await supabase
+      .from('performer_external_ids')
+      .select('source, external_id, performer_id')
+      .in('external_id', externalIds)
+
+    if (error) {
+      throw new Error(`Failed to look up performer ids: ${error.message}`)
+    }
+    for (const row of data || []) {
+      if (listings.some(l => l.source === row.source && l.externalId === row.external_id)) ids.add(row.performer_id)
+    }
+  }
+
+  const musicbrainzIds = listings.map(l => l.musicbrainzId).filter((id): id is string => !!id)
+  const slugs = listings.map(l => l.slug)
+  const filters = [`slug.in.(${slugs.map(s => `"${s}"`).join(',')})`]
+  if (musicbrainzIds.length > 0) filters.push(`musicbrainz_id.in.(${musicbrainzIds.map(id => `"${id}"`).join(',')})`)
+  if (ids.size > 0) filters.push(`id.in.(${Array.from(ids).map(id => `"${id}"`).join(',')})`)
+
+  const { data, error } = await supabase
+    .from('performers')
+    .select(PERFORMER_COLUMNS)
+    .or(filters.join(','))
+
+  if (error) {
+    throw new Error(`Failed to load performers: ${error.message}`)
+  }
+
+  return ((data || []) as PerformerRow[]).map(fromPerformerRow)
+}
+
+/**
+ * Store an event's lineup: merge each listing into a stored performer and
+ * record who plays the event. Returns the listings with performer ids.
+ */
+export async function linkEventPerformers(eventId: string, listings: EventPerformer[]): Promise<EventPerformer[]> {
+  if (listings.length === 0) return []
+
+  const supabase = getServiceSupabaseClient()
+  const { changed, listed } = resolvePerformers(listings, await loadCandidates(listings))
+
+  if (changed.length > 0) {
+    const { error } = await supabase
+      .from('performers')
+      .upsert(changed.map(performer => ({
+        id: performer.id,
+        name: performer.name,
+        slug: performer.slug,
+        image_url: performer.imageUrl,
+        genres: performer.genres,
+        musicbrainz_id: performer.musicbrainzId,
+        updated_at: new Date().toISOString()
+      })), { onConflict: 'id' })
+
+    if (error) {
+      throw new Error(`Failed to store performers: ${error.message}`)
+    }
+
+    const refs = changed.flatMap(performer =>
+      Object.entries(performer.externalIds).map(([source, externalId]) => ({
+        source,
+        external_id: externalId,
+        performer_id: performer.id
+      }))
+    )
+    if (refs.length > 0) {
+      const { error: refError } = await supabase
+        .from('performer_external_ids')
+        .upsert(refs, { onConflict: 'source,external_id', ignoreDuplicates: true })
+
+      if (refError) {
+        throw new Error(`Failed to store performer ids: ${refError.message}`)
+      }
+    }
+  }
+
+  // Keep created_at/announced_at of lineups already stored
+  const { error: linkError } = await supabase
+    .from('event_performers')
+    .upsert(listed.map(performer => ({
+      event_id: eventId,
+      performer_id: performer.id,
+      role: performer.role,
+      billing_order: performer.billingOrder
+    })), { onConflict: 'event_id,performer_id', ignoreDuplicates: true })
+
+  if (linkError) {
+    throw new Error(`Failed to link performers to ${eventId}: ${linkError.message}`)
+  }
+
+  return listed
+}
+
+/**
+ * A performer by id, or by normalized name for links built from listings
+ */
+export async function getPerformer(idOrSlug: string): Promise<Performer | null> {
+  const supabase = getServiceSupabaseClient()
+
+  const { data, error } = await supabase
+    .from('performers')
+    .select(PERFORMER_COLUMNS)
+    .or(`id.eq."${idOrSlug}",slug.eq."${idOrSlug}"`)
+    .order('follower_count', { ascending: false })
+    .limit(2)
+
+  if (error) {
+    throw new Error(`Failed to load performer: ${error.message}`)
+  }
+
+  const rows = (data || []) as PerformerRow[]
+  const row = rows.find(r => r.id === idOrSlug) || rows[0]
+  return row ? fromPerformerRow(row) : null
+}
+
+/**
+ * A performer's upcoming events, soonest first
+ */
+export async function listUpcomingShows(performerId: string, options: { limit?: number } = {}): Promise<PerformerShow[]> {
+  const supabase = getServiceSupabaseClient()
+
+  const { data, error } = await supabase
+    .from('event_performers')
+    .select('role, events!inner(id, title, date, time, venue_name, city_name, image_url, external_url)')
+    .eq('performer_id', performerId)
+    .gte('events.date', new Date().toISOString().split('T')[0])
+    .limit(options.limit || 50)
+
+  if (error) {
+    throw new Error(`Failed to load shows: ${error.message}`)
+  }
+
+  return ((data || []) as unknown as ShowRow[])
+    .map(row => ({
+      eventId: row.events.id,
+      title: row.events.title,
+      date: row.events.date,
+      time: row.events.time,
+      venueName: row.events.venue_name,
+      cityName: row.events.city_name,
+      role: row.role,
+      imageUrl: row.events.image_url,
+      externalUrl: row.events.external_url
+    }))
+    .sort((a, b) => `${a.date} ${a.time || ''}`.localeCompare(`${b.date} ${b.time || ''}`))
+}
+
+async function refreshFollowerCount(performerId: string): Promise<number> {
+  const supabase = getServiceSupabaseClient()
+
+  const { count, error } = await supabase
+    .from('performer_follows')
+    .select('*', { count: 'exact', head: true })
+    .eq('performer_id', performerId)
+
+  if (error) {
+    throw new Error(`Failed to count followers: ${error.message}`)
+  }
+
+  await supabase
+    .from('performers')
+    .update({ follower_count: count || 0 })
+    .eq('id', performerId)
+
+  return count || 0
+}
+
+export async function getFollow(userId: string, performerId: string): Promise<PerformerFollow | null> {
+  const supabase = getServiceSupabaseClient()
+
+  const { data, error } = await supabase
+    .from('performer_follows')
+    .select('performer_id, city, created_at')
+    .eq('user_id', userId)
+    .eq('performer_id', performerId)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to load follow: ${error.message}`)
+  }
+
+  return data ? fromFollowRow(data as FollowRow) : null
+}
+
+/**
+ * Follow a performer, or change the city of an existing follow
+ */
+export async function followPerformer(
+  userId: string,
+  performerId: string,
+  city: string | null
+): Promise<{ follow: PerformerFollow; followerCount: number }> {
+  const supabase = getServiceSupabaseClient()
+
+  const existing = await getFollow(userId, performerId)
+  const { data, error } = await supabase
+    .from('performer_follows')
+    .upsert({
+      user_id: userId,
+      performer_id: performerId,
+      city,
+      created_at: existing?.createdAt || new Date().toISOString()
+    }, { onConflict: 'user_id,performer_id' })
+    .select('performer_id, city, created_at')
+    .single()
+
+  if (error) {
+    throw new Error(`Failed to follow performer: ${error.message}`)
+  }
+
+  return {
+    follow: fromFollowRow(data as FollowRow),
+    followerCount: await refreshFollowerCount(performerId)
+  }
+}
+
+export async function unfollowPerformer(userId: string, performerId: string): Promise<number> {
+  const supabase = getServiceSupabaseClient()
+
+  const { error } = await supabase
+    .from('performer_follows')
+    .delete()
+    .eq('user_id', userId)
+    .eq('performer_id', performerId)
+
+  if (error) {
+    throw new Error(`Failed to unfollow performer: ${error.message}`)
+  }
+
+  return refreshFollowerCount(performerId)
+}
+
+/**
+ * Performers the user follows, most recently followed first
+ */
+export async function listFollowedPerformers(userId: string): Promise<Array<PerformerFollow & { performer: Performer }>> {
+  const supabase = getServiceSupabaseClient()
+
+  const { data, error } = await supabase
+    .from('performer_follows')
+    .select(`performer_id, city, created_at, performers!inner(${PERFORMER_COLUMNS})`)
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+
+  if (error) {
+    throw new Error(`Failed to load followed performers: ${error.message}`)
+  }
+
+  return ((data || []) as unknown as Array<FollowRow & { performers: PerformerRow }>).map(row => ({
+    ...fromFollowRow(row),
+    performer: fromPerformerRow(row.performers)
+  }))
+}
@@ -0,0 +1,64 @@
+/**
+ * Performer types shared by extraction, identity merging, the performer
+ * APIs and new-date announcements
+ *
+ * A performer is one artist, band or act. Sources list them differently
+ * (Ticketmaster attractions, Songkick performances, Bandsintown lineups);
+ * extraction turns each into an EventPerformer and identity merging folds
+ * them into one stored performer per act.
+ */
+
+export type PerformerSource = 'ticketmaster' | 'songkick' | 'bandsintown'
+
+export type PerformerRole = 'headliner' | 'support'
+
+/** A performer as listed on one event */
+export interface EventPerformer {
+  /** Stored performer id, once the event has been linked */
+  id?: string
+  name: string
+  /** Normalized name, the identity of a performer with no shared external id */
+  slug: string
+  role: PerformerRole
+  /** 0 for the headliner, then in billing order */
+  billingOrder: number
+  source?: PerformerSource
+  /** The performer's id at the source */
+  externalId?: string
+  musicbrainzId?: string | null
+  imageUrl?: string | null
+  genres?: string[]
+}
+
+/** A stored performer, after identity merging */
+export interface Performer {
+  id: string
+  name: string
+  slug: string
+  imageUrl: string | null
+  genres: string[]
+  musicbrainzId: string | null
+  /** Ids of the same performer at each source */
+  externalIds: Partial<Record<PerformerSource, string>>
+  followerCount: number
+}
+
+/** An upcoming event on a performer's page */
+export interface PerformerShow {
+  eventId: string
+  title: string
+  date: string | null
+  time: string | null
+  venueName: string | null
+  cityName: string | null
+  role: PerformerRole
+  imageUrl: string | null
+  externalUrl: string | null
+}
+
+export interface PerformerFollow {
+  performerId: string
+  /** City the user wants new dates for */
+  city: string | null
+  createdAt: string
+}
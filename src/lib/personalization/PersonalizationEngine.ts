@@ -8,6 +8,7 @@ import {
   RecommendationRequest,
   RecommendationResponse,
   RecommendationResult,
+  RecommendationExplanation,
   UserPreferences,
   UserBehavior,
   PersonalizationConfig,
@@ -16,6 +17,16 @@ import {
   PersonalizationMetrics
 } from './types'
 import { Event, UserProfile } from '@/types'
+import { getExperiment, getExperimentAssignment, recordExperimentEvents } from '@/lib/experiments/service'
+import type { ExperimentDefinition, ExperimentVariant } from '@/lib/experiments/bucketing'
+import { WEIGHTS } from '@/lib/tracking/affinity'
+
+// Experiment used when config.ab_testing.experiment_key isn't set
+const DEFAULT_RANKING_EXPERIMENT = 'ranking_weights'
+
+// Half-life used to rank the interactions cited in explanations
+const EXPLANATION_HALF_LIFE_DAYS = 30
+const DAY_MS = 24 * 60 * 60 * 1000
 
 export class PersonalizationEngine {
   private supabase
@@ -259,7 +270,8 @@ export class PersonalizationEngine {
           explanation: {
             primary_reason: this.getPrimaryReason(score.factors),
             contributing_factors: Object.keys(score.factors),
-            algorithm_weights: score.factors
+            algorithm_weights: score.factors,
+            details: this.explainRecommendation(event, score.factors, preferences, behavior)
           },
           metadata: {
             algorithm_version: '1.0.0',
@@ -657,6 +669,97 @@ export class PersonalizationEngine {
     })
   }
 
+  /**
+   * Build the structured "why am I seeing this" details: the user's own
+   * interactions with the event's category or venue, and how old they are
+   */
+  private explainRecommendation(
+    event: Event,
+    factors: Record<string, number>,
+    preferences: UserPreferences,
+    behavior: UserBehavior
+  ): RecommendationExplanation {
+    const now = Date.now()
+    const halfLife = EXPLANATION_HALF_LIFE_DAYS * DAY_MS
+    const signals = new Map<string, { type: string; count: number; weight: number }>()
+    const matchingCategories = new Set<string>()
+    const matchingVenues = new Set<string>()
+    const similarEvents = new Set<string>()
+    let newestAt: number | null = null
+    let oldestAt: number | null = null
+
+    if (preferences.categories.includes(event.category)) {
+      matchingCategories.add(event.category)
+    }
+
+    behavior.event_interactions.forEach(interaction => {
+      const categoryMatch = !!event.category && interaction.metadata?.category === event.category
+      const venueMatch = !!event.venue_name && interaction.metadata?.venue_name === event.venue_name
+      if (!categoryMatch && !venueMatch) return
+
+      if (categoryMatch) matchingCategories.add(event.category)
+      if (venueMatch) matchingVenues.add(event.venue_name!)
+
+      const at = new Date(interaction.timestamp).getTime()
+      if (isNaN(at)) return
+
+      const decay = Math.pow(0.5, Math.max(0, now - at) / halfLife)
+      const signal = signals.get(interaction.interaction_type) ||
+        { type: interaction.interaction_type, count: 0, weight: 0 }
+      signal.count++
+      signal.weight += (WEIGHTS[interaction.interaction_type] || 0) * decay
+      signals.set(interaction.interaction_type, signal)
+
+      similarEvents.add(interaction.event_id)
+      newestAt = newestAt === null ? at : Math.max(newestAt, at)
+      oldestAt = oldestAt === null ? at : Math.min(oldestAt, at)
+    })
+
+    const toAgeDays = (at: number | null) => at === null ? null : Math.floor((now - at) / DAY_MS)
+    const sortedSignals = Array.from(signals.values()).sort((a, b) => b.weight - a.weight)
+    const subjects = [...Array.from(matchingCategories), ...Array.from(matchingVenues)]
+    const primaryReason = this.getPrimaryReason(factors)
+
+    let reason: RecommendationExplanation['primary_reason']
+    let summary: string
+    if (sortedSignals.length > 0 && subjects.length > 0) {
+      const total = sortedSignals.reduce((sum, s) => sum + s.count, 0)
+      reason = 'past_preferences'
+      summary = `Based on ${total} of your interactions with ${subjects.join(' and ')}`
+    } else if (subjects.length > 0) {
+      reason = 'content_similarity'
+      summary = `Matches your interest in ${subjects.join(' and ')}`
+    } else if (primaryReason === 'location') {
+      reason = 'location_based'
+      summary = 'Close to you'
+    } else if (primaryReason === 'collaborative') {
+      reason = 'similar_users'
+      summary = 'Popular with people who like what you like'
+    } else {
+      reason = 'trending'
+      summary = 'Trending in your area'
+    }
+
+    return {
+      primary_reason: reason,
+      confidence_score: this.calculateConfidence(factors),
+      evidence: {
+        similar_events_attended: Array.from(similarEvents),
+        matching_categories: Array.from(matchingCategories),
+        location_relevance: factors.location || 0,
+        social_proof: { friends_interested: 0, similar_users_attended: 0 },
+        matching_venues: Array.from(matchingVenues),
+        signals: sortedSignals,
+        decay: {
+          half_life_days: EXPLANATION_HALF_LIFE_DAYS,
+          newest_age_days: toAgeDays(newestAt),
+          oldest_age_days: toAgeDays(oldestAt)
+        }
+      },
+      human_readable: summary
+    }
+  }
+
   private calculateConfidence(factors: Record<string, number>): number {
     const nonZeroFactors = Object.values(factors).filter(v => v > 0).length
     const totalFactors = Object.keys(factors).length
@@ -729,46 +832,52 @@ export class PersonalizationEngine {
     return diverseRecs
   }
 
+  /**
+   * Sticky variant for the user from the ranking experiment (lib/experiments).
+   * A requested variant overrides bucketing for QA and is not logged.
+   */
   private async getABTestVariant(userId: string, requestedVariant?: string): Promise<ABTestVariant | null> {
     if (!this.config.ab_testing.enabled) return null
 
-    if (requestedVariant) {
-      const { data: variant } = await this.supabase
-        .from('ab_test_variants')
-        .select('*')
-        .eq('name', requestedVariant)
-        .eq('is_active', true)
-        .single()
+    const experimentKey = this.config.ab_testing.experiment_key || DEFAULT_RANKING_EXPERIMENT
 
-      return variant
-    }
+    try {
+      if (requestedVariant) {
+        const experiment = await getExperiment(experimentKey)
+        const variant = experiment?.variants.find(v => v.name === requestedVariant)
+        return experiment && variant ? this.toABTestVariant(experiment, variant) : null
+      }
 
-    // Use hash of user ID to consistently assign variant
-    const hash = this.hashUserId(userId)
-    const threshold = this.config.ab_testing.traffic_allocation.variant_a || 0.2
+      const assignment = await getExperimentAssignment(experimentKey, userId)
+      if (!assignment?.enrolled) return null
 
-    if (hash < threshold) {
-      const { data: variant } = await this.supabase
-        .from('ab_test_variants')
-        .select('*')
-        .eq('name', 'variant_a')
-        .eq('is_active', true)
-        .single()
+      await recordExperimentEvents(userId, userId, [{ experimentKey, type: 'exposure' }])
 
-      return variant
+      const experiment = await getExperiment(experimentKey)
+      const variant = experiment?.variants.find(v => v.name === assignment.variant)
+      return experiment && variant ? this.toABTestVariant(experiment, variant) : null
+    } catch (error) {
+      console.error('A/B assignment error:', error)
+      return null
     }
-
-    return null
   }
 
-  private hashUserId(userId: string): number {
-    let hash = 0
-    for (let i = 0; i < userId.length; i++) {
-      const char = userId.charCodeAt(i)
-      hash = ((hash << 5) - hash) + char
-      hash = hash & hash // Convert to 32-bit integer
+  private toABTestVariant(experiment: ExperimentDefinition, variant: ExperimentVariant): ABTestVariant {
+    const totalWeight = experiment.variants.reduce((sum, v) => sum + v.weight, 0)
+    const now = new Date().toISOString()
+
+    return {
+      id: `${experiment.key}:${variant.name}`,
+      name: variant.name,
+      description: experiment.description,
+      algorithm_config: variant.config,
+      traffic_percentage: totalWeight > 0 ? (variant.weight / totalWeight) * experiment.trafficAllocation * 100 : 0,
+      is_active: experiment.status === 'running' && !experiment.killed,
+      // Outcomes live in the experiment report (/api/admin/experiments)
+      metrics: { click_through_rate: 0, conversion_rate: 0, engagement_score: 0, user_satisfaction: 0 },
+      created_at: now,
+      updated_at: now
     }
-    return Math.abs(hash) / Math.pow(2, 31)
   }
 
   private applyABVariant(config: PersonalizationConfig, variant: ABTestVariant | null): PersonalizationConfig {
@@ -800,7 +909,18 @@ export class PersonalizationEngine {
       explanation: {
         primary_reason: 'fallback',
         contributing_factors: ['trending'],
-        algorithm_weights: { trending: 0.5 }
+        algorithm_weights: { trending: 0.5 },
+        details: {
+          primary_reason: 'trending',
+          confidence_score: 0.3,
+          evidence: {
+            similar_events_attended: [],
+            matching_categories: [],
+            location_relevance: 0,
+            social_proof: { friends_interested: 0, similar_users_attended: 0 }
+          },
+          human_readable: 'Popular with people near you right now'
+        }
       },
       metadata: {
         algorithm_version: '1.0.0',
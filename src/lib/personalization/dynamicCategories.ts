@@ -4,7 +4,7 @@
  */
 
 import { InteractionEvent } from '../tracking/client'
-import { AffinityProfile } from '../tracking/affinity'
+import { AffinityProfile, venueAffinityKey } from '../tracking/affinity'
 
 export interface DynamicCategory {
   id: string
@@ -66,15 +66,17 @@ function generateVenueCategories(
   const categories: DynamicCategory[] = []
 
   // Find top venues with multiple interactions
+  const atVenue = (key: string) =>
+    interactions.filter(i => venueAffinityKey({ venue_id: i.venueId, venue_name: i.venue }) === key)
+
   const topVenues = Object.entries(affinity.venues)
-    .filter(([venue, score]) => {
-      const venueInteractions = interactions.filter(i => i.venue === venue)
-      return venueInteractions.length >= 3 && score > 0.5
-    })
+    .filter(([key, score]) => atVenue(key).length >= 3 && score > 0.5)
     .sort(([, a], [, b]) => b - a)
     .slice(0, 2)
 
-  topVenues.forEach(([venue, score]) => {
+  topVenues.forEach(([key, score]) => {
+    // Keys may be venue ids; rails show the name it was listed under
+    const venue = atVenue(key).find(i => i.venue)?.venue || key
     categories.push({
       id: `venue-${venue.toLowerCase().replace(/[^a-z0-9]+/g, '-')}`,
       title: `Events at ${venue}`,
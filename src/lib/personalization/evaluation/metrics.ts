@@ -0,0 +1,80 @@
+/**
+ * Offline ranking metrics
+ * All functions take ranked event ids; relevance is graded (0 = not relevant)
+ */
+
+/**
+ * Share of the top k that the user went on to engage with
+ */
+export function precisionAtK(ranked: string[], relevance: Map<string, number>, k: number): number {
+  if (k <= 0) return 0
+  const hits = ranked.slice(0, k).filter(id => (relevance.get(id) || 0) > 0).length
+  return hits / k
+}
+
+/**
+ * Normalized discounted cumulative gain with graded relevance (2^rel - 1 gains)
+ */
+export function ndcgAtK(ranked: string[], relevance: Map<string, number>, k: number): number {
+  const dcg = ranked
+    .slice(0, k)
+    .reduce((sum, id, i) => sum + gain(relevance.get(id) || 0) / Math.log2(i + 2), 0)
+
+  const ideal = Array.from(relevance.values())
+    .filter(rel => rel > 0)
+    .sort((a, b) => b - a)
+    .slice(0, k)
+    .reduce((sum, rel, i) => sum + gain(rel) / Math.log2(i + 2), 0)
+
+  return ideal === 0 ? 0 : dcg / ideal
+}
+
+/**
+ * Share of the catalog that appears in at least one top-k list
+ */
+export function catalogCoverage(lists: string[][], catalogSize: number, k: number): number {
+  if (catalogSize === 0) return 0
+  const recommended = new Set(lists.flatMap(list => list.slice(0, k)))
+  return recommended.size / catalogSize
+}
+
+/**
+ * Distinct categories in the top k, relative to the most the list could hold
+ */
+export function categoryDiversity(
+  ranked: string[],
+  categoryOf: (eventId: string) => string | undefined,
+  k: number,
+  categoryCount: number
+): number {
+  const top = ranked.slice(0, k)
+  if (top.length === 0) return 0
+
+  const distinct = new Set(top.map(id => categoryOf(id) || 'unknown'))
+  return distinct.size / Math.min(top.length, Math.max(categoryCount, 1))
+}
+
+/**
+ * Mean self-information of the top k: -log2 of the share of users who
+ * had already interacted with each event (add-one smoothed). Higher means
+ * less obvious recommendations.
+ */
+export function novelty(
+  ranked: string[],
+  popularity: Map<string, number>,
+  userCount: number,
+  k: number
+): number {
+  const top = ranked.slice(0, k)
+  if (top.length === 0) return 0
+
+  const total = top.reduce((sum, id) => {
+    const share = ((popularity.get(id) || 0) + 1) / (userCount + 1)
+    return sum - Math.log2(share)
+  }, 0)
+  return total / top.length
+}
+
+function gain(relevance: number): number {
+  return Math.pow(2, relevance) - 1
+}
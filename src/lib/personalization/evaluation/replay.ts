@@ -0,0 +1,234 @@
+/**
+ * Offline ranking evaluation - replays a recorded interaction log against
+ * an event catalog snapshot and scores each ranking strategy.
+ *
+ * For every user the last share of their positive interactions (clicks and
+ * saves on catalog events) is held out. Strategies rank the catalog as it
+ * looked at the split using only the earlier history, and the held-out
+ * events are the ground truth.
+ */
+
+import type { InteractionEvent } from '@/lib/tracking/client'
+import { catalogCoverage, categoryDiversity, ndcgAtK, novelty, precisionAtK } from './metrics'
+
+export interface CatalogEvent {
+  id: string
+  title?: string
+  category?: string
+  venue_name?: string
+  price_min?: number
+  date?: string
+  start_date?: string
+  [key: string]: any
+}
+
+/**
+ * One line of the interaction log. Logs exported from the account store
+ * carry userId; anonymous device logs fall back to sessionId.
+ */
+export interface LoggedInteraction extends InteractionEvent {
+  userId?: string
+}
+
+export interface ReplayCase {
+  userId: string
+  splitAt: number
+  history: InteractionEvent[]
+  candidates: CatalogEvent[]
+  relevance: Map<string, number>   // Held-out event id -> graded relevance
+}
+
+export interface RankingContext {
+  userId: string
+  history: InteractionEvent[]
+  candidates: CatalogEvent[]
+  now: number
+  k: number
+  popularity: Map<string, number>  // Users who interacted with each event before their split
+}
+
+export interface RankingStrategy {
+  name: string
+  description: string
+  rank(context: RankingContext): string[]
+}
+
+export interface ReplayOptions {
+  k?: number                // Default: 10
+  holdoutFraction?: number  // Default: 0.2 of each user's positive interactions
+  minHistory?: number       // Default: 3 interactions before the split
+}
+
+export interface StrategyMetrics {
+  strategy: string
+  precision: number
+  ndcg: number
+  coverage: number
+  diversity: number
+  novelty: number
+}
+
+export interface EvaluationReport {
+  k: number
+  users: number
+  catalogSize: number
+  strategies: StrategyMetrics[]
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Saves are a stronger signal than clicks; views are impressions, not intent
+const RELEVANCE: Partial<Record<InteractionEvent['type'], number>> = {
+  click: 1,
+  save: 2
+}
+
+/**
+ * Parse a JSONL interaction log, skipping blank lines
+ */
+export function parseInteractionLog(text: string): LoggedInteraction[] {
+  return text
+    .split('\n')
+    .map((line, index) => ({ line: line.trim(), number: index + 1 }))
+    .filter(({ line }) => line.length > 0)
+    .map(({ line, number }) => {
+      let parsed: any
+      try {
+        parsed = JSON.parse(line)
+      } catch {
+        throw new Error(`Interaction log line ${number} is not valid JSON`)
+      }
+      if (typeof parsed.type !== 'string' || typeof parsed.timestamp !== 'number' || typeof parsed.sessionId !== 'string') {
+        throw new Error(`Interaction log line ${number} is missing type, timestamp or sessionId`)
+      }
+      return parsed as LoggedInteraction
+    })
+}
+
+/**
+ * Split each user's log into history and held-out ground truth
+ */
+export function buildReplayCases(
+  log: LoggedInteraction[],
+  catalog: CatalogEvent[],
+  options: ReplayOptions = {}
+): ReplayCase[] {
+  const { holdoutFraction = 0.2, minHistory = 3 } = options
+  const catalogIds = new Set(catalog.map(event => event.id))
+
+  const byUser = new Map<string, LoggedInteraction[]>()
+  log.forEach(interaction => {
+    const userId = interaction.userId || interaction.sessionId
+    const entries = byUser.get(userId) || []
+    entries.push(interaction)
+    byUser.set(userId, entries)
+  })
+
+  const cases: ReplayCase[] = []
+
+  byUser.forEach((entries, userId) => {
+    const sorted = [...entries].sort((a, b) => a.timestamp - b.timestamp)
+    const positives = sorted.filter(i => RELEVANCE[i.type] && i.eventId && catalogIds.has(i.eventId))
+    if (positives.length < 2) return
+
+    const holdout = Math.max(1, Math.round(positives.length * holdoutFraction))
+    const splitAt = positives[positives.length - holdout].timestamp
+
+    const history = sorted.filter(i => i.timestamp < splitAt).map(stripUserId)
+    if (history.length < minHistory) return
+
+    const engaged = new Set(history.filter(i => RELEVANCE[i.type] && i.eventId).map(i => i.eventId!))
+    const candidates = catalog.filter(event => !engaged.has(event.id) && !startsBefore(event, splitAt))
+    const candidateIds = new Set(candidates.map(event => event.id))
+
+    const relevance = new Map<string, number>()
+    sorted
+      .filter(i => i.timestamp >= splitAt && i.eventId && candidateIds.has(i.eventId))
+      .forEach(i => {
+        const grade = RELEVANCE[i.type] || 0
+        if (grade > (relevance.get(i.eventId!) || 0)) relevance.set(i.eventId!, grade)
+      })
+
+    if (relevance.size > 0) {
+      cases.push({ userId, splitAt, history, candidates, relevance })
+    }
+  })
+
+  return cases
+}
+
+/**
+ * Run every strategy over the replay and average the metrics across users
+ */
+export function evaluateStrategies(
+  strategies: RankingStrategy[],
+  log: LoggedInteraction[],
+  catalog: CatalogEvent[],
+  options: ReplayOptions = {}
+): EvaluationReport {
+  const k = options.k ?? 10
+  const cases = buildReplayCases(log, catalog, options)
+
+  const popularity = new Map<string, number>()
+  cases.forEach(replayCase => {
+    new Set(replayCase.history.map(i => i.eventId).filter(Boolean) as string[])
+      .forEach(id => popularity.set(id, (popularity.get(id) || 0) + 1))
+  })
+
+  const categoryById = new Map(catalog.map(event => [event.id, event.category]))
+  const categoryCount = new Set(catalog.map(event => event.category || 'unknown')).size
+  const categoryOf = (id: string) => categoryById.get(id)
+
+  const results = strategies.map(strategy => {
+    const lists = cases.map(replayCase => strategy.rank({
+      userId: replayCase.userId,
+      history: replayCase.history,
+      candidates: replayCase.candidates,
+      now: replayCase.splitAt,
+      k,
+      popularity
+    }))
+
+    return {
+      strategy: strategy.name,
+      precision: mean(lists.map((list, i) => precisionAtK(list, cases[i].relevance, k))),
+      ndcg: mean(lists.map((list, i) => ndcgAtK(list, cases[i].relevance, k))),
+      coverage: catalogCoverage(lists, catalog.length, k),
+      diversity: mean(lists.map(list => categoryDiversity(list, categoryOf, k, categoryCount))),
+      novelty: mean(lists.map(list => novelty(list, popularity, cases.length, k)))
+    }
+  })
+
+  return { k, users: cases.length, catalogSize: catalog.length, strategies: results }
+}
+
+/**
+ * Markdown table for pasting into a ranking PR
+ */
+export function formatReport(report: EvaluationReport): string {
+  const k = report.k
+  const lines = [
+    `Replayed ${report.users} users against ${report.catalogSize} catalog events (k = ${k})`,
+    '',
+    `| Strategy | Precision@${k} | NDCG@${k} | Coverage | Diversity | Novelty |`,
+    '| --- | ---: | ---: | ---: | ---: | ---: |',
+    ...report.strategies.map(m =>
+      `| ${m.strategy} | ${m.precision.toFixed(3)} | ${m.ndcg.toFixed(3)} | ${m.coverage.toFixed(3)} | ${m.diversity.toFixed(3)} | ${m.novelty.toFixed(2)} |`
+    )
+  ]
+  return lines.join('\n')
+}
+
+function stripUserId({ userId, ...interaction }: LoggedInteraction): InteractionEvent {
+  return interaction
+}
+
+// Catalog dates are often day-only, so events on the split day stay eligible
+function startsBefore(event: CatalogEvent, at: number): boolean {
+  const start = new Date(event.date || event.start_date || '').getTime()
+  return !isNaN(start) && start + DAY_MS <= at
+}
+
+function mean(values: number[]): number {
+  return values.length === 0 ? 0 : values.reduce((sum, v) => sum + v, 0) / values.length
+}
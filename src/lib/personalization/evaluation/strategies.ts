@@ -0,0 +1,114 @@
+/**
+ * Ranking strategies the offline replay can score
+ *
+ * Each wraps a production ranker so a weight change shows up here
+ * unchanged. The server-side PersonalizationEngine scorers read Supabase
+ * and are not replayed.
+ */
+
+import { computeAffinity, reorderRows, Row } from '@/lib/tracking/affinity'
+import { rankSmartQueue, SmartQueueOptions } from '@/lib/events/smartQueue'
+import type { CatalogEvent, RankingContext, RankingStrategy } from './replay'
+
+export interface AffinityRowsOptions {
+  name?: string
+  weights?: Record<string, number>  // Default: WEIGHTS in tracking/affinity
+  decayHalfLifeDays?: number
+  discoveryFloor?: number
+  rowSize?: number                  // Events visible per rail before scrolling
+}
+
+/**
+ * Baseline: most-interacted events first, no personalization
+ */
+export function popularityStrategy(): RankingStrategy {
+  return {
+    name: 'popularity',
+    description: 'Most interacted-with events across all users',
+    rank: ({ candidates, popularity }) => [...candidates]
+      .sort((a, b) => (popularity.get(b.id) || 0) - (popularity.get(a.id) || 0) || byStart(a, b))
+      .map(event => event.id)
+  }
+}
+
+/**
+ * Home page rails: reorderRows over category rows, flattened the way the
+ * rails are read (first rowSize events of each row, top row first)
+ */
+export function affinityRowsStrategy(options: AffinityRowsOptions = {}): RankingStrategy {
+  const { name = 'affinity-rows', weights, decayHalfLifeDays = 30, discoveryFloor = 0.25, rowSize = 5 } = options
+
+  return {
+    name,
+    description: 'Category rails reordered by computeAffinity',
+    rank: ({ history, candidates, now }: RankingContext) => {
+      const affinity = computeAffinity(history, decayHalfLifeDays, { weights, now })
+
+      const categoryEvents: Record<string, CatalogEvent[]> = {}
+      ;[...candidates].sort(byStart).forEach(event => {
+        const category = event.category || 'other'
+        ;(categoryEvents[category] = categoryEvents[category] || []).push(event)
+      })
+
+      // Unpersonalized order: fullest rails first
+      const rows: Row[] = Object.keys(categoryEvents)
+        .sort((a, b) => categoryEvents[b].length - categoryEvents[a].length)
+        .map(id => ({ id, title: id, emoji: '', query: id }))
+
+      const ranked: string[] = []
+      const seen = new Set<string>()
+      reorderRows(rows, affinity, categoryEvents, { discoveryFloor, decayHalfLifeDays }).forEach(row => {
+        ;(categoryEvents[row.id] || []).slice(0, rowSize).forEach(event => {
+          if (!seen.has(event.id)) {
+            seen.add(event.id)
+            ranked.push(event.id)
+          }
+        })
+      })
+      return ranked
+    }
+  }
+}
+
+/**
+ * "Surprise Me" queue from events/smartQueue, seeded per user so runs repeat
+ */
+export function smartQueueStrategy(options: SmartQueueOptions & { name?: string } = {}): RankingStrategy {
+  const { name = 'smart-queue', ...queueOptions } = options
+
+  return {
+    name,
+    description: 'createSmartQueue scoring and diversity sampling',
+    rank: ({ userId, history, candidates, now, k }: RankingContext) => {
+      const savedIds = new Set(history.filter(i => i.type === 'save' && i.eventId).map(i => i.eventId!))
+      return rankSmartQueue(candidates, {
+        interactions: history,
+        savedIds,
+        now,
+        random: seededRandom(userId)
+      }, { maxEvents: Math.max(k, 20), ...queueOptions }).map(event => event.id)
+    }
+  }
+}
+
+export function defaultStrategies(): RankingStrategy[] {
+  return [popularityStrategy(), affinityRowsStrategy(), smartQueueStrategy()]
+}
+
+function byStart(a: CatalogEvent, b: CatalogEvent): number {
+  return (a.date || a.start_date || '').localeCompare(b.date || b.start_date || '')
+}
+
+// mulberry32 seeded from a string hash
+function seededRandom(seed: string): () => number {
+  let state = 0
+  for (let i = 0; i < seed.length; i++) {
+    state = (Math.imul(31, state) + seed.charCodeAt(i)) | 0
+  }
+  return () => {
+    state = (state + 0x6D2B79F5) | 0
+    let t = Math.imul(state ^ (state >>> 15), 1 | state)
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
@@ -167,6 +167,7 @@ export interface RecommendationResult {
     primary_reason: string
     contributing_factors: string[]
     algorithm_weights: Record<string, number>
+    details?: RecommendationExplanation
   }
   metadata: {
     algorithm_version: string
@@ -311,6 +312,13 @@ export interface RecommendationExplanation {
       friends_interested: number
       similar_users_attended: number
     }
+    matching_venues?: string[]
+    signals?: Array<{ type: string; count: number; weight: number }> // User interactions behind the match, strongest first
+    decay?: {
+      half_life_days: number
+      newest_age_days: number | null
+      oldest_age_days: number | null
+    }
   }
   human_readable: string
 }
@@ -409,6 +417,7 @@ export interface PersonalizationConfig {
     enabled: boolean
     default_variant: string
     traffic_allocation: Record<string, number>
+    experiment_key?: string // Experiment whose variant configs override this config (see lib/experiments)
   }
   performance: {
     max_computation_time_ms: number
@@ -10,6 +10,10 @@ import { eventNormalizer } from '../event-normalizer'
 import { createClient } from '@supabase/supabase-js'
 import type { Database } from '@/types'
 import type { Event, EventFilters } from '@/types'
+import { queueVenueAlerts } from '@/lib/venues/service'
+import { resolveEventVenues } from '@/lib/venues/registry-service'
+import { invalidateEvents } from '@/lib/query-cache'
+import type { TaggedEvent } from '@/lib/cache/tags'
 
 export interface PipelineConfig {
   // API Configurations
@@ -438,6 +442,9 @@ export class EventPipelineOrchestrator extends EventEmitter {
    */
   private async storeEvents(events: Event[]): Promise<void> {
     try {
+      const { newEvents, stored } = await this.findStoredEvents(events)
+      await this.assignVenues(events)
+
       const { error } = await this.supabase
         .from('events')
         .upsert(events, {
@@ -451,6 +458,31 @@ export class EventPipelineOrchestrator extends EventEmitter {
       }
 
       this.metrics.storage.eventsStored += events.length
+
+      // Cached listings that held or could now hold these events are stale
+      await invalidateEvents([
+        ...stored,
+        ...events.map(event => ({
+          id: event.id,
+          city_name: event.city_name || null,
+          category: event.category,
+          date: event.date || event.event_date || null
+        }))
+      ])
+
+      // Tell followers of the venues about events that were not listed before
+      if (newEvents.length > 0) {
+        await queueVenueAlerts(newEvents.map(event => ({
+          id: event.id,
+          title: event.title,
+          date: event.date || event.event_date || null,
+          venue_name: event.venue_name || null,
+          venue_id: event.venue_id || null,
+          city_name: event.city_name || null
+        }))).catch(alertError =>
+          console.warn('⚠️ Failed to queue venue alerts:', alertError.message)
+        )
+      }
       
       // Emit real-time update if enabled
       if (this.config.realtime.enabled) {
@@ -468,6 +500,63 @@ export class EventPipelineOrchestrator extends EventEmitter {
     }
   }
 
+  /**
+   * Set venue_id on events without one to the canonical venue they are
+   * listed at. Events keep no venue_id if the registry is unavailable.
+   */
+  private async assignVenues(events: Event[]): Promise<void> {
+    const pending = events.filter(event => !event.venue_id && event.venue_name)
+    if (pending.length === 0) return
+
+    try {
+      const venueIds = await resolveEventVenues(pending.map(event => ({
+        name: event.venue_name!,
+        address: event.address || event.venue?.address,
+        city: event.city_name,
+        latitude: event.latitude ?? event.venue?.latitude,
+        longitude: event.longitude ?? event.venue?.longitude
+      })))
+      pending.forEach((event, index) => {
+        event.venue_id = venueIds[index]
+      })
+    } catch (error) {
+      console.warn('⚠️ Failed to resolve venues:', error instanceof Error ? error.message : error)
+    }
+  }
+
+  /**
+   * Which events are not stored yet, by source and external id, so
+   * storeEvents can tell inserts from updates, and the stored versions of the
+   * rest so it can invalidate the listings an update moves them out of. If
+   * the lookup fails none count as new, which skips venue alerts rather than
+   * repeating them.
+   */
+  private async findStoredEvents(events: Event[]): Promise<{ newEvents: Event[]; stored: TaggedEvent[] }> {
+    const externalIds = events.map(event => event.external_id).filter((id): id is string => !!id)
+    if (externalIds.length === 0) return { newEvents: events, stored: [] }
+
+    const { data, error } = await this.supabase
+      .from('events')
+      .select('id, external_id, source, city_name, category, date')
+      .in('external_id', externalIds)
+
+    if (error) {
+      console.error('❌ Failed to look up stored events:', error.message)
+      return { newEvents: [], stored: [] }
+    }
+
+    const rows = (data || []) as any[]
+    const storedKeys = new Set(rows.map(row => `${row.source}|${row.external_id}`))
+    const eventKeys = new Set(events.map(event => `${event.source}|${event.external_id}`))
+
+    return {
+      newEvents: events.filter(event => !event.external_id || !storedKeys.has(`${event.source}|${event.external_id}`)),
+      stored: rows
+        .filter(row => eventKeys.has(`${row.source}|${row.external_id}`))
+        .map(row => ({ id: row.id, city_name: row.city_name, category: row.category, date: row.date }))
+    }
+  }
+
   /**
    * Real-time event streaming
    */
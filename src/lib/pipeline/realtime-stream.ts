@@ -7,10 +7,11 @@ import { EventEmitter } from 'events'
 import { createClient } from '@supabase/supabase-js'
 import type { Database } from '@/types'
 import type { Event, Venue } from '@/types'
+import { WALL_TABLES, toWallStreamUpdate, type WallTable } from '@/lib/wall/stream'
 
 export interface StreamMessage {
   id: string
-  type: 'event_update' | 'venue_update' | 'user_activity' | 'system_notification'
+  type: 'event_update' | 'venue_update' | 'user_activity' | 'system_notification' | 'wall_activity'
   action: 'insert' | 'update' | 'delete'
   timestamp: string
   data: any
@@ -22,6 +23,7 @@ export interface StreamSubscription {
   type: string
   filters?: Record<string, any>
   callback: (message: StreamMessage) => void
+  listener: (message: StreamMessage) => void
   isActive: boolean
   createdAt: Date
 }
@@ -52,6 +54,8 @@ export class RealtimeEventStream extends EventEmitter {
 
   constructor() {
     super()
+    // One 'message' listener per subscription, e.g. per open city wall
+    this.setMaxListeners(0)
     
     this.supabase = createClient<Database>(
       process.env.NEXT_PUBLIC_SUPABASE_URL!,
@@ -139,6 +143,9 @@ export class RealtimeEventStream extends EventEmitter {
       // Subscribe to user activities (if needed)
       await this.subscribeToUserActivities()
 
+      // Subscribe to city wall posts, comments and moderation
+      await this.subscribeToCityWalls()
+
       this.isConnected = true
       this.emit('connected', { timestamp: new Date(), metrics: this.metrics })
       
@@ -163,6 +170,9 @@ export class RealtimeEventStream extends EventEmitter {
       }
 
       this.channels.clear()
+      for (const subscription of this.subscriptions.values()) {
+        this.off('message', subscription.listener)
+      }
       this.subscriptions.clear()
       this.isConnected = false
 
@@ -247,6 +257,27 @@ export class RealtimeEventStream extends EventEmitter {
     this.channels.set('activities', channel)
   }
 
+  /**
+   * Subscribe to city wall changes
+   */
+  private async subscribeToCityWalls(): Promise<void> {
+    let channel = this.supabase.channel('city_walls')
+    for (const table of WALL_TABLES) {
+      channel = channel.on('postgres_changes',
+        { event: '*', schema: 'public', table },
+        (payload) => this.handleWallChange(table, payload)
+      )
+    }
+
+    channel.subscribe((status) => {
+      if (status === 'SUBSCRIBED') {
+        console.log('📡 Subscribed to city walls stream')
+      }
+    })
+
+    this.channels.set('walls', channel)
+  }
+
   /**
    * Handle event database changes
    */
@@ -358,6 +389,31 @@ export class RealtimeEventStream extends EventEmitter {
     this.queueMessage(message)
   }
 
+  /**
+   * Handle city wall changes (hidden rows are dropped by toWallStreamUpdate)
+   */
+  private handleWallChange(table: WallTable, payload: any): void {
+    const change = toWallStreamUpdate(table, payload)
+    if (!change) return
+
+    const message: StreamMessage = {
+      id: `wall_${payload.new?.id}_${Date.now()}`,
+      type: 'wall_activity',
+      action: payload.eventType.toLowerCase() as 'insert' | 'update' | 'delete',
+      timestamp: new Date().toISOString(),
+      data: {
+        city_slug: change.citySlug,
+        update: change.update
+      },
+      metadata: {
+        table,
+        commit_timestamp: payload.commit_timestamp
+      }
+    }
+
+    this.queueMessage(message)
+  }
+
   /**
    * Queue message for batched processing
    */
@@ -402,12 +458,24 @@ export class RealtimeEventStream extends EventEmitter {
     filters?: Record<string, any>
   ): string {
     const subscriptionId = `sub_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`
-    
+
+    const listener = (message: StreamMessage) => {
+      if (subscription.isActive && this.messageMatchesSubscription(message, subscription)) {
+        try {
+          subscription.callback(message)
+        } catch (error) {
+          console.error(`❌ Error in subscription ${subscriptionId}:`, error)
+          this.emit('subscription_error', { subscriptionId, error })
+        }
+      }
+    }
+
     const subscription: StreamSubscription = {
       id: subscriptionId,
       type,
       filters,
       callback,
+      listener,
       isActive: true,
       createdAt: new Date()
     }
@@ -415,16 +483,7 @@ export class RealtimeEventStream extends EventEmitter {
     this.subscriptions.set(subscriptionId, subscription)
 
     // Set up event listener
-    this.on('message', (message: StreamMessage) => {
-      if (subscription.isActive && this.messageMatchesSubscription(message, subscription)) {
-        try {
-          subscription.callback(message)
-        } catch (error) {
-          console.error(`❌ Error in subscription ${subscriptionId}:`, error)
-          this.emit('subscription_error', { subscriptionId, error })
-        }
-      }
-    })
+    this.on('message', listener)
 
     console.log(`📋 Created subscription ${subscriptionId} for type: ${type}`)
     return subscriptionId
@@ -438,6 +497,7 @@ export class RealtimeEventStream extends EventEmitter {
     if (!subscription) return false
 
     subscription.isActive = false
+    this.off('message', subscription.listener)
     this.subscriptions.delete(subscriptionId)
     
     console.log(`📋 Removed subscription ${subscriptionId}`)
@@ -571,6 +631,13 @@ export class RealtimeEventStream extends EventEmitter {
     }, { user_id: userId })
   }
 
+  /**
+   * Create city wall stream (new posts, comments, counts and removals)
+   */
+  createCityWallStream(citySlug: string, callback: (message: StreamMessage) => void): string {
+    return this.subscribe('wall_activity', callback, { 'data.city_slug': citySlug })
+  }
+
   /**
    * Health check for stream status
    */
@@ -0,0 +1,105 @@
+/**
+ * Browser helpers for the /api/plans routes
+ * Attaches the current Supabase session token to every request.
+ */
+
+import { createClient } from '@/lib/supabase/client'
+import type { Plan, PlanItem, PlanRole, PlanWithDetails } from './types'
+
+export type PlanSummary = Plan & { role: PlanRole; item_count: number }
+
+async function plansFetch<T>(path: string, init: RequestInit = {}): Promise<T> {
+  const supabase = createClient()
+  const { data: { session } } = await supabase.auth.getSession()
+
+  if (!session) {
+    throw new Error('Please log in to use plans')
+  }
+
+  const response = await fetch(path, {
+    ...init,
+    headers: {
+      'Authorization': `Bearer ${session.access_token}`,
+      'Content-Type': 'application/json',
+      ...init.headers,
+    },
+  })
+
+  const body = await response.json().catch(() => ({}))
+  if (!response.ok) {
+    throw new Error(body.error || `Request failed (${response.status})`)
+  }
+
+  return body as T
+}
+
+export async function fetchPlans(): Promise<PlanSummary[]> {
+  const { plans } = await plansFetch<{ plans: PlanSummary[] }>('/api/plans')
+  return plans
+}
+
+export async function fetchPlan(planId: string): Promise<PlanWithDetails> {
+  const { plan } = await plansFetch<{ plan: PlanWithDetails }>(`/api/plans/${planId}`)
+  return plan
+}
+
+export async function createPlan(input: { name: string; description?: string; city?: string; date?: string }): Promise<Plan> {
+  const { plan } = await plansFetch<{ plan: Plan }>('/api/plans', {
+    method: 'POST',
+    body: JSON.stringify(input),
+  })
+  return plan
+}
+
+export async function updatePlan(planId: string, updates: Partial<Pick<Plan, 'name' | 'description' | 'notes' | 'is_public'>>): Promise<Plan> {
+  const { plan } = await plansFetch<{ plan: Plan }>(`/api/plans/${planId}`, {
+    method: 'PATCH',
+    body: JSON.stringify(updates),
+  })
+  return plan
+}
+
+export async function addSavedEventToPlan(planId: string, event: { id: string } & Record<string, any>, notes?: string): Promise<PlanItem> {
+  const { item } = await plansFetch<{ item: PlanItem }>(`/api/plans/${planId}/items`, {
+    method: 'POST',
+    body: JSON.stringify({ eventId: event.id, eventData: event, notes }),
+  })
+  return item
+}
+
+export async function reorderPlanItems(planId: string, itemIds: string[]): Promise<void> {
+  await plansFetch(`/api/plans/${planId}/items`, {
+    method: 'PATCH',
+    body: JSON.stringify({ itemIds }),
+  })
+}
+
+export async function updatePlanItemNotes(planId: string, itemId: string, notes: string | null): Promise<PlanItem> {
+  const { item } = await plansFetch<{ item: PlanItem }>(`/api/plans/${planId}/items/${itemId}`, {
+    method: 'PATCH',
+    body: JSON.stringify({ notes }),
+  })
+  return item
+}
+
+export async function removePlanItem(planId: string, itemId: string): Promise<void> {
+  await plansFetch(`/api/plans/${planId}/items/${itemId}`, { method: 'DELETE' })
+}
+
+export async function invitePlanCollaborator(
+  planId: string,
+  email: string,
+  role: Exclude<PlanRole, 'owner'>
+): Promise<{ inviteUrl: string }> {
+  return plansFetch<{ inviteUrl: string }>(`/api/plans/${planId}/invitations`, {
+    method: 'POST',
+    body: JSON.stringify({ email, role }),
+  })
+}
+
+export async function acceptPlanInvitation(token: string): Promise<{ planId: string; role: PlanRole }> {
+  return plansFetch<{ planId: string; role: PlanRole }>('/api/plans/invitations/accept', {
+    method: 'POST',
+    body: JSON.stringify({ token }),
+  })
+}
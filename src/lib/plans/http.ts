@@ -0,0 +1,36 @@
+import { NextResponse } from 'next/server'
+import { safeErrorResponse } from '@/lib/validation/api-validator'
+import { PlanError } from './service'
+
+/**
+ * Map a thrown PlanError to its HTTP status; anything else becomes a generic 500
+ */
+export function planErrorResponse(error: unknown, fallbackMessage: string): NextResponse {
+  if (error instanceof PlanError) {
+    return NextResponse.json(
+      { success: false, error: error.message },
+      { status: error.status }
+    )
+  }
+
+  console.error(`❌ ${fallbackMessage}:`, error)
+  return safeErrorResponse(error, fallbackMessage)
+}
+
+export function authRequiredResponse(): NextResponse {
+  return NextResponse.json(
+    { success: false, error: 'Authentication required' },
+    { status: 401 }
+  )
+}
+
+export function validationFailedResponse(error?: string, status?: number): NextResponse {
+  return NextResponse.json(
+    {
+      success: false,
+      error,
+      timestamp: new Date().toISOString(),
+    },
+    { status: status || 400 }
+  )
+}
@@ -0,0 +1,199 @@
+/**
+ * Itinerary checks for plans
+ *
+ * Flags events whose time windows overlap and back-to-back events that
+ * leave too little time to get from one venue to the next. Events without
+ * an end time are assumed to run DEFAULT_EVENT_DURATION_MS, the same
+ * assumption the `tonight` chip makes.
+ *
+ * Warnings are plain data so the plan page and the ICS export can both
+ * render them.
+ */
+
+import { DEFAULT_EVENT_DURATION_MS, WALK_MINUTES_PER_KM, haversineKm } from '@/lib/filters/applyChips'
+import { resolveEventTimes } from '@/lib/calendar/export'
+import { resolveTimeZone } from '@/lib/calendar/timezone'
+
+export type ItineraryWarningType = 'overlap' | 'travel_time'
+
+export interface ItineraryWarning {
+  type: ItineraryWarningType
+  /** 'error' when both windows are known; 'warning' when an end time was assumed */
+  severity: 'error' | 'warning'
+  fromEventId: string
+  toEventId: string
+  fromEnd: string
+  toStart: string
+  gapMinutes: number
+  distanceKm?: number
+  travelMinutes?: number
+  endEstimated: boolean
+  message: string
+}
+
+export interface EventWindow {
+  start: Date
+  end: Date
+  endEstimated: boolean
+}
+
+export interface ItineraryOptions {
+  /** Minutes needed per km between venues (default: walking pace) */
+  minutesPerKm?: number
+  /** Extra minutes to leave a venue and settle in at the next one */
+  bufferMinutes?: number
+}
+
+const DEFAULT_BUFFER_MINUTES = 5
+
+function parseInstant(value?: string | null): Date | null {
+  if (!value) return null
+  const parsed = new Date(value)
+  return isNaN(parsed.getTime()) ? null : parsed
+}
+
+function toWindow(start: Date, end: Date | null): EventWindow {
+  if (end && end > start) {
+    return { start, end, endEstimated: false }
+  }
+
+  return { start, end: new Date(start.getTime() + DEFAULT_EVENT_DURATION_MS), endEstimated: true }
+}
+
+/**
+ * Resolve an event's start and end from the date fields our providers use.
+ * `startUtc`/`endUtc` are instants; date and time fields are wall-clock
+ * times in the event's own timezone, read the same way calendar exports
+ * read them.
+ */
+export function getEventWindow(event: Record<string, any>): EventWindow | null {
+  if (event.startUtc) {
+    const start = parseInstant(event.startUtc)
+    return start ? toWindow(start, parseInstant(event.endUtc)) : null
+  }
+
+  const times = resolveEventTimes({
+    id: String(event.id ?? ''),
+    title: String(event.title ?? ''),
+    date: event.event_date || event.date || event.start_date,
+    time: event.time || event.start_time,
+    end_date: event.end_date,
+    end_time: event.end_time,
+    timezone: event.timezone,
+  })
+  if (!times) return null
+
+  // Without an end time (or a dated end), resolveEventTimes' end is its own default
+  const hasEnd = !times.allDay &&
+    (Boolean(event.end_time) || (typeof event.end_date === 'string' && event.end_date.length > 10))
+
+  return toWindow(times.start, hasEnd ? times.end : null)
+}
+
+function getCoordinates(event: Record<string, any>): { lat: number; lng: number } | null {
+  const lat = event.latitude ?? event.lat ?? event.venue?.latitude
+  const lng = event.longitude ?? event.lng ?? event.venue?.longitude
+  if (typeof lat !== 'number' || typeof lng !== 'number') return null
+  return { lat, lng }
+}
+
+function venueLabel(event: Record<string, any>): string {
+  return event.venue_name || event.venue?.name || event.title || 'the previous event'
+}
+
+function formatClock(date: Date, timezone?: string | null): string {
+  return date.toLocaleTimeString('en-US', {
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZone: resolveTimeZone(timezone),
+  })
+}
+
+/**
+ * Check an itinerary for overlapping events and tight travel between venues.
+ * Events are compared in chronological order regardless of plan order.
+ */
+export function checkItinerary(
+  events: Array<Record<string, any>>,
+  options: ItineraryOptions = {}
+): ItineraryWarning[] {
+  const minutesPerKm = options.minutesPerKm ?? WALK_MINUTES_PER_KM
+  const bufferMinutes = options.bufferMinutes ?? DEFAULT_BUFFER_MINUTES
+
+  const timed = events
+    .map(event => ({ event, window: getEventWindow(event) }))
+    .filter((entry): entry is { event: Record<string, any>; window: EventWindow } => entry.window !== null)
+    .sort((a, b) => a.window.start.getTime() - b.window.start.getTime())
+
+  const warnings: ItineraryWarning[] = []
+
+  for (let i = 0; i < timed.length; i++) {
+    const from = timed[i]
+
+    for (let j = i + 1; j < timed.length; j++) {
+      const to = timed[j]
+      const gapMinutes = Math.round((to.window.start.getTime() - from.window.end.getTime()) / 60000)
+      const endEstimated = from.window.endEstimated
+      const leaves = formatClock(from.window.end, from.event.timezone)
+      const starts = formatClock(to.window.start, to.event.timezone)
+
+      // Overlaps are checked against every later event; travel only against the next one
+      if (gapMinutes < 0) {
+        warnings.push({
+          type: 'overlap',
+          severity: endEstimated ? 'warning' : 'error',
+          fromEventId: from.event.id,
+          toEventId: to.event.id,
+          fromEnd: from.window.end.toISOString(),
+          toStart: to.window.start.toISOString(),
+          gapMinutes,
+          endEstimated,
+          message: `${from.event.title} ${endEstimated ? 'likely runs' : 'runs'} until ${leaves}, but ${to.event.title} starts at ${starts}`,
+        })
+        continue
+      }
+
+      if (j !== i + 1) break
+
+      const fromCoords = getCoordinates(from.event)
+      const toCoords = getCoordinates(to.event)
+      if (!fromCoords || !toCoords) continue
+
+      const distanceKm = haversineKm(fromCoords.lat, fromCoords.lng, toCoords.lat, toCoords.lng)
+      const travelMinutes = Math.ceil(distanceKm * minutesPerKm) + bufferMinutes
+
+      if (gapMinutes < travelMinutes) {
+        warnings.push({
+          type: 'travel_time',
+          severity: endEstimated ? 'warning' : 'error',
+          fromEventId: from.event.id,
+          toEventId: to.event.id,
+          fromEnd: from.window.end.toISOString(),
+          toStart: to.window.start.toISOString(),
+          gapMinutes,
+          distanceKm: Math.round(distanceKm * 10) / 10,
+          travelMinutes,
+          endEstimated,
+          message: `Leaves ${venueLabel(from.event)} at ${leaves}, next event starts ${starts} ${distanceKm.toFixed(1)} km away (~${travelMinutes} min needed)`,
+        })
+      }
+    }
+  }
+
+  return warnings
+}
+
+/**
+ * Group warnings by the event they affect, for per-event rendering
+ */
+export function warningsByEvent(warnings: ItineraryWarning[]): Map<string, ItineraryWarning[]> {
+  const byEvent = new Map<string, ItineraryWarning[]>()
+  for (const warning of warnings) {
+    for (const eventId of [warning.fromEventId, warning.toEventId]) {
+      const list = byEvent.get(eventId) || []
+      list.push(warning)
+      byEvent.set(eventId, list)
+    }
+  }
+  return byEvent
+}
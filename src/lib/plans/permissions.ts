@@ -0,0 +1,33 @@
+/**
+ * Plan role checks
+ *
+ * owner  - full control, including invitations and deleting the plan
+ * editor - add, edit, remove and reorder items
+ * viewer - read-only
+ */
+
+import type { PlanRole } from './types'
+
+const ROLE_RANK: Record<PlanRole, number> = {
+  viewer: 1,
+  editor: 2,
+  owner: 3,
+}
+
+export type PlanAction = 'view' | 'edit_items' | 'edit_plan' | 'invite' | 'delete'
+
+const REQUIRED_ROLE: Record<PlanAction, PlanRole> = {
+  view: 'viewer',
+  edit_items: 'editor',
+  edit_plan: 'editor',
+  invite: 'owner',
+  delete: 'owner',
+}
+
+/**
+ * Check whether a role may perform an action. A null role (not a member) may do nothing.
+ */
+export function canPerform(role: PlanRole | null, action: PlanAction): boolean {
+  if (!role) return false
+  return ROLE_RANK[role] >= ROLE_RANK[REQUIRED_ROLE[action]]
+}
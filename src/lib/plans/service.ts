@@ -0,0 +1,390 @@
+/**
+ * Plan Service - server-side data access for plans
+ *
+ * All reads and writes go through the service-role client, so every
+ * function here resolves the caller's role first and refuses actions
+ * the role does not allow.
+ */
+
+import { randomBytes } from 'crypto'
+import { getServiceSupabaseClient } from '@/lib/supabase-server'
+import { sanitizeEvent } from '@/lib/validation/sanitize'
+import { canPerform, type PlanAction } from './permissions'
+import { checkItinerary } from './itinerary'
+import type { Plan, PlanCollaborator, PlanInvitation, PlanItem, PlanRole, PlanWithDetails } from './types'
+
+export class PlanError extends Error {
+  public status: number
+
+  constructor(message: string, status: number = 400) {
+    super(message)
+    this.name = 'PlanError'
+    this.status = status
+  }
+}
+
+const INVITATION_TTL_MS = 7 * 24 * 60 * 60 * 1000
+
+/**
+ * Resolve the caller's role on a plan (null when not a member)
+ */
+export async function getPlanRole(planId: string, userId: string): Promise<{ plan: Plan; role: PlanRole | null }> {
+  const supabase = getServiceSupabaseClient()
+
+  const { data: plan, error } = await supabase
+    .from('plans')
+    .select('*')
+    .eq('id', planId)
+    .is('deleted_at', null)
+    .maybeSingle()
+
+  if (error) throw new PlanError(error.message, 500)
+  if (!plan) throw new PlanError('Plan not found', 404)
+
+  if (plan.user_id === userId) {
+    return { plan, role: 'owner' }
+  }
+
+  const { data: collaborator } = await supabase
+    .from('plan_collaborators')
+    .select('role')
+    .eq('plan_id', planId)
+    .eq('user_id', userId)
+    .not('accepted_at', 'is', null)
+    .maybeSingle()
+
+  if (collaborator) {
+    return { plan, role: collaborator.role as PlanRole }
+  }
+
+  return { plan, role: plan.is_public ? 'viewer' : null }
+}
+
+/**
+ * Throw unless the caller may perform the action on the plan
+ */
+export async function requirePlanAccess(planId: string, userId: string, action: PlanAction) {
+  const access = await getPlanRole(planId, userId)
+
+  if (!canPerform(access.role, action)) {
+    // Hide the plan's existence from non-members
+    throw access.role
+      ? new PlanError('You do not have permission to do that', 403)
+      : new PlanError('Plan not found', 404)
+  }
+
+  return access as { plan: Plan; role: PlanRole }
+}
+
+/**
+ * List plans the user owns or collaborates on
+ */
+export async function listPlans(userId: string): Promise<Array<Plan & { role: PlanRole; item_count: number }>> {
+  const supabase = getServiceSupabaseClient()
+
+  const { data: memberships } = await supabase
+    .from('plan_collaborators')
+    .select('plan_id, role')
+    .eq('user_id', userId)
+    .not('accepted_at', 'is', null)
+
+  const sharedIds = (memberships || []).map(m => m.plan_id)
+  const roleById = new Map<string, PlanRole>((memberships || []).map(m => [m.plan_id, m.role]))
+
+  let query = supabase
+    .from('plans')
+    .select('*, plan_events(count)')
+    .is('deleted_at', null)
+    .order('updated_at', { ascending: false })
+
+  query = sharedIds.length > 0
+    ? query.or(`user_id.eq.${userId},id.in.(${sharedIds.join(',')})`)
+    : query.eq('user_id', userId)
+
+  const { data, error } = await query
+  if (error) throw new PlanError(error.message, 500)
+
+  return (data || []).map(({ plan_events, ...plan }: any) => ({
+    ...plan,
+    role: plan.user_id === userId ? 'owner' : roleById.get(plan.id) || 'viewer',
+    item_count: plan_events?.[0]?.count ?? 0,
+  }))
+}
+
+/**
+ * Load a plan with its ordered items, collaborators and itinerary warnings
+ */
+export async function getPlanDetails(planId: string, userId: string): Promise<PlanWithDetails> {
+  const { plan, role } = await requirePlanAccess(planId, userId, 'view')
+  const supabase = getServiceSupabaseClient()
+
+  const [{ data: items }, { data: collaborators }] = await Promise.all([
+    supabase
+      .from('plan_events')
+      .select('*')
+      .eq('plan_id', planId)
+      .order('order_position', { ascending: true }),
+    supabase
+      .from('plan_collaborators')
+      .select('id, plan_id, user_id, role, invited_by, accepted_at')
+      .eq('plan_id', planId),
+  ])
+
+  const planItems = (items || []) as PlanItem[]
+
+  return {
+    ...plan,
+    role,
+    items: planItems,
+    collaborators: (collaborators || []) as PlanCollaborator[],
+    warnings: checkItinerary(planItems.map(item => ({ ...item.event_data, id: item.event_id }))),
+  }
+}
+
+export async function createPlan(
+  userId: string,
+  input: { name: string; description?: string; date?: string; city?: string; is_public?: boolean; notes?: string }
+): Promise<Plan> {
+  const supabase = getServiceSupabaseClient()
+
+  const { data, error } = await supabase
+    .from('plans')
+    .insert({ ...input, user_id: userId })
+    .select('*')
+    .single()
+
+  if (error) throw new PlanError(error.message, 500)
+  return data
+}
+
+export async function updatePlan(
+  planId: string,
+  userId: string,
+  updates: Partial<Pick<Plan, 'name' | 'description' | 'date' | 'city' | 'is_public' | 'notes'>>
+): Promise<Plan> {
+  const { role } = await requirePlanAccess(planId, userId, 'edit_plan')
+
+  // Visibility is the owner's call
+  if (updates.is_public !== undefined && role !== 'owner') {
+    throw new PlanError('Only the owner can change plan visibility', 403)
+  }
+
+  const { data, error } = await getServiceSupabaseClient()
+    .from('plans')
+    .update(updates)
+    .eq('id', planId)
+    .select('*')
+    .single()
+
+  if (error) throw new PlanError(error.message, 500)
+  return data
+}
+
+export async function deletePlan(planId: string, userId: string): Promise<void> {
+  await requirePlanAccess(planId, userId, 'delete')
+
+  const { error } = await getServiceSupabaseClient()
+    .from('plans')
+    .update({ deleted_at: new Date().toISOString() })
+    .eq('id', planId)
+
+  if (error) throw new PlanError(error.message, 500)
+}
+
+/**
+ * Add one of the caller's saved events to the end of a plan.
+ * The server-side saved copy wins; the client snapshot only covers saves
+ * that have not synced yet.
+ */
+export async function addPlanItemFromSavedEvent(
+  planId: string,
+  userId: string,
+  eventId: string,
+  options: { notes?: string; eventData?: Record<string, any> } = {}
+): Promise<PlanItem> {
+  await requirePlanAccess(planId, userId, 'edit_items')
+  const supabase = getServiceSupabaseClient()
+
+  const { data: saved } = await supabase
+    .from('saved_events')
+    .select('event_data')
+    .eq('user_id', userId)
+    .eq('event_id', eventId)
+    .is('deleted_at', null)
+    .maybeSingle()
+
+  const eventData = saved?.event_data || options.eventData
+  if (!eventData) {
+    throw new PlanError('Save the event before adding it to a plan', 400)
+  }
+
+  const { data: last } = await supabase
+    .from('plan_events')
+    .select('order_position')
+    .eq('plan_id', planId)
+    .order('order_position', { ascending: false })
+    .limit(1)
+    .maybeSingle()
+
+  const { data, error } = await supabase
+    .from('plan_events')
+    .insert({
+      plan_id: planId,
+      event_id: eventId,
+      event_data: sanitizeEvent({ ...eventData, id: eventId }),
+      order_position: (last?.order_position ?? -1) + 1,
+      notes: options.notes || null,
+      added_by: userId,
+    })
+    .select('*')
+    .single()
+
+  if (error) {
+    // 23505 = unique_violation on (plan_id, event_id)
+    if (error.code === '23505') throw new PlanError('Event is already in this plan', 409)
+    throw new PlanError(error.message, 500)
+  }
+
+  return data
+}
+
+export async function updatePlanItem(
+  planId: string,
+  itemId: string,
+  userId: string,
+  updates: { notes?: string | null }
+): Promise<PlanItem> {
+  await requirePlanAccess(planId, userId, 'edit_items')
+
+  const { data, error } = await getServiceSupabaseClient()
+    .from('plan_events')
+    .update(updates)
+    .eq('id', itemId)
+    .eq('plan_id', planId)
+    .select('*')
+    .maybeSingle()
+
+  if (error) throw new PlanError(error.message, 500)
+  if (!data) throw new PlanError('Plan item not found', 404)
+  return data
+}
+
+export async function removePlanItem(planId: string, itemId: string, userId: string): Promise<void> {
+  await requirePlanAccess(planId, userId, 'edit_items')
+
+  const { error } = await getServiceSupabaseClient()
+    .from('plan_events')
+    .delete()
+    .eq('id', itemId)
+    .eq('plan_id', planId)
+
+  if (error) throw new PlanError(error.message, 500)
+}
+
+/**
+ * Reorder plan items. `itemIds` must list every item in the plan exactly once.
+ */
+export async function reorderPlanItems(planId: string, userId: string, itemIds: string[]): Promise<void> {
+  await requirePlanAccess(planId, userId, 'edit_items')
+  const supabase = getServiceSupabaseClient()
+
+  const { data: existing, error } = await supabase
+    .from('plan_events')
+    .select('id')
+    .eq('plan_id', planId)
+
+  if (error) throw new PlanError(error.message, 500)
+
+  const existingIds = new Set((existing || []).map(item => item.id))
+  const uniqueIds = new Set(itemIds)
+  if (uniqueIds.size !== itemIds.length || uniqueIds.size !== existingIds.size ||
+      itemIds.some(id => !existingIds.has(id))) {
+    throw new PlanError('Item order must include every plan item exactly once', 400)
+  }
+
+  const results = await Promise.all(
+    itemIds.map((id, index) =>
+      supabase
+        .from('plan_events')
+        .update({ order_position: index })
+        .eq('id', id)
+        .eq('plan_id', planId)
+    )
+  )
+
+  const failed = results.find(result => result.error)
+  if (failed?.error) throw new PlanError(failed.error.message, 500)
+}
+
+/**
+ * Create an invitation token for an email address (owner only)
+ */
+export async function createInvitation(
+  planId: string,
+  userId: string,
+  input: { email: string; role: Exclude<PlanRole, 'owner'>; message?: string }
+): Promise<PlanInvitation> {
+  await requirePlanAccess(planId, userId, 'invite')
+
+  const { data, error } = await getServiceSupabaseClient()
+    .from('plan_invitations')
+    .insert({
+      plan_id: planId,
+      email: input.email.toLowerCase(),
+      role: input.role,
+      message: input.message || null,
+      invited_by: userId,
+      invitation_token: randomBytes(24).toString('base64url'),
+      expires_at: new Date(Date.now() + INVITATION_TTL_MS).toISOString(),
+    })
+    .select('*')
+    .single()
+
+  if (error) throw new PlanError(error.message, 500)
+  return data
+}
+
+/**
+ * Accept an invitation token, adding the caller as a collaborator
+ */
+export async function acceptInvitation(token: string, userId: string): Promise<{ planId: string; role: PlanRole }> {
+  const supabase = getServiceSupabaseClient()
+
+  const { data: invitation } = await supabase
+    .from('plan_invitations')
+    .select('*')
+    .eq('invitation_token', token)
+    .maybeSingle()
+
+  if (!invitation) throw new PlanError('Invitation not found', 404)
+  if (invitation.accepted_at) throw new PlanError('Invitation has already been used', 410)
+  if (new Date(invitation.expires_at).getTime() < Date.now()) {
+    throw new PlanError('Invitation has expired', 410)
+  }
+
+  const { plan, role: currentRole } = await getPlanRole(invitation.plan_id, userId)
+
+  // Owners and existing members keep their role; invitations never downgrade
+  if (plan.user_id !== userId && currentRole !== 'editor') {
+    const now = new Date().toISOString()
+    const { error } = await supabase
+      .from('plan_collaborators')
+      .upsert({
+        plan_id: invitation.plan_id,
+        user_id: userId,
+        role: invitation.role,
+        invited_by: invitation.invited_by,
+        accepted_at: now,
+      }, { onConflict: 'plan_id,user_id' })
+
+    if (error) throw new PlanError(error.message, 500)
+  }
+
+  await supabase
+    .from('plan_invitations')
+    .update({ accepted_at: new Date().toISOString(), accepted_by_user_id: userId })
+    .eq('id', invitation.id)
+
+  const { role } = await getPlanRole(invitation.plan_id, userId)
+  return { planId: invitation.plan_id, role: role || invitation.role }
+}
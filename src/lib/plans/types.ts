@@ -0,0 +1,59 @@
+/**
+ * Plan types shared by the /api/plans routes and the plan pages
+ */
+
+import type { ItineraryWarning } from './itinerary'
+
+export type PlanRole = 'owner' | 'editor' | 'viewer'
+
+export interface PlanItem {
+  id: string
+  plan_id: string
+  event_id: string
+  event_data: Record<string, any>
+  order_position: number
+  notes: string | null
+  added_by: string | null
+  created_at: string
+}
+
+export interface PlanCollaborator {
+  id: string
+  plan_id: string
+  user_id: string
+  role: PlanRole
+  invited_by: string | null
+  accepted_at: string | null
+}
+
+export interface PlanInvitation {
+  id: string
+  plan_id: string
+  email: string
+  invited_by: string
+  invitation_token: string
+  role: Exclude<PlanRole, 'owner'>
+  message: string | null
+  expires_at: string
+  accepted_at: string | null
+}
+
+export interface Plan {
+  id: string
+  user_id: string
+  name: string
+  description: string | null
+  date: string | null
+  city: string | null
+  is_public: boolean
+  notes: string | null
+  created_at: string
+  updated_at: string
+}
+
+export interface PlanWithDetails extends Plan {
+  role: PlanRole
+  items: PlanItem[]
+  collaborators: PlanCollaborator[]
+  warnings: ItineraryWarning[]
+}
@@ -1,86 +1,131 @@
 /**
- * In-Memory Query Cache for Database Results
+ * Query Cache for Database Results
  *
- * Simple LRU cache with TTL for frequently accessed data.
+ * TTL cache for frequently accessed data, kept in the shared cache store so
+ * every instance sees the same entries when Redis is configured.
  * Reduces database load and improves API response times.
  *
  * Usage:
- *   const cached = queryCache.get('key')
+ *   const cached = await queryCache.get('key')
  *   if (cached) return cached
  *
  *   const data = await fetchFromDatabase()
- *   queryCache.set('key', data, 60) // 60 second TTL
+ *   await queryCache.set('key', data, 60) // 60 second TTL
  *   return data
+ *
+ * Entries can be tagged with what they depend on (see lib/cache/tags); code
+ * that writes events publishes the affected tags and tagged entries fetched
+ * before that are dropped on their next read.
+ *
+ * Cache failures are logged and treated as misses; they never fail a request.
  */
 
-interface CacheEntry<T> {
+import { getCacheStore, type CacheStore } from '@/lib/cache'
+import { affectedTags, type TaggedEvent } from '@/lib/cache/tags'
+
+// Query results share the store with rate limits; this keeps them apart
+const KEY_PREFIX = 'query:'
+const TAG_PREFIX = 'tag:'
+
+// A tag remembers its last invalidation for longer than any entry lives
+const TAG_TTL_MS = 24 * 60 * 60 * 1000
+
+// Instance clocks drift; entries fetched this close after an invalidation count as stale
+const CLOCK_SKEW_MS = 1000
+
+interface CachedEntry<T> {
   data: T
-  expiresAt: number
+  tags: string[]
+  fetchedAt: number
+}
+
+export interface CacheSetOptions {
+  /** What the entry depends on; any of them being invalidated drops it */
+  tags?: string[]
+  /** When the data was read (epoch ms). Take it before querying so an invalidation mid-query is not lost. */
+  fetchedAt?: number
 }
 
-class QueryCache {
-  private cache: Map<string, CacheEntry<any>>
-  private maxSize: number
-  private cleanupIntervalMs: number
-  private cleanupTimer: NodeJS.Timeout | null = null
-
-  constructor(maxSize = 1000, cleanupIntervalMs = 60000) {
-    this.cache = new Map()
-    this.maxSize = maxSize
-    this.cleanupIntervalMs = cleanupIntervalMs
-    this.startCleanup()
+export class QueryCache {
+  constructor(
+    private storeOverride?: CacheStore,
+    private now: () => number = Date.now
+  ) {}
+
+  private get store(): CacheStore {
+    return this.storeOverride || getCacheStore()
   }
 
   /**
    * Get cached value if not expired
    */
-  get<T>(key: string): T | null {
-    const entry = this.cache.get(key)
-
-    if (!entry) {
+  async get<T>(key: string): Promise<T | null> {
+    try {
+      const raw = await this.store.get(KEY_PREFIX + key)
+      if (raw === null) return null
+
+      const entry = JSON.parse(raw) as CachedEntry<T>
+      if (entry.tags.length > 0 && await this.isStale(entry)) {
+        await this.store.delete(KEY_PREFIX + key)
+        return null
+      }
+      return entry.data
+    } catch (error) {
+      console.warn(`⚠️ Query cache read failed for ${key}:`, error)
       return null
     }
+  }
 
-    // Check if expired
-    if (Date.now() > entry.expiresAt) {
-      this.cache.delete(key)
-      return null
+  /**
+   * Set cache value with TTL in seconds
+   */
+  async set<T>(key: string, data: T, ttlSeconds: number, options: CacheSetOptions = {}): Promise<void> {
+    const entry: CachedEntry<T> = {
+      data,
+      tags: options.tags || [],
+      fetchedAt: options.fetchedAt ?? this.now()
     }
 
-    return entry.data as T
+    try {
+      await this.store.set(KEY_PREFIX + key, JSON.stringify(entry), ttlSeconds * 1000)
+    } catch (error) {
+      console.warn(`⚠️ Query cache write failed for ${key}:`, error)
+    }
   }
 
   /**
-   * Set cache value with TTL in seconds
+   * Mark every entry tagged with any of these tags as stale
    */
-  set<T>(key: string, data: T, ttlSeconds: number): void {
-    // Evict oldest entry if cache is full
-    if (this.cache.size >= this.maxSize && !this.cache.has(key)) {
-      const firstKey = this.cache.keys().next().value
-      if (firstKey) {
-        this.cache.delete(firstKey)
-      }
+  async invalidateTags(tags: string[]): Promise<void> {
+    if (tags.length === 0) return
+    const now = this.now().toString()
+
+    try {
+      await Promise.all(tags.map(tag => this.store.set(TAG_PREFIX + tag, now, TAG_TTL_MS)))
+    } catch (error) {
+      console.error(`❌ Failed to invalidate cache tags ${tags.join(', ')}:`, error)
     }
-
-    const expiresAt = Date.now() + (ttlSeconds * 1000)
-    this.cache.set(key, { data, expiresAt })
   }
 
   /**
    * Delete a specific cache entry
    */
-  delete(key: string): boolean {
-    return this.cache.delete(key)
+  async delete(key: string): Promise<boolean> {
+    try {
+      return await this.store.delete(KEY_PREFIX + key)
+    } catch (error) {
+      console.warn(`⚠️ Query cache delete failed for ${key}:`, error)
+      return false
+    }
   }
 
   /**
    * Delete all cache entries matching a pattern
    */
-  deletePattern(pattern: RegExp): number {
+  async deletePattern(pattern: RegExp): Promise<number> {
     let deleted = 0
-    for (const key of this.cache.keys()) {
-      if (pattern.test(key)) {
-        this.cache.delete(key)
+    for (const key of await this.keys()) {
+      if (pattern.test(key) && await this.delete(key)) {
         deleted++
       }
     }
@@ -90,54 +135,36 @@ class QueryCache {
   /**
    * Clear all cache entries
    */
-  clear(): void {
-    this.cache.clear()
+  async clear(): Promise<void> {
+    for (const key of await this.keys()) {
+      await this.delete(key)
+    }
   }
 
   /**
    * Get cache statistics
    */
-  getStats() {
+  async getStats() {
+    const entries = await this.keys()
     return {
-      size: this.cache.size,
-      maxSize: this.maxSize,
-      entries: Array.from(this.cache.keys())
+      backend: this.store.backend,
+      size: entries.length,
+      entries
     }
   }
 
-  /**
-   * Cleanup expired entries periodically
-   */
-  private startCleanup(): void {
-    this.cleanupTimer = setInterval(() => {
-      const now = Date.now()
-      let cleaned = 0
-
-      for (const [key, entry] of this.cache.entries()) {
-        if (now > entry.expiresAt) {
-          this.cache.delete(key)
-          cleaned++
-        }
-      }
-
-      if (cleaned > 0) {
-        console.log(`🧹 Cache cleanup: removed ${cleaned} expired entries`)
-      }
-    }, this.cleanupIntervalMs)
-
-    // Prevent the timer from keeping the process alive
-    if (this.cleanupTimer.unref) {
-      this.cleanupTimer.unref()
-    }
+  private async isStale(entry: CachedEntry<unknown>): Promise<boolean> {
+    const invalidatedAt = await this.store.getMany(entry.tags.map(tag => TAG_PREFIX + tag))
+    return invalidatedAt.some(time => time !== null && Number(time) + CLOCK_SKEW_MS >= entry.fetchedAt)
   }
 
-  /**
-   * Stop cleanup timer (for testing or graceful shutdown)
-   */
-  stopCleanup(): void {
-    if (this.cleanupTimer) {
-      clearInterval(this.cleanupTimer)
-      this.cleanupTimer = null
+  private async keys(): Promise<string[]> {
+    try {
+      const keys = await this.store.keys(`${KEY_PREFIX}*`)
+      return keys.map(key => key.slice(KEY_PREFIX.length))
+    } catch (error) {
+      console.warn('⚠️ Query cache key scan failed:', error)
+      return []
     }
   }
 }
@@ -168,19 +195,21 @@ export const CACHE_TTL = {
 export async function withCache<T>(
   key: string,
   ttlSeconds: number,
-  fetchFn: () => Promise<T>
+  fetchFn: () => Promise<T>,
+  tags: string[] = []
 ): Promise<T> {
   // Try to get from cache
-  const cached = queryCache.get<T>(key)
+  const cached = await queryCache.get<T>(key)
   if (cached !== null) {
     return cached
   }
 
   // Fetch from database
+  const fetchedAt = Date.now()
   const data = await fetchFn()
 
   // Store in cache
-  queryCache.set(key, data, ttlSeconds)
+  await queryCache.set(key, data, ttlSeconds, { tags, fetchedAt })
 
   return data
 }
@@ -188,13 +217,22 @@ export async function withCache<T>(
 /**
  * Invalidate cache entries for a specific resource
  */
-export function invalidateCache(pattern: string | RegExp): void {
+export async function invalidateCache(pattern: string | RegExp): Promise<void> {
   if (typeof pattern === 'string') {
-    queryCache.delete(pattern)
+    await queryCache.delete(pattern)
   } else {
-    queryCache.deletePattern(pattern)
+    await queryCache.deletePattern(pattern)
   }
 }
 
+/**
+ * Publish invalidations for events that were just written, so listings that
+ * could include them are refetched instead of served until their TTL runs out
+ */
+export async function invalidateEvents(events: TaggedEvent[]): Promise<void> {
+  if (events.length === 0) return
+  await queryCache.invalidateTags(affectedTags(events))
+}
+
 // Export for testing and monitoring
 export default queryCache
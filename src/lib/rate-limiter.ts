@@ -1,9 +1,13 @@
 /**
  * Advanced Rate Limiter
- * Implements token bucket and sliding window algorithms for API rate limiting
+ * Implements token bucket and sliding window algorithms for API rate limiting.
+ * Token buckets keep their state in the shared cache store, so a budget holds
+ * across every instance when Redis is configured.
  */
 
-interface RateLimitConfig {
+import { getCacheStore, type CacheStore, type TokenBucket, type TokenBucketResult } from '@/lib/cache'
+
+export interface RateLimitConfig {
   /** Maximum requests allowed in the time window */
   maxRequests: number
   /** Time window in milliseconds */
@@ -16,7 +20,7 @@ interface RateLimitConfig {
   adaptive?: boolean
 }
 
-interface RateLimitStatus {
+export interface RateLimitStatus {
   remaining: number
   resetAt: number
   retryAfter?: number
@@ -34,29 +38,32 @@ interface QueuedRequest {
  * Allows bursts while maintaining average rate
  */
 export class TokenBucketRateLimiter {
-  private tokens: number
-  private lastRefill: number
   private queue: QueuedRequest[] = []
   private processing = false
 
   constructor(
     private config: RateLimitConfig,
-    private identifier: string = 'default'
-  ) {
-    this.tokens = config.maxRequests
-    this.lastRefill = Date.now()
+    private identifier: string = 'default',
+    private storeOverride?: CacheStore
+  ) {}
+
+  private get store(): CacheStore {
+    return this.storeOverride || getCacheStore()
+  }
+
+  private get key(): string {
+    return `ratelimit:${this.identifier}`
+  }
+
+  private get bucket(): TokenBucket {
+    return { capacity: this.config.maxRequests, windowMs: this.config.windowMs }
   }
 
   /**
-   * Refill tokens based on time elapsed
+   * Take a token if one is available, without waiting for one
    */
-  private refillTokens(): void {
-    const now = Date.now()
-    const timePassed = now - this.lastRefill
-    const tokensToAdd = (timePassed / this.config.windowMs) * this.config.maxRequests
-
-    this.tokens = Math.min(this.config.maxRequests, this.tokens + tokensToAdd)
-    this.lastRefill = now
+  async tryAcquire(): Promise<TokenBucketResult> {
+    return this.store.takeTokens(this.key, this.bucket, 1)
   }
 
   /**
@@ -80,58 +87,48 @@ export class TokenBucketRateLimiter {
 
     this.processing = true
 
-    while (this.queue.length > 0) {
-      this.refillTokens()
-
-      if (this.tokens >= 1) {
-        const request = this.queue.shift()!
-        this.tokens -= 1
+    try {
+      while (this.queue.length > 0) {
+        const taken = await this.tryAcquire()
 
-        // Apply minimum interval if configured
-        if (this.config.minRequestInterval) {
-          await this.sleep(this.config.minRequestInterval)
-        }
+        if (taken.allowed) {
+          const request = this.queue.shift()!
 
-        request.resolve({
-          remaining: Math.floor(this.tokens),
-          resetAt: this.lastRefill + this.config.windowMs,
-        })
-      } else {
-        // Not enough tokens, calculate wait time
-        const timeUntilNextToken =
-          this.config.windowMs - (Date.now() - this.lastRefill)
+          // Apply minimum interval if configured
+          if (this.config.minRequestInterval) {
+            await this.sleep(this.config.minRequestInterval)
+          }
 
-        if (timeUntilNextToken > 0) {
-          await this.sleep(Math.min(timeUntilNextToken, 1000))
+          request.resolve({ remaining: taken.remaining, resetAt: taken.resetAt })
+        } else {
+          // Not enough tokens; another instance may be drawing on the same bucket
+          await this.sleep(Math.min(taken.retryAfter ?? 1000, 1000))
         }
       }
+    } catch (error) {
+      // The store is unreachable; fail everything waiting rather than hang
+      const queued = this.queue
+      this.queue = []
+      queued.forEach(request => request.reject(error as Error))
+    } finally {
+      this.processing = false
     }
-
-    this.processing = false
   }
 
   /**
    * Get current rate limit status
    */
-  getStatus(): RateLimitStatus {
-    this.refillTokens()
-    const resetAt = this.lastRefill + this.config.windowMs
-    const retryAfter = this.tokens < 1 ? resetAt - Date.now() : undefined
-
-    return {
-      remaining: Math.floor(this.tokens),
-      resetAt,
-      retryAfter,
-    }
+  async getStatus(): Promise<RateLimitStatus> {
+    const { remaining, resetAt, retryAfter } = await this.store.takeTokens(this.key, this.bucket, 0)
+    return { remaining, resetAt, retryAfter }
   }
 
   /**
    * Reset rate limiter
    */
-  reset(): void {
-    this.tokens = this.config.maxRequests
-    this.lastRefill = Date.now()
+  async reset(): Promise<void> {
     this.queue = []
+    await this.store.delete(this.key)
   }
 
   private sleep(ms: number): Promise<void> {
@@ -342,7 +339,7 @@ export class RateLimiterManager {
   /**
    * Get status for an API
    */
-  getStatus(apiName: string): RateLimitStatus | null {
+  async getStatus(apiName: string): Promise<RateLimitStatus | null> {
     const limiter = this.limiters.get(apiName)
     return limiter ? limiter.getStatus() : null
   }
@@ -350,28 +347,28 @@ export class RateLimiterManager {
   /**
    * Reset a specific limiter
    */
-  reset(apiName: string): void {
+  async reset(apiName: string): Promise<void> {
     const limiter = this.limiters.get(apiName)
     if (limiter) {
-      limiter.reset()
+      await limiter.reset()
     }
   }
 
   /**
    * Reset all limiters
    */
-  resetAll(): void {
-    this.limiters.forEach(limiter => limiter.reset())
+  async resetAll(): Promise<void> {
+    await Promise.all(Array.from(this.limiters.values()).map(limiter => limiter.reset()))
   }
 
   /**
    * Get all limiter statuses
    */
-  getAllStatuses(): Record<string, RateLimitStatus> {
+  async getAllStatuses(): Promise<Record<string, RateLimitStatus>> {
     const statuses: Record<string, RateLimitStatus> = {}
-    this.limiters.forEach((limiter, key) => {
-      statuses[key] = limiter.getStatus()
-    })
+    for (const [key, limiter] of this.limiters.entries()) {
+      statuses[key] = await limiter.getStatus()
+    }
     return statuses
   }
 }
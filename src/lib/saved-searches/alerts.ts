@@ -0,0 +1,184 @@
+/**
+ * Saved search alerts
+ * Re-runs saved searches against events ingested since each search was
+ * last checked, records new matches once, and sends each search's unsent
+ * matches when its frequency allows. Run by /api/cron/saved-searches.
+ */
+
+import { getServiceSupabaseClient } from '@/lib/supabase-server'
+import { sendSavedSearchAlert } from '@/lib/email'
+import { notifyUser } from '@/lib/notifications/deliver'
+import { describeCriteria, describeMatch, isAlertDue, matchesSavedSearch } from './match'
+import { SAVED_SEARCH_COLUMNS, type SavedSearchRow } from './service'
+import type { SearchableEvent } from './types'
+
+export interface SavedSearchRunResult {
+  searches: number
+  matched: number
+  notified: number
+  failed: number
+}
+
+interface PendingMatchRow {
+  event_id: string
+  events: { id: string; title: string; date: string | null; venue_name: string | null; image_url: string | null }
+}
+
+// Searches checked per run, least recently checked first
+const DEFAULT_BATCH_SIZE = 200
+
+// Newly ingested events read per run; a bigger backlog drains over a few runs
+const MAX_NEW_EVENTS = 2000
+
+// Matches listed in one push notification
+const PUSH_MATCH_LINES = 4
+
+const EVENT_COLUMNS = 'id, title, description, category, venue_name, date, time, timezone, price_min, latitude, longitude, created_at'
+
+async function notifySearch(search: SavedSearchRow, matches: PendingMatchRow['events'][]): Promise<boolean> {
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL || 'https://scenescout.app'
+  const path = `/search?q=${encodeURIComponent(search.criteria.query)}`
+  const lines = matches.map(describeMatch)
+  const title = `${matches.length} new ${matches.length === 1 ? 'match' : 'matches'} for ${search.name}`
+
+  return notifyUser(search.user_id, {
+    title: `🔎 ${title}`,
+    body: [
+      ...lines.slice(0, PUSH_MATCH_LINES),
+      ...(lines.length > PUSH_MATCH_LINES ? [`and ${lines.length - PUSH_MATCH_LINES} more`] : [])
+    ].join('\n'),
+    icon: matches.find(match => match.image_url)?.image_url || '/icon-192x192.png',
+    data: {
+      searchId: search.id,
+      url: path,
+      type: 'saved-search'
+    }
+  }, contact => sendSavedSearchAlert(contact.email, contact.name, {
+    searchName: search.name,
+    summary: describeCriteria(search.criteria),
+    matches: matches.map((match, index) => ({ label: lines[index], url: `${appUrl}/events/${match.id}` })),
+    searchUrl: `${appUrl}${path}`,
+    settingsUrl: `${appUrl}/settings`
+  }))
+}
+
+/**
+ * Send a search's unsent matches that are still upcoming, and mark them sent
+ */
+async function sendPendingMatches(search: SavedSearchRow, now: Date): Promise<boolean> {
+  const supabase = getServiceSupabaseClient()
+
+  const { data, error } = await supabase
+    .from('saved_search_matches')
+    .select('event_id, events!inner(id, title, date, venue_name, image_url)')
+    .eq('search_id', search.id)
+    .is('notified_at', null)
+    .gte('events.date', now.toISOString().split('T')[0])
+    .order('matched_at', { ascending: true })
+
+  if (error) throw new Error(`Failed to load matches: ${error.message}`)
+
+  const rows = (data || []) as unknown as PendingMatchRow[]
+  if (rows.length === 0) return false
+
+  const matches = rows
+    .map(row => row.events)
+    .sort((a, b) => (a.date || '9999').localeCompare(b.date || '9999'))
+  const notified = await notifySearch(search, matches)
+
+  // Marked either way, so a user with nowhere to deliver to is not retried forever
+  const { error: markError } = await supabase
+    .from('saved_search_matches')
+    .update({ notified_at: now.toISOString() })
+    .eq('search_id', search.id)
+    .in('event_id', rows.map(row => row.event_id))
+
+  if (markError) throw new Error(`Failed to mark matches sent: ${markError.message}`)
+
+  const { error: searchError } = await supabase
+    .from('saved_searches')
+    .update({ last_notified_at: now.toISOString() })
+    .eq('id', search.id)
+
+  if (searchError) throw new Error(`Failed to update saved search: ${searchError.message}`)
+
+  return notified
+}
+
+/**
+ * Match newly ingested events against saved searches and send due alerts
+ */
+export async function runSavedSearches(options: { limit?: number; now?: Date } = {}): Promise<SavedSearchRunResult> {
+  const supabase = getServiceSupabaseClient()
+  const now = options.now || new Date()
+  const result: SavedSearchRunResult = { searches: 0, matched: 0, notified: 0, failed: 0 }
+
+  const { data: searchData, error: searchError } = await supabase
+    .from('saved_searches')
+    .select(SAVED_SEARCH_COLUMNS)
+    .order('last_checked_at', { ascending: true, nullsFirst: true })
+    .limit(options.limit || DEFAULT_BATCH_SIZE)
+
+  if (searchError) throw new Error(`Failed to load saved searches: ${searchError.message}`)
+
+  const searches = (searchData || []) as SavedSearchRow[]
+  result.searches = searches.length
+  if (searches.length === 0) return result
+
+  const checkpointOf = (search: SavedSearchRow) => search.last_checked_at || search.created_at
+  const oldest = searches.map(checkpointOf).sort()[0]
+
+  const { data: eventData, error: eventError } = await supabase
+    .from('events')
+    .select(EVENT_COLUMNS)
+    .gt('created_at', oldest)
+    .gte('date', now.toISOString().split('T')[0])
+    .order('created_at', { ascending: true })
+    .limit(MAX_NEW_EVENTS)
+
+  if (eventError) throw new Error(`Failed to load new events: ${eventError.message}`)
+
+  const events = (eventData || []) as SearchableEvent[]
+  // With a capped read, only advance as far as the events actually seen
+  const checkedUntil = events.length === MAX_NEW_EVENTS ? events[events.length - 1].created_at! : now.toISOString()
+
+  for (const search of searches) {
+    try {
+      const checkpoint = new Date(checkpointOf(search)).getTime()
+      const matches = events.filter(event =>
+        new Date(event.created_at!).getTime() > checkpoint &&
+        matchesSavedSearch(event, search.criteria, now)
+      )
+
+      if (matches.length > 0) {
+        // Events re-ingested after a match are not matched (or sent) again
+        const { data: inserted, error: matchError } = await supabase
+          .from('saved_search_matches')
+          .upsert(matches.map(event => ({ search_id: search.id, event_id: event.id })), {
+            onConflict: 'search_id,event_id',
+            ignoreDuplicates: true
+          })
+          .select('event_id')
+
+        if (matchError) throw new Error(`Failed to record matches: ${matchError.message}`)
+        result.matched += (inserted || []).length
+      }
+
+      const { error: checkError } = await supabase
+        .from('saved_searches')
+        .update({ last_checked_at: checkedUntil })
+        .eq('id', search.id)
+
+      if (checkError) throw new Error(`Failed to checkpoint saved search: ${checkError.message}`)
+
+      if (isAlertDue(search.frequency, search.last_notified_at, now) && await sendPendingMatches(search, now)) {
+        result.notified++
+      }
+    } catch (error: any) {
+      console.error(`❌ Saved search ${search.id} failed:`, error.message)
+      result.failed++
+    }
+  }
+
+  return result
+}
@@ -0,0 +1,64 @@
+/**
+ * Browser helpers for the /api/saved-searches routes
+ * Attaches the current Supabase session token to every request.
+ */
+
+import { createClient } from '@/lib/supabase/client'
+import type { AlertFrequency, SavedSearch, SavedSearchCriteria } from './types'
+
+async function savedSearchesFetch<T>(path: string, init: RequestInit = {}): Promise<T> {
+  const supabase = createClient()
+  const { data: { session } } = await supabase.auth.getSession()
+
+  if (!session) {
+    throw new Error('Please log in to save searches')
+  }
+
+  const response = await fetch(path, {
+    ...init,
+    headers: {
+      'Authorization': `Bearer ${session.access_token}`,
+      'Content-Type': 'application/json',
+      ...init.headers,
+    },
+  })
+
+  const body = await response.json().catch(() => ({}))
+  if (!response.ok) {
+    throw new Error(body.error || `Request failed (${response.status})`)
+  }
+
+  return body as T
+}
+
+export async function fetchSavedSearches(): Promise<SavedSearch[]> {
+  const { searches } = await savedSearchesFetch<{ searches: SavedSearch[] }>('/api/saved-searches')
+  return searches
+}
+
+export async function createSavedSearch(input: {
+  name: string
+  criteria: SavedSearchCriteria
+  frequency: AlertFrequency
+}): Promise<SavedSearch> {
+  const { search } = await savedSearchesFetch<{ search: SavedSearch }>('/api/saved-searches', {
+    method: 'POST',
+    body: JSON.stringify(input),
+  })
+  return search
+}
+
+export async function updateSavedSearch(
+  searchId: string,
+  updates: { name?: string; criteria?: SavedSearchCriteria; frequency?: AlertFrequency }
+): Promise<SavedSearch> {
+  const { search } = await savedSearchesFetch<{ search: SavedSearch }>(`/api/saved-searches/${searchId}`, {
+    method: 'PATCH',
+    body: JSON.stringify(updates),
+  })
+  return search
+}
+
+export async function deleteSavedSearch(searchId: string): Promise<void> {
+  await savedSearchesFetch(`/api/saved-searches/${searchId}`, { method: 'DELETE' })
+}
@@ -0,0 +1,46 @@
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+
+export const MAX_SAVED_SEARCHES = 25
+
+const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Date must be YYYY-MM-DD')
+
+export const frequencySchema = z.enum(['instant', 'daily', 'weekly'])
+
+/**
+ * What a saved search stores; see SavedSearchCriteria. Every field is
+ * required (null when unset) so stored criteria always have the same shape.
+ */
+export const criteriaSchema = z.object({
+  query: z.string().trim().min(1, 'Search query cannot be empty').max(100, 'Search query too long'),
+  category: z.string().trim().min(1).max(50, 'Category too long').nullable(),
+  priceMin: z.number().min(0).max(10000).nullable(),
+  priceMax: z.number().min(0).max(10000).nullable(),
+  location: z.object({
+    lat: z.number().min(-90).max(90),
+    lng: z.number().min(-180).max(180),
+    radiusKm: z.number().min(0.5, 'Radius must be at least 0.5 km').max(200, 'Radius cannot exceed 200 km'),
+    label: z.string().trim().max(100, 'Location name too long').nullable(),
+  }).nullable(),
+  withinDays: z.number().int().min(0).max(365).nullable(),
+  dateFrom: dateSchema.nullable(),
+  dateTo: dateSchema.nullable(),
+  chips: z.object({
+    tonight: z.boolean().optional(),
+    now: z.boolean().optional(),
+    near: z.boolean().optional(),
+    free: z.boolean().optional(),
+  }),
+})
+  .refine(c => c.priceMin === null || c.priceMax === null || c.priceMin <= c.priceMax, 'Minimum price is above the maximum')
+  .refine(c => !c.dateFrom || !c.dateTo || c.dateFrom <= c.dateTo, 'Start date is after the end date')
+  .refine(c => !c.chips.near || c.location !== null, '"Near me" needs a location')
+
+export const savedSearchIdSchema = z.string().uuid()
+
+export function savedSearchNotFoundResponse(): NextResponse {
+  return NextResponse.json(
+    { success: false, error: 'Saved search not found' },
+    { status: 404 }
+  )
+}
@@ -0,0 +1,170 @@
+/**
+ * Saved search matching
+ * Decides whether a stored event matches a saved search, when a search's
+ * alerts are due, and how a search reads in lists and notifications.
+ */
+
+import { addDays, format, parseISO } from 'date-fns'
+import { formatInTimeZone } from 'date-fns-tz'
+import { applyChipFilters, haversineKm } from '@/lib/filters/applyChips'
+import { resolveTimeZone, wallTimeToUtc } from '@/lib/calendar/timezone'
+import type { AlertFrequency, SavedSearchCriteria, SearchableEvent } from './types'
+
+const HOUR_MS = 60 * 60 * 1000
+
+// Minimum time between alerts; an hour short so a cron drifting late does not skip a run
+const ALERT_INTERVAL_MS: Record<AlertFrequency, number> = {
+  instant: 0,
+  daily: 23 * HOUR_MS,
+  weekly: 7 * 24 * HOUR_MS - HOUR_MS
+}
+
+// The walking distance QuickChips' "Near me" uses on the feed
+const NEAR_MAX_WALK_MIN = 20
+
+/**
+ * Criteria that match on the search text alone
+ */
+export function emptyCriteria(query: string): SavedSearchCriteria {
+  return {
+    query,
+    category: null,
+    priceMin: null,
+    priceMax: null,
+    location: null,
+    withinDays: null,
+    dateFrom: null,
+    dateTo: null,
+    chips: {}
+  }
+}
+
+function words(text: string): string[] {
+  return text.toLowerCase().split(/\s+/).filter(Boolean)
+}
+
+// Stored events keep a local date and time apart; the chips read one start instant
+function eventStart(event: SearchableEvent, timezone: string): string | null {
+  if (!event.date) return null
+  const [year, month, day] = event.date.slice(0, 10).split('-').map(Number)
+  const [hour, minute] = event.time ? event.time.split(':').map(Number) : [0, 0]
+  return wallTimeToUtc({ year, month, day, hour, minute }, timezone).toISOString()
+}
+
+function matchesChips(event: SearchableEvent, criteria: SavedSearchCriteria, now: Date): boolean {
+  const { chips, location } = criteria
+  if (!chips.tonight && !chips.now && !chips.free && !chips.near) return true
+
+  const timezone = resolveTimeZone(event.timezone)
+  const [year, month, day] = formatInTimeZone(now, timezone, 'yyyy-M-d').split('-').map(Number)
+
+  return applyChipFilters([{ ...event, event_date: eventStart(event, timezone) }], chips, {
+    tz: timezone,
+    todayStartIsoUtc: wallTimeToUtc({ year, month, day }, timezone).toISOString(),
+    todayEndIsoUtc: wallTimeToUtc({ year, month, day: day + 1 }, timezone).toISOString(),
+    userLat: location?.lat,
+    userLng: location?.lng,
+    maxWalkMin: NEAR_MAX_WALK_MIN,
+    now
+  }).length > 0
+}
+
+/**
+ * Whether a stored event matches a saved search. Filters the event has no
+ * data for (no price, no coordinates, no date) do not match.
+ */
+export function matchesSavedSearch(event: SearchableEvent, criteria: SavedSearchCriteria, now: Date = new Date()): boolean {
+  const haystack = [event.title, event.description, event.venue_name, event.category]
+    .filter(Boolean)
+    .join(' ')
+    .toLowerCase()
+  if (!words(criteria.query).every(word => haystack.includes(word))) return false
+
+  if (criteria.category) {
+    const eventCategory = event.category?.toLowerCase() || ''
+    const category = criteria.category.toLowerCase()
+    if (!eventCategory || (!eventCategory.includes(category) && !category.includes(eventCategory))) return false
+  }
+
+  if (criteria.priceMin !== null || criteria.priceMax !== null) {
+    if (typeof event.price_min !== 'number') return false
+    if (criteria.priceMin !== null && event.price_min < criteria.priceMin) return false
+    if (criteria.priceMax !== null && event.price_min > criteria.priceMax) return false
+  }
+
+  if (criteria.location) {
+    const { lat, lng, radiusKm } = criteria.location
+    if (event.latitude == null || event.longitude == null) return false
+    if (haversineKm(lat, lng, event.latitude, event.longitude) > radiusKm) return false
+  }
+
+  if (criteria.withinDays !== null || criteria.dateFrom || criteria.dateTo) {
+    if (!event.date) return false
+    const date = event.date.slice(0, 10)
+    if (criteria.withinDays !== null && date > format(addDays(now, criteria.withinDays), 'yyyy-MM-dd')) return false
+    if (criteria.dateFrom && date < criteria.dateFrom) return false
+    if (criteria.dateTo && date > criteria.dateTo) return false
+  }
+
+  return matchesChips(event, criteria, now)
+}
+
+/**
+ * Whether a search with this frequency may alert again
+ */
+export function isAlertDue(frequency: AlertFrequency, lastNotifiedAt: string | null, now: Date = new Date()): boolean {
+  if (!lastNotifiedAt) return true
+  return now.getTime() - new Date(lastNotifiedAt).getTime() >= ALERT_INTERVAL_MS[frequency]
+}
+
+function describePrice(min: number | null, max: number | null): string | null {
+  if (max === null) return min ? `$${min}+` : null
+  if (max === 0) return 'Free'
+  if (!min) return `Under $${max}`
+  return `$${min}–$${max}`
+}
+
+function describeDates(criteria: SavedSearchCriteria): string | null {
+  if (criteria.withinDays !== null) {
+    return criteria.withinDays === 0 ? 'Today' : `Next ${criteria.withinDays} ${criteria.withinDays === 1 ? 'day' : 'days'}`
+  }
+  const day = (date: string) => format(parseISO(date), 'MMM d')
+  if (criteria.dateFrom && criteria.dateTo) return `${day(criteria.dateFrom)} – ${day(criteria.dateTo)}`
+  if (criteria.dateFrom) return `From ${day(criteria.dateFrom)}`
+  if (criteria.dateTo) return `Until ${day(criteria.dateTo)}`
+  return null
+}
+
+/**
+ * "“jazz” · Music · Under $30 · Within 5 km of Queen West · Next 7 days · Tonight"
+ */
+export function describeCriteria(criteria: SavedSearchCriteria): string {
+  const chipLabels: Array<[keyof SavedSearchCriteria['chips'], string]> = [
+    ['tonight', 'Tonight'],
+    ['now', 'Happening now'],
+    ['near', 'Near me'],
+    ['free', 'Free']
+  ]
+  const location = criteria.location
+    ? `Within ${criteria.location.radiusKm} km${criteria.location.label ? ` of ${criteria.location.label}` : ''}`
+    : null
+
+  return [
+    `“${criteria.query}”`,
+    criteria.category,
+    describePrice(criteria.priceMin, criteria.priceMax),
+    location,
+    describeDates(criteria),
+    ...chipLabels.filter(([chip]) => criteria.chips[chip]).map(([, label]) => label)
+  ]
+    .filter(Boolean)
+    .join(' · ')
+}
+
+/**
+ * "Fri, Mar 6 · Valley at Massey Hall"
+ */
+export function describeMatch(event: Pick<SearchableEvent, 'title' | 'date' | 'venue_name'>): string {
+  const date = event.date ? format(parseISO(event.date), 'EEE, MMM d') : 'Date TBA'
+  return `${date} · ${event.title}${event.venue_name ? ` at ${event.venue_name}` : ''}`
+}
@@ -0,0 +1,127 @@
+/**
+ * Saved search store
+ * Users' saved searches, each scoped to its owner; the alert job in
+ * ./alerts reads and checkpoints them with the service role.
+ */
+
+import { getServiceSupabaseClient } from '@/lib/supabase-server'
+import type { AlertFrequency, SavedSearch, SavedSearchCriteria } from './types'
+
+export interface SavedSearchRow {
+  id: string
+  user_id: string
+  name: string
+  criteria: SavedSearchCriteria
+  frequency: AlertFrequency
+  last_checked_at: string | null
+  last_notified_at: string | null
+  created_at: string
+}
+
+export const SAVED_SEARCH_COLUMNS = 'id, user_id, name, criteria, frequency, last_checked_at, last_notified_at, created_at'
+
+export function fromSavedSearchRow(row: SavedSearchRow): SavedSearch {
+  return {
+    id: row.id,
+    name: row.name,
+    criteria: row.criteria,
+    frequency: row.frequency,
+    lastCheckedAt: row.last_checked_at,
+    lastNotifiedAt: row.last_notified_at,
+    createdAt: row.created_at
+  }
+}
+
+/**
+ * The user's saved searches, newest first
+ */
+export async function listSavedSearches(userId: string): Promise<SavedSearch[]> {
+  const supabase = getServiceSupabaseClient()
+
+  const { data, error } = await supabase
+    .from('saved_searches')
+    .select(SAVED_SEARCH_COLUMNS)
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+
+  if (error) {
+    throw new Error(`Failed to load saved searches: ${error.message}`)
+  }
+
+  return ((data || []) as SavedSearchRow[]).map(fromSavedSearchRow)
+}
+
+/**
+ * Save a search. Only events ingested from now on alert, since the user
+ * has just seen the current results.
+ */
+export async function createSavedSearch(
+  userId: string,
+  input: { name: string; criteria: SavedSearchCriteria; frequency: AlertFrequency }
+): Promise<SavedSearch> {
+  const supabase = getServiceSupabaseClient()
+
+  const { data, error } = await supabase
+    .from('saved_searches')
+    .insert({
+      user_id: userId,
+      name: input.name,
+      criteria: input.criteria,
+      frequency: input.frequency,
+      last_checked_at: new Date().toISOString()
+    })
+    .select(SAVED_SEARCH_COLUMNS)
+    .single()
+
+  if (error) {
+    throw new Error(`Failed to save search: ${error.message}`)
+  }
+
+  return fromSavedSearchRow(data as SavedSearchRow)
+}
+
+/**
+ * Rename a saved search, change its criteria or how often it alerts.
+ * Returns null when the user has no such search.
+ */
+export async function updateSavedSearch(
+  userId: string,
+  searchId: string,
+  updates: { name?: string; criteria?: SavedSearchCriteria; frequency?: AlertFrequency }
+): Promise<SavedSearch | null> {
+  const supabase = getServiceSupabaseClient()
+
+  const { data, error } = await supabase
+    .from('saved_searches')
+    .update(updates)
+    .eq('id', searchId)
+    .eq('user_id', userId)
+    .select(SAVED_SEARCH_COLUMNS)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to update saved search: ${error.message}`)
+  }
+
+  return data ? fromSavedSearchRow(data as SavedSearchRow) : null
+}
+
+/**
+ * Delete a saved search and its matches; false when the user has no such search
+ */
+export async function deleteSavedSearch(userId: string, searchId: string): Promise<boolean> {
+  const supabase = getServiceSupabaseClient()
+
+  const { data, error } = await supabase
+    .from('saved_searches')
+    .delete()
+    .eq('id', searchId)
+    .eq('user_id', userId)
+    .select('id')
+
+  if (error) {
+    throw new Error(`Failed to delete saved search: ${error.message}`)
+  }
+
+  return (data || []).length > 0
+}
@@ -0,0 +1,63 @@
+/**
+ * Saved search types shared by the saved-search APIs, the matcher and the
+ * alert job
+ *
+ * A saved search keeps what the user searched for; the alert job re-runs
+ * it against newly ingested events and notifies about matches the user
+ * has not been sent before, as often as the search's frequency allows.
+ */
+
+import type { ChipState } from '@/components/filters/QuickChips'
+
+export type AlertFrequency = 'instant' | 'daily' | 'weekly'
+
+export interface SavedSearchLocation {
+  lat: number
+  lng: number
+  radiusKm: number
+  /** What the user called the place ("Queen West"), for display */
+  label: string | null
+}
+
+export interface SavedSearchCriteria {
+  /** Search text; every word must appear in the event */
+  query: string
+  category: string | null
+  priceMin: number | null
+  priceMax: number | null
+  location: SavedSearchLocation | null
+  /** Rolling window: events in the next N days from when the search runs */
+  withinDays: number | null
+  /** Fixed window, YYYY-MM-DD inclusive */
+  dateFrom: string | null
+  dateTo: string | null
+  /** QuickChips flags; "near" uses the saved location */
+  chips: ChipState
+}
+
+export interface SavedSearch {
+  id: string
+  name: string
+  criteria: SavedSearchCriteria
+  frequency: AlertFrequency
+  /** Events ingested before this were already considered */
+  lastCheckedAt: string | null
+  lastNotifiedAt: string | null
+  createdAt: string
+}
+
+/** A stored event, as the matcher reads it */
+export interface SearchableEvent {
+  id: string
+  title: string
+  description?: string | null
+  category?: string | null
+  venue_name?: string | null
+  date?: string | null
+  time?: string | null
+  timezone?: string | null
+  price_min?: number | null
+  latitude?: number | null
+  longitude?: number | null
+  created_at?: string | null
+}
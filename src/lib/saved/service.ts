@@ -0,0 +1,136 @@
+/**
+ * Server-side saved events sync
+ * Applies queued device operations to saved_events and returns the
+ * account's current list. Used by /api/saved-events/sync.
+ * Also reads and acknowledges the change log written by ./watcher.
+ */
+
+import { getServiceSupabaseClient } from '@/lib/supabase-server'
+import { sanitizeEvent } from '@/lib/validation/sanitize'
+import { invalidateCache, CACHE_KEYS } from '@/lib/query-cache'
+import { mergeSavedOperations, type SavedOperation, type SavedRecord } from './sync'
+
+export interface SyncedSavedEvent {
+  eventId: string
+  eventData: Record<string, any>
+  changedAt: string
+}
+
+export async function applySavedEventOperations(
+  userId: string,
+  operations: SavedOperation[],
+  now: Date = new Date()
+): Promise<number> {
+  if (operations.length === 0) return 0
+
+  const supabase = getServiceSupabaseClient()
+  const eventIds = Array.from(new Set(operations.map(op => op.eventId)))
+
+  const { data: rows, error } = await supabase
+    .from('saved_events')
+    .select('event_id, event_data, changed_at, updated_at, deleted_at')
+    .eq('user_id', userId)
+    .in('event_id', eventIds)
+
+  if (error) throw new Error(`Failed to load saved events: ${error.message}`)
+
+  const existing = new Map<string, SavedRecord>()
+  for (const row of rows || []) {
+    existing.set(row.event_id, {
+      eventId: row.event_id,
+      eventData: row.event_data,
+      changedAt: row.changed_at || row.updated_at,
+      deleted: row.deleted_at !== null,
+    })
+  }
+
+  const changed = mergeSavedOperations(existing, operations, now)
+  if (changed.length === 0) return 0
+
+  const { error: upsertError } = await supabase
+    .from('saved_events')
+    .upsert(changed.map(record => ({
+      user_id: userId,
+      event_id: record.eventId,
+      event_data: sanitizeEvent(record.eventData),
+      changed_at: record.changedAt,
+      deleted_at: record.deleted ? now.toISOString() : null,
+    })), { onConflict: 'user_id,event_id' })
+
+  if (upsertError) throw new Error(`Failed to apply saved event changes: ${upsertError.message}`)
+
+  await invalidateCache(CACHE_KEYS.SAVED_EVENTS(userId))
+  return changed.length
+}
+
+export async function listSyncedSavedEvents(userId: string): Promise<SyncedSavedEvent[]> {
+  const supabase = getServiceSupabaseClient()
+
+  const { data, error } = await supabase
+    .from('saved_events')
+    .select('event_id, event_data, changed_at, updated_at')
+    .eq('user_id', userId)
+    .is('deleted_at', null)
+    .order('created_at', { ascending: false })
+
+  if (error) throw new Error(`Failed to load saved events: ${error.message}`)
+
+  return (data || []).map(row => ({
+    eventId: row.event_id,
+    eventData: sanitizeEvent(row.event_data),
+    changedAt: row.changed_at || row.updated_at,
+  }))
+}
+
+export interface SavedEventChangeNotice {
+  id: string
+  eventId: string
+  summary: string
+  material: boolean
+  detectedAt: string
+}
+
+/**
+ * Changes the user hasn't looked at yet, newest first (drives the badge)
+ */
+export async function listUnseenSavedEventChanges(userId: string): Promise<SavedEventChangeNotice[]> {
+  const supabase = getServiceSupabaseClient()
+
+  const { data, error } = await supabase
+    .from('saved_event_changes')
+    .select('id, event_id, summary, material, detected_at')
+    .eq('user_id', userId)
+    .is('seen_at', null)
+    .order('detected_at', { ascending: false })
+    .limit(100)
+
+  if (error) throw new Error(`Failed to load saved event changes: ${error.message}`)
+
+  return (data || []).map(row => ({
+    id: row.id,
+    eventId: row.event_id,
+    summary: row.summary,
+    material: row.material,
+    detectedAt: row.detected_at,
+  }))
+}
+
+/**
+ * Mark changes seen, for the given events or all of them
+ */
+export async function markSavedEventChangesSeen(userId: string, eventIds?: string[]): Promise<void> {
+  const supabase = getServiceSupabaseClient()
+
+  let query = supabase
+    .from('saved_event_changes')
+    .update({ seen_at: new Date().toISOString() })
+    .eq('user_id', userId)
+    .is('seen_at', null)
+
+  if (eventIds && eventIds.length > 0) {
+    query = query.in('event_id', eventIds)
+  }
+
+  const { error } = await query
+  if (error) throw new Error(`Failed to update saved event changes: ${error.message}`)
+}
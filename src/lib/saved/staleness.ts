@@ -0,0 +1,198 @@
+/**
+ * Saved event staleness - diff a saved snapshot against the provider's
+ * current data
+ *
+ * Only fields a user plans around are compared: when it starts, where it
+ * is, what it costs and whether it is still on. Everything else (copy,
+ * images, tags) changes too often to be worth a notification.
+ */
+
+export type ChangeField = 'start' | 'venue' | 'price' | 'status'
+
+export interface EventChange {
+  field: ChangeField
+  before: string | number | null
+  after: string | number | null
+  /** Material changes notify the user; the rest are only logged */
+  material: boolean
+}
+
+/** The comparable subset of an event, from either a snapshot or a provider */
+export interface EventSnapshot {
+  date: string | null
+  time: string | null
+  venue_name: string | null
+  address: string | null
+  price_min: number | null
+  price_max: number | null
+  status: string | null
+}
+
+// Price moves smaller than this are rounding, fees or currency noise
+export const MATERIAL_PRICE_CHANGE_RATIO = 0.1
+
+// Status recorded when the provider no longer has the event at all
+export const UNLISTED_STATUS = 'unlisted'
+
+const MATERIAL_STATUSES = new Set(['cancelled', 'postponed', 'rescheduled', UNLISTED_STATUS])
+
+/**
+ * The provider's view of an event it no longer lists: only the status is known
+ */
+export function unlistedSnapshot(): EventSnapshot {
+  return {
+    date: null,
+    time: null,
+    venue_name: null,
+    address: null,
+    price_min: null,
+    price_max: null,
+    status: UNLISTED_STATUS,
+  }
+}
+
+function normalizeTime(time: string | null | undefined): string | null {
+  if (!time) return null
+  const match = time.match(/^(\d{1,2}):(\d{2})/)
+  return match ? `${match[1].padStart(2, '0')}:${match[2]}` : null
+}
+
+function normalizeText(value: string | null | undefined): string | null {
+  const normalized = value?.trim().replace(/\s+/g, ' ').toLowerCase()
+  return normalized || null
+}
+
+function toNumber(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') return null
+  const number = typeof value === 'number' ? value : parseFloat(String(value))
+  return isNaN(number) ? null : number
+}
+
+/**
+ * Read the comparable fields from a saved_events.event_data snapshot
+ */
+export function snapshotFromEventData(eventData: Record<string, any>): EventSnapshot {
+  return {
+    date: (eventData.date || eventData.event_date || eventData.start_date || '').slice(0, 10) || null,
+    time: normalizeTime(eventData.time || eventData.start_time),
+    venue_name: eventData.venue_name || eventData.venue?.name || null,
+    address: eventData.address || eventData.venue_address || eventData.venue?.address || null,
+    price_min: toNumber(eventData.price_min),
+    price_max: toNumber(eventData.price_max),
+    status: eventData.status || null,
+  }
+}
+
+function formatStart(date: string | null, time: string | null): string | null {
+  if (!date) return null
+  return time ? `${date} ${time}` : date
+}
+
+function priceChanged(before: number | null, after: number | null): { changed: boolean; material: boolean } {
+  if (before === after) return { changed: false, material: false }
+  // A price appearing or disappearing is logged, not notified
+  if (before === null || after === null) return { changed: true, material: false }
+  const ratio = before === 0 ? 1 : Math.abs(after - before) / before
+  return { changed: true, material: ratio >= MATERIAL_PRICE_CHANGE_RATIO }
+}
+
+/**
+ * Compare the stored snapshot with the provider's current data.
+ * Fields the provider doesn't return are not treated as changes.
+ */
+export function diffSnapshots(stored: EventSnapshot, current: EventSnapshot): EventChange[] {
+  const changes: EventChange[] = []
+
+  const storedStart = formatStart(stored.date, stored.time)
+  const currentStart = formatStart(current.date, current.time ?? stored.time)
+  if (current.date && storedStart !== currentStart) {
+    changes.push({ field: 'start', before: storedStart, after: currentStart, material: true })
+  }
+
+  const venueChanged = current.venue_name && normalizeText(stored.venue_name) !== normalizeText(current.venue_name)
+  const addressChanged = current.address && stored.address && normalizeText(stored.address) !== normalizeText(current.address)
+  if (venueChanged || addressChanged) {
+    changes.push({
+      field: 'venue',
+      before: [stored.venue_name, stored.address].filter(Boolean).join(', ') || null,
+      after: [current.venue_name || stored.venue_name, current.address || stored.address].filter(Boolean).join(', ') || null,
+      material: true,
+    })
+  }
+
+  if (current.price_min !== null || current.price_max !== null) {
+    const min = priceChanged(stored.price_min, current.price_min)
+    const max = priceChanged(stored.price_max, current.price_max)
+    if (min.changed || max.changed) {
+      changes.push({
+        field: 'price',
+        before: stored.price_min ?? stored.price_max,
+        after: current.price_min ?? current.price_max,
+        material: min.material,
+      })
+    }
+  }
+
+  const storedStatus = stored.status || 'active'
+  if (current.status && current.status !== storedStatus) {
+    changes.push({
+      field: 'status',
+      before: storedStatus,
+      after: current.status,
+      material: MATERIAL_STATUSES.has(current.status) || MATERIAL_STATUSES.has(storedStatus),
+    })
+  }
+
+  return changes
+}
+
+function formatPrice(value: string | number | null): string {
+  return typeof value === 'number' ? `$${value % 1 === 0 ? value : value.toFixed(2)}` : 'unknown'
+}
+
+/**
+ * One human-readable line per change, for the badge tooltip, push and email
+ */
+export function describeChange(change: EventChange): string {
+  switch (change.field) {
+    case 'start':
+      return `Time changed from ${change.before ?? 'TBA'} to ${change.after ?? 'TBA'}`
+    case 'venue':
+      return `Venue changed to ${change.after ?? 'TBA'}`
+    case 'price':
+      return `Price now ${formatPrice(change.after)} (was ${formatPrice(change.before)})`
+    case 'status':
+      if (change.after === 'cancelled') return 'Event was cancelled'
+      if (change.after === UNLISTED_STATUS) return 'Event is no longer listed'
+      if (change.after === 'postponed' || change.after === 'rescheduled') return `Event was ${change.after}`
+      return `Status changed to ${change.after}`
+  }
+}
+
+export function summarizeChanges(changes: EventChange[]): string {
+  return changes.map(describeChange).join('; ')
+}
+
+/**
+ * Fold the provider's current values into the saved snapshot so the next
+ * check diffs against what the user was last told
+ */
+export function applySnapshot(eventData: Record<string, any>, current: EventSnapshot): Record<string, any> {
+  const next = { ...eventData }
+
+  if (current.date) {
+    next.date = current.date
+    if ('event_date' in next) next.event_date = current.date
+  }
+  if (current.time) {
+    next.time = current.time
+    if ('start_time' in next) next.start_time = current.time
+  }
+  if (current.venue_name) next.venue_name = current.venue_name
+  if (current.address) next.address = current.address
+  if (current.price_min !== null) next.price_min = current.price_min
+  if (current.price_max !== null) next.price_max = current.price_max
+  if (current.status) next.status = current.status
+
+  return next
+}
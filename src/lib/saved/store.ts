@@ -1,5 +1,16 @@
+import type { Session } from '@supabase/supabase-js';
+import { createClient } from '@/lib/supabase/client';
+import { applyPendingOperations, compactQueue, type SavedOperation, type SavedOperationType } from './sync';
+
 const KEY = 'scenes_scout_saved_v1';
 const EVENTS_KEY = 'scenescout_saved_events';
+// Save/unsave operations not yet acknowledged by /api/saved-events/sync
+const QUEUE_KEY = 'scenescout_saved_queue';
+// Account the local list was last synced with; unset while anonymous
+const ACCOUNT_KEY = 'scenescout_saved_account';
+
+// Pull remote changes this often while the tab is visible
+const SYNC_INTERVAL_MS = 60 * 1000;
 
 // Legacy: Get saved IDs only
 export function getSavedIds(): Set<string> {
@@ -31,21 +42,23 @@ export async function saveEvent(event: any): Promise<void> {
   // Check if already saved
   if (events.some(e => e.id === event.id)) return;
   events.push(event);
-  localStorage.setItem(EVENTS_KEY, JSON.stringify(events));
+  writeLocalEvents(events);
 
   // Also update legacy IDs
   const ids = getSavedIds();
   ids.add(event.id);
   setSavedIds(ids);
 
+  enqueueOperation('save', event.id, event);
+
+  // Emit custom event for real-time updates
+  window.dispatchEvent(new Event('savedEventsChanged'));
+
   // Request notification permission on first save
   await requestNotificationPermissionOnSave();
 
   // Save to database
   await saveToDatabase(event);
-
-  // Emit custom event for real-time updates
-  window.dispatchEvent(new Event('savedEventsChanged'));
 }
 
 // Save event to database (Supabase)
@@ -53,7 +66,13 @@ async function saveToDatabase(event: any): Promise<void> {
   try {
     const userId = localStorage.getItem('user_id') || 'anonymous';
 
-    // 1. Save to saved_events table
+    // 1. Signed in: sync to the account. Otherwise keep the device record
+    // the reminder cron reads; the queued save joins the account on login.
+    if (await syncSavedEvents()) {
+      await createReminders(event, userId);
+      return;
+    }
+
     const saveResponse = await fetch('/api/saved-events', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
@@ -72,7 +91,17 @@ async function saveToDatabase(event: any): Promise<void> {
 
     console.log('✅ Event saved to database:', event.id);
 
-    // 2. Get user's push subscription ID if available
+    await createReminders(event, userId);
+  } catch (error) {
+    // Don't block UI on database errors - user's save still works locally
+    console.warn('⚠️ Database save failed (non-blocking):', error instanceof Error ? error.message : String(error));
+  }
+}
+
+// Create reminders (24h and 3h before event)
+async function createReminders(event: any, userId: string): Promise<void> {
+  try {
+    // Get user's push subscription ID if available
     const subscriptionEndpoint = localStorage.getItem('push_subscription_endpoint');
     let subscriptionId = null;
 
@@ -88,7 +117,6 @@ async function saveToDatabase(event: any): Promise<void> {
       }
     }
 
-    // 3. Create reminders (24h and 3h before event)
     const reminderResponse = await fetch('/api/reminders/create', {
       method: 'POST',
       headers: { 'Content-Type': 'application/json' },
@@ -110,8 +138,7 @@ async function saveToDatabase(event: any): Promise<void> {
     console.log(`✅ Created ${reminderData.created} reminder(s) for event ${event.id}`);
 
   } catch (error) {
-    // Don't block UI on database errors - user's save still works locally
-    console.warn('⚠️ Database save failed (non-blocking):', error instanceof Error ? error.message : String(error));
+    console.warn('⚠️ Reminder setup failed (non-blocking):', error instanceof Error ? error.message : String(error));
   }
 }
 
@@ -163,19 +190,20 @@ async function requestNotificationPermissionOnSave(): Promise<void> {
 export async function unsaveEvent(eventId: string): Promise<void> {
   if (typeof window === 'undefined') return;
   const events = getSavedEvents();
-  const filtered = events.filter(e => e.id !== eventId);
-  localStorage.setItem(EVENTS_KEY, JSON.stringify(filtered));
+  writeLocalEvents(events.filter(e => e.id !== eventId));
 
   // Also update legacy IDs
   const ids = getSavedIds();
   ids.delete(eventId);
   setSavedIds(ids);
 
-  // Delete from database
-  await deleteFromDatabase(eventId);
+  enqueueOperation('unsave', eventId);
 
   // Emit custom event for real-time updates
   window.dispatchEvent(new Event('savedEventsChanged'));
+
+  // Delete from database
+  await deleteFromDatabase(eventId);
 }
 
 // Delete event from database
@@ -183,24 +211,26 @@ async function deleteFromDatabase(eventId: string): Promise<void> {
   try {
     const userId = localStorage.getItem('user_id') || 'anonymous';
 
-    // 1. Delete from saved_events table
-    const saveResponse = await fetch('/api/saved-events', {
-      method: 'DELETE',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        userId,
-        eventId
-      })
-    });
+    // 1. Signed in: sync the unsave to the account. Otherwise drop the device record.
+    if (!(await syncSavedEvents())) {
+      const saveResponse = await fetch('/api/saved-events', {
+        method: 'DELETE',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          userId,
+          eventId
+        })
+      });
+
+      if (!saveResponse.ok) {
+        const error = await saveResponse.json();
+        console.error('❌ Failed to delete event from database:', error);
+        return;
+      }
 
-    if (!saveResponse.ok) {
-      const error = await saveResponse.json();
-      console.error('❌ Failed to delete event from database:', error);
-      return;
+      console.log('✅ Event deleted from database:', eventId);
     }
 
-    console.log('✅ Event deleted from database:', eventId);
-
     // 2. Delete reminders
     const reminderResponse = await fetch('/api/reminders/create', {
       method: 'DELETE',
@@ -241,6 +271,8 @@ export async function toggleSaved(id: string, event?: any): Promise<boolean> {
       // Fallback if no event data provided (just save ID)
       ids.add(id);
       setSavedIds(ids);
+      enqueueOperation('save', id);
+      void syncSavedEvents();
       window.dispatchEvent(new Event('savedEventsChanged'));
     }
     saved = true;
@@ -251,3 +283,247 @@ export async function toggleSaved(id: string, event?: any): Promise<boolean> {
 export function isSaved(id: string): boolean {
   return getSavedIds().has(id);
 }
+
+function writeLocalEvents(events: any[]): void {
+  localStorage.setItem(EVENTS_KEY, JSON.stringify(events));
+}
+
+function readQueue(): SavedOperation[] {
+  try {
+    return JSON.parse(localStorage.getItem(QUEUE_KEY) || '[]');
+  } catch {
+    return [];
+  }
+}
+
+function writeQueue(queue: SavedOperation[]): void {
+  localStorage.setItem(QUEUE_KEY, JSON.stringify(queue));
+}
+
+function newOperationId(): string {
+  if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) return crypto.randomUUID();
+  return `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+}
+
+// Queue a save/unsave for the next sync; only the latest per event is kept
+function enqueueOperation(op: SavedOperationType, eventId: string, eventData?: any): void {
+  writeQueue(compactQueue([
+    ...readQueue(),
+    { id: newOperationId(), op, eventId, eventData, changedAt: new Date().toISOString() }
+  ]));
+}
+
+// First sync after login: saves made while signed out join the account
+function adoptAnonymousSaves(userId: string): void {
+  // Already synced with an account; its list is replaced, not merged
+  if (localStorage.getItem(ACCOUNT_KEY)) return;
+
+  const queued = new Set(readQueue().map(op => op.eventId));
+  const events = getSavedEvents().filter(event => !queued.has(event.id));
+  const withData = new Set(events.map(event => event.id));
+  // IDs saved without event data (toggleSaved fallback)
+  const idsOnly = Array.from(getSavedIds()).filter(id => !queued.has(id) && !withData.has(id));
+
+  events.forEach(event => enqueueOperation('save', event.id, event));
+  idsOnly.forEach(id => enqueueOperation('save', id));
+
+  if (events.length + idsOnly.length > 0) {
+    console.log(`ℹ️ Merging ${events.length + idsOnly.length} saved event(s) from this device into account ${userId}`);
+  }
+}
+
+function sameSavedEvents(a: any[], b: any[]): boolean {
+  if (a.length !== b.length) return false;
+  const byId = new Map(a.map(event => [event.id, JSON.stringify(event)]));
+  return b.every(event => byId.get(event.id) === JSON.stringify(event));
+}
+
+// Replace the local list with the account's, keeping the local order for events already shown
+function applyRemoteEvents(serverEvents: Array<{ eventId: string; eventData: any }>, pending: SavedOperation[]): void {
+  const before = getSavedEvents();
+  const position = new Map(before.map((event, index) => [event.id, index]));
+  const next = applyPendingOperations(serverEvents, pending).sort(
+    (a, b) => (position.get(a.id) ?? Infinity) - (position.get(b.id) ?? Infinity)
+  );
+
+  if (sameSavedEvents(before, next)) return;
+
+  writeLocalEvents(next);
+  setSavedIds(new Set(next.map(event => event.id)));
+  window.dispatchEvent(new Event('savedEventsChanged'));
+}
+
+// Operations per request; longer queues drain over consecutive syncs
+const SYNC_BATCH_SIZE = 200;
+
+let syncInFlight: Promise<boolean> | null = null;
+let syncRequested = false;
+
+async function runSync(givenSession?: Session | null): Promise<boolean> {
+  if (!navigator.onLine) return false;
+
+  const session = givenSession || (await createClient().auth.getSession()).data.session;
+  if (!session) return false;
+
+  adoptAnonymousSaves(session.user.id);
+  const batch = readQueue().slice(0, SYNC_BATCH_SIZE);
+
+  try {
+    const response = await fetch('/api/saved-events/sync', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${session.access_token}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ operations: batch })
+    });
+
+    if (!response.ok) {
+      const error = await response.json().catch(() => ({}));
+      console.error('❌ Failed to sync saved events:', error);
+      return false;
+    }
+
+    const { acknowledged, events } = await response.json();
+    const acked = new Set<string>(acknowledged || []);
+    // Operations queued while the request was in flight stay for the next sync
+    const remaining = readQueue().filter(op => !acked.has(op.id));
+    writeQueue(remaining);
+    localStorage.setItem(ACCOUNT_KEY, session.user.id);
+
+    applyRemoteEvents(events || [], remaining);
+    if (remaining.length > 0) syncRequested = true;
+    return true;
+  } catch (error) {
+    console.warn('⚠️ Saved events sync failed (will retry):', error instanceof Error ? error.message : String(error));
+    return false;
+  }
+}
+
+/**
+ * Push queued save/unsave operations to the account and pull its current list.
+ * Resolves false when signed out or offline; the queue is kept for later.
+ * Fires savedEventsChanged when another device changed the list.
+ */
+export async function syncSavedEvents(session?: Session | null): Promise<boolean> {
+  if (typeof window === 'undefined') return false;
+
+  if (syncInFlight) {
+    syncRequested = true;
+    return syncInFlight;
+  }
+
+  syncInFlight = runSync(session);
+  try {
+    return await syncInFlight;
+  } finally {
+    syncInFlight = null;
+    if (syncRequested) {
+      syncRequested = false;
+      void syncSavedEvents();
+    }
+  }
+}
+
+// Signed out: the account keeps its saves; the device starts over as anonymous
+function resetLocalSavedEvents(): void {
+  localStorage.removeItem(QUEUE_KEY);
+  localStorage.removeItem(ACCOUNT_KEY);
+  writeLocalEvents([]);
+  setSavedIds(new Set());
+  window.dispatchEvent(new Event('savedEventsChanged'));
+}
+
+/**
+ * Keep saved events in sync for the lifetime of the page: on login, when
+ * coming back online or to the tab, and periodically while visible
+ */
+export function startSavedEventsSync(): () => void {
+  if (typeof window === 'undefined') return () => {};
+
+  const sync = () => { void syncSavedEvents(); };
+  const syncIfVisible = () => {
+    if (document.visibilityState === 'visible') sync();
+  };
+
+  // Another tab changed the list (storage events only fire in the other tabs)
+  const onStorage = (e: StorageEvent) => {
+    if (e.key === EVENTS_KEY) window.dispatchEvent(new Event('savedEventsChanged'));
+  };
+
+  window.addEventListener('online', sync);
+  window.addEventListener('storage', onStorage);
+  document.addEventListener('visibilitychange', syncIfVisible);
+  const interval = window.setInterval(syncIfVisible, SYNC_INTERVAL_MS);
+
+  const { data: { subscription } } = createClient().auth.onAuthStateChange((event, session) => {
+    if (event === 'SIGNED_IN' && session) void syncSavedEvents(session);
+    if (event === 'SIGNED_OUT' && localStorage.getItem(ACCOUNT_KEY)) resetLocalSavedEvents();
+  });
+
+  sync();
+
+  return () => {
+    window.removeEventListener('online', sync);
+    window.removeEventListener('storage', onStorage);
+    document.removeEventListener('visibilitychange', syncIfVisible);
+    window.clearInterval(interval);
+    subscription.unsubscribe();
+  };
+}
+
+export interface SavedEventChange {
+  id: string;
+  eventId: string;
+  summary: string;
+  material: boolean;
+  detectedAt: string;
+}
+
+/**
+ * Unseen time/venue/price/status changes to the account's saved events.
+ * Empty when signed out.
+ */
+export async function getSavedEventChanges(): Promise<SavedEventChange[]> {
+  if (typeof window === 'undefined') return [];
+
+  const { data: { session } } = await createClient().auth.getSession();
+  if (!session) return [];
+
+  try {
+    const response = await fetch('/api/saved-events/changes', {
+      headers: { 'Authorization': `Bearer ${session.access_token}` }
+    });
+    if (!response.ok) return [];
+
+    const { changes } = await response.json();
+    return changes || [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Acknowledge changes (all of them when no event ids are given) and let
+ * badges know via savedEventChangesSeen
+ */
+export async function markSavedEventChangesSeen(eventIds?: string[]): Promise<void> {
+  if (typeof window === 'undefined') return;
+
+  const { data: { session } } = await createClient().auth.getSession();
+  if (!session) return;
+
+  try {
+    await fetch('/api/saved-events/changes', {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${session.access_token}`,
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({ eventIds })
+    });
+    window.dispatchEvent(new Event('savedEventChangesSeen'));
+  } catch (error) {
+    console.warn('⚠️ Failed to mark saved event changes seen:', error instanceof Error ? error.message : String(error));
+  }
+}
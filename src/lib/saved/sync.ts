@@ -0,0 +1,118 @@
+/**
+ * Saved events sync - shared merge rules for the browser queue and the
+ * /api/saved-events/sync route
+ *
+ * Every save/unsave is an operation stamped with the time it happened on
+ * the device. The server keeps one record per (user, event), including
+ * tombstones for unsaves, and applies an operation only if it is newer
+ * than the record (last writer wins).
+ */
+
+export type SavedOperationType = 'save' | 'unsave'
+
+export interface SavedOperation {
+  /** Client-generated id, used to acknowledge queued operations */
+  id: string
+  op: SavedOperationType
+  eventId: string
+  eventData?: Record<string, any>
+  changedAt: string
+}
+
+export interface SavedRecord {
+  eventId: string
+  eventData: Record<string, any>
+  changedAt: string
+  deleted: boolean
+}
+
+// Devices with a fast clock would otherwise win every future conflict
+export const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000
+
+/**
+ * Clamp a client timestamp so it is never later than the server's clock
+ * allows (plus skew)
+ */
+export function clampChangedAt(changedAt: string, now: Date = new Date()): string {
+  const time = new Date(changedAt).getTime()
+  const limit = now.getTime() + MAX_CLOCK_SKEW_MS
+  if (isNaN(time)) return now.toISOString()
+  return new Date(Math.min(time, limit)).toISOString()
+}
+
+/**
+ * Apply operations to the current records, newest write winning.
+ * Ties keep the existing record so replays of the same operation are no-ops.
+ *
+ * @returns Records that changed and must be written back
+ */
+export function mergeSavedOperations(
+  existing: Map<string, SavedRecord>,
+  operations: SavedOperation[],
+  now: Date = new Date()
+): SavedRecord[] {
+  const records = new Map(existing)
+  const changed = new Map<string, SavedRecord>()
+
+  const ordered = [...operations].sort(
+    (a, b) => new Date(a.changedAt).getTime() - new Date(b.changedAt).getTime()
+  )
+
+  for (const operation of ordered) {
+    const changedAt = clampChangedAt(operation.changedAt, now)
+    const current = records.get(operation.eventId)
+
+    if (current && new Date(current.changedAt).getTime() >= new Date(changedAt).getTime()) {
+      continue
+    }
+
+    const next: SavedRecord = {
+      eventId: operation.eventId,
+      eventData: operation.eventData || current?.eventData || { id: operation.eventId },
+      changedAt,
+      deleted: operation.op === 'unsave',
+    }
+    records.set(operation.eventId, next)
+    changed.set(operation.eventId, next)
+  }
+
+  return Array.from(changed.values())
+}
+
+/**
+ * Collapse a queue so only the latest operation per event remains
+ */
+export function compactQueue(queue: SavedOperation[]): SavedOperation[] {
+  const latest = new Map<string, SavedOperation>()
+  for (const operation of queue) {
+    const current = latest.get(operation.eventId)
+    if (!current || new Date(operation.changedAt).getTime() >= new Date(current.changedAt).getTime()) {
+      latest.set(operation.eventId, operation)
+    }
+  }
+  return Array.from(latest.values())
+}
+
+/**
+ * The local saved list after a sync: the server's live records with any
+ * operations still waiting in the queue applied on top
+ */
+export function applyPendingOperations(
+  serverEvents: Array<{ eventId: string; eventData: Record<string, any> }>,
+  pending: SavedOperation[]
+): Array<Record<string, any>> {
+  const events = new Map<string, Record<string, any>>()
+  for (const { eventId, eventData } of serverEvents) {
+    events.set(eventId, { ...eventData, id: eventId })
+  }
+
+  for (const operation of compactQueue(pending)) {
+    if (operation.op === 'unsave') {
+      events.delete(operation.eventId)
+    } else {
+      events.set(operation.eventId, { ...(operation.eventData || {}), id: operation.eventId })
+    }
+  }
+
+  return Array.from(events.values())
+}
@@ -0,0 +1,306 @@
+/**
+ * Saved event watcher
+ * Re-resolves saved Ticketmaster/Eventbrite events against their provider,
+ * records what changed in saved_event_changes and notifies the user about
+ * material changes. Run by /api/cron/saved-event-changes.
+ */
+
+import { formatInTimeZone } from 'date-fns-tz'
+import { getServiceSupabaseClient } from '@/lib/supabase-server'
+import { createTicketmasterClient } from '@/lib/api/ticketmaster-client'
+import { EventbriteClient } from '@/lib/api/eventbrite-client'
+import { ApiError } from '@/lib/api/types'
+import { resolveTimeZone } from '@/lib/calendar/timezone'
+import { sendSavedEventUpdate } from '@/lib/email'
+import { notifyUser } from '@/lib/notifications/deliver'
+import { invalidateCache, CACHE_KEYS } from '@/lib/query-cache'
+import {
+  applySnapshot,
+  describeChange,
+  diffSnapshots,
+  snapshotFromEventData,
+  summarizeChanges,
+  unlistedSnapshot,
+  UNLISTED_STATUS,
+  type EventChange,
+  type EventSnapshot,
+} from './staleness'
+
+export type WatchedSource = 'ticketmaster' | 'eventbrite'
+
+export interface WatchResult {
+  checked: number
+  changed: number
+  notified: number
+  failed: number
+}
+
+interface SavedEventRow {
+  id: string
+  user_id: string
+  event_id: string
+  event_data: Record<string, any>
+}
+
+// Each run re-checks the least recently checked saves first
+const DEFAULT_BATCH_SIZE = 100
+
+const ID_PREFIXES: Record<WatchedSource, string[]> = {
+  ticketmaster: ['tm_'],
+  eventbrite: ['eb_', 'eventbrite_'],
+}
+
+// Saved ids, and some stored external_ids, carry our source prefix
+function stripIdPrefix(source: WatchedSource, id: unknown): string | null {
+  if (id === null || id === undefined || id === '') return null
+  const value = String(id)
+  const prefix = ID_PREFIXES[source].find(p => value.startsWith(p))
+  return (prefix ? value.slice(prefix.length) : value) || null
+}
+
+/**
+ * Work out which provider a saved event came from, and its id there
+ */
+export function resolveSourceRef(
+  eventId: string,
+  eventData: Record<string, any>
+): { source: WatchedSource; externalId: string } | null {
+  for (const source of Object.keys(ID_PREFIXES) as WatchedSource[]) {
+    const prefix = ID_PREFIXES[source].find(p => eventId.startsWith(p))
+    if (eventData.source !== source && !prefix) continue
+
+    const externalId = stripIdPrefix(source, eventData.external_id) || (prefix ? eventId.slice(prefix.length) : null)
+    if (externalId) return { source, externalId }
+  }
+  return null
+}
+
+function mapTicketmasterStatus(code?: string): string | null {
+  switch (code) {
+    case 'canceled':
+    case 'cancelled':
+      return 'cancelled'
+    case 'postponed':
+    case 'rescheduled':
+      return code
+    case undefined:
+      return null
+    default:
+      return 'active'
+  }
+}
+
+async function fetchTicketmasterSnapshot(externalId: string): Promise<EventSnapshot> {
+  const response = await createTicketmasterClient().getEvent(externalId)
+  if (!response.success) {
+    throw new ApiError(response.error || 'Ticketmaster request failed', response.status)
+  }
+
+  const event = response.data
+  const venue = event._embedded?.venues?.[0]
+  const price = event.priceRanges?.[0]
+
+  return {
+    date: event.dates.start.dateTBA || event.dates.start.dateTBD ? null : event.dates.start.localDate,
+    time: event.dates.start.localTime?.slice(0, 5) || null,
+    venue_name: venue?.name || null,
+    address: venue?.address?.line1 || null,
+    price_min: price?.min ?? null,
+    price_max: price?.max ?? null,
+    status: mapTicketmasterStatus(event.dates.status?.code),
+  }
+}
+
+let eventbriteClient: EventbriteClient | null = null
+
+function getEventbriteClient(): EventbriteClient {
+  if (!eventbriteClient) {
+    const token = process.env.EVENTBRITE_PRIVATE_TOKEN || process.env.EVENTBRITE_TOKEN || process.env.EVENTBRITE_OAUTH_TOKEN
+    if (!token) {
+      throw new Error('Eventbrite token not found in environment variables')
+    }
+    eventbriteClient = new EventbriteClient({
+      apiKey: token,
+      baseUrl: 'https://www.eventbriteapi.com/v3',
+      rateLimit: { requests: 1000, windowMs: 60 * 60 * 1000 },
+      timeout: 15000,
+      retryOptions: { retries: 2, retryDelay: 1000 },
+    })
+  }
+  return eventbriteClient
+}
+
+async function fetchEventbriteSnapshot(externalId: string): Promise<EventSnapshot> {
+  const client = getEventbriteClient()
+  const { data } = await client.getEvent(externalId)
+  const event = client.normalizeEvent(data)
+
+  // Saved snapshots hold the local wall time; Eventbrite's start is UTC
+  const timezone = resolveTimeZone(event.timezone)
+  const start = event.start_time ? new Date(event.start_time) : null
+  const hasStart = start !== null && !isNaN(start.getTime())
+
+  return {
+    date: hasStart ? formatInTimeZone(start, timezone, 'yyyy-MM-dd') : null,
+    time: hasStart ? formatInTimeZone(start, timezone, 'HH:mm') : null,
+    venue_name: event.venue?.name || null,
+    address: event.venue?.address || null,
+    price_min: event.price?.min ?? null,
+    price_max: event.price?.max ?? null,
+    status: event.status || null,
+  }
+}
+
+const FETCHERS: Record<WatchedSource, (externalId: string) => Promise<EventSnapshot>> = {
+  ticketmaster: fetchTicketmasterSnapshot,
+  eventbrite: fetchEventbriteSnapshot,
+}
+
+/**
+ * Fetch the provider's current data; an event the provider no longer has
+ * comes back as unlisted
+ */
+async function fetchCurrentSnapshot(source: WatchedSource, externalId: string): Promise<EventSnapshot> {
+  try {
+    return await FETCHERS[source](externalId)
+  } catch (error: any) {
+    // Providers drop cancelled and unpublished events outright
+    if (error?.status === 404) return unlistedSnapshot()
+    throw error
+  }
+}
+
+async function notifyMaterialChange(row: SavedEventRow, changes: EventChange[]): Promise<boolean> {
+  const eventData = row.event_data
+  const material = changes.filter(c => c.material).map(describeChange)
+  const status = changes.find(c => c.field === 'status')?.after
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL || 'https://scenescout.app'
+
+  return notifyUser(row.user_id, {
+    title: status === 'cancelled'
+      ? `❌ ${eventData.title} was cancelled`
+      : status === UNLISTED_STATUS
+        ? `❌ ${eventData.title} is no longer listed`
+        : `📣 ${eventData.title} changed`,
+    body: material.join('\n'),
+    icon: eventData.image_url || '/icon-192x192.png',
+    data: {
+      eventId: eventData.id,
+      url: '/saved',
+      type: 'saved-event-change'
+    }
+  }, contact => sendSavedEventUpdate(contact.email, contact.name, {
+    eventName: eventData.title || 'Your saved event',
+    changes: material,
+    eventUrl: `${appUrl}/saved`,
+    cancelled: status === 'cancelled',
+  }))
+}
+
+/**
+ * Check a batch of saved events against their providers
+ */
+export async function checkSavedEvents(options: { limit?: number; now?: Date } = {}): Promise<WatchResult> {
+  const supabase = getServiceSupabaseClient()
+  const now = options.now || new Date()
+  const result: WatchResult = { checked: 0, changed: 0, notified: 0, failed: 0 }
+
+  const { data: rows, error } = await supabase
+    .from('saved_events')
+    .select('id, user_id, event_id, event_data')
+    .is('deleted_at', null)
+    .order('last_checked_at', { ascending: true, nullsFirst: true })
+    .limit(options.limit || DEFAULT_BATCH_SIZE)
+
+  if (error) throw new Error(`Failed to load saved events: ${error.message}`)
+
+  // Many users save the same event; ask the provider once per event
+  const groups = new Map<string, { source: WatchedSource; externalId: string; rows: SavedEventRow[] }>()
+  const unwatched: string[] = []
+  for (const row of (rows || []) as SavedEventRow[]) {
+    const ref = resolveSourceRef(row.event_id, row.event_data || {})
+    if (!ref) {
+      unwatched.push(row.id)
+      continue
+    }
+
+    const key = `${ref.source}:${ref.externalId}`
+    const group = groups.get(key) || { ...ref, rows: [] }
+    group.rows.push(row)
+    groups.set(key, group)
+  }
+
+  // Scraped and local events have no provider to ask; move them to the back of the line
+  if (unwatched.length > 0) {
+    await supabase
+      .from('saved_events')
+      .update({ last_checked_at: now.toISOString() })
+      .in('id', unwatched)
+  }
+
+  for (const { source, externalId, rows: savedRows } of Array.from(groups.values())) {
+    let current: EventSnapshot
+    try {
+      current = await fetchCurrentSnapshot(source, externalId)
+    } catch (fetchError: any) {
+      console.error(`❌ Failed to re-resolve ${source} event ${externalId}:`, fetchError.message)
+      result.failed += savedRows.length
+      continue
+    }
+
+    for (const row of savedRows) {
+      result.checked++
+      const changes = diffSnapshots(snapshotFromEventData(row.event_data), current)
+
+      if (changes.length > 0) {
+        const material = changes.some(c => c.material)
+        const { data: logged, error: logError } = await supabase
+          .from('saved_event_changes')
+          .insert({
+            user_id: row.user_id,
+            event_id: row.event_id,
+            changes,
+            summary: summarizeChanges(changes),
+            material,
+            detected_at: now.toISOString(),
+          })
+          .select('id')
+          .single()
+
+        if (logError) {
+          console.error(`❌ Failed to record changes for saved event ${row.event_id}:`, logError.message)
+          result.failed++
+          continue
+        }
+
+        await supabase
+          .from('saved_events')
+          .update({ event_data: applySnapshot(row.event_data, current) })
+          .eq('id', row.id)
+        await invalidateCache(CACHE_KEYS.SAVED_EVENTS(row.user_id))
+        result.changed++
+
+        if (material) {
+          try {
+            if (await notifyMaterialChange(row, changes)) {
+              await supabase
+                .from('saved_event_changes')
+                .update({ notified_at: new Date().toISOString() })
+                .eq('id', logged.id)
+              result.notified++
+            }
+          } catch (notifyError: any) {
+            console.error(`⚠️ Failed to notify user ${row.user_id} about ${row.event_id}:`, notifyError.message)
+          }
+        }
+      }
+
+      await supabase
+        .from('saved_events')
+        .update({ last_checked_at: now.toISOString() })
+        .eq('id', row.id)
+    }
+  }
+
+  return result
+}
@@ -1,6 +1,15 @@
-import axios from 'axios'
+import axios, { AxiosInstance } from 'axios'
+import { FixtureCassette, fixturesFromEnv } from '@/lib/scraping/replay/cassette'
+import { withAxiosFixtures } from '@/lib/scraping/replay/http'
 
 export class InstagramScraper {
+  private http: AxiosInstance
+
+  constructor(fixtures: FixtureCassette | null = fixturesFromEnv('instagram')) {
+    this.http = axios.create()
+    if (fixtures) withAxiosFixtures(this.http, fixtures)
+  }
+
   async scrapeEvents(query: string): Promise<any[]> {
     const events = []
     
@@ -11,7 +20,7 @@ export class InstagramScraper {
       for (const hashtag of hashtags.slice(0, 2)) { // Limit to 2 hashtags to avoid rate limiting
         const url = `https://www.instagram.com/explore/tags/${hashtag}/`
         
-        const response = await axios.get(url, {
+        const response = await this.http.get(url, {
           headers: {
             'User-Agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36'
           },
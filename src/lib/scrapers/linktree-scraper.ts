@@ -1,7 +1,16 @@
-import axios from 'axios'
+import axios, { AxiosInstance } from 'axios'
 import * as cheerio from 'cheerio'
+import { FixtureCassette, fixturesFromEnv } from '@/lib/scraping/replay/cassette'
+import { withAxiosFixtures } from '@/lib/scraping/replay/http'
 
 export class LinktreeScraper {
+  private http: AxiosInstance
+
+  constructor(fixtures: FixtureCassette | null = fixturesFromEnv('linktree')) {
+    this.http = axios.create()
+    if (fixtures) withAxiosFixtures(this.http, fixtures)
+  }
+
   async scrapeEvents(query: string): Promise<any[]> {
     const events = []
     
@@ -19,7 +28,7 @@ export class LinktreeScraper {
         const url = `https://linktr.ee/${page}`
         
         try {
-          const response = await axios.get(url, {
+          const response = await this.http.get(url, {
             headers: {
               'User-Agent': 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36'
             },
@@ -0,0 +1,83 @@
+import { z } from 'zod';
+import { IcsFeedConfig } from '../types';
+
+/**
+ * iCalendar feeds per city, from the ICS_FEEDS environment variable:
+ *
+ *   {"toronto": ["https://example.org/events.ics",
+ *                {"url": "https://venue.example/cal.ics", "venue": {"name": "The Venue"}}]}
+ *
+ * A bare string is a feed URL; objects take any IcsFeedConfig field.
+ */
+
+const coordinatesSchema = z.object({
+  lat: z.number().min(-90).max(90),
+  lng: z.number().min(-180).max(180)
+});
+
+const feedSchema = z.union([
+  z.string().url(),
+  z.object({
+    id: z.string().min(1).optional(),
+    url: z.string().url(),
+    name: z.string().optional(),
+    timezone: z.string().optional(),
+    venue: z.object({
+      name: z.string().min(1),
+      address: z.string().optional(),
+      coordinates: coordinatesSchema.optional()
+    }).optional(),
+    category: z.string().optional(),
+    enabled: z.boolean().optional()
+  })
+]);
+
+const feedsByCitySchema = z.record(z.array(z.unknown()));
+
+/**
+ * Parse an ICS_FEEDS value. Invalid JSON drops everything; an invalid entry
+ * is logged and dropped without affecting the other feeds.
+ */
+export function parseIcsFeeds(value: string | undefined): IcsFeedConfig[] {
+  if (!value?.trim()) return [];
+
+  let json: unknown;
+  try {
+    json = JSON.parse(value);
+  } catch (error) {
+    console.warn('⚠️ ICS_FEEDS is not valid JSON; no iCal feeds configured');
+    return [];
+  }
+
+  const parsed = feedsByCitySchema.safeParse(json);
+  if (!parsed.success) {
+    console.warn('⚠️ Ignoring invalid ICS_FEEDS: expected an object of feed lists per city');
+    return [];
+  }
+
+  return Object.entries(parsed.data).flatMap(([city, entries]) =>
+    entries.flatMap((entry, index) => {
+      const feed = feedSchema.safeParse(entry);
+      if (!feed.success) {
+        console.warn(`⚠️ Ignoring invalid ICS_FEEDS entry ${city}.${index}:`, feed.error.errors.map(e => e.message).join('; '));
+        return [];
+      }
+
+      const config = typeof feed.data === 'string' ? { url: feed.data } : feed.data;
+      return [{
+        ...config,
+        id: config.id || config.url,
+        city: city.toLowerCase(),
+        enabled: config.enabled ?? true
+      }];
+    })
+  );
+}
+
+export function getAllIcsFeeds(): IcsFeedConfig[] {
+  return parseIcsFeeds(process.env.ICS_FEEDS);
+}
+
+export function getIcsFeedsByCity(city: string): IcsFeedConfig[] {
+  return getAllIcsFeeds().filter(feed => feed.enabled && feed.city === city.toLowerCase());
+}
@@ -17,6 +17,19 @@ interface StringDistance {
   hybrid(a: string, b: string): number
 }
 
+/**
+ * Address with punctuation and street-type words removed, so "123 Main St."
+ * and "123 main street" compare equal
+ */
+export function normalizeAddress(address: string): string {
+  return address
+    .toLowerCase()
+    .replace(/[^\w\s]/g, ' ')
+    .replace(/\b(street|st|avenue|ave|road|rd|drive|dr|boulevard|blvd|lane|ln)\b/g, '')
+    .replace(/\s+/g, ' ')
+    .trim()
+}
+
 /**
  * Advanced fuzzy matching system for event deduplication
  * Combines multiple algorithms for high-accuracy duplicate detection
@@ -75,7 +88,7 @@ export class FuzzyMatcher {
   }
 
   private initializeStringDistance(): StringDistance {
-    return {
+    const distance: StringDistance = {
       levenshtein: (a: string, b: string): number => {
         if (!a || !b) return 0
         if (a === b) return 1
@@ -171,14 +184,16 @@ export class FuzzyMatcher {
       },
 
       hybrid: (a: string, b: string): number => {
-        const lev = this.levenshtein(a, b)
-        const jaro = this.jaroWinkler(a, b)
-        const cos = this.cosine(a, b)
+        const lev = distance.levenshtein(a, b)
+        const jaro = distance.jaroWinkler(a, b)
+        const cos = distance.cosine(a, b)
         
         // Weighted combination favoring different aspects
         return (lev * 0.4) + (jaro * 0.4) + (cos * 0.2)
       }
     }
+
+    return distance
   }
 
   private tokenize(text: string): string[] {
@@ -233,21 +248,12 @@ export class FuzzyMatcher {
     }
     
     if (event.venue?.address) {
-      return this.normalizeAddress(event.venue.address)
+      return normalizeAddress(event.venue.address)
     }
     
     return event.city_name?.toLowerCase() || 'unknown'
   }
 
-  private normalizeAddress(address: string): string {
-    return address
-      .toLowerCase()
-      .replace(/[^\w\s]/g, ' ')
-      .replace(/\b(street|st|avenue|ave|road|rd|drive|dr|boulevard|blvd|lane|ln)\b/g, '')
-      .replace(/\s+/g, ' ')
-      .trim()
-  }
-
   private createDateKey(dateStr?: string): string {
     if (!dateStr) return ''
     const date = new Date(dateStr)
@@ -341,6 +347,16 @@ export class FuzzyMatcher {
     return score
   }
 
+  /**
+   * Similarity using the configured string matching algorithm
+   */
+  private stringSimilarity(a: string, b: string): number {
+    const algorithm = this.config.algorithms.stringMatching
+    return algorithm === 'jaro_winkler'
+      ? this.stringDistance.jaroWinkler(a, b)
+      : this.stringDistance[algorithm](a, b)
+  }
+
   private calculateTitleSimilarity(fp1: EventFingerprint, fp2: EventFingerprint): number {
     const title1 = fp1.titleTokens.join(' ')
     const title2 = fp2.titleTokens.join(' ')
@@ -349,8 +365,7 @@ export class FuzzyMatcher {
     if (title1 === title2) return 1
     
     // Use configured string matching algorithm
-    const algorithm = this.config.algorithms.stringMatching
-    const stringSim = this.stringDistance[algorithm](title1, title2)
+    const stringSim = this.stringSimilarity(title1, title2)
     
     // Boost for exact token matches
     const commonTokens = fp1.titleTokens.filter(token => fp2.titleTokens.includes(token))
@@ -363,10 +378,7 @@ export class FuzzyMatcher {
     if (!fp1.venueNormalized || !fp2.venueNormalized) return 0
     if (fp1.venueNormalized === fp2.venueNormalized) return 1
     
-    return this.stringDistance[this.config.algorithms.stringMatching](
-      fp1.venueNormalized,
-      fp2.venueNormalized
-    )
+    return this.stringSimilarity(fp1.venueNormalized, fp2.venueNormalized)
   }
 
   private calculateDateSimilarity(fp1: EventFingerprint, fp2: EventFingerprint): number {
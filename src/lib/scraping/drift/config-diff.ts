@@ -0,0 +1,121 @@
+/**
+ * Reviewable diff that adds suggested selectors to a venue's entry in
+ * venue-configs.ts. Proposed selectors go first and the old ones stay as
+ * fallbacks, so accepting the diff can't make a venue worse.
+ */
+
+import type { SelectorSuggestion } from './types'
+
+export const VENUE_CONFIG_PATH = 'src/lib/scraping/config/venue-configs.ts'
+
+const CONTEXT_LINES = 3
+
+function quote(selector: string): string {
+  return `'${selector.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`
+}
+
+/**
+ * Rewrite one `field: ...` line with the proposed selector in front
+ */
+function rewriteSelectorLine(line: string, proposed: string): string | null {
+  const match = line.match(/^(\s*\w+:\s*)(\[.*\]|'.*')(,?\s*)$/)
+  if (!match) return null
+
+  const [, prefix, value, suffix] = match
+  if (value.startsWith('[')) {
+    const inner = value.slice(1, -1).trim()
+    return `${prefix}[${quote(proposed)}${inner ? `, ${inner}` : ''}]${suffix}`
+  }
+
+  // Single selector strings are CSS selector lists
+  return `${prefix}'${proposed.replace(/'/g, "\\'")}, ${value.slice(1)}${suffix}`
+}
+
+/**
+ * Line range of a top-level VENUE_CONFIGURATIONS entry
+ */
+function findVenueEntry(lines: string[], venueId: string): { start: number; end: number } | null {
+  const idLine = new RegExp(`^ {4}id: '${venueId.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}',`)
+  const start = lines.findIndex(line => idLine.test(line))
+  if (start === -1) return null
+
+  let end = lines.length
+  for (let i = start + 1; i < lines.length; i++) {
+    if (/^ {2}\},?$/.test(lines[i])) {
+      end = i
+      break
+    }
+  }
+  return { start, end }
+}
+
+function findFieldLine(lines: string[], range: { start: number; end: number }, field: string): number {
+  const section = field === 'container' || field === 'eventItem' ? 'listingSelectors' : 'eventSelectors'
+  let inSection = false
+
+  for (let i = range.start; i < range.end; i++) {
+    const line = lines[i]
+    if (new RegExp(`^\\s*${section}:\\s*\\{`).test(line)) {
+      inSection = true
+      continue
+    }
+    if (inSection && /^\s*\},?$/.test(line)) break
+    if (inSection && new RegExp(`^\\s*${field}:`).test(line)) return i
+  }
+  return -1
+}
+
+/**
+ * Unified diff (git apply-able) adding the suggestions to the venue's
+ * selectors; null when none of them could be placed
+ */
+export function buildConfigDiff(
+  source: string,
+  venueId: string,
+  suggestions: SelectorSuggestion[],
+  filePath: string = VENUE_CONFIG_PATH
+): string | null {
+  const lines = source.split('\n')
+  const range = findVenueEntry(lines, venueId)
+  if (!range) return null
+
+  const changes = new Map<number, string>()
+  for (const suggestion of suggestions) {
+    const index = findFieldLine(lines, range, suggestion.field)
+    if (index === -1 || changes.has(index)) continue
+
+    const rewritten = rewriteSelectorLine(lines[index], suggestion.proposed)
+    if (rewritten && rewritten !== lines[index]) changes.set(index, rewritten)
+  }
+  if (changes.size === 0) return null
+
+  // Group changed lines into hunks that share context
+  const changed = Array.from(changes.keys()).sort((a, b) => a - b)
+  const hunks: Array<{ from: number; to: number }> = []
+  for (const index of changed) {
+    const from = Math.max(0, index - CONTEXT_LINES)
+    const to = Math.min(lines.length - 1, index + CONTEXT_LINES)
+    const last = hunks[hunks.length - 1]
+    if (last && from <= last.to + 1) {
+      last.to = to
+    } else {
+      hunks.push({ from, to })
+    }
+  }
+
+  const output = [`--- a/${filePath}`, `+++ b/${filePath}`]
+  for (const hunk of hunks) {
+    const length = hunk.to - hunk.from + 1
+    output.push(`@@ -${hunk.from + 1},${length} +${hunk.from + 1},${length} @@`)
+    for (let i = hunk.from; i <= hunk.to; i++) {
+      const replacement = changes.get(i)
+      if (replacement === undefined) {
+        output.push(` ${lines[i]}`)
+      } else {
+        output.push(`-${lines[i]}`, `+${replacement}`)
+      }
+    }
+  }
+
+  return `${output.join('\n')}\n`
+}
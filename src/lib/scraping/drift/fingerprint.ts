@@ -0,0 +1,168 @@
+/**
+ * Structural fingerprints of venue pages and selector drift detection
+ * A fingerprint is taken every time a venue's selectors produce events;
+ * comparing a failing page against it tells which selectors stopped
+ * matching and gives the suggester the titles/dates to look for.
+ */
+
+import type { CheerioAPI } from 'cheerio'
+import type { Element } from 'domhandler'
+import type { ListingSelectors, ScrapeConfiguration } from '../types/venue'
+import type { DriftField, PageFingerprint, SelectorDrift } from './types'
+
+// Event fields whose selectors are tracked; listing selectors are always tracked
+export const TRACKED_FIELDS: Array<Exclude<DriftField, 'container' | 'eventItem'>> = ['title', 'date', 'time', 'price', 'image']
+
+const SAMPLE_SIZE = 10
+const STRUCTURE_SIZE = 30
+// Element signatures seen fewer times than this aren't part of a repeated layout
+const MIN_REPEATS = 3
+
+const CLASS_NAME = /^[A-Za-z_-][\w-]*$/
+
+function asList(selectors: string | string[] | undefined): string[] {
+  if (!selectors) return []
+  return Array.isArray(selectors) ? selectors : [selectors]
+}
+
+/**
+ * Elements matching a selector, within scope when given
+ */
+export function queryAll($: CheerioAPI, selector: string, scope?: Element): Element[] {
+  try {
+    // Selector matches are always elements
+    return (scope ? $(scope).find(selector) : $(selector)).toArray() as Element[]
+  } catch {
+    // Invalid selector in config
+    return []
+  }
+}
+
+function queryFirst($: CheerioAPI, selectors: string[], scope?: Element): Element | null {
+  for (const selector of selectors) {
+    const [match] = queryAll($, selector, scope)
+    if (match) return match
+  }
+  return null
+}
+
+export function collapsedText($: CheerioAPI, element: Element): string {
+  return $(element).text().replace(/\s+/g, ' ').trim()
+}
+
+/**
+ * tag.class signature of an element, e.g. "div.card.event-card"; usable as a selector
+ */
+export function elementSignature(element: Element): string {
+  const classes = (element.attribs.class || '')
+    .split(/\s+/)
+    .filter(name => CLASS_NAME.test(name))
+    .sort()
+  return [element.tagName.toLowerCase(), ...Array.from(new Set(classes))].join('.')
+}
+
+/**
+ * Signatures of classed elements that repeat on the page, most frequent first
+ */
+export function structureSignature($: CheerioAPI): string[] {
+  const counts = new Map<string, number>()
+
+  for (const element of queryAll($, 'body [class]')) {
+    const signature = elementSignature(element)
+    if (!signature.includes('.')) continue
+    counts.set(signature, (counts.get(signature) || 0) + 1)
+  }
+
+  return Array.from(counts.entries())
+    .filter(([, count]) => count >= MIN_REPEATS)
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, STRUCTURE_SIZE)
+    .map(([signature]) => signature)
+}
+
+export function structureSimilarity(a: string[], b: string[]): number {
+  if (a.length === 0 && b.length === 0) return 1
+  const setB = new Set(b)
+  const shared = a.filter(signature => setB.has(signature)).length
+  return shared / (new Set([...a, ...b]).size)
+}
+
+/**
+ * Container and event items as the configured listing selectors find them
+ */
+export function findListing($: CheerioAPI, listing: ListingSelectors): {
+  container: Element | null
+  items: Element[]
+} {
+  const container = queryFirst($, [listing.container])
+  return {
+    container,
+    items: container ? queryAll($, listing.eventItem, container) : []
+  }
+}
+
+export function fingerprintPage(
+  $: CheerioAPI,
+  scrapeConfig: ScrapeConfiguration,
+  page: { venueId: string; locationId: string; url: string },
+  capturedAt: Date = new Date()
+): PageFingerprint {
+  const { container, items } = findListing($, scrapeConfig.listingSelectors)
+  const selectorCounts: PageFingerprint['selectorCounts'] = {
+    container: container ? 1 : 0,
+    eventItem: items.length
+  }
+
+  for (const field of TRACKED_FIELDS) {
+    const selectors = asList(scrapeConfig.eventSelectors[field])
+    if (selectors.length === 0) continue
+    selectorCounts[field] = items.filter(item => queryFirst($, selectors, item)).length
+  }
+
+  const sampleText = (field: 'title' | 'date') => items
+    .map(item => queryFirst($, asList(scrapeConfig.eventSelectors[field]), item))
+    .map(element => element ? collapsedText($, element) : '')
+    .filter(text => text.length > 0)
+    .slice(0, SAMPLE_SIZE)
+
+  const titles = sampleText('title')
+
+  return {
+    ...page,
+    capturedAt: capturedAt.toISOString(),
+    eventCount: titles.length,
+    selectorCounts,
+    structure: structureSignature($),
+    samples: {
+      titles,
+      dates: sampleText('date')
+    }
+  }
+}
+
+/**
+ * Selectors that matched on the fingerprinted page and match nothing now
+ */
+export function detectDrift(
+  previous: PageFingerprint,
+  current: PageFingerprint,
+  scrapeConfig: ScrapeConfiguration
+): SelectorDrift[] {
+  const selectorFor = (field: DriftField): string | string[] => {
+    if (field === 'container' || field === 'eventItem') {
+      return scrapeConfig.listingSelectors[field]
+    }
+    return scrapeConfig.eventSelectors[field] || []
+  }
+
+  const fields: DriftField[] = ['container', 'eventItem', ...TRACKED_FIELDS]
+
+  return fields
+    .filter(field => (previous.selectorCounts[field] || 0) > 0 && (current.selectorCounts[field] || 0) === 0)
+    .map(field => ({
+      field,
+      selector: selectorFor(field),
+      previousCount: previous.selectorCounts[field] || 0,
+      currentCount: 0
+    }))
+}
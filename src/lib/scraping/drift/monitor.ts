@@ -0,0 +1,75 @@
+/**
+ * Scraper-side drift tracking for venue pages: fingerprints pages whose
+ * selectors work and reports drift, with suggested fixes, when they stop
+ */
+
+import { promises as fs } from 'fs'
+import path from 'path'
+import * as cheerio from 'cheerio'
+import type { ScrapeConfiguration } from '../types/venue'
+import { VENUE_CONFIG_PATH, buildConfigDiff } from './config-diff'
+import { detectDrift, fingerprintPage, structureSimilarity } from './fingerprint'
+import { loadFingerprint, saveDriftReport, saveFingerprint } from './service'
+import { suggestSelectors } from './suggest'
+import type { SelectorDriftReport } from './types'
+
+async function readVenueConfigSource(): Promise<string | null> {
+  try {
+    return await fs.readFile(path.join(process.cwd(), VENUE_CONFIG_PATH), 'utf8')
+  } catch {
+    // Deployed bundles don't ship sources; the report keeps its suggestions
+    return null
+  }
+}
+
+/**
+ * Fingerprint a page the selectors parsed events from, or compare a page
+ * that produced none against the last good fingerprint. Returns the drift
+ * report when selectors stopped matching. Never fails the scrape.
+ */
+export async function trackVenuePage(
+  html: string,
+  scrapeConfig: ScrapeConfiguration,
+  page: { venueId: string; locationId: string; url: string },
+  eventCount: number
+): Promise<SelectorDriftReport | null> {
+  try {
+    const $ = cheerio.load(html)
+    const fingerprint = fingerprintPage($, scrapeConfig, page)
+
+    if (eventCount > 0) {
+      await saveFingerprint(fingerprint)
+      return null
+    }
+
+    const previous = await loadFingerprint(page.venueId, page.locationId)
+    if (!previous) return null
+
+    const drifted = detectDrift(previous, fingerprint, scrapeConfig)
+    if (drifted.length === 0) return null
+
+    const suggestions = suggestSelectors($, previous, drifted, scrapeConfig)
+    const source = suggestions.length > 0 ? await readVenueConfigSource() : null
+
+    const report: SelectorDriftReport = {
+      ...page,
+      detectedAt: fingerprint.capturedAt,
+      structureSimilarity: structureSimilarity(previous.structure, fingerprint.structure),
+      drifted,
+      suggestions,
+      diff: source ? buildConfigDiff(source, page.venueId, suggestions) : null,
+      status: 'open'
+    }
+
+    report.id = await saveDriftReport(report)
+    console.warn(
+      `Selector drift on ${page.venueId}/${page.locationId}: ${drifted.map(d => d.field).join(', ')} stopped matching, ` +
+      `${suggestions.length} suggestion${suggestions.length === 1 ? '' : 's'}`
+    )
+
+    return report
+  } catch (error) {
+    console.warn(`Selector drift tracking failed for ${page.venueId}/${page.locationId}:`, error)
+    return null
+  }
+}
@@ -0,0 +1,181 @@
+/**
+ * Selector drift store
+ * Last good fingerprint per venue location in venue_page_fingerprints and
+ * drift reports, with their config diffs, in selector_drift_reports for
+ * review through /api/admin/selector-drift.
+ */
+
+import { getServiceSupabaseClient } from '@/lib/supabase-server'
+import type { DriftReportStatus, PageFingerprint, SelectorDriftReport } from './types'
+
+interface DriftReportRow {
+  id: string
+  venue_id: string
+  location_id: string
+  url: string
+  detected_at: string
+  structure_similarity: number
+  drifted: SelectorDriftReport['drifted']
+  suggestions: SelectorDriftReport['suggestions']
+  diff: string | null
+  status: DriftReportStatus
+}
+
+const REPORT_COLUMNS = 'id, venue_id, location_id, url, detected_at, structure_similarity, drifted, suggestions, diff, status'
+
+function fromReportRow(row: DriftReportRow): SelectorDriftReport {
+  return {
+    id: row.id,
+    venueId: row.venue_id,
+    locationId: row.location_id,
+    url: row.url,
+    detectedAt: row.detected_at,
+    structureSimilarity: row.structure_similarity,
+    drifted: row.drifted || [],
+    suggestions: row.suggestions || [],
+    diff: row.diff,
+    status: row.status
+  }
+}
+
+export async function loadFingerprint(venueId: string, locationId: string): Promise<PageFingerprint | null> {
+  const supabase = getServiceSupabaseClient()
+
+  const { data, error } = await supabase
+    .from('venue_page_fingerprints')
+    .select('fingerprint')
+    .eq('venue_id', venueId)
+    .eq('location_id', locationId)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to load fingerprint for ${venueId}/${locationId}: ${error.message}`)
+  }
+
+  return data ? (data.fingerprint as PageFingerprint) : null
+}
+
+export async function saveFingerprint(fingerprint: PageFingerprint): Promise<void> {
+  const supabase = getServiceSupabaseClient()
+
+  const { error } = await supabase
+    .from('venue_page_fingerprints')
+    .upsert({
+      venue_id: fingerprint.venueId,
+      location_id: fingerprint.locationId,
+      url: fingerprint.url,
+      fingerprint,
+      captured_at: fingerprint.capturedAt
+    }, { onConflict: 'venue_id,location_id' })
+
+  if (error) {
+    throw new Error(`Failed to save fingerprint for ${fingerprint.venueId}/${fingerprint.locationId}: ${error.message}`)
+  }
+}
+
+/**
+ * Store a drift report, refreshing the open report for the same location
+ * instead of piling up one per scrape
+ */
+export async function saveDriftReport(report: SelectorDriftReport): Promise<string> {
+  const supabase = getServiceSupabaseClient()
+
+  const row = {
+    venue_id: report.venueId,
+    location_id: report.locationId,
+    url: report.url,
+    detected_at: report.detectedAt,
+    structure_similarity: report.structureSimilarity,
+    drifted: report.drifted,
+    suggestions: report.suggestions,
+    diff: report.diff
+  }
+
+  const { data: open, error: openError } = await supabase
+    .from('selector_drift_reports')
+    .select('id')
+    .eq('venue_id', report.venueId)
+    .eq('location_id', report.locationId)
+    .eq('status', 'open')
+    .maybeSingle()
+
+  if (openError) {
+    throw new Error(`Failed to load open drift report: ${openError.message}`)
+  }
+
+  if (open) {
+    const { error } = await supabase
+      .from('selector_drift_reports')
+      .update(row)
+      .eq('id', open.id)
+
+    if (error) {
+      throw new Error(`Failed to update drift report ${open.id}: ${error.message}`)
+    }
+    return open.id as string
+  }
+
+  const { data, error } = await supabase
+    .from('selector_drift_reports')
+    .insert({ ...row, status: 'open' })
+    .select('id')
+    .single()
+
+  if (error) {
+    throw new Error(`Failed to save drift report: ${error.message}`)
+  }
+  return data.id as string
+}
+
+export async function listDriftReports(options: {
+  status?: DriftReportStatus
+  venueId?: string
+  limit?: number
+} = {}): Promise<SelectorDriftReport[]> {
+  const supabase = getServiceSupabaseClient()
+
+  let query = supabase
+    .from('selector_drift_reports')
+    .select(REPORT_COLUMNS)
+    .eq('status', options.status || 'open')
+    .order('detected_at', { ascending: false })
+    .limit(options.limit || 50)
+
+  if (options.venueId) {
+    query = query.eq('venue_id', options.venueId)
+  }
+
+  const { data, error } = await query
+
+  if (error) {
+    throw new Error(`Failed to load drift reports: ${error.message}`)
+  }
+
+  return ((data || []) as DriftReportRow[]).map(fromReportRow)
+}
+
+/**
+ * Mark a report accepted (its diff was applied) or dismissed; returns null
+ * when there is no open report with that id
+ */
+export async function reviewDriftReport(
+  id: string,
+  status: Exclude<DriftReportStatus, 'open'>,
+  reviewedBy: string
+): Promise<SelectorDriftReport | null> {
+  const supabase = getServiceSupabaseClient()
+
+  const { data, error } = await supabase
+    .from('selector_drift_reports')
+    .update({ status, reviewed_by: reviewedBy, reviewed_at: new Date().toISOString() })
+    .eq('id', id)
+    .eq('status', 'open')
+    .select(REPORT_COLUMNS)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to review drift report ${id}: ${error.message}`)
+  }
+
+  return data ? fromReportRow(data as DriftReportRow) : null
+}
@@ -0,0 +1,235 @@
+/**
+ * Replacement selector suggestions for a venue page whose layout changed
+ * Finds the elements whose text resembles the titles and dates the old
+ * selectors produced, then works out the repeated item and container
+ * around them.
+ */
+
+import type { CheerioAPI } from 'cheerio'
+import type { Element } from 'domhandler'
+import type { ScrapeConfiguration } from '../types/venue'
+import { collapsedText, elementSignature, queryAll } from './fingerprint'
+import type { DriftField, PageFingerprint, SelectorDrift, SelectorSuggestion } from './types'
+
+// Bigram similarity a node's text needs to count as one of the previous titles
+const TITLE_MATCH = 0.8
+const MAX_TEXT_LENGTH = 200
+const MAX_DATE_LENGTH = 60
+const EXAMPLE_COUNT = 3
+
+const DATE_LIKE = new RegExp([
+  '\\b(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\\.?\\s+\\d{1,2}\\b',
+  '\\b\\d{1,2}\\s+(jan|feb|mar|apr|may|jun|jul|aug|sep|oct|nov|dec)[a-z]*\\b',
+  '\\b\\d{4}-\\d{2}-\\d{2}\\b',
+  '\\b\\d{1,2}[/.]\\d{1,2}([/.]\\d{2,4})?\\b',
+  '\\b(mon|tue|wed|thu|fri|sat|sun)[a-z]*\\b'
+].join('|'), 'i')
+
+function bigrams(text: string): string[] {
+  const normalized = text.toLowerCase().replace(/[^\w]+/g, ' ').trim()
+  const grams: string[] = []
+  for (let i = 0; i < normalized.length - 1; i++) {
+    grams.push(normalized.slice(i, i + 2))
+  }
+  return grams
+}
+
+/**
+ * Dice coefficient over character bigrams, 0-1
+ */
+export function textSimilarity(a: string, b: string): number {
+  const gramsA = bigrams(a)
+  const gramsB = bigrams(b)
+  if (gramsA.length === 0 || gramsB.length === 0) {
+    return a.trim().toLowerCase() === b.trim().toLowerCase() ? 1 : 0
+  }
+
+  const remaining = new Map<string, number>()
+  for (const gram of gramsB) remaining.set(gram, (remaining.get(gram) || 0) + 1)
+
+  let shared = 0
+  for (const gram of gramsA) {
+    const count = remaining.get(gram) || 0
+    if (count > 0) {
+      shared++
+      remaining.set(gram, count - 1)
+    }
+  }
+
+  return (2 * shared) / (gramsA.length + gramsB.length)
+}
+
+function resemblesDate(text: string, previousDates: string[]): boolean {
+  if (text.length > MAX_DATE_LENGTH) return false
+  return DATE_LIKE.test(text) || previousDates.some(date => textSimilarity(text, date) >= TITLE_MATCH)
+}
+
+/**
+ * Innermost elements carrying a piece of text (no child with the same text)
+ */
+function textElements($: CheerioAPI, root: Element): Element[] {
+  return queryAll($, '*', root).filter(element => {
+    if (['script', 'style', 'noscript'].includes(element.tagName.toLowerCase())) return false
+    const text = collapsedText($, element)
+    if (text.length < 2 || text.length > MAX_TEXT_LENGTH) return false
+    return !$(element).children().toArray().some(child => collapsedText($, child) === text)
+  })
+}
+
+function parentOf($: CheerioAPI, element: Element): Element | null {
+  return $(element).parent().get(0) || null
+}
+
+function mostCommon<T>(values: T[], keyOf: (value: T) => string): { key: string; values: T[] } | null {
+  const groups = new Map<string, T[]>()
+  for (const value of values) {
+    const key = keyOf(value)
+    if (!groups.has(key)) groups.set(key, [])
+    groups.get(key)!.push(value)
+  }
+
+  let best: { key: string; values: T[] } | null = null
+  for (const [key, group] of Array.from(groups.entries())) {
+    if (!best || group.length > best.values.length) best = { key, values: group }
+  }
+  return best
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100
+}
+
+function currentSelectors(scrapeConfig: ScrapeConfiguration, field: DriftField): string | string[] {
+  if (field === 'container' || field === 'eventItem') {
+    return scrapeConfig.listingSelectors[field]
+  }
+  return scrapeConfig.eventSelectors[field] || []
+}
+
+function alreadyConfigured(current: string | string[], proposed: string): boolean {
+  const list = Array.isArray(current) ? current : current.split(',')
+  return list.map(selector => selector.trim()).includes(proposed)
+}
+
+/**
+ * Propose replacements for the drifted selectors of a venue page
+ */
+export function suggestSelectors(
+  $: CheerioAPI,
+  previous: PageFingerprint,
+  drifted: SelectorDrift[],
+  scrapeConfig: ScrapeConfiguration
+): SelectorSuggestion[] {
+  const body = $('body').get(0)
+  const previousTitles = previous.samples.titles
+  if (!body || drifted.length === 0 || previousTitles.length === 0) return []
+
+  const text = (element: Element) => collapsedText($, element)
+  const candidates = textElements($, body)
+  const bestTitleMatch = (element: Element) => Math.max(
+    ...previousTitles.map(title => textSimilarity(text(element), title))
+  )
+
+  // Title nodes: the largest group of same-signature elements that read like old titles
+  const titleGroup = mostCommon(
+    candidates.filter(element => bestTitleMatch(element) >= TITLE_MATCH),
+    elementSignature
+  )
+  if (!titleGroup || titleGroup.values.length < Math.min(2, previousTitles.length)) return []
+
+  const titleNodes = titleGroup.values
+  const titleSelector = titleGroup.key
+  const recall = previousTitles.filter(title =>
+    titleNodes.some(node => textSimilarity(text(node), title) >= TITLE_MATCH)
+  ).length / previousTitles.length
+
+  // Event items: the outermost ancestor of each title that holds no other title
+  const items = titleNodes.map(node => {
+    let item = node
+    let parent = parentOf($, item)
+    while (
+      parent &&
+      parent !== body &&
+      titleNodes.filter(other => $.contains(parent!, other)).length === 1
+    ) {
+      item = parent
+      parent = parentOf($, item)
+    }
+    return item
+  })
+
+  const itemGroup = mostCommon(items, elementSignature)!
+  const itemSelector = itemGroup.key
+  const containerGroup = mostCommon(
+    itemGroup.values.filter(item => parentOf($, item)),
+    item => {
+      const parent = parentOf($, item)!
+      const id = parent.attribs.id
+      return id && /^[A-Za-z][\w-]*$/.test(id) ? `#${id}` : elementSignature(parent)
+    }
+  )
+  const containerSelector = containerGroup ? containerGroup.key : 'body'
+  const container = queryAll($, containerSelector)[0] || body
+
+  const itemPrecision = itemGroup.values.length / Math.max(1, queryAll($, itemSelector, container).length)
+  const titlePrecision = titleNodes.length / Math.max(1, queryAll($, titleSelector, container).length)
+
+  // Dates: the signature of date-like text found in the most items,
+  // preferring the innermost element ("<time>" over "<p><time/> · Doors 7pm</p>")
+  const dateGroup = mostCommon(
+    itemGroup.values.flatMap(item => {
+      const seen = new Set<string>()
+      const dateElements = textElements($, item)
+        .filter(element => !titleNodes.includes(element) && resemblesDate(text(element), previous.samples.dates))
+      return dateElements
+        .filter(element => !dateElements.some(other => other !== element && $.contains(element, other)))
+        .filter(element => {
+          const signature = elementSignature(element)
+          if (seen.has(signature)) return false
+          seen.add(signature)
+          return true
+        })
+    }),
+    elementSignature
+  )
+
+  const proposals: Partial<Record<DriftField, Omit<SelectorSuggestion, 'field' | 'current'>>> = {
+    container: {
+      proposed: containerSelector,
+      confidence: round(recall * (container === body ? 0.5 : 1)),
+      matches: container === body ? 0 : 1,
+      examples: []
+    },
+    eventItem: {
+      proposed: itemSelector,
+      confidence: round(recall * itemPrecision),
+      matches: itemGroup.values.length,
+      examples: itemGroup.values.slice(0, EXAMPLE_COUNT).map(item => text(item).slice(0, 80))
+    },
+    title: {
+      proposed: titleSelector,
+      confidence: round((2 * recall * titlePrecision) / Math.max(recall + titlePrecision, 0.01)),
+      matches: titleNodes.length,
+      examples: titleNodes.slice(0, EXAMPLE_COUNT).map(text)
+    }
+  }
+
+  if (dateGroup && dateGroup.values.length >= Math.ceil(itemGroup.values.length / 2)) {
+    proposals.date = {
+      proposed: dateGroup.key,
+      confidence: round(dateGroup.values.length / itemGroup.values.length),
+      matches: dateGroup.values.length,
+      examples: dateGroup.values.slice(0, EXAMPLE_COUNT).map(text)
+    }
+  }
+
+  const suggestions: SelectorSuggestion[] = []
+  for (const { field } of drifted) {
+    const proposal = proposals[field]
+    const current = currentSelectors(scrapeConfig, field)
+    if (!proposal || alreadyConfigured(current, proposal.proposed)) continue
+    suggestions.push({ field, current, ...proposal })
+  }
+
+  return suggestions
+}
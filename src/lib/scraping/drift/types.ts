@@ -0,0 +1,60 @@
+/**
+ * Types for venue page fingerprints and selector drift reports
+ */
+
+/** Selector entries of a venue config that drift is tracked for */
+export type DriftField = 'container' | 'eventItem' | 'title' | 'date' | 'time' | 'price' | 'image'
+
+/**
+ * Structure of a venue page the last time its selectors worked
+ */
+export interface PageFingerprint {
+  venueId: string
+  locationId: string
+  url: string
+  capturedAt: string
+  eventCount: number
+  /** Elements matched by each selector entry; event fields count the items they matched in */
+  selectorCounts: Partial<Record<DriftField, number>>
+  /** tag.class signatures of repeated elements, most frequent first */
+  structure: string[]
+  /** Text the title and date selectors produced, used to find their replacements */
+  samples: {
+    titles: string[]
+    dates: string[]
+  }
+}
+
+export interface SelectorDrift {
+  field: DriftField
+  selector: string | string[]
+  previousCount: number
+  currentCount: number
+}
+
+export interface SelectorSuggestion {
+  field: DriftField
+  current: string | string[]
+  proposed: string
+  /** 0-1, how well the proposed selector picks out the previous titles/dates */
+  confidence: number
+  matches: number
+  examples: string[]
+}
+
+export type DriftReportStatus = 'open' | 'accepted' | 'dismissed'
+
+export interface SelectorDriftReport {
+  id?: string
+  venueId: string
+  locationId: string
+  url: string
+  detectedAt: string
+  /** Jaccard similarity of the page structure before and after, 0-1 */
+  structureSimilarity: number
+  drifted: SelectorDrift[]
+  suggestions: SelectorSuggestion[]
+  /** Unified diff against venue-configs.ts; null when nothing could be proposed */
+  diff: string | null
+  status: DriftReportStatus
+}
@@ -0,0 +1,66 @@
+/**
+ * Scraper-side health tracking: records each run and raises an alert
+ * through AlertManager when a source or venue is quarantined or released
+ */
+
+import { AlertManager } from '@/monitoring/alerts/AlertManager'
+import { recordScraperRun, type RecordedScraperRun } from './service'
+import type { ScraperQuarantine, ScraperRun } from './types'
+
+let alertManager: Promise<AlertManager> | null = null
+
+function getAlertManager(): Promise<AlertManager> {
+  if (!alertManager) {
+    const manager = new AlertManager()
+    alertManager = manager.initialize().then(() => manager)
+  }
+  return alertManager
+}
+
+function alertId(key: string): string {
+  return `scraper-quarantine:${key}`
+}
+
+async function alertQuarantined(quarantine: ScraperQuarantine, recorded: RecordedScraperRun): Promise<void> {
+  const manager = await getAlertManager()
+
+  await manager.processAlert({
+    id: alertId(quarantine.key),
+    severity: quarantine.reason === 'yield_collapse' ? 'high' : 'medium',
+    type: 'availability',
+    message: `Scraper ${quarantine.key} quarantined (${quarantine.reason}): ${quarantine.detail}`,
+    agentId: quarantine.key,
+    metrics: {
+      successRate: recorded.score.successRate,
+      zeroResultStreak: recorded.score.zeroResultStreak,
+      baselineYield: recorded.score.baselineYield,
+      lastYield: recorded.score.lastYield,
+      selectorMisses: recorded.score.selectorMisses,
+      p95LatencyMs: recorded.score.latency.p95Ms
+    },
+    timestamp: new Date(),
+    resolved: false
+  })
+}
+
+/**
+ * Record a run and report whether its results should be withheld.
+ * Tracking failures (e.g. no database in local runs) never fail the scrape.
+ */
+export async function trackScraperRun(run: ScraperRun): Promise<RecordedScraperRun | null> {
+  try {
+    const recorded = await recordScraperRun(run)
+
+    if (recorded.change === 'quarantined' && recorded.quarantine) {
+      await alertQuarantined(recorded.quarantine, recorded)
+    } else if (recorded.change === 'released') {
+      const manager = await getAlertManager()
+      await manager.resolveAlert(alertId(recorded.score.key), 'auto')
+    }
+
+    return recorded
+  } catch (error) {
+    console.warn(`Scraper health tracking failed for ${run.source}:`, error)
+    return null
+  }
+}
@@ -0,0 +1,200 @@
+/**
+ * Rolling scraper health scores and quarantine rules
+ * Pure functions over recorded runs, so the same verdicts come out of the
+ * scraper process, the health API and the tests.
+ */
+
+import type {
+  QuarantineChange,
+  QuarantineReason,
+  ScraperHealthScore,
+  ScraperQuarantine,
+  ScraperRun
+} from './types'
+
+// Runs per target/venue the scores are computed over
+export const SCORE_WINDOW = 20
+
+export const QUARANTINE_RULES = {
+  // A venue that normally lists 30 events and returns 3 or fewer has collapsed
+  minBaselineYield: 10,
+  collapseRatio: 0.1,
+  zeroResultStreak: 3,
+  minRunsForFailureRate: 5,
+  minSuccessRate: 0.5,
+  // Probe runs keep going while quarantined; this many healthy ones in a row release it
+  releaseAfterHealthyRuns: 2,
+  healthyYieldRatio: 0.5
+}
+
+export function healthKey(source: string, venueId?: string | null, targetId?: string | null): string {
+  if (venueId) return `${source}:${venueId}`
+  return targetId ? `${source}:${targetId}` : source
+}
+
+function median(values: number[]): number | null {
+  if (values.length === 0) return null
+  const sorted = [...values].sort((a, b) => a - b)
+  const middle = Math.floor(sorted.length / 2)
+  return sorted.length % 2 === 0
+    ? (sorted[middle - 1] + sorted[middle]) / 2
+    : sorted[middle]
+}
+
+function percentile(values: number[], p: number): number {
+  if (values.length === 0) return 0
+  const sorted = [...values].sort((a, b) => a - b)
+  return sorted[Math.min(sorted.length - 1, Math.ceil(p * sorted.length) - 1)]
+}
+
+function byStartTime(runs: ScraperRun[]): ScraperRun[] {
+  return [...runs].sort((a, b) => Date.parse(a.startedAt) - Date.parse(b.startedAt))
+}
+
+/**
+ * Typical yield: median event count of successful, non-empty runs
+ */
+function baselineYield(runs: ScraperRun[]): number | null {
+  return median(runs.filter(run => run.success && run.eventsFound > 0).map(run => run.eventsFound))
+}
+
+/**
+ * Score the most recent SCORE_WINDOW runs of a source, target or venue
+ */
+export function scoreRuns(
+  source: string,
+  venueId: string | null,
+  runs: ScraperRun[],
+  targetId: string | null = null
+): ScraperHealthScore {
+  const window = byStartTime(runs).slice(-SCORE_WINDOW)
+  const latest = window[window.length - 1]
+  const latencies = window.map(run => run.durationMs)
+
+  let zeroResultStreak = 0
+  for (let i = window.length - 1; i >= 0 && window[i].eventsFound === 0; i--) {
+    zeroResultStreak++
+  }
+
+  return {
+    key: healthKey(source, venueId, targetId),
+    source,
+    targetId,
+    venueId,
+    runs: window.length,
+    successRate: window.length > 0
+      ? window.filter(run => run.success).length / window.length
+      : 0,
+    zeroResultStreak,
+    selectorMisses: window.reduce((sum, run) => sum + run.selectorMisses, 0),
+    latency: {
+      avgMs: latencies.length > 0
+        ? Math.round(latencies.reduce((sum, ms) => sum + ms, 0) / latencies.length)
+        : 0,
+      p95Ms: percentile(latencies, 0.95),
+      history: latencies
+    },
+    baselineYield: baselineYield(window.slice(0, -1)),
+    lastYield: latest ? latest.eventsFound : null,
+    lastRunAt: latest ? latest.startedAt : null
+  }
+}
+
+/**
+ * Whether a score calls for quarantine, and why
+ */
+export function evaluateQuarantine(
+  score: ScraperHealthScore
+): { reason: QuarantineReason; detail: string } | null {
+  const rules = QUARANTINE_RULES
+
+  if (
+    score.baselineYield !== null &&
+    score.lastYield !== null &&
+    score.baselineYield >= rules.minBaselineYield &&
+    score.lastYield <= score.baselineYield * rules.collapseRatio
+  ) {
+    return {
+      reason: 'yield_collapse',
+      detail: `${score.lastYield} events, usually ${score.baselineYield}`
+    }
+  }
+
+  if (score.zeroResultStreak >= rules.zeroResultStreak) {
+    return {
+      reason: 'zero_result_streak',
+      detail: `No events in the last ${score.zeroResultStreak} runs`
+    }
+  }
+
+  if (score.runs >= rules.minRunsForFailureRate && score.successRate < rules.minSuccessRate) {
+    return {
+      reason: 'failure_rate',
+      detail: `${Math.round(score.successRate * 100)}% of the last ${score.runs} runs succeeded`
+    }
+  }
+
+  return null
+}
+
+/**
+ * A probe run that looks like the source has recovered
+ */
+export function isHealthyRun(run: ScraperRun, baseline: number | null): boolean {
+  return run.success &&
+    run.eventsFound > 0 &&
+    (baseline === null || run.eventsFound >= baseline * QUARANTINE_RULES.healthyYieldRatio)
+}
+
+/**
+ * Apply the latest runs to a target's or venue's quarantine state:
+ * quarantine it when the score calls for it, or release it after enough
+ * healthy probe runs
+ */
+export function nextQuarantineState(
+  source: string,
+  venueId: string | null,
+  runs: ScraperRun[],
+  current: ScraperQuarantine | null,
+  targetId: string | null = null
+): { score: ScraperHealthScore; quarantine: ScraperQuarantine | null; change: QuarantineChange } {
+  const score = scoreRuns(source, venueId, runs, targetId)
+
+  if (current) {
+    const since = Date.parse(current.quarantinedAt)
+    const before = runs.filter(run => Date.parse(run.startedAt) <= since)
+    const after = byStartTime(runs.filter(run => Date.parse(run.startedAt) > since))
+    const baseline = baselineYield(before)
+
+    let healthyRuns = 0
+    for (let i = after.length - 1; i >= 0 && isHealthyRun(after[i], baseline); i--) {
+      healthyRuns++
+    }
+
+    if (healthyRuns >= QUARANTINE_RULES.releaseAfterHealthyRuns) {
+      return { score, quarantine: null, change: 'released' }
+    }
+
+    return { score, quarantine: { ...current, healthyRuns }, change: null }
+  }
+
+  const verdict = evaluateQuarantine(score)
+  if (!verdict || !score.lastRunAt) {
+    return { score, quarantine: null, change: null }
+  }
+
+  return {
+    score,
+    quarantine: {
+      key: score.key,
+      source,
+      targetId,
+      venueId,
+      reason: verdict.reason,
+      detail: verdict.detail,
+      quarantinedAt: score.lastRunAt,
+      healthyRuns: 0
+    },
+    change: 'quarantined'
+  }
+}
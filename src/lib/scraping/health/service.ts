@@ -0,0 +1,264 @@
+/**
+ * Scraper health store
+ * Records runs in scraper_runs, keeps scraper_quarantine in step with the
+ * scoreboard rules and builds the scoreboard served by /api/scraper-health.
+ */
+
+import { getServiceSupabaseClient } from '@/lib/supabase-server'
+import { SCORE_WINDOW, healthKey, nextQuarantineState, scoreRuns } from './scoreboard'
+import type {
+  QuarantineChange,
+  ScoreboardEntry,
+  ScraperHealthScore,
+  ScraperQuarantine,
+  ScraperRun,
+  ScraperScoreboard
+} from './types'
+
+interface ScraperRunRow {
+  health_key: string
+  source: string
+  target_id: string | null
+  venue_id: string | null
+  started_at: string
+  duration_ms: number
+  success: boolean
+  events_found: number
+  selector_misses: number
+  error: string | null
+}
+
+interface ScraperQuarantineRow {
+  health_key: string
+  source: string
+  target_id: string | null
+  venue_id: string | null
+  reason: ScraperQuarantine['reason']
+  detail: string | null
+  quarantined_at: string
+  healthy_runs: number
+}
+
+export interface RecordedScraperRun {
+  score: ScraperHealthScore
+  quarantine: ScraperQuarantine | null
+  change: QuarantineChange
+}
+
+// Runs loaded for the scoreboard; a few days of hourly venue scrapes
+const DEFAULT_SCOREBOARD_LIMIT = 5000
+
+function fromRunRow(row: ScraperRunRow): ScraperRun {
+  return {
+    source: row.source,
+    targetId: row.target_id,
+    venueId: row.venue_id,
+    startedAt: row.started_at,
+    durationMs: row.duration_ms,
+    success: row.success,
+    eventsFound: row.events_found,
+    selectorMisses: row.selector_misses,
+    error: row.error
+  }
+}
+
+function fromQuarantineRow(row: ScraperQuarantineRow): ScraperQuarantine {
+  return {
+    key: row.health_key,
+    source: row.source,
+    targetId: row.target_id,
+    venueId: row.venue_id,
+    reason: row.reason,
+    detail: row.detail || '',
+    quarantinedAt: row.quarantined_at,
+    healthyRuns: row.healthy_runs
+  }
+}
+
+/**
+ * Active quarantine for a target or venue, if any
+ */
+export async function getActiveQuarantine(key: string): Promise<ScraperQuarantine | null> {
+  const supabase = getServiceSupabaseClient()
+
+  const { data, error } = await supabase
+    .from('scraper_quarantine')
+    .select('health_key, source, target_id, venue_id, reason, detail, quarantined_at, healthy_runs')
+    .eq('health_key', key)
+    .is('released_at', null)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Failed to load quarantine for ${key}: ${error.message}`)
+  }
+
+  return data ? fromQuarantineRow(data as ScraperQuarantineRow) : null
+}
+
+/**
+ * Store a run, then quarantine or release its target/venue as the rolling
+ * score dictates
+ */
+export async function recordScraperRun(run: ScraperRun): Promise<RecordedScraperRun> {
+  const supabase = getServiceSupabaseClient()
+  const venueId = run.venueId || null
+  const targetId = venueId ? null : run.targetId || null
+  const key = healthKey(run.source, venueId, targetId)
+
+  const { error: insertError } = await supabase
+    .from('scraper_runs')
+    .insert({
+      health_key: key,
+      source: run.source,
+      target_id: targetId,
+      venue_id: venueId,
+      started_at: run.startedAt,
+      duration_ms: Math.round(run.durationMs),
+      success: run.success,
+      events_found: run.eventsFound,
+      selector_misses: run.selectorMisses,
+      error: run.error || null
+    })
+
+  if (insertError) {
+    throw new Error(`Failed to record run for ${key}: ${insertError.message}`)
+  }
+
+  const { data, error } = await supabase
+    .from('scraper_runs')
+    .select('health_key, source, target_id, venue_id, started_at, duration_ms, success, events_found, selector_misses, error')
+    .eq('health_key', key)
+    .order('started_at', { ascending: false })
+    .limit(SCORE_WINDOW)
+
+  if (error) {
+    throw new Error(`Failed to load runs for ${key}: ${error.message}`)
+  }
+
+  const runs = ((data || []) as ScraperRunRow[]).map(fromRunRow)
+  const current = await getActiveQuarantine(key)
+  const next = nextQuarantineState(run.source, venueId, runs, current, targetId)
+
+  if (next.change === 'quarantined' && next.quarantine) {
+    const { error: quarantineError } = await supabase
+      .from('scraper_quarantine')
+      .upsert({
+        health_key: key,
+        source: run.source,
+        target_id: targetId,
+        venue_id: venueId,
+        reason: next.quarantine.reason,
+        detail: next.quarantine.detail,
+        quarantined_at: next.quarantine.quarantinedAt,
+        healthy_runs: 0,
+        released_at: null,
+        released_by: null
+      }, { onConflict: 'health_key' })
+
+    if (quarantineError) {
+      throw new Error(`Failed to quarantine ${key}: ${quarantineError.message}`)
+    }
+  } else if (next.change === 'released') {
+    await releaseScraperQuarantine(key, 'auto')
+  } else if (next.quarantine && current && next.quarantine.healthyRuns !== current.healthyRuns) {
+    await supabase
+      .from('scraper_quarantine')
+      .update({ healthy_runs: next.quarantine.healthyRuns })
+      .eq('health_key', key)
+  }
+
+  return next
+}
+
+/**
+ * Lift a quarantine; returns false when there was none
+ */
+export async function releaseScraperQuarantine(key: string, releasedBy: string): Promise<boolean> {
+  const supabase = getServiceSupabaseClient()
+
+  const { data, error } = await supabase
+    .from('scraper_quarantine')
+    .update({ released_at: new Date().toISOString(), released_by: releasedBy })
+    .eq('health_key', key)
+    .is('released_at', null)
+    .select('health_key')
+
+  if (error) {
+    throw new Error(`Failed to release ${key}: ${error.message}`)
+  }
+
+  return (data || []).length > 0
+}
+
+/**
+ * Rolling scores for every source, target and venue with recent runs
+ */
+export async function getScraperScoreboard(options: { limit?: number } = {}): Promise<ScraperScoreboard> {
+  const supabase = getServiceSupabaseClient()
+
+  const [runsResult, quarantineResult] = await Promise.all([
+    supabase
+      .from('scraper_runs')
+      .select('health_key, source, target_id, venue_id, started_at, duration_ms, success, events_found, selector_misses, error')
+      .order('started_at', { ascending: false })
+      .limit(options.limit || DEFAULT_SCOREBOARD_LIMIT),
+    supabase
+      .from('scraper_quarantine')
+      .select('health_key, source, target_id, venue_id, reason, detail, quarantined_at, healthy_runs')
+      .is('released_at', null)
+  ])
+
+  if (runsResult.error) {
+    throw new Error(`Failed to load scraper runs: ${runsResult.error.message}`)
+  }
+  if (quarantineResult.error) {
+    throw new Error(`Failed to load quarantines: ${quarantineResult.error.message}`)
+  }
+
+  const quarantines = new Map<string, ScraperQuarantine>()
+  for (const row of (quarantineResult.data || []) as ScraperQuarantineRow[]) {
+    quarantines.set(row.health_key, fromQuarantineRow(row))
+  }
+
+  const bySource = new Map<string, ScraperRun[]>()
+  const byTarget = new Map<string, ScraperRun[]>()
+  const byVenue = new Map<string, ScraperRun[]>()
+  for (const row of (runsResult.data || []) as ScraperRunRow[]) {
+    const run = fromRunRow(row)
+    if (!bySource.has(run.source)) bySource.set(run.source, [])
+    bySource.get(run.source)!.push(run)
+
+    if (run.venueId) {
+      if (!byVenue.has(row.health_key)) byVenue.set(row.health_key, [])
+      byVenue.get(row.health_key)!.push(run)
+    } else if (run.targetId) {
+      if (!byTarget.has(row.health_key)) byTarget.set(row.health_key, [])
+      byTarget.get(row.health_key)!.push(run)
+    }
+  }
+
+  const toEntry = (score: ScraperHealthScore): ScoreboardEntry => ({
+    ...score,
+    quarantine: quarantines.get(score.key) || null
+  })
+
+  const sources = Array.from(bySource.entries())
+    .map(([source, runs]) => toEntry(scoreRuns(source, null, runs)))
+    .sort((a, b) => a.key.localeCompare(b.key))
+
+  const targets = Array.from(byTarget.values())
+    .map(runs => toEntry(scoreRuns(runs[0].source, null, runs, runs[0].targetId || null)))
+    .sort((a, b) => a.key.localeCompare(b.key))
+
+  const venues = Array.from(byVenue.values())
+    .map(runs => toEntry(scoreRuns(runs[0].source, runs[0].venueId || null, runs)))
+    .sort((a, b) => a.key.localeCompare(b.key))
+
+  return {
+    generatedAt: new Date().toISOString(),
+    sources,
+    targets,
+    venues,
+    quarantined: quarantines.size
+  }
+}
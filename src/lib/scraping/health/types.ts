@@ -0,0 +1,69 @@
+/**
+ * Types for the rolling scraper health scoreboard
+ */
+
+export type QuarantineReason = 'yield_collapse' | 'zero_result_streak' | 'failure_rate'
+
+/**
+ * One scrape of a source target (targetId), or of a single venue when
+ * venueId is set
+ */
+export interface ScraperRun {
+  source: string
+  /** Scrape target config id; a source's targets are scored apart */
+  targetId?: string | null
+  venueId?: string | null
+  startedAt: string
+  durationMs: number
+  success: boolean
+  eventsFound: number
+  selectorMisses: number
+  error?: string | null
+}
+
+export interface ScraperHealthScore {
+  key: string
+  source: string
+  targetId: string | null
+  venueId: string | null
+  runs: number
+  successRate: number
+  zeroResultStreak: number
+  selectorMisses: number
+  latency: {
+    avgMs: number
+    p95Ms: number
+    history: number[]
+  }
+  /** Median yield of earlier successful runs; null until there is one */
+  baselineYield: number | null
+  lastYield: number | null
+  lastRunAt: string | null
+}
+
+export interface ScraperQuarantine {
+  key: string
+  source: string
+  targetId: string | null
+  venueId: string | null
+  reason: QuarantineReason
+  detail: string
+  quarantinedAt: string
+  /** Consecutive healthy probe runs since the quarantine started */
+  healthyRuns: number
+}
+
+export type QuarantineChange = 'quarantined' | 'released' | null
+
+export interface ScoreboardEntry extends ScraperHealthScore {
+  quarantine: ScraperQuarantine | null
+}
+
+export interface ScraperScoreboard {
+  generatedAt: string
+  /** Every run of a source rolled up; quarantine applies per target */
+  sources: ScoreboardEntry[]
+  targets: ScoreboardEntry[]
+  venues: ScoreboardEntry[]
+  quarantined: number
+}
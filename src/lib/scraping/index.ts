@@ -37,6 +37,7 @@ import {
   ScrapingMetrics
 } from './types'
 import { getTargetConfig, getTargetsForLocation, getTargetsForCategory } from './config/targets'
+import { trackScraperRun } from './health/recorder'
 
 /**
  * Main orchestrator class for the SceneScout scraping system
@@ -140,6 +141,12 @@ export class SceneScoutScraper {
       
       // Normalize results
       for (const rawData of rawResults) {
+        const target = targets.find(t => t.baseUrl === rawData.sourceUrl)
+        if (await this.isQuarantined(rawData, target?.id || rawData.sourceUrl)) {
+          results.errors.push(...rawData.errors)
+          continue
+        }
+
         // Normalize events
         for (const rawEvent of rawData.events) {
           try {
@@ -226,6 +233,10 @@ export class SceneScoutScraper {
       
       await this.factory.destroyScraper(scraper.name)
       
+      if (await this.isQuarantined(result, target.id)) {
+        return { ...result, events: [], venues: [] }
+      }
+      
       this.logger.info('scraper', 'Source scrape completed', {
         source,
         eventsFound: result.events.length,
@@ -241,6 +252,35 @@ export class SceneScoutScraper {
     }
   }
   
+  /**
+   * Record a scrape in the health scoreboard; true when its target is
+   * quarantined and its results should not be written. Targets are scored
+   * apart so one thin category page can't quarantine the whole source.
+   */
+  private async isQuarantined(rawData: RawScrapedData, targetId: string): Promise<boolean> {
+    const health = await trackScraperRun({
+      source: rawData.source,
+      targetId,
+      startedAt: rawData.scrapedAt.toISOString(),
+      durationMs: rawData.metadata.timeTaken,
+      success: rawData.errors.length === 0 || rawData.events.length > 0,
+      eventsFound: rawData.events.length,
+      selectorMisses: rawData.errors.filter(error => error.selector).length,
+      error: rawData.errors[0]?.message
+    })
+
+    if (!health?.quarantine) return false
+
+    this.logger.warn('scraper', 'Target quarantined, withholding results', {
+      source: rawData.source,
+      targetId,
+      reason: health.quarantine.reason,
+      detail: health.quarantine.detail,
+      eventsFound: rawData.events.length
+    })
+    return true
+  }
+  
   /**
    * Get system health status
    */
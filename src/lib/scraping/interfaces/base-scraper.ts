@@ -15,6 +15,9 @@ import {
   ScrapingMetrics,
   DataQualityReport
 } from '../types'
+import { FixtureCassette, fixturesFromEnv } from '../replay/cassette'
+import { fixtureFetch } from '../replay/http'
+import { recordBrowser, replayBrowser } from '../replay/browser'
 
 /**
  * Core interface that all scrapers must implement
@@ -58,10 +61,12 @@ export abstract class BaseScraper implements IScraper {
   protected rateLimitState: RateLimitState
   protected metrics: ScrapingMetrics[] = []
   protected isInitialized = false
+  protected fixtures: FixtureCassette | null
   
   constructor(name: string, config: ScraperConfig) {
     this.name = name
     this.config = config
+    this.fixtures = fixturesFromEnv(name)
     this.rateLimitState = {
       requestCount: 0,
       windowStart: new Date(),
@@ -74,6 +79,15 @@ export abstract class BaseScraper implements IScraper {
     return this.isInitialized && this.browser !== null
   }
   
+  /**
+   * Record to or replay from a fixture cassette instead of the one named
+   * by SCRAPER_FIXTURES. Call before initialize().
+   */
+  useFixtures(fixtures: FixtureCassette | null): this {
+    this.fixtures = fixtures
+    return this
+  }
+  
   /**
    * Initialize the scraper and browser instance
    */
@@ -83,7 +97,7 @@ export abstract class BaseScraper implements IScraper {
     }
     
     try {
-      this.browser = await this.createBrowser()
+      this.browser = await this.launchBrowser()
       this.isInitialized = true
       await this.logInfo('Scraper initialized successfully')
     } catch (error) {
@@ -143,7 +157,8 @@ export abstract class BaseScraper implements IScraper {
    */
   async validateTarget(target: ScrapeTarget): Promise<boolean> {
     try {
-      const response = await fetch(target.baseUrl, {
+      const request = this.fixtures ? fixtureFetch(this.fixtures, fetch) : fetch
+      const response = await request(target.baseUrl, {
         method: 'HEAD',
         headers: target.customHeaders || {}
       })
@@ -340,6 +355,18 @@ export abstract class BaseScraper implements IScraper {
   
   // Protected helper methods
   
+  /**
+   * Browser for the fixture mode: recorded, replayed or plain live
+   */
+  private async launchBrowser(): Promise<Browser> {
+    if (this.fixtures?.isReplay) {
+      return replayBrowser(this.fixtures)
+    }
+    
+    const browser = await this.createBrowser()
+    return this.fixtures ? recordBrowser(browser, this.fixtures) : browser
+  }
+  
   /**
    * Create and configure browser instance
    */
@@ -514,6 +541,8 @@ export abstract class BaseScraper implements IScraper {
    * Delay execution for specified milliseconds
    */
   protected async delay(ms: number): Promise<void> {
+    // Replays don't wait on anyone
+    if (this.fixtures?.isReplay) return
     return new Promise(resolve => setTimeout(resolve, ms))
   }
   
@@ -1,6 +1,25 @@
 import { VenueEvent, EventSelectors, VenueInfo, ScrapingError } from '../types/venue';
 import { parse } from 'date-fns';
 
+/**
+ * Stable id for a venue event (venue, title and day), shared by every
+ * parser so the same show dedupes however it was extracted
+ */
+export function generateVenueEventId(event: Pick<VenueEvent, 'title' | 'date' | 'venue'>): string {
+  const titleSlug = event.title.toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/-+/g, '-')
+    .replace(/^-|-$/g, '');
+  
+  const dateStr = event.date.toISOString().split('T')[0];
+  const venueSlug = event.venue.name.toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/-+/g, '-')
+    .replace(/^-|-$/g, '');
+
+  return `${venueSlug}-${titleSlug}-${dateStr}`;
+}
+
 export class AdaptiveParser {
   private fallbackSelectors: Map<string, string[]> = new Map();
   private patterns: Map<string, RegExp[]> = new Map();
@@ -416,18 +435,7 @@ export class AdaptiveParser {
   }
 
   private generateEventId(event: VenueEvent): string {
-    const titleSlug = event.title.toLowerCase()
-      .replace(/[^a-z0-9]+/g, '-')
-      .replace(/-+/g, '-')
-      .replace(/^-|-$/g, '');
-    
-    const dateStr = event.date.toISOString().split('T')[0];
-    const venueSlug = event.venue.name.toLowerCase()
-      .replace(/[^a-z0-9]+/g, '-')
-      .replace(/-+/g, '-')
-      .replace(/^-|-$/g, '');
-
-    return `${venueSlug}-${titleSlug}-${dateStr}`;
+    return generateVenueEventId(event);
   }
 
   public validateEvent(event: VenueEvent): ScrapingError[] {
@@ -0,0 +1,464 @@
+import { fromZonedTime, formatInTimeZone } from 'date-fns-tz';
+import {
+  RecurrenceRule,
+  parseRecurrenceRule,
+  expandRecurrence
+} from './recurrence';
+
+/**
+ * A DATE or DATE-TIME value from a calendar
+ */
+export interface IcsDateValue {
+  /** The instant the value refers to */
+  date: Date;
+  /** Wall-clock time (UTC fields hold local values) in `timezone` */
+  local: Date;
+  /** VALUE=DATE, i.e. an all-day value */
+  allDay: boolean;
+  /** IANA timezone the value was resolved in */
+  timezone: string;
+}
+
+export type IcsEventStatus = 'TENTATIVE' | 'CONFIRMED' | 'CANCELLED';
+
+export interface IcsEvent {
+  uid: string;
+  summary: string;
+  description?: string;
+  location?: string;
+  geo?: { lat: number; lng: number };
+  url?: string;
+  start: IcsDateValue;
+  end?: IcsDateValue;
+  /** DURATION in milliseconds, when given instead of DTEND */
+  duration?: number;
+  rrule?: RecurrenceRule;
+  rdates: IcsDateValue[];
+  exdates: IcsDateValue[];
+  /** Set on overrides of a single occurrence of a recurring event */
+  recurrenceId?: IcsDateValue;
+  status?: IcsEventStatus;
+  categories: string[];
+  sequence: number;
+}
+
+export interface IcsCalendar {
+  name?: string;
+  /** X-WR-TIMEZONE, or the parser default */
+  timezone: string;
+  events: IcsEvent[];
+  warnings: string[];
+}
+
+/**
+ * One concrete occurrence of an event, after recurrence expansion and
+ * overrides
+ */
+export interface IcsOccurrence {
+  event: IcsEvent;
+  start: Date;
+  end?: Date;
+  allDay: boolean;
+  timezone: string;
+  /** Part of a recurring series */
+  recurring: boolean;
+  /** Original start of the occurrence; stable even when an override moves it */
+  occurrenceKey: string;
+}
+
+interface ContentLine {
+  name: string;
+  params: Record<string, string>;
+  value: string;
+}
+
+interface RawComponent {
+  type: string;
+  properties: ContentLine[];
+}
+
+// Outlook/Exchange export Windows zone names instead of IANA ids
+const WINDOWS_TIMEZONES: Record<string, string> = {
+  'Eastern Standard Time': 'America/New_York',
+  'Central Standard Time': 'America/Chicago',
+  'Mountain Standard Time': 'America/Denver',
+  'Pacific Standard Time': 'America/Los_Angeles',
+  'Atlantic Standard Time': 'America/Halifax',
+  'GMT Standard Time': 'Europe/London',
+  'W. Europe Standard Time': 'Europe/Berlin',
+  'Romance Standard Time': 'Europe/Paris',
+  'UTC': 'UTC'
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Parser for iCalendar (.ics) feeds: VEVENTs with RRULE/RDATE/EXDATE
+ * recurrences and RECURRENCE-ID overrides. TZIDs are resolved as IANA
+ * names (VTIMEZONE definitions are not interpreted); floating times use
+ * the calendar's X-WR-TIMEZONE or the default timezone.
+ */
+export class IcsParser {
+  constructor(private defaultTimezone: string = 'UTC') {}
+
+  public parse(text: string): IcsCalendar {
+    const warnings: string[] = [];
+    const components = this.readComponents(this.unfold(text));
+
+    const calendar = components.find(c => c.type === 'VCALENDAR');
+    const declaredTimezone = calendar && this.property(calendar, 'X-WR-TIMEZONE')?.value;
+    const timezone = (declaredTimezone && this.resolveTimezone(declaredTimezone)) || this.defaultTimezone;
+    const name = calendar && this.property(calendar, 'X-WR-CALNAME')?.value;
+
+    const events: IcsEvent[] = [];
+    for (const component of components.filter(c => c.type === 'VEVENT')) {
+      try {
+        const event = this.toEvent(component, timezone, warnings);
+        if (event) events.push(event);
+      } catch (error) {
+        warnings.push(`Skipped VEVENT: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    }
+
+    return {
+      name: name ? this.unescapeText(name) : undefined,
+      timezone,
+      events,
+      warnings
+    };
+  }
+
+  /**
+   * Concrete occurrences starting in [from, to]: recurring events are
+   * expanded, EXDATEs removed and RECURRENCE-ID overrides applied.
+   * Cancelled occurrences are returned with the override's status so
+   * callers can retract them.
+   */
+  public expand(events: IcsEvent[], from: Date, to: Date): IcsOccurrence[] {
+    const overrides = new Map<string, IcsEvent>();
+    for (const event of events) {
+      if (event.recurrenceId) {
+        overrides.set(`${event.uid}|${event.recurrenceId.date.getTime()}`, event);
+      }
+    }
+
+    const occurrences: IcsOccurrence[] = [];
+    const usedOverrides = new Set<string>();
+
+    for (const master of events.filter(e => !e.recurrenceId)) {
+      const recurring = Boolean(master.rrule || master.rdates.length > 0);
+      const duration = this.durationOf(master);
+
+      for (const start of this.occurrenceStarts(master, from, to)) {
+        const key = `${master.uid}|${start.date.getTime()}`;
+        const override = overrides.get(key);
+        if (override) usedOverrides.add(key);
+
+        const event = override || master;
+        const occurrenceStart = override ? override.start : start;
+        const end = override
+          ? (override.end?.date || new Date(override.start.date.getTime() + this.durationOf(override)))
+          : new Date(start.date.getTime() + duration);
+
+        occurrences.push({
+          event,
+          start: occurrenceStart.date,
+          end: end.getTime() > occurrenceStart.date.getTime() ? end : undefined,
+          allDay: occurrenceStart.allDay,
+          timezone: occurrenceStart.timezone,
+          recurring,
+          occurrenceKey: start.date.toISOString()
+        });
+      }
+    }
+
+    // Overrides that moved an occurrence into the window from outside it
+    for (const [key, override] of overrides) {
+      if (usedOverrides.has(key)) continue;
+      if (override.start.date < from || override.start.date > to) continue;
+
+      const end = override.end?.date || new Date(override.start.date.getTime() + this.durationOf(override));
+      occurrences.push({
+        event: override,
+        start: override.start.date,
+        end: end.getTime() > override.start.date.getTime() ? end : undefined,
+        allDay: override.start.allDay,
+        timezone: override.start.timezone,
+        recurring: true,
+        occurrenceKey: override.recurrenceId!.date.toISOString()
+      });
+    }
+
+    return occurrences.sort((a, b) => a.start.getTime() - b.start.getTime());
+  }
+
+  /**
+   * Parse a DATE or DATE-TIME value with its TZID/VALUE parameters
+   */
+  public parseDateValue(value: string, params: Record<string, string>, timezone: string): IcsDateValue | null {
+    const match = value.trim().match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/);
+    if (!match) return null;
+
+    const [, y, m, d, hh, mm, ss, utc] = match;
+    const allDay = hh === undefined || params.VALUE === 'DATE';
+    const local = new Date(Date.UTC(+y, +m - 1, +d, allDay ? 0 : +hh, allDay ? 0 : +mm, allDay ? 0 : +(ss || 0)));
+    if (isNaN(local.getTime())) return null;
+
+    if (utc && !allDay) {
+      return { date: local, local, allDay, timezone: 'UTC' };
+    }
+
+    const zone = (params.TZID && this.resolveTimezone(params.TZID)) || timezone;
+    return {
+      date: this.toInstant(local, zone),
+      local,
+      allDay,
+      timezone: zone
+    };
+  }
+
+  private toEvent(component: RawComponent, timezone: string, warnings: string[]): IcsEvent | null {
+    const uid = this.property(component, 'UID')?.value.trim();
+    const summary = this.text(component, 'SUMMARY');
+    const dtstart = this.property(component, 'DTSTART');
+
+    if (!uid || !summary || !dtstart) {
+      warnings.push(`Skipped VEVENT without ${!uid ? 'UID' : !summary ? 'SUMMARY' : 'DTSTART'}`);
+      return null;
+    }
+
+    const start = this.parseDateValue(dtstart.value, dtstart.params, timezone);
+    if (!start) {
+      warnings.push(`Skipped "${summary}": unreadable DTSTART ${dtstart.value}`);
+      return null;
+    }
+
+    const dtend = this.property(component, 'DTEND');
+    const end = dtend ? this.parseDateValue(dtend.value, dtend.params, start.timezone) || undefined : undefined;
+    const durationValue = this.property(component, 'DURATION')?.value;
+
+    const rruleValue = this.property(component, 'RRULE')?.value;
+    let rrule: RecurrenceRule | undefined;
+    if (rruleValue) {
+      rrule = parseRecurrenceRule(rruleValue, raw =>
+        this.parseDateValue(raw, start.allDay ? { VALUE: 'DATE' } : {}, start.timezone)?.date ?? null
+      ) || undefined;
+      if (!rrule) warnings.push(`Unsupported RRULE on "${summary}" (${rruleValue}); using its first occurrence only`);
+    }
+
+    const geo = this.property(component, 'GEO')?.value.split(/[;,]/).map(parseFloat);
+    const recurrenceIdLine = this.property(component, 'RECURRENCE-ID');
+    const status = this.property(component, 'STATUS')?.value.trim().toUpperCase();
+
+    return {
+      uid,
+      summary,
+      description: this.text(component, 'DESCRIPTION') || undefined,
+      location: this.text(component, 'LOCATION') || undefined,
+      geo: geo && geo.length === 2 && geo.every(isFinite) && Math.abs(geo[0]) <= 90 && Math.abs(geo[1]) <= 180
+        ? { lat: geo[0], lng: geo[1] }
+        : undefined,
+      url: this.property(component, 'URL')?.value.trim() || undefined,
+      start,
+      end: end && end.date > start.date ? end : undefined,
+      duration: durationValue ? this.parseDuration(durationValue) ?? undefined : undefined,
+      rrule,
+      rdates: this.dateList(component, 'RDATE', start.timezone),
+      exdates: this.dateList(component, 'EXDATE', start.timezone),
+      recurrenceId: recurrenceIdLine
+        ? this.parseDateValue(recurrenceIdLine.value, recurrenceIdLine.params, start.timezone) || undefined
+        : undefined,
+      status: status === 'TENTATIVE' || status === 'CONFIRMED' || status === 'CANCELLED' ? status : undefined,
+      categories: this.properties(component, 'CATEGORIES')
+        .flatMap(line => this.splitList(line.value))
+        .map(c => c.trim())
+        .filter(Boolean),
+      sequence: parseInt(this.property(component, 'SEQUENCE')?.value || '0', 10) || 0
+    };
+  }
+
+  private occurrenceStarts(event: IcsEvent, from: Date, to: Date): IcsDateValue[] {
+    const excluded = new Set(event.exdates.map(d => this.exdateKey(d)));
+    const isExcluded = (value: { local: Date; instant: Date }) =>
+      excluded.has(value.instant.getTime()) ||
+      excluded.has(`day:${value.local.toISOString().slice(0, 10)}`);
+
+    const toValue = (local: Date, instant: Date): IcsDateValue => ({
+      date: instant,
+      local,
+      allDay: event.start.allDay,
+      timezone: event.start.timezone
+    });
+
+    let starts: IcsDateValue[];
+    if (event.rrule) {
+      starts = expandRecurrence({
+        start: event.start.local,
+        rule: event.rrule,
+        toInstant: local => this.toInstant(local, event.start.timezone),
+        from,
+        to,
+        isExcluded
+      }).map(({ local, instant }) => toValue(local, instant));
+    } else {
+      const instance = { local: event.start.local, instant: event.start.date };
+      starts = event.start.date >= from && event.start.date <= to && !isExcluded(instance) ? [event.start] : [];
+    }
+
+    for (const rdate of event.rdates) {
+      // RDATE keeps the event's time of day when only a date is given
+      const local = rdate.allDay && !event.start.allDay
+        ? new Date(rdate.local.getTime() + (event.start.local.getTime() % DAY_MS))
+        : rdate.local;
+      const instant = this.toInstant(local, event.start.timezone);
+      if (instant < from || instant > to || isExcluded({ local, instant })) continue;
+      if (!starts.some(s => s.date.getTime() === instant.getTime())) starts.push(toValue(local, instant));
+    }
+
+    return starts.sort((a, b) => a.date.getTime() - b.date.getTime());
+  }
+
+  private exdateKey(value: IcsDateValue): number | string {
+    return value.allDay ? `day:${value.local.toISOString().slice(0, 10)}` : value.date.getTime();
+  }
+
+  private durationOf(event: IcsEvent): number {
+    if (event.end) return event.end.date.getTime() - event.start.date.getTime();
+    if (event.duration !== undefined) return event.duration;
+    // RFC 5545: an all-day event without DTEND lasts the day
+    return event.start.allDay ? DAY_MS : 0;
+  }
+
+  /**
+   * ISO 8601 duration as used by iCalendar ("PT1H30M", "P1D", "P2W")
+   */
+  private parseDuration(value: string): number | null {
+    const match = value.trim().match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+    if (!match) return null;
+
+    const [, sign, weeks, days, hours, minutes, seconds] = match;
+    const ms = ((+(weeks || 0) * 7 + +(days || 0)) * 24 * 3600 + +(hours || 0) * 3600 + +(minutes || 0) * 60 + +(seconds || 0)) * 1000;
+    return sign === '-' ? -ms : ms;
+  }
+
+  private toInstant(local: Date, timezone: string): Date {
+    if (timezone === 'UTC') return local;
+    return fromZonedTime(local.toISOString().slice(0, 19), timezone);
+  }
+
+  /**
+   * IANA name for a TZID, or null when we cannot interpret it
+   */
+  private resolveTimezone(tzid: string): string | null {
+    const cleaned = tzid.trim().replace(/^"|"$/g, '');
+    const candidates = [
+      WINDOWS_TIMEZONES[cleaned],
+      cleaned,
+      // "/mozilla.org/20070129_1/America/Toronto" and similar prefixes
+      cleaned.match(/([A-Za-z_]+\/[A-Za-z_-]+(?:\/[A-Za-z_-]+)?)$/)?.[1]
+    ];
+
+    for (const candidate of candidates) {
+      if (!candidate) continue;
+      try {
+        formatInTimeZone(new Date(0), candidate, 'yyyy');
+        return candidate;
+      } catch {
+        continue;
+      }
+    }
+
+    return null;
+  }
+
+  private dateList(component: RawComponent, name: string, timezone: string): IcsDateValue[] {
+    return this.properties(component, name).flatMap(line =>
+      line.value.split(',')
+        .map(value => this.parseDateValue(value, line.params, timezone))
+        .filter((d): d is IcsDateValue => d !== null)
+    );
+  }
+
+  /**
+   * RFC 5545 line unfolding: CRLF followed by a space or tab continues the
+   * previous line
+   */
+  private unfold(text: string): string[] {
+    return text
+      .replace(/^\uFEFF/, '')
+      .replace(/\r\n?/g, '\n')
+      .replace(/\n[ \t]/g, '')
+      .split('\n')
+      .filter(line => line.trim().length > 0);
+  }
+
+  private readComponents(lines: string[]): RawComponent[] {
+    const components: RawComponent[] = [];
+    const stack: RawComponent[] = [];
+
+    for (const line of lines) {
+      const parsed = this.parseContentLine(line);
+      if (!parsed) continue;
+
+      if (parsed.name === 'BEGIN') {
+        const component = { type: parsed.value.trim().toUpperCase(), properties: [] };
+        stack.push(component);
+        components.push(component);
+      } else if (parsed.name === 'END') {
+        stack.pop();
+      } else if (stack.length > 0) {
+        // Properties of nested components (VALARM, STANDARD...) stay with them
+        stack[stack.length - 1].properties.push(parsed);
+      }
+    }
+
+    return components;
+  }
+
+  private parseContentLine(line: string): ContentLine | null {
+    // The value starts at the first colon outside a quoted parameter
+    let inQuotes = false;
+    let colon = -1;
+    for (let i = 0; i < line.length; i++) {
+      if (line[i] === '"') inQuotes = !inQuotes;
+      else if (line[i] === ':' && !inQuotes) {
+        colon = i;
+        break;
+      }
+    }
+    if (colon === -1) return null;
+
+    const [name, ...paramParts] = line.slice(0, colon).split(/;(?=(?:[^"]*"[^"]*")*[^"]*$)/);
+    const params: Record<string, string> = {};
+    for (const part of paramParts) {
+      const [key, ...rest] = part.split('=');
+      params[key.trim().toUpperCase()] = rest.join('=').replace(/^"|"$/g, '');
+    }
+
+    return { name: name.trim().toUpperCase(), params, value: line.slice(colon + 1) };
+  }
+
+  private property(component: RawComponent, name: string): ContentLine | undefined {
+    return component.properties.find(p => p.name === name);
+  }
+
+  private properties(component: RawComponent, name: string): ContentLine[] {
+    return component.properties.filter(p => p.name === name);
+  }
+
+  private text(component: RawComponent, name: string): string {
+    const value = this.property(component, name)?.value;
+    return value ? this.unescapeText(value).trim() : '';
+  }
+
+  private unescapeText(value: string): string {
+    return value.replace(/\\([nN;,\\])/g, (_, char) => (char === 'n' || char === 'N' ? '\n' : char));
+  }
+
+  /**
+   * Split a comma-separated TEXT list, honouring escaped commas
+   */
+  private splitList(value: string): string[] {
+    return value.split(/(?<!\\),/).map(item => this.unescapeText(item));
+  }
+}
@@ -0,0 +1,342 @@
+/**
+ * RFC 5545 recurrence rules (RRULE) and their expansion.
+ *
+ * Expansion runs on wall-clock times (a Date whose UTC fields hold the
+ * local date and time) so "every Tuesday at 8pm" stays at 8pm across DST
+ * changes; the caller converts each wall-clock time to an instant.
+ */
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+
+export type Weekday = 'SU' | 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA';
+
+export interface WeekdayRule {
+  weekday: Weekday;
+  /** 2 = second, -1 = last; only meaningful for MONTHLY/YEARLY */
+  ordinal?: number;
+}
+
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number;
+  count?: number;
+  /** Inclusive end, as an instant */
+  until?: Date;
+  byDay?: WeekdayRule[];
+  byMonthDay?: number[];
+  /** 1-12 */
+  byMonth?: number[];
+  bySetPos?: number[];
+  weekStart: Weekday;
+}
+
+export interface RecurrenceInstance {
+  /** Wall-clock time in the event's timezone */
+  local: Date;
+  instant: Date;
+}
+
+export interface ExpandRecurrenceOptions {
+  /** First occurrence, as wall-clock time */
+  start: Date;
+  rule: RecurrenceRule;
+  /** Wall-clock time -> instant in the event's timezone */
+  toInstant: (local: Date) => Date;
+  /** Only return occurrences in [from, to] */
+  from?: Date;
+  to: Date;
+  /** Occurrences removed by EXDATE; they still count toward COUNT */
+  isExcluded?: (instance: RecurrenceInstance) => boolean;
+  maxOccurrences?: number;
+}
+
+const WEEKDAYS: Weekday[] = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const FREQUENCIES: RecurrenceFrequency[] = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'];
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Guards against rules that can never produce another occurrence
+// (e.g. BYMONTHDAY=31;BYMONTH=2)
+const MAX_PERIODS = 5000;
+const DEFAULT_MAX_OCCURRENCES = 500;
+
+/**
+ * Parse an RRULE value ("FREQ=WEEKLY;BYDAY=TU,TH;COUNT=10"). Returns null
+ * for frequencies we do not expand (HOURLY and finer) or malformed rules.
+ *
+ * @param parseUntil Resolves UNTIL to an instant; defaults to treating it as UTC
+ */
+export function parseRecurrenceRule(
+  value: string,
+  parseUntil: (raw: string) => Date | null = parseUtcDateValue
+): RecurrenceRule | null {
+  const parts = new Map<string, string>();
+  for (const part of value.trim().replace(/^RRULE:/i, '').split(';')) {
+    const [key, raw] = part.split('=');
+    if (key && raw !== undefined) parts.set(key.trim().toUpperCase(), raw.trim().toUpperCase());
+  }
+
+  const freq = parts.get('FREQ') as RecurrenceFrequency | undefined;
+  if (!freq || !FREQUENCIES.includes(freq)) return null;
+
+  const interval = parseInt(parts.get('INTERVAL') || '1', 10);
+  const rule: RecurrenceRule = {
+    freq,
+    interval: interval > 0 ? interval : 1,
+    weekStart: WEEKDAYS.includes(parts.get('WKST') as Weekday) ? parts.get('WKST') as Weekday : 'MO'
+  };
+
+  const count = parseInt(parts.get('COUNT') || '', 10);
+  if (count > 0) rule.count = count;
+
+  const until = parts.get('UNTIL');
+  if (until) {
+    const parsed = parseUntil(until);
+    if (!parsed) return null;
+    rule.until = parsed;
+  }
+
+  const byDay = parts.get('BYDAY');
+  if (byDay) {
+    rule.byDay = byDay.split(',').map(token => {
+      const match = token.match(/^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/);
+      if (!match) return null;
+      return match[1]
+        ? { weekday: match[2] as Weekday, ordinal: parseInt(match[1], 10) }
+        : { weekday: match[2] as Weekday };
+    }).filter((d): d is WeekdayRule => d !== null);
+  }
+
+  rule.byMonthDay = parseIntList(parts.get('BYMONTHDAY'), n => n !== 0 && Math.abs(n) <= 31);
+  rule.byMonth = parseIntList(parts.get('BYMONTH'), n => n >= 1 && n <= 12);
+  rule.bySetPos = parseIntList(parts.get('BYSETPOS'), n => n !== 0 && Math.abs(n) <= 366);
+
+  return rule;
+}
+
+/**
+ * Serialize a rule back to an RRULE value (without the "RRULE:" prefix).
+ * UNTIL is written as a UTC date-time.
+ */
+export function formatRecurrenceRule(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.freq}`];
+
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.count) parts.push(`COUNT=${rule.count}`);
+  if (rule.until) parts.push(`UNTIL=${rule.until.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '')}`);
+  if (rule.byDay?.length) {
+    parts.push(`BYDAY=${rule.byDay.map(d => `${d.ordinal ?? ''}${d.weekday}`).join(',')}`);
+  }
+  if (rule.byMonthDay?.length) parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`);
+  if (rule.byMonth?.length) parts.push(`BYMONTH=${rule.byMonth.join(',')}`);
+  if (rule.bySetPos?.length) parts.push(`BYSETPOS=${rule.bySetPos.join(',')}`);
+  if (rule.weekStart !== 'MO') parts.push(`WKST=${rule.weekStart}`);
+
+  return parts.join(';');
+}
+
+/**
+ * Occurrences of a rule, in order. The start always counts as the first
+ * occurrence, as RFC 5545 requires.
+ */
+export function expandRecurrence(options: ExpandRecurrenceOptions): RecurrenceInstance[] {
+  const { start, rule, toInstant, from, to, isExcluded } = options;
+  const maxOccurrences = options.maxOccurrences ?? DEFAULT_MAX_OCCURRENCES;
+  const results: RecurrenceInstance[] = [];
+  let generated = 0;
+
+  // false once the rule (or the window) is exhausted
+  const emit = (local: Date): boolean => {
+    const instant = toInstant(local);
+    if (rule.until && instant > rule.until) return false;
+    if (instant > to) return false;
+
+    generated++;
+    const instance = { local, instant };
+    if ((!from || instant >= from) && !isExcluded?.(instance)) {
+      results.push(instance);
+    }
+
+    if (rule.count && generated >= rule.count) return false;
+    return results.length < maxOccurrences;
+  };
+
+  if (!emit(start)) return results;
+
+  for (let period = 0; period < MAX_PERIODS; period++) {
+    for (const day of candidateDays(rule, start, period)) {
+      const local = withTimeOf(day, start);
+      if (local.getTime() <= start.getTime()) continue;
+      if (!emit(local)) return results;
+    }
+  }
+
+  return results;
+}
+
+/**
+ * Days (at midnight, wall-clock) the rule produces in one period
+ */
+function candidateDays(rule: RecurrenceRule, start: Date, period: number): Date[] {
+  let days: Date[];
+
+  switch (rule.freq) {
+    case 'DAILY': {
+      const day = addDays(startOfDay(start), period * rule.interval);
+      days = matchesDailyFilters(rule, day) ? [day] : [];
+      break;
+    }
+
+    case 'WEEKLY': {
+      const weekStart = addDays(startOfWeek(start, rule.weekStart), period * rule.interval * 7);
+      const weekdays = rule.byDay?.length
+        ? rule.byDay.map(d => d.weekday)
+        : [WEEKDAYS[start.getUTCDay()]];
+      days = Array.from({ length: 7 }, (_, i) => addDays(weekStart, i))
+        .filter(day => weekdays.includes(WEEKDAYS[day.getUTCDay()]))
+        .filter(day => !rule.byMonth?.length || rule.byMonth.includes(day.getUTCMonth() + 1));
+      break;
+    }
+
+    case 'MONTHLY': {
+      const monthIndex = start.getUTCMonth() + period * rule.interval;
+      const year = start.getUTCFullYear() + Math.floor(monthIndex / 12);
+      const month = monthIndex % 12;
+      days = rule.byMonth?.length && !rule.byMonth.includes(month + 1)
+        ? []
+        : daysInMonthForRule(rule, start, year, month);
+      break;
+    }
+
+    case 'YEARLY': {
+      const year = start.getUTCFullYear() + period * rule.interval;
+      if (rule.byMonth?.length) {
+        days = rule.byMonth.flatMap(month => daysInMonthForRule(rule, start, year, month - 1));
+      } else if (rule.byDay?.length && !rule.byMonthDay?.length) {
+        days = daysInRange(rule.byDay, Date.UTC(year, 0, 1), Date.UTC(year + 1, 0, 1));
+      } else {
+        days = daysInMonthForRule(rule, start, year, start.getUTCMonth());
+      }
+      break;
+    }
+  }
+
+  days = uniqueSorted(days);
+  return rule.bySetPos?.length ? applySetPos(days, rule.bySetPos) : days;
+}
+
+function matchesDailyFilters(rule: RecurrenceRule, day: Date): boolean {
+  if (rule.byMonth?.length && !rule.byMonth.includes(day.getUTCMonth() + 1)) return false;
+  if (rule.byDay?.length && !rule.byDay.some(d => d.weekday === WEEKDAYS[day.getUTCDay()])) return false;
+  if (rule.byMonthDay?.length) {
+    const length = daysInMonth(day.getUTCFullYear(), day.getUTCMonth());
+    const date = day.getUTCDate();
+    if (!rule.byMonthDay.some(n => (n > 0 ? n : length + n + 1) === date)) return false;
+  }
+  return true;
+}
+
+function daysInMonthForRule(rule: RecurrenceRule, start: Date, year: number, month: number): Date[] {
+  const length = daysInMonth(year, month);
+
+  const byMonthDay = rule.byMonthDay?.length
+    ? rule.byMonthDay
+        .map(n => (n > 0 ? n : length + n + 1))
+        .filter(n => n >= 1 && n <= length)
+        .map(n => new Date(Date.UTC(year, month, n)))
+    : null;
+
+  const byDay = rule.byDay?.length
+    ? daysInRange(rule.byDay, Date.UTC(year, month, 1), Date.UTC(year, month + 1, 1))
+    : null;
+
+  if (byMonthDay && byDay) {
+    const allowed = new Set(byDay.map(d => d.getTime()));
+    return byMonthDay.filter(d => allowed.has(d.getTime()));
+  }
+  if (byMonthDay) return byMonthDay;
+  if (byDay) return byDay;
+
+  // Plain "monthly": same day of month, skipping months too short for it
+  const date = start.getUTCDate();
+  return date <= length ? [new Date(Date.UTC(year, month, date))] : [];
+}
+
+/**
+ * Days in [rangeStart, rangeEnd) matching BYDAY, honouring ordinals
+ * (2TU = second Tuesday, -1FR = last Friday) within the range
+ */
+function daysInRange(byDay: WeekdayRule[], rangeStart: number, rangeEnd: number): Date[] {
+  const days: Date[] = [];
+
+  for (const { weekday, ordinal } of byDay) {
+    const matching: Date[] = [];
+    for (let time = rangeStart; time < rangeEnd; time += DAY_MS) {
+      const day = new Date(time);
+      if (WEEKDAYS[day.getUTCDay()] === weekday) matching.push(day);
+    }
+
+    if (!ordinal) {
+      days.push(...matching);
+    } else {
+      const picked = ordinal > 0 ? matching[ordinal - 1] : matching[matching.length + ordinal];
+      if (picked) days.push(picked);
+    }
+  }
+
+  return days;
+}
+
+function applySetPos(days: Date[], positions: number[]): Date[] {
+  return uniqueSorted(
+    positions
+      .map(pos => (pos > 0 ? days[pos - 1] : days[days.length + pos]))
+      .filter((d): d is Date => Boolean(d))
+  );
+}
+
+function uniqueSorted(days: Date[]): Date[] {
+  const seen = new Set<number>();
+  return days
+    .filter(day => !seen.has(day.getTime()) && Boolean(seen.add(day.getTime())))
+    .sort((a, b) => a.getTime() - b.getTime());
+}
+
+function parseIntList(value: string | undefined, isValid: (n: number) => boolean): number[] | undefined {
+  if (!value) return undefined;
+  const numbers = value.split(',').map(n => parseInt(n, 10)).filter(n => !isNaN(n) && isValid(n));
+  return numbers.length > 0 ? numbers : undefined;
+}
+
+function parseUtcDateValue(raw: string): Date | null {
+  const match = raw.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})Z?)?$/);
+  if (!match) return null;
+  const [, y, m, d, hh, mm, ss] = match;
+  // A date-only UNTIL includes that whole day
+  return hh === undefined
+    ? new Date(Date.UTC(+y, +m - 1, +d, 23, 59, 59))
+    : new Date(Date.UTC(+y, +m - 1, +d, +hh, +mm, +ss));
+}
+
+function startOfDay(date: Date): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+}
+
+function startOfWeek(date: Date, weekStart: Weekday): Date {
+  const offset = (date.getUTCDay() - WEEKDAYS.indexOf(weekStart) + 7) % 7;
+  return addDays(startOfDay(date), -offset);
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate() + days));
+}
+
+function withTimeOf(day: Date, time: Date): Date {
+  return new Date(Date.UTC(
+    day.getUTCFullYear(), day.getUTCMonth(), day.getUTCDate(),
+    time.getUTCHours(), time.getUTCMinutes(), time.getUTCSeconds()
+  ));
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+}
@@ -0,0 +1,464 @@
+import * as cheerio from 'cheerio';
+import { parse } from 'date-fns';
+import {
+  VenueEvent,
+  VenueInfo,
+  EventStatus,
+  Performer,
+  PriceRange,
+  TicketInfo
+} from '../types/venue';
+import { generateVenueEventId } from './adaptive-parser';
+
+type SchemaNode = Record<string, any>;
+
+/**
+ * schema.org Event subtypes, mapped to the category we file them under
+ */
+const EVENT_TYPE_CATEGORIES: Record<string, string | null> = {
+  Event: null,
+  MusicEvent: 'music',
+  TheaterEvent: 'theater',
+  ComedyEvent: 'comedy',
+  DanceEvent: 'dance',
+  SportsEvent: 'sports',
+  Festival: 'festival',
+  ExhibitionEvent: 'art',
+  VisualArtsEvent: 'art',
+  ScreeningEvent: 'film',
+  FoodEvent: 'food',
+  EducationEvent: 'education',
+  CourseInstance: 'education',
+  BusinessEvent: 'business',
+  LiteraryEvent: 'literature',
+  ChildrensEvent: 'family',
+  SocialEvent: 'social',
+  SaleEvent: null,
+  PublicationEvent: null
+};
+
+const EVENT_STATUSES: Record<string, EventStatus> = {
+  EventScheduled: 'scheduled',
+  EventCancelled: 'cancelled',
+  EventPostponed: 'postponed',
+  EventRescheduled: 'rescheduled',
+  EventMovedOnline: 'moved_online'
+};
+
+/**
+ * Extracts events from schema.org structured data (JSON-LD first, then
+ * microdata). Structured data survives redesigns that break CSS
+ * selectors, so VenueScraper tries this before the selector-based
+ * AdaptiveParser.
+ */
+export class StructuredDataParser {
+  /**
+   * All schema.org events on the page, deduplicated. Returns an empty
+   * array when the page has no usable structured data.
+   */
+  public parseEvents(html: string, venueInfo: VenueInfo, pageUrl: string): VenueEvent[] {
+    const $ = cheerio.load(html);
+    const events = new Map<string, VenueEvent>();
+
+    const sources: Array<['json-ld' | 'microdata', SchemaNode[]]> = [
+      ['json-ld', this.extractJsonLd($)],
+      ['microdata', this.extractMicrodata($)]
+    ];
+
+    // JSON-LD wins when a page marks the same event up both ways
+    for (const [source, nodes] of sources) {
+      for (const node of nodes) {
+        const event = this.toVenueEvent(node, venueInfo, pageUrl, source);
+        if (event && !events.has(event.id)) {
+          events.set(event.id, event);
+        }
+      }
+    }
+
+    return Array.from(events.values());
+  }
+
+  /**
+   * Event nodes from every application/ld+json block, including those
+   * nested in @graph, ItemList and subEvent
+   */
+  public extractJsonLd($: cheerio.CheerioAPI): SchemaNode[] {
+    const nodes: SchemaNode[] = [];
+
+    $('script[type="application/ld+json"]').each((_, script) => {
+      const data = this.parseJsonLdBlock($(script).html() || '');
+      if (data) this.collectEvents(data, nodes);
+    });
+
+    return nodes;
+  }
+
+  /**
+   * Event items marked up with itemscope/itemtype, as plain JSON-LD-shaped
+   * objects so both sources share one mapper
+   */
+  public extractMicrodata($: cheerio.CheerioAPI): SchemaNode[] {
+    const nodes: SchemaNode[] = [];
+
+    $('[itemscope][itemtype]').each((_, element) => {
+      const type = this.typeFromItemtype($(element).attr('itemtype'));
+      if (!type || !(type in EVENT_TYPE_CATEGORIES)) return;
+
+      // Nested events (subEvent) are read as part of their parent
+      const parentScope = $(element).parent().closest('[itemscope]');
+      if (parentScope.length > 0 && this.isEventType(this.typeFromItemtype(parentScope.attr('itemtype')))) return;
+
+      nodes.push(this.readMicrodataItem($, element));
+    });
+
+    return nodes;
+  }
+
+  private parseJsonLdBlock(raw: string): any {
+    const text = raw
+      .replace(/^\s*<!\[CDATA\[/, '')
+      .replace(/\]\]>\s*$/, '')
+      .replace(/^\s*<!--/, '')
+      .replace(/-->\s*$/, '')
+      .trim();
+
+    if (!text) return null;
+
+    try {
+      return JSON.parse(text);
+    } catch {
+      // CMSes often emit raw newlines/tabs inside strings
+      try {
+        return JSON.parse(text.replace(/[\u0000-\u001f]+/g, ' '));
+      } catch (error) {
+        console.warn('Skipping malformed JSON-LD block:', error instanceof Error ? error.message : error);
+        return null;
+      }
+    }
+  }
+
+  private collectEvents(data: any, nodes: SchemaNode[]): void {
+    if (Array.isArray(data)) {
+      data.forEach(item => this.collectEvents(item, nodes));
+      return;
+    }
+
+    if (!data || typeof data !== 'object') return;
+
+    if (data['@graph']) this.collectEvents(data['@graph'], nodes);
+
+    if (this.nodeTypes(data).includes('ItemList')) {
+      for (const element of this.asArray(data.itemListElement)) {
+        this.collectEvents(element?.item || element, nodes);
+      }
+      return;
+    }
+
+    if (this.nodeTypes(data).some(type => this.isEventType(type))) {
+      nodes.push(data);
+      for (const subEvent of this.asArray(data.subEvent)) {
+        this.collectEvents(subEvent, nodes);
+      }
+    }
+  }
+
+  private readMicrodataItem($: cheerio.CheerioAPI, scope: any): SchemaNode {
+    const node: SchemaNode = {
+      '@type': this.typeFromItemtype($(scope).attr('itemtype'))
+    };
+
+    $(scope).find('[itemprop]').each((_, prop) => {
+      // Only direct properties; nested items read their own
+      if ($(prop).parent().closest('[itemscope]')[0] !== scope) return;
+
+      const value = $(prop).is('[itemscope]')
+        ? this.readMicrodataItem($, prop)
+        : this.microdataValue($, prop);
+
+      for (const name of ($(prop).attr('itemprop') || '').split(/\s+/).filter(Boolean)) {
+        if (node[name] === undefined) {
+          node[name] = value;
+        } else {
+          node[name] = [...this.asArray(node[name]), value];
+        }
+      }
+    });
+
+    return node;
+  }
+
+  private microdataValue($: cheerio.CheerioAPI, prop: any): string {
+    const element = $(prop);
+    const content = element.attr('content') ?? element.attr('datetime');
+    if (content !== undefined) return content;
+
+    if (element.is('a, link, area')) return element.attr('href') || '';
+    if (element.is('img, source, video, audio, iframe, embed')) return element.attr('src') || '';
+    if (element.is('meta')) return element.attr('content') || '';
+    if (element.is('data, meter')) return element.attr('value') || '';
+
+    return element.text().trim();
+  }
+
+  /**
+   * Map one schema.org Event node to a VenueEvent; null without a name and
+   * a parseable start date
+   */
+  public toVenueEvent(
+    node: SchemaNode,
+    venueInfo: VenueInfo,
+    pageUrl: string,
+    source: 'json-ld' | 'microdata' = 'json-ld'
+  ): VenueEvent | null {
+    const title = this.cleanText(node.name);
+    const date = this.parseDate(node.startDate);
+    if (!title || !date) return null;
+
+    const eventType = this.nodeTypes(node).find(type => this.isEventType(type)) || 'Event';
+    const category = EVENT_TYPE_CATEGORIES[eventType];
+    const status = this.parseStatus(node.eventStatus);
+    const venue = this.parseLocation(node.location, venueInfo);
+
+    const event: VenueEvent = {
+      id: '',
+      title,
+      description: this.cleanText(node.description) || undefined,
+      venue: venue.info,
+      date,
+      endDate: this.parseDate(node.endDate) || undefined,
+      isRecurring: Boolean(node.eventSchedule),
+      categories: category ? [category] : [],
+      performers: this.parsePerformers(node.performer, eventType),
+      image: this.parseImage(node.image, pageUrl),
+      url: this.resolveUrl(this.firstString(node.url), pageUrl),
+      status,
+      metadata: {
+        source,
+        schemaType: eventType,
+        originalDate: node.startDate,
+        allDay: this.isDateOnly(node.startDate),
+        ...(venue.coordinates && { coordinates: venue.coordinates }),
+        ...(venue.online && { onlineUrl: venue.online }),
+        ...(node.previousStartDate && { previousStartDate: this.parseDate(this.firstString(node.previousStartDate))?.toISOString() }),
+        ...(node.eventAttendanceMode && { attendanceMode: this.schemaEnum(node.eventAttendanceMode) })
+      }
+    };
+
+    const offers = this.parseOffers(node.offers, pageUrl);
+    if (offers.priceRange) event.priceRange = offers.priceRange;
+    if (offers.ticketInfo) event.ticketInfo = offers.ticketInfo;
+
+    if (!event.performers?.length) delete event.performers;
+
+    event.id = generateVenueEventId(event);
+    return event;
+  }
+
+  private parseDate(value: unknown): Date | null {
+    const text = this.firstString(value)?.trim();
+    if (!text) return null;
+
+    // Date-only values are local days, not UTC midnight
+    if (this.isDateOnly(text)) {
+      const parsed = parse(text, 'yyyy-MM-dd', new Date());
+      return isNaN(parsed.getTime()) ? null : parsed;
+    }
+
+    const parsed = new Date(text.replace(/^(\d{4}-\d{2}-\d{2}) (\d)/, '$1T$2'));
+    return isNaN(parsed.getTime()) ? null : parsed;
+  }
+
+  private isDateOnly(value: unknown): boolean {
+    return typeof value === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(value.trim());
+  }
+
+  private parseStatus(value: unknown): EventStatus | undefined {
+    const name = this.schemaEnum(value);
+    return name ? EVENT_STATUSES[name] : undefined;
+  }
+
+  private parseLocation(
+    value: unknown,
+    venueInfo: VenueInfo
+  ): { info: VenueInfo; coordinates?: { lat: number; lng: number }; online?: string } {
+    const locations = this.asArray(value);
+    const place = locations.find(l => typeof l === 'string' || !this.nodeTypes(l).includes('VirtualLocation'));
+    const virtual = locations.find(l => l && typeof l === 'object' && this.nodeTypes(l).includes('VirtualLocation'));
+    const online = virtual ? this.firstString(virtual.url) : undefined;
+
+    if (!place) return { info: venueInfo, online };
+    if (typeof place === 'string') {
+      return { info: { ...venueInfo, name: this.cleanText(place) || venueInfo.name }, online };
+    }
+
+    const address = place.address;
+    const info: VenueInfo = {
+      ...venueInfo,
+      name: this.cleanText(place.name) || venueInfo.name
+    };
+
+    if (typeof address === 'string') {
+      info.address = this.cleanText(address);
+    } else if (address && typeof address === 'object') {
+      info.address = this.cleanText(address.streetAddress) || venueInfo.address;
+      info.city = this.cleanText(address.addressLocality) || venueInfo.city;
+      info.state = this.cleanText(address.addressRegion) || venueInfo.state;
+      info.country = this.cleanText(this.firstString(address.addressCountry?.name ?? address.addressCountry)) || venueInfo.country;
+    }
+
+    const latitude = parseFloat(place.geo?.latitude);
+    const longitude = parseFloat(place.geo?.longitude);
+    const coordinates = isFinite(latitude) && isFinite(longitude)
+      ? { lat: latitude, lng: longitude }
+      : undefined;
+
+    return { info, coordinates, online };
+  }
+
+  private parseOffers(value: unknown, pageUrl: string): { priceRange?: PriceRange; ticketInfo?: TicketInfo } {
+    const offers = this.asArray(value).filter(o => o && typeof o === 'object') as SchemaNode[];
+    if (offers.length === 0) return {};
+
+    const prices: number[] = [];
+    let currency: string | undefined;
+
+    for (const offer of offers) {
+      for (const raw of [offer.price, offer.lowPrice, offer.highPrice, offer.priceSpecification?.price]) {
+        const price = this.parsePrice(raw);
+        if (price !== null) prices.push(price);
+      }
+      currency = currency || this.firstString(offer.priceCurrency ?? offer.priceSpecification?.priceCurrency);
+    }
+
+    const availability = offers.map(o => this.schemaEnum(o.availability)).filter(Boolean);
+    const url = offers.map(o => this.resolveUrl(this.firstString(o.url), pageUrl)).find(Boolean);
+    const saleStart = offers.map(o => this.parseDate(o.validFrom)).find(Boolean) || undefined;
+
+    return {
+      priceRange: prices.length > 0
+        ? { min: Math.min(...prices), max: Math.max(...prices), currency: currency || 'USD' }
+        : undefined,
+      ticketInfo: {
+        url,
+        platform: url ? this.ticketPlatform(url) : undefined,
+        // Sold out only when every offer is
+        soldOut: availability.length > 0 && availability.every(a => a === 'SoldOut'),
+        saleStartDate: saleStart
+      }
+    };
+  }
+
+  private parsePrice(value: unknown): number | null {
+    if (typeof value === 'number') return isFinite(value) ? value : null;
+    if (typeof value !== 'string') return null;
+    if (/free/i.test(value)) return 0;
+
+    const match = value.replace(/,/g, '').match(/\d+(?:\.\d+)?/);
+    return match ? parseFloat(match[0]) : null;
+  }
+
+  private parsePerformers(value: unknown, eventType: string): Performer[] {
+    return this.asArray(value)
+      .map(performer => {
+        if (typeof performer === 'string') {
+          const name = this.cleanText(performer);
+          return name ? { name, type: this.performerType('Person', eventType) } : null;
+        }
+        if (!performer || typeof performer !== 'object') return null;
+
+        const name = this.cleanText(performer.name);
+        if (!name) return null;
+
+        return {
+          name,
+          type: this.performerType(this.nodeTypes(performer)[0] || 'Person', eventType),
+          ...(performer.genre && { genre: this.cleanText(this.firstString(performer.genre)) }),
+          ...(performer.url && { website: this.firstString(performer.url) }),
+          ...(performer.image && { image: this.parseImage(performer.image, '') })
+        } as Performer;
+      })
+      .filter((p): p is Performer => p !== null);
+  }
+
+  private performerType(schemaType: string, eventType: string): Performer['type'] {
+    if (schemaType === 'MusicGroup') return 'band';
+    if (schemaType === 'DanceGroup' || eventType === 'DanceEvent') return 'dancer';
+    if (eventType === 'ComedyEvent') return 'comedian';
+    if (eventType === 'EducationEvent' || eventType === 'BusinessEvent') return 'speaker';
+    if (schemaType === 'Person' || schemaType === 'PerformingGroup' || schemaType === 'TheaterGroup') return 'artist';
+    return 'other';
+  }
+
+  private parseImage(value: unknown, pageUrl: string): string | undefined {
+    const image = this.asArray(value)[0];
+    const url = typeof image === 'string' ? image : this.firstString(image?.url ?? image?.contentUrl);
+    return this.resolveUrl(url, pageUrl);
+  }
+
+  private ticketPlatform(url: string): string | undefined {
+    try {
+      const hostname = new URL(url).hostname.toLowerCase();
+      if (hostname.includes('ticketmaster')) return 'Ticketmaster';
+      if (hostname.includes('stubhub')) return 'StubHub';
+      if (hostname.includes('eventbrite')) return 'Eventbrite';
+      if (hostname.includes('seatgeek')) return 'SeatGeek';
+      if (hostname.includes('vivid')) return 'Vivid Seats';
+      return hostname;
+    } catch {
+      return undefined;
+    }
+  }
+
+  private resolveUrl(url: string | undefined, base: string): string | undefined {
+    if (!url) return undefined;
+    try {
+      return base ? new URL(url, base).toString() : new URL(url).toString();
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * "https://schema.org/EventCancelled" / "schema:EventCancelled" -> "EventCancelled"
+   */
+  private schemaEnum(value: unknown): string | undefined {
+    const text = this.firstString(typeof value === 'object' && value ? (value as SchemaNode)['@id'] ?? value : value);
+    return text?.trim().split(/[/:#]/).pop() || undefined;
+  }
+
+  private typeFromItemtype(itemtype: string | undefined): string | undefined {
+    const first = itemtype?.trim().split(/\s+/)[0];
+    return first && /schema\.org/i.test(first) ? first.split('/').pop() : undefined;
+  }
+
+  private nodeTypes(node: any): string[] {
+    return this.asArray(node?.['@type'])
+      .filter((t): t is string => typeof t === 'string')
+      .map(t => t.split(/[/:]/).pop() as string);
+  }
+
+  private isEventType(type: string | undefined): boolean {
+    return Boolean(type && type in EVENT_TYPE_CATEGORIES);
+  }
+
+  private firstString(value: unknown): string | undefined {
+    const first = this.asArray(value)[0];
+    if (typeof first === 'string') return first;
+    if (typeof first === 'number') return String(first);
+    return undefined;
+  }
+
+  private asArray(value: unknown): any[] {
+    if (value === undefined || value === null) return [];
+    return Array.isArray(value) ? value : [value];
+  }
+
+  /**
+   * Decode entities and drop markup (descriptions are often HTML)
+   */
+  private cleanText(value: unknown): string {
+    const text = this.firstString(value);
+    if (!text) return '';
+    return cheerio.load(`<div>${text}</div>`)('div').text().replace(/\s+/g, ' ').trim();
+  }
+}
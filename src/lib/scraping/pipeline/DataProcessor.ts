@@ -198,17 +198,21 @@ export class DataProcessor {
       // Step 3: Geocoding
       if (!this.shouldSkipStep('geocoding') && (currentData.address || currentData.venue)) {
         try {
-          const address = [currentData.venue, currentData.address].filter(Boolean).join(', ');
-          const geocodingResult = await this.geocodingService.geocode(address);
+          const geocodingResult = await this.geocodingService.geocode({
+            venueName: currentData.venue,
+            address: currentData.address,
+            city: currentData.normalizedLocation?.city
+          });
           stepResults.geocoding = geocodingResult;
           
+          // Only set when precise enough; never a city centre
           if (geocodingResult.coordinates) {
             currentData.coordinates = geocodingResult.coordinates;
             currentData.formattedAddress = geocodingResult.formattedAddress;
           }
           
-          if (geocodingResult.confidence < 0.5) {
-            warnings.push(`Low geocoding confidence: ${geocodingResult.confidence.toFixed(2)}`);
+          if (geocodingResult.needsReview) {
+            warnings.push(`Location not placed (${geocodingResult.precision}, confidence ${geocodingResult.confidence.toFixed(2)}); flagged for review`);
           }
         } catch (error) {
           const errorMsg = `Geocoding failed: ${error instanceof Error ? error.message : 'Unknown error'}`;
@@ -1,7 +1,9 @@
 import { logger } from '@/lib/utils/logger';
 import { ScrapedEvent } from '@/types/events';
 import { parseISO, format, isValid, startOfDay, endOfDay } from 'date-fns';
-import { zonedTimeToUtc, utcToZonedTime } from 'date-fns-tz';
+import { formatInTimeZone, fromZonedTime } from 'date-fns-tz';
+import { detectSeries } from '@/lib/series/detect';
+import type { DetectedSeries, SeriesCandidate } from '@/lib/series/types';
 
 export interface NormalizationOptions {
   defaultTimezone?: string;
@@ -142,6 +144,37 @@ export class EventNormalizer {
     }
   }
 
+  /**
+   * Group normalized occurrences into recurring series (same title and venue
+   * on a regular schedule). Occurrences are identified by externalId and
+   * stay separate events; the series only links them.
+   */
+  detectSeries(events: NormalizedEvent[]): DetectedSeries[] {
+    const timezone = this.options.defaultTimezone || 'America/New_York';
+    const candidates: SeriesCandidate[] = [];
+
+    for (const event of events) {
+      if (!event.externalId || !event.title || !event.normalizedStartDate) continue;
+
+      candidates.push({
+        id: event.externalId,
+        title: event.title,
+        venueName: event.venue,
+        localStart: formatInTimeZone(event.normalizedStartDate, timezone, "yyyy-MM-dd'T'HH:mm"),
+        timezone
+      });
+    }
+
+    const series = detectSeries(candidates);
+
+    logger.info('Series detection completed', {
+      events: events.length,
+      series: series.length
+    });
+
+    return series;
+  }
+
   private async normalizeDates(event: Partial<ScrapedEvent>): Promise<{
     startDate?: Date;
     endDate?: Date;
@@ -228,7 +261,7 @@ export class EventNormalizer {
       } else {
         // Assume local timezone and convert to UTC
         const timezone = this.options.defaultTimezone || 'America/New_York';
-        date = zonedTimeToUtc(date, timezone);
+        date = fromZonedTime(date, timezone);
         warning = `Date assumed to be in ${timezone} timezone`;
       }
 
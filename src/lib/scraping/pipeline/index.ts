@@ -28,7 +28,9 @@ export { GeocodingService } from './GeocodingService';
 export type { 
   Coordinates, 
   GeocodingResult, 
-  GeocodingOptions 
+  GeocodingOptions,
+  GeocodeQuery,
+  GeocodingProvider
 } from './GeocodingService';
 
 export { CategoryClassifier } from './CategoryClassifier';
@@ -0,0 +1,228 @@
+/**
+ * Playwright record/replay for browser scrapers
+ *
+ * Recording wraps a real browser and snapshots each page's rendered HTML
+ * after every navigation (goto, waitForLoadState, evaluate). Replay hands
+ * the scraper a browser that serves those snapshots through the subset of
+ * the Playwright API scrapers use, parsed with cheerio. Nothing runs in a
+ * replayed page: clicks don't navigate, and evaluate() only moves on to the
+ * next snapshot, the way the recorded page moved on.
+ */
+
+import * as cheerio from 'cheerio'
+import type { CheerioAPI } from 'cheerio'
+import type { Element } from 'domhandler'
+import type { Browser, BrowserContext, Page } from 'playwright'
+import type { FixtureCassette } from './cassette'
+
+// Page methods after which the recorded page may show new content
+const SNAPSHOT_METHODS = ['goto', 'waitForLoadState', 'evaluate'] as const
+
+function recordPage(page: Page, cassette: FixtureCassette): Page {
+  const tab = cassette.openTab()
+  const target = page as any
+
+  for (const method of SNAPSHOT_METHODS) {
+    const original = target[method].bind(page)
+    target[method] = async (...args: unknown[]) => {
+      const result = await original(...args)
+      cassette.recordPage({ tab, url: page.url(), html: await page.content() })
+      return result
+    }
+  }
+
+  return page
+}
+
+function recordContext(context: BrowserContext, cassette: FixtureCassette): BrowserContext {
+  const newPage = context.newPage.bind(context)
+  context.newPage = async () => recordPage(await newPage(), cassette)
+  return context
+}
+
+/**
+ * Snapshot every page opened through the browser into the cassette
+ */
+export function recordBrowser(browser: Browser, cassette: FixtureCassette): Browser {
+  const newContext = browser.newContext.bind(browser)
+  browser.newContext = async (options) => recordContext(await newContext(options), cassette)
+  return browser
+}
+
+class ReplayElementHandle {
+  constructor(private readonly doc: CheerioAPI, private readonly element: Element) {}
+
+  async $$(selector: string): Promise<ReplayElementHandle[]> {
+    return this.doc(this.element).find(selector).toArray()
+      .map(element => new ReplayElementHandle(this.doc, element as Element))
+  }
+
+  async $(selector: string): Promise<ReplayElementHandle | null> {
+    const [first] = await this.$$(selector)
+    return first || null
+  }
+
+  async textContent(): Promise<string> {
+    return this.doc(this.element).text()
+  }
+
+  async innerText(): Promise<string> {
+    return this.doc(this.element).text().replace(/\s+/g, ' ').trim()
+  }
+
+  async innerHTML(): Promise<string> {
+    return this.doc(this.element).html() || ''
+  }
+
+  async getAttribute(name: string): Promise<string | null> {
+    return this.doc(this.element).attr(name) ?? null
+  }
+
+  async isVisible(): Promise<boolean> {
+    return true
+  }
+
+  async click(): Promise<void> {}
+
+  async hover(): Promise<void> {}
+}
+
+class ReplayPage {
+  private doc: CheerioAPI = cheerio.load('')
+  private currentUrl = 'about:blank'
+  private closed = false
+
+  constructor(
+    private readonly cassette: FixtureCassette,
+    private readonly browserContext: ReplayContext,
+    private readonly tab: number
+  ) {}
+
+  private nextSnapshot(): void {
+    const snapshot = this.cassette.takePage(this.tab)
+    this.currentUrl = snapshot.url
+    this.doc = cheerio.load(snapshot.html)
+  }
+
+  private handles(selector: string): ReplayElementHandle[] {
+    return this.doc(selector).toArray().map(element => new ReplayElementHandle(this.doc, element as Element))
+  }
+
+  async goto(_url: string, _options?: unknown): Promise<null> {
+    this.nextSnapshot()
+    return null
+  }
+
+  async waitForLoadState(_state?: string, _options?: unknown): Promise<void> {
+    this.nextSnapshot()
+  }
+
+  async evaluate(_fn: unknown, _arg?: unknown): Promise<undefined> {
+    this.nextSnapshot()
+    return undefined
+  }
+
+  async waitForSelector(selector: string, _options?: unknown): Promise<ReplayElementHandle> {
+    const [first] = this.handles(selector)
+    if (!first) {
+      throw new Error(`Timeout waiting for selector "${selector}": no match in the recorded page`)
+    }
+    return first
+  }
+
+  async waitForTimeout(_ms: number): Promise<void> {}
+
+  async $(selector: string): Promise<ReplayElementHandle | null> {
+    return this.handles(selector)[0] || null
+  }
+
+  async $$(selector: string): Promise<ReplayElementHandle[]> {
+    return this.handles(selector)
+  }
+
+  // Callbacks get parsed nodes rather than live DOM elements
+  async $eval<R>(selector: string, fn: (element: Element, arg?: any) => R, arg?: any): Promise<R> {
+    const [first] = this.doc(selector).toArray() as Element[]
+    if (!first) throw new Error(`No element matches "${selector}" in the recorded page`)
+    return fn(first, arg)
+  }
+
+  async $$eval<R>(selector: string, fn: (elements: Element[], arg?: any) => R, arg?: any): Promise<R> {
+    return fn(this.doc(selector).toArray() as Element[], arg)
+  }
+
+  async content(): Promise<string> {
+    return this.doc.html()
+  }
+
+  async title(): Promise<string> {
+    return this.doc('title').first().text()
+  }
+
+  url(): string {
+    return this.currentUrl
+  }
+
+  context(): ReplayContext {
+    return this.browserContext
+  }
+
+  async route(): Promise<void> {}
+
+  on(): this {
+    return this
+  }
+
+  async setExtraHTTPHeaders(): Promise<void> {}
+
+  setDefaultTimeout(): void {}
+
+  isClosed(): boolean {
+    return this.closed
+  }
+
+  async close(): Promise<void> {
+    this.closed = true
+  }
+}
+
+class ReplayContext {
+  constructor(private readonly cassette: FixtureCassette) {}
+
+  async newPage(): Promise<ReplayPage> {
+    return new ReplayPage(this.cassette, this, this.cassette.openTab())
+  }
+
+  async addInitScript(): Promise<void> {}
+
+  async close(): Promise<void> {}
+}
+
+class ReplayBrowser {
+  private connected = true
+
+  constructor(private readonly cassette: FixtureCassette) {}
+
+  async newContext(_options?: unknown): Promise<ReplayContext> {
+    return new ReplayContext(this.cassette)
+  }
+
+  version(): string {
+    return 'replay'
+  }
+
+  isConnected(): boolean {
+    return this.connected
+  }
+
+  async close(): Promise<void> {
+    this.connected = false
+  }
+}
+
+/**
+ * Browser serving the cassette's recorded pages
+ */
+export function replayBrowser(cassette: FixtureCassette): Browser {
+  return new ReplayBrowser(cassette) as unknown as Browser
+}
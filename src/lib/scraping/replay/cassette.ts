@@ -0,0 +1,168 @@
+/**
+ * Fixture cassettes: HTTP responses and rendered pages a scraper saw on a
+ * recording run, stored as one JSON file and served back on replay runs
+ *
+ * Scrapers pick a cassette up from the environment:
+ *   SCRAPER_FIXTURES=record    write <dir>/<scraper>.json while scraping live
+ *   SCRAPER_FIXTURES=replay    serve that file instead of the network/browser
+ *   SCRAPER_FIXTURE_DIR        defaults to src/__tests__/fixtures/scrapers
+ */
+
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs'
+import path from 'path'
+import type { Cassette, FixtureMode, RecordedPage, RecordedRequest, RecordedResponse } from './types'
+
+export const FIXTURE_DIR = 'src/__tests__/fixtures/scrapers'
+
+/**
+ * A replay asked for something the recording run never saw
+ */
+export class FixtureMissingError extends Error {
+  constructor(message: string, public readonly cassette: string) {
+    super(message)
+    this.name = 'FixtureMissingError'
+  }
+}
+
+function matchesRequest(recorded: RecordedRequest, request: RecordedRequest): boolean {
+  return recorded.method === request.method &&
+    recorded.url === request.url &&
+    (recorded.body === undefined || recorded.body === request.body)
+}
+
+export class FixtureCassette {
+  public readonly path: string
+  private cassette: Cassette | null = null
+  private usedExchanges = new Set<number>()
+  private usedPages = new Set<number>()
+  private tabs = 0
+
+  constructor(
+    public readonly name: string,
+    public readonly mode: FixtureMode,
+    dir: string = process.env.SCRAPER_FIXTURE_DIR || FIXTURE_DIR
+  ) {
+    this.path = path.resolve(dir, `${name}.json`)
+  }
+
+  get isReplay(): boolean {
+    return this.mode === 'replay'
+  }
+
+  /**
+   * Recording starts from an empty cassette, replacing any earlier recording
+   */
+  private load(): Cassette {
+    if (this.cassette) return this.cassette
+
+    if (this.mode === 'record') {
+      this.cassette = { name: this.name, recordedAt: new Date().toISOString(), exchanges: [], pages: [] }
+    } else if (!existsSync(this.path)) {
+      throw new FixtureMissingError(
+        `No cassette at ${this.path}; record one with SCRAPER_FIXTURES=record`,
+        this.name
+      )
+    } else {
+      this.cassette = JSON.parse(readFileSync(this.path, 'utf8')) as Cassette
+    }
+
+    return this.cassette
+  }
+
+  // Written after every capture so an interrupted run keeps what it saw
+  private save(): void {
+    mkdirSync(path.dirname(this.path), { recursive: true })
+    writeFileSync(this.path, `${JSON.stringify(this.load(), null, 2)}\n`)
+  }
+
+  recordExchange(request: RecordedRequest, response: RecordedResponse): void {
+    this.load().exchanges.push({ request, response })
+    this.save()
+  }
+
+  /**
+   * Next unplayed response to a request. Once every matching exchange has
+   * played, the last one keeps answering (polling, retries).
+   */
+  takeExchange(request: RecordedRequest): RecordedResponse {
+    const { exchanges } = this.load()
+    const matches = exchanges
+      .map((exchange, index) => matchesRequest(exchange.request, request) ? index : -1)
+      .filter(index => index >= 0)
+    const next = matches.find(index => !this.usedExchanges.has(index)) ?? matches[matches.length - 1]
+
+    if (next === undefined) {
+      throw new FixtureMissingError(
+        `No recorded response for ${request.method} ${request.url} in cassette "${this.name}"`,
+        this.name
+      )
+    }
+
+    this.usedExchanges.add(next)
+    return exchanges[next].response
+  }
+
+  /**
+   * Number a browser tab; tabs open in the same order on every run
+   */
+  openTab(): number {
+    return this.tabs++
+  }
+
+  recordPage(page: RecordedPage): void {
+    this.load().pages.push(page)
+    this.save()
+  }
+
+  /**
+   * Next snapshot taken in a tab
+   */
+  takePage(tab: number): RecordedPage {
+    const { pages } = this.load()
+    const index = pages.findIndex((page, i) => page.tab === tab && !this.usedPages.has(i))
+
+    if (index === -1) {
+      throw new FixtureMissingError(
+        `No recorded page left for tab ${tab} in cassette "${this.name}"`,
+        this.name
+      )
+    }
+
+    this.usedPages.add(index)
+    return pages[index]
+  }
+
+  /**
+   * Rendered HTML of a URL: produced by render() and recorded, or replayed.
+   * For scrapers that drive the browser themselves and only keep the HTML.
+   */
+  async rendered(url: string, render: () => Promise<string>): Promise<string> {
+    const tab = this.openTab()
+
+    if (this.mode === 'record') {
+      const html = await render()
+      this.recordPage({ tab, url, html })
+      return html
+    }
+
+    const { pages } = this.load()
+    const index = pages.findIndex((page, i) => page.url === url && !this.usedPages.has(i))
+
+    if (index === -1) {
+      throw new FixtureMissingError(`No recorded page for ${url} in cassette "${this.name}"`, this.name)
+    }
+
+    this.usedPages.add(index)
+    return pages[index].html
+  }
+}
+
+/**
+ * Cassette for a scraper as configured by SCRAPER_FIXTURES, null when
+ * scraping live
+ */
+export function fixturesFromEnv(name: string): FixtureCassette | null {
+  const mode = process.env.SCRAPER_FIXTURES
+  if (mode !== 'record' && mode !== 'replay') return null
+  return new FixtureCassette(name, mode)
+}
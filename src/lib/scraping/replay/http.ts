@@ -0,0 +1,162 @@
+/**
+ * HTTP record/replay for the two clients scrapers use: fetch (global or
+ * node-fetch) and axios instances
+ */
+
+import axios, {
+  AxiosError,
+  AxiosHeaders,
+  getAdapter,
+  type AxiosInstance,
+  type AxiosResponse,
+  type InternalAxiosRequestConfig
+} from 'axios'
+import type { FixtureCassette } from './cassette'
+import type { RecordedRequest, RecordedResponse } from './types'
+
+export interface FetchInit {
+  method?: string
+  headers?: Record<string, string>
+  body?: string
+}
+
+/**
+ * The part of a fetch Response scrapers read
+ */
+export interface FetchResponseLike {
+  ok: boolean
+  status: number
+  statusText: string
+  url: string
+  headers: {
+    get(name: string): string | null
+    forEach(callback: (value: string, name: string) => void): void
+  }
+  text(): Promise<string>
+  json(): Promise<any>
+}
+
+export type FetchLike = (url: string, init?: FetchInit) => Promise<FetchResponseLike>
+
+function replayedResponse(url: string, recorded: RecordedResponse): FetchResponseLike {
+  const headers = new Map(
+    Object.entries(recorded.headers).map(([name, value]): [string, string] => [
+      name.toLowerCase(),
+      Array.isArray(value) ? value.join(', ') : value
+    ])
+  )
+
+  return {
+    ok: recorded.status >= 200 && recorded.status < 300,
+    status: recorded.status,
+    statusText: recorded.statusText,
+    url,
+    headers: {
+      get: name => headers.get(name.toLowerCase()) ?? null,
+      forEach: callback => headers.forEach((value, name) => callback(value, name))
+    },
+    text: async () => recorded.body,
+    json: async () => JSON.parse(recorded.body)
+  }
+}
+
+/**
+ * fetch that records through fetchImpl or replays from the cassette
+ */
+export function fixtureFetch(
+  cassette: FixtureCassette,
+  fetchImpl: (url: string, init?: any) => Promise<FetchResponseLike>
+): FetchLike {
+  return async (url, init = {}) => {
+    const request: RecordedRequest = {
+      method: (init.method || 'GET').toUpperCase(),
+      url,
+      ...(init.body !== undefined ? { body: init.body } : {})
+    }
+
+    if (cassette.isReplay) {
+      return replayedResponse(url, cassette.takeExchange(request))
+    }
+
+    const response = await fetchImpl(url, init)
+    const headers: Record<string, string> = {}
+    response.headers.forEach((value, name) => { headers[name] = value })
+
+    const recorded: RecordedResponse = {
+      status: response.status,
+      statusText: response.statusText,
+      headers,
+      body: await response.text()
+    }
+    cassette.recordExchange(request, recorded)
+
+    // The body was consumed for the recording; hand back a replayable copy
+    return replayedResponse(url, recorded)
+  }
+}
+
+function toRecorded(response: AxiosResponse): RecordedResponse {
+  return {
+    status: response.status,
+    statusText: response.statusText,
+    headers: AxiosHeaders.from(response.headers as AxiosHeaders).toJSON() as Record<string, string | string[]>,
+    // Adapters hand over the raw body; axios parses it after this point
+    body: typeof response.data === 'string' ? response.data : JSON.stringify(response.data)
+  }
+}
+
+// Resolve or reject the way axios' own adapters do
+function settle(response: AxiosResponse): AxiosResponse {
+  const { config, status } = response
+  if (!config.validateStatus || config.validateStatus(status)) return response
+
+  throw new AxiosError(
+    `Request failed with status code ${status}`,
+    status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+    config,
+    null,
+    response
+  )
+}
+
+/**
+ * Route an axios instance's requests through the cassette. Works at the
+ * adapter level, so interceptors, validateStatus and response parsing
+ * behave as they do live.
+ */
+export function withAxiosFixtures(instance: AxiosInstance, cassette: FixtureCassette): AxiosInstance {
+  const adapter = getAdapter(instance.defaults.adapter)
+
+  instance.defaults.adapter = async (config: InternalAxiosRequestConfig) => {
+    const request: RecordedRequest = {
+      method: (config.method || 'get').toUpperCase(),
+      url: axios.getUri(config),
+      ...(typeof config.data === 'string' ? { body: config.data } : {})
+    }
+
+    if (cassette.isReplay) {
+      const recorded = cassette.takeExchange(request)
+      return settle({
+        data: recorded.body,
+        status: recorded.status,
+        statusText: recorded.statusText,
+        headers: AxiosHeaders.from(recorded.headers),
+        config,
+        request: {}
+      })
+    }
+
+    try {
+      const response = await adapter(config)
+      cassette.recordExchange(request, toRecorded(response))
+      return response
+    } catch (error) {
+      if (axios.isAxiosError(error) && error.response) {
+        cassette.recordExchange(request, toRecorded(error.response))
+      }
+      throw error
+    }
+  }
+
+  return instance
+}
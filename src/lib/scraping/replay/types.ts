@@ -0,0 +1,45 @@
+/**
+ * Types for recorded scraper fixtures ("cassettes")
+ */
+
+/**
+ * record: hit the network/browser and write everything to the cassette
+ * replay: serve everything from the cassette; no network, no browser
+ */
+export type FixtureMode = 'record' | 'replay'
+
+export interface RecordedRequest {
+  method: string
+  url: string
+  // Only set for requests that send one; replay matches on it when present
+  body?: string
+}
+
+export interface RecordedResponse {
+  status: number
+  statusText: string
+  headers: Record<string, string | string[]>
+  body: string
+}
+
+export interface RecordedExchange {
+  request: RecordedRequest
+  response: RecordedResponse
+}
+
+/**
+ * Rendered HTML of a browser page, taken after each navigation. Snapshots
+ * of one tab replay in the order they were taken.
+ */
+export interface RecordedPage {
+  tab: number
+  url: string
+  html: string
+}
+
+export interface Cassette {
+  name: string
+  recordedAt: string
+  exchanges: RecordedExchange[]
+  pages: RecordedPage[]
+}
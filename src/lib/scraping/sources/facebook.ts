@@ -13,6 +13,8 @@
 import * as cheerio from 'cheerio';
 import axios, { AxiosInstance, AxiosRequestConfig } from 'axios';
 import { RawEvent, ApiError, SearchParams } from '../../api/types';
+import { FixtureCassette, fixturesFromEnv } from '../replay/cassette';
+import { withAxiosFixtures } from '../replay/http';
 
 interface FacebookEventRaw {
   id: string;
@@ -65,6 +67,7 @@ export class FacebookEventsScraper {
   private sessions: SessionData[] = [];
   private currentSessionIndex = 0;
   private httpClient: AxiosInstance;
+  private fixtures: FixtureCassette | null;
   private readonly rateLimiter = new Map<string, number>();
 
   // Facebook event categories for targeted scraping
@@ -110,7 +113,10 @@ export class FacebookEventsScraper {
     'Mozilla/5.0 (X11; Linux x86_64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/119.0.0.0 Safari/537.36'
   ];
 
-  constructor(config?: Partial<FacebookScrapingConfig>) {
+  constructor(
+    config?: Partial<FacebookScrapingConfig>,
+    fixtures: FixtureCassette | null = fixturesFromEnv('facebook')
+  ) {
     this.config = {
       maxRetries: 3,
       retryDelay: 2000,
@@ -128,6 +134,11 @@ export class FacebookEventsScraper {
       validateStatus: (status) => status < 500, // Don't throw on 4xx errors
     });
 
+    this.fixtures = fixtures;
+    if (fixtures) {
+      withAxiosFixtures(this.httpClient, fixtures);
+    }
+
     this.initializeSessions();
   }
 
@@ -224,6 +235,7 @@ export class FacebookEventsScraper {
    * Sleep utility
    */
   private sleep(ms: number): Promise<void> {
+    if (this.fixtures?.isReplay) return Promise.resolve();
     return new Promise(resolve => setTimeout(resolve, ms));
   }
 
@@ -672,8 +684,11 @@ export class FacebookEventsScraper {
 export const facebookScraper = new FacebookEventsScraper();
 
 // Export factory function for custom configurations
-export function createFacebookScraper(config?: Partial<FacebookScrapingConfig>): FacebookEventsScraper {
-  return new FacebookEventsScraper(config);
+export function createFacebookScraper(
+  config?: Partial<FacebookScrapingConfig>,
+  fixtures?: FixtureCassette | null
+): FacebookEventsScraper {
+  return new FacebookEventsScraper(config, fixtures);
 }
 
 // Export types
@@ -0,0 +1,365 @@
+/**
+ * iCalendar (.ics) Feed Source
+ *
+ * Ingests public calendars published by venues, libraries and universities.
+ * Feeds are configured per city (see config/ics-feeds.ts); each feed is
+ * parsed, recurring events are expanded over a rolling horizon, and the
+ * occurrences go through EventNormalizer and the deduplication system
+ * before they are returned as SceneScout events.
+ */
+
+import { createHash } from 'crypto';
+import { formatInTimeZone } from 'date-fns-tz';
+import { Event } from '@/types';
+import { ScrapedEvent } from '@/types/events';
+import { normalizeCategory } from '@/lib/event-normalizer';
+import { IcsFeedConfig, ScrapeSource } from '../types';
+import { IcsParser, IcsOccurrence } from '../parsers/ics-parser';
+import { EventNormalizer } from '../pipeline/EventNormalizer';
+import { IntelligentDeduplicationSystem } from '../deduplication';
+import { getIcsFeedsByCity } from '../config/ics-feeds';
+
+export interface IcsSourceOptions {
+  /** How far ahead recurring events are expanded (default 90 days) */
+  horizonDays?: number;
+  /** Default timezone for floating times (default America/Toronto) */
+  defaultTimezone?: string;
+  now?: () => Date;
+  fetchFeed?: (url: string) => Promise<string>;
+  normalizer?: EventNormalizer;
+  deduplicator?: IntelligentDeduplicationSystem;
+}
+
+export interface IcsVenue {
+  name: string;
+  address?: string;
+  city: string;
+  coordinates?: { lat: number; lng: number };
+}
+
+export interface IcsIngestionResult {
+  /** Active and cancelled occurrences; cancelled ones retract stored events */
+  events: Event[];
+  venues: IcsVenue[];
+  errors: string[];
+  stats: {
+    feeds: number;
+    feedsFailed: number;
+    occurrences: number;
+    rejected: number;
+    duplicatesRemoved: number;
+  };
+}
+
+interface ResolvedVenue {
+  name?: string;
+  address?: string;
+  coordinates?: { lat: number; lng: number };
+  online?: string;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const MAX_EXTERNAL_ID_LENGTH = 255;
+
+export class IcsFeedSource {
+  public readonly source: ScrapeSource = 'ical';
+
+  private horizonDays: number;
+  private defaultTimezone: string;
+  private now: () => Date;
+  private fetchFeed: (url: string) => Promise<string>;
+  private normalizer: EventNormalizer;
+  private deduplicator: IntelligentDeduplicationSystem;
+
+  constructor(options: IcsSourceOptions = {}) {
+    this.horizonDays = options.horizonDays ?? 90;
+    this.defaultTimezone = options.defaultTimezone ?? 'America/Toronto';
+    this.now = options.now ?? (() => new Date());
+    this.fetchFeed = options.fetchFeed ?? fetchIcsFeed;
+    this.normalizer = options.normalizer ?? new EventNormalizer({
+      defaultTimezone: this.defaultTimezone,
+      // Calendar titles are already cased the way the publisher wants
+      normalizeCase: false
+    });
+    this.deduplicator = options.deduplicator ?? new IntelligentDeduplicationSystem();
+  }
+
+  /**
+   * Ingest every enabled feed configured for a city
+   */
+  public async ingestCity(city: string): Promise<IcsIngestionResult> {
+    return this.ingestFeeds(getIcsFeedsByCity(city));
+  }
+
+  public async ingestFeeds(feeds: IcsFeedConfig[]): Promise<IcsIngestionResult> {
+    const errors: string[] = [];
+    const events: Event[] = [];
+    const venues = new Map<string, IcsVenue>();
+    let feedsFailed = 0;
+    let occurrenceCount = 0;
+    let rejected = 0;
+
+    for (const feed of feeds.filter(f => f.enabled)) {
+      let occurrences: IcsOccurrence[];
+      try {
+        const text = await this.fetchFeed(feed.url);
+        const parsed = this.parseFeed(text, feed);
+        occurrences = parsed.occurrences;
+        errors.push(...parsed.warnings.map(w => `${feed.id}: ${w}`));
+      } catch (error) {
+        feedsFailed++;
+        errors.push(`${feed.id}: ${error instanceof Error ? error.message : String(error)}`);
+        continue;
+      }
+
+      occurrenceCount += occurrences.length;
+
+      for (const occurrence of occurrences) {
+        const venue = this.resolveVenue(occurrence, feed);
+        const event = await this.toEvent(occurrence, feed, venue);
+
+        if (!event) {
+          rejected++;
+          continue;
+        }
+
+        events.push(event);
+        if (venue.name) {
+          const key = `${venue.name.toLowerCase()}|${(venue.address || '').toLowerCase()}`;
+          const existing = venues.get(key);
+          venues.set(key, {
+            name: venue.name,
+            address: venue.address,
+            city: feed.city,
+            coordinates: existing?.coordinates || venue.coordinates
+          });
+        }
+      }
+    }
+
+    const { unique, duplicatesRemoved } = await this.dedupe(events);
+
+    return {
+      events: unique,
+      venues: Array.from(venues.values()),
+      errors,
+      stats: {
+        feeds: feeds.length,
+        feedsFailed,
+        occurrences: occurrenceCount,
+        rejected,
+        duplicatesRemoved
+      }
+    };
+  }
+
+  /**
+   * Occurrences of a feed inside the ingestion horizon
+   */
+  public parseFeed(text: string, feed: IcsFeedConfig): { occurrences: IcsOccurrence[]; warnings: string[] } {
+    if (!/BEGIN:VCALENDAR/i.test(text)) {
+      throw new Error('Response is not an iCalendar feed');
+    }
+
+    const parser = new IcsParser(feed.timezone || this.defaultTimezone);
+    const calendar = parser.parse(text);
+    const from = this.now();
+    const to = new Date(from.getTime() + this.horizonDays * DAY_MS);
+
+    return {
+      occurrences: parser.expand(calendar.events, from, to),
+      warnings: calendar.warnings
+    };
+  }
+
+  private async toEvent(occurrence: IcsOccurrence, feed: IcsFeedConfig, venue: ResolvedVenue): Promise<Event | null> {
+    const { event: vevent } = occurrence;
+    const externalId = this.externalId(occurrence);
+
+    const input: Partial<ScrapedEvent> = {
+      externalId,
+      title: vevent.summary,
+      description: vevent.description,
+      startDate: occurrence.start.toISOString(),
+      endDate: occurrence.end?.toISOString(),
+      venue: venue.name,
+      address: venue.address,
+      tags: vevent.categories,
+      source: this.source
+    };
+    const normalization = await this.normalizer.normalize(input);
+
+    if (normalization.errors.length > 0 || !normalization.event.normalizedStartDate) {
+      console.warn(`⚠️ Rejected iCal event "${vevent.summary}" from ${feed.id}:`, normalization.errors.join('; '));
+      return null;
+    }
+
+    const normalized = normalization.event;
+    // UTC DTSTARTs say nothing about local time; show them in the feed's zone
+    const timezone = occurrence.timezone === 'UTC' ? (feed.timezone || this.defaultTimezone) : occurrence.timezone;
+    const tags = [...new Set([
+      ...(normalized.normalizedTags || []),
+      ...(venue.online ? ['online'] : [])
+    ])];
+
+    return {
+      id: `ical_${createHash('sha1').update(externalId).digest('hex').slice(0, 24)}`,
+      title: normalized.title || vevent.summary,
+      description: normalized.description || null,
+      category: normalizeCategory(feed.category || normalized.normalizedCategories?.[0] || vevent.categories[0]),
+      tags,
+      date: formatInTimeZone(occurrence.start, timezone, 'yyyy-MM-dd'),
+      start_time: occurrence.start.toISOString(),
+      end_time: occurrence.end?.toISOString() || null,
+      timezone,
+      venue_name: venue.name,
+      address: venue.address || null,
+      latitude: venue.coordinates?.lat ?? null,
+      longitude: venue.coordinates?.lng ?? null,
+      venue: venue.name
+        ? {
+            name: venue.name,
+            address: venue.address,
+            latitude: venue.coordinates?.lat,
+            longitude: venue.coordinates?.lng
+          }
+        : undefined,
+      city_name: feed.city,
+      external_url: this.safeUrl(vevent.url) || venue.online || null,
+      external_id: externalId,
+      source: this.source,
+      provider: feed.id,
+      status: vevent.status === 'CANCELLED' ? 'cancelled' : 'active'
+    };
+  }
+
+  /**
+   * Map LOCATION/GEO to a venue. "Name, street, city" splits into name and
+   * address; a bare LOCATION in a single-venue feed is usually a room, so
+   * the configured venue wins.
+   */
+  private resolveVenue(occurrence: IcsOccurrence, feed: IcsFeedConfig): ResolvedVenue {
+    const location = occurrence.event.location?.trim();
+    const geo = occurrence.event.geo;
+    const configured: ResolvedVenue = feed.venue
+      ? { name: feed.venue.name, address: feed.venue.address, coordinates: feed.venue.coordinates }
+      : {};
+
+    if (!location) {
+      return { ...configured, coordinates: geo || configured.coordinates };
+    }
+
+    if (/^https?:\/\//i.test(location)) {
+      return { online: this.safeUrl(location) };
+    }
+
+    const [first, ...rest] = location.split(',').map(part => part.trim()).filter(Boolean);
+
+    if (rest.length === 0) {
+      return feed.venue
+        ? { ...configured, coordinates: geo || configured.coordinates }
+        : { name: first, coordinates: geo };
+    }
+
+    // "123 Queen St W, Toronto, ON" is an address without a venue name
+    if (/^\d/.test(first)) {
+      return {
+        name: configured.name || location,
+        address: location,
+        coordinates: geo
+      };
+    }
+
+    return { name: first, address: rest.join(', '), coordinates: geo };
+  }
+
+  /**
+   * UID for one-off events; UID plus the original start for occurrences of
+   * a series, so an occurrence keeps its id when an override moves it
+   */
+  private externalId(occurrence: IcsOccurrence): string {
+    const id = occurrence.recurring
+      ? `${occurrence.event.uid}/${occurrence.occurrenceKey}`
+      : occurrence.event.uid;
+
+    return id.length <= MAX_EXTERNAL_ID_LENGTH
+      ? id
+      : createHash('sha1').update(id).digest('hex');
+  }
+
+  /**
+   * Drop events that duplicate one already accepted (the same show listed
+   * by a venue feed and a city-wide feed). Only events within a day of each
+   * other are compared.
+   */
+  private async dedupe(events: Event[]): Promise<{ unique: Event[]; duplicatesRemoved: number }> {
+    const unique: Event[] = [];
+    const byDay = new Map<number, Event[]>();
+    let duplicatesRemoved = 0;
+
+    for (const event of events) {
+      // Cancellations must reach storage even if another feed lists the show
+      if (event.status === 'cancelled') {
+        unique.push(event);
+        continue;
+      }
+
+      const day = Math.floor(new Date(event.start_time!).getTime() / DAY_MS);
+      const candidates = [day - 1, day, day + 1].flatMap(d => byDay.get(d) || []);
+
+      // Feeds rarely agree on descriptions or coordinates, so the same title
+      // at the same venue and start time is a duplicate without scoring
+      if (candidates.some(candidate => isSameListing(event, candidate))) {
+        duplicatesRemoved++;
+        continue;
+      }
+
+      if (candidates.length > 0) {
+        const result = await this.deduplicator.checkForDuplicates(event, candidates);
+        if (result.isDuplicate) {
+          duplicatesRemoved++;
+          continue;
+        }
+      }
+
+      unique.push(event);
+      byDay.set(day, [...(byDay.get(day) || []), event]);
+    }
+
+    return { unique, duplicatesRemoved };
+  }
+
+  private safeUrl(value: string | undefined): string | undefined {
+    if (!value) return undefined;
+    try {
+      const url = new URL(value.trim());
+      return url.protocol === 'http:' || url.protocol === 'https:' ? url.toString() : undefined;
+    } catch {
+      return undefined;
+    }
+  }
+}
+
+function isSameListing(a: Event, b: Event): boolean {
+  const key = (value: string | undefined) => (value || '').toLowerCase().replace(/[^\w]+/g, ' ').trim();
+
+  return a.start_time === b.start_time &&
+    key(a.title) === key(b.title) &&
+    !!a.venue_name && key(a.venue_name) === key(b.venue_name);
+}
+
+async function fetchIcsFeed(url: string): Promise<string> {
+  // webcal:// is http(s) by another name
+  const response = await fetch(url.replace(/^webcal:\/\//i, 'https://'), {
+    headers: {
+      'Accept': 'text/calendar, text/plain;q=0.9, */*;q=0.5',
+      'User-Agent': 'SceneScout/1.0'
+    }
+  });
+
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}: ${response.statusText}`);
+  }
+
+  return response.text();
+}
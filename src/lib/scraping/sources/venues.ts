@@ -8,9 +8,13 @@ import {
   VenueEvent,
   ScrapingError,
   ScrapingMetadata,
-  FallbackConfiguration
+  FallbackConfiguration,
+  ExtractionMethod,
+  PaginationConfig,
+  VenueInfo
 } from '../types/venue';
 import { AdaptiveParser } from '../parsers/adaptive-parser';
+import { StructuredDataParser } from '../parsers/structured-data-parser';
 import {
   VENUE_CONFIGURATIONS,
   getVenueConfig,
@@ -18,14 +22,28 @@ import {
   getVenuesByType,
   getAllEnabledVenues
 } from '../config/venue-configs';
+import { trackScraperRun } from '../health/recorder';
+import { trackVenuePage } from '../drift/monitor';
+import { FixtureCassette, fixturesFromEnv } from '../replay/cassette';
+import { fixtureFetch } from '../replay/http';
+
+// Source name venue runs are recorded under in the health scoreboard
+const VENUE_HEALTH_SOURCE = 'venue';
 
 export class VenueScraper {
   private parser: AdaptiveParser;
+  private structuredParser: StructuredDataParser;
   private browser: Browser | null = null;
   private rateLimiters: Map<string, { lastRequest: number; requestCount: number }> = new Map();
+  private trackHealth: boolean;
+  private fixtures: FixtureCassette | null;
 
-  constructor() {
+  constructor(options: { trackHealth?: boolean; fixtures?: FixtureCassette | null } = {}) {
     this.parser = new AdaptiveParser();
+    this.structuredParser = new StructuredDataParser();
+    this.fixtures = options.fixtures === undefined ? fixturesFromEnv('venues') : options.fixtures;
+    // Replayed pages say nothing about the venue's health today
+    this.trackHealth = options.trackHealth ?? !this.fixtures?.isReplay;
   }
 
   /**
@@ -99,6 +117,8 @@ export class VenueScraper {
     const allEvents: VenueEvent[] = [];
     const allErrors: ScrapingError[] = [];
     const fallbacksUsed: string[] = [];
+    const extractionMethods: ExtractionMethod[] = [];
+    let selectorMisses = 0;
 
     // Scrape all locations for this venue
     for (const location of config.locations) {
@@ -110,6 +130,8 @@ export class VenueScraper {
         allEvents.push(...locationResult.events);
         allErrors.push(...locationResult.errors);
         fallbacksUsed.push(...locationResult.metadata.fallbacksUsed);
+        extractionMethods.push(...(locationResult.metadata.extractionMethods || []));
+        selectorMisses += locationResult.metadata.selectorMisses || 0;
 
       } catch (error) {
         allErrors.push({
@@ -122,19 +144,40 @@ export class VenueScraper {
 
     const processingTime = Date.now() - startTime;
     const dataQuality = this.calculateOverallDataQuality(allEvents);
+    const success = allErrors.length === 0 || allEvents.length > 0;
+
+    const health = this.trackHealth
+      ? await trackScraperRun({
+          source: VENUE_HEALTH_SOURCE,
+          venueId,
+          startedAt: new Date(startTime).toISOString(),
+          durationMs: processingTime,
+          success,
+          eventsFound: allEvents.length,
+          selectorMisses,
+          error: allErrors[0]?.message
+        })
+      : null;
+
+    // A quarantined venue is still scraped as a probe, but its events are
+    // withheld so a broken page doesn't overwrite good listings
+    const quarantined = Boolean(health?.quarantine);
 
     return {
-      success: allErrors.length === 0 || allEvents.length > 0,
-      events: allEvents,
+      success,
+      events: quarantined ? [] : allEvents,
       errors: allErrors,
       metadata: {
         venueId,
         scrapedAt: new Date(),
         totalFound: allEvents.length,
-        totalProcessed: allEvents.length,
+        totalProcessed: quarantined ? 0 : allEvents.length,
         processingTime,
         fallbacksUsed: [...new Set(fallbacksUsed)],
-        dataQuality
+        dataQuality,
+        extractionMethods: [...new Set(extractionMethods)],
+        selectorMisses,
+        quarantined
       }
     };
   }
@@ -196,29 +239,25 @@ export class VenueScraper {
     const events: VenueEvent[] = [];
     const errors: ScrapingError[] = [];
     const fallbacksUsed: string[] = [];
+    const extractionMethods: ExtractionMethod[] = [];
+    const selectorMisses: string[] = [];
 
     try {
       // Merge location-specific config with venue config
       const effectiveConfig = this.mergeConfigs(config, location);
       
-      let page: Page | null = null;
-      let dom: Document | null = null;
+      let content: string;
 
       if (effectiveConfig.scrapeConfig.javascript) {
         // Use Puppeteer for JavaScript-heavy sites
-        page = await this.getPage();
-        await page.goto(location.url, { waitUntil: 'networkidle0' });
-        
-        // Handle pagination if configured
-        if (effectiveConfig.scrapeConfig.pagination) {
-          await this.handlePagination(page, effectiveConfig.scrapeConfig.pagination);
-        }
-
-        const content = await page.content();
-        dom = new JSDOM(content).window.document;
+        const render = () => this.renderPage(location.url, effectiveConfig.scrapeConfig.pagination);
+        content = this.fixtures
+          ? await this.fixtures.rendered(location.url, render)
+          : await render();
       } else {
         // Use fetch for static content
-        const response = await fetch(location.url, {
+        const request = this.fixtures ? fixtureFetch(this.fixtures, fetch) : fetch;
+        const response = await request(location.url, {
           headers: effectiveConfig.scrapeConfig.headers || {}
         });
         
@@ -226,19 +265,50 @@ export class VenueScraper {
           throw new Error(`HTTP ${response.status}: ${response.statusText}`);
         }
 
-        const content = await response.text();
-        dom = new JSDOM(content).window.document;
+        content = await response.text();
       }
 
-      // Extract events using adaptive parser
-      const extractedEvents = await this.extractEvents(
-        dom, 
-        effectiveConfig, 
-        location,
-        fallbacksUsed
+      // Prefer schema.org structured data; it survives redesigns that
+      // break the configured selectors
+      const structuredEvents = this.extractStructuredEvents(
+        content,
+        this.buildVenueInfo(effectiveConfig, location),
+        location.url
       );
 
-      events.push(...extractedEvents);
+      if (structuredEvents.length > 0) {
+        events.push(...structuredEvents);
+        extractionMethods.push('structured_data');
+      } else {
+        // Extract events using adaptive parser; the page URL lets relative
+        // ticket links resolve
+        const dom = new JSDOM(content, { url: location.url }).window.document;
+        const pageInfo = { venueId: config.id, locationId: location.id, url: location.url };
+        let extractedEvents: VenueEvent[];
+
+        try {
+          extractedEvents = await this.extractEvents(
+            dom, 
+            effectiveConfig, 
+            location,
+            fallbacksUsed,
+            selectorMisses
+          );
+        } catch (error) {
+          if (this.trackHealth) {
+            await trackVenuePage(content, effectiveConfig.scrapeConfig, pageInfo, 0);
+          }
+          throw error;
+        }
+
+        // Fingerprint pages the selectors work on; check empty ones for drift
+        if (this.trackHealth) {
+          await trackVenuePage(content, effectiveConfig.scrapeConfig, pageInfo, extractedEvents.length);
+        }
+
+        events.push(...extractedEvents);
+        extractionMethods.push('selectors');
+      }
 
     } catch (error) {
       errors.push({
@@ -258,6 +328,7 @@ export class VenueScraper {
       if (fallbackResult) {
         events.push(...fallbackResult.events);
         errors.push(...fallbackResult.errors);
+        extractionMethods.push(...(fallbackResult.metadata.extractionMethods || []));
       }
     }
 
@@ -275,11 +346,43 @@ export class VenueScraper {
         totalProcessed: events.length,
         processingTime,
         fallbacksUsed,
-        dataQuality
+        dataQuality,
+        extractionMethods: [...new Set(extractionMethods)],
+        selectorMisses: selectorMisses.length
       }
     };
   }
 
+  /**
+   * Extract events from schema.org JSON-LD/microdata, keeping only those
+   * that pass the same validation as selector-parsed events
+   */
+  private extractStructuredEvents(
+    html: string,
+    venueInfo: VenueInfo,
+    pageUrl: string
+  ): VenueEvent[] {
+    return this.structuredParser
+      .parseEvents(html, venueInfo, pageUrl)
+      .filter(event => {
+        const validationErrors = this.parser.validateEvent(event);
+        return validationErrors.length === 0 || validationErrors.every(e => e.recoverable);
+      });
+  }
+
+  private buildVenueInfo(config: VenueConfiguration, location: VenueLocation): VenueInfo {
+    return {
+      id: location.id,
+      name: config.name,
+      type: config.type,
+      address: '', // Would need to be populated from venue data
+      city: location.city,
+      state: location.state,
+      country: location.country,
+      website: config.baseUrl
+    };
+  }
+
   /**
    * Extract events from parsed DOM
    */
@@ -287,13 +390,18 @@ export class VenueScraper {
     dom: Document,
     config: VenueConfiguration,
     location: VenueLocation,
-    fallbacksUsed: string[]
+    fallbacksUsed: string[],
+    selectorMisses: string[] = []
   ): Promise<VenueEvent[]> {
     const events: VenueEvent[] = [];
     const selectors = config.scrapeConfig.listingSelectors;
 
     // Find event container
     let container = dom.querySelector(selectors.container);
+
+    if (!container) {
+      selectorMisses.push(selectors.container);
+    }
     
     if (!container && config.fallbacks.length > 0) {
       // Try fallback containers
@@ -322,22 +430,14 @@ export class VenueScraper {
     const eventElements = container.querySelectorAll(selectors.eventItem);
     
     if (eventElements.length === 0) {
+      selectorMisses.push(selectors.eventItem);
       throw new Error('No event items found');
     }
 
     // Parse each event
     for (const element of Array.from(eventElements)) {
       try {
-        const venueInfo = {
-          id: location.id,
-          name: config.name,
-          type: config.type,
-          address: '', // Would need to be populated from venue data
-          city: location.city,
-          state: location.state,
-          country: location.country,
-          website: config.baseUrl
-        };
+        const venueInfo = this.buildVenueInfo(config, location);
 
         const event = await this.parser.parseEvent(
           element,
@@ -500,6 +600,20 @@ export class VenueScraper {
     }
   }
 
+  /**
+   * Rendered HTML of a JavaScript page, after pagination if configured
+   */
+  private async renderPage(url: string, paginationConfig?: PaginationConfig): Promise<string> {
+    const page = await this.getPage();
+    await page.goto(url, { waitUntil: 'networkidle0' });
+
+    if (paginationConfig) {
+      await this.handlePagination(page, paginationConfig);
+    }
+
+    return page.content();
+  }
+
   /**
    * Get or create Puppeteer page
    */
@@ -636,6 +750,7 @@ export class VenueScraper {
    * Utility: Delay execution
    */
   private delay(ms: number): Promise<void> {
+    if (this.fixtures?.isReplay) return Promise.resolve();
     return new Promise(resolve => setTimeout(resolve, ms));
   }
 
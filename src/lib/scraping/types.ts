@@ -66,6 +66,25 @@ export type ScrapeSource =
   | 'bandsintown'
   | 'dice'
   | 'resident_advisor'
+  | 'ical'
+
+// Public iCalendar (.ics) feed ingested by the 'ical' source
+export interface IcsFeedConfig {
+  id: string
+  url: string
+  city: string
+  name?: string
+  // Used for floating times when the feed declares no X-WR-TIMEZONE
+  timezone?: string
+  // Venue for single-venue feeds whose events carry no LOCATION
+  venue?: {
+    name: string
+    address?: string
+    coordinates?: { lat: number; lng: number }
+  }
+  category?: string
+  enabled: boolean
+}
 
 // CSS/XPath selectors for different elements
 export interface SelectorMap {
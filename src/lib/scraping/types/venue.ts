@@ -13,9 +13,14 @@ export interface VenueEvent {
   performers?: Performer[];
   image?: string;
   url?: string;
+  status?: EventStatus;
   metadata: Record<string, any>;
 }
 
+export type EventStatus = 'scheduled' | 'cancelled' | 'postponed' | 'rescheduled' | 'moved_online';
+
+export type ExtractionMethod = 'structured_data' | 'selectors';
+
 export interface VenueInfo {
   id: string;
   name: string;
@@ -224,6 +229,9 @@ export interface ScrapingMetadata {
   processingTime: number;
   fallbacksUsed: string[];
   dataQuality: number;
+  extractionMethods?: ExtractionMethod[];
+  selectorMisses?: number;
+  quarantined?: boolean;
 }
 
 export interface ChainConfiguration {
@@ -0,0 +1,125 @@
+/**
+ * Collapse recurring events in a feed
+ *
+ * A weekly trivia night listed twelve times shows up once, as its next
+ * occurrence with an "Every Tuesday" summary attached. The card still
+ * carries that occurrence's own id, so saves and reminders target a
+ * specific date; the other dates are listed in `series.upcoming`.
+ */
+
+import { formatInTimeZone } from 'date-fns-tz'
+import { detectSeries } from './detect'
+import type { EventSeriesSummary, SeriesCandidate } from './types'
+
+export interface SeriesFeedEvent {
+  id: string
+  title: string
+  venue_name?: string | null
+  venue?: { name?: string } | null
+  date?: string
+  event_date?: string
+  time?: string
+  start_time?: string | null
+  timezone?: string | null
+  status?: string
+}
+
+export interface CollapseSeriesOptions {
+  now?: Date
+  /** Timezone for ISO start times of events without one (default America/Toronto) */
+  defaultTimezone?: string
+}
+
+const DEFAULT_TIMEZONE = 'America/Toronto'
+const MAX_UPCOMING = 10
+
+/**
+ * Local start (YYYY-MM-DDTHH:mm) of a feed event, from an ISO start_time in
+ * the event's timezone or from date + time. Date-only events start at 00:00.
+ */
+export function localStartOf(event: SeriesFeedEvent, defaultTimezone: string = DEFAULT_TIMEZONE): string | null {
+  const startTime = event.start_time || ''
+  const clockTime = event.time || (/^\d{2}:\d{2}/.test(startTime) ? startTime : '')
+  const clock = /^\d{2}:\d{2}/.test(clockTime) ? clockTime.slice(0, 5) : '00:00'
+
+  // Midnight UTC is how date-only rows come out of transformEventRow
+  if (/^\d{4}-\d{2}-\d{2}T00:00:00(\.000)?Z$/.test(startTime)) {
+    return `${startTime.slice(0, 10)}T${clock}`
+  }
+
+  if (startTime.includes('T')) {
+    const instant = new Date(startTime)
+    if (!isNaN(instant.getTime())) {
+      try {
+        return formatInTimeZone(instant, event.timezone || defaultTimezone, "yyyy-MM-dd'T'HH:mm")
+      } catch {
+        return formatInTimeZone(instant, defaultTimezone, "yyyy-MM-dd'T'HH:mm")
+      }
+    }
+  }
+
+  const date = (event.event_date || event.date || '').slice(0, 10)
+  return /^\d{4}-\d{2}-\d{2}$/.test(date) ? `${date}T${clock}` : null
+}
+
+/**
+ * Replace each detected series with its next listed occurrence (the first
+ * one today or later that isn't cancelled), keeping feed order otherwise
+ */
+export function collapseSeries<T extends SeriesFeedEvent>(
+  events: T[],
+  options: CollapseSeriesOptions = {}
+): Array<T & { series?: EventSeriesSummary }> {
+  const now = options.now || new Date()
+  const defaultTimezone = options.defaultTimezone || DEFAULT_TIMEZONE
+
+  const candidates: SeriesCandidate[] = []
+  for (const event of events) {
+    const localStart = localStartOf(event, defaultTimezone)
+    if (!localStart) continue
+
+    candidates.push({
+      id: event.id,
+      title: event.title,
+      venueName: event.venue_name || event.venue?.name,
+      localStart,
+      timezone: event.timezone,
+      cancelled: event.status === 'cancelled'
+    })
+  }
+
+  const shown = new Map<string, EventSeriesSummary>()
+  const hidden = new Set<string>()
+
+  for (const series of detectSeries(candidates)) {
+    const today = formatInTimeZone(now, series.timezone || defaultTimezone, 'yyyy-MM-dd')
+    const active = series.occurrences.filter(o => o.status !== 'cancelled')
+    const next = active.find(o => o.localStart.slice(0, 10) >= today) || active[0]
+    if (!next) continue
+
+    const fromNext = series.occurrences.slice(series.occurrences.indexOf(next))
+    shown.set(next.eventId, {
+      id: series.id,
+      rrule: series.rrule,
+      label: series.label,
+      nextDate: next.localStart.slice(0, 10),
+      occurrenceCount: series.occurrences.length,
+      upcoming: fromNext.slice(0, MAX_UPCOMING).map(o => ({
+        eventId: o.eventId,
+        date: o.localStart.slice(0, 10),
+        status: o.status
+      }))
+    })
+
+    for (const occurrence of series.occurrences) {
+      if (occurrence.eventId !== next.eventId) hidden.add(occurrence.eventId)
+    }
+  }
+
+  return events
+    .filter(event => !hidden.has(event.id))
+    .map(event => {
+      const series = shown.get(event.id)
+      return series ? { ...event, series } : event
+    })
+}
@@ -0,0 +1,213 @@
+/**
+ * Recurring series detection
+ *
+ * Groups listed events by title and venue and looks for the simplest RRULE
+ * that explains their dates: weekly, every other week, the nth or last
+ * weekday of the month, a fixed day of the month, or daily. Listings at
+ * another time of day become moved occurrences; dates the rule skips over
+ * become EXDATEs.
+ */
+
+import { createHash } from 'crypto'
+import {
+  expandRecurrence,
+  formatRecurrenceRule,
+  type RecurrenceRule,
+  type Weekday
+} from '@/lib/scraping/parsers/recurrence'
+import { normalizeEventSlug } from '@/lib/deduplication/event-deduper'
+import type { DetectedSeries, SeriesCandidate, SeriesOccurrence } from './types'
+
+export const MIN_SERIES_OCCURRENCES = 3
+
+// Share of the dates a rule produces that must actually be listed
+const MIN_COVERAGE = 0.75
+
+const LOCAL_START = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}$/
+
+const WEEKDAYS: Weekday[] = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA']
+const WEEKDAY_NAMES: Record<Weekday, string> = {
+  SU: 'Sunday',
+  MO: 'Monday',
+  TU: 'Tuesday',
+  WE: 'Wednesday',
+  TH: 'Thursday',
+  FR: 'Friday',
+  SA: 'Saturday'
+}
+const ORDINAL_NAMES: Record<string, string> = {
+  '1': 'First',
+  '2': 'Second',
+  '3': 'Third',
+  '4': 'Fourth',
+  '-1': 'Last'
+}
+
+/**
+ * Find recurring series among listed events. Events without a venue are
+ * never grouped, and a group needs at least MIN_SERIES_OCCURRENCES dates.
+ */
+export function detectSeries(candidates: SeriesCandidate[]): DetectedSeries[] {
+  const groups = new Map<string, SeriesCandidate[]>()
+
+  for (const candidate of candidates) {
+    if (!candidate.title || !candidate.venueName || !LOCAL_START.test(candidate.localStart)) continue
+    const key = normalizeEventSlug(candidate.title, candidate.venueName)
+    groups.set(key, [...(groups.get(key) || []), candidate])
+  }
+
+  const series: DetectedSeries[] = []
+  groups.forEach((group, key) => {
+    const detected = detectGroup(key, group)
+    if (detected) series.push(detected)
+  })
+
+  return series
+}
+
+function detectGroup(key: string, group: SeriesCandidate[]): DetectedSeries | null {
+  if (group.length < MIN_SERIES_OCCURRENCES) return null
+
+  const sorted = [...group].sort((a, b) => a.localStart.localeCompare(b.localStart))
+  const dates = sorted.map(c => c.localStart.slice(0, 10))
+  const listed = new Set(dates)
+
+  // Early and late shows on one night are separate events, not a series
+  if (listed.size !== dates.length) return null
+
+  const time = usualTime(sorted)
+  const start = wallClock(dates[0], time)
+  const end = wallClock(dates[dates.length - 1], time)
+
+  for (const rule of candidateRules(start)) {
+    const expected = expandRecurrence({ start, rule, toInstant: local => local, to: end, maxOccurrences: 1000 })
+      .map(instance => instance.local.toISOString().slice(0, 10))
+    const expectedSet = new Set(expected)
+
+    if (!dates.every(date => expectedSet.has(date))) continue
+    if (listed.size / expected.length < MIN_COVERAGE) continue
+
+    const occurrences: SeriesOccurrence[] = sorted.map(candidate => {
+      const originalStart = `${candidate.localStart.slice(0, 10)}T${time}`
+      return {
+        eventId: candidate.id,
+        localStart: candidate.localStart,
+        originalStart,
+        status: candidate.cancelled
+          ? 'cancelled'
+          : candidate.localStart === originalStart ? 'scheduled' : 'moved'
+      }
+    })
+    const representative = sorted.find(c => !c.cancelled) || sorted[0]
+
+    return {
+      id: `series_${createHash('sha1').update(key).digest('hex').slice(0, 16)}`,
+      key,
+      title: representative.title,
+      venueName: representative.venueName!,
+      rrule: formatRecurrenceRule(rule),
+      dtstart: `${dates[0]}T${time}`,
+      timezone: sorted.find(c => c.timezone)?.timezone || null,
+      label: describeRecurrence(rule),
+      occurrences,
+      exdates: expected.filter(date => !listed.has(date))
+    }
+  }
+
+  return null
+}
+
+/**
+ * Rules worth trying for a series starting at `start`, most specific first
+ */
+function candidateRules(start: Date): RecurrenceRule[] {
+  const weekday = WEEKDAYS[start.getUTCDay()]
+  const day = start.getUTCDate()
+  const daysInMonth = new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + 1, 0)).getUTCDate()
+  const ordinal = Math.ceil(day / 7)
+
+  const rules: RecurrenceRule[] = [
+    { freq: 'WEEKLY', interval: 1, byDay: [{ weekday }], weekStart: 'MO' },
+    { freq: 'WEEKLY', interval: 2, byDay: [{ weekday }], weekStart: 'MO' }
+  ]
+
+  if (ordinal <= 4) {
+    rules.push({ freq: 'MONTHLY', interval: 1, byDay: [{ weekday, ordinal }], weekStart: 'MO' })
+  }
+  if (day + 7 > daysInMonth) {
+    rules.push({ freq: 'MONTHLY', interval: 1, byDay: [{ weekday, ordinal: -1 }], weekStart: 'MO' })
+  }
+
+  rules.push(
+    { freq: 'MONTHLY', interval: 1, byMonthDay: [day], weekStart: 'MO' },
+    { freq: 'DAILY', interval: 1, weekStart: 'MO' }
+  )
+
+  return rules
+}
+
+/**
+ * The most common start time, ignoring cancellations; ties go to the
+ * earliest listing
+ */
+function usualTime(sorted: SeriesCandidate[]): string {
+  const active = sorted.filter(c => !c.cancelled)
+  const counts = new Map<string, number>()
+
+  for (const candidate of active.length > 0 ? active : sorted) {
+    const time = candidate.localStart.slice(11, 16)
+    counts.set(time, (counts.get(time) || 0) + 1)
+  }
+
+  let best = ''
+  let bestCount = 0
+  counts.forEach((count, time) => {
+    if (count > bestCount) {
+      best = time
+      bestCount = count
+    }
+  })
+
+  return best
+}
+
+function wallClock(date: string, time: string): Date {
+  return new Date(`${date}T${time}:00Z`)
+}
+
+/**
+ * Human-readable summary of a rule: "Every Tuesday", "Every other Friday",
+ * "Last Friday of the month", "Monthly on the 15th"
+ */
+export function describeRecurrence(rule: RecurrenceRule): string {
+  const days = (rule.byDay || []).map(d => WEEKDAY_NAMES[d.weekday])
+  const dayList = days.length > 1
+    ? `${days.slice(0, -1).join(', ')} and ${days[days.length - 1]}`
+    : days[0]
+
+  switch (rule.freq) {
+    case 'DAILY':
+      return rule.interval === 1 ? 'Every day' : `Every ${rule.interval} days`
+    case 'WEEKLY':
+      if (!dayList) return rule.interval === 1 ? 'Every week' : `Every ${rule.interval} weeks`
+      if (rule.interval === 1) return `Every ${dayList}`
+      if (rule.interval === 2) return `Every other ${dayList}`
+      return `Every ${rule.interval} weeks on ${dayList}`
+    case 'MONTHLY': {
+      const byDay = rule.byDay?.[0]
+      if (byDay?.ordinal && ORDINAL_NAMES[String(byDay.ordinal)]) {
+        return `${ORDINAL_NAMES[String(byDay.ordinal)]} ${WEEKDAY_NAMES[byDay.weekday]} of the month`
+      }
+      if (rule.byMonthDay?.length) return `Monthly on the ${ordinalSuffix(rule.byMonthDay[0])}`
+      return 'Every month'
+    }
+    default:
+      return 'Every year'
+  }
+}
+
+function ordinalSuffix(n: number): string {
+  if (n < 0) return n === -1 ? 'last day' : `${ordinalSuffix(-n)} to last day`
+  if (n % 100 >= 11 && n % 100 <= 13) return `${n}th`
+  return `${n}${['th', 'st', 'nd', 'rd'][n % 10] || 'th'}`
+}
@@ -0,0 +1,165 @@
+/**
+ * Event series store
+ * Detects series among upcoming stored events and records them in
+ * event_series / event_series_occurrences, linking each occurrence row
+ * through events.series_id. Run by /api/cron/event-series.
+ */
+
+import { getServiceSupabaseClient } from '@/lib/supabase-server'
+import { localStartOf } from './collapse'
+import { detectSeries } from './detect'
+import type { DetectedSeries, SeriesCandidate } from './types'
+
+export interface SeriesSyncResult {
+  scanned: number
+  series: number
+  occurrences: number
+}
+
+interface UpcomingEventRow {
+  id: string
+  title: string
+  venue_name: string | null
+  date: string | null
+  time: string | null
+  start_time: string | null
+  timezone: string | null
+  status: string | null
+}
+
+// Enough for every listing of a weekly event over the next few months
+const DEFAULT_SCAN_LIMIT = 2000
+
+function toSeriesRow(series: DetectedSeries) {
+  const next = series.occurrences.find(o => o.status !== 'cancelled')
+
+  return {
+    id: series.id,
+    series_key: series.key,
+    title: series.title,
+    venue_name: series.venueName,
+    rrule: series.rrule,
+    dtstart: series.dtstart,
+    timezone: series.timezone,
+    label: series.label,
+    exdates: series.exdates,
+    next_date: next ? next.localStart.slice(0, 10) : null,
+    occurrence_count: series.occurrences.length,
+    updated_at: new Date().toISOString()
+  }
+}
+
+function toOccurrenceRows(series: DetectedSeries) {
+  return series.occurrences.map(occurrence => ({
+    series_id: series.id,
+    event_id: occurrence.eventId,
+    original_start: occurrence.originalStart,
+    local_start: occurrence.localStart,
+    status: occurrence.status,
+    updated_at: new Date().toISOString()
+  }))
+}
+
+/**
+ * Detect series among upcoming events and upsert them with their
+ * occurrences, overrides and cancellations
+ */
+export async function syncEventSeries(options: { limit?: number } = {}): Promise<SeriesSyncResult> {
+  const supabase = getServiceSupabaseClient()
+
+  const { data, error } = await supabase
+    .from('events')
+    .select('id, title, venue_name, date, time, start_time, timezone, status')
+    .gte('date', new Date().toISOString().split('T')[0])
+    .order('date', { ascending: true })
+    .limit(options.limit || DEFAULT_SCAN_LIMIT)
+
+  if (error) {
+    throw new Error(`Failed to load upcoming events: ${error.message}`)
+  }
+
+  const rows = (data || []) as UpcomingEventRow[]
+  const candidates: SeriesCandidate[] = []
+
+  for (const row of rows) {
+    const localStart = localStartOf({
+      id: row.id,
+      title: row.title,
+      venue_name: row.venue_name,
+      date: row.date || undefined,
+      time: row.time || undefined,
+      start_time: row.start_time,
+      timezone: row.timezone
+    })
+    if (!localStart) continue
+
+    candidates.push({
+      id: row.id,
+      title: row.title,
+      venueName: row.venue_name,
+      localStart,
+      timezone: row.timezone,
+      cancelled: row.status === 'cancelled'
+    })
+  }
+
+  const detected = detectSeries(candidates)
+  let occurrences = 0
+
+  for (const series of detected) {
+    const { error: seriesError } = await supabase
+      .from('event_series')
+      .upsert(toSeriesRow(series), { onConflict: 'id' })
+
+    if (seriesError) {
+      throw new Error(`Failed to store series ${series.id}: ${seriesError.message}`)
+    }
+
+    // An event keeps one occurrence row (unique on event_id), but its
+    // original_start moves with the rule's start time and it can change
+    // series; drop the rows written by earlier runs before the current set
+    const eventIds = series.occurrences.map(o => o.eventId)
+    const { error: staleSeriesError } = await supabase
+      .from('event_series_occurrences')
+      .delete()
+      .eq('series_id', series.id)
+
+    if (staleSeriesError) {
+      throw new Error(`Failed to clear occurrences of ${series.id}: ${staleSeriesError.message}`)
+    }
+
+    const { error: staleEventsError } = await supabase
+      .from('event_series_occurrences')
+      .delete()
+      .in('event_id', eventIds)
+
+    if (staleEventsError) {
+      throw new Error(`Failed to clear occurrences of ${series.id}: ${staleEventsError.message}`)
+    }
+
+    const { error: occurrenceError } = await supabase
+      .from('event_series_occurrences')
+      .insert(toOccurrenceRows(series))
+
+    if (occurrenceError) {
+      throw new Error(`Failed to store occurrences of ${series.id}: ${occurrenceError.message}`)
+    }
+
+    const { error: linkError } = await supabase
+      .from('events')
+      .update({ series_id: series.id })
+      .in('id', eventIds)
+
+    if (linkError) {
+      throw new Error(`Failed to link events to ${series.id}: ${linkError.message}`)
+    }
+
+    occurrences += series.occurrences.length
+  }
+
+  return {
+    scanned: rows.length,
+    series: detected.length,
+    occurrences
+  }
+}
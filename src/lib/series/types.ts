@@ -0,0 +1,63 @@
+/**
+ * Recurring event series types shared by detection, the feed APIs and the
+ * series cron job
+ *
+ * Times are local wall-clock strings ("2026-03-03T20:00") in the series'
+ * timezone, so "every Tuesday at 8pm" stays at 8pm across DST changes.
+ */
+
+export type SeriesOccurrenceStatus = 'scheduled' | 'moved' | 'cancelled'
+
+/** One listed event, as seen by series detection */
+export interface SeriesCandidate {
+  id: string
+  title: string
+  venueName?: string | null
+  /** Local start, YYYY-MM-DDTHH:mm */
+  localStart: string
+  timezone?: string | null
+  cancelled?: boolean
+}
+
+/** A listed event assigned to a series */
+export interface SeriesOccurrence {
+  eventId: string
+  localStart: string
+  /** Where the rule puts this occurrence (its RECURRENCE-ID); differs from localStart when moved */
+  originalStart: string
+  status: SeriesOccurrenceStatus
+}
+
+export interface DetectedSeries {
+  id: string
+  /** Normalized title + venue the occurrences were grouped by */
+  key: string
+  title: string
+  venueName: string
+  /** RRULE value without the "RRULE:" prefix, e.g. FREQ=WEEKLY;BYDAY=TU */
+  rrule: string
+  /** Local start of the first listed occurrence, at the series' usual time */
+  dtstart: string
+  timezone: string | null
+  /** "Every Tuesday", "Last Friday of the month" */
+  label: string
+  occurrences: SeriesOccurrence[]
+  /** Dates (YYYY-MM-DD) the rule produces between listed occurrences that no source listed */
+  exdates: string[]
+}
+
+/** Attached to the occurrence that stands in for its series in a feed */
+export interface EventSeriesSummary {
+  id: string
+  rrule: string
+  label: string
+  /** Date (YYYY-MM-DD) of the occurrence shown */
+  nextDate: string
+  occurrenceCount: number
+  /** Listed occurrences from the one shown onwards; saves and reminders target these ids */
+  upcoming: Array<{
+    eventId: string
+    date: string
+    status: SeriesOccurrenceStatus
+  }>
+}
@@ -1,4 +1,4 @@
-import { createClient, SupabaseClient } from '@supabase/supabase-js'
+import { createClient, SupabaseClient, type User } from '@supabase/supabase-js'
 
 // Singleton for server-side Supabase client using service-role credentials
 let serverSupabase: SupabaseClient | null = null
@@ -30,3 +30,36 @@ export function getServiceSupabaseClient(): SupabaseClient {
   serverSupabase = createServerClient()
   return serverSupabase
 }
+
+/**
+ * Resolve the Supabase user behind a request's `Authorization: Bearer <token>` header.
+ * Returns null when the header is missing or the token is invalid.
+ */
+export async function getRequestUser(request: Request): Promise<User | null> {
+  const authHeader = request.headers.get('authorization')
+  if (!authHeader || !authHeader.startsWith('Bearer ')) {
+    return null
+  }
+
+  const token = authHeader.substring(7)
+  const { data: { user }, error } = await getServiceSupabaseClient().auth.getUser(token)
+
+  if (error || !user) {
+    return null
+  }
+
+  return user
+}
+
+/**
+ * Whether the user is flagged as an admin in `users.is_admin`
+ */
+export async function isAdminUser(userId: string): Promise<boolean> {
+  const { data } = await getServiceSupabaseClient()
+    .from('users')
+    .select('is_admin')
+    .eq('id', userId)
+    .single()
+
+  return Boolean(data?.is_admin)
+}
@@ -4,12 +4,14 @@
  * Features:
  * - Thumb up/down voting
  * - Integrates with existing veto threshold
- * - Tracks votes in localStorage
+ * - Tracks votes in localStorage, synced to the account via tracking/sync
  * - Hooks into tracking system for affinity/veto
  * - Feature-flagged
  */
 
 import { trackEvent, isTrackingEnabled } from './tracking/client'
+import { enqueueInteractionRecords } from './tracking/outbox'
+import { mergeVotes, voteRecordKey, type VoteState } from './tracking/history'
 
 export interface EventVote {
   eventId: string
@@ -54,6 +56,7 @@ export function voteEvent(eventId: string, vote: 'up' | 'down', eventData?: any)
     const trimmed = filtered.slice(0, MAX_VOTES)
 
     localStorage.setItem(STORAGE_KEY, JSON.stringify(trimmed))
+    enqueueVoteRecord(eventId, vote, newVote.votedAt)
 
     // Integrate with tracking system
     if (isTrackingEnabled()) {
@@ -108,11 +111,39 @@ export function removeVote(eventId: string): void {
     const filtered = votes.filter(v => v.eventId !== eventId)
 
     localStorage.setItem(STORAGE_KEY, JSON.stringify(filtered))
+    enqueueVoteRecord(eventId, null, Date.now())
   } catch (error) {
     console.warn('Failed to remove vote:', error)
   }
 }
 
+/**
+ * Queue a vote (or its removal) for upload to the account
+ */
+function enqueueVoteRecord(eventId: string, vote: EventVote['vote'] | null, votedAt: number): void {
+  enqueueInteractionRecords([{
+    key: voteRecordKey(eventId, votedAt),
+    kind: 'vote',
+    occurredAt: votedAt,
+    eventId,
+    vote
+  }])
+}
+
+/**
+ * Apply the account's latest votes from other devices
+ */
+export function mergeRemoteVotes(remote: VoteState[]): void {
+  if (typeof window === 'undefined' || remote.length === 0) return
+
+  try {
+    const merged = mergeVotes(readVotes(), remote).slice(0, MAX_VOTES)
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(merged))
+  } catch (error) {
+    console.warn('Failed to merge votes:', error)
+  }
+}
+
 /**
  * Read votes from localStorage
  */
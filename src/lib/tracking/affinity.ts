@@ -9,8 +9,50 @@ export interface AffinityProfile {
   categories: Record<string, number>      // 0-1 normalized
   priceRanges: Record<string, number>     // 0-1 normalized
   venues: Record<string, number>          // 0-1 normalized
+  performers: Record<string, number>      // 0-1 normalized, keyed by performer slug
   timePatterns: Record<string, number>    // 0-1 normalized
   totalInteractions: number
+  evidence?: AffinityEvidenceIndex        // Raw signals behind the scores, for explanations
+}
+
+/**
+ * Signals that contributed to one category, venue or performer score
+ */
+export interface AffinityEvidence {
+  signals: Record<string, { count: number; weight: number }>  // weight is the decayed contribution
+  newestAt: number
+  oldestAt: number
+}
+
+export interface AffinityEvidenceIndex {
+  categories: Record<string, AffinityEvidence>
+  venues: Record<string, AffinityEvidence>
+  performers: Record<string, AffinityEvidence>
+  halfLifeDays: number
+  computedAt: number
+}
+
+export interface ExplanationSignal {
+  type: string
+  count: number
+  weight: number
+}
+
+/**
+ * Why a row or event was recommended ("why am I seeing this")
+ */
+export interface AffinityExplanation {
+  reason: 'affinity' | 'discovery'
+  signals: ExplanationSignal[]                    // Strongest first
+  categories: Array<{ id: string; score: number }>
+  venues: Array<{ name: string; score: number }>
+  performers: Array<{ name: string; score: number }>
+  decay: {
+    halfLifeDays: number
+    newestAgeDays: number | null                  // Age of the most recent contributing signal
+    oldestAgeDays: number | null
+  }
+  summary: string
 }
 
 export interface Row {
@@ -21,20 +63,51 @@ export interface Row {
   [key: string]: any
 }
 
+export interface AffinityOptions {
+  weights?: Record<string, number>  // Default: WEIGHTS (override to evaluate variants offline)
+  now?: number                      // Default: Date.now() (replays score as of a past moment)
+}
+
 export interface ReorderOptions {
   discoveryFloor: number        // 0-1, minimum % of original order to preserve
   decayHalfLifeDays?: number   // Default: 30 days
 }
 
 // Interaction weights (aligned with Netflix-style recommendations)
-const WEIGHTS: Record<string, number> = {
+export const WEIGHTS: Record<string, number> = {
   click: 10,
   save: 50,
   search: 30,
   view: 1,
   vote_up: 75,      // Strong positive signal (even stronger than save)
   vote_down: -50,   // Negative signal to decrease category affinity
-  unsave: -25       // Removing from saved list decreases affinity
+  unsave: -25,      // Removing from saved list decreases affinity
+  show_less: -40,   // "Show less like this" on a recommendation
+  follow: 100,      // Following a performer or venue is the strongest standing preference
+  unfollow: -60
+}
+
+const SIGNAL_LABELS: Record<string, string> = {
+  click: 'opened',
+  save: 'saved',
+  search: 'searched for',
+  view: 'viewed',
+  vote_up: 'upvoted',
+  vote_down: 'downvoted',
+  unsave: 'unsaved',
+  show_less: 'asked to see less of',
+  follow: 'followed',
+  unfollow: 'unfollowed'
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Venue affinity keys on the canonical venue id, so every listing of a
+ * venue adds up; events not resolved to one fall back to the listed name
+ */
+export function venueAffinityKey(event: { venue_id?: string | null; venue_name?: string | null }): string | null {
+  return event.venue_id || event.venue_name || null
 }
 
 /**
@@ -42,25 +115,37 @@ const WEIGHTS: Record<string, number> = {
  */
 export function computeAffinity(
   interactions: InteractionEvent[],
-  decayHalfLifeDays: number = 30
+  decayHalfLifeDays: number = 30,
+  options: AffinityOptions = {}
 ): AffinityProfile {
+  const { weights = WEIGHTS, now = Date.now() } = options
+
   if (interactions.length === 0) {
     return {
       categories: {},
       priceRanges: {},
       venues: {},
+      performers: {},
       timePatterns: {},
-      totalInteractions: 0
+      totalInteractions: 0,
+      evidence: { categories: {}, venues: {}, performers: {}, halfLifeDays: decayHalfLifeDays, computedAt: now }
     }
   }
 
-  const now = Date.now()
-  const halfLife = decayHalfLifeDays * 24 * 60 * 60 * 1000
+  const halfLife = decayHalfLifeDays * DAY_MS
+  const evidence: AffinityEvidenceIndex = {
+    categories: {},
+    venues: {},
+    performers: {},
+    halfLifeDays: decayHalfLifeDays,
+    computedAt: now
+  }
 
   const raw = {
     categories: {} as Record<string, number>,
     priceRanges: {} as Record<string, number>,
     venues: {} as Record<string, number>,
+    performers: {} as Record<string, number>,
     timePatterns: {} as Record<string, number>
   }
 
@@ -68,12 +153,13 @@ export function computeAffinity(
     // Exponential decay: weight * 0.5^(age/halfLife)
     const age = now - interaction.timestamp
     const decay = Math.pow(0.5, age / halfLife)
-    const weight = (WEIGHTS[interaction.type] || 0) * decay
+    const weight = (weights[interaction.type] || 0) * decay
 
     // Category affinity
     if (interaction.category) {
       raw.categories[interaction.category] =
         (raw.categories[interaction.category] || 0) + weight
+      addEvidence(evidence.categories, interaction.category, interaction, weight)
     }
 
     // Price range affinity
@@ -83,9 +169,17 @@ export function computeAffinity(
     }
 
     // Venue affinity
-    if (interaction.venue) {
-      raw.venues[interaction.venue] =
-        (raw.venues[interaction.venue] || 0) + weight
+    const venue = venueAffinityKey({ venue_id: interaction.venueId, venue_name: interaction.venue })
+    if (venue) {
+      raw.venues[venue] = (raw.venues[venue] || 0) + weight
+      addEvidence(evidence.venues, venue, interaction, weight)
+    }
+
+    // Performer affinity (follows, and interactions with their events)
+    if (interaction.performer) {
+      raw.performers[interaction.performer] =
+        (raw.performers[interaction.performer] || 0) + weight
+      addEvidence(evidence.performers, interaction.performer, interaction, weight)
     }
 
     // Time patterns (weekend vs weekday)
@@ -98,11 +192,74 @@ export function computeAffinity(
     categories: normalize(raw.categories),
     priceRanges: normalize(raw.priceRanges),
     venues: normalize(raw.venues),
+    performers: normalize(raw.performers),
     timePatterns: normalize(raw.timePatterns),
-    totalInteractions: interactions.length
+    totalInteractions: interactions.length,
+    evidence
   }
 }
 
+/**
+ * Explain a category score: the signals behind it and how old they are
+ */
+export function explainCategory(
+  affinity: AffinityProfile,
+  categoryId: string,
+  reason: AffinityExplanation['reason'] = 'affinity'
+): AffinityExplanation {
+  const score = affinity.categories[categoryId] || 0
+  return buildExplanation(
+    affinity,
+    reason,
+    [affinity.evidence?.categories[categoryId]],
+    score > 0 ? [{ id: categoryId, score }] : [],
+    [],
+    []
+  )
+}
+
+/**
+ * Explain a single recommended event from its category, venue and
+ * performer affinity
+ */
+export function explainEvent(
+  affinity: AffinityProfile,
+  event: {
+    category?: string | null
+    category_id?: string | null
+    venue_id?: string | null
+    venue_name?: string | null
+    performers?: Array<{ name: string; slug: string }> | null
+  }
+): AffinityExplanation {
+  const categoryId = event.category || event.category_id || ''
+  const categoryScore = categoryId ? affinity.categories[categoryId] || 0 : 0
+  const venue = venueAffinityKey(event)
+  const venueScore = venue ? affinity.venues[venue] || 0 : 0
+  const matchedPerformers = (event.performers || [])
+    .filter(performer => (affinity.performers?.[performer.slug] || 0) > 0)
+
+  const categories = categoryScore > 0 ? [{ id: categoryId, score: categoryScore }] : []
+  const venues = venueScore > 0 ? [{ name: event.venue_name || venue!, score: venueScore }] : []
+  const performers = matchedPerformers.map(performer => ({
+    name: performer.name,
+    score: affinity.performers[performer.slug]
+  }))
+
+  return buildExplanation(
+    affinity,
+    categories.length > 0 || venues.length > 0 || performers.length > 0 ? 'affinity' : 'discovery',
+    [
+      categories.length > 0 ? affinity.evidence?.categories[categoryId] : undefined,
+      venues.length > 0 ? affinity.evidence?.venues[venue!] : undefined,
+      ...matchedPerformers.map(performer => affinity.evidence?.performers?.[performer.slug])
+    ],
+    categories,
+    venues,
+    performers
+  )
+}
+
 /**
  * Reorder rows based on affinity scores while preserving discovery floor
  * Non-empty rows are reordered, empty rows appended in original order
@@ -117,7 +274,7 @@ export function reorderRows(
   affinity: AffinityProfile,
   categoryEvents: Record<string, any[]> = {},
   opts: ReorderOptions = { discoveryFloor: 0.25 } // Increased from 0.2 to 0.25 for more diversity
-): Row[] {
+): Array<Row & { explanation?: AffinityExplanation }> {
   // Edge case: no data yet, return original
   if (affinity.totalInteractions === 0) return rows
 
@@ -173,20 +330,23 @@ export function reorderRows(
 
   // Interleave personalized and discovery to create variety
   // Pattern: personalized, personalized, discovery, personalized, discovery...
-  const result: Row[] = []
+  // Discovery rows are explained as such rather than implying a preference
+  const result: Array<Row & { explanation: AffinityExplanation }> = []
+  const explained = (row: Row, reason: AffinityExplanation['reason']) =>
+    ({ ...row, explanation: explainCategory(affinity, row.id, reason) })
   let pIdx = 0
   let dIdx = 0
 
   while (pIdx < personalizedRows.length || dIdx < discoveryRows.length) {
     // Add 2 personalized, then 1 discovery
     if (pIdx < personalizedRows.length) {
-      result.push(personalizedRows[pIdx++])
+      result.push(explained(personalizedRows[pIdx++], 'affinity'))
     }
     if (pIdx < personalizedRows.length) {
-      result.push(personalizedRows[pIdx++])
+      result.push(explained(personalizedRows[pIdx++], 'affinity'))
     }
     if (dIdx < discoveryRows.length) {
-      result.push(discoveryRows[dIdx++])
+      result.push(explained(discoveryRows[dIdx++], 'discovery'))
     }
   }
 
@@ -194,6 +354,99 @@ export function reorderRows(
   return [...result, ...emptyRows]
 }
 
+function addEvidence(
+  index: Record<string, AffinityEvidence>,
+  key: string,
+  interaction: InteractionEvent,
+  weight: number
+): void {
+  const entry = index[key] || (index[key] = {
+    signals: {},
+    newestAt: interaction.timestamp,
+    oldestAt: interaction.timestamp
+  })
+  const signal = entry.signals[interaction.type] || (entry.signals[interaction.type] = { count: 0, weight: 0 })
+  signal.count++
+  signal.weight += weight
+  entry.newestAt = Math.max(entry.newestAt, interaction.timestamp)
+  entry.oldestAt = Math.min(entry.oldestAt, interaction.timestamp)
+}
+
+function buildExplanation(
+  affinity: AffinityProfile,
+  reason: AffinityExplanation['reason'],
+  sources: Array<AffinityEvidence | undefined>,
+  categories: AffinityExplanation['categories'],
+  venues: AffinityExplanation['venues'],
+  performers: AffinityExplanation['performers']
+): AffinityExplanation {
+  const now = affinity.evidence?.computedAt ?? Date.now()
+  const signals: Record<string, ExplanationSignal> = {}
+  let newestAt: number | null = null
+  let oldestAt: number | null = null
+
+  sources.forEach(source => {
+    if (!source) return
+    for (const [type, { count, weight }] of Object.entries(source.signals)) {
+      const signal = signals[type] || (signals[type] = { type, count: 0, weight: 0 })
+      signal.count += count
+      signal.weight += weight
+    }
+    newestAt = newestAt === null ? source.newestAt : Math.max(newestAt, source.newestAt)
+    oldestAt = oldestAt === null ? source.oldestAt : Math.min(oldestAt, source.oldestAt)
+  })
+
+  const sortedSignals = Object.values(signals)
+    .sort((a, b) => Math.abs(b.weight) - Math.abs(a.weight))
+  const toAgeDays = (at: number | null) => at === null ? null : Math.max(0, Math.floor((now - at) / DAY_MS))
+
+  const explanation: AffinityExplanation = {
+    reason,
+    signals: sortedSignals,
+    categories,
+    venues,
+    performers,
+    decay: {
+      halfLifeDays: affinity.evidence?.halfLifeDays ?? 30,
+      newestAgeDays: toAgeDays(newestAt),
+      oldestAgeDays: toAgeDays(oldestAt)
+    },
+    summary: ''
+  }
+  explanation.summary = summarizeExplanation(explanation)
+  return explanation
+}
+
+function summarizeExplanation(explanation: AffinityExplanation): string {
+  const positive = explanation.signals.filter(s => s.weight > 0)
+  const subjects = [
+    ...explanation.categories.map(c => c.id),
+    ...explanation.venues.map(v => v.name),
+    ...explanation.performers.map(p => p.name)
+  ]
+
+  if (explanation.reason === 'discovery' || positive.length === 0 || subjects.length === 0) {
+    return 'Something different to keep your feed fresh'
+  }
+
+  // Following is a standing preference rather than a count of events.
+  // Only performers and venues are followed; with no performer on the bill
+  // the follow is the venue's.
+  const followed = explanation.performers.length > 0 ? explanation.performers : explanation.venues
+  if (followed.length > 0 && positive.some(s => s.type === 'follow')) {
+    return `You follow ${followed.map(f => f.name).join(' and ')}`
+  }
+
+  const actions = positive
+    .slice(0, 2)
+    .map(s => `${SIGNAL_LABELS[s.type] || s.type} ${s.count} ${s.count === 1 ? 'event' : 'events'}`)
+    .join(' and ')
+  const age = explanation.decay.newestAgeDays
+  const when = age === null ? '' : age === 0 ? ', most recently today' : `, most recently ${age} ${age === 1 ? 'day' : 'days'} ago`
+
+  return `You ${actions} in ${subjects.join(' and ')}${when}`
+}
+
 /**
  * Normalize scores to 0-1 range
  */
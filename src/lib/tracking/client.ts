@@ -1,22 +1,39 @@
 /**
  * Client-side interaction tracking for personalized event recommendations
- * Stores all data in localStorage (browser-only, no server requests)
+ * Stores data in localStorage; signed-in users also sync it to their account
+ * through ./sync so the affinity profile follows them across devices
  */
 
+import { enqueueInteractionRecords } from './outbox'
+import { INTERACTION_TYPES, interactionKey, mergeInteractions } from './history'
+
 export interface InteractionEvent {
-  type: 'click' | 'save' | 'search' | 'view'
+  /** Idempotency key for server sync (absent on interactions tracked before sync) */
+  id?: string
+  type: (typeof INTERACTION_TYPES)[number]
   eventId?: string
   category?: string
   query?: string
   price?: number
   venue?: string
+  /** Canonical venue id, for events resolved to one; venue affinity keys on it */
+  venueId?: string
+  /** Performer slug, for follows and events with a known lineup */
+  performer?: string
   distance?: number
+  /** Events in a bulk action, e.g. a calendar export */
+  count?: number
   timestamp: number
   sessionId: string
 }
 
 export type InteractionType = InteractionEvent['type']
 
+/** Event fields are often null (no venue, no price); nulls are dropped before storing */
+export type InteractionData = {
+  [K in keyof Omit<InteractionEvent, 'id' | 'type' | 'timestamp' | 'sessionId'>]?: InteractionEvent[K] | null
+}
+
 const STORAGE_KEY = 'sceneScout_interactions'
 const SESSION_KEY = 'sceneScout_sessionId'
 const MAX_AGE_DAYS = 60
@@ -40,14 +57,17 @@ export function isTrackingEnabled(): boolean {
  */
 export function trackEvent(
   type: InteractionType,
-  data: Partial<Omit<InteractionEvent, 'type' | 'timestamp' | 'sessionId'>> = {}
+  data: InteractionData = {}
 ): void {
   if (!isTrackingEnabled()) return
 
+  const timestamp = Date.now()
+  const fields = Object.fromEntries(Object.entries(data).filter(([, value]) => value != null))
   eventQueue.push({
+    id: `${timestamp.toString(36)}_${Math.random().toString(36).slice(2, 10)}`,
     type,
-    ...data,
-    timestamp: Date.now(),
+    ...fields,
+    timestamp,
     sessionId: getOrCreateSessionId()
   })
 
@@ -72,6 +92,12 @@ function flushToStorage(): void {
     }
 
     localStorage.setItem(STORAGE_KEY, JSON.stringify(merged))
+    enqueueInteractionRecords(eventQueue.map(event => ({
+      key: interactionKey(event),
+      kind: 'interaction' as const,
+      occurredAt: event.timestamp,
+      event
+    })))
     eventQueue = []
 
     // Dispatch custom event to notify UI of interaction changes
@@ -102,6 +128,24 @@ export function readInteractions(): InteractionEvent[] {
   }
 }
 
+/**
+ * Merge interactions from the account's server history into local storage
+ */
+export function mergeRemoteInteractions(remote: InteractionEvent[]): void {
+  if (typeof window === 'undefined' || remote.length === 0) return
+
+  try {
+    const merged = mergeInteractions(readInteractions(), remote, MAX_EVENTS)
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(merged))
+
+    window.dispatchEvent(new CustomEvent('interactionTracked', {
+      detail: { count: merged.length }
+    }))
+  } catch (error) {
+    console.warn('Failed to merge tracking data:', error)
+  }
+}
+
 /**
  * Remove interactions older than maxAgeDays and update storage
  */
@@ -0,0 +1,196 @@
+/**
+ * Interaction history - shared rules for uploading personalization signals
+ * and merging the server's history back into the browser stores
+ *
+ * Every interaction, thumbs vote and seen mark becomes a record with an
+ * idempotency key generated on the device, so retried uploads are no-ops.
+ * The server folds a user's records into the same shapes the local stores
+ * keep (InteractionEvent[], votes, SeenEvent[]), and the device merges that
+ * with whatever it has locally.
+ */
+
+import type { InteractionEvent } from './client'
+import type { SeenEvent } from './seen-store'
+import type { EventVote } from '@/lib/thumbs'
+
+/**
+ * Every interaction type the app tracks. Votes, unsaves and calendar
+ * exports are interactions too (alongside their own records), and the
+ * ingest route accepts exactly these.
+ */
+export const INTERACTION_TYPES = [
+  'click',
+  'save',
+  'unsave',
+  'search',
+  'view',
+  'vote_up',
+  'vote_down',
+  'show_less',
+  'follow',
+  'unfollow',
+  'calendar_export',
+  'calendar_export_bulk',
+] as const
+
+export type InteractionRecord =
+  | { key: string; kind: 'interaction'; occurredAt: number; event: InteractionEvent }
+  | { key: string; kind: 'vote'; occurredAt: number; eventId: string; vote: EventVote['vote'] | null }
+  | { key: string; kind: 'seen'; occurredAt: number; eventId: string; source: SeenEvent['source'] }
+
+export type InteractionRecordKind = InteractionRecord['kind']
+
+/** Latest vote per event; null means the vote was removed */
+export interface VoteState {
+  eventId: string
+  vote: EventVote['vote'] | null
+  votedAt: number
+}
+
+export interface InteractionHistory {
+  interactions: InteractionEvent[]
+  votes: VoteState[]
+  seen: SeenEvent[]
+}
+
+export interface HistoryLimits {
+  maxInteractions: number
+  interactionMaxAgeDays: number
+  maxSeen: number
+  seenTtlDays: number
+}
+
+// Mirrors the local store caps so a hydrated device looks like a busy one
+export const DEFAULT_HISTORY_LIMITS: HistoryLimits = {
+  maxInteractions: 1000,
+  interactionMaxAgeDays: 60,
+  maxSeen: 2000,
+  seenTtlDays: 14,
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+/**
+ * Stable key for an interaction. Interactions tracked before keys existed
+ * fall back to their session, time and target.
+ */
+export function interactionKey(event: InteractionEvent): string {
+  if (event.id) return event.id
+  return `${event.sessionId}:${event.timestamp}:${event.type}:${event.eventId || event.query || ''}`
+}
+
+export function voteRecordKey(eventId: string, votedAt: number): string {
+  return `vote:${eventId}:${votedAt}`
+}
+
+export function seenRecordKey(eventId: string, seenAt: number): string {
+  return `seen:${eventId}:${seenAt}`
+}
+
+/**
+ * Fold a user's records into the shapes the local stores keep
+ */
+export function foldHistory(
+  records: InteractionRecord[],
+  now: number = Date.now(),
+  limits: HistoryLimits = DEFAULT_HISTORY_LIMITS
+): InteractionHistory {
+  const interactionCutoff = now - limits.interactionMaxAgeDays * DAY_MS
+  const seenCutoff = now - limits.seenTtlDays * DAY_MS
+
+  const interactions = new Map<string, InteractionEvent>()
+  const votes = new Map<string, VoteState>()
+  const seen = new Map<string, SeenEvent>()
+
+  for (const record of records) {
+    switch (record.kind) {
+      case 'interaction':
+        if (record.event.timestamp > interactionCutoff) {
+          interactions.set(record.key, { ...record.event, id: record.key })
+        }
+        break
+      case 'vote': {
+        const current = votes.get(record.eventId)
+        if (!current || record.occurredAt >= current.votedAt) {
+          votes.set(record.eventId, { eventId: record.eventId, vote: record.vote, votedAt: record.occurredAt })
+        }
+        break
+      }
+      case 'seen': {
+        const current = seen.get(record.eventId)
+        if (record.occurredAt > seenCutoff && (!current || record.occurredAt > current.seenAt)) {
+          seen.set(record.eventId, { eventId: record.eventId, seenAt: record.occurredAt, source: record.source })
+        }
+        break
+      }
+    }
+  }
+
+  return {
+    interactions: Array.from(interactions.values())
+      .sort((a, b) => a.timestamp - b.timestamp)
+      .slice(-limits.maxInteractions),
+    votes: Array.from(votes.values()).sort((a, b) => b.votedAt - a.votedAt),
+    seen: Array.from(seen.values())
+      .sort((a, b) => b.seenAt - a.seenAt)
+      .slice(0, limits.maxSeen),
+  }
+}
+
+/**
+ * Union of local and server interactions, oldest first, without duplicates
+ */
+export function mergeInteractions(
+  local: InteractionEvent[],
+  remote: InteractionEvent[],
+  maxEvents: number = DEFAULT_HISTORY_LIMITS.maxInteractions
+): InteractionEvent[] {
+  const merged = new Map<string, InteractionEvent>()
+  for (const event of [...remote, ...local]) {
+    merged.set(interactionKey(event), event)
+  }
+
+  return Array.from(merged.values())
+    .sort((a, b) => a.timestamp - b.timestamp)
+    .slice(-maxEvents)
+}
+
+/**
+ * Apply the server's latest vote per event where it is newer than the local
+ * one, newest first like the local store
+ */
+export function mergeVotes(local: EventVote[], remote: VoteState[]): EventVote[] {
+  const merged = new Map<string, EventVote>(local.map(v => [v.eventId, v]))
+
+  for (const state of remote) {
+    const current = merged.get(state.eventId)
+    if (current && current.votedAt >= state.votedAt) continue
+
+    if (state.vote === null) {
+      merged.delete(state.eventId)
+    } else {
+      merged.set(state.eventId, { eventId: state.eventId, vote: state.vote, votedAt: state.votedAt })
+    }
+  }
+
+  return Array.from(merged.values()).sort((a, b) => b.votedAt - a.votedAt)
+}
+
+/**
+ * Latest seen mark per event across devices
+ */
+export function mergeSeen(
+  local: SeenEvent[],
+  remote: SeenEvent[],
+  maxSeen: number = DEFAULT_HISTORY_LIMITS.maxSeen
+): SeenEvent[] {
+  const merged = new Map<string, SeenEvent>()
+  for (const entry of [...local, ...remote]) {
+    const current = merged.get(entry.eventId)
+    if (!current || entry.seenAt > current.seenAt) merged.set(entry.eventId, entry)
+  }
+
+  return Array.from(merged.values())
+    .sort((a, b) => b.seenAt - a.seenAt)
+    .slice(0, maxSeen)
+}
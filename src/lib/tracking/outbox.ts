@@ -0,0 +1,64 @@
+/**
+ * Interaction outbox - records waiting to be uploaded to /api/interactions
+ *
+ * The tracking, thumbs and seen stores append here when they write; the
+ * queue survives reloads and anonymous sessions and is drained by
+ * ./sync once the user is signed in. Nothing is queued after the user
+ * opts out of analytics.
+ */
+
+import { hasOptedOut } from '@/providers/PostHogProvider'
+import type { InteractionRecord } from './history'
+
+const OUTBOX_KEY = 'sceneScout_interactionOutbox'
+// Oldest records are dropped first if a device stays signed out for long
+const MAX_OUTBOX = 2000
+
+/**
+ * Whether personalization signals may leave this device
+ */
+export function isInteractionUploadAllowed(): boolean {
+  if (typeof window === 'undefined') return false
+  return !hasOptedOut()
+}
+
+export function readOutbox(): InteractionRecord[] {
+  if (typeof window === 'undefined') return []
+
+  try {
+    const stored = localStorage.getItem(OUTBOX_KEY)
+    return stored ? JSON.parse(stored) : []
+  } catch {
+    return []
+  }
+}
+
+export function writeOutbox(records: InteractionRecord[]): void {
+  try {
+    if (records.length === 0) {
+      localStorage.removeItem(OUTBOX_KEY)
+    } else {
+      localStorage.setItem(OUTBOX_KEY, JSON.stringify(records.slice(-MAX_OUTBOX)))
+    }
+  } catch (error) {
+    console.warn('Failed to write interaction outbox:', error)
+  }
+}
+
+/**
+ * Queue records for upload and let ./sync know there is work
+ */
+export function enqueueInteractionRecords(records: InteractionRecord[]): void {
+  if (records.length === 0 || !isInteractionUploadAllowed()) return
+
+  writeOutbox([...readOutbox(), ...records])
+  window.dispatchEvent(new Event('interactionsQueued'))
+}
+
+/**
+ * Drop anything not yet uploaded (used when the user opts out)
+ */
+export function clearOutbox(): void {
+  if (typeof window === 'undefined') return
+  localStorage.removeItem(OUTBOX_KEY)
+}
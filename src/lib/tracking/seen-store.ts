@@ -4,10 +4,13 @@
  * Features:
  * - 14-day TTL (configurable)
  * - Automatic cleanup of expired entries
- * - localStorage-based (client-side only)
+ * - localStorage-based, synced to the account via ./sync
  * - Feature-flagged
  */
 
+import { enqueueInteractionRecords } from './outbox'
+import { mergeSeen, seenRecordKey } from './history'
+
 export interface SeenEvent {
   eventId: string
   seenAt: number
@@ -44,16 +47,17 @@ export function markEventAsSeen(
     const seen = readSeenEvents()
 
     // Check if already marked (update timestamp)
-    const existing = seen.find(s => s.eventId === eventId)
-    if (existing) {
-      existing.seenAt = Date.now()
-      existing.source = source // Update source if different
+    let entry = seen.find(s => s.eventId === eventId)
+    if (entry) {
+      entry.seenAt = Date.now()
+      entry.source = source // Update source if different
     } else {
-      seen.push({
+      entry = {
         eventId,
         seenAt: Date.now(),
         source
-      })
+      }
+      seen.push(entry)
     }
 
     // Limit total seen events
@@ -66,6 +70,7 @@ export function markEventAsSeen(
     }
 
     localStorage.setItem(STORAGE_KEY, JSON.stringify(trimmed))
+    enqueueSeenRecords([entry])
   } catch (error) {
     console.warn('Failed to mark event as seen:', error)
   }
@@ -134,6 +139,33 @@ function cleanupExpiredSeen(seen: SeenEvent[]): SeenEvent[] {
   return filtered
 }
 
+/**
+ * Queue seen marks for upload to the account
+ */
+function enqueueSeenRecords(entries: SeenEvent[]): void {
+  enqueueInteractionRecords(entries.map(entry => ({
+    key: seenRecordKey(entry.eventId, entry.seenAt),
+    kind: 'seen' as const,
+    occurredAt: entry.seenAt,
+    eventId: entry.eventId,
+    source: entry.source
+  })))
+}
+
+/**
+ * Merge seen marks from the account's other devices
+ */
+export function mergeRemoteSeen(remote: SeenEvent[]): void {
+  if (typeof window === 'undefined' || remote.length === 0) return
+
+  try {
+    const merged = mergeSeen(readSeenEvents(), remote, MAX_SEEN_EVENTS)
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(cleanupExpiredSeen(merged)))
+  } catch (error) {
+    console.warn('Failed to merge seen events:', error)
+  }
+}
+
 /**
  * Filter events to exclude seen ones
  */
@@ -216,6 +248,7 @@ export function markEventsAsSeen(
     }
 
     localStorage.setItem(STORAGE_KEY, JSON.stringify(updated))
+    enqueueSeenRecords(eventIds.map(eventId => seenMap.get(eventId)!))
   } catch (error) {
     console.warn('Failed to bulk mark events as seen:', error)
   }
@@ -0,0 +1,100 @@
+/**
+ * Server-side interaction history
+ * Stores uploaded interaction records and folds them back into the shapes
+ * the browser stores keep. Used by /api/interactions.
+ */
+
+import { getServiceSupabaseClient } from '@/lib/supabase-server'
+import { DEFAULT_HISTORY_LIMITS, foldHistory, type InteractionHistory, type InteractionRecord } from './history'
+
+// Enough rows to fill every local store even for heavy users
+const MAX_HISTORY_ROWS = 10000
+
+function recordPayload(record: InteractionRecord): Record<string, any> {
+  switch (record.kind) {
+    case 'interaction':
+      return record.event
+    case 'vote':
+      return { vote: record.vote }
+    case 'seen':
+      return { source: record.source }
+  }
+}
+
+function recordEventId(record: InteractionRecord): string | null {
+  return record.kind === 'interaction' ? record.event.eventId || null : record.eventId
+}
+
+/**
+ * Store a batch of records. Keys already stored for the user are skipped.
+ *
+ * @returns Keys that were accepted (including replays), for the device to drop
+ */
+export async function recordInteractions(userId: string, records: InteractionRecord[]): Promise<string[]> {
+  if (records.length === 0) return []
+
+  const supabase = getServiceSupabaseClient()
+
+  const { error } = await supabase
+    .from('interaction_records')
+    .upsert(records.map(record => ({
+      user_id: userId,
+      idempotency_key: record.key,
+      kind: record.kind,
+      event_id: recordEventId(record),
+      payload: recordPayload(record),
+      occurred_at: new Date(record.occurredAt).toISOString(),
+    })), { onConflict: 'user_id,idempotency_key', ignoreDuplicates: true })
+
+  if (error) throw new Error(`Failed to record interactions: ${error.message}`)
+
+  return records.map(record => record.key)
+}
+
+/**
+ * Load the user's merged history across devices
+ */
+export async function loadInteractionHistory(userId: string, now: Date = new Date()): Promise<InteractionHistory> {
+  const supabase = getServiceSupabaseClient()
+  // Votes never expire; interactions and seen marks only matter inside their windows
+  const windowDays = Math.max(DEFAULT_HISTORY_LIMITS.interactionMaxAgeDays, DEFAULT_HISTORY_LIMITS.seenTtlDays)
+  const since = new Date(now.getTime() - windowDays * 24 * 60 * 60 * 1000).toISOString()
+
+  const { data, error } = await supabase
+    .from('interaction_records')
+    .select('idempotency_key, kind, event_id, payload, occurred_at')
+    .eq('user_id', userId)
+    .or(`kind.eq.vote,occurred_at.gte.${since}`)
+    .order('occurred_at', { ascending: false })
+    .limit(MAX_HISTORY_ROWS)
+
+  if (error) throw new Error(`Failed to load interaction history: ${error.message}`)
+
+  const records: InteractionRecord[] = (data || []).map(row => {
+    const occurredAt = new Date(row.occurred_at).getTime()
+    switch (row.kind) {
+      case 'vote':
+        return { key: row.idempotency_key, kind: 'vote', occurredAt, eventId: row.event_id, vote: row.payload?.vote ?? null }
+      case 'seen':
+        return { key: row.idempotency_key, kind: 'seen', occurredAt, eventId: row.event_id, source: row.payload?.source || 'view' }
+      default:
+        return { key: row.idempotency_key, kind: 'interaction', occurredAt, event: row.payload }
+    }
+  })
+
+  return foldHistory(records, now.getTime())
+}
+
+/**
+ * Erase the user's synced history (analytics opt-out)
+ */
+export async function deleteInteractionHistory(userId: string): Promise<void> {
+  const supabase = getServiceSupabaseClient()
+
+  const { error } = await supabase
+    .from('interaction_records')
+    .delete()
+    .eq('user_id', userId)
+
+  if (error) throw new Error(`Failed to delete interaction history: ${error.message}`)
+}
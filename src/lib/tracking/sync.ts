@@ -0,0 +1,186 @@
+/**
+ * Interaction sync - uploads the outbox to /api/interactions and hydrates
+ * the local tracking, thumbs and seen stores from the account's history,
+ * so computeAffinity, createSmartQueue and filterUnseen see every device.
+ *
+ * Anonymous users keep everything local; their outbox is uploaded after
+ * they sign in. Opting out of analytics stops uploads and erases the
+ * synced copy.
+ */
+
+import type { Session } from '@supabase/supabase-js'
+import { createClient } from '@/lib/supabase/client'
+import { clearOutbox, isInteractionUploadAllowed, readOutbox, writeOutbox } from './outbox'
+import { mergeRemoteInteractions } from './client'
+import { mergeRemoteSeen } from './seen-store'
+import { mergeRemoteVotes } from '@/lib/thumbs'
+import type { InteractionHistory } from './history'
+
+// Records per request; the route accepts at most 200
+const UPLOAD_BATCH_SIZE = 200
+// Batches per flush, so a long offline queue doesn't hog the connection
+const MAX_BATCHES_PER_FLUSH = 5
+// Coalesce bursts (e.g. marking a whole rail seen) into one upload
+const FLUSH_DEBOUNCE_MS = 5000
+// Pull other devices' history at most this often while the tab is visible
+const HYDRATE_INTERVAL_MS = 5 * 60 * 1000
+
+let flushInFlight: Promise<boolean> | null = null
+let lastHydratedAt = 0
+
+async function getSession(givenSession?: Session | null): Promise<Session | null> {
+  return givenSession || (await createClient().auth.getSession()).data.session
+}
+
+async function runFlush(session: Session, keepalive: boolean): Promise<boolean> {
+  for (let i = 0; i < MAX_BATCHES_PER_FLUSH; i++) {
+    const batch = readOutbox().slice(0, UPLOAD_BATCH_SIZE)
+    if (batch.length === 0) return true
+
+    try {
+      const response = await fetch('/api/interactions', {
+        method: 'POST',
+        headers: {
+          'Authorization': `Bearer ${session.access_token}`,
+          'Content-Type': 'application/json'
+        },
+        body: JSON.stringify({ records: batch }),
+        keepalive
+      })
+
+      if (!response.ok) {
+        const error = await response.json().catch(() => ({}))
+        console.error('❌ Failed to upload interactions:', error)
+        return false
+      }
+
+      const { acknowledged } = await response.json()
+      const acked = new Set<string>(acknowledged || [])
+      // Records queued while the request was in flight stay for the next flush
+      writeOutbox(readOutbox().filter(record => !acked.has(record.key)))
+    } catch (error) {
+      console.warn('⚠️ Interaction upload failed (will retry):', error instanceof Error ? error.message : String(error))
+      return false
+    }
+  }
+  return true
+}
+
+/**
+ * Upload queued records. Resolves false when signed out, offline or opted
+ * out; the queue is kept unless the user opted out.
+ */
+export async function flushInteractions(
+  options: { session?: Session | null; keepalive?: boolean } = {}
+): Promise<boolean> {
+  if (typeof window === 'undefined' || !navigator.onLine) return false
+  if (!isInteractionUploadAllowed()) return false
+  if (flushInFlight) return flushInFlight
+
+  flushInFlight = (async () => {
+    const session = await getSession(options.session)
+    if (!session) return false
+    return runFlush(session, options.keepalive ?? false)
+  })()
+
+  try {
+    return await flushInFlight
+  } finally {
+    flushInFlight = null
+  }
+}
+
+/**
+ * Merge the account's history into the local stores. Local changes are
+ * uploaded first so a stale server copy can't undo them.
+ */
+export async function hydrateInteractionHistory(session?: Session | null): Promise<boolean> {
+  if (typeof window === 'undefined' || !isInteractionUploadAllowed()) return false
+
+  const activeSession = await getSession(session)
+  if (!activeSession) return false
+  if (!(await flushInteractions({ session: activeSession }))) return false
+
+  try {
+    const response = await fetch('/api/interactions', {
+      headers: { 'Authorization': `Bearer ${activeSession.access_token}` }
+    })
+    if (!response.ok) return false
+
+    const history: InteractionHistory = await response.json()
+    mergeRemoteInteractions(history.interactions || [])
+    mergeRemoteVotes(history.votes || [])
+    mergeRemoteSeen(history.seen || [])
+    lastHydratedAt = Date.now()
+    return true
+  } catch (error) {
+    console.warn('⚠️ Failed to load interaction history:', error instanceof Error ? error.message : String(error))
+    return false
+  }
+}
+
+/**
+ * Honor an analytics opt-out: drop anything queued and erase the copy
+ * synced to the account. Local personalization keeps working on this device.
+ */
+export async function discardSyncedInteractions(): Promise<void> {
+  if (typeof window === 'undefined') return
+
+  clearOutbox()
+
+  const session = await getSession()
+  if (!session) return
+
+  try {
+    await fetch('/api/interactions', {
+      method: 'DELETE',
+      headers: { 'Authorization': `Bearer ${session.access_token}` }
+    })
+  } catch (error) {
+    console.warn('⚠️ Failed to delete interaction history:', error instanceof Error ? error.message : String(error))
+  }
+}
+
+/**
+ * Keep interactions in sync for the lifetime of the page
+ */
+export function startInteractionSync(): () => void {
+  if (typeof window === 'undefined') return () => {}
+
+  let flushTimer: number | null = null
+  const scheduleFlush = () => {
+    if (flushTimer !== null) window.clearTimeout(flushTimer)
+    flushTimer = window.setTimeout(() => {
+      flushTimer = null
+      void flushInteractions()
+    }, FLUSH_DEBOUNCE_MS)
+  }
+
+  const onVisibilityChange = () => {
+    if (document.visibilityState === 'hidden') {
+      // keepalive lets the upload finish if the tab is being closed
+      void flushInteractions({ keepalive: true })
+    } else if (Date.now() - lastHydratedAt > HYDRATE_INTERVAL_MS) {
+      void hydrateInteractionHistory()
+    }
+  }
+  const onOnline = () => { void flushInteractions() }
+
+  window.addEventListener('interactionsQueued', scheduleFlush)
+  window.addEventListener('online', onOnline)
+  document.addEventListener('visibilitychange', onVisibilityChange)
+
+  const { data: { subscription } } = createClient().auth.onAuthStateChange((event, session) => {
+    if (event === 'SIGNED_IN' && session) void hydrateInteractionHistory(session)
+  })
+
+  void hydrateInteractionHistory()
+
+  return () => {
+    if (flushTimer !== null) window.clearTimeout(flushTimer)
+    window.removeEventListener('interactionsQueued', scheduleFlush)
+    window.removeEventListener('online', onOnline)
+    document.removeEventListener('visibilitychange', onVisibilityChange)
+    subscription.unsubscribe()
+  }
+}
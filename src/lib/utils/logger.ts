@@ -0,0 +1,29 @@
+/**
+ * Console logger for the scraping pipeline modules
+ * Debug output is dropped in production.
+ */
+
+type LogContext = unknown
+
+function write(method: 'debug' | 'info' | 'warn' | 'error', message: string, context?: LogContext) {
+  if (context === undefined) {
+    console[method](message)
+  } else {
+    console[method](message, context)
+  }
+}
+
+export const logger = {
+  debug(message: string, context?: LogContext) {
+    if (process.env.NODE_ENV !== 'production') write('debug', message, context)
+  },
+  info(message: string, context?: LogContext) {
+    write('info', message, context)
+  },
+  warn(message: string, context?: LogContext) {
+    write('warn', message, context)
+  },
+  error(message: string, context?: LogContext) {
+    write('error', message, context)
+  },
+}
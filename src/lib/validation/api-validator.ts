@@ -6,7 +6,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { z } from 'zod'
 import { sanitizeSearchQuery, sanitizeText, sanitizeCoordinates } from './sanitize'
-import { rateLimiterManager, API_RATE_LIMITS } from '@/lib/rate-limiter'
+import { TokenBucketRateLimiter, API_RATE_LIMITS, type RateLimitConfig } from '@/lib/rate-limiter'
+import { getCacheStore } from '@/lib/cache'
 
 /**
  * Validation result type
@@ -133,12 +134,12 @@ export async function checkRateLimit(
       windowMs: 60 * 1000, // 1 minute
     }
 
-    // Check rate limit
-    const limiter = rateLimiterManager.getLimiter(limiterKey, config as any)
-    const status = limiter.getStatus()
+    // Take a token from the client's bucket; the bucket lives in the shared cache store
+    const limiter = new TokenBucketRateLimiter(config as RateLimitConfig, limiterKey)
+    const status = await limiter.tryAcquire()
 
-    if (status.remaining <= 0 && status.retryAfter) {
-      const retryAfterSeconds = Math.ceil(status.retryAfter / 1000)
+    if (!status.allowed) {
+      const retryAfterSeconds = Math.ceil((status.retryAfter ?? 1000) / 1000)
 
       return {
         allowed: false,
@@ -163,9 +164,6 @@ export async function checkRateLimit(
       }
     }
 
-    // Consume token
-    await limiter.waitForToken()
-
     return { allowed: true }
   } catch (error) {
     console.error('Rate limit check error:', error)
@@ -274,9 +272,10 @@ export async function validateAndRateLimit<T>(
   apiName: string,
   rateLimitConfig?: { maxRequests: number; windowMs: number }
 ): Promise<{ data: T; response?: NextResponse } | { response: NextResponse }> {
-  // Check rate limit first (skip in Vercel serverless environment)
+  // Check rate limit first. On Vercel an in-memory budget is per instance and
+  // means nothing, so only enforce there when the store is shared.
   const isVercel = process.env.VERCEL === '1'
-  if (!isVercel) {
+  if (!isVercel || getCacheStore().backend === 'redis') {
     try {
       const rateLimitResult = await checkRateLimit(request, apiName, rateLimitConfig)
       if (!rateLimitResult.allowed) {
@@ -0,0 +1,59 @@
+/**
+ * Browser helpers for the /api/venues/follows routes
+ * Attaches the current Supabase session token; following venues requires
+ * a session.
+ */
+
+import { createClient } from '@/lib/supabase/client'
+import { trackEvent } from '@/lib/tracking/client'
+import type { VenueFollow } from './types'
+
+async function getAccessToken(): Promise<string | null> {
+  const { data: { session } } = await createClient().auth.getSession()
+  return session?.access_token || null
+}
+
+async function venuesFetch<T>(path: string, init: RequestInit = {}): Promise<T> {
+  const token = await getAccessToken()
+  if (!token) {
+    throw new Error('Please log in to follow venues')
+  }
+
+  const response = await fetch(path, {
+    ...init,
+    headers: {
+      'Authorization': `Bearer ${token}`,
+      'Content-Type': 'application/json',
+      ...init.headers,
+    },
+  })
+
+  const body = await response.json().catch(() => ({}))
+  if (!response.ok) {
+    throw new Error(body.error || `Request failed (${response.status})`)
+  }
+
+  return body as T
+}
+
+export async function fetchFollowedVenues(): Promise<VenueFollow[]> {
+  const { follows } = await venuesFetch<{ follows: VenueFollow[] }>('/api/venues/follows')
+  return follows
+}
+
+/**
+ * Follow a venue as listed on an event and record it as a personalization signal
+ */
+export async function followVenue(venueName: string, city: string | null): Promise<VenueFollow> {
+  const { follow } = await venuesFetch<{ follow: VenueFollow }>('/api/venues/follows', {
+    method: 'POST',
+    body: JSON.stringify({ venueName, city })
+  })
+  trackEvent('follow', { venue: venueName, venueId: follow.venueId || undefined })
+  return follow
+}
+
+export async function unfollowVenue(follow: Pick<VenueFollow, 'venueKey' | 'venueName' | 'venueId'>): Promise<void> {
+  await venuesFetch(`/api/venues/follows/${follow.venueKey}`, { method: 'DELETE' })
+  trackEvent('unfollow', { venue: follow.venueName, venueId: follow.venueId || undefined })
+}
@@ -0,0 +1,111 @@
+/**
+ * Followed-venue digests
+ * Sends each user one notification covering every event newly listed at
+ * their followed venues since the last digest. Run by
+ * /api/cron/venue-digests.
+ */
+
+import { getServiceSupabaseClient } from '@/lib/supabase-server'
+import { sendVenueDigest } from '@/lib/email'
+import { notifyUser } from '@/lib/notifications/deliver'
+import { buildVenueDigest, digestTitle, type VenueDigestSection } from './follows'
+import type { VenueAlert } from './types'
+
+export interface DigestResult {
+  scanned: number
+  notified: number
+  failed: number
+}
+
+interface PendingRow {
+  user_id: string
+  event_id: string
+  venue_key: string
+  events: { title: string; date: string | null; time: string | null; venue_name: string | null; image_url: string | null }
+}
+
+// Alerts queued since the last run; a backlog drains over a few runs
+const DEFAULT_BATCH_SIZE = 1000
+
+async function notifyDigest(userId: string, sections: VenueDigestSection[], imageUrl: string | null): Promise<boolean> {
+  const appUrl = process.env.NEXT_PUBLIC_APP_URL || 'https://scenescout.app'
+  const title = digestTitle(sections)
+
+  return notifyUser(userId, {
+    title: `🏟️ ${title}`,
+    // The title names the venue when there is only one
+    body: sections
+      .flatMap(section => sections.length === 1 ? section.events : section.events.map(event => `${section.venueName}: ${event}`))
+      .join('\n'),
+    icon: imageUrl || '/icon-192x192.png',
+    data: {
+      url: '/',
+      type: 'venue-digest'
+    }
+  }, contact => sendVenueDigest(contact.email, contact.name, {
+    title,
+    venues: sections,
+    appUrl
+  }))
+}
+
+/**
+ * Send every user with queued venue alerts their digest
+ */
+export async function sendVenueDigests(options: { limit?: number; now?: Date } = {}): Promise<DigestResult> {
+  const supabase = getServiceSupabaseClient()
+  const now = options.now || new Date()
+  const result: DigestResult = { scanned: 0, notified: 0, failed: 0 }
+
+  const { data, error } = await supabase
+    .from('venue_event_alerts')
+    .select('user_id, event_id, venue_key, events!inner(title, date, time, venue_name, image_url)')
+    .is('notified_at', null)
+    .gte('events.date', now.toISOString().split('T')[0])
+    .order('created_at', { ascending: true })
+    .limit(options.limit || DEFAULT_BATCH_SIZE)
+
+  if (error) throw new Error(`Failed to load venue alerts: ${error.message}`)
+
+  const rows = (data || []) as unknown as PendingRow[]
+  result.scanned = rows.length
+
+  const byUser = new Map<string, PendingRow[]>()
+  for (const row of rows) {
+    byUser.set(row.user_id, [...(byUser.get(row.user_id) || []), row])
+  }
+
+  for (const [userId, userRows] of Array.from(byUser.entries())) {
+    const alerts: VenueAlert[] = userRows.map(row => ({
+      eventId: row.event_id,
+      title: row.events.title,
+      date: row.events.date,
+      time: row.events.time,
+      venueKey: row.venue_key,
+      venueName: row.events.venue_name || row.venue_key,
+      imageUrl: row.events.image_url
+    }))
+
+    try {
+      if (await notifyDigest(userId, buildVenueDigest(alerts), alerts.find(alert => alert.imageUrl)?.imageUrl || null)) {
+        result.notified++
+      }
+    } catch (notifyError: any) {
+      console.error(`⚠️ Failed to send venue digest to user ${userId}:`, notifyError.message)
+    }
+
+    // Marked either way, so a user with nowhere to deliver to is not retried forever
+    const { error: markError } = await supabase
+      .from('venue_event_alerts')
+      .update({ notified_at: now.toISOString() })
+      .eq('user_id', userId)
+      .in('event_id', userRows.map(row => row.event_id))
+
+    if (markError) {
+      console.error(`❌ Failed to mark venue alerts sent for user ${userId}:`, markError.message)
+      result.failed += userRows.length
+    }
+  }
+
+  return result
+}
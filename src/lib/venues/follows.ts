@@ -0,0 +1,114 @@
+/**
+ * Matching newly listed events to followed venues, and grouping queued
+ * alerts into one digest per user
+ */
+
+import { format, parseISO } from 'date-fns'
+import { sameCity } from '@/lib/performers/followers'
+import type { ListedVenueEvent, VenueAlert, VenueFollow } from './types'
+
+export interface VenueDigestSection {
+  venueName: string
+  /** "Fri, Mar 6 · Valley", soonest first */
+  events: string[]
+}
+
+/**
+ * "The Danforth Music Hall", "Danforth Music Hall" and
+ * "Danforth Music Hall, Toronto" are the same venue
+ */
+export function venueKey(name: string): string {
+  return name
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(',')[0]
+    .replace(/\s*[([][^)\]]*[)\]]\s*/g, ' ')
+    .replace(/\s*[&+]\s*/g, ' and ')
+    .trim()
+    .replace(/^the\s+/, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '')
+}
+
+/**
+ * Whether an event is at a followed venue. When both were resolved to a
+ * canonical venue the ids decide; otherwise a follow without a city, or an
+ * event without one, matches on the name alone.
+ */
+export function isAtFollowedVenue(
+  event: Pick<ListedVenueEvent, 'venue_name' | 'venue_id' | 'city_name'>,
+  follow: Pick<VenueFollow, 'venueKey' | 'venueId' | 'city'>
+): boolean {
+  if (event.venue_id && follow.venueId) return event.venue_id === follow.venueId
+  if (!event.venue_name || venueKey(event.venue_name) !== follow.venueKey) return false
+  if (!follow.city || !event.city_name) return true
+  return sameCity(event.city_name, follow.city)
+}
+
+/**
+ * Alerts to queue for newly inserted events: one per follower and event
+ */
+export function alertsForNewEvents(
+  events: ListedVenueEvent[],
+  follows: Array<VenueFollow & { userId: string }>
+): Array<{ userId: string; eventId: string; venueKey: string }> {
+  const alerts = new Map<string, { userId: string; eventId: string; venueKey: string }>()
+
+  for (const event of events) {
+    for (const follow of follows) {
+      if (!isAtFollowedVenue(event, follow)) continue
+      alerts.set(`${follow.userId}|${event.id}`, { userId: follow.userId, eventId: event.id, venueKey: follow.venueKey })
+    }
+  }
+
+  return Array.from(alerts.values())
+}
+
+/**
+ * Events at any followed venue, soonest first, for the followed-venues rail
+ */
+export function eventsAtFollowedVenues<T extends Pick<ListedVenueEvent, 'venue_name' | 'venue_id' | 'city_name' | 'date'>>(
+  events: T[],
+  follows: Array<Pick<VenueFollow, 'venueKey' | 'venueId' | 'city'>>
+): T[] {
+  if (follows.length === 0) return []
+
+  return events
+    .filter(event => follows.some(follow => isAtFollowedVenue(event, follow)))
+    .sort((a, b) => (a.date || '9999').localeCompare(b.date || '9999'))
+}
+
+function describeAlert(alert: VenueAlert): string {
+  const date = alert.date ? format(parseISO(alert.date), 'EEE, MMM d') : 'Date TBA'
+  return `${date} · ${alert.title}`
+}
+
+/**
+ * A user's queued alerts grouped by venue, venues with the most new events
+ * first and each venue's events soonest first
+ */
+export function buildVenueDigest(alerts: VenueAlert[]): VenueDigestSection[] {
+  const byVenue = new Map<string, VenueAlert[]>()
+  for (const alert of alerts) {
+    byVenue.set(alert.venueKey, [...(byVenue.get(alert.venueKey) || []), alert])
+  }
+
+  return Array.from(byVenue.values())
+    .sort((a, b) => b.length - a.length || a[0].venueName.localeCompare(b[0].venueName))
+    .map(venueAlerts => ({
+      venueName: venueAlerts[0].venueName,
+      events: [...venueAlerts]
+        .sort((a, b) => `${a.date || '9999'} ${a.time || ''}`.localeCompare(`${b.date || '9999'} ${b.time || ''}`))
+        .map(describeAlert)
+    }))
+}
+
+/**
+ * "3 new events at Massey Hall" / "5 new events at venues you follow"
+ */
+export function digestTitle(sections: VenueDigestSection[]): string {
+  const count = sections.reduce((total, section) => total + section.events.length, 0)
+  const events = count === 1 ? 'A new event' : `${count} new events`
+  return sections.length === 1 ? `${events} at ${sections[0].venueName}` : `${events} at venues you follow`
+}
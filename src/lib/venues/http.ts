@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server'
+import { z } from 'zod'
+
+/**
+ * Venue keys as they appear in URLs; always the output of venueKey()
+ */
+export const venueKeySchema = z.string().regex(/^[a-z0-9-]{1,200}$/)
+
+/**
+ * Canonical venue ids as they appear in URLs
+ */
+export const venueIdSchema = z.string().uuid()
+
+export function venueNotFoundResponse(): NextResponse {
+  return NextResponse.json(
+    { success: false, error: 'Venue not found' },
+    { status: 404 }
+  )
+}
@@ -0,0 +1,395 @@
+/**
+ * Venue registry store
+ * Canonical venues in the venues table with the names they are listed
+ * under in venue_aliases. Ingestion resolves each event's listed venue to
+ * one of them and stores its id as the event's venue_id; admins merge
+ * duplicates and split wrongly merged venues through /api/admin/venues.
+ */
+
+import { randomUUID } from 'crypto'
+import { getServiceSupabaseClient } from '@/lib/supabase-server'
+import { addressKey, cityKey, listingKey, resolveVenues } from './registry'
+import type { RegistryVenue, VenueAlias, VenueListing, VenueShow } from './types'
+
+interface AliasRow {
+  alias_key: string
+  city_key: string
+  name: string
+}
+
+interface VenueRow {
+  id: string
+  name: string
+  address: string | null
+  city: string | null
+  latitude: number | string | null
+  longitude: number | string | null
+  merged_into?: string | null
+  venue_aliases?: AliasRow[]
+}
+
+interface ShowRow {
+  id: string
+  title: string
+  date: string | null
+  time: string | null
+  venue_name: string | null
+  image_url: string | null
+  external_url: string | null
+}
+
+const VENUE_COLUMNS = 'id, name, address, city, latitude, longitude, merged_into, venue_aliases(alias_key, city_key, name)'
+
+/** Largest id list sent in one filter */
+const ID_CHUNK = 200
+
+function fromVenueRow(row: VenueRow): RegistryVenue {
+  return {
+    id: row.id,
+    name: row.name,
+    address: row.address,
+    city: row.city,
+    latitude: row.latitude === null ? null : Number(row.latitude),
+    longitude: row.longitude === null ? null : Number(row.longitude),
+    aliases: (row.venue_aliases || []).map(alias => ({
+      aliasKey: alias.alias_key,
+      name: alias.name,
+      cityKey: alias.city_key
+    }))
+  }
+}
+
+function quoted(values: string[]): string {
+  return values.map(value => `"${value.replace(/["\\]/g, '')}"`).join(',')
+}
+
+function chunks<T>(items: T[]): T[][] {
+  const out: T[][] = []
+  for (let i = 0; i < items.length; i += ID_CHUNK) out.push(items.slice(i, i + ID_CHUNK))
+  return out
+}
+
+/**
+ * Canonical venues any of the listings could be: by alias, street address,
+ * city (for fuzzy names) or, when the listings are close together, the
+ * area they cover
+ */
+async function loadCandidates(listings: VenueListing[]): Promise<RegistryVenue[]> {
+  const supabase = getServiceSupabaseClient()
+
+  const keys = Array.from(new Set(listings.map(listingKey)))
+  const { data: aliasRows, error: aliasError } = await supabase
+    .from('venue_aliases')
+    .select('venue_id')
+    .in('alias_key', keys)
+
+  if (aliasError) {
+    throw new Error(`Failed to look up venue aliases: ${aliasError.message}`)
+  }
+
+  const filters: string[] = []
+  const ids = Array.from(new Set((aliasRows || []).map(row => row.venue_id as string)))
+  if (ids.length > 0) filters.push(`id.in.(${quoted(ids)})`)
+
+  const addresses = Array.from(new Set(listings.map(listing => addressKey(listing.address)).filter(Boolean)))
+  if (addresses.length > 0) filters.push(`normalized_address.in.(${quoted(addresses)})`)
+
+  const cities = Array.from(new Set(listings.map(listing => listing.city?.trim()).filter((city): city is string => !!city)))
+  if (cities.length > 0) filters.push(`city.in.(${quoted(cities)})`)
+
+  const located = listings.filter(listing => listing.latitude != null && listing.longitude != null)
+  if (located.length > 0) {
+    const lats = located.map(listing => listing.latitude!)
+    const lngs = located.map(listing => listing.longitude!)
+    const [minLat, maxLat, minLng, maxLng] = [Math.min(...lats), Math.max(...lats), Math.min(...lngs), Math.max(...lngs)]
+    // Listings from one city; a batch spread wider relies on the other filters
+    if (maxLat - minLat < 1 && maxLng - minLng < 1) {
+      const margin = 0.005
+      filters.push(`and(latitude.gte.${minLat - margin},latitude.lte.${maxLat + margin},longitude.gte.${minLng - margin},longitude.lte.${maxLng + margin})`)
+    }
+  }
+
+  if (filters.length === 0) return []
+
+  const { data, error } = await supabase
+    .from('venues')
+    .select(VENUE_COLUMNS)
+    .is('merged_into', null)
+    .or(filters.join(','))
+
+  if (error) {
+    throw new Error(`Failed to load venues: ${error.message}`)
+  }
+
+  return ((data || []) as VenueRow[]).map(fromVenueRow)
+}
+
+/**
+ * Resolve listed venues to canonical venue ids, creating venues and
+ * aliases for names seen for the first time. Returns an id per listing,
+ * null where there was no usable venue name.
+ */
+export async function resolveEventVenues(listings: Array<VenueListing | null>): Promise<Array<string | null>> {
+  const named = listings
+    .map((listing, index) => ({ listing, index }))
+    .filter((entry): entry is { listing: VenueListing; index: number } => !!entry.listing && !!listingKey(entry.listing))
+  const venueIds: Array<string | null> = listings.map(() => null)
+  if (named.length === 0) return venueIds
+
+  const supabase = getServiceSupabaseClient()
+  const resolved = resolveVenues(named.map(entry => entry.listing), await loadCandidates(named.map(entry => entry.listing)))
+
+  if (resolved.created.length > 0) {
+    const { error } = await supabase
+      .from('venues')
+      .insert(resolved.created.map(venue => ({
+        id: venue.id,
+        name: venue.name,
+        address: venue.address,
+        normalized_address: addressKey(venue.address) || null,
+        city: venue.city,
+        latitude: venue.latitude,
+        longitude: venue.longitude,
+        source: 'registry'
+      })))
+
+    if (error) {
+      throw new Error(`Failed to create venues: ${error.message}`)
+    }
+  }
+
+  if (resolved.aliases.length > 0) {
+    // Another run may have claimed the name meanwhile; its venue keeps it
+    const { error } = await supabase
+      .from('venue_aliases')
+      .upsert(resolved.aliases.map(alias => ({
+        alias_key: alias.aliasKey,
+        city_key: alias.cityKey,
+        name: alias.name,
+        venue_id: alias.venueId
+      })), { onConflict: 'alias_key,city_key', ignoreDuplicates: true })
+
+    if (error) {
+      throw new Error(`Failed to store venue aliases: ${error.message}`)
+    }
+  }
+
+  named.forEach((entry, position) => {
+    venueIds[entry.index] = resolved.venueIds[position]
+  })
+  return venueIds
+}
+
+/**
+ * The canonical venue a name is listed under, without creating one
+ */
+export async function findVenueId(name: string, city: string | null): Promise<string | null> {
+  const supabase = getServiceSupabaseClient()
+  const listing = { name, city }
+
+  const { data, error } = await supabase
+    .from('venue_aliases')
+    .select('venue_id, city_key')
+    .eq('alias_key', listingKey(listing))
+    .in('city_key', Array.from(new Set([cityKey(city), ''])))
+
+  if (error) {
+    throw new Error(`Failed to look up venue ${name}: ${error.message}`)
+  }
+
+  const rows = (data || []) as Array<{ venue_id: string; city_key: string }>
+  const row = rows.find(r => r.city_key === cityKey(city)) || rows[0]
+  return row?.venue_id || null
+}
+
+/**
+ * A venue by id. Ids of venues merged into another resolve to that one, so
+ * links from before the merge keep working.
+ */
+export async function getVenue(id: string): Promise<RegistryVenue | null> {
+  const supabase = getServiceSupabaseClient()
+  let venueId = id
+
+  for (let hops = 0; hops < 5; hops++) {
+    const { data, error } = await supabase
+      .from('venues')
+      .select(VENUE_COLUMNS)
+      .eq('id', venueId)
+      .maybeSingle()
+
+    if (error) {
+      throw new Error(`Failed to load venue ${venueId}: ${error.message}`)
+    }
+    if (!data) return null
+
+    const row = data as VenueRow
+    if (!row.merged_into) return fromVenueRow(row)
+    venueId = row.merged_into
+  }
+
+  return null
+}
+
+/**
+ * A venue's upcoming events, soonest first
+ */
+export async function listVenueShows(venueId: string, options: { limit?: number } = {}): Promise<VenueShow[]> {
+  const supabase = getServiceSupabaseClient()
+
+  const { data, error } = await supabase
+    .from('events')
+    .select('id, title, date, time, venue_name, image_url, external_url')
+    .eq('venue_id', venueId)
+    .gte('date', new Date().toISOString().split('T')[0])
+    .order('date', { ascending: true })
+    .order('time', { ascending: true })
+    .limit(options.limit || 50)
+
+  if (error) {
+    throw new Error(`Failed to load venue events: ${error.message}`)
+  }
+
+  return ((data || []) as ShowRow[]).map(row => ({
+    eventId: row.id,
+    title: row.title,
+    date: row.date,
+    time: row.time,
+    venueName: row.venue_name,
+    imageUrl: row.image_url,
+    externalUrl: row.external_url
+  }))
+}
+
+/**
+ * Canonical venues by name, for the admin tool
+ */
+export async function searchVenues(options: { query?: string; city?: string; limit?: number } = {}): Promise<RegistryVenue[]> {
+  const supabase = getServiceSupabaseClient()
+
+  let query = supabase
+    .from('venues')
+    .select(VENUE_COLUMNS)
+    .is('merged_into', null)
+    .order('name', { ascending: true })
+    .limit(options.limit || 50)
+
+  if (options.query) {
+    query = query.ilike('name', `%${options.query.replace(/[\\%_]/g, match => `\\${match}`)}%`)
+  }
+  if (options.city) {
+    query = query.ilike('city', options.city)
+  }
+
+  const { data, error } = await query
+
+  if (error) {
+    throw new Error(`Failed to search venues: ${error.message}`)
+  }
+
+  return ((data || []) as VenueRow[]).map(fromVenueRow)
+}
+
+/**
+ * Merge duplicate venues into one: their aliases, events and follows move
+ * to the target and they redirect to it from then on
+ */
+export async function mergeVenues(targetId: string, sourceIds: string[]): Promise<RegistryVenue | null> {
+  const supabase = getServiceSupabaseClient()
+  const target = await getVenue(targetId)
+  if (!target || target.id !== targetId) return null
+
+  const sources = sourceIds.filter(id => id !== targetId)
+  const moves = [
+    { table: 'venue_aliases', column: 'venue_id', label: 'aliases' },
+    { table: 'events', column: 'venue_id', label: 'events' },
+    { table: 'venue_follows', column: 'venue_id', label: 'follows' },
+    // Venues merged into a source earlier now redirect straight to the target
+    { table: 'venues', column: 'merged_into', label: 'merged venues' }
+  ]
+
+  for (const move of moves) {
+    const { error } = await supabase
+      .from(move.table)
+      .update({ [move.column]: targetId })
+      .in(move.column, sources)
+
+    if (error) {
+      throw new Error(`Failed to move ${move.label} to venue ${targetId}: ${error.message}`)
+    }
+  }
+
+  const { error } = await supabase
+    .from('venues')
+    .update({ merged_into: targetId })
+    .in('id', sources)
+
+  if (error) {
+    throw new Error(`Failed to merge venues into ${targetId}: ${error.message}`)
+  }
+
+  return getVenue(targetId)
+}
+
+/**
+ * Split the given aliases off a venue into a new one, along with the events
+ * and follows listed under them. Callers check the split with planSplit.
+ */
+export async function splitVenue(venue: RegistryVenue, moved: VenueAlias[]): Promise<RegistryVenue> {
+  const supabase = getServiceSupabaseClient()
+  const aliasKeys = moved.map(alias => alias.aliasKey)
+  const id = randomUUID()
+
+  const { error: createError } = await supabase
+    .from('venues')
+    .insert({ id, name: moved[0].name, city: venue.city, source: 'registry' })
+
+  if (createError) {
+    throw new Error(`Failed to create venue for split: ${createError.message}`)
+  }
+
+  const { error: aliasError } = await supabase
+    .from('venue_aliases')
+    .update({ venue_id: id })
+    .eq('venue_id', venue.id)
+    .in('alias_key', aliasKeys)
+
+  if (aliasError) {
+    throw new Error(`Failed to move aliases to venue ${id}: ${aliasError.message}`)
+  }
+
+  const { data: events, error: eventsError } = await supabase
+    .from('events')
+    .select('id, venue_name, city_name')
+    .eq('venue_id', venue.id)
+
+  if (eventsError) {
+    throw new Error(`Failed to load events of venue ${venue.id}: ${eventsError.message}`)
+  }
+
+  const eventIds = ((events || []) as Array<{ id: string; venue_name: string | null; city_name: string | null }>)
+    .filter(event => event.venue_name && aliasKeys.includes(listingKey({ name: event.venue_name, city: event.city_name })))
+    .map(event => event.id)
+
+  for (const chunk of chunks(eventIds)) {
+    const { error } = await supabase
+      .from('events')
+      .update({ venue_id: id })
+      .in('id', chunk)
+
+    if (error) {
+      throw new Error(`Failed to move events to venue ${id}: ${error.message}`)
+    }
+  }
+
+  const { error: followError } = await supabase
+    .from('venue_follows')
+    .update({ venue_id: id })
+    .eq('venue_id', venue.id)
+    .in('venue_key', aliasKeys)
+
+  if (followError) {
+    throw new Error(`Failed to move follows to venue ${id}: ${followError.message}`)
+  }
+
+  return (await getVenue(id))!
+}
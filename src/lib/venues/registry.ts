@@ -0,0 +1,214 @@
+/**
+ * Venue entity resolution
+ *
+ * A listing resolves to a canonical venue by, in order: a known alias in
+ * the same city, the same street address, coordinates within a block with
+ * a similar name, or a near-identical name in the same city. Listings that
+ * match nothing become new venues, and every listing's name is kept as an
+ * alias so the next listing under it resolves directly.
+ */
+
+import { randomUUID } from 'crypto'
+import { normalizeAddress } from '@/lib/scraping/deduplication/fuzzy-matcher'
+import { haversineKm } from '@/lib/geocoding/rules'
+import { venueKey } from './follows'
+import type { RegistryVenue, VenueAlias, VenueListing, VenueMatch, VenueMatchMethod } from './types'
+
+/** Listings this close with similar names are the same venue */
+const SAME_BLOCK_KM = 0.15
+
+const MIN_ADDRESS_NAME_SIMILARITY = 0.5
+const MIN_PROXIMITY_NAME_SIMILARITY = 0.6
+const MIN_NAME_SIMILARITY = 0.88
+
+const METHOD_RANK: VenueMatchMethod[] = ['alias', 'address', 'proximity', 'name']
+
+export function cityKey(city: string | null | undefined): string {
+  return city ? venueKey(city) : ''
+}
+
+function sameCity(a: string, b: string): boolean {
+  return !a || !b || a === b
+}
+
+/**
+ * "Danforth Music Hall - Toronto" is listed under the same key as
+ * "The Danforth Music Hall"
+ */
+export function listingKey(listing: Pick<VenueListing, 'name' | 'city'>): string {
+  const key = venueKey(listing.name)
+  const city = cityKey(listing.city)
+  return city && key.endsWith(`-${city}`) ? key.slice(0, -city.length - 1) : key
+}
+
+/**
+ * The street part of an address, normalized; the city and postal code are
+ * compared separately or not at all
+ */
+export function addressKey(address: string | null | undefined): string {
+  return address ? normalizeAddress(address.split(',')[0]) : ''
+}
+
+function bigrams(key: string): string[] {
+  const text = key.replace(/-/g, ' ')
+  const pairs: string[] = []
+  for (let i = 0; i < text.length - 1; i++) pairs.push(text.slice(i, i + 2))
+  return pairs
+}
+
+/**
+ * Dice coefficient of two venue keys' character pairs
+ */
+export function nameSimilarity(a: string, b: string): number {
+  if (!a || !b) return 0
+  if (a === b) return 1
+
+  const pairsA = bigrams(a)
+  const pairsB = bigrams(b)
+  const remaining = [...pairsB]
+  let shared = 0
+  for (const pair of pairsA) {
+    const index = remaining.indexOf(pair)
+    if (index >= 0) {
+      shared++
+      remaining.splice(index, 1)
+    }
+  }
+  return (2 * shared) / (pairsA.length + pairsB.length)
+}
+
+function matchOne(listing: VenueListing, venue: RegistryVenue): VenueMatch | null {
+  const key = listingKey(listing)
+  const city = cityKey(listing.city)
+
+  if (venue.aliases.some(alias => alias.aliasKey === key && sameCity(alias.cityKey, city))) {
+    return { venue, method: 'alias', score: 1 }
+  }
+  if (!sameCity(cityKey(venue.city), city)) return null
+
+  const similarity = Math.max(
+    nameSimilarity(key, listingKey(venue)),
+    ...venue.aliases.map(alias => nameSimilarity(key, alias.aliasKey))
+  )
+
+  const address = addressKey(listing.address)
+  if (address && address === addressKey(venue.address) && similarity >= MIN_ADDRESS_NAME_SIMILARITY) {
+    return { venue, method: 'address', score: 0.9 }
+  }
+
+  if (
+    listing.latitude != null && listing.longitude != null &&
+    venue.latitude != null && venue.longitude != null &&
+    similarity >= MIN_PROXIMITY_NAME_SIMILARITY &&
+    haversineKm(
+      { latitude: listing.latitude, longitude: listing.longitude },
+      { latitude: venue.latitude, longitude: venue.longitude }
+    ) <= SAME_BLOCK_KM
+  ) {
+    return { venue, method: 'proximity', score: 0.85 }
+  }
+
+  // A name alone only counts when both sides say which city they are in
+  if (city && venue.city && similarity >= MIN_NAME_SIMILARITY) {
+    return { venue, method: 'name', score: similarity }
+  }
+
+  return null
+}
+
+/**
+ * The canonical venue a listing refers to, if any
+ */
+export function matchVenue(listing: VenueListing, venues: RegistryVenue[]): VenueMatch | null {
+  let best: VenueMatch | null = null
+
+  for (const venue of venues) {
+    const match = matchOne(listing, venue)
+    if (!match) continue
+
+    const rank = METHOD_RANK.indexOf(match.method)
+    const bestRank = best ? METHOD_RANK.indexOf(best.method) : Infinity
+    if (rank < bestRank || (rank === bestRank && match.score > best!.score)) best = match
+  }
+
+  return best
+}
+
+/**
+ * The listed name without a trailing city ("Massey Hall - Toronto")
+ */
+function displayName(listing: VenueListing): string {
+  const name = listing.name.trim()
+  const city = listing.city?.trim()
+  if (!city) return name
+
+  const suffix = new RegExp(`\\s*[-,|]\\s*${city.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}$`, 'i')
+  return name.replace(suffix, '') || name
+}
+
+export interface ResolvedVenues {
+  /** Canonical venue id per listing, null for listings without a usable name */
+  venueIds: Array<string | null>
+  /** Venues first seen in these listings, to be stored */
+  created: RegistryVenue[]
+  /** Names not listed under their venue before, to be stored */
+  aliases: Array<VenueAlias & { venueId: string }>
+}
+
+/**
+ * Resolve listings against the known venues. Listings of the same venue
+ * within the batch resolve to the same new venue.
+ */
+export function resolveVenues(
+  listings: VenueListing[],
+  known: RegistryVenue[],
+  newId: () => string = randomUUID
+): ResolvedVenues {
+  const pool = known.map(venue => ({ ...venue, aliases: [...venue.aliases] }))
+  const created: RegistryVenue[] = []
+  const aliases: ResolvedVenues['aliases'] = []
+
+  const venueIds = listings.map(listing => {
+    const key = listingKey(listing)
+    if (!key) return null
+
+    let venue = matchVenue(listing, pool)?.venue
+    if (!venue) {
+      venue = {
+        id: newId(),
+        name: displayName(listing),
+        address: listing.address?.trim() || null,
+        city: listing.city?.trim() || null,
+        latitude: listing.latitude ?? null,
+        longitude: listing.longitude ?? null,
+        aliases: []
+      }
+      pool.push(venue)
+      created.push(venue)
+    }
+
+    const city = cityKey(listing.city)
+    if (!venue.aliases.some(alias => alias.aliasKey === key && alias.cityKey === city)) {
+      const alias = { aliasKey: key, name: displayName(listing), cityKey: city }
+      venue.aliases.push(alias)
+      aliases.push({ ...alias, venueId: venue.id })
+    }
+
+    return venue.id
+  })
+
+  return { venueIds, created, aliases }
+}
+
+/**
+ * Which aliases a split moves to a new venue and which stay. Returns null
+ * when the split would move none or all of them.
+ */
+export function planSplit(
+  venue: RegistryVenue,
+  aliasKeys: string[]
+): { moved: VenueAlias[]; kept: VenueAlias[] } | null {
+  const moved = venue.aliases.filter(alias => aliasKeys.includes(alias.aliasKey))
+  const kept = venue.aliases.filter(alias => !aliasKeys.includes(alias.aliasKey))
+  return moved.length > 0 && kept.length > 0 ? { moved, kept } : null
+}
@@ -0,0 +1,173 @@
+/**
+ * Venue follow store
+ * Keeps users' followed venues and queues an alert for each follower when
+ * a newly inserted event is at one of them. Alerts go out in batches from
+ * ./digest.
+ */
+
+import { getServiceSupabaseClient } from '@/lib/supabase-server'
+import { alertsForNewEvents, venueKey } from './follows'
+import { findVenueId } from './registry-service'
+import type { ListedVenueEvent, VenueFollow } from './types'
+
+interface FollowRow {
+  user_id?: string
+  venue_key: string
+  venue_name: string
+  venue_id: string | null
+  city: string | null
+  created_at: string
+}
+
+const FOLLOW_COLUMNS = 'venue_key, venue_name, venue_id, city, created_at'
+
+function fromFollowRow(row: FollowRow): VenueFollow {
+  return {
+    venueKey: row.venue_key,
+    venueName: row.venue_name,
+    venueId: row.venue_id,
+    city: row.city,
+    createdAt: row.created_at
+  }
+}
+
+/**
+ * Venues the user follows, most recently followed first
+ */
+export async function listFollowedVenues(userId: string): Promise<VenueFollow[]> {
+  const supabase = getServiceSupabaseClient()
+
+  const { data, error } = await supabase
+    .from('venue_follows')
+    .select(FOLLOW_COLUMNS)
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+
+  if (error) {
+    throw new Error(`Failed to load followed venues: ${error.message}`)
+  }
+
+  return ((data || []) as FollowRow[]).map(fromFollowRow)
+}
+
+/**
+ * Follow a venue as listed on an event, or update the name and city of an
+ * existing follow. The follow records the canonical venue the name is
+ * listed under, if the registry knows it.
+ */
+export async function followVenue(userId: string, venueName: string, city: string | null): Promise<VenueFollow> {
+  const supabase = getServiceSupabaseClient()
+  const key = venueKey(venueName)
+  if (!key) {
+    throw new Error('Failed to follow venue: venue name has no letters or digits')
+  }
+
+  const { data: existing, error: loadError } = await supabase
+    .from('venue_follows')
+    .select('created_at')
+    .eq('user_id', userId)
+    .eq('venue_key', key)
+    .maybeSingle()
+
+  if (loadError) {
+    throw new Error(`Failed to load venue follow: ${loadError.message}`)
+  }
+
+  const venueId = await findVenueId(venueName, city).catch(error => {
+    console.warn('⚠️ Failed to resolve followed venue:', error.message)
+    return null
+  })
+
+  const { data, error } = await supabase
+    .from('venue_follows')
+    .upsert({
+      user_id: userId,
+      venue_key: key,
+      venue_name: venueName,
+      venue_id: venueId,
+      city,
+      created_at: existing?.created_at || new Date().toISOString()
+    }, { onConflict: 'user_id,venue_key' })
+    .select(FOLLOW_COLUMNS)
+    .single()
+
+  if (error) {
+    throw new Error(`Failed to follow venue: ${error.message}`)
+  }
+
+  return fromFollowRow(data as FollowRow)
+}
+
+/**
+ * Stop following a venue; alerts still queued for it are dropped
+ */
+export async function unfollowVenue(userId: string, key: string): Promise<void> {
+  const supabase = getServiceSupabaseClient()
+
+  const { error } = await supabase
+    .from('venue_follows')
+    .delete()
+    .eq('user_id', userId)
+    .eq('venue_key', key)
+
+  if (error) {
+    throw new Error(`Failed to unfollow venue: ${error.message}`)
+  }
+
+  const { error: alertError } = await supabase
+    .from('venue_event_alerts')
+    .delete()
+    .eq('user_id', userId)
+    .eq('venue_key', key)
+    .is('notified_at', null)
+
+  if (alertError) {
+    throw new Error(`Failed to drop venue alerts: ${alertError.message}`)
+  }
+}
+
+/**
+ * New-event detector: queue an alert for every follower of the venue of
+ * each newly inserted event. Callers pass only events that did not exist
+ * before their write, so updates to known events never alert. Returns the
+ * number of alerts queued.
+ */
+export async function queueVenueAlerts(events: ListedVenueEvent[]): Promise<number> {
+  const keys = Array.from(new Set(
+    events.map(event => (event.venue_name ? venueKey(event.venue_name) : '')).filter(Boolean)
+  ))
+  const venueIds = Array.from(new Set(events.map(event => event.venue_id).filter((id): id is string => !!id)))
+  if (keys.length === 0 && venueIds.length === 0) return 0
+
+  const filters: string[] = []
+  if (keys.length > 0) filters.push(`venue_key.in.(${keys.map(key => `"${key}"`).join(',')})`)
+  if (venueIds.length > 0) filters.push(`venue_id.in.(${venueIds.map(id => `"${id}"`).join(',')})`)
+
+  const supabase = getServiceSupabaseClient()
+  const { data, error } = await supabase
+    .from('venue_follows')
+    .select(`user_id, ${FOLLOW_COLUMNS}`)
+    .or(filters.join(','))
+
+  if (error) {
+    throw new Error(`Failed to load venue followers: ${error.message}`)
+  }
+
+  const follows = ((data || []) as FollowRow[]).map(row => ({ ...fromFollowRow(row), userId: row.user_id! }))
+  const alerts = alertsForNewEvents(events, follows)
+  if (alerts.length === 0) return 0
+
+  const { error: insertError } = await supabase
+    .from('venue_event_alerts')
+    .upsert(alerts.map(alert => ({
+      user_id: alert.userId,
+      event_id: alert.eventId,
+      venue_key: alert.venueKey
+    })), { onConflict: 'user_id,event_id', ignoreDuplicates: true })
+
+  if (insertError) {
+    throw new Error(`Failed to queue venue alerts: ${insertError.message}`)
+  }
+
+  return alerts.length
+}
@@ -0,0 +1,94 @@
+/**
+ * Venue types shared by the venue registry, the follow APIs, the new-event
+ * detector and venue digests
+ *
+ * Listings resolve to a canonical venue in the registry, and events carry
+ * its id as venue_id. A follow names the venue as listed and also records
+ * the canonical venue; events and follows that both have one match by id,
+ * otherwise by normalized name within the city it was followed in.
+ */
+
+export interface VenueFollow {
+  /** Normalized venue name, the identity of a followed venue */
+  venueKey: string
+  venueName: string
+  /** Canonical venue, when the name resolved to one */
+  venueId?: string | null
+  /** City the venue was followed in; null matches the name in any city */
+  city: string | null
+  createdAt: string
+}
+
+/** An event as stored, enough to match it to followed venues */
+export interface ListedVenueEvent {
+  id: string
+  title: string
+  date: string | null
+  venue_name: string | null
+  venue_id?: string | null
+  city_name?: string | null
+}
+
+/**
+ * A name a venue is listed under, per city
+ */
+export interface VenueAlias {
+  /** venueKey() of the listed name, without a trailing city */
+  aliasKey: string
+  name: string
+  /** venueKey() of the city it was listed in; '' when the listing had none */
+  cityKey: string
+}
+
+/**
+ * A canonical venue with every name it is listed under
+ */
+export interface RegistryVenue {
+  id: string
+  name: string
+  address: string | null
+  city: string | null
+  latitude: number | null
+  longitude: number | null
+  aliases: VenueAlias[]
+}
+
+/** A venue as a scraper or API listed it */
+export interface VenueListing {
+  name: string
+  address?: string | null
+  city?: string | null
+  latitude?: number | null
+  longitude?: number | null
+}
+
+export type VenueMatchMethod = 'alias' | 'address' | 'proximity' | 'name'
+
+export interface VenueMatch {
+  venue: RegistryVenue
+  method: VenueMatchMethod
+  /** 0-1 */
+  score: number
+}
+
+/** An upcoming event at a venue, for venue pages */
+export interface VenueShow {
+  eventId: string
+  title: string
+  date: string | null
+  time: string | null
+  venueName: string | null
+  imageUrl: string | null
+  externalUrl: string | null
+}
+
+/** A queued alert with the event it is about, as digests read them */
+export interface VenueAlert {
+  eventId: string
+  title: string
+  date: string | null
+  time: string | null
+  venueKey: string
+  venueName: string
+  imageUrl: string | null
+}
@@ -0,0 +1,121 @@
+/**
+ * Browser helpers for the /api/wall routes
+ * Attaches the current Supabase session token when there is one; reading a
+ * wall works signed out, writing requires a session.
+ */
+
+import { createClient } from '@/lib/supabase/client'
+import type { WallComment, WallPost, WallReportReason, WallSort, WallStreamUpdate } from './types'
+
+async function getAccessToken(): Promise<string | null> {
+  const { data: { session } } = await createClient().auth.getSession()
+  return session?.access_token || null
+}
+
+async function wallFetch<T>(path: string, init: RequestInit = {}, requireAuth: boolean = true): Promise<T> {
+  const token = await getAccessToken()
+  if (!token && requireAuth) {
+    throw new Error('Please log in to join the conversation')
+  }
+
+  const response = await fetch(path, {
+    ...init,
+    headers: {
+      ...(token ? { 'Authorization': `Bearer ${token}` } : {}),
+      ...(init.body instanceof FormData ? {} : { 'Content-Type': 'application/json' }),
+      ...init.headers,
+    },
+  })
+
+  const body = await response.json().catch(() => ({}))
+  if (!response.ok) {
+    throw new Error(body.message || body.error || `Request failed (${response.status})`)
+  }
+
+  return body as T
+}
+
+export async function fetchWallPosts(citySlug: string, options: { sort?: WallSort; before?: string } = {}): Promise<WallPost[]> {
+  const params = new URLSearchParams({ sort: options.sort || 'latest' })
+  if (options.before) params.set('before', options.before)
+
+  const { posts } = await wallFetch<{ posts: WallPost[] }>(`/api/wall/${citySlug}/posts?${params}`, {}, false)
+  return posts
+}
+
+export async function createWallPost(
+  citySlug: string,
+  input: { content: string; image_url?: string; event_id?: string; event_title?: string; venue_name?: string }
+): Promise<WallPost> {
+  const { post } = await wallFetch<{ post: WallPost }>(`/api/wall/${citySlug}/posts`, {
+    method: 'POST',
+    body: JSON.stringify(input),
+  })
+  return post
+}
+
+export async function uploadWallImage(file: File): Promise<string> {
+  const formData = new FormData()
+  formData.append('file', file)
+
+  const { url } = await wallFetch<{ url: string }>('/api/wall/uploads', {
+    method: 'POST',
+    body: formData,
+  })
+  return url
+}
+
+export async function removeWallPost(postId: string): Promise<void> {
+  await wallFetch(`/api/wall/posts/${postId}`, { method: 'DELETE' })
+}
+
+export async function fetchWallComments(postId: string): Promise<WallComment[]> {
+  const { comments } = await wallFetch<{ comments: WallComment[] }>(`/api/wall/posts/${postId}/comments`, {}, false)
+  return comments
+}
+
+export async function addWallComment(postId: string, content: string): Promise<WallComment> {
+  const { comment } = await wallFetch<{ comment: WallComment }>(`/api/wall/posts/${postId}/comments`, {
+    method: 'POST',
+    body: JSON.stringify({ content }),
+  })
+  return comment
+}
+
+export async function setWallLike(postId: string, liked: boolean): Promise<{ liked: boolean; like_count: number }> {
+  return wallFetch(`/api/wall/posts/${postId}/like`, {
+    method: 'POST',
+    body: JSON.stringify({ liked }),
+  })
+}
+
+export async function reportWallContent(input: {
+  postId: string
+  commentId?: string
+  reason: WallReportReason
+  details?: string
+}): Promise<{ hidden: boolean }> {
+  return wallFetch('/api/wall/reports', {
+    method: 'POST',
+    body: JSON.stringify(input),
+  })
+}
+
+/**
+ * Listen for live updates to a city's wall
+ *
+ * @returns Function that closes the connection
+ */
+export function subscribeToWall(citySlug: string, onUpdate: (update: WallStreamUpdate) => void): () => void {
+  const source = new EventSource(`/api/wall/${citySlug}/stream`)
+
+  source.onmessage = (event) => {
+    try {
+      onUpdate(JSON.parse(event.data))
+    } catch (error) {
+      console.warn('⚠️ Ignoring malformed wall update:', error)
+    }
+  }
+
+  return () => source.close()
+}
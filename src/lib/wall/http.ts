@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server'
+import { safeErrorResponse } from '@/lib/validation/api-validator'
+import { WallError } from './service'
+
+/**
+ * Map a thrown client-facing WallError (4xx) to its status; anything else
+ * becomes a generic 500 so database messages never reach the client
+ */
+export function wallErrorResponse(error: unknown, fallbackMessage: string): NextResponse {
+  if (error instanceof WallError && error.status < 500) {
+    return NextResponse.json(
+      { success: false, error: error.message },
+      { status: error.status }
+    )
+  }
+
+  console.error(`❌ ${fallbackMessage}:`, error)
+  return safeErrorResponse(error, fallbackMessage)
+}
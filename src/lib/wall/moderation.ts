@@ -0,0 +1,97 @@
+/**
+ * City wall moderation rules
+ * Pure checks applied by the wall service before anything is stored.
+ * Request-level rate limits live in the routes; the per-user windows here
+ * are counted from the database so they hold across server instances.
+ */
+
+export interface WallLimit {
+  max: number
+  windowMs: number
+}
+
+export const WALL_LIMITS: Record<'posts' | 'comments' | 'reports', WallLimit> = {
+  posts: { max: 5, windowMs: 10 * 60 * 1000 },
+  comments: { max: 30, windowMs: 10 * 60 * 1000 },
+  reports: { max: 20, windowMs: 60 * 60 * 1000 },
+}
+
+// Distinct reporters before a post or comment is hidden pending review
+export const AUTO_HIDE_REPORT_THRESHOLD = 3
+
+// Same text from the same author within this window is treated as a repost
+export const DUPLICATE_WINDOW_MS = 60 * 60 * 1000
+
+const MAX_LINKS = 2
+const LINK_PATTERN = /\bhttps?:\/\/|\bwww\./gi
+const REPEATED_CHARACTER_PATTERN = /(.)\1{14,}/
+
+/**
+ * Reason the text can't be posted, or null when it's fine
+ */
+export function checkWallContent(content: string): string | null {
+  const text = content.trim()
+  if (!text) return 'Post cannot be empty'
+
+  const links = text.match(LINK_PATTERN)?.length || 0
+  if (links > MAX_LINKS) {
+    return `Posts can include at most ${MAX_LINKS} links`
+  }
+
+  if (REPEATED_CHARACTER_PATTERN.test(text)) {
+    return 'Post looks like spam'
+  }
+
+  const letters = text.replace(/[^a-z]/gi, '')
+  if (letters.length >= 20 && letters === letters.toUpperCase()) {
+    return 'Please don\'t post in all caps'
+  }
+
+  return null
+}
+
+/**
+ * Key for duplicate detection: case, whitespace and punctuation ignored
+ */
+export function normalizeWallContent(content: string): string {
+  return content
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim()
+}
+
+/**
+ * Images must come from the wall bucket, so posts can't hotlink
+ * arbitrary (tracking or unsafe) URLs
+ */
+export function isWallImageUrl(url: string, supabaseUrl: string | undefined): boolean {
+  if (!supabaseUrl) return false
+  const prefix = `${supabaseUrl.replace(/\/$/, '')}/storage/v1/object/public/wall-images/`
+  return url.startsWith(prefix) && !url.slice(prefix.length).includes('..')
+}
+
+export function shouldAutoHide(distinctReporters: number): boolean {
+  return distinctReporters >= AUTO_HIDE_REPORT_THRESHOLD
+}
+
+export const MAX_WALL_IMAGE_BYTES = 5 * 1024 * 1024
+
+const IMAGE_SIGNATURES: Array<{ type: string; extension: string; matches: (bytes: Uint8Array) => boolean }> = [
+  { type: 'image/jpeg', extension: 'jpg', matches: b => b[0] === 0xff && b[1] === 0xd8 && b[2] === 0xff },
+  { type: 'image/png', extension: 'png', matches: b => b[0] === 0x89 && b[1] === 0x50 && b[2] === 0x4e && b[3] === 0x47 },
+  { type: 'image/gif', extension: 'gif', matches: b => b[0] === 0x47 && b[1] === 0x49 && b[2] === 0x46 && b[3] === 0x38 },
+  {
+    type: 'image/webp',
+    extension: 'webp',
+    matches: b => String.fromCharCode(...Array.from(b.slice(0, 4))) === 'RIFF' && String.fromCharCode(...Array.from(b.slice(8, 12))) === 'WEBP',
+  },
+]
+
+/**
+ * Identify an upload from its leading bytes; the declared MIME type is
+ * client-controlled and not trusted
+ */
+export function detectImageType(bytes: Uint8Array): { type: string; extension: string } | null {
+  const signature = IMAGE_SIGNATURES.find(s => s.matches(bytes))
+  return signature ? { type: signature.type, extension: signature.extension } : null
+}
@@ -0,0 +1,437 @@
+/**
+ * City Wall Service - server-side data access for wall posts
+ *
+ * Writes go through the service-role client, so every function here checks
+ * ownership, per-user limits and moderation state itself. Hidden rows are
+ * never returned to non-admins.
+ */
+
+import type { User } from '@supabase/supabase-js'
+import { getServiceSupabaseClient } from '@/lib/supabase-server'
+import { sanitizeHtml, sanitizeText } from '@/lib/validation/sanitize'
+import {
+  DUPLICATE_WINDOW_MS,
+  WALL_LIMITS,
+  checkWallContent,
+  isWallImageUrl,
+  normalizeWallContent,
+  shouldAutoHide,
+  type WallLimit
+} from './moderation'
+import type { WallCity, WallComment, WallPost, WallReport, WallReportReason, WallSort } from './types'
+
+export class WallError extends Error {
+  public status: number
+
+  constructor(message: string, status: number = 400) {
+    super(message)
+    this.name = 'WallError'
+    this.status = status
+  }
+}
+
+const POST_COLUMNS = 'id, city_slug, user_id, author_name, author_avatar_url, content, image_url, event_id, event_title, venue_name, like_count, comment_count, created_at'
+const COMMENT_COLUMNS = 'id, post_id, city_slug, user_id, author_name, author_avatar_url, content, created_at'
+
+const MAX_PAGE_SIZE = 50
+
+function authorOf(user: User) {
+  return {
+    author_name: (sanitizeText(user.user_metadata?.full_name || user.user_metadata?.username) || user.email?.split('@')[0] || 'SceneScout member').slice(0, 100),
+    author_avatar_url: typeof user.user_metadata?.avatar_url === 'string' ? user.user_metadata.avatar_url : null,
+  }
+}
+
+// Strip markup but keep line breaks, which matter in posts
+function cleanContent(content: string): string {
+  return sanitizeHtml(content).replace(/\n{3,}/g, '\n\n').trim()
+}
+
+/**
+ * Throw when the user has used up a per-user window (counted in the database)
+ */
+async function enforceUserLimit(table: string, userColumn: string, userId: string, limit: WallLimit, noun: string) {
+  const supabase = getServiceSupabaseClient()
+
+  const { count, error } = await supabase
+    .from(table)
+    .select('id', { count: 'exact', head: true })
+    .eq(userColumn, userId)
+    .gte('created_at', new Date(Date.now() - limit.windowMs).toISOString())
+
+  if (error) throw new Error(`Failed to check ${noun} limit: ${error.message}`)
+  if ((count || 0) >= limit.max) {
+    throw new WallError(`You've hit the limit of ${limit.max} ${noun}. Please try again later.`, 429)
+  }
+}
+
+/**
+ * Active city by slug
+ */
+export async function getWallCity(slug: string): Promise<WallCity | null> {
+  const supabase = getServiceSupabaseClient()
+
+  const { data, error } = await supabase
+    .from('cities')
+    .select('id, name, slug')
+    .eq('slug', slug)
+    .eq('is_active', true)
+    .maybeSingle()
+
+  if (error) throw new Error(`Failed to load city: ${error.message}`)
+  return data
+}
+
+async function requireVisiblePost(postId: string): Promise<WallPost> {
+  const supabase = getServiceSupabaseClient()
+
+  const { data, error } = await supabase
+    .from('wall_posts')
+    .select(POST_COLUMNS)
+    .eq('id', postId)
+    .eq('hidden', false)
+    .maybeSingle()
+
+  if (error) throw new Error(`Failed to load post: ${error.message}`)
+  if (!data) throw new WallError('Post not found', 404)
+  return data as WallPost
+}
+
+/**
+ * Visible posts for a city, newest first (or by likes), with the viewer's likes
+ */
+export async function listPosts(
+  citySlug: string,
+  options: { sort?: WallSort; before?: string; limit?: number; viewerId?: string | null } = {}
+): Promise<WallPost[]> {
+  const supabase = getServiceSupabaseClient()
+  const limit = Math.min(options.limit || 20, MAX_PAGE_SIZE)
+
+  let query = supabase
+    .from('wall_posts')
+    .select(POST_COLUMNS)
+    .eq('city_slug', citySlug)
+    .eq('hidden', false)
+
+  if (options.sort === 'popular') {
+    // Popular looks at the last week so old hits don't pin the top forever
+    query = query
+      .gte('created_at', new Date(Date.now() - 7 * 24 * 60 * 60 * 1000).toISOString())
+      .order('like_count', { ascending: false })
+      .order('created_at', { ascending: false })
+  } else {
+    if (options.before) query = query.lt('created_at', options.before)
+    query = query.order('created_at', { ascending: false })
+  }
+
+  const { data, error } = await query.limit(limit)
+  if (error) throw new Error(`Failed to load posts: ${error.message}`)
+
+  const posts = (data || []) as WallPost[]
+  if (!options.viewerId || posts.length === 0) return posts
+
+  const { data: likes } = await supabase
+    .from('wall_likes')
+    .select('post_id')
+    .eq('user_id', options.viewerId)
+    .in('post_id', posts.map(p => p.id))
+
+  const liked = new Set((likes || []).map(l => l.post_id))
+  return posts.map(post => ({ ...post, liked_by_me: liked.has(post.id) }))
+}
+
+/**
+ * Create a post on a city's wall
+ */
+export async function createPost(
+  user: User,
+  citySlug: string,
+  input: { content: string; image_url?: string; event_id?: string; event_title?: string; venue_name?: string }
+): Promise<WallPost> {
+  const city = await getWallCity(citySlug)
+  if (!city) throw new WallError('City not found', 404)
+
+  const content = cleanContent(input.content)
+  const problem = checkWallContent(content)
+  if (problem) throw new WallError(problem, 422)
+
+  if (input.image_url && !isWallImageUrl(input.image_url, process.env.SUPABASE_URL || process.env.NEXT_PUBLIC_SUPABASE_URL)) {
+    throw new WallError('Images must be uploaded through the wall', 422)
+  }
+
+  await enforceUserLimit('wall_posts', 'user_id', user.id, WALL_LIMITS.posts, 'posts')
+
+  const supabase = getServiceSupabaseClient()
+
+  const { data: recent } = await supabase
+    .from('wall_posts')
+    .select('content')
+    .eq('user_id', user.id)
+    .gte('created_at', new Date(Date.now() - DUPLICATE_WINDOW_MS).toISOString())
+
+  const normalized = normalizeWallContent(content)
+  if ((recent || []).some(post => normalizeWallContent(post.content) === normalized)) {
+    throw new WallError('You already posted that', 409)
+  }
+
+  const { data, error } = await supabase
+    .from('wall_posts')
+    .insert({
+      city_slug: city.slug,
+      user_id: user.id,
+      ...authorOf(user),
+      content,
+      image_url: input.image_url || null,
+      event_id: input.event_id || null,
+      event_title: input.event_title ? sanitizeText(input.event_title) : null,
+      venue_name: input.venue_name ? sanitizeText(input.venue_name) : null,
+    })
+    .select(POST_COLUMNS)
+    .single()
+
+  if (error) throw new Error(`Failed to create post: ${error.message}`)
+  return data as WallPost
+}
+
+/**
+ * Authors remove their own posts; the row is hidden rather than deleted so
+ * open reports can still be reviewed
+ */
+export async function removeOwnPost(userId: string, postId: string): Promise<void> {
+  const post = await requireVisiblePost(postId)
+  if (post.user_id !== userId) throw new WallError('You can only remove your own posts', 403)
+
+  await setVisibility({ postId, hidden: true, reason: 'Removed by author', actorId: userId })
+}
+
+export async function listComments(postId: string): Promise<WallComment[]> {
+  await requireVisiblePost(postId)
+  const supabase = getServiceSupabaseClient()
+
+  const { data, error } = await supabase
+    .from('wall_comments')
+    .select(COMMENT_COLUMNS)
+    .eq('post_id', postId)
+    .eq('hidden', false)
+    .order('created_at', { ascending: true })
+    .limit(200)
+
+  if (error) throw new Error(`Failed to load comments: ${error.message}`)
+  return (data || []) as WallComment[]
+}
+
+export async function createComment(user: User, postId: string, rawContent: string): Promise<WallComment> {
+  const post = await requireVisiblePost(postId)
+
+  const content = cleanContent(rawContent)
+  const problem = checkWallContent(content)
+  if (problem) throw new WallError(problem, 422)
+
+  await enforceUserLimit('wall_comments', 'user_id', user.id, WALL_LIMITS.comments, 'comments')
+
+  const supabase = getServiceSupabaseClient()
+  const { data, error } = await supabase
+    .from('wall_comments')
+    .insert({
+      post_id: post.id,
+      city_slug: post.city_slug,
+      user_id: user.id,
+      ...authorOf(user),
+      content,
+    })
+    .select(COMMENT_COLUMNS)
+    .single()
+
+  if (error) throw new Error(`Failed to create comment: ${error.message}`)
+  return data as WallComment
+}
+
+/**
+ * Like or unlike a post; counts are maintained by a database trigger
+ */
+export async function setLike(userId: string, postId: string, liked: boolean): Promise<{ liked: boolean; like_count: number }> {
+  await requireVisiblePost(postId)
+  const supabase = getServiceSupabaseClient()
+
+  const { error } = liked
+    ? await supabase
+        .from('wall_likes')
+        .upsert({ post_id: postId, user_id: userId }, { onConflict: 'post_id,user_id', ignoreDuplicates: true })
+    : await supabase
+        .from('wall_likes')
+        .delete()
+        .eq('post_id', postId)
+        .eq('user_id', userId)
+
+  if (error) throw new Error(`Failed to update like: ${error.message}`)
+
+  const { data } = await supabase
+    .from('wall_posts')
+    .select('like_count')
+    .eq('id', postId)
+    .single()
+
+  return { liked, like_count: data?.like_count ?? 0 }
+}
+
+/**
+ * Report a post or comment. Enough distinct reporters hide it until an
+ * admin reviews it.
+ *
+ * @returns Whether the content was hidden by this report
+ */
+export async function reportContent(
+  reporterId: string,
+  input: { postId: string; commentId?: string; reason: WallReportReason; details?: string }
+): Promise<{ hidden: boolean }> {
+  await requireVisiblePost(input.postId)
+  await enforceUserLimit('wall_reports', 'reporter_id', reporterId, WALL_LIMITS.reports, 'reports')
+
+  const supabase = getServiceSupabaseClient()
+  const table = input.commentId ? 'wall_comments' : 'wall_posts'
+  const targetId = input.commentId || input.postId
+
+  if (input.commentId) {
+    const { data: comment } = await supabase
+      .from('wall_comments')
+      .select('id')
+      .eq('id', input.commentId)
+      .eq('post_id', input.postId)
+      .eq('hidden', false)
+      .maybeSingle()
+
+    if (!comment) throw new WallError('Comment not found', 404)
+  }
+
+  const { error } = await supabase
+    .from('wall_reports')
+    .insert({
+      post_id: input.postId,
+      comment_id: input.commentId || null,
+      reporter_id: reporterId,
+      reason: input.reason,
+      details: input.details ? sanitizeText(input.details) : null,
+    })
+
+  if (error) {
+    if (error.code === '23505') throw new WallError('You already reported this', 409)
+    throw new Error(`Failed to report content: ${error.message}`)
+  }
+
+  let countQuery = supabase
+    .from('wall_reports')
+    .select('id', { count: 'exact', head: true })
+    .eq('post_id', input.postId)
+    .is('resolved_at', null)
+  countQuery = input.commentId
+    ? countQuery.eq('comment_id', input.commentId)
+    : countQuery.is('comment_id', null)
+
+  const { count } = await countQuery
+  const reports = count || 0
+
+  await supabase.from(table).update({ report_count: reports }).eq('id', targetId)
+
+  if (!shouldAutoHide(reports)) return { hidden: false }
+
+  await setVisibility({
+    postId: input.postId,
+    commentId: input.commentId,
+    hidden: true,
+    reason: `Hidden after ${reports} reports`,
+    actorId: null,
+  })
+  console.log(`⚠️ Auto-hid wall ${input.commentId ? 'comment' : 'post'} ${targetId} after ${reports} reports`)
+
+  return { hidden: true }
+}
+
+/**
+ * Hide or restore a post or comment and log the action. The log row is
+ * what tells open walls to drop (or re-add) it. Admin decisions pass
+ * resolveReports, which closes the reports and resets the count.
+ */
+export async function setVisibility(input: {
+  postId: string
+  commentId?: string
+  hidden: boolean
+  reason?: string
+  actorId: string | null
+  resolveReports?: boolean
+}): Promise<void> {
+  const supabase = getServiceSupabaseClient()
+  const table = input.commentId ? 'wall_comments' : 'wall_posts'
+
+  const { data, error } = await supabase
+    .from(table)
+    .update({ hidden: input.hidden, hidden_reason: input.hidden ? input.reason || null : null })
+    .eq('id', input.commentId || input.postId)
+    .select('city_slug')
+    .maybeSingle()
+
+  if (error) throw new Error(`Failed to update ${table === 'wall_posts' ? 'post' : 'comment'} visibility: ${error.message}`)
+  if (!data) throw new WallError(input.commentId ? 'Comment not found' : 'Post not found', 404)
+
+  if (input.resolveReports) {
+    let resolve = supabase
+      .from('wall_reports')
+      .update({ resolved_at: new Date().toISOString() })
+      .eq('post_id', input.postId)
+      .is('resolved_at', null)
+    resolve = input.commentId ? resolve.eq('comment_id', input.commentId) : resolve.is('comment_id', null)
+    await resolve
+    await supabase.from(table).update({ report_count: 0 }).eq('id', input.commentId || input.postId)
+  }
+
+  const { error: logError } = await supabase
+    .from('wall_moderation_actions')
+    .insert({
+      city_slug: data.city_slug,
+      post_id: input.postId,
+      comment_id: input.commentId || null,
+      action: input.hidden ? 'hide' : 'restore',
+      reason: input.reason || null,
+      actor_id: input.actorId,
+    })
+
+  if (logError) throw new Error(`Failed to log moderation action: ${logError.message}`)
+}
+
+/**
+ * Open reports with the reported content, for the moderation queue
+ */
+export async function listOpenReports(limit: number = 100): Promise<Array<WallReport & {
+  post: (WallPost & { hidden: boolean; hidden_reason: string | null }) | null
+  comment: (WallComment & { hidden: boolean }) | null
+}>> {
+  const supabase = getServiceSupabaseClient()
+
+  const { data: reports, error } = await supabase
+    .from('wall_reports')
+    .select('id, post_id, comment_id, reporter_id, reason, details, created_at')
+    .is('resolved_at', null)
+    .order('created_at', { ascending: false })
+    .limit(limit)
+
+  if (error) throw new Error(`Failed to load reports: ${error.message}`)
+  if (!reports || reports.length === 0) return []
+
+  const postIds = Array.from(new Set(reports.map(r => r.post_id)))
+  const commentIds = Array.from(new Set(reports.map(r => r.comment_id).filter(Boolean))) as string[]
+
+  const [{ data: posts }, { data: comments }] = await Promise.all([
+    supabase.from('wall_posts').select(`${POST_COLUMNS}, hidden, hidden_reason`).in('id', postIds),
+    commentIds.length > 0
+      ? supabase.from('wall_comments').select(`${COMMENT_COLUMNS}, hidden`).in('id', commentIds)
+      : Promise.resolve({ data: [] as any[] }),
+  ])
+
+  const postsById = new Map((posts || []).map((p: any) => [p.id, p]))
+  const commentsById = new Map((comments || []).map((c: any) => [c.id, c]))
+
+  return (reports as WallReport[]).map(report => ({
+    ...report,
+    post: postsById.get(report.post_id) || null,
+    comment: report.comment_id ? commentsById.get(report.comment_id) || null : null,
+  }))
+}
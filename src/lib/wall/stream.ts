@@ -0,0 +1,89 @@
+/**
+ * Maps database change payloads for the wall tables to the updates sent to
+ * open walls. Used by RealtimeEventStream; rows that are hidden (or still
+ * carry moderation fields) never leave this function as-is.
+ */
+
+import type { WallComment, WallPost, WallStreamUpdate } from './types'
+
+export const WALL_TABLES = ['wall_posts', 'wall_comments', 'wall_moderation_actions'] as const
+
+export type WallTable = typeof WALL_TABLES[number]
+
+interface ChangePayload {
+  eventType: 'INSERT' | 'UPDATE' | 'DELETE'
+  new?: Record<string, any> | null
+  old?: Record<string, any> | null
+}
+
+function publicPost(row: Record<string, any>): WallPost {
+  return {
+    id: row.id,
+    city_slug: row.city_slug,
+    user_id: row.user_id,
+    author_name: row.author_name,
+    author_avatar_url: row.author_avatar_url ?? null,
+    content: row.content,
+    image_url: row.image_url ?? null,
+    event_id: row.event_id ?? null,
+    event_title: row.event_title ?? null,
+    venue_name: row.venue_name ?? null,
+    like_count: row.like_count ?? 0,
+    comment_count: row.comment_count ?? 0,
+    created_at: row.created_at,
+  }
+}
+
+function publicComment(row: Record<string, any>): WallComment {
+  return {
+    id: row.id,
+    post_id: row.post_id,
+    city_slug: row.city_slug,
+    user_id: row.user_id,
+    author_name: row.author_name,
+    author_avatar_url: row.author_avatar_url ?? null,
+    content: row.content,
+    created_at: row.created_at,
+  }
+}
+
+/**
+ * The city and update for a change, or null when nothing should be sent
+ */
+export function toWallStreamUpdate(
+  table: WallTable,
+  payload: ChangePayload
+): { citySlug: string; update: WallStreamUpdate } | null {
+  const row = payload.new
+  if (!row?.city_slug) return null
+
+  switch (table) {
+    case 'wall_posts':
+      if (row.hidden) return null
+      if (payload.eventType === 'INSERT') {
+        return { citySlug: row.city_slug, update: { kind: 'post', post: publicPost(row) } }
+      }
+      if (payload.eventType === 'UPDATE') {
+        return {
+          citySlug: row.city_slug,
+          update: { kind: 'post_counts', post_id: row.id, like_count: row.like_count ?? 0, comment_count: row.comment_count ?? 0 },
+        }
+      }
+      return null
+
+    case 'wall_comments':
+      if (row.hidden || payload.eventType !== 'INSERT') return null
+      return { citySlug: row.city_slug, update: { kind: 'comment', comment: publicComment(row) } }
+
+    case 'wall_moderation_actions':
+      if (payload.eventType !== 'INSERT') return null
+      return {
+        citySlug: row.city_slug,
+        update: {
+          kind: row.action === 'restore' ? 'restored' : 'removed',
+          post_id: row.post_id,
+          comment_id: row.comment_id ?? null,
+        },
+      }
+  }
+}
@@ -0,0 +1,61 @@
+/**
+ * City wall types shared by the /api/wall routes, the stream and the wall page
+ */
+
+export type WallReportReason = 'spam' | 'harassment' | 'inappropriate' | 'misinformation' | 'other'
+
+export type WallSort = 'latest' | 'popular'
+
+export interface WallCity {
+  id: string
+  name: string
+  slug: string
+}
+
+export interface WallPost {
+  id: string
+  city_slug: string
+  user_id: string
+  author_name: string
+  author_avatar_url: string | null
+  content: string
+  image_url: string | null
+  event_id: string | null
+  event_title: string | null
+  venue_name: string | null
+  like_count: number
+  comment_count: number
+  created_at: string
+  liked_by_me?: boolean
+}
+
+export interface WallComment {
+  id: string
+  post_id: string
+  city_slug: string
+  user_id: string
+  author_name: string
+  author_avatar_url: string | null
+  content: string
+  created_at: string
+}
+
+export interface WallReport {
+  id: string
+  post_id: string
+  comment_id: string | null
+  reporter_id: string
+  reason: WallReportReason
+  details: string | null
+  created_at: string
+}
+
+/**
+ * What the wall stream sends to open pages
+ */
+export type WallStreamUpdate =
+  | { kind: 'post'; post: WallPost }
+  | { kind: 'post_counts'; post_id: string; like_count: number; comment_count: number }
+  | { kind: 'comment'; comment: WallComment }
+  | { kind: 'removed'; post_id: string; comment_id: string | null }
+  | { kind: 'restored'; post_id: string; comment_id: string | null }
@@ -1,3 +1,6 @@
+import type { EventSeriesSummary } from '@/lib/series/types'
+import type { EventPerformer } from '@/lib/performers/types'
+
 // Database types
 export interface Event {
   id: string
@@ -40,6 +43,11 @@ export interface Event {
   updated_at?: string
   last_updated?: string
   submitted_by?: string
+  series_id?: string | null
+  /** Set on the occurrence that stands in for a recurring series in a feed */
+  series?: EventSeriesSummary
+  /** Lineup, headliner first */
+  performers?: EventPerformer[]
   venue?: {
     name?: string
     latitude?: number
@@ -281,34 +281,44 @@ class WebhookProcessor {
       // Check if event already exists
       const { data: existingEvent } = await supabase
         .from('events')
-        .select('id, external_id, updated_at')
+        .select('id, external_id, updated_at, city_name, category, date')
         .eq('external_id', normalizedEvent.external_id)
         .eq('source', webhook.source)
         .single()
 
       let action: string
+      let savedEvent: any
       if (existingEvent) {
         // Update existing event
-        const { error } = await supabase
+        const { data, error } = await supabase
           .from('events')
           .update({
             ...normalizedEvent,
             updated_at: new Date().toISOString()
           })
           .eq('id', existingEvent.id)
+          .select('id, city_name, category, date')
+          .single()
 
         if (error) throw error
+        savedEvent = data
         action = 'updated'
       } else {
         // Create new event
-        const { error } = await supabase
+        const { data, error } = await supabase
           .from('events')
           .insert(normalizedEvent)
+          .select('id, city_name, category, date')
+          .single()
 
         if (error) throw error
+        savedEvent = data
         action = 'created'
       }
 
+      // Listings the event was in, and the ones it is in now, are stale
+      await this.publishCacheInvalidation(existingEvent ? [existingEvent, savedEvent] : [savedEvent])
+
       // Trigger real-time updates
       await this.triggerRealtimeUpdate('event_update', {
         event_id: existingEvent?.id,
@@ -341,7 +351,7 @@ class WebhookProcessor {
       const externalId = eventData.id || eventData.event_id
 
       // Mark event as deleted instead of hard delete
-      const { error } = await supabase
+      const { data: deletedEvents, error } = await supabase
         .from('events')
         .update({
           status: 'deleted',
@@ -350,9 +360,12 @@ class WebhookProcessor {
         })
         .eq('external_id', externalId)
         .eq('source', webhook.source)
+        .select('id, city_name, category, date')
 
       if (error) throw error
 
+      await this.publishCacheInvalidation(deletedEvents || [])
+
       // Trigger real-time updates
       await this.triggerRealtimeUpdate('event_deleted', {
         external_id: externalId,
@@ -686,6 +699,40 @@ class WebhookProcessor {
     }
   }
 
+  /**
+   * Tell the app which events changed so it drops cached listings that
+   * include them. Needs APP_URL and the app's CRON_SECRET.
+   */
+  private async publishCacheInvalidation(events: any[]): Promise<void> {
+    const appUrl = Deno.env.get('APP_URL')
+    const rows = events.filter(event => event?.id)
+    if (!appUrl || rows.length === 0) return
+
+    try {
+      const response = await fetch(`${appUrl}/api/cache/invalidate`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Authorization': `Bearer ${Deno.env.get('CRON_SECRET') ?? ''}`
+        },
+        body: JSON.stringify({
+          events: rows.map(event => ({
+            id: event.id,
+            city_name: event.city_name,
+            category: event.category,
+            date: event.date
+          }))
+        })
+      })
+
+      if (!response.ok) {
+        console.error(`Cache invalidation returned ${response.status}`)
+      }
+    } catch (error) {
+      console.error('Failed to publish cache invalidation:', error)
+    }
+  }
+
   private async cleanupOldWebhooks(): Promise<void> {
     const cutoffDate = new Date()
     cutoffDate.setDate(cutoffDate.getDate() - 7) // Keep webhooks for 7 days
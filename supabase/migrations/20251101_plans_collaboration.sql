@@ -0,0 +1,160 @@
+-- Plans & Collaboration Migration
+-- Brings the plan tables from db/PLANS.sql into the migrated schema.
+-- Plan items are built from saved events, which are keyed by provider IDs
+-- (Ticketmaster, Eventbrite, ...) rather than rows in `events`, so
+-- plan_events stores the event id as TEXT plus a JSONB snapshot.
+
+-- Plans - user-created event collections
+CREATE TABLE IF NOT EXISTS plans (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id TEXT NOT NULL,
+  name VARCHAR(255) NOT NULL,
+  description TEXT,
+  date DATE,
+  city TEXT,
+  is_public BOOLEAN DEFAULT FALSE,
+  is_template BOOLEAN DEFAULT FALSE,
+  share_token VARCHAR(50) UNIQUE,
+  view_count INTEGER DEFAULT 0,
+  notes TEXT,
+  metadata JSONB DEFAULT '{}',
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  deleted_at TIMESTAMPTZ
+);
+
+-- Events within plans (snapshot of the saved event)
+CREATE TABLE IF NOT EXISTS plan_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  plan_id UUID NOT NULL REFERENCES plans(id) ON DELETE CASCADE,
+  event_id TEXT NOT NULL,
+  event_data JSONB NOT NULL,
+  order_position INTEGER NOT NULL DEFAULT 0,
+  notes TEXT,
+  added_by TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(plan_id, event_id)
+);
+
+-- Plan collaborators
+CREATE TABLE IF NOT EXISTS plan_collaborators (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  plan_id UUID NOT NULL REFERENCES plans(id) ON DELETE CASCADE,
+  user_id TEXT NOT NULL,
+  role VARCHAR(20) DEFAULT 'viewer' CHECK (role IN ('owner', 'editor', 'viewer')),
+  invited_by TEXT,
+  invited_at TIMESTAMPTZ DEFAULT NOW(),
+  accepted_at TIMESTAMPTZ,
+  permissions JSONB DEFAULT '{}',
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(plan_id, user_id)
+);
+
+-- Plan invitations (token-based, for users and non-users)
+CREATE TABLE IF NOT EXISTS plan_invitations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  plan_id UUID NOT NULL REFERENCES plans(id) ON DELETE CASCADE,
+  email VARCHAR(255) NOT NULL,
+  invited_by TEXT NOT NULL,
+  invitation_token VARCHAR(100) UNIQUE NOT NULL,
+  role VARCHAR(20) DEFAULT 'viewer' CHECK (role IN ('editor', 'viewer')),
+  message TEXT,
+  expires_at TIMESTAMPTZ DEFAULT NOW() + INTERVAL '7 days',
+  accepted_at TIMESTAMPTZ,
+  accepted_by_user_id TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Plan templates library
+CREATE TABLE IF NOT EXISTS plan_templates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  created_by TEXT,
+  name VARCHAR(255) NOT NULL,
+  description TEXT,
+  category VARCHAR(50), -- date_night, weekend_trip, bar_crawl, etc.
+  city TEXT,
+  tags JSONB DEFAULT '[]',
+  event_count INTEGER DEFAULT 0,
+  use_count INTEGER DEFAULT 0,
+  is_featured BOOLEAN DEFAULT FALSE,
+  is_public BOOLEAN DEFAULT TRUE,
+  template_data JSONB NOT NULL, -- Stores event criteria, not specific events
+  preview_image_url TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_plans_user ON plans(user_id) WHERE deleted_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_plan_events_plan ON plan_events(plan_id, order_position);
+CREATE INDEX IF NOT EXISTS idx_plan_collaborators_plan ON plan_collaborators(plan_id);
+CREATE INDEX IF NOT EXISTS idx_plan_collaborators_user ON plan_collaborators(user_id);
+CREATE INDEX IF NOT EXISTS idx_plan_invitations_plan ON plan_invitations(plan_id);
+CREATE INDEX IF NOT EXISTS idx_plan_invitations_token ON plan_invitations(invitation_token) WHERE accepted_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_plan_templates_category ON plan_templates(category) WHERE is_public = TRUE;
+
+-- Triggers
+CREATE TRIGGER update_plans_updated_at
+  BEFORE UPDATE ON plans
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_plan_events_updated_at
+  BEFORE UPDATE ON plan_events
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_plan_collaborators_updated_at
+  BEFORE UPDATE ON plan_collaborators
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+CREATE TRIGGER update_plan_templates_updated_at
+  BEFORE UPDATE ON plan_templates
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- RLS Policies
+-- Role checks (owner/editor/viewer) are enforced in the /api/plans routes,
+-- which use the service role. Direct client access is limited to members.
+ALTER TABLE plans ENABLE ROW LEVEL SECURITY;
+ALTER TABLE plan_events ENABLE ROW LEVEL SECURITY;
+ALTER TABLE plan_collaborators ENABLE ROW LEVEL SECURITY;
+ALTER TABLE plan_invitations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE plan_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Members can view plans" ON plans
+  FOR SELECT USING (
+    is_public = TRUE
+    OR user_id = auth.uid()::text
+    OR EXISTS (
+      SELECT 1 FROM plan_collaborators pc
+      WHERE pc.plan_id = plans.id AND pc.user_id = auth.uid()::text
+    )
+  );
+
+CREATE POLICY "Members can view plan events" ON plan_events
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM plans p
+      LEFT JOIN plan_collaborators pc ON p.id = pc.plan_id
+      WHERE p.id = plan_events.plan_id
+      AND (p.is_public = TRUE OR p.user_id = auth.uid()::text OR pc.user_id = auth.uid()::text)
+    )
+  );
+
+CREATE POLICY "Members can view collaborators" ON plan_collaborators
+  FOR SELECT USING (
+    user_id = auth.uid()::text
+    OR EXISTS (
+      SELECT 1 FROM plans p WHERE p.id = plan_collaborators.plan_id AND p.user_id = auth.uid()::text
+    )
+  );
+
+CREATE POLICY "Public templates are viewable" ON plan_templates
+  FOR SELECT USING (is_public = TRUE OR created_by = auth.uid()::text);
+
+COMMENT ON TABLE plan_events IS 'Ordered plan items, each a snapshot of a saved event';
+COMMENT ON TABLE plan_invitations IS 'Single-use invitation tokens granting editor or viewer access to a plan';
@@ -0,0 +1,44 @@
+-- Calendar Feed Subscriptions Migration
+-- Tokenized webcal:// feeds of a user's saved events
+
+-- One active feed token per user; rotating revokes the old token
+CREATE TABLE IF NOT EXISTS calendar_feeds (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id TEXT NOT NULL,
+  token TEXT UNIQUE NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  last_accessed_at TIMESTAMPTZ,
+  revoked_at TIMESTAMPTZ
+);
+
+-- Last published state per event, used for SEQUENCE bumps and cancellations
+CREATE TABLE IF NOT EXISTS calendar_feed_entries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id TEXT NOT NULL,
+  event_id TEXT NOT NULL,
+  uid TEXT NOT NULL,
+  sequence INTEGER NOT NULL DEFAULT 0,
+  status TEXT NOT NULL DEFAULT 'CONFIRMED' CHECK (status IN ('CONFIRMED', 'CANCELLED')),
+  dtstart TIMESTAMPTZ NOT NULL,
+  dtend TIMESTAMPTZ NOT NULL,
+  summary TEXT NOT NULL,
+  location TEXT,
+  description TEXT,
+  url TEXT,
+  cancelled_at TIMESTAMPTZ,
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE(user_id, event_id)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_calendar_feeds_active_user ON calendar_feeds(user_id) WHERE revoked_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_calendar_feeds_token ON calendar_feeds(token) WHERE revoked_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_calendar_feed_entries_user ON calendar_feed_entries(user_id);
+
+-- Feeds are served by token through the service role; no direct client access
+ALTER TABLE calendar_feeds ENABLE ROW LEVEL SECURITY;
+ALTER TABLE calendar_feed_entries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own calendar feeds" ON calendar_feeds
+  FOR SELECT USING (user_id = auth.uid()::text);
+
+COMMENT ON TABLE calendar_feed_entries IS 'Last published VEVENT state per saved event, for stable UIDs and SEQUENCE tracking';
@@ -0,0 +1,18 @@
+-- Saved Events Sync Migration
+-- Cross-device sync for saved events. Unsaves become tombstones
+-- (deleted_at) instead of row deletes so a stale device can't resurrect
+-- an event it never saw removed. changed_at is the client-side time of
+-- the save/unsave and decides conflicts (last writer wins).
+
+ALTER TABLE saved_events ADD COLUMN IF NOT EXISTS changed_at TIMESTAMPTZ;
+ALTER TABLE saved_events ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMPTZ;
+
+-- Backfill existing saves with their last write time
+UPDATE saved_events SET changed_at = COALESCE(updated_at, created_at, NOW()) WHERE changed_at IS NULL;
+ALTER TABLE saved_events ALTER COLUMN changed_at SET DEFAULT NOW();
+
+CREATE INDEX IF NOT EXISTS idx_saved_events_user_live
+  ON saved_events(user_id, created_at DESC) WHERE deleted_at IS NULL;
+
+COMMENT ON COLUMN saved_events.changed_at IS 'Client time of the last save/unsave; newer operations win on sync';
+COMMENT ON COLUMN saved_events.deleted_at IS 'Set when unsaved; the row is kept as a tombstone for sync';
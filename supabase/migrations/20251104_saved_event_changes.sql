@@ -0,0 +1,44 @@
+-- Saved Event Changes Migration
+-- Change log for saved events. A cron job re-resolves each saved
+-- Ticketmaster/Eventbrite event against its provider, diffs it with the
+-- snapshot in event_data and records what moved here. Unseen rows drive
+-- the in-app badge; material rows are pushed/emailed once (notified_at).
+
+CREATE TABLE IF NOT EXISTS saved_event_changes (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id TEXT NOT NULL,
+  event_id TEXT NOT NULL,
+  changes JSONB NOT NULL DEFAULT '[]',
+  summary TEXT NOT NULL,
+  material BOOLEAN NOT NULL DEFAULT FALSE,
+  detected_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  seen_at TIMESTAMPTZ,
+  notified_at TIMESTAMPTZ
+);
+
+CREATE INDEX IF NOT EXISTS idx_saved_event_changes_user_unseen
+  ON saved_event_changes(user_id, detected_at DESC) WHERE seen_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_saved_event_changes_event
+  ON saved_event_changes(user_id, event_id, detected_at DESC);
+
+-- When each saved event was last compared with its provider
+ALTER TABLE saved_events ADD COLUMN IF NOT EXISTS last_checked_at TIMESTAMPTZ;
+
+CREATE INDEX IF NOT EXISTS idx_saved_events_last_checked
+  ON saved_events(last_checked_at NULLS FIRST) WHERE deleted_at IS NULL;
+
+ALTER TABLE saved_event_changes ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own saved event changes" ON saved_event_changes;
+CREATE POLICY "Users can view their own saved event changes"
+  ON saved_event_changes FOR SELECT
+  USING (auth.uid()::text = user_id);
+
+DROP POLICY IF EXISTS "Users can mark their own saved event changes seen" ON saved_event_changes;
+CREATE POLICY "Users can mark their own saved event changes seen"
+  ON saved_event_changes FOR UPDATE
+  USING (auth.uid()::text = user_id);
+
+COMMENT ON TABLE saved_event_changes IS 'Detected time/venue/price/status changes to saved events';
+COMMENT ON COLUMN saved_event_changes.material IS 'Material changes notify the user by push or email';
+COMMENT ON COLUMN saved_events.last_checked_at IS 'Last time the staleness job compared this event with its provider';
@@ -0,0 +1,39 @@
+-- Interaction Records Migration
+-- Server-side history of the personalization signals the browser used to
+-- keep only in localStorage: tracked interactions (click/save/search/view),
+-- thumbs votes and seen events. Devices upload batches through
+-- /api/interactions and hydrate their local stores from the merged history.
+--
+-- idempotency_key is generated on the device when the signal happens, so a
+-- batch retried after a dropped response is not counted twice.
+
+CREATE TABLE IF NOT EXISTS interaction_records (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id TEXT NOT NULL,
+  idempotency_key TEXT NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('interaction', 'vote', 'seen')),
+  event_id TEXT,
+  payload JSONB NOT NULL DEFAULT '{}',
+  occurred_at TIMESTAMPTZ NOT NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (user_id, idempotency_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_interaction_records_user_kind_time
+  ON interaction_records(user_id, kind, occurred_at DESC);
+
+ALTER TABLE interaction_records ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own interactions" ON interaction_records;
+CREATE POLICY "Users can view their own interactions"
+  ON interaction_records FOR SELECT
+  USING (auth.uid()::text = user_id);
+
+DROP POLICY IF EXISTS "Users can delete their own interactions" ON interaction_records;
+CREATE POLICY "Users can delete their own interactions"
+  ON interaction_records FOR DELETE
+  USING (auth.uid()::text = user_id);
+
+COMMENT ON TABLE interaction_records IS 'Personalization signals (interactions, votes, seen events) synced from devices';
+COMMENT ON COLUMN interaction_records.idempotency_key IS 'Device-generated key; replays of the same signal are ignored';
+COMMENT ON COLUMN interaction_records.payload IS 'InteractionEvent for interactions, { vote } for votes, { source } for seen events';
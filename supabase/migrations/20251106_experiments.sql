@@ -0,0 +1,61 @@
+-- Experiments Migration
+-- A/B experiments for ranking variants. Units (a user id, or an anonymous
+-- device id before sign-in) are bucketed by hash, so assignment needs no
+-- write; the first exposure is stored so a unit keeps its variant even if
+-- weights or allocation change later.
+--
+-- The admin report reads exposures and the impression/click/save outcomes
+-- logged by the surfaces running the experiment.
+
+CREATE TABLE IF NOT EXISTS experiments (
+  key TEXT PRIMARY KEY,
+  description TEXT NOT NULL DEFAULT '',
+  status TEXT NOT NULL DEFAULT 'draft' CHECK (status IN ('draft', 'running', 'stopped')),
+  traffic_allocation NUMERIC NOT NULL DEFAULT 1 CHECK (traffic_allocation >= 0 AND traffic_allocation <= 1),
+  variants JSONB NOT NULL DEFAULT '[]',
+  killed BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS experiment_exposures (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  experiment_key TEXT NOT NULL REFERENCES experiments(key) ON DELETE CASCADE,
+  unit_id TEXT NOT NULL,
+  user_id TEXT,
+  variant TEXT NOT NULL,
+  exposed_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (experiment_key, unit_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_experiment_exposures_variant
+  ON experiment_exposures(experiment_key, variant);
+
+CREATE TABLE IF NOT EXISTS experiment_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  experiment_key TEXT NOT NULL REFERENCES experiments(key) ON DELETE CASCADE,
+  unit_id TEXT NOT NULL,
+  variant TEXT NOT NULL,
+  event_type TEXT NOT NULL CHECK (event_type IN ('impression', 'click', 'save')),
+  event_id TEXT,
+  occurred_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_experiment_events_variant_type
+  ON experiment_events(experiment_key, variant, event_type);
+
+-- Only the service role reads or writes these tables (through the API)
+ALTER TABLE experiments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE experiment_exposures ENABLE ROW LEVEL SECURITY;
+ALTER TABLE experiment_events ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own exposures" ON experiment_exposures;
+CREATE POLICY "Users can view their own exposures"
+  ON experiment_exposures FOR SELECT
+  USING (auth.uid()::text = user_id);
+
+COMMENT ON TABLE experiments IS 'A/B experiment definitions; killed sends everyone to the control variant';
+COMMENT ON COLUMN experiments.variants IS 'Array of { name, weight, config }; the first variant is the control';
+COMMENT ON COLUMN experiments.traffic_allocation IS 'Share of units enrolled (0-1); the rest see control and are not logged';
+COMMENT ON TABLE experiment_exposures IS 'First exposure per unit; pins the unit to its variant';
+COMMENT ON TABLE experiment_events IS 'Impressions, clicks and saves on experiment surfaces, for the admin report';
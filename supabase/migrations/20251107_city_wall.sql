@@ -0,0 +1,157 @@
+-- City Wall Migration
+-- Community posts per city, optionally about an event or venue, with
+-- likes, comments, reports and a moderation log. Writes go through the
+-- /api/wall routes (service role), which enforce rate limits and
+-- moderation. Clients only read visible rows, and the realtime stream
+-- relays inserts/updates on these tables to open walls.
+
+-- Posts
+CREATE TABLE IF NOT EXISTS wall_posts (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  city_slug VARCHAR(100) NOT NULL,
+  user_id TEXT NOT NULL,
+  author_name VARCHAR(100) NOT NULL,
+  author_avatar_url TEXT,
+  content TEXT NOT NULL CHECK (char_length(content) BETWEEN 1 AND 2000),
+  image_url TEXT,
+  event_id TEXT,                -- Provider event id, as in saved events
+  event_title TEXT,
+  venue_name TEXT,
+  like_count INTEGER NOT NULL DEFAULT 0,
+  comment_count INTEGER NOT NULL DEFAULT 0,
+  report_count INTEGER NOT NULL DEFAULT 0,
+  hidden BOOLEAN NOT NULL DEFAULT FALSE,
+  hidden_reason TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Comments (city_slug is copied from the post so the stream can filter by city)
+CREATE TABLE IF NOT EXISTS wall_comments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  post_id UUID NOT NULL REFERENCES wall_posts(id) ON DELETE CASCADE,
+  city_slug VARCHAR(100) NOT NULL,
+  user_id TEXT NOT NULL,
+  author_name VARCHAR(100) NOT NULL,
+  author_avatar_url TEXT,
+  content TEXT NOT NULL CHECK (char_length(content) BETWEEN 1 AND 500),
+  report_count INTEGER NOT NULL DEFAULT 0,
+  hidden BOOLEAN NOT NULL DEFAULT FALSE,
+  hidden_reason TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Likes
+CREATE TABLE IF NOT EXISTS wall_likes (
+  post_id UUID NOT NULL REFERENCES wall_posts(id) ON DELETE CASCADE,
+  user_id TEXT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (post_id, user_id)
+);
+
+-- Reports (one per reporter per post or comment)
+CREATE TABLE IF NOT EXISTS wall_reports (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  post_id UUID NOT NULL REFERENCES wall_posts(id) ON DELETE CASCADE,
+  comment_id UUID REFERENCES wall_comments(id) ON DELETE CASCADE,
+  reporter_id TEXT NOT NULL,
+  reason VARCHAR(20) NOT NULL CHECK (reason IN ('spam', 'harassment', 'inappropriate', 'misinformation', 'other')),
+  details TEXT,
+  resolved_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Hide/restore log; also how the stream learns a row left the wall
+CREATE TABLE IF NOT EXISTS wall_moderation_actions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  city_slug VARCHAR(100) NOT NULL,
+  post_id UUID NOT NULL REFERENCES wall_posts(id) ON DELETE CASCADE,
+  comment_id UUID REFERENCES wall_comments(id) ON DELETE CASCADE,
+  action VARCHAR(10) NOT NULL CHECK (action IN ('hide', 'restore')),
+  reason TEXT,
+  actor_id TEXT,                -- NULL when hidden automatically by reports
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_wall_posts_city ON wall_posts(city_slug, created_at DESC) WHERE hidden = FALSE;
+CREATE INDEX IF NOT EXISTS idx_wall_posts_user ON wall_posts(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_wall_comments_post ON wall_comments(post_id, created_at) WHERE hidden = FALSE;
+CREATE INDEX IF NOT EXISTS idx_wall_comments_user ON wall_comments(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_wall_likes_user ON wall_likes(user_id);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_wall_reports_post_reporter ON wall_reports(post_id, reporter_id) WHERE comment_id IS NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_wall_reports_comment_reporter ON wall_reports(comment_id, reporter_id) WHERE comment_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_wall_reports_open ON wall_reports(created_at DESC) WHERE resolved_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_wall_moderation_city ON wall_moderation_actions(city_slug, created_at DESC);
+
+-- Triggers
+CREATE TRIGGER update_wall_posts_updated_at
+  BEFORE UPDATE ON wall_posts
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Like/comment counters, kept in the database so concurrent writes can't drift
+CREATE OR REPLACE FUNCTION update_wall_post_counts()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_TABLE_NAME = 'wall_likes' THEN
+    UPDATE wall_posts
+    SET like_count = (SELECT COUNT(*) FROM wall_likes WHERE post_id = COALESCE(NEW.post_id, OLD.post_id))
+    WHERE id = COALESCE(NEW.post_id, OLD.post_id);
+  ELSE
+    UPDATE wall_posts
+    SET comment_count = (
+      SELECT COUNT(*) FROM wall_comments
+      WHERE post_id = COALESCE(NEW.post_id, OLD.post_id) AND hidden = FALSE
+    )
+    WHERE id = COALESCE(NEW.post_id, OLD.post_id);
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER update_wall_like_count
+  AFTER INSERT OR DELETE ON wall_likes
+  FOR EACH ROW
+  EXECUTE FUNCTION update_wall_post_counts();
+
+CREATE TRIGGER update_wall_comment_count
+  AFTER INSERT OR UPDATE OF hidden OR DELETE ON wall_comments
+  FOR EACH ROW
+  EXECUTE FUNCTION update_wall_post_counts();
+
+-- RLS Policies
+-- Reports stay private to the service role; everything else is readable
+-- only while visible.
+ALTER TABLE wall_posts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE wall_comments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE wall_likes ENABLE ROW LEVEL SECURITY;
+ALTER TABLE wall_reports ENABLE ROW LEVEL SECURITY;
+ALTER TABLE wall_moderation_actions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Visible wall posts are public" ON wall_posts;
+CREATE POLICY "Visible wall posts are public" ON wall_posts
+  FOR SELECT USING (hidden = FALSE);
+
+DROP POLICY IF EXISTS "Visible wall comments are public" ON wall_comments;
+CREATE POLICY "Visible wall comments are public" ON wall_comments
+  FOR SELECT USING (hidden = FALSE);
+
+DROP POLICY IF EXISTS "Users can view own wall likes" ON wall_likes;
+CREATE POLICY "Users can view own wall likes" ON wall_likes
+  FOR SELECT USING (user_id = auth.uid()::text);
+
+DROP POLICY IF EXISTS "Wall moderation actions are public" ON wall_moderation_actions;
+CREATE POLICY "Wall moderation actions are public" ON wall_moderation_actions
+  FOR SELECT USING (TRUE);
+
+-- Realtime delivery to the city wall stream
+ALTER PUBLICATION supabase_realtime ADD TABLE wall_posts, wall_comments, wall_moderation_actions;
+
+-- Public bucket for post images; uploads go through /api/wall/uploads
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('wall-images', 'wall-images', TRUE)
+ON CONFLICT (id) DO NOTHING;
+
+COMMENT ON TABLE wall_posts IS 'City wall posts; hidden rows are kept for moderation review';
+COMMENT ON TABLE wall_moderation_actions IS 'Hide/restore log for wall posts and comments (actor NULL = auto-hidden by reports)';
@@ -0,0 +1,63 @@
+-- Event Series Migration
+-- Recurring events (weekly trivia, residencies) as a series with an RRULE,
+-- linked to the individual occurrence rows in events. Occurrences keep their
+-- own ids, so saves and reminders still target a specific date; moved and
+-- cancelled dates are recorded per occurrence. Written by the
+-- /api/cron/event-series job (service role); readable by everyone.
+
+-- Series
+CREATE TABLE IF NOT EXISTS event_series (
+  id TEXT PRIMARY KEY,
+  series_key TEXT NOT NULL UNIQUE,    -- Normalized title + venue the occurrences were grouped by
+  title TEXT NOT NULL,
+  venue_name TEXT,
+  rrule TEXT NOT NULL,                -- e.g. FREQ=WEEKLY;BYDAY=TU
+  dtstart TIMESTAMP NOT NULL,         -- Local wall-clock time in the series timezone
+  timezone TEXT,
+  label TEXT NOT NULL,                -- "Every Tuesday"
+  exdates DATE[] NOT NULL DEFAULT '{}',
+  next_date DATE,
+  occurrence_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Occurrences, keyed by where the rule puts them (RECURRENCE-ID)
+CREATE TABLE IF NOT EXISTS event_series_occurrences (
+  series_id TEXT NOT NULL REFERENCES event_series(id) ON DELETE CASCADE,
+  original_start TIMESTAMP NOT NULL,
+  event_id TEXT NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+  local_start TIMESTAMP NOT NULL,     -- Differs from original_start when moved
+  status VARCHAR(10) NOT NULL DEFAULT 'scheduled' CHECK (status IN ('scheduled', 'moved', 'cancelled')),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (series_id, original_start)
+);
+
+ALTER TABLE events ADD COLUMN IF NOT EXISTS series_id TEXT REFERENCES event_series(id) ON DELETE SET NULL;
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_event_series_next_date ON event_series(next_date);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_event_series_occurrences_event ON event_series_occurrences(event_id);
+CREATE INDEX IF NOT EXISTS idx_events_series ON events(series_id) WHERE series_id IS NOT NULL;
+
+-- Triggers
+DROP TRIGGER IF EXISTS update_event_series_updated_at ON event_series;
+CREATE TRIGGER update_event_series_updated_at
+  BEFORE UPDATE ON event_series
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- RLS Policies
+ALTER TABLE event_series ENABLE ROW LEVEL SECURITY;
+ALTER TABLE event_series_occurrences ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Event series are public" ON event_series;
+CREATE POLICY "Event series are public" ON event_series
+  FOR SELECT USING (TRUE);
+
+DROP POLICY IF EXISTS "Event series occurrences are public" ON event_series_occurrences;
+CREATE POLICY "Event series occurrences are public" ON event_series_occurrences
+  FOR SELECT USING (TRUE);
+
+COMMENT ON TABLE event_series IS 'Recurring event series detected from listed occurrences';
+COMMENT ON TABLE event_series_occurrences IS 'Listed occurrences of a series, with moved and cancelled dates';
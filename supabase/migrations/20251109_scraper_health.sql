@@ -0,0 +1,56 @@
+-- Scraper Health Migration
+-- One row per scrape of a source target (or of a single venue), used to
+-- compute rolling success rates, zero-result streaks, selector misses and
+-- latency. A target or venue whose yield collapses is quarantined: it keeps being
+-- probed but its results are not written until it recovers or an admin
+-- releases it through /api/admin/scraper-health.
+
+-- Runs
+CREATE TABLE IF NOT EXISTS scraper_runs (
+  id BIGSERIAL PRIMARY KEY,
+  health_key TEXT NOT NULL,           -- source, source:target_id or source:venue_id
+  source TEXT NOT NULL,
+  target_id TEXT,                     -- Scrape target config id, for sources with several targets
+  venue_id TEXT,
+  started_at TIMESTAMPTZ NOT NULL,
+  duration_ms INTEGER NOT NULL DEFAULT 0,
+  success BOOLEAN NOT NULL,
+  events_found INTEGER NOT NULL DEFAULT 0,
+  selector_misses INTEGER NOT NULL DEFAULT 0,
+  error TEXT,
+  created_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Quarantine state per target/venue; released rows are kept for history
+CREATE TABLE IF NOT EXISTS scraper_quarantine (
+  health_key TEXT PRIMARY KEY,
+  source TEXT NOT NULL,
+  target_id TEXT,
+  venue_id TEXT,
+  reason VARCHAR(20) NOT NULL CHECK (reason IN ('yield_collapse', 'zero_result_streak', 'failure_rate')),
+  detail TEXT,
+  quarantined_at TIMESTAMPTZ NOT NULL,
+  healthy_runs INTEGER NOT NULL DEFAULT 0,
+  released_at TIMESTAMPTZ,
+  released_by TEXT,                   -- 'auto' or the admin user id
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_scraper_runs_key_started ON scraper_runs(health_key, started_at DESC);
+CREATE INDEX IF NOT EXISTS idx_scraper_runs_started ON scraper_runs(started_at DESC);
+CREATE INDEX IF NOT EXISTS idx_scraper_quarantine_active ON scraper_quarantine(health_key) WHERE released_at IS NULL;
+
+-- Triggers
+DROP TRIGGER IF EXISTS update_scraper_quarantine_updated_at ON scraper_quarantine;
+CREATE TRIGGER update_scraper_quarantine_updated_at
+  BEFORE UPDATE ON scraper_quarantine
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Only the service role reads or writes these tables (scrapers and the API)
+ALTER TABLE scraper_runs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE scraper_quarantine ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE scraper_runs IS 'Per-run scraper outcomes behind the health scoreboard';
+COMMENT ON TABLE scraper_quarantine IS 'Scrape targets/venues whose results are withheld; active while released_at is null';
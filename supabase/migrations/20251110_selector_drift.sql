@@ -0,0 +1,53 @@
+-- Selector Drift Migration
+-- The venue scraper fingerprints each page its configured selectors work
+-- on. When a page stops yielding events, it is compared against that
+-- fingerprint; selectors that stopped matching are reported with suggested
+-- replacements and a diff against venue-configs.ts for maintainers to
+-- review through /api/admin/selector-drift.
+
+-- Last good fingerprint per venue location
+CREATE TABLE IF NOT EXISTS venue_page_fingerprints (
+  venue_id TEXT NOT NULL,
+  location_id TEXT NOT NULL,
+  url TEXT NOT NULL,
+  fingerprint JSONB NOT NULL,         -- Selector match counts, layout signatures, sample titles/dates
+  captured_at TIMESTAMPTZ NOT NULL,
+  PRIMARY KEY (venue_id, location_id)
+);
+
+-- Drift reports; at most one open report per venue location
+CREATE TABLE IF NOT EXISTS selector_drift_reports (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  venue_id TEXT NOT NULL,
+  location_id TEXT NOT NULL,
+  url TEXT NOT NULL,
+  detected_at TIMESTAMPTZ NOT NULL,
+  structure_similarity REAL NOT NULL DEFAULT 0,
+  drifted JSONB NOT NULL DEFAULT '[]',
+  suggestions JSONB NOT NULL DEFAULT '[]',
+  diff TEXT,                          -- Unified diff against src/lib/scraping/config/venue-configs.ts
+  status VARCHAR(10) NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'accepted', 'dismissed')),
+  reviewed_by TEXT,
+  reviewed_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Indexes
+CREATE UNIQUE INDEX IF NOT EXISTS idx_selector_drift_reports_open
+  ON selector_drift_reports(venue_id, location_id) WHERE status = 'open';
+CREATE INDEX IF NOT EXISTS idx_selector_drift_reports_status ON selector_drift_reports(status, detected_at DESC);
+
+-- Triggers
+DROP TRIGGER IF EXISTS update_selector_drift_reports_updated_at ON selector_drift_reports;
+CREATE TRIGGER update_selector_drift_reports_updated_at
+  BEFORE UPDATE ON selector_drift_reports
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Only the service role reads or writes these tables (scrapers and the API)
+ALTER TABLE venue_page_fingerprints ENABLE ROW LEVEL SECURITY;
+ALTER TABLE selector_drift_reports ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE venue_page_fingerprints IS 'Structure of each venue page the last time its selectors produced events';
+COMMENT ON TABLE selector_drift_reports IS 'Selectors that stopped matching, with suggested replacements awaiting review';
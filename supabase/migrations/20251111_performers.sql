@@ -0,0 +1,96 @@
+-- Performers Migration
+-- Artists and acts extracted from event listings (Ticketmaster attractions,
+-- Songkick performances, Bandsintown lineups) and merged across sources by
+-- external id, MusicBrainz id or normalized name. Users follow performers
+-- for a city; /api/cron/performer-announcements notifies followers when a
+-- performer gets a new date there. Performers and lineups are written by
+-- the service role and readable by everyone.
+
+-- Performers
+CREATE TABLE IF NOT EXISTS performers (
+  id TEXT PRIMARY KEY,
+  name TEXT NOT NULL,
+  slug TEXT NOT NULL,                 -- Normalized name ("the-beaches" -> "beaches")
+  image_url TEXT,
+  genres TEXT[] NOT NULL DEFAULT '{}',
+  musicbrainz_id TEXT,
+  follower_count INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- The same performer's id at each source
+CREATE TABLE IF NOT EXISTS performer_external_ids (
+  source VARCHAR(20) NOT NULL CHECK (source IN ('ticketmaster', 'songkick', 'bandsintown')),
+  external_id TEXT NOT NULL,
+  performer_id TEXT NOT NULL REFERENCES performers(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (source, external_id)
+);
+
+-- Lineups
+CREATE TABLE IF NOT EXISTS event_performers (
+  event_id TEXT NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+  performer_id TEXT NOT NULL REFERENCES performers(id) ON DELETE CASCADE,
+  role VARCHAR(10) NOT NULL DEFAULT 'headliner' CHECK (role IN ('headliner', 'support')),
+  billing_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  announced_at TIMESTAMPTZ,           -- Set once followers have been told about the date
+  PRIMARY KEY (event_id, performer_id)
+);
+
+-- Follows
+CREATE TABLE IF NOT EXISTS performer_follows (
+  user_id TEXT NOT NULL,
+  performer_id TEXT NOT NULL REFERENCES performers(id) ON DELETE CASCADE,
+  city TEXT,                          -- Announce new dates in this city; NULL for none
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (user_id, performer_id)
+);
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_performers_slug ON performers(slug);
+CREATE UNIQUE INDEX IF NOT EXISTS idx_performers_musicbrainz ON performers(musicbrainz_id) WHERE musicbrainz_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_performer_external_ids_performer ON performer_external_ids(performer_id);
+CREATE INDEX IF NOT EXISTS idx_event_performers_performer ON event_performers(performer_id);
+CREATE INDEX IF NOT EXISTS idx_event_performers_unannounced ON event_performers(created_at) WHERE announced_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_performer_follows_performer ON performer_follows(performer_id);
+
+-- Triggers
+DROP TRIGGER IF EXISTS update_performers_updated_at ON performers;
+CREATE TRIGGER update_performers_updated_at
+  BEFORE UPDATE ON performers
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- RLS Policies
+ALTER TABLE performers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE performer_external_ids ENABLE ROW LEVEL SECURITY;
+ALTER TABLE event_performers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE performer_follows ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Performers are public" ON performers;
+CREATE POLICY "Performers are public" ON performers
+  FOR SELECT USING (TRUE);
+
+DROP POLICY IF EXISTS "Performer external ids are public" ON performer_external_ids;
+CREATE POLICY "Performer external ids are public" ON performer_external_ids
+  FOR SELECT USING (TRUE);
+
+DROP POLICY IF EXISTS "Event performers are public" ON event_performers;
+CREATE POLICY "Event performers are public" ON event_performers
+  FOR SELECT USING (TRUE);
+
+DROP POLICY IF EXISTS "Users can view their own follows" ON performer_follows;
+CREATE POLICY "Users can view their own follows" ON performer_follows
+  FOR SELECT USING (auth.uid()::text = user_id);
+
+DROP POLICY IF EXISTS "Users can manage their own follows" ON performer_follows;
+CREATE POLICY "Users can manage their own follows" ON performer_follows
+  FOR ALL USING (auth.uid()::text = user_id)
+  WITH CHECK (auth.uid()::text = user_id);
+
+COMMENT ON TABLE performers IS 'Artists and acts, merged across event sources';
+COMMENT ON TABLE performer_external_ids IS 'Ids of a performer at Ticketmaster, Songkick and Bandsintown';
+COMMENT ON TABLE event_performers IS 'Performers billed on each event, headliner first';
+COMMENT ON TABLE performer_follows IS 'Performers a user follows, and the city to announce new dates in';
@@ -0,0 +1,51 @@
+-- Venue Follows Migration
+-- Venues users follow explicitly, keyed by normalized venue name (and the
+-- city they were followed in, since names repeat across cities). When
+-- EventRepository.saveEvents or the ingestion pipeline inserts an event at
+-- a followed venue, an alert is queued per follower;
+-- /api/cron/venue-digests batches each user's queued alerts into one push
+-- notification or email.
+
+-- Follows
+CREATE TABLE IF NOT EXISTS venue_follows (
+  user_id TEXT NOT NULL,
+  venue_key TEXT NOT NULL,            -- Normalized name ("The Danforth Music Hall" -> "danforth-music-hall")
+  venue_name TEXT NOT NULL,           -- Name as shown when the user followed it
+  city TEXT,                          -- City of the followed venue; NULL matches the name anywhere
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (user_id, venue_key)
+);
+
+-- Newly listed events at followed venues, waiting for the next digest
+CREATE TABLE IF NOT EXISTS venue_event_alerts (
+  user_id TEXT NOT NULL,
+  event_id TEXT NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+  venue_key TEXT NOT NULL,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  notified_at TIMESTAMPTZ,            -- Set once the event went out in a digest
+  PRIMARY KEY (user_id, event_id)
+);
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_venue_follows_venue ON venue_follows(venue_key);
+CREATE INDEX IF NOT EXISTS idx_venue_event_alerts_pending ON venue_event_alerts(created_at) WHERE notified_at IS NULL;
+
+-- RLS Policies
+ALTER TABLE venue_follows ENABLE ROW LEVEL SECURITY;
+ALTER TABLE venue_event_alerts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own venue follows" ON venue_follows;
+CREATE POLICY "Users can view their own venue follows" ON venue_follows
+  FOR SELECT USING (auth.uid()::text = user_id);
+
+DROP POLICY IF EXISTS "Users can manage their own venue follows" ON venue_follows;
+CREATE POLICY "Users can manage their own venue follows" ON venue_follows
+  FOR ALL USING (auth.uid()::text = user_id)
+  WITH CHECK (auth.uid()::text = user_id);
+
+DROP POLICY IF EXISTS "Users can view their own venue alerts" ON venue_event_alerts;
+CREATE POLICY "Users can view their own venue alerts" ON venue_event_alerts
+  FOR SELECT USING (auth.uid()::text = user_id);
+
+COMMENT ON TABLE venue_follows IS 'Venues a user follows for newly listed events';
+COMMENT ON TABLE venue_event_alerts IS 'New events at followed venues, queued for the follower''s next digest';
@@ -0,0 +1,66 @@
+-- Saved Searches Migration
+-- Searches users save from the search page (query, category, price range,
+-- distance from a location, date window and QuickChips flags).
+-- /api/cron/saved-searches re-runs them against newly ingested events,
+-- records each match once and notifies at the search's frequency.
+
+-- Saved searches
+CREATE TABLE IF NOT EXISTS saved_searches (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id TEXT NOT NULL,
+  name VARCHAR(100) NOT NULL,
+  criteria JSONB NOT NULL,            -- SavedSearchCriteria
+  frequency VARCHAR(10) NOT NULL DEFAULT 'daily' CHECK (frequency IN ('instant', 'daily', 'weekly')),
+  last_checked_at TIMESTAMPTZ,        -- Events ingested before this have been matched
+  last_notified_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Events each search matched; a match is only ever sent once
+CREATE TABLE IF NOT EXISTS saved_search_matches (
+  search_id UUID NOT NULL REFERENCES saved_searches(id) ON DELETE CASCADE,
+  event_id TEXT NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+  matched_at TIMESTAMPTZ DEFAULT NOW(),
+  notified_at TIMESTAMPTZ,
+  PRIMARY KEY (search_id, event_id)
+);
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_saved_searches_user ON saved_searches(user_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_saved_searches_checked ON saved_searches(last_checked_at NULLS FIRST);
+CREATE INDEX IF NOT EXISTS idx_saved_search_matches_pending ON saved_search_matches(search_id) WHERE notified_at IS NULL;
+CREATE INDEX IF NOT EXISTS idx_events_created_at ON events(created_at);
+
+-- Triggers
+DROP TRIGGER IF EXISTS update_saved_searches_updated_at ON saved_searches;
+CREATE TRIGGER update_saved_searches_updated_at
+  BEFORE UPDATE ON saved_searches
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- RLS Policies
+ALTER TABLE saved_searches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE saved_search_matches ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Users can view their own saved searches" ON saved_searches;
+CREATE POLICY "Users can view their own saved searches" ON saved_searches
+  FOR SELECT USING (auth.uid()::text = user_id);
+
+DROP POLICY IF EXISTS "Users can manage their own saved searches" ON saved_searches;
+CREATE POLICY "Users can manage their own saved searches" ON saved_searches
+  FOR ALL USING (auth.uid()::text = user_id)
+  WITH CHECK (auth.uid()::text = user_id);
+
+DROP POLICY IF EXISTS "Users can view matches of their saved searches" ON saved_search_matches;
+CREATE POLICY "Users can view matches of their saved searches" ON saved_search_matches
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM saved_searches
+      WHERE saved_searches.id = saved_search_matches.search_id
+      AND saved_searches.user_id = auth.uid()::text
+    )
+  );
+
+COMMENT ON TABLE saved_searches IS 'Searches users saved for new-match alerts';
+COMMENT ON TABLE saved_search_matches IS 'Events each saved search matched, and when the match was sent';
@@ -0,0 +1,46 @@
+-- Geocode Cache Migration
+-- GeocodingService tries the venues table, Nominatim and an offline
+-- gazetteer in turn and stores the outcome per normalized query. Only
+-- venue, address or street level results with enough confidence get
+-- coordinates; anything else is kept without them and flagged for review
+-- through /api/admin/geocode-review instead of being pinned to a city centre.
+
+CREATE TABLE IF NOT EXISTS geocode_cache (
+  query_key TEXT PRIMARY KEY,         -- Normalized venue, address and city
+  query TEXT NOT NULL,
+  provider VARCHAR(20),               -- venues, nominatim, gazetteer or review
+  precision VARCHAR(15) NOT NULL DEFAULT 'none'
+    CHECK (precision IN ('venue', 'address', 'street', 'neighbourhood', 'city', 'region', 'none')),
+  confidence REAL NOT NULL DEFAULT 0,
+  latitude DECIMAL(10,8),             -- Accepted coordinates only
+  longitude DECIMAL(11,8),
+  candidate_latitude DECIMAL(10,8),   -- Rejected point result, for the reviewer
+  candidate_longitude DECIMAL(11,8),
+  formatted_address TEXT,
+  city VARCHAR(100),
+  state VARCHAR(100),
+  country VARCHAR(100),
+  postal_code VARCHAR(20),
+  needs_review BOOLEAN NOT NULL DEFAULT false,
+  reviewed_by TEXT,
+  reviewed_at TIMESTAMPTZ,
+  expires_at TIMESTAMPTZ,             -- NULL once reviewed
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_geocode_cache_review ON geocode_cache(updated_at DESC) WHERE needs_review;
+CREATE INDEX IF NOT EXISTS idx_geocode_cache_expires ON geocode_cache(expires_at) WHERE expires_at IS NOT NULL;
+
+-- Triggers
+DROP TRIGGER IF EXISTS update_geocode_cache_updated_at ON geocode_cache;
+CREATE TRIGGER update_geocode_cache_updated_at
+  BEFORE UPDATE ON geocode_cache
+  FOR EACH ROW
+  EXECUTE FUNCTION update_updated_at_column();
+
+-- Only the service role reads or writes the cache (scrapers and the API)
+ALTER TABLE geocode_cache ENABLE ROW LEVEL SECURITY;
+
+COMMENT ON TABLE geocode_cache IS 'Geocoding results per normalized location query, with low-confidence results awaiting review';
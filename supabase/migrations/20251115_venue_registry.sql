@@ -0,0 +1,43 @@
+-- Venue Registry Migration
+-- Scrapers and APIs list venues as free text, so one venue shows up as
+-- "The Danforth Music Hall", "Danforth Music Hall" and "Danforth Music
+-- Hall - Toronto". Listings now resolve to a canonical row in venues by
+-- alias, street address, coordinates or fuzzy name, and events carry its
+-- id in venue_id. Every listed name is kept in venue_aliases; admins merge
+-- and split venues through /api/admin/venues. Venue follows record the
+-- canonical venue too, so follows, venue pages and affinity share one id.
+
+-- Canonical venues
+ALTER TABLE venues ADD COLUMN IF NOT EXISTS normalized_address TEXT;   -- Street part of the address, normalized
+ALTER TABLE venues ADD COLUMN IF NOT EXISTS merged_into UUID REFERENCES venues(id);
+
+-- Names each venue is listed under
+CREATE TABLE IF NOT EXISTS venue_aliases (
+  alias_key TEXT NOT NULL,            -- Normalized name without a trailing city ("danforth-music-hall")
+  city_key TEXT NOT NULL DEFAULT '',  -- Normalized city it was listed in; '' when unknown
+  venue_id UUID NOT NULL REFERENCES venues(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,                 -- Name as listed
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  PRIMARY KEY (alias_key, city_key)
+);
+
+-- Follows key on the canonical venue where the name resolved to one
+ALTER TABLE venue_follows ADD COLUMN IF NOT EXISTS venue_id UUID REFERENCES venues(id) ON DELETE SET NULL;
+
+-- Indexes
+CREATE INDEX IF NOT EXISTS idx_venues_normalized_address ON venues(normalized_address) WHERE normalized_address IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_venues_city ON venues(city) WHERE merged_into IS NULL;
+CREATE INDEX IF NOT EXISTS idx_venues_merged_into ON venues(merged_into) WHERE merged_into IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_venue_aliases_venue ON venue_aliases(venue_id);
+CREATE INDEX IF NOT EXISTS idx_events_venue_id ON events(venue_id) WHERE venue_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_venue_follows_venue_id ON venue_follows(venue_id) WHERE venue_id IS NOT NULL;
+
+-- RLS Policies
+ALTER TABLE venue_aliases ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Venue aliases are public" ON venue_aliases;
+CREATE POLICY "Venue aliases are public" ON venue_aliases
+  FOR SELECT USING (TRUE);
+
+COMMENT ON TABLE venue_aliases IS 'Names a canonical venue is listed under, per city';
+COMMENT ON COLUMN venues.merged_into IS 'Set on a duplicate merged into another venue; its id redirects there';